@@ -8,6 +8,15 @@ import { AuthPage } from '@/pages/AuthPage';
 import { DashboardPage } from '@/pages/DashboardPage';
 import { ProfilePage } from '@/pages/ProfilePage';
 import { AboutPage } from '@/pages/AboutPage';
+import { ContentPage } from '@/pages/ContentPage';
+import { ProjectsPage } from '@/pages/ProjectsPage';
+import { BrandStrategyPage } from '@/pages/BrandStrategyPage';
+import { IntelligencePage } from '@/pages/IntelligencePage';
+import { PipelinePage } from '@/pages/PipelinePage';
+import { NotificationsPage } from '@/pages/NotificationsPage';
+import { VerifyEmailPage } from '@/pages/VerifyEmailPage';
+import { ForgotPasswordPage } from '@/pages/ForgotPasswordPage';
+import { ResetPasswordPage } from '@/pages/ResetPasswordPage';
 
 // Create a client
 const queryClient = new QueryClient({
@@ -28,6 +37,9 @@ function App() {
             <Route path="/" element={<HomePage />} />
             <Route path="/auth" element={<AuthPage />} />
             <Route path="/about" element={<AboutPage />} />
+            <Route path="/verify-email" element={<VerifyEmailPage />} />
+            <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+            <Route path="/reset-password" element={<ResetPasswordPage />} />
             <Route 
               path="/dashboard" 
               element={
@@ -36,6 +48,54 @@ function App() {
                 </ProtectedRoute>
               } 
             />
+            <Route 
+              path="/content" 
+              element={
+                <ProtectedRoute>
+                  <ContentPage />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/projects" 
+              element={
+                <ProtectedRoute>
+                  <ProjectsPage />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/brand-strategy" 
+              element={
+                <ProtectedRoute>
+                  <BrandStrategyPage />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/intelligence" 
+              element={
+                <ProtectedRoute>
+                  <IntelligencePage />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/pipeline" 
+              element={
+                <ProtectedRoute>
+                  <PipelinePage />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/notifications" 
+              element={
+                <ProtectedRoute>
+                  <NotificationsPage />
+                </ProtectedRoute>
+              } 
+            />
             <Route 
               path="/profile" 
               element={
@@ -1,7 +1,8 @@
 import React, { useEffect, useState } from 'react';
 import { Link, useLocation } from 'react-router-dom';
-import { User, Home, BarChart3, Info, LogOut, Menu, X, Sparkles } from 'lucide-react';
+import { User, Home, BarChart3, Info, LogOut, Menu, X, Sparkles, FileText, FolderKanban, Compass, Radar, Target, Bell } from 'lucide-react';
 import { useAuthStore } from '@/store/authStore';
+import { NotificationBell } from '@/components/notifications';
 
 export const Navigation: React.FC = () => {
   const location = useLocation();
@@ -15,6 +16,11 @@ export const Navigation: React.FC = () => {
   const navItems = [
     { path: '/', label: 'Home', icon: Home },
     { path: '/dashboard', label: 'Dashboard', icon: BarChart3, protected: true },
+    { path: '/content', label: 'Content', icon: FileText, protected: true },
+    { path: '/projects', label: 'Projects', icon: FolderKanban, protected: true },
+    { path: '/brand-strategy', label: 'Strategy', icon: Compass, protected: true },
+    { path: '/intelligence', label: 'Intelligence', icon: Radar, protected: true },
+    { path: '/pipeline', label: 'Pipeline', icon: Target, protected: true },
     { path: '/profile', label: 'Profile', icon: User, protected: true },
     { path: '/about', label: 'About', icon: Info },
   ];
@@ -64,6 +70,7 @@ export const Navigation: React.FC = () => {
             <div className="hidden md:flex items-center space-x-4">
               {isAuthenticated ? (
                 <div className="flex items-center space-x-3">
+                  <NotificationBell />
                   <div className="flex items-center space-x-2 px-3 py-1.5 bg-gray-50 rounded-xl">
                     <div className="w-6 h-6 bg-gradient-to-br from-primary-500 to-primary-600 rounded-full flex items-center justify-center">
                       <span className="text-white text-xs font-medium">
@@ -138,6 +145,14 @@ export const Navigation: React.FC = () => {
                         </div>
                         <span className="font-medium">{user?.name}</span>
                       </div>
+                      <Link
+                        to="/notifications"
+                        onClick={toggleMobileMenu}
+                        className="flex items-center space-x-3 px-4 py-3 text-gray-300 hover:text-white hover:bg-gray-700/50 rounded-xl transition-all duration-200"
+                      >
+                        <Bell size={18} />
+                        <span>Notifications</span>
+                      </Link>
                       <button
                         onClick={() => {
                           logout();
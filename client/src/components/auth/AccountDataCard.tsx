@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AlertTriangle, Database, Download, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { PasswordInput } from '@/components/ui/PasswordInput';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/Card';
+import { accountService } from '@/services/accountService';
+import { useAuthStore } from '@/store/authStore';
+
+const DELETE_CONFIRMATION = 'DELETE MY ACCOUNT';
+
+export const AccountDataCard: React.FC = () => {
+  const navigate = useNavigate();
+  const { deleteAccount } = useAuthStore();
+  const [isExporting, setIsExporting] = useState(false);
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    try {
+      setError(null);
+      setIsExporting(true);
+
+      const blob = await accountService.exportData();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `anidhi-export-${new Date().toISOString().substring(0, 10)}.zip`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export data:', error);
+      setError('Failed to export your data');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      setError(null);
+      setIsDeleting(true);
+      await deleteAccount(password, confirmation);
+      navigate('/');
+    } catch (error: any) {
+      setError(error.response?.data?.error || 'Failed to delete account');
+      setIsDeleting(false);
+    }
+  };
+
+  const cancelDelete = () => {
+    setIsConfirming(false);
+    setPassword('');
+    setConfirmation('');
+    setError(null);
+  };
+
+  return (
+    <Card variant="elevated">
+      <CardHeader>
+        <div className="flex items-center space-x-3">
+          <div className="w-10 h-10 bg-gradient-to-br from-gray-500 to-gray-600 rounded-xl flex items-center justify-center">
+            <Database className="text-white" size={20} />
+          </div>
+          <div>
+            <CardTitle>Your Data</CardTitle>
+            <CardDescription>Download everything we store about you, or erase it for good</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between">
+          <p className="body-small text-gray-500">
+            A zip with JSON for every record plus Markdown copies of your context and writing samples.
+          </p>
+          <Button variant="secondary" size="small" icon={Download} loading={isExporting} onClick={handleExport}>
+            Export data
+          </Button>
+        </div>
+
+        <div className="border-t border-gray-200 pt-6">
+          {!isConfirming ? (
+            <div className="flex items-center justify-between">
+              <p className="body-small text-gray-500">
+                Deleting your account removes your profile, content, projects and history permanently.
+              </p>
+              <Button variant="danger" size="small" icon={Trash2} onClick={() => setIsConfirming(true)}>
+                Delete account
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-xl flex items-center space-x-3">
+                <AlertTriangle size={20} className="text-red-500 flex-shrink-0" />
+                <p className="text-sm">
+                  This cannot be undone. Consider exporting your data first.
+                </p>
+              </div>
+
+              <PasswordInput
+                label="Current password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="current-password"
+              />
+
+              <Input
+                label={`Type "${DELETE_CONFIRMATION}" to confirm`}
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+              />
+
+              <div className="flex space-x-3">
+                <Button
+                  variant="danger"
+                  icon={Trash2}
+                  loading={isDeleting}
+                  disabled={!password || confirmation !== DELETE_CONFIRMATION}
+                  onClick={handleDelete}
+                >
+                  Permanently delete
+                </Button>
+                <Button variant="ghost" onClick={cancelDelete}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <p className="text-sm text-red-600">{error}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
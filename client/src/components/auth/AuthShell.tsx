@@ -0,0 +1,36 @@
+import React from 'react';
+import { LucideIcon } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/Card';
+
+interface AuthShellProps {
+  icon: LucideIcon;
+  title: string;
+  description: string;
+  children: React.ReactNode;
+}
+
+// Centered card layout for the standalone account pages (verify, forgot and reset password)
+export const AuthShell: React.FC<AuthShellProps> = ({ icon: Icon, title, description, children }) => {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary-50 via-white to-blue-50 flex items-center justify-center p-8">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <div className="flex items-center justify-center mb-6">
+            <div className="w-16 h-16 bg-gradient-to-br from-primary-500 to-primary-700 rounded-2xl flex items-center justify-center shadow-lg">
+              <Icon size={28} className="text-white" />
+            </div>
+          </div>
+
+          <h2 className="heading-2 mb-3">{title}</h2>
+          <p className="body text-gray-500">{description}</p>
+        </div>
+
+        <Card variant="elevated">
+          <CardContent className="p-8">
+            {children}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
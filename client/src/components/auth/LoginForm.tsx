@@ -2,7 +2,7 @@ import React from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { useAuthStore } from '@/store/authStore';
 import { Mail, Lock, LogIn, AlertCircle } from 'lucide-react';
 import { Input } from '@/components/ui/Input';
@@ -89,13 +89,12 @@ export const LoginForm: React.FC = () => {
           <span className="ml-2 text-sm text-gray-600">Remember me</span>
         </label>
         
-        <button
-          type="button"
+        <Link
+          to="/forgot-password"
           className="text-sm text-primary-600 hover:text-primary-700 font-medium"
-          disabled
         >
           Forgot password?
-        </button>
+        </Link>
       </div>
 
       <Button
@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import { LogOut, Monitor, ShieldCheck, Smartphone } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/Badge';
+import { LoadingState } from '@/components/ui/LoadingSpinner';
+import { authService } from '@/services/authService';
+import { Session } from '@/types';
+
+const isMobile = (userAgent?: string) => !!userAgent && /mobile|android|iphone|ipad/i.test(userAgent);
+
+// Short "Browser on OS" label from a user agent string
+const describeDevice = (userAgent?: string) => {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = ['Edg', 'Chrome', 'Firefox', 'Safari'].find(name => userAgent.includes(name));
+  const os = ['Windows', 'Mac OS', 'Android', 'iPhone', 'iPad', 'Linux'].find(name => userAgent.includes(name));
+
+  if (!browser && !os) return userAgent.substring(0, 60);
+  return `${browser === 'Edg' ? 'Edge' : browser || 'Browser'} on ${os || 'unknown OS'}`;
+};
+
+export const SessionList: React.FC = () => {
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const loadSessions = async () => {
+    try {
+      setError(null);
+      setSessions(await authService.getSessions());
+    } catch (error) {
+      console.error('Failed to load sessions:', error);
+      setError('Failed to load sessions');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<unknown>, failureMessage: string) => {
+    try {
+      setError(null);
+      await action();
+      await loadSessions();
+    } catch (error) {
+      console.error(`${failureMessage}:`, error);
+      setError(failureMessage);
+    }
+  };
+
+  const hasOtherSessions = sessions.some(session => !session.current);
+
+  return (
+    <Card variant="elevated">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-gradient-to-br from-gray-500 to-gray-600 rounded-xl flex items-center justify-center">
+              <ShieldCheck className="text-white" size={20} />
+            </div>
+            <div>
+              <CardTitle>Sessions</CardTitle>
+              <CardDescription>Devices that are signed in to your account</CardDescription>
+            </div>
+          </div>
+
+          {hasOtherSessions && (
+            <Button
+              variant="secondary"
+              size="small"
+              icon={LogOut}
+              onClick={() => runAction(() => authService.revokeOtherSessions(), 'Failed to sign out other sessions')}
+            >
+              Sign out others
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        {isLoading ? (
+          <LoadingState text="Loading sessions..." />
+        ) : (
+          <ul className="space-y-2">
+            {sessions.map(session => {
+              const DeviceIcon = isMobile(session.userAgent) ? Smartphone : Monitor;
+              return (
+                <li key={session.id} className="flex items-center justify-between p-3 rounded-xl hover:bg-gray-50">
+                  <div className="flex items-center space-x-3">
+                    <DeviceIcon className="text-gray-400" size={20} />
+                    <div>
+                      <div className="flex items-center space-x-2">
+                        <span className="font-medium text-gray-900">{describeDevice(session.userAgent)}</span>
+                        {session.current && <Badge variant="success" size="small">this device</Badge>}
+                      </div>
+                      <p className="body-small text-gray-400">
+                        {session.ipAddress && `${session.ipAddress} · `}
+                        Signed in {new Date(session.createdAt).toLocaleDateString()} · Last active {new Date(session.lastUsedAt).toLocaleString()}
+                      </p>
+                    </div>
+                  </div>
+
+                  {!session.current && (
+                    <Button
+                      variant="ghost"
+                      size="small"
+                      icon={LogOut}
+                      onClick={() => runAction(() => authService.revokeSession(session.id), 'Failed to sign out session')}
+                    >
+                      Sign out
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {error && (
+          <p className="text-sm text-red-600 mt-4">{error}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,320 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ArrowLeft,
+  ArrowRight,
+  CheckCircle,
+  MessageSquare,
+  Users,
+  Mic,
+  Globe,
+  Save
+} from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/Badge';
+import {
+  brandStrategyService,
+  BrandStrategy,
+  PlatformConfig,
+  PlatformStrategy,
+  StrategyPlatform
+} from '@/services/brandStrategyService';
+
+interface StrategyEditorProps {
+  strategy: BrandStrategy | null;
+  onSaved: (strategy: BrandStrategy) => void;
+}
+
+export const strategyPlatforms: StrategyPlatform[] = ['linkedin', 'twitter', 'instagram', 'youtube', 'blog'];
+
+const steps = [
+  { title: 'Core message', description: 'The one idea every post should reinforce', icon: MessageSquare },
+  { title: 'Audience & pillars', description: 'Who you speak to and the themes you own', icon: Users },
+  { title: 'Voice & tone', description: 'How your writing should sound', icon: Mic },
+  { title: 'Platforms', description: 'Cadence and tactics for each channel', icon: Globe },
+  { title: 'Review', description: 'Save as a new version of your strategy', icon: CheckCircle },
+];
+
+const emptyPlatformConfig: PlatformConfig = {
+  active: false,
+  postingFrequency: '',
+  contentTypes: [],
+  hashtagStrategy: [],
+  engagementStrategy: ''
+};
+
+const toList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+const toText = (value?: string[]) => (value || []).join(', ');
+
+export const StrategyEditor: React.FC<StrategyEditorProps> = ({ strategy, onSaved }) => {
+  const [currentStep, setCurrentStep] = useState(0);
+  const [coreMessage, setCoreMessage] = useState('');
+  const [audience, setAudience] = useState('');
+  const [pillars, setPillars] = useState('');
+  const [tone, setTone] = useState('');
+  const [personality, setPersonality] = useState('');
+  const [vocabulary, setVocabulary] = useState('');
+  const [writingStyle, setWritingStyle] = useState('');
+  const [bannedPhrases, setBannedPhrases] = useState('');
+  const [platforms, setPlatforms] = useState<PlatformStrategy>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setCoreMessage(strategy?.coreMessage || '');
+    setAudience(toText(strategy?.targetAudience));
+    setPillars(toText(strategy?.contentPillars));
+    setTone(strategy?.voiceAndTone?.tone || '');
+    setPersonality(toText(strategy?.voiceAndTone?.personality));
+    setVocabulary(strategy?.voiceAndTone?.vocabulary || '');
+    setWritingStyle(strategy?.voiceAndTone?.writingStyle || '');
+    setBannedPhrases(toText(strategy?.voiceAndTone?.bannedPhrases));
+    setPlatforms(strategy?.platformStrategy || {});
+    setCurrentStep(0);
+    setError(null);
+  }, [strategy]);
+
+  const updatePlatform = (platform: StrategyPlatform, changes: Partial<PlatformConfig>) => {
+    setPlatforms(prev => ({
+      ...prev,
+      [platform]: { ...emptyPlatformConfig, ...prev[platform], ...changes }
+    }));
+  };
+
+  const save = async () => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      const saved = await brandStrategyService.saveStrategy({
+        coreMessage,
+        targetAudience: toList(audience),
+        contentPillars: toList(pillars),
+        voiceAndTone: {
+          tone,
+          personality: toList(personality),
+          vocabulary,
+          writingStyle,
+          bannedPhrases: toList(bannedPhrases)
+        },
+        platformStrategy: platforms
+      }, strategy?.id);
+      onSaved(saved);
+    } catch (error) {
+      console.error('Failed to save brand strategy:', error);
+      setError('Failed to save brand strategy');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const StepIcon = steps[currentStep].icon;
+
+  return (
+    <Card variant="elevated">
+      <CardHeader>
+        <div className="flex items-center justify-between mb-4">
+          {steps.map((step, index) => (
+            <button
+              key={step.title}
+              type="button"
+              onClick={() => setCurrentStep(index)}
+              className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-medium ${
+                index <= currentStep ? 'bg-primary-600 text-white' : 'bg-gray-200 text-gray-500'
+              }`}
+            >
+              {index < currentStep ? <CheckCircle size={16} /> : index + 1}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center space-x-3">
+          <div className="w-10 h-10 bg-gradient-to-br from-primary-500 to-primary-600 rounded-xl flex items-center justify-center">
+            <StepIcon className="text-white" size={20} />
+          </div>
+          <div>
+            <CardTitle>{steps[currentStep].title}</CardTitle>
+            <CardDescription>{steps[currentStep].description}</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        <div className="space-y-4">
+          {/* Step 0: Core message */}
+          {currentStep === 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Core message
+              </label>
+              <textarea
+                value={coreMessage}
+                onChange={(e) => setCoreMessage(e.target.value)}
+                rows={4}
+                className="input resize-none"
+                placeholder="e.g., I help engineers grow into confident leaders"
+              />
+            </div>
+          )}
+
+          {/* Step 1: Audience & pillars */}
+          {currentStep === 1 && (
+            <>
+              <Input
+                label="Target audience"
+                value={audience}
+                onChange={(e) => setAudience(e.target.value)}
+                placeholder="e.g., engineering managers, senior engineers"
+              />
+              <Input
+                label="Content pillars"
+                value={pillars}
+                onChange={(e) => setPillars(e.target.value)}
+                placeholder="e.g., leadership, career growth, systems thinking"
+              />
+            </>
+          )}
+
+          {/* Step 2: Voice & tone */}
+          {currentStep === 2 && (
+            <>
+              <Input label="Tone" value={tone} onChange={(e) => setTone(e.target.value)} placeholder="e.g., warm" />
+              <Input
+                label="Personality traits"
+                value={personality}
+                onChange={(e) => setPersonality(e.target.value)}
+                placeholder="e.g., candid, practical"
+              />
+              <Input label="Vocabulary" value={vocabulary} onChange={(e) => setVocabulary(e.target.value)} placeholder="e.g., plain, jargon-free" />
+              <Input
+                label="Writing style"
+                value={writingStyle}
+                onChange={(e) => setWritingStyle(e.target.value)}
+                placeholder="e.g., short stories with a takeaway"
+              />
+              <Input
+                label="Banned phrases"
+                value={bannedPhrases}
+                onChange={(e) => setBannedPhrases(e.target.value)}
+                placeholder="e.g., synergy, game changer"
+              />
+            </>
+          )}
+
+          {/* Step 3: Platforms */}
+          {currentStep === 3 && (
+            <div className="space-y-4">
+              {strategyPlatforms.map(platform => {
+                const config = platforms[platform];
+                return (
+                  <div key={`${strategy?.id}-${platform}`} className="border border-gray-200 rounded-xl p-4">
+                    <label className="flex items-center space-x-2 mb-2">
+                      <input
+                        type="checkbox"
+                        checked={config?.active || false}
+                        onChange={(e) => updatePlatform(platform, { active: e.target.checked })}
+                      />
+                      <span className="font-medium text-gray-900">
+                        {platform.charAt(0).toUpperCase() + platform.slice(1)}
+                      </span>
+                    </label>
+                    {config?.active && (
+                      <div className="grid md:grid-cols-2 gap-3">
+                        <Input
+                          label="Posting frequency"
+                          value={config.postingFrequency}
+                          onChange={(e) => updatePlatform(platform, { postingFrequency: e.target.value })}
+                          placeholder="e.g., 3x weekly"
+                        />
+                        <Input
+                          label="Content types"
+                          defaultValue={toText(config.contentTypes)}
+                          onBlur={(e) => updatePlatform(platform, { contentTypes: toList(e.target.value) })}
+                          placeholder="e.g., post, article"
+                        />
+                        <Input
+                          label="Hashtags"
+                          defaultValue={toText(config.hashtagStrategy)}
+                          onBlur={(e) => updatePlatform(platform, { hashtagStrategy: toList(e.target.value) })}
+                          placeholder="e.g., #leadership"
+                        />
+                        <Input
+                          label="Engagement strategy"
+                          value={config.engagementStrategy}
+                          onChange={(e) => updatePlatform(platform, { engagementStrategy: e.target.value })}
+                          placeholder="e.g., reply to every comment"
+                        />
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {/* Step 4: Review */}
+          {currentStep === 4 && (
+            <div className="space-y-3 text-sm">
+              <p><span className="font-medium">Core message:</span> {coreMessage || '—'}</p>
+              <div className="flex flex-wrap gap-1">
+                <span className="font-medium mr-1">Audience:</span>
+                {toList(audience).map(item => <Badge key={item} size="small">{item}</Badge>)}
+              </div>
+              <div className="flex flex-wrap gap-1">
+                <span className="font-medium mr-1">Pillars:</span>
+                {toList(pillars).map(item => <Badge key={item} variant="primary" size="small">{item}</Badge>)}
+              </div>
+              <p><span className="font-medium">Voice:</span> {[tone, personality, vocabulary, writingStyle].filter(Boolean).join(' · ') || '—'}</p>
+              {toList(bannedPhrases).length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  <span className="font-medium mr-1">Never say:</span>
+                  {toList(bannedPhrases).map(item => <Badge key={item} variant="error" size="small">{item}</Badge>)}
+                </div>
+              )}
+              <div className="flex flex-wrap gap-1">
+                <span className="font-medium mr-1">Active platforms:</span>
+                {strategyPlatforms.filter(platform => platforms[platform]?.active).map(platform => (
+                  <Badge key={platform} variant="success" size="small">{platform}</Badge>
+                ))}
+              </div>
+              {strategy && (
+                <p className="text-gray-500">
+                  Saving creates a new version based on version {strategy.version}.
+                </p>
+              )}
+            </div>
+          )}
+
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+
+          {/* Navigation */}
+          <div className="flex items-center justify-between pt-4 border-t border-gray-200">
+            <div>
+              {currentStep > 0 && (
+                <Button variant="ghost" icon={ArrowLeft} onClick={() => setCurrentStep(currentStep - 1)}>
+                  Back
+                </Button>
+              )}
+            </div>
+            {currentStep < steps.length - 1 ? (
+              <Button
+                variant="primary"
+                icon={ArrowRight}
+                iconPosition="right"
+                onClick={() => setCurrentStep(currentStep + 1)}
+              >
+                Next
+              </Button>
+            ) : (
+              <Button variant="primary" icon={Save} loading={isSaving} onClick={save}>
+                Save Version
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
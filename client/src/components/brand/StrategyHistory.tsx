@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { GitCompare, History, RotateCcw, CheckCircle, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/Badge';
+import { brandStrategyService, BrandStrategy, BrandStrategyDiff } from '@/services/brandStrategyService';
+
+interface StrategyHistoryProps {
+  strategies: BrandStrategy[];
+  onChanged: () => void;
+}
+
+const formatValue = (value: any) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.join(', ') || '—';
+  return String(value);
+};
+
+export const StrategyHistory: React.FC<StrategyHistoryProps> = ({ strategies, onChanged }) => {
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [diff, setDiff] = useState<BrandStrategyDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleCompare = (id: string) => {
+    setDiff(null);
+    setCompareIds(prev => prev.includes(id)
+      ? prev.filter(existing => existing !== id)
+      : [...prev, id].slice(-2));
+  };
+
+  const compare = async () => {
+    const selected = strategies
+      .filter(strategy => compareIds.includes(strategy.id))
+      .sort((a, b) => a.version - b.version);
+    if (selected.length !== 2) return;
+
+    try {
+      setError(null);
+      setDiff(await brandStrategyService.diffStrategies(selected[0]!.id, selected[1]!.id));
+    } catch (error) {
+      console.error('Failed to compare strategies:', error);
+      setError('Failed to compare strategies');
+    }
+  };
+
+  const runAction = async (action: () => Promise<unknown>, failureMessage: string) => {
+    try {
+      setError(null);
+      await action();
+      onChanged();
+    } catch (error) {
+      console.error(`${failureMessage}:`, error);
+      setError(failureMessage);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <History className="text-gray-500" size={20} />
+            <div>
+              <CardTitle>Version History</CardTitle>
+              <CardDescription>Select two versions to compare them</CardDescription>
+            </div>
+          </div>
+          <Button
+            variant="secondary"
+            size="small"
+            icon={GitCompare}
+            onClick={compare}
+            disabled={compareIds.length !== 2}
+          >
+            Compare
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        <ul className="space-y-2">
+          {strategies.map(strategy => (
+            <li key={strategy.id} className="flex items-center justify-between p-2 rounded-xl hover:bg-gray-50">
+              <label className="flex items-center space-x-3">
+                <input
+                  type="checkbox"
+                  checked={compareIds.includes(strategy.id)}
+                  onChange={() => toggleCompare(strategy.id)}
+                />
+                <span className="font-medium text-gray-900">v{strategy.version}</span>
+                {strategy.isActive && <Badge variant="success" size="small">active</Badge>}
+                <span className="body-small text-gray-400">
+                  {new Date(strategy.createdAt).toLocaleString()}
+                </span>
+              </label>
+
+              {!strategy.isActive && (
+                <div className="flex items-center space-x-1">
+                  <Button
+                    variant="ghost"
+                    size="small"
+                    icon={CheckCircle}
+                    onClick={() => runAction(() => brandStrategyService.activateStrategy(strategy.id), 'Failed to activate strategy')}
+                  >
+                    Activate
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="small"
+                    icon={RotateCcw}
+                    onClick={() => runAction(() => brandStrategyService.rollbackStrategy(strategy.id), 'Failed to roll back strategy')}
+                  >
+                    Roll back
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="small"
+                    icon={Trash2}
+                    onClick={() => runAction(() => brandStrategyService.deleteStrategy(strategy.id), 'Failed to delete strategy')}
+                  >
+                    Delete
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        {diff && (
+          <div className="mt-6 border-t border-gray-200 pt-4">
+            <h4 className="heading-4 mb-3">
+              v{diff.fromVersion} → v{diff.toVersion}
+            </h4>
+            {diff.changes.length === 0 ? (
+              <p className="body-small text-gray-500">These versions are identical.</p>
+            ) : (
+              <ul className="space-y-3">
+                {diff.changes.map(change => (
+                  <li key={change.field} className="text-sm">
+                    <div className="font-mono text-gray-700 mb-1">{change.field}</div>
+                    {change.added || change.removed ? (
+                      <div className="flex flex-wrap gap-1">
+                        {change.added?.map(item => <Badge key={`+${item}`} variant="success" size="small">+ {item}</Badge>)}
+                        {change.removed?.map(item => <Badge key={`-${item}`} variant="error" size="small">− {item}</Badge>)}
+                      </div>
+                    ) : (
+                      <div>
+                        <span className="text-red-600 line-through mr-2">{formatValue(change.before)}</span>
+                        <span className="text-green-700">{formatValue(change.after)}</span>
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <p className="text-sm text-red-600 mt-4">{error}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
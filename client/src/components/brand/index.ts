@@ -0,0 +1,2 @@
+export { StrategyEditor } from './StrategyEditor';
+export { StrategyHistory } from './StrategyHistory';
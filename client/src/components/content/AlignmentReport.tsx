@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { Target } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/Badge';
+import { LoadingState } from '@/components/ui/LoadingSpinner';
+import { getAlignmentColor } from '@/components/content/ContentList';
+import { contentService, AlignmentDimension, BrandAlignmentReport } from '@/services/contentService';
+
+interface AlignmentReportProps {
+  contentId: string;
+  // Changes whenever the content is saved, so the report is re-fetched
+  version: string;
+}
+
+const dimensionLabels: Record<AlignmentDimension, string> = {
+  sentence_length: 'Sentence length',
+  formality: 'Formality',
+  vocabulary: 'Vocabulary',
+  pillars: 'Content pillars',
+  banned_phrases: 'Banned phrases',
+};
+
+export const AlignmentReport: React.FC<AlignmentReportProps> = ({ contentId, version }) => {
+  const [report, setReport] = useState<BrandAlignmentReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setIsLoading(true);
+    setError(null);
+    contentService.getAlignment(contentId)
+      .then(setReport)
+      .catch(error => {
+        console.error('Failed to load alignment:', error);
+        setError('Failed to load brand alignment');
+      })
+      .finally(() => setIsLoading(false));
+  }, [contentId, version]);
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-gradient-to-br from-green-500 to-green-600 rounded-xl flex items-center justify-center">
+              <Target className="text-white" size={20} />
+            </div>
+            <div>
+              <CardTitle>Brand Alignment</CardTitle>
+              <CardDescription>
+                How closely this draft matches your voice and strategy
+              </CardDescription>
+            </div>
+          </div>
+          {report && (
+            <Badge variant={getAlignmentColor(report.score)}>
+              {Math.round(report.score * 100)}%
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        {isLoading ? (
+          <LoadingState text="Scoring draft..." />
+        ) : error || !report ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : (
+          <div className="space-y-3">
+            {report.checks.map(check => (
+              <div key={check.dimension}>
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium text-gray-700">{dimensionLabels[check.dimension]}</span>
+                  <span className="text-gray-500">{Math.round(check.score * 100)}%</span>
+                </div>
+                <div className="w-full h-1.5 bg-gray-100 rounded-full mt-1">
+                  <div
+                    className={`h-1.5 rounded-full ${check.score >= 0.75 ? 'bg-green-500' : check.score >= 0.5 ? 'bg-yellow-500' : 'bg-red-500'}`}
+                    style={{ width: `${Math.round(check.score * 100)}%` }}
+                  />
+                </div>
+                <p className="body-small text-gray-500 mt-1">{check.explanation}</p>
+              </div>
+            ))}
+            {report.missing.map(message => (
+              <p key={message} className="body-small text-gray-400">{message}</p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
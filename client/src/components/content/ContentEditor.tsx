@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import { FileText, Save, Send, X } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/Badge';
+import { HashtagSuggestions } from '@/components/content/HashtagSuggestions';
+import { contentService, ContentItem, ContentInput, ContentStatus } from '@/services/contentService';
+
+interface ContentEditorProps {
+  content?: ContentItem | null;
+  onSaved: (content: ContentItem) => void;
+  onCancel: () => void;
+}
+
+export const platformOptions = ['linkedin', 'twitter', 'instagram', 'youtube', 'blog'];
+
+export const contentTypeOptions = ['post', 'article', 'thread', 'caption', 'script', 'outline', 'newsletter'];
+
+const emptyDraft: ContentInput = {
+  platform: 'linkedin',
+  contentType: 'post',
+  title: '',
+  body: '',
+  tags: []
+};
+
+export const ContentEditor: React.FC<ContentEditorProps> = ({
+  content,
+  onSaved,
+  onCancel
+}) => {
+  const [draft, setDraft] = useState<ContentInput>(emptyDraft);
+  const [tagsInput, setTagsInput] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (content) {
+      setDraft({
+        platform: content.platform,
+        contentType: content.contentType,
+        title: content.title || '',
+        body: content.body,
+        tags: content.tags || []
+      });
+      setTagsInput((content.tags || []).join(', '));
+    } else {
+      setDraft(emptyDraft);
+      setTagsInput('');
+    }
+    setError(null);
+  }, [content]);
+
+  const currentTags = tagsInput.split(',').map(tag => tag.trim()).filter(Boolean);
+
+  const save = async (status: ContentStatus) => {
+    if (!draft.body.trim()) {
+      setError('Content body is required');
+      return;
+    }
+
+    const payload: ContentInput = {
+      ...draft,
+      tags: currentTags,
+      status
+    };
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      const saved = content
+        ? await contentService.updateContent(content.id, payload)
+        : await contentService.createContent(payload);
+      onSaved(saved);
+    } catch (error) {
+      console.error('Failed to save content:', error);
+      setError('Failed to save content');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card variant="elevated">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-gradient-to-br from-orange-500 to-orange-600 rounded-xl flex items-center justify-center">
+              <FileText className="text-white" size={20} />
+            </div>
+            <div>
+              <CardTitle>{content ? 'Edit Content' : 'New Draft'}</CardTitle>
+              <CardDescription>
+                Drafts are indexed for semantic search every time you save
+              </CardDescription>
+            </div>
+          </div>
+          {content && (
+            <Badge variant={content.status === 'published' ? 'success' : content.status === 'archived' ? 'neutral' : 'warning'}>
+              {content.status}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        <div className="space-y-4">
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Platform
+              </label>
+              <select
+                value={draft.platform}
+                onChange={(e) => setDraft({ ...draft, platform: e.target.value })}
+                className="input"
+              >
+                {platformOptions.map(platform => (
+                  <option key={platform} value={platform}>
+                    {platform.charAt(0).toUpperCase() + platform.slice(1)}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Content Type
+              </label>
+              <select
+                value={draft.contentType}
+                onChange={(e) => setDraft({ ...draft, contentType: e.target.value })}
+                className="input"
+              >
+                {contentTypeOptions.map(type => (
+                  <option key={type} value={type}>
+                    {type.charAt(0).toUpperCase() + type.slice(1)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <Input
+            label="Title"
+            value={draft.title || ''}
+            onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+            placeholder="Optional headline"
+          />
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Body
+            </label>
+            <textarea
+              value={draft.body}
+              onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+              placeholder="Write your post..."
+              rows={10}
+              className="input resize-none"
+            />
+            <div className="flex justify-end mt-2 text-sm text-gray-500">
+              {draft.body.length} characters
+            </div>
+          </div>
+
+          <Input
+            label="Tags"
+            value={tagsInput}
+            onChange={(e) => setTagsInput(e.target.value)}
+            placeholder="e.g., leadership, ai, career"
+          />
+
+          <HashtagSuggestions
+            platform={draft.platform}
+            topic={draft.title || ''}
+            tags={currentTags}
+            onAdd={(tag) => setTagsInput([...currentTags, tag].join(', '))}
+          />
+
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+        </div>
+      </CardContent>
+
+      <CardFooter>
+        <div className="flex items-center justify-between">
+          <Button variant="ghost" icon={X} onClick={onCancel}>
+            Cancel
+          </Button>
+          <div className="flex items-center space-x-3">
+            <Button
+              variant="secondary"
+              icon={Save}
+              loading={isSaving}
+              onClick={() => save('draft')}
+            >
+              Save Draft
+            </Button>
+            <Button
+              variant="primary"
+              icon={Send}
+              loading={isSaving}
+              onClick={() => save('published')}
+            >
+              Publish
+            </Button>
+          </div>
+        </div>
+      </CardFooter>
+    </Card>
+  );
+};
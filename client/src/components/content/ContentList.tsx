@@ -0,0 +1,108 @@
+import React from 'react';
+import { Archive, Edit3, FileText, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/Badge';
+import { EmptyState } from '@/components/ui/EmptyState';
+import { ContentItem } from '@/services/contentService';
+
+interface ContentListProps {
+  items: ContentItem[];
+  selectedId?: string | null;
+  onSelect: (item: ContentItem) => void;
+  onArchive: (item: ContentItem) => void;
+  onDelete: (item: ContentItem) => void;
+}
+
+// Shared with the alignment panel so the list and breakdown agree on colours
+export const getAlignmentColor = (score: number) =>
+  score >= 0.75 ? 'success' : score >= 0.5 ? 'warning' : 'error';
+
+const getStatusColor = (status: ContentItem['status']) => {
+  switch (status) {
+    case 'published': return 'success';
+    case 'archived': return 'neutral';
+    default: return 'warning';
+  }
+};
+
+export const ContentList: React.FC<ContentListProps> = ({
+  items,
+  selectedId,
+  onSelect,
+  onArchive,
+  onDelete
+}) => {
+  if (items.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-8">
+          <EmptyState
+            icon={FileText}
+            title="No content yet"
+            description="Drafts you write here will show up in your content library."
+          />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {items.map(item => (
+        <Card
+          key={item.id}
+          className={selectedId === item.id ? 'ring-2 ring-primary-500' : ''}
+        >
+          <div className="flex items-start justify-between">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center space-x-2 mb-2">
+                <Badge variant={getStatusColor(item.status)} size="small">
+                  {item.status}
+                </Badge>
+                <Badge variant="primary" size="small">
+                  {item.platform}
+                </Badge>
+                {item.brandAlignment > 0 && (
+                  <Badge variant={getAlignmentColor(item.brandAlignment)} size="small">
+                    {Math.round(item.brandAlignment * 100)}% on-brand
+                  </Badge>
+                )}
+                <span className="body-small text-gray-400">
+                  {new Date(item.updatedAt).toLocaleDateString()}
+                </span>
+              </div>
+              <h3 className="heading-4 truncate">
+                {item.title || item.body.substring(0, 60)}
+              </h3>
+              <p className="body-small text-gray-500 line-clamp-2">
+                {item.body.substring(0, 160)}{item.body.length > 160 ? '...' : ''}
+              </p>
+              {item.tags?.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {item.tags.map(tag => (
+                    <Badge key={tag} size="small">#{tag}</Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center space-x-1 ml-4">
+              <Button variant="ghost" size="small" icon={Edit3} onClick={() => onSelect(item)}>
+                Edit
+              </Button>
+              {item.status !== 'archived' && (
+                <Button variant="ghost" size="small" icon={Archive} onClick={() => onArchive(item)}>
+                  Archive
+                </Button>
+              )}
+              <Button variant="ghost" size="small" icon={Trash2} onClick={() => onDelete(item)}>
+                Delete
+              </Button>
+            </div>
+          </div>
+        </Card>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { Hash } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { hashtagService, HashtagRecommendations } from '@/services/hashtagService';
+
+interface HashtagSuggestionsProps {
+  platform: string;
+  topic: string;
+  tags: string[];
+  onAdd: (tag: string) => void;
+}
+
+export const HashtagSuggestions: React.FC<HashtagSuggestionsProps> = ({
+  platform,
+  topic,
+  tags,
+  onAdd
+}) => {
+  const [recommendations, setRecommendations] = useState<HashtagRecommendations | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Suggestions for another platform would ignore its cap
+  useEffect(() => {
+    setRecommendations(null);
+  }, [platform]);
+
+  const suggest = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setRecommendations(await hashtagService.getRecommendations({
+        platform,
+        ...(topic.trim() && { topics: [topic.trim()] })
+      }));
+    } catch (error) {
+      console.error('Failed to load hashtag suggestions:', error);
+      setError('Failed to load hashtag suggestions');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const used = new Set(tags.map(tag => tag.replace(/^#/, '').toLowerCase()));
+
+  return (
+    <div className="space-y-2">
+      <Button variant="ghost" size="small" icon={Hash} loading={isLoading} onClick={suggest}>
+        Suggest hashtags
+      </Button>
+
+      {recommendations && (
+        recommendations.suggestions.length === 0 ? (
+          <p className="body-small text-gray-500">
+            No suggestions yet. Publish tagged posts or add hashtags to your brand strategy.
+          </p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {recommendations.suggestions.map(suggestion => {
+              const isUsed = used.has(suggestion.tag.slice(1).toLowerCase());
+              return (
+                <button
+                  key={suggestion.tag}
+                  type="button"
+                  title={suggestion.reasons.join('\n')}
+                  disabled={isUsed}
+                  onClick={() => onAdd(suggestion.tag.slice(1))}
+                  className={`px-2 py-1 rounded-lg text-sm border ${isUsed ? 'border-gray-100 text-gray-400' : 'border-blue-200 text-blue-700 hover:bg-blue-50'}`}
+                >
+                  {suggestion.tag}
+                  <span className="ml-1 text-xs text-gray-400">{Math.round(suggestion.score * 100)}</span>
+                </button>
+              );
+            })}
+          </div>
+        )
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from 'react';
+import { Sparkles, X } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/Badge';
+import { platformOptions } from '@/components/content/ContentEditor';
+import { ContentItem } from '@/services/contentService';
+import { generationService, PostGenerationResult } from '@/services/generationService';
+import { projectService, Project } from '@/services/projectService';
+
+interface PostGeneratorProps {
+  onGenerated: (drafts: ContentItem[]) => void;
+  onCancel: () => void;
+}
+
+export const PostGenerator: React.FC<PostGeneratorProps> = ({
+  onGenerated,
+  onCancel
+}) => {
+  const [topic, setTopic] = useState('');
+  const [platform, setPlatform] = useState('linkedin');
+  const [count, setCount] = useState(3);
+  const [projectId, setProjectId] = useState('');
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [result, setResult] = useState<PostGenerationResult | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    projectService.listProjects()
+      .then(all => setProjects(all.filter(project => project.status === 'active')))
+      .catch(error => console.error('Failed to load projects:', error));
+  }, []);
+
+  const generate = async () => {
+    if (!topic.trim()) {
+      setError('Enter a topic to write about');
+      return;
+    }
+
+    try {
+      setIsGenerating(true);
+      setError(null);
+      const generated = await generationService.generatePost({
+        topic: topic.trim(),
+        platform,
+        count,
+        ...(projectId && { projectId })
+      });
+      setResult(generated);
+      onGenerated(generated.drafts);
+    } catch (error: any) {
+      console.error('Failed to generate drafts:', error);
+      setError(error.response?.data?.error || error.response?.data?.errors?.[0] || 'Failed to generate drafts');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <Card variant="elevated">
+      <CardHeader>
+        <div className="flex items-center space-x-3">
+          <div className="w-10 h-10 bg-gradient-to-br from-purple-500 to-purple-600 rounded-xl flex items-center justify-center">
+            <Sparkles className="text-white" size={20} />
+          </div>
+          <div>
+            <CardTitle>Generate Drafts</CardTitle>
+            <CardDescription>
+              Written in your voice from your style profile, brand pillars and past posts
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        <div className="space-y-4">
+          <Input
+            label="Topic"
+            value={topic}
+            onChange={(e) => setTopic(e.target.value)}
+            placeholder="e.g., What we learned shipping AI agents to sales teams"
+          />
+
+          <div className="grid md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Platform
+              </label>
+              <select
+                value={platform}
+                onChange={(e) => setPlatform(e.target.value)}
+                className="input"
+              >
+                {platformOptions.map(option => (
+                  <option key={option} value={option}>
+                    {option.charAt(0).toUpperCase() + option.slice(1)}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Drafts
+              </label>
+              <select
+                value={count}
+                onChange={(e) => setCount(parseInt(e.target.value))}
+                className="input"
+              >
+                {[1, 2, 3, 4, 5].map(option => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Project
+              </label>
+              <select
+                value={projectId}
+                onChange={(e) => setProjectId(e.target.value)}
+                className="input"
+              >
+                <option value="">None</option>
+                {projects.map(project => (
+                  <option key={project.id} value={project.id}>{project.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {result && (
+            <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+              <span>Added {result.drafts.length} drafts using</span>
+              <Badge variant={result.context.styleProfile ? 'success' : 'neutral'} size="small">
+                {result.context.styleProfile ? 'style profile' : 'no style profile'}
+              </Badge>
+              <Badge variant="primary" size="small">
+                {result.context.pillars.length} pillars
+              </Badge>
+              <Badge variant="primary" size="small">
+                {result.context.examples} examples
+              </Badge>
+            </div>
+          )}
+
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+        </div>
+      </CardContent>
+
+      <CardFooter>
+        <div className="flex items-center justify-between">
+          <Button variant="ghost" icon={X} onClick={onCancel}>
+            Close
+          </Button>
+          <Button
+            variant="primary"
+            icon={Sparkles}
+            loading={isGenerating}
+            onClick={generate}
+          >
+            Generate
+          </Button>
+        </div>
+      </CardFooter>
+    </Card>
+  );
+};
@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from 'react';
+import { Shuffle } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/Badge';
+import { platformOptions } from '@/components/content/ContentEditor';
+import { contentService, ContentItem } from '@/services/contentService';
+
+interface RepurposePanelProps {
+  content: ContentItem;
+  onRepurposed: (variants: ContentItem[]) => void;
+  onSelect: (variant: ContentItem) => void;
+}
+
+export const RepurposePanel: React.FC<RepurposePanelProps> = ({
+  content,
+  onRepurposed,
+  onSelect
+}) => {
+  const [variants, setVariants] = useState<ContentItem[]>([]);
+  // Empty means the brand strategy's active platforms
+  const [platforms, setPlatforms] = useState<string[]>([]);
+  const [isRepurposing, setIsRepurposing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPlatforms([]);
+    setError(null);
+    contentService.getVariants(content.id)
+      .then(setVariants)
+      .catch(error => console.error('Failed to load variants:', error));
+  }, [content.id]);
+
+  const togglePlatform = (platform: string) => {
+    setPlatforms(prev => prev.includes(platform)
+      ? prev.filter(entry => entry !== platform)
+      : [...prev, platform]);
+  };
+
+  const repurpose = async () => {
+    try {
+      setIsRepurposing(true);
+      setError(null);
+      const result = await contentService.repurposeContent(content.id, platforms);
+      setVariants(prev => [...prev, ...result.variants]);
+      onRepurposed(result.variants);
+    } catch (error: any) {
+      console.error('Failed to repurpose content:', error);
+      setError(error.response?.data?.error || error.response?.data?.errors?.[0] || 'Failed to repurpose content');
+    } finally {
+      setIsRepurposing(false);
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-center space-x-3">
+          <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-blue-600 rounded-xl flex items-center justify-center">
+            <Shuffle className="text-white" size={20} />
+          </div>
+          <div>
+            <CardTitle>Repurpose</CardTitle>
+            <CardDescription>
+              Turn this piece into drafts for your other platforms
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-4">
+            {platformOptions.filter(platform => platform !== content.platform).map(platform => (
+              <label key={platform} className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={platforms.includes(platform)}
+                  onChange={() => togglePlatform(platform)}
+                />
+                <span>{platform.charAt(0).toUpperCase() + platform.slice(1)}</span>
+              </label>
+            ))}
+          </div>
+          <p className="body-small text-gray-500">
+            {platforms.length > 0
+              ? `Drafts for ${platforms.join(', ')}`
+              : 'Leave all unchecked to use the active platforms in your brand strategy'}
+          </p>
+
+          {variants.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-gray-700">Variants</p>
+              {variants.map(variant => (
+                <button
+                  key={variant.id}
+                  type="button"
+                  onClick={() => onSelect(variant)}
+                  className="w-full text-left p-3 border border-gray-200 rounded-xl hover:border-blue-300"
+                >
+                  <div className="flex items-center space-x-2">
+                    <Badge variant="primary" size="small">{variant.platform}</Badge>
+                    <Badge variant="neutral" size="small">{variant.contentType}</Badge>
+                  </div>
+                  <p className="body-small text-gray-600 mt-1 truncate">
+                    {variant.title || variant.body}
+                  </p>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+        </div>
+      </CardContent>
+
+      <CardFooter>
+        <div className="flex justify-end">
+          <Button
+            variant="primary"
+            icon={Shuffle}
+            loading={isRepurposing}
+            onClick={repurpose}
+          >
+            Repurpose
+          </Button>
+        </div>
+      </CardFooter>
+    </Card>
+  );
+};
@@ -0,0 +1,6 @@
+export { ContentEditor } from './ContentEditor';
+export { ContentList } from './ContentList';
+export { PostGenerator } from './PostGenerator';
+export { AlignmentReport } from './AlignmentReport';
+export { RepurposePanel } from './RepurposePanel';
+export { HashtagSuggestions } from './HashtagSuggestions';
@@ -0,0 +1,269 @@
+import React, { useEffect, useState } from 'react';
+import { ExternalLink, X } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/Card';
+import {
+  mentionService,
+  BrandMention,
+  BrandMentionSummary,
+  MentionSentiment,
+  SentimentReport,
+  SentimentSeriesPoint
+} from '@/services/mentionService';
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 140;
+
+const rangeOptions = [7, 30, 90];
+
+// Stacked bottom to top
+const segments: { sentiment: MentionSentiment; className: string }[] = [
+  { sentiment: 'negative', className: 'text-red-400' },
+  { sentiment: 'neutral', className: 'text-gray-300' },
+  { sentiment: 'positive', className: 'text-green-400' },
+];
+
+const sentimentVariant: Record<MentionSentiment, 'success' | 'error' | 'neutral'> = {
+  positive: 'success',
+  negative: 'error',
+  neutral: 'neutral',
+};
+
+const nextDay = (date: string) => {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + 1);
+  return day.toISOString().substring(0, 10);
+};
+
+const SentimentChart: React.FC<{
+  series: SentimentSeriesPoint[];
+  selected: string | null;
+  onSelect: (date: string) => void;
+}> = ({ series, selected, onSelect }) => {
+  const max = Math.max(1, ...series.map(point => point.total));
+  const slot = CHART_WIDTH / Math.max(series.length, 1);
+  const barWidth = Math.max(2, slot * 0.7);
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-36" preserveAspectRatio="none">
+      {series.map((point, index) => {
+        const x = index * slot + (slot - barWidth) / 2;
+        let y = CHART_HEIGHT;
+
+        return (
+          <g
+            key={point.date}
+            onClick={() => point.total > 0 && onSelect(point.date)}
+            className={point.total > 0 ? 'cursor-pointer' : undefined}
+            opacity={selected && selected !== point.date ? 0.4 : 1}
+          >
+            <title>
+              {`${point.date}: ${point.positive} positive, ${point.neutral} neutral, ${point.negative} negative`}
+            </title>
+            {/* Full-height hit area so short bars are easy to click */}
+            <rect x={index * slot} y={0} width={slot} height={CHART_HEIGHT} fill="transparent" />
+            {segments.map(({ sentiment, className }) => {
+              const height = (point[sentiment] / max) * CHART_HEIGHT;
+              y -= height;
+              return height > 0 ? (
+                <rect
+                  key={sentiment}
+                  x={x}
+                  y={y}
+                  width={barWidth}
+                  height={height}
+                  fill="currentColor"
+                  className={className}
+                />
+              ) : null;
+            })}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export const BrandSentiment: React.FC = () => {
+  const [brands, setBrands] = useState<BrandMentionSummary[]>([]);
+  const [brand, setBrand] = useState('');
+  const [keyword, setKeyword] = useState('');
+  const [days, setDays] = useState(30);
+  const [report, setReport] = useState<SentimentReport | null>(null);
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+  const [mentions, setMentions] = useState<BrandMention[]>([]);
+  const [totalMentions, setTotalMentions] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadBrands();
+  }, []);
+
+  useEffect(() => {
+    if (brand) {
+      loadReport();
+    }
+  }, [brand, keyword, days]);
+
+  useEffect(() => {
+    if (brand) {
+      loadMentions();
+    }
+  }, [brand, keyword, selectedDay]);
+
+  const loadBrands = async () => {
+    try {
+      const loaded = await mentionService.listBrands();
+      setBrands(loaded);
+      if (loaded.length > 0) {
+        setBrand(loaded[0].brand);
+      }
+    } catch (error) {
+      console.error('Failed to load brands:', error);
+      setError('Failed to load brands');
+    }
+  };
+
+  const loadReport = async () => {
+    try {
+      setError(null);
+      setReport(await mentionService.getSentiment({ brand, days, ...(keyword && { keyword }) }));
+    } catch (error: any) {
+      setError(error.response?.data?.error || 'Failed to load sentiment');
+    }
+  };
+
+  const loadMentions = async () => {
+    try {
+      setError(null);
+      const result = await mentionService.getMentions({
+        brand,
+        limit: 20,
+        ...(keyword && { keyword }),
+        ...(selectedDay && { from: selectedDay, to: nextDay(selectedDay) })
+      });
+      setMentions(result.mentions);
+      setTotalMentions(result.total);
+    } catch (error: any) {
+      setError(error.response?.data?.error || 'Failed to load mentions');
+    }
+  };
+
+  const handleBrandChange = (value: string) => {
+    setBrand(value);
+    setKeyword('');
+    setSelectedDay(null);
+  };
+
+  const current = brands.find(entry => entry.brand === brand);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Brand Sentiment</CardTitle>
+        <CardDescription>
+          Daily mentions by sentiment. Click a day to see its mentions.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {brands.length === 0 ? (
+          <p className="body-small text-gray-500">
+            No mentions yet. Search for brand mentions or schedule a brand mention scan to start the series.
+          </p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-end gap-4">
+              <select value={brand} onChange={(e) => handleBrandChange(e.target.value)} className="input">
+                {brands.map(entry => (
+                  <option key={entry.brand} value={entry.brand}>{entry.brand}</option>
+                ))}
+              </select>
+
+              {current && current.keywords.length > 0 && (
+                <select
+                  value={keyword}
+                  onChange={(e) => { setKeyword(e.target.value); setSelectedDay(null); }}
+                  className="input"
+                >
+                  <option value="">All keywords</option>
+                  {current.keywords.map(entry => (
+                    <option key={entry} value={entry}>{entry}</option>
+                  ))}
+                </select>
+              )}
+
+              <select
+                value={days}
+                onChange={(e) => { setDays(parseInt(e.target.value)); setSelectedDay(null); }}
+                className="input"
+              >
+                {rangeOptions.map(option => (
+                  <option key={option} value={option}>Last {option} days</option>
+                ))}
+              </select>
+            </div>
+
+            {report && (
+              <>
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="success" size="small">{report.summary.positive}% positive</Badge>
+                  <Badge variant="neutral" size="small">{report.summary.neutral}% neutral</Badge>
+                  <Badge variant="error" size="small">{report.summary.negative}% negative</Badge>
+                  <Badge variant="primary" size="small">score {report.summary.overall}</Badge>
+                </div>
+
+                <SentimentChart series={report.series} selected={selectedDay} onSelect={setSelectedDay} />
+
+                <div className="flex justify-between body-small text-gray-400">
+                  <span>{report.series[0]?.date}</span>
+                  <span>{report.series[report.series.length - 1]?.date}</span>
+                </div>
+              </>
+            )}
+
+            {error && <p className="body-small text-red-600">{error}</p>}
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <p className="body-small font-medium text-gray-700">
+                  {selectedDay ? `Mentions on ${selectedDay}` : 'Latest mentions'} ({totalMentions})
+                </p>
+                {selectedDay && (
+                  <Button variant="ghost" size="small" icon={X} onClick={() => setSelectedDay(null)}>
+                    Clear
+                  </Button>
+                )}
+              </div>
+
+              <ul className="divide-y divide-gray-100">
+                {mentions.map(mention => (
+                  <li key={mention.id} className="py-2 flex items-start justify-between">
+                    <div className="min-w-0 flex-1">
+                      <a
+                        href={mention.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="font-medium text-gray-900 hover:text-primary-600 flex items-center space-x-1"
+                      >
+                        <span className="truncate">{mention.title}</span>
+                        <ExternalLink size={12} className="flex-shrink-0" />
+                      </a>
+                      <p className="body-small text-gray-400 truncate">
+                        {mention.source} · {new Date(mention.publishedAt || mention.createdAt).toLocaleDateString()}
+                        {mention.keyword && ` · ${mention.keyword}`}
+                      </p>
+                    </div>
+                    <Badge variant={sentimentVariant[mention.sentiment]} size="small" className="ml-2">
+                      {mention.sentiment}
+                    </Badge>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,268 @@
+import React, { useEffect, useState } from 'react';
+import { Camera, GitCompare, Pause, Play, Plus, Trash2, Users } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Badge } from '@/components/ui/Badge';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/Card';
+import { competitorService, Competitor, CompetitorDiff } from '@/services/competitorService';
+
+const formatCount = (value: number | null) => value === null ? '–' : value.toLocaleString();
+
+const DiffSummary: React.FC<{ diff: CompetitorDiff }> = ({ diff }) => {
+  const postDelta = diff.recentPostCount.after - diff.recentPostCount.before;
+  const hasChanges = diff.topicsAdded.length > 0 || diff.topicsRemoved.length > 0 || diff.contentFrequency !== null
+    || postDelta !== 0 || diff.platformsAdded.length > 0 || diff.platformsRemoved.length > 0
+    || diff.platformChanges.length > 0 || diff.newContent.length > 0;
+
+  return (
+    <div className="mt-2 p-3 rounded-xl bg-gray-50 space-y-2 body-small text-gray-700">
+      <p className="text-gray-400">
+        {diff.fromId === diff.toId
+          ? `Only one snapshot so far (${new Date(diff.toCapturedAt).toLocaleDateString()})`
+          : `${new Date(diff.fromCapturedAt).toLocaleDateString()} → ${new Date(diff.toCapturedAt).toLocaleDateString()}`}
+      </p>
+
+      {diff.fromId !== diff.toId && !hasChanges && <p>No changes.</p>}
+
+      {(diff.topicsAdded.length > 0 || diff.topicsRemoved.length > 0) && (
+        <div className="flex flex-wrap gap-1">
+          {diff.topicsAdded.map(topic => (
+            <Badge key={`+${topic}`} variant="success" size="small">+ {topic}</Badge>
+          ))}
+          {diff.topicsRemoved.map(topic => (
+            <Badge key={`-${topic}`} variant="error" size="small">− {topic}</Badge>
+          ))}
+        </div>
+      )}
+
+      {diff.contentFrequency && (
+        <p>Posting frequency: {diff.contentFrequency.before} → {diff.contentFrequency.after}</p>
+      )}
+
+      {postDelta !== 0 && (
+        <p>
+          Posts in the last 30 days: {diff.recentPostCount.before} → {diff.recentPostCount.after}
+        </p>
+      )}
+
+      {diff.platformsAdded.length > 0 && <p>New on {diff.platformsAdded.join(', ')}</p>}
+      {diff.platformsRemoved.length > 0 && <p>No longer seen on {diff.platformsRemoved.join(', ')}</p>}
+
+      {diff.platformChanges.map(change => (
+        <p key={change.platform}>
+          {change.platform}: {formatCount(change.followersBefore)} → {formatCount(change.followersAfter)} followers
+        </p>
+      ))}
+
+      {diff.newContent.length > 0 && (
+        <ul className="list-disc list-inside">
+          {diff.newContent.map(content => (
+            <li key={content.url} className="truncate">
+              <a href={content.url} target="_blank" rel="noopener noreferrer" className="text-primary-600 hover:underline">
+                {content.title}
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export const CompetitorWatchlist: React.FC = () => {
+  const [competitors, setCompetitors] = useState<Competitor[]>([]);
+  const [name, setName] = useState('');
+  const [industry, setIndustry] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [snapshottingId, setSnapshottingId] = useState<string | null>(null);
+  const [diffs, setDiffs] = useState<Record<string, CompetitorDiff>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadCompetitors();
+  }, []);
+
+  const loadCompetitors = async () => {
+    try {
+      setCompetitors(await competitorService.listCompetitors());
+    } catch (error) {
+      console.error('Failed to load competitors:', error);
+      setError('Failed to load competitors');
+    }
+  };
+
+  const replace = (updated: Competitor) =>
+    setCompetitors(prev => prev.map(existing => existing.id === updated.id ? updated : existing));
+
+  const hideDiff = (id: string) =>
+    setDiffs(prev => {
+      const { [id]: _removed, ...rest } = prev;
+      return rest;
+    });
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !industry.trim()) {
+      return;
+    }
+
+    try {
+      setError(null);
+      setIsAdding(true);
+      const competitor = await competitorService.addCompetitor({ name: name.trim(), industry: industry.trim() });
+      setCompetitors(prev => [...prev, competitor].sort((a, b) => a.name.localeCompare(b.name)));
+      setName('');
+    } catch (error: any) {
+      setError(error.response?.data?.error || error.response?.data?.errors?.[0] || 'Failed to add competitor');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleToggleDiff = async (competitor: Competitor) => {
+    if (diffs[competitor.id]) {
+      hideDiff(competitor.id);
+      return;
+    }
+
+    try {
+      setError(null);
+      const diff = await competitorService.getDiff(competitor.id);
+      setDiffs(prev => ({ ...prev, [competitor.id]: diff }));
+    } catch (error: any) {
+      setError(error.response?.data?.error || 'Failed to load changes');
+    }
+  };
+
+  const handleSnapshot = async (competitor: Competitor) => {
+    try {
+      setError(null);
+      setSnapshottingId(competitor.id);
+      const snapshot = await competitorService.takeSnapshot(competitor.id);
+      replace({ ...competitor, lastSnapshotAt: snapshot.capturedAt });
+      hideDiff(competitor.id);
+    } catch (error) {
+      console.error('Failed to snapshot competitor:', error);
+      setError('Failed to snapshot competitor');
+    } finally {
+      setSnapshottingId(null);
+    }
+  };
+
+  const handleToggle = async (competitor: Competitor) => {
+    try {
+      setError(null);
+      replace(await competitorService.updateCompetitor(competitor.id, { isActive: !competitor.isActive }));
+    } catch (error) {
+      console.error('Failed to update competitor:', error);
+      setError('Failed to update competitor');
+    }
+  };
+
+  const handleRemove = async (competitor: Competitor) => {
+    if (!window.confirm(`Stop tracking ${competitor.name} and delete its history?`)) {
+      return;
+    }
+
+    try {
+      setError(null);
+      await competitorService.removeCompetitor(competitor.id);
+      setCompetitors(prev => prev.filter(existing => existing.id !== competitor.id));
+      hideDiff(competitor.id);
+    } catch (error) {
+      console.error('Failed to remove competitor:', error);
+      setError('Failed to remove competitor');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Competitors</CardTitle>
+        <CardDescription>
+          Snapshots of topics, posting pace and social presence, and what changed since last week.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleAdd} className="space-y-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Competitor name"
+            icon={Users}
+          />
+          <div className="flex items-end gap-2">
+            <div className="flex-1">
+              <Input
+                value={industry}
+                onChange={(e) => setIndustry(e.target.value)}
+                placeholder="Industry"
+              />
+            </div>
+            <Button type="submit" variant="secondary" icon={Plus} loading={isAdding}>
+              Track
+            </Button>
+          </div>
+        </form>
+
+        {error && <p className="body-small text-red-600">{error}</p>}
+
+        {competitors.length === 0 ? (
+          <p className="body-small text-gray-500">No competitors tracked yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {competitors.map(competitor => (
+              <li key={competitor.id} className="py-3">
+                <div className="flex items-start justify-between">
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-gray-900 truncate">{competitor.name}</span>
+                      {!competitor.isActive && <Badge variant="warning" size="small">paused</Badge>}
+                    </div>
+                    <p className="body-small text-gray-400 truncate">
+                      {competitor.industry} · {competitor.lastSnapshotAt
+                        ? `Snapshot ${new Date(competitor.lastSnapshotAt).toLocaleString()}`
+                        : 'No snapshot yet'}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-1 ml-2">
+                    <Button
+                      variant="ghost"
+                      size="small"
+                      icon={GitCompare}
+                      disabled={!competitor.lastSnapshotAt}
+                      onClick={() => handleToggleDiff(competitor)}
+                    >
+                      Changes
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="small"
+                      icon={Camera}
+                      loading={snapshottingId === competitor.id}
+                      onClick={() => handleSnapshot(competitor)}
+                    >
+                      Snapshot
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="small"
+                      icon={competitor.isActive ? Pause : Play}
+                      onClick={() => handleToggle(competitor)}
+                    >
+                      {competitor.isActive ? 'Pause' : 'Resume'}
+                    </Button>
+                    <Button variant="ghost" size="small" icon={Trash2} onClick={() => handleRemove(competitor)}>
+                      Remove
+                    </Button>
+                  </div>
+                </div>
+                {diffs[competitor.id] && <DiffSummary diff={diffs[competitor.id]} />}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from 'react';
+import { Pause, Play, Plus, RefreshCw, Rss, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Badge } from '@/components/ui/Badge';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/Card';
+import { feedService, FeedSubscription } from '@/services/feedService';
+
+interface FeedSubscriptionsProps {
+  // Called when a subscribe or poll brought in new feed items
+  onNewItems: () => void;
+}
+
+export const FeedSubscriptions: React.FC<FeedSubscriptionsProps> = ({ onNewItems }) => {
+  const [subscriptions, setSubscriptions] = useState<FeedSubscription[]>([]);
+  const [url, setUrl] = useState('');
+  const [isSubscribing, setIsSubscribing] = useState(false);
+  const [pollingId, setPollingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSubscriptions();
+  }, []);
+
+  const loadSubscriptions = async () => {
+    try {
+      setSubscriptions(await feedService.listSubscriptions());
+    } catch (error) {
+      console.error('Failed to load feeds:', error);
+      setError('Failed to load feeds');
+    }
+  };
+
+  const replace = (updated: FeedSubscription) =>
+    setSubscriptions(prev => prev.map(existing => existing.id === updated.id ? updated : existing));
+
+  const handleSubscribe = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!url.trim()) {
+      return;
+    }
+
+    try {
+      setError(null);
+      setIsSubscribing(true);
+      const result = await feedService.subscribe(url.trim());
+      setSubscriptions(prev => [result.subscription, ...prev]);
+      setUrl('');
+      if (result.newItems > 0) onNewItems();
+    } catch (error: any) {
+      setError(error.response?.data?.error || error.response?.data?.errors?.[0] || 'Failed to subscribe to feed');
+    } finally {
+      setIsSubscribing(false);
+    }
+  };
+
+  const handlePoll = async (subscription: FeedSubscription) => {
+    try {
+      setError(null);
+      setPollingId(subscription.id);
+      const result = await feedService.pollSubscription(subscription.id);
+      replace(result.subscription);
+      if (result.newItems > 0) onNewItems();
+    } catch (error: any) {
+      setError(error.response?.data?.error || 'Failed to refresh feed');
+      loadSubscriptions();
+    } finally {
+      setPollingId(null);
+    }
+  };
+
+  const handleToggle = async (subscription: FeedSubscription) => {
+    try {
+      setError(null);
+      replace(await feedService.updateSubscription(subscription.id, { isActive: !subscription.isActive }));
+    } catch (error) {
+      console.error('Failed to update feed:', error);
+      setError('Failed to update feed');
+    }
+  };
+
+  const handleUnsubscribe = async (subscription: FeedSubscription) => {
+    if (!window.confirm(`Unsubscribe from ${subscription.title || subscription.url}?`)) {
+      return;
+    }
+
+    try {
+      setError(null);
+      await feedService.unsubscribe(subscription.id);
+      setSubscriptions(prev => prev.filter(existing => existing.id !== subscription.id));
+    } catch (error) {
+      console.error('Failed to unsubscribe:', error);
+      setError('Failed to unsubscribe');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Feeds</CardTitle>
+        <CardDescription>
+          New posts from these RSS, Atom and JSON feeds land in your intelligence feed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleSubscribe} className="flex items-end gap-2">
+          <div className="flex-1">
+            <Input
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://example.com/feed.xml"
+              icon={Rss}
+            />
+          </div>
+          <Button type="submit" variant="secondary" icon={Plus} loading={isSubscribing}>
+            Add
+          </Button>
+        </form>
+
+        {error && <p className="body-small text-red-600">{error}</p>}
+
+        {subscriptions.length === 0 ? (
+          <p className="body-small text-gray-500">No feeds yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {subscriptions.map(subscription => (
+              <li key={subscription.id} className="py-3 flex items-start justify-between">
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium text-gray-900 truncate">
+                      {subscription.title || subscription.url}
+                    </span>
+                    {!subscription.isActive && <Badge variant="warning" size="small">paused</Badge>}
+                  </div>
+                  <p className="body-small text-gray-400 truncate">
+                    {subscription.lastError
+                      ? `Last error: ${subscription.lastError}`
+                      : subscription.lastPolledAt
+                        ? `Checked ${new Date(subscription.lastPolledAt).toLocaleString()}`
+                        : 'Not checked yet'}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-1 ml-2">
+                  <Button
+                    variant="ghost"
+                    size="small"
+                    icon={RefreshCw}
+                    loading={pollingId === subscription.id}
+                    onClick={() => handlePoll(subscription)}
+                  >
+                    Refresh
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="small"
+                    icon={subscription.isActive ? Pause : Play}
+                    onClick={() => handleToggle(subscription)}
+                  >
+                    {subscription.isActive ? 'Pause' : 'Resume'}
+                  </Button>
+                  <Button variant="ghost" size="small" icon={Trash2} onClick={() => handleUnsubscribe(subscription)}>
+                    Remove
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,114 @@
+import React from 'react';
+import { Bookmark, CheckCircle, ExternalLink, Radar, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/Badge';
+import { EmptyState } from '@/components/ui/EmptyState';
+import { IntelligenceItem, IntelligenceStatus } from '@/services/intelligenceService';
+
+interface IntelligenceFeedListProps {
+  items: IntelligenceItem[];
+  onTriage: (item: IntelligenceItem, status: IntelligenceStatus) => void;
+  onDelete: (item: IntelligenceItem) => void;
+}
+
+const getTypeColor = (type: IntelligenceItem['type']) => {
+  switch (type) {
+    case 'opportunity': return 'success';
+    case 'threat': return 'error';
+    case 'competitor': return 'warning';
+    case 'trend': return 'primary';
+    default: return 'neutral';
+  }
+};
+
+const statusLabels: Record<IntelligenceStatus, string> = {
+  new: 'new',
+  saved: 'saved',
+  dismissed: 'dismissed',
+  acted_on: 'acted on',
+};
+
+export const IntelligenceFeedList: React.FC<IntelligenceFeedListProps> = ({ items, onTriage, onDelete }) => {
+  if (items.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-8">
+          <EmptyState
+            icon={Radar}
+            title="Nothing here"
+            description="Trends, competitor activity and opportunities will appear here as they are found."
+          />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {items.map(item => (
+        <Card key={item.id}>
+          <div className="flex items-start justify-between">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center space-x-2 mb-2">
+                <Badge variant={getTypeColor(item.type)} size="small">
+                  {item.type}
+                </Badge>
+                {item.status !== 'new' && (
+                  <Badge size="small">{statusLabels[item.status]}</Badge>
+                )}
+                {item.isActionable && (
+                  <Badge variant="success" size="small">actionable</Badge>
+                )}
+                <span className="body-small text-gray-400">
+                  {Math.round(item.relevanceScore * 100)}% relevant · {new Date(item.createdAt).toLocaleDateString()}
+                </span>
+              </div>
+              <h3 className="heading-4 truncate">
+                {item.data.title || item.type}
+              </h3>
+              {item.data.summary && (
+                <p className="body-small text-gray-500 line-clamp-2">{item.data.summary}</p>
+              )}
+              {item.data.action && (
+                <p className="body-small text-primary-700 mt-1">{item.data.action}</p>
+              )}
+              {item.data.url && (
+                <a
+                  href={item.data.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center space-x-1 text-sm text-primary-600 hover:text-primary-700 mt-1"
+                >
+                  <ExternalLink size={14} />
+                  <span>Source</span>
+                </a>
+              )}
+            </div>
+
+            <div className="flex items-center space-x-1 ml-4">
+              {item.status !== 'saved' && (
+                <Button variant="ghost" size="small" icon={Bookmark} onClick={() => onTriage(item, 'saved')}>
+                  Save
+                </Button>
+              )}
+              {item.status !== 'acted_on' && (
+                <Button variant="ghost" size="small" icon={CheckCircle} onClick={() => onTriage(item, 'acted_on')}>
+                  Done
+                </Button>
+              )}
+              {item.status !== 'dismissed' && (
+                <Button variant="ghost" size="small" icon={X} onClick={() => onTriage(item, 'dismissed')}>
+                  Dismiss
+                </Button>
+              )}
+              <Button variant="ghost" size="small" icon={Trash2} onClick={() => onDelete(item)}>
+                Delete
+              </Button>
+            </div>
+          </div>
+        </Card>
+      ))}
+    </div>
+  );
+};
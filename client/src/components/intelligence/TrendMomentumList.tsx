@@ -0,0 +1,74 @@
+import React, { useEffect, useState } from 'react';
+import { TrendingDown, TrendingUp, Minus, Zap } from 'lucide-react';
+import { Badge } from '@/components/ui/Badge';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/Card';
+import { webSearchService, TrendDirection, TrendMomentumSummary } from '@/services/webSearchService';
+
+const directionIcon: Record<TrendDirection, React.ReactNode> = {
+  rising: <TrendingUp size={14} className="text-green-600" />,
+  stable: <Minus size={14} className="text-gray-400" />,
+  declining: <TrendingDown size={14} className="text-red-600" />,
+};
+
+export const TrendMomentumList: React.FC = () => {
+  const [trends, setTrends] = useState<TrendMomentumSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadTrends();
+  }, []);
+
+  const loadTrends = async () => {
+    try {
+      setError(null);
+      setTrends(await webSearchService.getTrendMomentum());
+    } catch (error) {
+      console.error('Failed to load trend momentum:', error);
+      setError('Failed to load trend momentum');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Trend Momentum</CardTitle>
+        <CardDescription>
+          Trends observed in the last 30 days. Only accelerating ones raise alerts.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error && <p className="body-small text-red-600 mb-2">{error}</p>}
+
+        {trends.length === 0 ? (
+          <p className="body-small text-gray-500">
+            No trends observed yet. Search industry trends or schedule a trend refresh to build up history.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {trends.map(trend => (
+              <li key={trend.keyword} className="py-2 flex items-center justify-between">
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center space-x-1">
+                    {directionIcon[trend.direction]}
+                    <span className="font-medium text-gray-900 truncate">{trend.keyword}</span>
+                  </div>
+                  <p className="body-small text-gray-400">
+                    {trend.growth > 0 ? '+' : ''}{trend.growth}% · {trend.observations} days observed
+                  </p>
+                </div>
+                {trend.accelerating ? (
+                  <Badge variant="success" size="small" className="ml-2">
+                    <Zap size={10} className="inline mr-1" />
+                    accelerating
+                  </Badge>
+                ) : (
+                  <Badge variant="neutral" size="small" className="ml-2">{trend.direction}</Badge>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
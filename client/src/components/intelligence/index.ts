@@ -0,0 +1,5 @@
+export { IntelligenceFeedList } from './IntelligenceFeedList';
+export { FeedSubscriptions } from './FeedSubscriptions';
+export { CompetitorWatchlist } from './CompetitorWatchlist';
+export { BrandSentiment } from './BrandSentiment';
+export { TrendMomentumList } from './TrendMomentumList';
@@ -0,0 +1,138 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Bell } from 'lucide-react';
+import { notificationService, Notification } from '@/services/notificationService';
+import { NotificationItem } from './NotificationItem';
+
+// How often the unread count is refreshed
+const POLL_INTERVAL_MS = 60 * 1000;
+
+export const NotificationBell: React.FC = () => {
+  const navigate = useNavigate();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [unread, setUnread] = useState(0);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+
+  useEffect(() => {
+    loadUnreadCount();
+    const timer = setInterval(loadUnreadCount, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    loadNotifications();
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const loadUnreadCount = async () => {
+    try {
+      setUnread(await notificationService.getUnreadCount());
+    } catch (error) {
+      console.error('Failed to load unread notifications:', error);
+    }
+  };
+
+  const loadNotifications = async () => {
+    try {
+      const result = await notificationService.getNotifications({ limit: 8 });
+      setNotifications(result.notifications);
+      setUnread(result.unread);
+    } catch (error) {
+      console.error('Failed to load notifications:', error);
+    }
+  };
+
+  const handleToggleRead = async (notification: Notification) => {
+    try {
+      const updated = await notificationService.setRead(notification.id, !notification.readAt);
+      setNotifications(prev => prev.map(existing => existing.id === updated.id ? updated : existing));
+      setUnread(prev => Math.max(0, prev + (updated.readAt ? -1 : 1)));
+    } catch (error) {
+      console.error('Failed to update notification:', error);
+    }
+  };
+
+  const handleOpen = async (notification: Notification) => {
+    if (!notification.readAt) {
+      await handleToggleRead(notification);
+    }
+    setIsOpen(false);
+    if (notification.link) {
+      navigate(notification.link);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await notificationService.markAllRead();
+      await loadNotifications();
+    } catch (error) {
+      console.error('Failed to mark notifications read:', error);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 rounded-xl text-gray-500 hover:text-gray-700 hover:bg-gray-50 transition-all duration-200"
+        aria-label={unread > 0 ? `${unread} unread notifications` : 'Notifications'}
+      >
+        <Bell size={18} />
+        {unread > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 bg-red-500 text-white text-[10px] font-semibold rounded-full flex items-center justify-center">
+            {unread > 99 ? '99+' : unread}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-96 bg-white rounded-2xl shadow-xl border border-gray-100 z-50 animate-slide-down">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+            <h3 className="font-semibold text-gray-900">Notifications</h3>
+            {unread > 0 && (
+              <button onClick={handleMarkAllRead} className="text-xs text-primary-600 hover:underline">
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto p-2 space-y-1">
+            {notifications.length === 0 ? (
+              <p className="body-small text-gray-500 text-center py-6">You're all caught up</p>
+            ) : (
+              notifications.map(notification => (
+                <NotificationItem
+                  key={notification.id}
+                  notification={notification}
+                  onOpen={handleOpen}
+                  onToggleRead={handleToggleRead}
+                />
+              ))
+            )}
+          </div>
+
+          <Link
+            to="/notifications"
+            onClick={() => setIsOpen(false)}
+            className="block px-4 py-3 text-center text-sm font-medium text-primary-600 border-t border-gray-100 hover:bg-gray-50 rounded-b-2xl"
+          >
+            View all and settings
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,70 @@
+import React from 'react';
+import { Bell, CalendarClock, Circle, CircleDot, FlaskConical, Trash2 } from 'lucide-react';
+import { Notification, NotificationType } from '@/services/notificationService';
+
+interface NotificationItemProps {
+  notification: Notification;
+  onOpen: (notification: Notification) => void;
+  onToggleRead: (notification: Notification) => void;
+  onDelete?: (notification: Notification) => void;
+}
+
+export const notificationIcons: Record<NotificationType, React.ReactNode> = {
+  alert: <Bell size={16} className="text-amber-600" />,
+  analysis: <FlaskConical size={16} className="text-primary-600" />,
+  deadline: <CalendarClock size={16} className="text-red-600" />,
+};
+
+const timeAgo = (date: string) => {
+  const minutes = Math.round((Date.now() - new Date(date).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.round(minutes / 60)}h ago`;
+  return new Date(date).toLocaleDateString();
+};
+
+export const NotificationItem: React.FC<NotificationItemProps> = ({
+  notification,
+  onOpen,
+  onToggleRead,
+  onDelete
+}) => {
+  const isUnread = !notification.readAt;
+
+  return (
+    <div className={`flex items-start space-x-3 p-3 rounded-xl ${isUnread ? 'bg-primary-50/60' : ''}`}>
+      <div className="mt-0.5 flex-shrink-0">{notificationIcons[notification.type]}</div>
+
+      <button onClick={() => onOpen(notification)} className="min-w-0 flex-1 text-left">
+        <p className={`text-sm truncate ${isUnread ? 'font-semibold text-gray-900' : 'text-gray-700'}`}>
+          {notification.title}
+        </p>
+        {notification.body && (
+          <p className="body-small text-gray-500 line-clamp-2">{notification.body}</p>
+        )}
+        <p className="text-xs text-gray-400 mt-0.5">{timeAgo(notification.createdAt)}</p>
+      </button>
+
+      <div className="flex items-center space-x-1 flex-shrink-0">
+        <button
+          onClick={() => onToggleRead(notification)}
+          className="p-1 rounded-lg text-gray-400 hover:text-gray-700 hover:bg-gray-100"
+          title={isUnread ? 'Mark read' : 'Mark unread'}
+          aria-label={isUnread ? 'Mark read' : 'Mark unread'}
+        >
+          {isUnread ? <CircleDot size={14} /> : <Circle size={14} />}
+        </button>
+        {onDelete && (
+          <button
+            onClick={() => onDelete(notification)}
+            className="p-1 rounded-lg text-gray-400 hover:text-red-600 hover:bg-gray-100"
+            title="Delete"
+            aria-label="Delete"
+          >
+            <Trash2 size={14} />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Calendar, FolderKanban, FolderPlus, Lightbulb, ShieldAlert, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/Badge';
+import { PipelineItem, PipelinePriority, PipelineStage } from '@/services/pipelineService';
+
+interface PipelineBoardProps {
+  items: PipelineItem[];
+  convertingId?: string | null;
+  onMove: (item: PipelineItem, stage: PipelineStage) => void;
+  onConvert: (item: PipelineItem) => void;
+  onDelete: (item: PipelineItem) => void;
+}
+
+const columns: { stage: PipelineStage; label: string }[] = [
+  { stage: 'detected', label: 'Detected' },
+  { stage: 'pursuing', label: 'Pursuing' },
+  { stage: 'done', label: 'Done' },
+  { stage: 'ignored', label: 'Ignored' },
+];
+
+const priorityVariant: Record<PipelinePriority, 'error' | 'warning' | 'neutral'> = {
+  high: 'error',
+  medium: 'warning',
+  low: 'neutral',
+};
+
+const formatCategory = (category: string) =>
+  category.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+export const PipelineBoard: React.FC<PipelineBoardProps> = ({
+  items,
+  convertingId,
+  onMove,
+  onConvert,
+  onDelete
+}) => {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [overStage, setOverStage] = useState<PipelineStage | null>(null);
+
+  const handleDrop = (stage: PipelineStage) => {
+    const item = items.find(entry => entry.id === draggedId);
+    if (item && item.stage !== stage) {
+      onMove(item, stage);
+    }
+    setDraggedId(null);
+    setOverStage(null);
+  };
+
+  return (
+    <div className="grid md:grid-cols-2 xl:grid-cols-4 gap-4">
+      {columns.map(column => {
+        const columnItems = items.filter(item => item.stage === column.stage);
+
+        return (
+          <div
+            key={column.stage}
+            className={`rounded-2xl p-3 transition-colors duration-200 ${
+              overStage === column.stage ? 'bg-primary-50' : 'bg-gray-50'
+            }`}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setOverStage(column.stage);
+            }}
+            onDragLeave={() => setOverStage(null)}
+            onDrop={() => handleDrop(column.stage)}
+          >
+            <div className="flex items-center justify-between mb-3 px-1">
+              <h3 className="heading-4">{column.label}</h3>
+              <Badge variant="neutral" size="small">{columnItems.length}</Badge>
+            </div>
+
+            <div className="space-y-3">
+              {columnItems.length === 0 ? (
+                <div className="flex flex-col items-center py-6 text-gray-400">
+                  <FolderKanban size={20} />
+                  <span className="body-small mt-2">Nothing here</span>
+                </div>
+              ) : (
+                columnItems.map(item => (
+                  <div
+                    key={item.id}
+                    draggable
+                    onDragStart={() => setDraggedId(item.id)}
+                    onDragEnd={() => setDraggedId(null)}
+                    className={draggedId === item.id ? 'opacity-50' : ''}
+                  >
+                    <Card className="cursor-move">
+                      <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center space-x-1">
+                            {item.kind === 'opportunity' ? (
+                              <Lightbulb size={14} className="text-green-600" />
+                            ) : (
+                              <ShieldAlert size={14} className="text-red-600" />
+                            )}
+                            <Badge variant={item.kind === 'opportunity' ? 'success' : 'error'} size="small">
+                              {formatCategory(item.category)}
+                            </Badge>
+                          </div>
+                          <Badge variant={priorityVariant[item.priority]} size="small">
+                            {item.priority}
+                          </Badge>
+                        </div>
+
+                        <h4 className="font-semibold text-gray-900">{item.title}</h4>
+                        {item.description && (
+                          <p className="body-small text-gray-600 line-clamp-3">{item.description}</p>
+                        )}
+
+                        {item.actions.length > 0 && (
+                          <ul className="body-small text-gray-600 list-disc list-inside">
+                            {item.actions.slice(0, 3).map(action => (
+                              <li key={action}>{action}</li>
+                            ))}
+                          </ul>
+                        )}
+
+                        {item.deadline && (
+                          <div className="flex items-center space-x-1 body-small text-gray-500">
+                            <Calendar size={12} />
+                            <span>Due {new Date(item.deadline).toLocaleDateString()}</span>
+                          </div>
+                        )}
+
+                        <div className="flex flex-wrap items-center gap-2 pt-1">
+                          <select
+                            value={item.stage}
+                            onChange={(e) => onMove(item, e.target.value as PipelineStage)}
+                            className="body-small rounded-lg border-gray-200 bg-white text-gray-600"
+                            aria-label="Move to stage"
+                          >
+                            {columns.map(option => (
+                              <option key={option.stage} value={option.stage}>{option.label}</option>
+                            ))}
+                          </select>
+                          {item.projectId ? (
+                            <Link to="/projects" className="body-small text-primary-600 hover:underline">
+                              View project
+                            </Link>
+                          ) : item.kind === 'opportunity' && (
+                            <Button
+                              variant="ghost"
+                              size="small"
+                              icon={FolderPlus}
+                              loading={convertingId === item.id}
+                              onClick={() => onConvert(item)}
+                            >
+                              Make project
+                            </Button>
+                          )}
+                          <Button variant="ghost" size="small" icon={Trash2} onClick={() => onDelete(item)}>
+                            Delete
+                          </Button>
+                        </div>
+                      </div>
+                    </Card>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { PipelineBoard } from './PipelineBoard';
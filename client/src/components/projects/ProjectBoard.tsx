@@ -0,0 +1,92 @@
+import React from 'react';
+import { FolderKanban } from 'lucide-react';
+import { Card } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/Badge';
+import { Project, ProjectStatus } from '@/services/projectService';
+
+interface ProjectBoardProps {
+  projects: Project[];
+  selectedId?: string | null;
+  onSelect: (project: Project) => void;
+}
+
+const columns: { status: ProjectStatus; label: string }[] = [
+  { status: 'active', label: 'Active' },
+  { status: 'paused', label: 'Paused' },
+  { status: 'completed', label: 'Completed' },
+  { status: 'cancelled', label: 'Cancelled' },
+];
+
+export const formatProjectType = (type: string) =>
+  type.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+export const ProgressBar: React.FC<{ value: number }> = ({ value }) => (
+  <div className="w-full h-2 bg-gray-100 rounded-full overflow-hidden">
+    <div
+      className="h-full bg-gradient-to-r from-primary-500 to-primary-600 rounded-full transition-all duration-300"
+      style={{ width: `${Math.min(Math.max(value, 0), 100)}%` }}
+    />
+  </div>
+);
+
+export const ProjectBoard: React.FC<ProjectBoardProps> = ({
+  projects,
+  selectedId,
+  onSelect
+}) => {
+  return (
+    <div className="grid md:grid-cols-2 xl:grid-cols-4 gap-4">
+      {columns.map(column => {
+        const columnProjects = projects.filter(project => project.status === column.status);
+
+        return (
+          <div key={column.status} className="bg-gray-50 rounded-2xl p-3">
+            <div className="flex items-center justify-between mb-3 px-1">
+              <h3 className="heading-4">{column.label}</h3>
+              <Badge variant="neutral" size="small">{columnProjects.length}</Badge>
+            </div>
+
+            <div className="space-y-3">
+              {columnProjects.length === 0 ? (
+                <div className="flex flex-col items-center py-6 text-gray-400">
+                  <FolderKanban size={20} />
+                  <span className="body-small mt-2">No projects</span>
+                </div>
+              ) : (
+                columnProjects.map(project => (
+                  <Card
+                    key={project.id}
+                    variant="interactive"
+                    className={`w-full text-left ${selectedId === project.id ? 'ring-2 ring-primary-500' : ''}`}
+                    onClick={() => onSelect(project)}
+                  >
+                    <div className="space-y-2">
+                      <Badge variant="primary" size="small">
+                        {formatProjectType(project.type)}
+                      </Badge>
+                      <h4 className="font-semibold text-gray-900 truncate">{project.name}</h4>
+                      {project.progress && (
+                        <>
+                          <ProgressBar value={project.progress.completionRate} />
+                          <div className="flex items-center justify-between body-small text-gray-500">
+                            <span>{project.progress.completionRate}% complete</span>
+                            <span>{project.progress.linkedContent} posts</span>
+                          </div>
+                          {project.progress.overdueDeadlines > 0 && (
+                            <Badge variant="error" size="small">
+                              {project.progress.overdueDeadlines} overdue
+                            </Badge>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  </Card>
+                ))
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,351 @@
+import React, { useEffect, useState } from 'react';
+import { CalendarClock, CheckCircle, Circle, Flag, Link2, Plus, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/Badge';
+import { LoadingState } from '@/components/ui/LoadingSpinner';
+import { projectService, ProjectDetails, ProjectDeadline, ProjectStatus } from '@/services/projectService';
+import { contentService, ContentItem } from '@/services/contentService';
+import { ProgressBar, formatProjectType } from './ProjectBoard';
+
+interface ProjectDetailProps {
+  projectId: string;
+  onChanged: () => void;
+  onDeleted: () => void;
+  onClose: () => void;
+}
+
+const statusOptions: ProjectStatus[] = ['active', 'paused', 'completed', 'cancelled'];
+
+const getPriorityColor = (priority: ProjectDeadline['priority']) => {
+  switch (priority) {
+    case 'high': return 'error';
+    case 'medium': return 'warning';
+    default: return 'neutral';
+  }
+};
+
+export const ProjectDetail: React.FC<ProjectDetailProps> = ({
+  projectId,
+  onChanged,
+  onDeleted,
+  onClose
+}) => {
+  const [details, setDetails] = useState<ProjectDetails | null>(null);
+  const [library, setLibrary] = useState<ContentItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [milestoneName, setMilestoneName] = useState('');
+  const [milestoneDate, setMilestoneDate] = useState('');
+  const [deadlineName, setDeadlineName] = useState('');
+  const [deadlineDate, setDeadlineDate] = useState('');
+  const [deadlinePriority, setDeadlinePriority] = useState<ProjectDeadline['priority']>('medium');
+  const [contentToLink, setContentToLink] = useState('');
+
+  useEffect(() => {
+    loadDetails();
+  }, [projectId]);
+
+  const loadDetails = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const [projectDetails, contentResult] = await Promise.all([
+        projectService.getProject(projectId),
+        contentService.listContent({ limit: 200 })
+      ]);
+      setDetails(projectDetails);
+      setLibrary(contentResult.content.filter(item => item.status !== 'archived'));
+    } catch (error) {
+      console.error('Failed to load project:', error);
+      setError('Failed to load project');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Reload after any change so progress stays in sync with the server
+  const runAction = async (action: () => Promise<unknown>, failureMessage: string) => {
+    try {
+      setError(null);
+      await action();
+      await loadDetails();
+      onChanged();
+    } catch (error) {
+      console.error(`${failureMessage}:`, error);
+      setError(failureMessage);
+    }
+  };
+
+  const addMilestone = () => {
+    if (!milestoneName.trim() || !milestoneDate) return;
+    runAction(async () => {
+      await projectService.addMilestone(projectId, { name: milestoneName, targetDate: milestoneDate });
+      setMilestoneName('');
+      setMilestoneDate('');
+    }, 'Failed to add milestone');
+  };
+
+  const addDeadline = () => {
+    if (!deadlineName.trim() || !deadlineDate) return;
+    runAction(async () => {
+      await projectService.addDeadline(projectId, { name: deadlineName, date: deadlineDate, priority: deadlinePriority });
+      setDeadlineName('');
+      setDeadlineDate('');
+    }, 'Failed to add deadline');
+  };
+
+  const linkContent = () => {
+    if (!contentToLink) return;
+    runAction(async () => {
+      await projectService.linkContent(projectId, contentToLink);
+      setContentToLink('');
+    }, 'Failed to link content');
+  };
+
+  const deleteProject = async () => {
+    if (!window.confirm('Delete this project and its timeline?')) {
+      return;
+    }
+
+    try {
+      await projectService.deleteProject(projectId);
+      onDeleted();
+    } catch (error) {
+      console.error('Failed to delete project:', error);
+      setError('Failed to delete project');
+    }
+  };
+
+  if (isLoading && !details) {
+    return <LoadingState text="Loading project..." />;
+  }
+
+  if (!details) {
+    return (
+      <Card>
+        <CardContent>
+          <p className="text-sm text-red-600">{error || 'Project not found'}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { project, timeline, content, progress } = details;
+  const linkedIds = new Set(content.map(item => item.id));
+  const linkableContent = library.filter(item => !linkedIds.has(item.id));
+
+  return (
+    <Card variant="elevated">
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <div className="flex items-center space-x-2 mb-1">
+              <Badge variant="primary" size="small">{formatProjectType(project.type)}</Badge>
+              <select
+                value={project.status}
+                onChange={(e) => runAction(
+                  () => projectService.updateProject(project.id, { status: e.target.value as ProjectStatus }),
+                  'Failed to update project status'
+                )}
+                className="input py-1 text-sm w-auto"
+              >
+                {statusOptions.map(status => (
+                  <option key={status} value={status}>
+                    {status.charAt(0).toUpperCase() + status.slice(1)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <CardTitle>{project.name}</CardTitle>
+            {project.description && (
+              <CardDescription>{project.description}</CardDescription>
+            )}
+          </div>
+          <div className="flex items-center space-x-1">
+            <Button variant="ghost" size="small" icon={Trash2} onClick={deleteProject}>
+              Delete
+            </Button>
+            <button
+              onClick={onClose}
+              className="p-2 rounded-xl text-gray-600 hover:text-gray-900 hover:bg-gray-50 transition-colors"
+            >
+              <X size={16} />
+            </button>
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        <div className="space-y-6">
+          {/* Completion */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm font-medium text-gray-700">Completion</span>
+              <span className="text-sm text-gray-500">{progress.completionRate}%</span>
+            </div>
+            <ProgressBar value={progress.completionRate} />
+            <div className="flex flex-wrap gap-2 mt-2">
+              <Badge size="small">{progress.milestonesCompleted}/{progress.milestonesTotal} milestones</Badge>
+              <Badge size="small">{progress.deadlinesCompleted}/{progress.deadlinesTotal} deadlines</Badge>
+              <Badge size="small">{progress.publishedContent}/{progress.linkedContent} published</Badge>
+              {progress.overdueDeadlines > 0 && (
+                <Badge variant="error" size="small">{progress.overdueDeadlines} overdue</Badge>
+              )}
+            </div>
+          </div>
+
+          {/* Milestones */}
+          <div>
+            <h4 className="heading-4 mb-2 flex items-center"><Flag size={16} className="mr-2" />Milestones</h4>
+            <ul className="space-y-2 mb-3">
+              {timeline.milestones.map(milestone => (
+                <li key={milestone.id} className="flex items-center justify-between">
+                  <button
+                    className="flex items-center space-x-2 text-left"
+                    onClick={() => runAction(
+                      () => projectService.updateMilestone(project.id, milestone.id, { completed: !milestone.completed }),
+                      'Failed to update milestone'
+                    )}
+                  >
+                    {milestone.completed
+                      ? <CheckCircle size={16} className="text-green-600" />
+                      : <Circle size={16} className="text-gray-400" />}
+                    <span className={milestone.completed ? 'line-through text-gray-400' : 'text-gray-800'}>
+                      {milestone.name}
+                    </span>
+                    <span className="body-small text-gray-400">
+                      {new Date(milestone.targetDate).toLocaleDateString()}
+                    </span>
+                  </button>
+                  <button
+                    onClick={() => runAction(
+                      () => projectService.deleteMilestone(project.id, milestone.id),
+                      'Failed to delete milestone'
+                    )}
+                    className="p-1 rounded-lg text-gray-400 hover:text-red-600 hover:bg-gray-50 transition-colors"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <div className="flex items-end gap-2">
+              <div className="flex-1">
+                <Input value={milestoneName} onChange={(e) => setMilestoneName(e.target.value)} placeholder="New milestone" />
+              </div>
+              <div className="w-40">
+                <Input type="date" value={milestoneDate} onChange={(e) => setMilestoneDate(e.target.value)} />
+              </div>
+              <Button variant="secondary" icon={Plus} onClick={addMilestone}>Add</Button>
+            </div>
+          </div>
+
+          {/* Deadlines */}
+          <div>
+            <h4 className="heading-4 mb-2 flex items-center"><CalendarClock size={16} className="mr-2" />Deadlines</h4>
+            <ul className="space-y-2 mb-3">
+              {timeline.deadlines.map(deadline => (
+                <li key={deadline.id} className="flex items-center justify-between">
+                  <button
+                    className="flex items-center space-x-2 text-left"
+                    onClick={() => runAction(
+                      () => projectService.updateDeadline(project.id, deadline.id, { completed: !deadline.completed }),
+                      'Failed to update deadline'
+                    )}
+                  >
+                    {deadline.completed
+                      ? <CheckCircle size={16} className="text-green-600" />
+                      : <Circle size={16} className="text-gray-400" />}
+                    <span className={deadline.completed ? 'line-through text-gray-400' : 'text-gray-800'}>
+                      {deadline.name}
+                    </span>
+                    <span className="body-small text-gray-400">
+                      {new Date(deadline.date).toLocaleDateString()}
+                    </span>
+                    <Badge variant={getPriorityColor(deadline.priority)} size="small">{deadline.priority}</Badge>
+                  </button>
+                  <button
+                    onClick={() => runAction(
+                      () => projectService.deleteDeadline(project.id, deadline.id),
+                      'Failed to delete deadline'
+                    )}
+                    className="p-1 rounded-lg text-gray-400 hover:text-red-600 hover:bg-gray-50 transition-colors"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <div className="flex items-end gap-2">
+              <div className="flex-1">
+                <Input value={deadlineName} onChange={(e) => setDeadlineName(e.target.value)} placeholder="New deadline" />
+              </div>
+              <div className="w-40">
+                <Input type="date" value={deadlineDate} onChange={(e) => setDeadlineDate(e.target.value)} />
+              </div>
+              <select
+                value={deadlinePriority}
+                onChange={(e) => setDeadlinePriority(e.target.value as ProjectDeadline['priority'])}
+                className="input w-auto"
+              >
+                <option value="low">Low</option>
+                <option value="medium">Medium</option>
+                <option value="high">High</option>
+              </select>
+              <Button variant="secondary" icon={Plus} onClick={addDeadline}>Add</Button>
+            </div>
+          </div>
+
+          {/* Linked content */}
+          <div>
+            <h4 className="heading-4 mb-2 flex items-center"><Link2 size={16} className="mr-2" />Linked Content</h4>
+            <ul className="space-y-2 mb-3">
+              {content.map(item => (
+                <li key={item.id} className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2 min-w-0">
+                    <Badge variant={item.status === 'published' ? 'success' : 'warning'} size="small">
+                      {item.status}
+                    </Badge>
+                    <span className="truncate text-gray-800">{item.title || item.body.substring(0, 60)}</span>
+                  </div>
+                  <button
+                    onClick={() => runAction(
+                      () => projectService.unlinkContent(project.id, item.id),
+                      'Failed to unlink content'
+                    )}
+                    className="p-1 rounded-lg text-gray-400 hover:text-red-600 hover:bg-gray-50 transition-colors"
+                  >
+                    <X size={14} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <div className="flex items-end gap-2">
+              <select
+                value={contentToLink}
+                onChange={(e) => setContentToLink(e.target.value)}
+                className="input flex-1"
+              >
+                <option value="">Select content to link...</option>
+                {linkableContent.map(item => (
+                  <option key={item.id} value={item.id}>
+                    [{item.platform}] {item.title || item.body.substring(0, 60)}
+                  </option>
+                ))}
+              </select>
+              <Button variant="secondary" icon={Link2} onClick={linkContent} disabled={!contentToLink}>
+                Link
+              </Button>
+            </div>
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { FolderKanban, Save, X } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from '@/components/ui/Card';
+import { projectService, Project, ProjectInput, ProjectType } from '@/services/projectService';
+import { formatProjectType } from './ProjectBoard';
+
+interface ProjectFormProps {
+  onCreated: (project: Project) => void;
+  onCancel: () => void;
+}
+
+const projectTypes: ProjectType[] = ['achievement_series', 'linkedin_voice', 'opportunity', 'custom'];
+
+export const ProjectForm: React.FC<ProjectFormProps> = ({ onCreated, onCancel }) => {
+  const [form, setForm] = useState<ProjectInput>({ name: '', type: 'achievement_series' });
+  const [goalsInput, setGoalsInput] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async () => {
+    if (!form.name.trim()) {
+      setError('Project name is required');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      const project = await projectService.createProject({
+        ...form,
+        goals: goalsInput.split(',').map(goal => goal.trim()).filter(Boolean)
+      });
+      onCreated(project);
+    } catch (error) {
+      console.error('Failed to create project:', error);
+      setError('Failed to create project');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card variant="elevated">
+      <CardHeader>
+        <div className="flex items-center space-x-3">
+          <div className="w-10 h-10 bg-gradient-to-br from-primary-500 to-primary-600 rounded-xl flex items-center justify-center">
+            <FolderKanban className="text-white" size={20} />
+          </div>
+          <div>
+            <CardTitle>New Project</CardTitle>
+            <CardDescription>Group content, milestones and deadlines into a campaign</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        <div className="space-y-4">
+          <Input
+            label="Name"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="e.g., Q3 launch achievements"
+          />
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Type
+            </label>
+            <select
+              value={form.type}
+              onChange={(e) => setForm({ ...form, type: e.target.value as ProjectType })}
+              className="input"
+            >
+              {projectTypes.map(type => (
+                <option key={type} value={type}>{formatProjectType(type)}</option>
+              ))}
+            </select>
+          </div>
+
+          <Input
+            label="Description"
+            value={form.description || ''}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+          />
+
+          <Input
+            label="Goals"
+            value={goalsInput}
+            onChange={(e) => setGoalsInput(e.target.value)}
+            placeholder="e.g., 5 posts, 1000 followers"
+          />
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <Input
+              label="Start Date"
+              type="date"
+              value={form.startDate || ''}
+              onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+            />
+            <Input
+              label="End Date"
+              type="date"
+              value={form.endDate || ''}
+              onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+            />
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+        </div>
+      </CardContent>
+
+      <CardFooter>
+        <div className="flex items-center justify-between">
+          <Button variant="ghost" icon={X} onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button variant="primary" icon={Save} loading={isSaving} onClick={save}>
+            Create Project
+          </Button>
+        </div>
+      </CardFooter>
+    </Card>
+  );
+};
@@ -0,0 +1,3 @@
+export { ProjectBoard } from './ProjectBoard';
+export { ProjectDetail } from './ProjectDetail';
+export { ProjectForm } from './ProjectForm';
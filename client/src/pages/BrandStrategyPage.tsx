@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from 'react';
+import { Compass, RefreshCw, AlertTriangle } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/Badge';
+import { LoadingState } from '@/components/ui/LoadingSpinner';
+import { EmptyState } from '@/components/ui/EmptyState';
+import { StrategyEditor, StrategyHistory } from '@/components/brand';
+import { brandStrategyService, BrandStrategy } from '@/services/brandStrategyService';
+
+export const BrandStrategyPage: React.FC = () => {
+  const [active, setActive] = useState<BrandStrategy | null>(null);
+  const [strategies, setStrategies] = useState<BrandStrategy[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadStrategies();
+  }, []);
+
+  const loadStrategies = async () => {
+    try {
+      setError(null);
+      // Fetch the active strategy first so a default exists before listing versions
+      const activeStrategy = await brandStrategyService.getActiveStrategy();
+      const allStrategies = await brandStrategyService.listStrategies();
+      setActive(activeStrategy);
+      setStrategies(allStrategies);
+    } catch (error) {
+      console.error('Failed to load brand strategy:', error);
+      setError('Failed to load brand strategy');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen section-padding">
+      <div className="container-wide">
+        {/* Header */}
+        <div className="mb-8 flex items-center space-x-3">
+          <div className="w-12 h-12 bg-gradient-to-br from-primary-500 to-primary-600 rounded-2xl flex items-center justify-center shadow-lg">
+            <Compass className="text-white" size={20} />
+          </div>
+          <div>
+            <h1 className="heading-2">Brand Strategy</h1>
+            <p className="body text-gray-500">
+              Define your message, audience, voice and platform plan
+            </p>
+          </div>
+          {active && (
+            <Badge variant="primary">v{active.version} active</Badge>
+          )}
+        </div>
+
+        {isLoading ? (
+          <LoadingState text="Loading brand strategy..." />
+        ) : error ? (
+          <Card>
+            <CardContent className="py-8">
+              <EmptyState
+                icon={AlertTriangle}
+                title="Something went wrong"
+                description={error}
+                action={{
+                  label: 'Try Again',
+                  onClick: loadStrategies,
+                  icon: RefreshCw
+                }}
+              />
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid lg:grid-cols-5 gap-8">
+            <div className="lg:col-span-3">
+              <StrategyEditor strategy={active} onSaved={() => loadStrategies()} />
+            </div>
+            <div className="lg:col-span-2">
+              <StrategyHistory strategies={strategies} onChanged={loadStrategies} />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,263 @@
+import React, { useEffect, useState } from 'react';
+import { FileText, Plus, RefreshCw, AlertTriangle, Sparkles } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Card, CardContent } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/Badge';
+import { LoadingState } from '@/components/ui/LoadingSpinner';
+import { EmptyState } from '@/components/ui/EmptyState';
+import { AlignmentReport, ContentEditor, ContentList, PostGenerator, RepurposePanel } from '@/components/content';
+import { platformOptions } from '@/components/content/ContentEditor';
+import { contentService, ContentItem, ContentFilters, ContentStatus } from '@/services/contentService';
+
+const statusTabs: { id: ContentStatus | 'all'; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'draft', label: 'Drafts' },
+  { id: 'published', label: 'Published' },
+  { id: 'archived', label: 'Archived' },
+];
+
+export const ContentPage: React.FC = () => {
+  const [items, setItems] = useState<ContentItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<ContentStatus | 'all'>('all');
+  const [platform, setPlatform] = useState('');
+  const [tags, setTags] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [editing, setEditing] = useState<ContentItem | null>(null);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [isGeneratorOpen, setIsGeneratorOpen] = useState(false);
+
+  useEffect(() => {
+    loadContent();
+  }, [status, platform]);
+
+  const loadContent = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const filters: ContentFilters = {};
+      if (status !== 'all') filters.status = status;
+      if (platform) filters.platform = platform;
+      if (tags.trim()) filters.tags = tags.split(',').map(tag => tag.trim()).filter(Boolean);
+      if (from) filters.from = from;
+      if (to) filters.to = to;
+
+      const result = await contentService.listContent(filters);
+      setItems(result.content);
+    } catch (error) {
+      console.error('Failed to load content:', error);
+      setError('Failed to load content library');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openEditor = (item: ContentItem | null) => {
+    setEditing(item);
+    setIsEditorOpen(true);
+    setIsGeneratorOpen(false);
+  };
+
+  const openGenerator = () => {
+    setIsEditorOpen(false);
+    setEditing(null);
+    setIsGeneratorOpen(true);
+  };
+
+  const handleGenerated = (drafts: ContentItem[]) => {
+    const ids = new Set(drafts.map(draft => draft.id));
+    setItems(prev => [...drafts, ...prev.filter(item => !ids.has(item.id))]);
+  };
+
+  const handleSaved = (saved: ContentItem) => {
+    setIsEditorOpen(false);
+    setEditing(null);
+    setItems(prev => [saved, ...prev.filter(item => item.id !== saved.id)]);
+  };
+
+  const handleArchive = async (item: ContentItem) => {
+    try {
+      const archived = await contentService.archiveContent(item.id);
+      setItems(prev => prev.map(existing => existing.id === archived.id ? archived : existing));
+    } catch (error) {
+      console.error('Failed to archive content:', error);
+      setError('Failed to archive content');
+    }
+  };
+
+  const handleDelete = async (item: ContentItem) => {
+    if (!window.confirm('Delete this content permanently?')) {
+      return;
+    }
+
+    try {
+      await contentService.deleteContent(item.id);
+      setItems(prev => prev.filter(existing => existing.id !== item.id));
+      if (editing?.id === item.id) {
+        setIsEditorOpen(false);
+        setEditing(null);
+      }
+    } catch (error) {
+      console.error('Failed to delete content:', error);
+      setError('Failed to delete content');
+    }
+  };
+
+  return (
+    <div className="min-h-screen section-padding">
+      <div className="container-wide">
+        {/* Header */}
+        <div className="mb-8 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="w-12 h-12 bg-gradient-to-br from-orange-500 to-orange-600 rounded-2xl flex items-center justify-center shadow-lg">
+              <FileText className="text-white" size={20} />
+            </div>
+            <div>
+              <h1 className="heading-2">Content Library</h1>
+              <p className="body text-gray-500">
+                Draft, publish and archive your posts in one place
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-3">
+            <Button variant="secondary" icon={Sparkles} onClick={openGenerator}>
+              Generate
+            </Button>
+            <Button variant="primary" icon={Plus} onClick={() => openEditor(null)}>
+              New Draft
+            </Button>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <Card className="mb-6">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="flex space-x-2">
+              {statusTabs.map(tab => (
+                <button
+                  key={tab.id}
+                  onClick={() => setStatus(tab.id)}
+                  className={`px-3 py-1.5 rounded-xl text-sm font-medium transition-all duration-200 ${
+                    status === tab.id
+                      ? 'text-primary-700 bg-primary-50 shadow-sm'
+                      : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                  }`}
+                >
+                  {tab.label}
+                </button>
+              ))}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Platform
+              </label>
+              <select
+                value={platform}
+                onChange={(e) => setPlatform(e.target.value)}
+                className="input"
+              >
+                <option value="">All platforms</option>
+                {platformOptions.map(option => (
+                  <option key={option} value={option}>
+                    {option.charAt(0).toUpperCase() + option.slice(1)}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="w-48">
+              <Input
+                label="Tags"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                placeholder="ai, career"
+              />
+            </div>
+
+            <div className="w-40">
+              <Input label="From" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+
+            <div className="w-40">
+              <Input label="To" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+
+            <Button variant="secondary" icon={RefreshCw} onClick={loadContent}>
+              Apply
+            </Button>
+
+            <Badge variant="primary" size="small">
+              {items.length} items
+            </Badge>
+          </div>
+        </Card>
+
+        {/* Library */}
+        <div className="grid lg:grid-cols-2 gap-8">
+          <div>
+            {isLoading ? (
+              <LoadingState text="Loading content..." />
+            ) : error ? (
+              <Card>
+                <CardContent className="py-8">
+                  <EmptyState
+                    icon={AlertTriangle}
+                    title="Something went wrong"
+                    description={error}
+                    action={{
+                      label: 'Try Again',
+                      onClick: loadContent,
+                      icon: RefreshCw
+                    }}
+                  />
+                </CardContent>
+              </Card>
+            ) : (
+              <ContentList
+                items={items}
+                selectedId={editing?.id}
+                onSelect={openEditor}
+                onArchive={handleArchive}
+                onDelete={handleDelete}
+              />
+            )}
+          </div>
+
+          <div>
+            {isGeneratorOpen && (
+              <PostGenerator
+                onGenerated={handleGenerated}
+                onCancel={() => setIsGeneratorOpen(false)}
+              />
+            )}
+            {isEditorOpen && (
+              <ContentEditor
+                content={editing}
+                onSaved={handleSaved}
+                onCancel={() => {
+                  setIsEditorOpen(false);
+                  setEditing(null);
+                }}
+              />
+            )}
+            {isEditorOpen && editing && (
+              <AlignmentReport contentId={editing.id} version={editing.updatedAt} />
+            )}
+            {isEditorOpen && editing && (
+              <RepurposePanel
+                content={editing}
+                onRepurposed={handleGenerated}
+                onSelect={openEditor}
+              />
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Link } from 'react-router-dom';
+import { AlertCircle, ArrowLeft, CheckCircle, KeyRound, Mail, Send } from 'lucide-react';
+import { AuthShell } from '@/components/auth/AuthShell';
+import { Input } from '@/components/ui/Input';
+import { Button } from '@/components/ui/Button';
+import { authService } from '@/services/authService';
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email address'),
+});
+
+type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>;
+
+export const ForgotPasswordPage: React.FC = () => {
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(forgotPasswordSchema),
+  });
+
+  const onSubmit = async (data: ForgotPasswordFormData) => {
+    try {
+      setError(null);
+      setSentMessage(await authService.forgotPassword(data.email));
+    } catch (error: any) {
+      setError(error.response?.data?.error?.message || 'Failed to send reset link');
+    }
+  };
+
+  return (
+    <AuthShell
+      icon={KeyRound}
+      title="Forgot your password?"
+      description="Enter your email and we'll send you a link to choose a new one"
+    >
+      {sentMessage ? (
+        <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-xl flex items-center space-x-3">
+          <CheckCircle size={20} className="text-green-500 flex-shrink-0" />
+          <p className="text-sm">{sentMessage}</p>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-xl flex items-center space-x-3">
+              <AlertCircle size={20} className="text-red-500 flex-shrink-0" />
+              <p className="text-sm">{error}</p>
+            </div>
+          )}
+
+          <Input
+            {...register('email')}
+            type="email"
+            label="Email address"
+            placeholder="Enter your email"
+            icon={Mail}
+            error={errors.email?.message}
+            autoComplete="email"
+          />
+
+          <Button
+            type="submit"
+            variant="primary"
+            size="large"
+            fullWidth
+            loading={isSubmitting}
+            icon={!isSubmitting ? Send : undefined}
+          >
+            {isSubmitting ? 'Sending...' : 'Send reset link'}
+          </Button>
+        </form>
+      )}
+
+      <div className="mt-6 text-center">
+        <Button as={Link} to="/auth" variant="ghost" icon={ArrowLeft}>
+          Back to sign in
+        </Button>
+      </div>
+    </AuthShell>
+  );
+};
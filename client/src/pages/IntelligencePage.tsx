@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import { Radar, RefreshCw, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/Badge';
+import { LoadingState } from '@/components/ui/LoadingSpinner';
+import { EmptyState } from '@/components/ui/EmptyState';
+import { BrandSentiment, CompetitorWatchlist, FeedSubscriptions, IntelligenceFeedList, TrendMomentumList } from '@/components/intelligence';
+import {
+  intelligenceService,
+  IntelligenceItem,
+  IntelligenceFeedFilters,
+  IntelligenceStatus,
+  IntelligenceType
+} from '@/services/intelligenceService';
+
+const statusTabs: { id: IntelligenceStatus; label: string }[] = [
+  { id: 'new', label: 'New' },
+  { id: 'saved', label: 'Saved' },
+  { id: 'acted_on', label: 'Acted on' },
+  { id: 'dismissed', label: 'Dismissed' },
+];
+
+const typeOptions: IntelligenceType[] = ['trend', 'competitor', 'opportunity', 'threat', 'news'];
+
+export const IntelligencePage: React.FC = () => {
+  const [items, setItems] = useState<IntelligenceItem[]>([]);
+  const [counts, setCounts] = useState<Partial<Record<IntelligenceStatus, number>>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<IntelligenceStatus>('new');
+  const [type, setType] = useState<IntelligenceType | ''>('');
+  const [sort, setSort] = useState<'relevance' | 'recent'>('relevance');
+  const [actionableOnly, setActionableOnly] = useState(false);
+
+  useEffect(() => {
+    loadFeed();
+  }, [status, type, sort, actionableOnly]);
+
+  const loadFeed = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const filters: IntelligenceFeedFilters = { statuses: [status], sort };
+      if (type) filters.types = [type];
+      if (actionableOnly) filters.actionable = true;
+
+      const feed = await intelligenceService.getFeed(filters);
+      setItems(feed.items);
+      setCounts(feed.counts);
+    } catch (error) {
+      console.error('Failed to load intelligence feed:', error);
+      setError('Failed to load intelligence feed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleTriage = async (item: IntelligenceItem, next: IntelligenceStatus) => {
+    try {
+      await intelligenceService.updateStatus(item.id, next);
+      // The item leaves the current tab and joins the target one
+      setItems(prev => prev.filter(existing => existing.id !== item.id));
+      setCounts(prev => ({
+        ...prev,
+        [item.status]: Math.max(0, (prev[item.status] ?? 1) - 1),
+        [next]: (prev[next] ?? 0) + 1
+      }));
+    } catch (error) {
+      console.error('Failed to update intelligence item:', error);
+      setError('Failed to update intelligence item');
+    }
+  };
+
+  const handleDelete = async (item: IntelligenceItem) => {
+    if (!window.confirm('Delete this item permanently?')) {
+      return;
+    }
+
+    try {
+      await intelligenceService.deleteItem(item.id);
+      setItems(prev => prev.filter(existing => existing.id !== item.id));
+      setCounts(prev => ({ ...prev, [item.status]: Math.max(0, (prev[item.status] ?? 1) - 1) }));
+    } catch (error) {
+      console.error('Failed to delete intelligence item:', error);
+      setError('Failed to delete intelligence item');
+    }
+  };
+
+  return (
+    <div className="min-h-screen section-padding">
+      <div className="container-wide">
+        {/* Header */}
+        <div className="mb-8 flex items-center space-x-3">
+          <div className="w-12 h-12 bg-gradient-to-br from-teal-500 to-teal-600 rounded-2xl flex items-center justify-center shadow-lg">
+            <Radar className="text-white" size={20} />
+          </div>
+          <div>
+            <h1 className="heading-2">Intelligence Feed</h1>
+            <p className="body text-gray-500">
+              Triage trends, competitor moves and opportunities as they come in
+            </p>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <Card className="mb-6">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="flex space-x-2">
+              {statusTabs.map(tab => (
+                <button
+                  key={tab.id}
+                  onClick={() => setStatus(tab.id)}
+                  className={`px-3 py-1.5 rounded-xl text-sm font-medium transition-all duration-200 ${
+                    status === tab.id
+                      ? 'text-primary-700 bg-primary-50 shadow-sm'
+                      : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                  }`}
+                >
+                  {tab.label} ({counts[tab.id] ?? 0})
+                </button>
+              ))}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Type
+              </label>
+              <select
+                value={type}
+                onChange={(e) => setType(e.target.value as IntelligenceType | '')}
+                className="input"
+              >
+                <option value="">All types</option>
+                {typeOptions.map(option => (
+                  <option key={option} value={option}>
+                    {option.charAt(0).toUpperCase() + option.slice(1)}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Sort by
+              </label>
+              <select
+                value={sort}
+                onChange={(e) => setSort(e.target.value as 'relevance' | 'recent')}
+                className="input"
+              >
+                <option value="relevance">Relevance</option>
+                <option value="recent">Most recent</option>
+              </select>
+            </div>
+
+            <label className="flex items-center space-x-2 text-sm text-gray-700 pb-2">
+              <input
+                type="checkbox"
+                checked={actionableOnly}
+                onChange={(e) => setActionableOnly(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              <span>Actionable only</span>
+            </label>
+
+            <Button variant="secondary" icon={RefreshCw} onClick={loadFeed}>
+              Refresh
+            </Button>
+
+            <Badge variant="primary" size="small">
+              {items.length} items
+            </Badge>
+          </div>
+        </Card>
+
+        <div className="grid lg:grid-cols-3 gap-8">
+          {/* Feed */}
+          <div className="lg:col-span-2 space-y-6">
+            <BrandSentiment />
+
+            {isLoading ? (
+              <LoadingState text="Loading feed..." />
+            ) : error ? (
+              <Card>
+                <CardContent className="py-8">
+                  <EmptyState
+                    icon={AlertTriangle}
+                    title="Something went wrong"
+                    description={error}
+                    action={{
+                      label: 'Try Again',
+                      onClick: loadFeed,
+                      icon: RefreshCw
+                    }}
+                  />
+                </CardContent>
+              </Card>
+            ) : (
+              <IntelligenceFeedList items={items} onTriage={handleTriage} onDelete={handleDelete} />
+            )}
+          </div>
+
+          {/* Sources */}
+          <div className="space-y-6">
+            <FeedSubscriptions onNewItems={loadFeed} />
+            <CompetitorWatchlist />
+            <TrendMomentumList />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,291 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bell, RefreshCw, AlertTriangle, CheckCheck, Mail } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/Card';
+import { LoadingState } from '@/components/ui/LoadingSpinner';
+import { EmptyState } from '@/components/ui/EmptyState';
+import { NotificationItem } from '@/components/notifications';
+import {
+  notificationService,
+  DigestFrequency,
+  Notification,
+  NotificationPreferences,
+  NotificationType
+} from '@/services/notificationService';
+
+const typeOptions: { id: NotificationType; label: string; description: string }[] = [
+  { id: 'alert', label: 'Alerts', description: 'New actionable intelligence' },
+  { id: 'analysis', label: 'Analyses', description: 'Background searches that finish or fail' },
+  { id: 'deadline', label: 'Deadlines', description: 'Project milestones and deadlines due soon' },
+];
+
+const frequencyOptions: { id: DigestFrequency; label: string }[] = [
+  { id: 'off', label: 'Off' },
+  { id: 'daily', label: 'Daily' },
+  { id: 'weekly', label: 'Weekly' },
+];
+
+export const NotificationsPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unread, setUnread] = useState(0);
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadNotifications();
+  }, [unreadOnly]);
+
+  useEffect(() => {
+    loadPreferences();
+  }, []);
+
+  const loadNotifications = async () => {
+    try {
+      setError(null);
+      const result = await notificationService.getNotifications({ unread: unreadOnly, limit: 100 });
+      setNotifications(result.notifications);
+      setUnread(result.unread);
+    } catch (error) {
+      console.error('Failed to load notifications:', error);
+      setError('Failed to load notifications');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadPreferences = async () => {
+    try {
+      setPreferences(await notificationService.getPreferences());
+    } catch (error) {
+      console.error('Failed to load notification preferences:', error);
+    }
+  };
+
+  const handleToggleRead = async (notification: Notification) => {
+    try {
+      const updated = await notificationService.setRead(notification.id, !notification.readAt);
+      setNotifications(prev => prev.map(existing => existing.id === updated.id ? updated : existing));
+      setUnread(prev => Math.max(0, prev + (updated.readAt ? -1 : 1)));
+    } catch (error) {
+      console.error('Failed to update notification:', error);
+      setNotice('Failed to update notification');
+    }
+  };
+
+  const handleOpen = async (notification: Notification) => {
+    if (!notification.readAt) {
+      await handleToggleRead(notification);
+    }
+    if (notification.link) {
+      navigate(notification.link);
+    }
+  };
+
+  const handleDelete = async (notification: Notification) => {
+    try {
+      await notificationService.deleteNotification(notification.id);
+      setNotifications(prev => prev.filter(existing => existing.id !== notification.id));
+      if (!notification.readAt) {
+        setUnread(prev => Math.max(0, prev - 1));
+      }
+    } catch (error) {
+      console.error('Failed to delete notification:', error);
+      setNotice('Failed to delete notification');
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await notificationService.markAllRead();
+      await loadNotifications();
+    } catch (error) {
+      console.error('Failed to mark notifications read:', error);
+      setNotice('Failed to mark notifications read');
+    }
+  };
+
+  const handlePreferences = async (updates: Partial<Pick<NotificationPreferences, 'mutedTypes' | 'digestFrequency'>>) => {
+    try {
+      setNotice(null);
+      setPreferences(await notificationService.updatePreferences(updates));
+    } catch (error) {
+      console.error('Failed to update notification preferences:', error);
+      setNotice('Failed to save preferences');
+    }
+  };
+
+  const toggleType = (type: NotificationType) => {
+    if (!preferences) {
+      return;
+    }
+    const mutedTypes = preferences.mutedTypes.includes(type)
+      ? preferences.mutedTypes.filter(entry => entry !== type)
+      : [...preferences.mutedTypes, type];
+    handlePreferences({ mutedTypes });
+  };
+
+  const handleSendDigest = async () => {
+    try {
+      setNotice(null);
+      setIsSending(true);
+      const sent = await notificationService.sendDigest();
+      setNotice(sent ? 'Digest sent' : 'Nothing unread to send');
+      await loadPreferences();
+    } catch (error) {
+      console.error('Failed to send digest:', error);
+      setNotice('Failed to send digest');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen section-padding">
+      <div className="container-wide">
+        {/* Header */}
+        <div className="mb-8 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="w-12 h-12 bg-gradient-to-br from-primary-500 to-primary-600 rounded-2xl flex items-center justify-center shadow-lg">
+              <Bell className="text-white" size={20} />
+            </div>
+            <div>
+              <h1 className="heading-2">Notifications</h1>
+              <p className="body text-gray-500">
+                {unread > 0 ? `${unread} unread` : 'You\'re all caught up'}
+              </p>
+            </div>
+          </div>
+          <Button variant="secondary" icon={CheckCheck} onClick={handleMarkAllRead} disabled={unread === 0}>
+            Mark All Read
+          </Button>
+        </div>
+
+        {notice && <p className="mb-4 body-small text-gray-600">{notice}</p>}
+
+        <div className="grid lg:grid-cols-3 gap-8">
+          {/* Notifications */}
+          <div className="lg:col-span-2 space-y-4">
+            <div className="flex space-x-2">
+              {[false, true].map(option => (
+                <button
+                  key={String(option)}
+                  onClick={() => setUnreadOnly(option)}
+                  className={`px-3 py-1.5 rounded-xl text-sm font-medium transition-all duration-200 ${
+                    unreadOnly === option
+                      ? 'text-primary-700 bg-primary-50 shadow-sm'
+                      : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                  }`}
+                >
+                  {option ? 'Unread' : 'All'}
+                </button>
+              ))}
+            </div>
+
+            {isLoading ? (
+              <LoadingState text="Loading notifications..." />
+            ) : error ? (
+              <Card>
+                <CardContent className="py-8">
+                  <EmptyState
+                    icon={AlertTriangle}
+                    title="Something went wrong"
+                    description={error}
+                    action={{
+                      label: 'Try Again',
+                      onClick: loadNotifications,
+                      icon: RefreshCw
+                    }}
+                  />
+                </CardContent>
+              </Card>
+            ) : notifications.length === 0 ? (
+              <Card>
+                <CardContent className="py-8">
+                  <EmptyState
+                    icon={Bell}
+                    title="No notifications"
+                    description="Alerts, finished analyses and upcoming deadlines show up here."
+                  />
+                </CardContent>
+              </Card>
+            ) : (
+              <Card>
+                <div className="space-y-1">
+                  {notifications.map(notification => (
+                    <NotificationItem
+                      key={notification.id}
+                      notification={notification}
+                      onOpen={handleOpen}
+                      onToggleRead={handleToggleRead}
+                      onDelete={handleDelete}
+                    />
+                  ))}
+                </div>
+              </Card>
+            )}
+          </div>
+
+          {/* Preferences */}
+          <div>
+            <Card>
+              <CardHeader>
+                <CardTitle>Settings</CardTitle>
+                <CardDescription>Choose what you hear about and how often you get an email digest.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {preferences && (
+                  <>
+                    <div className="space-y-3">
+                      {typeOptions.map(option => (
+                        <label key={option.id} className="flex items-start space-x-3 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={!preferences.mutedTypes.includes(option.id)}
+                            onChange={() => toggleType(option.id)}
+                            className="mt-1 rounded border-gray-300 text-primary-600"
+                          />
+                          <span>
+                            <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                            <span className="block body-small text-gray-500">{option.description}</span>
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Email digest</label>
+                      <select
+                        value={preferences.digestFrequency}
+                        onChange={(e) => handlePreferences({ digestFrequency: e.target.value as DigestFrequency })}
+                        className="input"
+                      >
+                        {frequencyOptions.map(option => (
+                          <option key={option.id} value={option.id}>{option.label}</option>
+                        ))}
+                      </select>
+                      {preferences.lastDigestAt && (
+                        <p className="body-small text-gray-400 mt-1">
+                          Last sent {new Date(preferences.lastDigestAt).toLocaleString()}
+                        </p>
+                      )}
+                    </div>
+
+                    <Button variant="ghost" icon={Mail} loading={isSending} onClick={handleSendDigest}>
+                      Send Digest Now
+                    </Button>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
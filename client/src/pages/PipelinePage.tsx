@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import { Target, RefreshCw, AlertTriangle, Wand2 } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent } from '@/components/ui/Card';
+import { LoadingState } from '@/components/ui/LoadingSpinner';
+import { EmptyState } from '@/components/ui/EmptyState';
+import { PipelineBoard } from '@/components/pipeline';
+import { pipelineService, PipelineItem, PipelineKind, PipelineStage } from '@/services/pipelineService';
+
+const kindTabs: { id: PipelineKind | ''; label: string }[] = [
+  { id: '', label: 'All' },
+  { id: 'opportunity', label: 'Opportunities' },
+  { id: 'threat', label: 'Threats' },
+];
+
+export const PipelinePage: React.FC = () => {
+  const [items, setItems] = useState<PipelineItem[]>([]);
+  const [kind, setKind] = useState<PipelineKind | ''>('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isClassifying, setIsClassifying] = useState(false);
+  const [convertingId, setConvertingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadPipeline();
+  }, [kind]);
+
+  const loadPipeline = async () => {
+    try {
+      setError(null);
+      setItems(await pipelineService.getPipeline(kind ? { kind } : {}));
+    } catch (error) {
+      console.error('Failed to load pipeline:', error);
+      setError('Failed to load pipeline');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const replace = (updated: PipelineItem) =>
+    setItems(prev => prev.map(existing => existing.id === updated.id ? updated : existing));
+
+  const handleClassify = async () => {
+    try {
+      setNotice(null);
+      setIsClassifying(true);
+      const classified = await pipelineService.classifyFeed();
+      setNotice(`Classified ${classified.length} feed items`);
+      await loadPipeline();
+    } catch (error) {
+      console.error('Failed to classify feed:', error);
+      setNotice('Failed to classify feed');
+    } finally {
+      setIsClassifying(false);
+    }
+  };
+
+  const handleMove = async (item: PipelineItem, stage: PipelineStage) => {
+    // Move right away so dragging feels instant, and put it back if the save fails
+    replace({ ...item, stage });
+    try {
+      replace(await pipelineService.updateItem(item.id, { stage }));
+    } catch (error) {
+      console.error('Failed to move pipeline item:', error);
+      replace(item);
+      setNotice('Failed to move item');
+    }
+  };
+
+  const handleConvert = async (item: PipelineItem) => {
+    try {
+      setNotice(null);
+      setConvertingId(item.id);
+      const { project, item: updated } = await pipelineService.convertToProject(item.id);
+      replace(updated);
+      setNotice(`Created project "${project.name}"`);
+    } catch (error: any) {
+      setNotice(error.response?.data?.error || 'Failed to create project');
+    } finally {
+      setConvertingId(null);
+    }
+  };
+
+  const handleDelete = async (item: PipelineItem) => {
+    if (!window.confirm('Remove this item from the pipeline?')) {
+      return;
+    }
+
+    try {
+      await pipelineService.deleteItem(item.id);
+      setItems(prev => prev.filter(existing => existing.id !== item.id));
+    } catch (error) {
+      console.error('Failed to delete pipeline item:', error);
+      setNotice('Failed to delete item');
+    }
+  };
+
+  return (
+    <div className="min-h-screen section-padding">
+      <div className="container-wide">
+        {/* Header */}
+        <div className="mb-8 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="w-12 h-12 bg-gradient-to-br from-amber-500 to-amber-600 rounded-2xl flex items-center justify-center shadow-lg">
+              <Target className="text-white" size={20} />
+            </div>
+            <div>
+              <h1 className="heading-2">Pipeline</h1>
+              <p className="body text-gray-500">
+                Opportunities and threats picked out of your intelligence feed
+              </p>
+            </div>
+          </div>
+          <Button variant="secondary" icon={Wand2} loading={isClassifying} onClick={handleClassify}>
+            Classify Feed
+          </Button>
+        </div>
+
+        <div className="mb-6 flex items-center justify-between">
+          <div className="flex space-x-2">
+            {kindTabs.map(tab => (
+              <button
+                key={tab.id}
+                onClick={() => setKind(tab.id)}
+                className={`px-3 py-1.5 rounded-xl text-sm font-medium transition-all duration-200 ${
+                  kind === tab.id
+                    ? 'text-primary-700 bg-primary-50 shadow-sm'
+                    : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+          {notice && <p className="body-small text-gray-600">{notice}</p>}
+        </div>
+
+        {isLoading ? (
+          <LoadingState text="Loading pipeline..." />
+        ) : error ? (
+          <Card>
+            <CardContent className="py-8">
+              <EmptyState
+                icon={AlertTriangle}
+                title="Something went wrong"
+                description={error}
+                action={{
+                  label: 'Try Again',
+                  onClick: loadPipeline,
+                  icon: RefreshCw
+                }}
+              />
+            </CardContent>
+          </Card>
+        ) : (
+          <PipelineBoard
+            items={items}
+            convertingId={convertingId}
+            onMove={handleMove}
+            onConvert={handleConvert}
+            onDelete={handleDelete}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
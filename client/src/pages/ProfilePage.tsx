@@ -11,7 +11,8 @@ import {
   TrendingUp,
   History,
   Lightbulb,
-  Settings
+  Settings,
+  MailWarning
 } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
@@ -19,7 +20,10 @@ import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter }
 import { Badge } from '@/components/ui/Badge';
 import { LoadingState } from '@/components/ui/LoadingSpinner';
 import { ContextBox, ContextInsights, ContextHistory } from '@/components/context';
+import { SessionList } from '@/components/auth/SessionList';
+import { AccountDataCard } from '@/components/auth/AccountDataCard';
 import { ContextAnalysis } from '@/services/contextService';
+import { authService } from '@/services/authService';
 
 const profileSchema = z.object({
   profession: z.string().max(255, 'Profession too long').optional(),
@@ -34,6 +38,7 @@ export const ProfilePage: React.FC = () => {
   const [isEditing, setIsEditing] = useState(false);
   const [updateLoading, setUpdateLoading] = useState(false);
   const [activeTab, setActiveTab] = useState<'profile' | 'context' | 'insights' | 'history'>('context');
+  const [verificationMessage, setVerificationMessage] = useState<string | null>(null);
 
   const {
     register,
@@ -75,6 +80,14 @@ export const ProfilePage: React.FC = () => {
     }
   };
 
+  const handleResendVerification = async () => {
+    try {
+      setVerificationMessage(await authService.resendVerification());
+    } catch (error: any) {
+      setVerificationMessage(error.response?.data?.error?.message || 'Failed to send verification email');
+    }
+  };
+
   const handleContextSave = (content: string, analysis: ContextAnalysis) => {
     // Context is automatically saved by the ContextBox component
     // We could show a success message here if needed
@@ -114,6 +127,21 @@ export const ProfilePage: React.FC = () => {
                   Member since {user?.createdAt ? new Date(user.createdAt).toLocaleDateString() : 'Unknown'}
                 </span>
               </div>
+              {user && !user.isVerified && (
+                <div className="flex items-center space-x-3 mt-3">
+                  <Badge variant="warning" size="small">
+                    <MailWarning size={12} />
+                    Email not verified
+                  </Badge>
+                  {verificationMessage ? (
+                    <span className="body-small text-gray-500">{verificationMessage}</span>
+                  ) : (
+                    <Button variant="ghost" size="small" onClick={handleResendVerification}>
+                      Resend verification email
+                    </Button>
+                  )}
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -167,98 +195,104 @@ export const ProfilePage: React.FC = () => {
 
           {/* Profile Settings Tab */}
           {activeTab === 'profile' && (
-            <Card variant="elevated">
-              <CardHeader>
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center space-x-3">
-                    <div className="w-10 h-10 bg-gradient-to-br from-gray-500 to-gray-600 rounded-xl flex items-center justify-center">
-                      <Settings className="text-white" size={20} />
-                    </div>
-                    <div>
-                      <CardTitle>Profile Settings</CardTitle>
-                      <CardDescription>
-                        Manage your basic profile information and preferences
-                      </CardDescription>
+            <>
+              <Card variant="elevated">
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-3">
+                      <div className="w-10 h-10 bg-gradient-to-br from-gray-500 to-gray-600 rounded-xl flex items-center justify-center">
+                        <Settings className="text-white" size={20} />
+                      </div>
+                      <div>
+                        <CardTitle>Profile Settings</CardTitle>
+                        <CardDescription>
+                          Manage your basic profile information and preferences
+                        </CardDescription>
+                      </div>
                     </div>
-                  </div>
                   
-                  {!isEditing && (
-                    <Button
-                      variant="secondary"
-                      onClick={() => setIsEditing(true)}
-                    >
-                      Edit Profile
-                    </Button>
-                  )}
-                </div>
-              </CardHeader>
+                    {!isEditing && (
+                      <Button
+                        variant="secondary"
+                        onClick={() => setIsEditing(true)}
+                      >
+                        Edit Profile
+                      </Button>
+                    )}
+                  </div>
+                </CardHeader>
 
-              <CardContent>
-                <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
-                  <Input
-                    {...register('profession')}
-                    label="Profession"
-                    placeholder="e.g., Software Engineer, Marketing Manager"
-                    icon={Briefcase}
-                    error={errors.profession?.message}
-                    disabled={!isEditing}
-                  />
+                <CardContent>
+                  <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+                    <Input
+                      {...register('profession')}
+                      label="Profession"
+                      placeholder="e.g., Software Engineer, Marketing Manager"
+                      icon={Briefcase}
+                      error={errors.profession?.message}
+                      disabled={!isEditing}
+                    />
 
-                  <Input
-                    {...register('goals')}
-                    label="Goals"
-                    placeholder="e.g., Build thought leadership, Grow network, Launch startup"
-                    icon={Target}
-                    error={errors.goals?.message}
-                    disabled={!isEditing}
-                  />
-                  {isEditing && (
-                    <p className="text-sm text-gray-500 -mt-4">
-                      Separate multiple goals with commas
-                    </p>
-                  )}
+                    <Input
+                      {...register('goals')}
+                      label="Goals"
+                      placeholder="e.g., Build thought leadership, Grow network, Launch startup"
+                      icon={Target}
+                      error={errors.goals?.message}
+                      disabled={!isEditing}
+                    />
+                    {isEditing && (
+                      <p className="text-sm text-gray-500 -mt-4">
+                        Separate multiple goals with commas
+                      </p>
+                    )}
 
-                  <Input
-                    {...register('brandingObjectives')}
-                    label="Branding Objectives"
-                    placeholder="e.g., Increase visibility, Establish expertise, Build community"
-                    icon={TrendingUp}
-                    error={errors.brandingObjectives?.message}
-                    disabled={!isEditing}
-                  />
-                  {isEditing && (
-                    <p className="text-sm text-gray-500 -mt-4">
-                      Separate multiple objectives with commas
-                    </p>
-                  )}
+                    <Input
+                      {...register('brandingObjectives')}
+                      label="Branding Objectives"
+                      placeholder="e.g., Increase visibility, Establish expertise, Build community"
+                      icon={TrendingUp}
+                      error={errors.brandingObjectives?.message}
+                      disabled={!isEditing}
+                    />
+                    {isEditing && (
+                      <p className="text-sm text-gray-500 -mt-4">
+                        Separate multiple objectives with commas
+                      </p>
+                    )}
 
-                  {isEditing && (
-                    <CardFooter className="px-0">
-                      <div className="flex items-center space-x-4">
-                        <Button
-                          type="submit"
-                          variant="primary"
-                          loading={updateLoading}
-                          disabled={!isDirty}
-                        >
-                          {updateLoading ? 'Saving...' : 'Save Changes'}
-                        </Button>
-                        <Button
-                          type="button"
-                          variant="ghost"
-                          onClick={() => {
-                            setIsEditing(false);
-                            reset();
-                          }}
-                        >
-                          Cancel
-                        </Button>
-                      </div>
-                    </CardFooter>
-                  )}
-                </form>
-              </CardContent>
-            </Card>
+                    {isEditing && (
+                      <CardFooter className="px-0">
+                        <div className="flex items-center space-x-4">
+                          <Button
+                            type="submit"
+                            variant="primary"
+                            loading={updateLoading}
+                            disabled={!isDirty}
+                          >
+                            {updateLoading ? 'Saving...' : 'Save Changes'}
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            onClick={() => {
+                              setIsEditing(false);
+                              reset();
+                            }}
+                          >
+                            Cancel
+                          </Button>
+                        </div>
+                      </CardFooter>
+                    )}
+                  </form>
+                </CardContent>
+              </Card>
+
+              <SessionList />
+
+              <AccountDataCard />
+            </>
           )}
         </div>
       </div>
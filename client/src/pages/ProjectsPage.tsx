@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { FolderKanban, Plus, RefreshCw, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent } from '@/components/ui/Card';
+import { LoadingState } from '@/components/ui/LoadingSpinner';
+import { EmptyState } from '@/components/ui/EmptyState';
+import { ProjectBoard, ProjectDetail, ProjectForm } from '@/components/projects';
+import { projectService, Project } from '@/services/projectService';
+
+export const ProjectsPage: React.FC = () => {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    loadProjects();
+  }, []);
+
+  const loadProjects = async () => {
+    try {
+      setError(null);
+      const result = await projectService.listProjects();
+      setProjects(result);
+    } catch (error) {
+      console.error('Failed to load projects:', error);
+      setError('Failed to load projects');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCreated = (project: Project) => {
+    setIsCreating(false);
+    setSelectedId(project.id);
+    loadProjects();
+  };
+
+  return (
+    <div className="min-h-screen section-padding">
+      <div className="container-wide">
+        {/* Header */}
+        <div className="mb-8 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="w-12 h-12 bg-gradient-to-br from-primary-500 to-primary-600 rounded-2xl flex items-center justify-center shadow-lg">
+              <FolderKanban className="text-white" size={20} />
+            </div>
+            <div>
+              <h1 className="heading-2">Projects</h1>
+              <p className="body text-gray-500">
+                Track campaigns, milestones and the content that delivers them
+              </p>
+            </div>
+          </div>
+          <Button
+            variant="primary"
+            icon={Plus}
+            onClick={() => {
+              setIsCreating(true);
+              setSelectedId(null);
+            }}
+          >
+            New Project
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <LoadingState text="Loading projects..." />
+        ) : error ? (
+          <Card>
+            <CardContent className="py-8">
+              <EmptyState
+                icon={AlertTriangle}
+                title="Something went wrong"
+                description={error}
+                action={{
+                  label: 'Try Again',
+                  onClick: loadProjects,
+                  icon: RefreshCw
+                }}
+              />
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-8">
+            <ProjectBoard
+              projects={projects}
+              selectedId={selectedId}
+              onSelect={(project) => {
+                setIsCreating(false);
+                setSelectedId(project.id);
+              }}
+            />
+
+            {isCreating && (
+              <div className="max-w-2xl">
+                <ProjectForm onCreated={handleCreated} onCancel={() => setIsCreating(false)} />
+              </div>
+            )}
+
+            {selectedId && !isCreating && (
+              <div className="max-w-3xl">
+                <ProjectDetail
+                  projectId={selectedId}
+                  onChanged={loadProjects}
+                  onDeleted={() => {
+                    setSelectedId(null);
+                    loadProjects();
+                  }}
+                  onClose={() => setSelectedId(null)}
+                />
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
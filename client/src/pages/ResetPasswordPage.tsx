@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Link, useSearchParams } from 'react-router-dom';
+import { AlertCircle, ArrowLeft, CheckCircle, KeyRound, Lock } from 'lucide-react';
+import { AuthShell } from '@/components/auth/AuthShell';
+import { PasswordInput } from '@/components/ui/PasswordInput';
+import { Button } from '@/components/ui/Button';
+import { authService } from '@/services/authService';
+
+const resetPasswordSchema = z.object({
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ['confirmPassword'],
+});
+
+type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>;
+
+export const ResetPasswordPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [doneMessage, setDoneMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(
+    token ? null : 'This reset link is missing its token. Request a new one below.'
+  );
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<ResetPasswordFormData>({
+    resolver: zodResolver(resetPasswordSchema),
+  });
+
+  const onSubmit = async (data: ResetPasswordFormData) => {
+    if (!token) return;
+
+    try {
+      setError(null);
+      setDoneMessage(await authService.resetPassword(token, data.password));
+    } catch (error: any) {
+      setError(error.response?.data?.error?.message || 'Failed to reset password');
+    }
+  };
+
+  return (
+    <AuthShell
+      icon={KeyRound}
+      title="Choose a new password"
+      description="Resetting your password signs you out on every device"
+    >
+      {doneMessage ? (
+        <div className="space-y-6">
+          <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-xl flex items-center space-x-3">
+            <CheckCircle size={20} className="text-green-500 flex-shrink-0" />
+            <p className="text-sm">{doneMessage}</p>
+          </div>
+
+          <Button as={Link} to="/auth" variant="primary" fullWidth>
+            Sign in
+          </Button>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-xl flex items-center space-x-3">
+              <AlertCircle size={20} className="text-red-500 flex-shrink-0" />
+              <p className="text-sm">{error}</p>
+            </div>
+          )}
+
+          <div className="space-y-4">
+            <PasswordInput
+              {...register('password')}
+              label="New password"
+              placeholder="At least 8 characters"
+              icon={Lock}
+              error={errors.password?.message}
+              autoComplete="new-password"
+            />
+
+            <PasswordInput
+              {...register('confirmPassword')}
+              label="Confirm new password"
+              placeholder="Repeat your new password"
+              icon={Lock}
+              error={errors.confirmPassword?.message}
+              autoComplete="new-password"
+            />
+          </div>
+
+          <Button
+            type="submit"
+            variant="primary"
+            size="large"
+            fullWidth
+            loading={isSubmitting}
+            disabled={!token}
+          >
+            {isSubmitting ? 'Saving...' : 'Reset password'}
+          </Button>
+
+          <div className="text-center">
+            <Button as={Link} to="/forgot-password" variant="ghost" icon={ArrowLeft}>
+              Request a new link
+            </Button>
+          </div>
+        </form>
+      )}
+    </AuthShell>
+  );
+};
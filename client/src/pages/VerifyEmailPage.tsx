@@ -0,0 +1,79 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { AlertCircle, CheckCircle, MailCheck } from 'lucide-react';
+import { AuthShell } from '@/components/auth/AuthShell';
+import { Button } from '@/components/ui/Button';
+import { LoadingState } from '@/components/ui/LoadingSpinner';
+import { authService } from '@/services/authService';
+import { useAuthStore } from '@/store/authStore';
+
+export const VerifyEmailPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { isAuthenticated } = useAuthStore();
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>('verifying');
+  const [message, setMessage] = useState('');
+  const attempted = useRef(false);
+
+  useEffect(() => {
+    // Tokens are single use, so never submit the same one twice
+    if (attempted.current) return;
+    attempted.current = true;
+
+    const token = searchParams.get('token');
+    if (!token) {
+      setStatus('failed');
+      setMessage('This verification link is missing its token.');
+      return;
+    }
+
+    authService.verifyEmail(token)
+      .then(result => {
+        setStatus('verified');
+        setMessage(result);
+      })
+      .catch((error: any) => {
+        setStatus('failed');
+        setMessage(error.response?.data?.error?.message || 'This verification link is invalid or has expired.');
+      });
+  }, [searchParams]);
+
+  return (
+    <AuthShell
+      icon={MailCheck}
+      title="Verify your email"
+      description="Confirming your email address keeps your account recoverable"
+    >
+      {status === 'verifying' && <LoadingState text="Verifying your email..." />}
+
+      {status !== 'verifying' && (
+        <div className="space-y-6">
+          <div className={`px-4 py-3 rounded-xl flex items-center space-x-3 border ${
+            status === 'verified'
+              ? 'bg-green-50 border-green-200 text-green-700'
+              : 'bg-red-50 border-red-200 text-red-700'
+          }`}>
+            {status === 'verified'
+              ? <CheckCircle size={20} className="text-green-500 flex-shrink-0" />
+              : <AlertCircle size={20} className="text-red-500 flex-shrink-0" />}
+            <p className="text-sm">{message}</p>
+          </div>
+
+          <Button
+            variant="primary"
+            fullWidth
+            onClick={() => navigate(isAuthenticated ? '/dashboard' : '/auth')}
+          >
+            {isAuthenticated ? 'Go to dashboard' : 'Sign in'}
+          </Button>
+
+          {status === 'failed' && isAuthenticated && (
+            <p className="body-small text-gray-500 text-center">
+              You can request a new link from your profile settings.
+            </p>
+          )}
+        </div>
+      )}
+    </AuthShell>
+  );
+};
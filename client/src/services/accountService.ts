@@ -0,0 +1,14 @@
+import api from './api';
+
+export const accountService = {
+  // Download a zip of everything stored about the account
+  async exportData(): Promise<Blob> {
+    const response = await api.get('/api/account/export', { responseType: 'blob' });
+    return response.data;
+  },
+
+  // Permanently delete the account; requires the password and confirmation phrase
+  async deleteAccount(password: string, confirmation: string): Promise<void> {
+    await api.delete('/api/account', { data: { password, confirmation } });
+  }
+};
@@ -1,5 +1,5 @@
-import axios, { AxiosResponse } from 'axios';
-import { ApiResponse } from '@/types';
+import axios, { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { ApiResponse, AuthTokens } from '@/types';
 
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
 
@@ -25,19 +25,72 @@ api.interceptors.request.use(
   }
 );
 
-// Response interceptor to handle errors
+// Paths where a 401 means bad credentials rather than an expired access token
+const AUTH_PATHS = ['/api/auth/login', '/api/auth/register', '/api/auth/refresh'];
+
+const clearSession = () => {
+  localStorage.removeItem('accessToken');
+  localStorage.removeItem('refreshToken');
+  window.location.href = '/auth';
+};
+
+// Concurrent 401s share one refresh so the refresh token is only used once
+let refreshPromise: Promise<string> | null = null;
+
+const refreshAccessToken = async (): Promise<string> => {
+  const refreshToken = localStorage.getItem('refreshToken');
+  if (!refreshToken) {
+    throw new Error('No refresh token');
+  }
+
+  // Plain axios so this request skips the interceptors
+  const response = await axios.post<ApiResponse<{ tokens: AuthTokens }>>(
+    `${API_URL}/api/auth/refresh`,
+    { refreshToken }
+  );
+
+  const tokens = response.data.data?.tokens;
+  if (!tokens) {
+    throw new Error('Refresh failed');
+  }
+
+  localStorage.setItem('accessToken', tokens.accessToken);
+  localStorage.setItem('refreshToken', tokens.refreshToken);
+  return tokens.accessToken;
+};
+
+// Response interceptor to refresh expired access tokens and retry once
 api.interceptors.response.use(
   (response: AxiosResponse<ApiResponse>) => {
     return response;
   },
-  (error) => {
-    if (error.response?.status === 401) {
-      // Token expired or invalid
-      localStorage.removeItem('accessToken');
-      localStorage.removeItem('refreshToken');
-      window.location.href = '/auth';
+  async (error) => {
+    const original = error.config as (InternalAxiosRequestConfig & { _retried?: boolean }) | undefined;
+
+    if (
+      error.response?.status !== 401 ||
+      !original ||
+      original._retried ||
+      AUTH_PATHS.some(path => original.url?.includes(path))
+    ) {
+      return Promise.reject(error);
+    }
+
+    original._retried = true;
+
+    try {
+      refreshPromise = refreshPromise || refreshAccessToken().finally(() => {
+        refreshPromise = null;
+      });
+      const accessToken = await refreshPromise;
+
+      original.headers.Authorization = `Bearer ${accessToken}`;
+      return api(original);
+    } catch (refreshError) {
+      // Refresh token expired, revoked or reused
+      clearSession();
+      return Promise.reject(error);
     }
-    return Promise.reject(error);
   }
 );
 
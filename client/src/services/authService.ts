@@ -1,5 +1,5 @@
 import api from './api';
-import { LoginRequest, RegisterRequest, AuthResponse, User, UserProfile, ApiResponse } from '@/types';
+import { LoginRequest, RegisterRequest, AuthResponse, User, UserProfile, ApiResponse, Session } from '@/types';
 
 export const authService = {
   async register(data: RegisterRequest): Promise<AuthResponse> {
@@ -30,7 +30,7 @@ export const authService = {
 
   async logout(): Promise<void> {
     try {
-      await api.post('/api/auth/logout');
+      await api.post('/api/auth/logout', { refreshToken: localStorage.getItem('refreshToken') });
     } catch (error) {
       // Continue with logout even if API call fails
     } finally {
@@ -59,6 +59,45 @@ export const authService = {
     throw new Error(response.data.error?.message || 'Failed to update profile');
   },
 
+  async getSessions(): Promise<Session[]> {
+    const response = await api.get<ApiResponse<Session[]>>('/api/auth/sessions');
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.error?.message || 'Failed to fetch sessions');
+  },
+
+  async revokeSession(id: string): Promise<void> {
+    await api.delete(`/api/auth/sessions/${id}`);
+  },
+
+  async revokeOtherSessions(): Promise<number> {
+    const response = await api.delete<ApiResponse<{ revoked: number }>>('/api/auth/sessions');
+    return response.data.data?.revoked || 0;
+  },
+
+  async verifyEmail(token: string): Promise<string> {
+    const response = await api.post<ApiResponse>('/api/auth/verify', { token });
+    return response.data.message || 'Email verified successfully';
+  },
+
+  async resendVerification(): Promise<string> {
+    const response = await api.post<ApiResponse>('/api/auth/verify/resend');
+    return response.data.message || 'Verification email sent';
+  },
+
+  async forgotPassword(email: string): Promise<string> {
+    const response = await api.post<ApiResponse>('/api/auth/forgot-password', { email });
+    return response.data.message || 'If an account exists for that email, a reset link has been sent';
+  },
+
+  async resetPassword(token: string, password: string): Promise<string> {
+    const response = await api.post<ApiResponse>('/api/auth/reset-password', { token, password });
+    return response.data.message || 'Password reset successfully';
+  },
+
   isAuthenticated(): boolean {
     return !!localStorage.getItem('accessToken');
   },
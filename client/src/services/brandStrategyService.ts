@@ -0,0 +1,103 @@
+import api from './api';
+
+export type StrategyPlatform = 'linkedin' | 'twitter' | 'instagram' | 'youtube' | 'blog';
+
+export interface VoiceProfile {
+  tone: string;
+  personality: string[];
+  vocabulary: string;
+  writingStyle: string;
+  bannedPhrases?: string[];
+}
+
+export interface PlatformConfig {
+  active: boolean;
+  postingFrequency: string;
+  contentTypes: string[];
+  hashtagStrategy: string[];
+  engagementStrategy: string;
+}
+
+export type PlatformStrategy = Partial<Record<StrategyPlatform, PlatformConfig>>;
+
+export interface BrandStrategy {
+  id: string;
+  userId: string;
+  coreMessage?: string;
+  targetAudience: string[];
+  contentPillars: string[];
+  voiceAndTone: VoiceProfile;
+  platformStrategy: PlatformStrategy;
+  isActive: boolean;
+  version: number;
+  parentId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BrandStrategyInput {
+  coreMessage?: string;
+  targetAudience?: string[];
+  contentPillars?: string[];
+  voiceAndTone?: VoiceProfile;
+  platformStrategy?: PlatformStrategy;
+}
+
+export interface BrandStrategyChange {
+  field: string;
+  before: any;
+  after: any;
+  added?: string[];
+  removed?: string[];
+}
+
+export interface BrandStrategyDiff {
+  fromId: string;
+  toId: string;
+  fromVersion: number;
+  toVersion: number;
+  changes: BrandStrategyChange[];
+}
+
+export const brandStrategyService = {
+  // List all strategy versions
+  async listStrategies(): Promise<BrandStrategy[]> {
+    const response = await api.get('/api/brand-strategy');
+    return response.data.strategies;
+  },
+
+  // Get the active strategy (created with defaults on first use)
+  async getActiveStrategy(): Promise<BrandStrategy> {
+    const response = await api.get('/api/brand-strategy/active');
+    return response.data.strategy;
+  },
+
+  // Save a new version based on the given strategy
+  async saveStrategy(data: BrandStrategyInput, baseId?: string): Promise<BrandStrategy> {
+    const response = await api.post('/api/brand-strategy', { ...data, baseId });
+    return response.data.strategy;
+  },
+
+  // Activate an existing version
+  async activateStrategy(id: string): Promise<BrandStrategy> {
+    const response = await api.post(`/api/brand-strategy/${id}/activate`);
+    return response.data.strategy;
+  },
+
+  // Restore an older version as the newest active version
+  async rollbackStrategy(id: string): Promise<BrandStrategy> {
+    const response = await api.post(`/api/brand-strategy/${id}/rollback`);
+    return response.data.strategy;
+  },
+
+  // Compare two versions
+  async diffStrategies(fromId: string, toId: string): Promise<BrandStrategyDiff> {
+    const response = await api.get('/api/brand-strategy/diff', { params: { from: fromId, to: toId } });
+    return response.data.diff;
+  },
+
+  // Delete an inactive version
+  async deleteStrategy(id: string): Promise<void> {
+    await api.delete(`/api/brand-strategy/${id}`);
+  }
+};
@@ -0,0 +1,84 @@
+import api from './api';
+
+export type ContentFrequency = 'low' | 'moderate' | 'high';
+
+export interface Competitor {
+  id: string;
+  name: string;
+  domain?: string;
+  industry: string;
+  isActive: boolean;
+  lastSnapshotAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CompetitorSnapshot {
+  id: string;
+  competitorId: string;
+  keyTopics: string[];
+  contentFrequency: ContentFrequency;
+  recentPostCount: number;
+  socialPresence: { platform: string; followers?: number; engagement?: number }[];
+  recentContent: { title: string; url: string; publishedDate?: string }[];
+  capturedAt: string;
+}
+
+export interface CompetitorDiff {
+  competitorId: string;
+  fromId: string;
+  toId: string;
+  fromCapturedAt: string;
+  toCapturedAt: string;
+  topicsAdded: string[];
+  topicsRemoved: string[];
+  contentFrequency: { before: ContentFrequency; after: ContentFrequency } | null;
+  recentPostCount: { before: number; after: number };
+  platformsAdded: string[];
+  platformsRemoved: string[];
+  platformChanges: {
+    platform: string;
+    followersBefore: number | null;
+    followersAfter: number | null;
+    engagementBefore: number | null;
+    engagementAfter: number | null;
+  }[];
+  newContent: { title: string; url: string }[];
+}
+
+export const competitorService = {
+  // List the user's competitor watchlist
+  async listCompetitors(): Promise<Competitor[]> {
+    const response = await api.get('/api/competitors');
+    return response.data.competitors;
+  },
+
+  // Start tracking a competitor; the first snapshot is taken right away
+  async addCompetitor(details: { name: string; industry: string; domain?: string }): Promise<Competitor> {
+    const response = await api.post('/api/competitors', details);
+    return response.data.competitor;
+  },
+
+  // Pause, resume or change a competitor
+  async updateCompetitor(id: string, updates: Partial<Pick<Competitor, 'domain' | 'industry' | 'isActive'>>): Promise<Competitor> {
+    const response = await api.put(`/api/competitors/${id}`, updates);
+    return response.data.competitor;
+  },
+
+  // Take a snapshot now
+  async takeSnapshot(id: string): Promise<CompetitorSnapshot> {
+    const response = await api.post(`/api/competitors/${id}/snapshot`);
+    return response.data.snapshot;
+  },
+
+  // What changed since a date, a week ago by default
+  async getDiff(id: string, since?: string): Promise<CompetitorDiff> {
+    const response = await api.get(`/api/competitors/${id}/diff`, { params: { since } });
+    return response.data.diff;
+  },
+
+  // Stop tracking a competitor
+  async removeCompetitor(id: string): Promise<void> {
+    await api.delete(`/api/competitors/${id}`);
+  }
+};
@@ -0,0 +1,131 @@
+import api from './api';
+
+export type ContentStatus = 'draft' | 'published' | 'archived';
+
+export interface ContentItem {
+  id: string;
+  userId: string;
+  platform: string;
+  contentType: string;
+  title?: string;
+  body: string;
+  tags: string[];
+  brandAlignment: number;
+  performanceScore: number;
+  status: ContentStatus;
+  // The item this one was repurposed from
+  parentId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ContentInput {
+  platform: string;
+  contentType: string;
+  title?: string;
+  body: string;
+  tags: string[];
+  status?: ContentStatus;
+}
+
+export type AlignmentDimension = 'sentence_length' | 'formality' | 'vocabulary' | 'pillars' | 'banned_phrases';
+
+export interface AlignmentCheck {
+  dimension: AlignmentDimension;
+  score: number;
+  weight: number;
+  explanation: string;
+}
+
+export interface BrandAlignmentReport {
+  score: number;
+  checks: AlignmentCheck[];
+  missing: string[];
+}
+
+export interface RepurposeResult {
+  contentId: string;
+  variants: ContentItem[];
+  model: string;
+  usage: {
+    inputTokens: number;
+    outputTokens: number;
+  };
+}
+
+export interface ContentFilters {
+  platform?: string;
+  status?: ContentStatus;
+  tags?: string[];
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export const contentService = {
+  // List content with optional filters
+  async listContent(filters: ContentFilters = {}): Promise<{
+    content: ContentItem[];
+    count: number;
+  }> {
+    const params: Record<string, string | number> = {};
+    if (filters.platform) params.platform = filters.platform;
+    if (filters.status) params.status = filters.status;
+    if (filters.tags?.length) params.tags = filters.tags.join(',');
+    if (filters.from) params.from = filters.from;
+    if (filters.to) params.to = filters.to;
+    if (filters.limit) params.limit = filters.limit;
+    if (filters.offset) params.offset = filters.offset;
+
+    const response = await api.get('/api/content', { params });
+    return response.data;
+  },
+
+  // Get a single content item
+  async getContent(id: string): Promise<ContentItem> {
+    const response = await api.get(`/api/content/${id}`);
+    return response.data.content;
+  },
+
+  // Create a content item
+  async createContent(data: ContentInput): Promise<ContentItem> {
+    const response = await api.post('/api/content', data);
+    return response.data.content;
+  },
+
+  // Update a content item
+  async updateContent(id: string, data: Partial<ContentInput>): Promise<ContentItem> {
+    const response = await api.put(`/api/content/${id}`, data);
+    return response.data.content;
+  },
+
+  // Score a content item against the writing style profile and brand strategy
+  async getAlignment(id: string): Promise<BrandAlignmentReport> {
+    const response = await api.get(`/api/content/${id}/alignment`);
+    return response.data.alignment;
+  },
+
+  // Repurpose a content item into drafts for other platforms; defaults to the strategy's active platforms
+  async repurposeContent(id: string, platforms?: string[]): Promise<RepurposeResult> {
+    const response = await api.post(`/api/content/${id}/repurpose`, platforms?.length ? { platforms } : {});
+    return response.data;
+  },
+
+  // Get the variants repurposed from a content item
+  async getVariants(id: string): Promise<ContentItem[]> {
+    const response = await api.get(`/api/content/${id}/variants`);
+    return response.data.variants;
+  },
+
+  // Archive a content item
+  async archiveContent(id: string): Promise<ContentItem> {
+    const response = await api.post(`/api/content/${id}/archive`);
+    return response.data.content;
+  },
+
+  // Delete a content item
+  async deleteContent(id: string): Promise<void> {
+    await api.delete(`/api/content/${id}`);
+  }
+};
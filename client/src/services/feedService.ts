@@ -0,0 +1,52 @@
+import api from './api';
+
+export interface FeedSubscription {
+  id: string;
+  url: string;
+  title?: string;
+  siteUrl?: string;
+  format?: 'rss' | 'atom' | 'json';
+  pollIntervalMinutes: number;
+  isActive: boolean;
+  lastPolledAt?: string;
+  lastError?: string;
+  errorCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FeedPollResult {
+  subscription: FeedSubscription;
+  newItems: number;
+}
+
+export const feedService = {
+  // List the user's feed subscriptions
+  async listSubscriptions(): Promise<FeedSubscription[]> {
+    const response = await api.get('/api/feeds');
+    return response.data.subscriptions;
+  },
+
+  // Subscribe to an RSS, Atom or JSON feed
+  async subscribe(url: string, pollIntervalMinutes?: number): Promise<FeedPollResult> {
+    const response = await api.post('/api/feeds', { url, pollIntervalMinutes });
+    return response.data;
+  },
+
+  // Pause, resume or change a subscription
+  async updateSubscription(id: string, updates: Partial<Pick<FeedSubscription, 'title' | 'pollIntervalMinutes' | 'isActive'>>): Promise<FeedSubscription> {
+    const response = await api.put(`/api/feeds/${id}`, updates);
+    return response.data.subscription;
+  },
+
+  // Fetch a feed now
+  async pollSubscription(id: string): Promise<FeedPollResult> {
+    const response = await api.post(`/api/feeds/${id}/poll`);
+    return response.data;
+  },
+
+  // Unsubscribe from a feed
+  async unsubscribe(id: string): Promise<void> {
+    await api.delete(`/api/feeds/${id}`);
+  }
+};
@@ -0,0 +1,33 @@
+import api from './api';
+import { ContentItem } from './contentService';
+
+export interface PostGenerationInput {
+  topic: string;
+  platform: string;
+  projectId?: string;
+  contentType?: string;
+  count?: number;
+}
+
+export interface PostGenerationResult {
+  drafts: ContentItem[];
+  context: {
+    styleProfile: boolean;
+    pillars: string[];
+    examples: number;
+    projectId?: string;
+  };
+  model: string;
+  usage: {
+    inputTokens: number;
+    outputTokens: number;
+  };
+}
+
+export const generationService = {
+  // Generate post drafts in the user's voice; drafts are saved to the content library
+  async generatePost(input: PostGenerationInput): Promise<PostGenerationResult> {
+    const response = await api.post('/api/generate/post', input);
+    return response.data;
+  },
+};
@@ -0,0 +1,29 @@
+import api from './api';
+
+export type HashtagSignal = 'strategy' | 'history' | 'trend' | 'topic';
+
+export interface HashtagSuggestion {
+  tag: string;
+  score: number;
+  signals: HashtagSignal[];
+  reasons: string[];
+}
+
+export interface HashtagRecommendations {
+  platform?: string;
+  cap: number;
+  suggestions: HashtagSuggestion[];
+}
+
+export const hashtagService = {
+  // Ranked hashtags from the brand strategy, past performance, trends and topics, capped per platform
+  async getRecommendations(options: { platform?: string; topics?: string[]; limit?: number } = {}): Promise<HashtagRecommendations> {
+    const params: Record<string, string | number> = {};
+    if (options.platform) params.platform = options.platform;
+    if (options.topics?.length) params.topics = options.topics.join(',');
+    if (options.limit) params.limit = options.limit;
+
+    const response = await api.get('/api/hashtags/recommendations', { params });
+    return response.data;
+  },
+};
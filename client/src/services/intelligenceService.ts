@@ -0,0 +1,69 @@
+import api from './api';
+
+export type IntelligenceType = 'trend' | 'competitor' | 'opportunity' | 'threat' | 'news';
+export type IntelligenceStatus = 'new' | 'saved' | 'dismissed' | 'acted_on';
+
+export interface IntelligenceItem {
+  id: string;
+  userId: string;
+  type: IntelligenceType;
+  data: {
+    title?: string;
+    summary?: string;
+    action?: string;
+    url?: string;
+    [key: string]: any;
+  };
+  relevanceScore: number;
+  isActionable: boolean;
+  source?: string;
+  status: IntelligenceStatus;
+  statusChangedAt?: string;
+  expiresAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface IntelligenceFeedFilters {
+  types?: IntelligenceType[];
+  statuses?: IntelligenceStatus[];
+  minRelevance?: number;
+  actionable?: boolean;
+  sort?: 'relevance' | 'recent';
+  limit?: number;
+  offset?: number;
+}
+
+export interface IntelligenceFeed {
+  items: IntelligenceItem[];
+  total: number;
+  counts: Record<IntelligenceStatus, number>;
+}
+
+export const intelligenceService = {
+  // Get the feed with optional filters
+  async getFeed(filters: IntelligenceFeedFilters = {}): Promise<IntelligenceFeed> {
+    const params: Record<string, string | number> = {};
+    if (filters.types?.length) params.type = filters.types.join(',');
+    if (filters.statuses?.length) params.status = filters.statuses.join(',');
+    if (filters.minRelevance !== undefined) params.minRelevance = filters.minRelevance;
+    if (filters.actionable) params.actionable = 'true';
+    if (filters.sort) params.sort = filters.sort;
+    if (filters.limit) params.limit = filters.limit;
+    if (filters.offset) params.offset = filters.offset;
+
+    const response = await api.get('/api/intelligence', { params });
+    return response.data;
+  },
+
+  // Move an item to a triage state
+  async updateStatus(id: string, status: IntelligenceStatus): Promise<IntelligenceItem> {
+    const response = await api.put(`/api/intelligence/${id}/status`, { status });
+    return response.data.item;
+  },
+
+  // Delete an item
+  async deleteItem(id: string): Promise<void> {
+    await api.delete(`/api/intelligence/${id}`);
+  }
+};
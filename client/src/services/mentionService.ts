@@ -0,0 +1,77 @@
+import api from './api';
+
+export type MentionSentiment = 'positive' | 'negative' | 'neutral';
+
+export interface BrandMention {
+  id: string;
+  brand: string;
+  keyword?: string;
+  url: string;
+  title: string;
+  snippet?: string;
+  source: string;
+  sentiment: MentionSentiment;
+  sentimentScore: number;
+  publishedAt?: string;
+  createdAt: string;
+}
+
+export interface BrandMentionSummary {
+  brand: string;
+  keywords: string[];
+  total: number;
+  negative: number;
+  lastSeenAt: string;
+}
+
+export interface SentimentSeriesPoint {
+  date: string;
+  positive: number;
+  negative: number;
+  neutral: number;
+  total: number;
+  averageScore: number;
+}
+
+export interface SentimentReport {
+  series: SentimentSeriesPoint[];
+  summary: {
+    overall: number;
+    positive: number;
+    negative: number;
+    neutral: number;
+    sources: string[];
+    keywords: string[];
+    analyzedAt: string;
+  };
+}
+
+export interface BrandMentionFilters {
+  brand?: string;
+  keyword?: string;
+  sentiment?: MentionSentiment;
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export const mentionService = {
+  // Brands with stored mentions
+  async listBrands(): Promise<BrandMentionSummary[]> {
+    const response = await api.get('/api/mentions/brands');
+    return response.data.brands;
+  },
+
+  // Stored mentions, newest first
+  async getMentions(filters: BrandMentionFilters = {}): Promise<{ mentions: BrandMention[]; total: number }> {
+    const response = await api.get('/api/mentions', { params: filters });
+    return response.data;
+  },
+
+  // Daily sentiment for a brand or keyword over the last `days` days
+  async getSentiment(filters: { brand?: string; keyword?: string; days?: number } = {}): Promise<SentimentReport> {
+    const response = await api.get('/api/mentions/sentiment', { params: filters });
+    return response.data;
+  }
+};
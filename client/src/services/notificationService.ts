@@ -0,0 +1,81 @@
+import api from './api';
+
+export type NotificationType = 'alert' | 'analysis' | 'deadline';
+export type DigestFrequency = 'off' | 'daily' | 'weekly';
+
+export interface Notification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  // Client route the notification opens
+  link?: string;
+  data: Record<string, any>;
+  readAt?: string;
+  createdAt: string;
+}
+
+export interface NotificationPreferences {
+  mutedTypes: NotificationType[];
+  digestFrequency: DigestFrequency;
+  lastDigestAt?: string;
+}
+
+export const notificationService = {
+  // Notifications, newest first, with the unread count
+  async getNotifications(filters: { unread?: boolean; types?: NotificationType[]; limit?: number; offset?: number } = {}): Promise<{
+    notifications: Notification[];
+    total: number;
+    unread: number;
+  }> {
+    const response = await api.get('/api/notifications', {
+      params: {
+        unread: filters.unread || undefined,
+        type: filters.types?.join(',') || undefined,
+        limit: filters.limit,
+        offset: filters.offset
+      }
+    });
+    return response.data;
+  },
+
+  // Number of unread notifications, for the bell
+  async getUnreadCount(): Promise<number> {
+    const response = await api.get('/api/notifications/unread-count');
+    return response.data.unread;
+  },
+
+  // Mark a notification read or unread
+  async setRead(id: string, read: boolean): Promise<Notification> {
+    const response = await api.put(`/api/notifications/${id}`, { read });
+    return response.data.notification;
+  },
+
+  // Mark every notification read
+  async markAllRead(): Promise<void> {
+    await api.post('/api/notifications/read-all');
+  },
+
+  // Delete a notification
+  async deleteNotification(id: string): Promise<void> {
+    await api.delete(`/api/notifications/${id}`);
+  },
+
+  // Muted types and digest frequency
+  async getPreferences(): Promise<NotificationPreferences> {
+    const response = await api.get('/api/notifications/preferences');
+    return response.data.preferences;
+  },
+
+  // Update muted types or digest frequency
+  async updatePreferences(updates: Partial<Pick<NotificationPreferences, 'mutedTypes' | 'digestFrequency'>>): Promise<NotificationPreferences> {
+    const response = await api.put('/api/notifications/preferences', updates);
+    return response.data.preferences;
+  },
+
+  // Send the digest now; false when nothing was unread
+  async sendDigest(): Promise<boolean> {
+    const response = await api.post('/api/notifications/digest');
+    return response.data.sent;
+  }
+};
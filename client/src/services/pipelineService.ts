@@ -0,0 +1,60 @@
+import api from './api';
+import { Project } from './projectService';
+
+export type PipelineStage = 'detected' | 'pursuing' | 'done' | 'ignored';
+export type PipelineKind = 'opportunity' | 'threat';
+export type PipelinePriority = 'low' | 'medium' | 'high';
+
+export interface PipelineItem {
+  id: string;
+  kind: PipelineKind;
+  // Opportunity type (networking, content, ...) or threat type (reputation, ...)
+  category: string;
+  title: string;
+  description: string;
+  priority: PipelinePriority;
+  deadline?: string;
+  source: string;
+  actions: string[];
+  stage: PipelineStage;
+  intelligenceId?: string;
+  projectId?: string;
+  detectedAt: string;
+  stageChangedAt: string;
+}
+
+export const pipelineService = {
+  // The user's pipeline, optionally one kind or some stages only
+  async getPipeline(filters: { kind?: PipelineKind; stages?: PipelineStage[] } = {}): Promise<PipelineItem[]> {
+    const response = await api.get('/api/pipeline', {
+      params: {
+        kind: filters.kind,
+        stage: filters.stages?.join(',') || undefined
+      }
+    });
+    return response.data.items;
+  },
+
+  // Run the classifier over the items already in the intelligence feed
+  async classifyFeed(): Promise<PipelineItem[]> {
+    const response = await api.post('/api/pipeline/classify');
+    return response.data.items;
+  },
+
+  // Move an item to another stage or change its priority or deadline
+  async updateItem(id: string, updates: { stage?: PipelineStage; priority?: PipelinePriority; deadline?: string | null }): Promise<PipelineItem> {
+    const response = await api.put(`/api/pipeline/${id}`, updates);
+    return response.data.item;
+  },
+
+  // Turn an opportunity into a project
+  async convertToProject(id: string): Promise<{ project: Project; item: PipelineItem }> {
+    const response = await api.post(`/api/pipeline/${id}/project`);
+    return response.data;
+  },
+
+  // Remove an item from the pipeline
+  async deleteItem(id: string): Promise<void> {
+    await api.delete(`/api/pipeline/${id}`);
+  }
+};
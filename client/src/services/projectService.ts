@@ -0,0 +1,147 @@
+import api from './api';
+import { ContentItem } from './contentService';
+
+export type ProjectStatus = 'active' | 'completed' | 'paused' | 'cancelled';
+
+export type ProjectType = 'opportunity' | 'linkedin_voice' | 'achievement_series' | 'custom';
+
+export interface ProjectProgress {
+  milestonesTotal: number;
+  milestonesCompleted: number;
+  deadlinesTotal: number;
+  deadlinesCompleted: number;
+  overdueDeadlines: number;
+  linkedContent: number;
+  publishedContent: number;
+  completionRate: number;
+}
+
+export interface Project {
+  id: string;
+  userId: string;
+  name: string;
+  type: ProjectType;
+  description?: string;
+  goals: string[];
+  status: ProjectStatus;
+  startDate?: string;
+  endDate?: string;
+  context: Record<string, any>;
+  createdAt: string;
+  updatedAt: string;
+  progress?: ProjectProgress;
+}
+
+export interface ProjectInput {
+  name: string;
+  type: ProjectType;
+  description?: string;
+  goals?: string[];
+  status?: ProjectStatus;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface ProjectMilestone {
+  id: string;
+  projectId: string;
+  name: string;
+  description: string;
+  targetDate: string;
+  completed: boolean;
+  completedAt?: string;
+}
+
+export interface ProjectDeadline {
+  id: string;
+  projectId: string;
+  name: string;
+  date: string;
+  priority: 'low' | 'medium' | 'high';
+  completed: boolean;
+}
+
+export interface ProjectDetails {
+  project: Project;
+  timeline: {
+    milestones: ProjectMilestone[];
+    deadlines: ProjectDeadline[];
+  };
+  content: ContentItem[];
+  progress: ProjectProgress;
+}
+
+export const projectService = {
+  // List projects with their progress
+  async listProjects(): Promise<Project[]> {
+    const response = await api.get('/api/projects');
+    return response.data.projects;
+  },
+
+  // Get a project with timeline, linked content and progress
+  async getProject(id: string): Promise<ProjectDetails> {
+    const response = await api.get(`/api/projects/${id}`);
+    return response.data;
+  },
+
+  // Create a project
+  async createProject(data: ProjectInput): Promise<Project> {
+    const response = await api.post('/api/projects', data);
+    return response.data.project;
+  },
+
+  // Update a project
+  async updateProject(id: string, data: Partial<ProjectInput>): Promise<Project> {
+    const response = await api.put(`/api/projects/${id}`, data);
+    return response.data.project;
+  },
+
+  // Delete a project
+  async deleteProject(id: string): Promise<void> {
+    await api.delete(`/api/projects/${id}`);
+  },
+
+  // Add a milestone
+  async addMilestone(projectId: string, data: { name: string; description?: string; targetDate: string }): Promise<ProjectMilestone> {
+    const response = await api.post(`/api/projects/${projectId}/milestones`, data);
+    return response.data.milestone;
+  },
+
+  // Update a milestone
+  async updateMilestone(projectId: string, milestoneId: string, data: Partial<Omit<ProjectMilestone, 'id' | 'projectId'>>): Promise<ProjectMilestone> {
+    const response = await api.put(`/api/projects/${projectId}/milestones/${milestoneId}`, data);
+    return response.data.milestone;
+  },
+
+  // Delete a milestone
+  async deleteMilestone(projectId: string, milestoneId: string): Promise<void> {
+    await api.delete(`/api/projects/${projectId}/milestones/${milestoneId}`);
+  },
+
+  // Add a deadline
+  async addDeadline(projectId: string, data: { name: string; date: string; priority?: ProjectDeadline['priority'] }): Promise<ProjectDeadline> {
+    const response = await api.post(`/api/projects/${projectId}/deadlines`, data);
+    return response.data.deadline;
+  },
+
+  // Update a deadline
+  async updateDeadline(projectId: string, deadlineId: string, data: Partial<Omit<ProjectDeadline, 'id' | 'projectId'>>): Promise<ProjectDeadline> {
+    const response = await api.put(`/api/projects/${projectId}/deadlines/${deadlineId}`, data);
+    return response.data.deadline;
+  },
+
+  // Delete a deadline
+  async deleteDeadline(projectId: string, deadlineId: string): Promise<void> {
+    await api.delete(`/api/projects/${projectId}/deadlines/${deadlineId}`);
+  },
+
+  // Link a content item to a project
+  async linkContent(projectId: string, contentId: string): Promise<void> {
+    await api.post(`/api/projects/${projectId}/content`, { contentId });
+  },
+
+  // Unlink a content item from a project
+  async unlinkContent(projectId: string, contentId: string): Promise<void> {
+    await api.delete(`/api/projects/${projectId}/content/${contentId}`);
+  }
+};
@@ -10,16 +10,44 @@ export interface SearchResult {
   sentiment?: 'positive' | 'negative' | 'neutral';
 }
 
+export type TrendDirection = 'rising' | 'stable' | 'declining';
+
 export interface TrendData {
   keyword: string;
   volume: number;
   growth: number;
+  momentum: TrendDirection;
+  accelerating: boolean;
   category: string;
   relatedTerms: string[];
   timeframe: string;
   sources: string[];
 }
 
+export interface TrendMomentum {
+  keyword: string;
+  observations: number;
+  latest: number;
+  shortAverage: number;
+  longAverage: number;
+  slope: number;
+  growth: number;
+  acceleration: number;
+  direction: TrendDirection;
+  accelerating: boolean;
+}
+
+export interface TrendMomentumSummary extends TrendMomentum {
+  category: string;
+  industry?: string;
+  lastObservedAt: string;
+}
+
+export interface TrendPoint {
+  date: string;
+  volume: number;
+}
+
 export interface CompetitorInfo {
   name: string;
   domain: string;
@@ -32,6 +60,7 @@ export interface CompetitorInfo {
   }[];
   keyTopics: string[];
   contentFrequency: 'low' | 'moderate' | 'high';
+  recentPostCount: number;
 }
 
 export interface IndustryInsight {
@@ -59,6 +88,9 @@ export interface TrendAlert {
   message: string;
   actionable: boolean;
   action?: string;
+  momentum?: TrendDirection;
+  growth?: number;
+  accelerating?: boolean;
 }
 
 export interface TrendDashboard {
@@ -150,6 +182,18 @@ export const webSearchService = {
     };
   },
 
+  // Get the momentum of recently observed trends
+  async getTrendMomentum(): Promise<TrendMomentumSummary[]> {
+    const response = await api.get('/api/web-search/trends/momentum');
+    return response.data.trends;
+  },
+
+  // Get the daily history of one trend
+  async getTrendHistory(keyword: string): Promise<{ series: TrendPoint[]; momentum: TrendMomentum }> {
+    const response = await api.get('/api/web-search/trends/history', { params: { keyword } });
+    return response.data;
+  },
+
   // Get trend dashboard
   async getTrendDashboard(): Promise<TrendDashboard> {
     const response = await api.get('/web-search/dashboard');
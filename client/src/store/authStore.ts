@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { User, UserProfile } from '@/types';
 import { authService } from '@/services/authService';
+import { accountService } from '@/services/accountService';
 
 interface AuthState {
   user: User | null;
@@ -13,6 +14,7 @@ interface AuthState {
   login: (email: string, password: string) => Promise<void>;
   register: (email: string, password: string, name: string) => Promise<void>;
   logout: () => Promise<void>;
+  deleteAccount: (password: string, confirmation: string) => Promise<void>;
   loadProfile: () => Promise<void>;
   updateProfile: (data: Partial<UserProfile>) => Promise<void>;
   clearError: () => void;
@@ -89,6 +91,21 @@ export const useAuthStore = create<AuthState>((set, get) => ({
     }
   },
 
+  deleteAccount: async (password: string, confirmation: string) => {
+    await accountService.deleteAccount(password, confirmation);
+
+    // The account's sessions are gone with it, so just drop local state
+    localStorage.removeItem('accessToken');
+    localStorage.removeItem('refreshToken');
+    set({
+      user: null,
+      profile: null,
+      isAuthenticated: false,
+      isLoading: false,
+      error: null,
+    });
+  },
+
   loadProfile: async () => {
     if (!authService.isAuthenticated()) {
       return;
@@ -32,6 +32,16 @@ export interface AuthTokens {
   refreshToken: string;
 }
 
+export interface Session {
+  id: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
 export interface LoginRequest {
   email: string;
   password: string;
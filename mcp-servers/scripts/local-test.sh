@@ -22,6 +22,7 @@ fi
 cd "$(dirname "$0")/.."
 
 echo "📦 Installing dependencies..."
+(cd ../shared && npm install)
 npm install
 
 echo "🔨 Building TypeScript..."
@@ -121,7 +122,7 @@ fi
 
 # Test Docker build
 echo "🐳 Testing Docker build..."
-if docker build -t anidhi-mcp-test . > /dev/null 2>&1; then
+if docker build -t anidhi-mcp-test -f Dockerfile .. > /dev/null 2>&1; then
     echo "✅ Docker build successful"
     
     # Test Docker container
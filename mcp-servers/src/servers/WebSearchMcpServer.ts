@@ -8,11 +8,15 @@ import {
   MCPServerCapabilities 
 } from '../types/mcp';
 import { logger } from '../utils/logger';
+import { createSearchProvider, parseFeed, SearchCategory, SearchProvider } from '@anidhi/shared';
 import axios from 'axios';
 
 export class WebSearchMcpServer extends HttpMcpServer {
-  constructor(port: number = 3001) {
+  private searchProvider: SearchProvider | null;
+
+  constructor(port: number = 3001, searchProvider?: SearchProvider) {
     super('web-search-mcp-server', port, '1.0.0');
+    this.searchProvider = searchProvider ?? null;
   }
 
   protected getCapabilities(): MCPServerCapabilities {
@@ -78,13 +82,13 @@ export class WebSearchMcpServer extends HttpMcpServer {
       },
       {
         name: 'rss_feed',
-        description: 'Fetch and parse RSS feed content',
+        description: 'Fetch and parse RSS, Atom or JSON Feed content',
         inputSchema: {
           type: 'object',
           properties: {
             url: {
               type: 'string',
-              description: 'The RSS feed URL'
+              description: 'The feed URL'
             },
             max_items: {
               type: 'number',
@@ -271,39 +275,23 @@ export class WebSearchMcpServer extends HttpMcpServer {
     
     logger.info('Performing web search', { query, max_results, search_type });
 
-    // Simulate web search results (in production, integrate with real search APIs)
-    const simulatedResults = [
-      {
-        title: `${query} - Latest Information and Trends`,
-        url: `https://example.com/search?q=${encodeURIComponent(query)}`,
-        snippet: `Comprehensive information about ${query} including latest trends, analysis, and insights from industry experts.`,
-        source: 'Industry News',
-        publishedDate: new Date().toISOString(),
-        relevanceScore: 0.95
-      },
-      {
-        title: `Understanding ${query}: A Complete Guide`,
-        url: `https://guide.example.com/${query.toLowerCase().replace(/\s+/g, '-')}`,
-        snippet: `Complete guide covering all aspects of ${query} with practical examples and expert recommendations.`,
-        source: 'Expert Guide',
-        publishedDate: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString(),
-        relevanceScore: 0.88
-      },
-      {
-        title: `${query} Market Analysis and Future Outlook`,
-        url: `https://analysis.example.com/reports/${query}`,
-        snippet: `Market analysis and future predictions for ${query} based on current trends and data.`,
-        source: 'Market Research',
-        publishedDate: new Date(Date.now() - 48 * 60 * 60 * 1000).toISOString(),
-        relevanceScore: 0.82
-      }
-    ];
+    // Created on first use so a misconfigured provider fails the tool call, not startup
+    if (!this.searchProvider) {
+      this.searchProvider = createSearchProvider({ logger });
+      logger.info('Using search provider', { provider: this.searchProvider.name });
+    }
+
+    const results = await this.searchProvider.search(query, {
+      maxResults: max_results,
+      category: search_type as SearchCategory
+    });
 
     return {
       query,
       search_type,
-      total_results: simulatedResults.length,
-      results: simulatedResults.slice(0, max_results),
+      provider: this.searchProvider.name,
+      total_results: results.length,
+      results,
       timestamp: new Date().toISOString()
     };
   }
@@ -342,41 +330,33 @@ export class WebSearchMcpServer extends HttpMcpServer {
   private async fetchRssFeed(args: any): Promise<any> {
     const { url, max_items = 10 } = args;
     
-    logger.info('Fetching RSS feed', { url, max_items });
+    logger.info('Fetching feed', { url, max_items });
 
     try {
       const response = await axios.get(url, {
         timeout: 10000,
+        responseType: 'text',
         headers: {
           'User-Agent': 'ANIDHI-MCP-Server/1.0.0'
         }
       });
 
-      // Simple RSS parsing (in production, use a proper RSS parser)
-      const content = response.data;
-      const items = [];
-      
-      // Extract basic RSS items (simplified)
-      const itemMatches = content.match(/<item[^>]*>[\s\S]*?<\/item>/gi) || [];
-      
-      for (let i = 0; i < Math.min(itemMatches.length, max_items); i++) {
-        const item = itemMatches[i];
-        const title = (item.match(/<title[^>]*>([\s\S]*?)<\/title>/i) || [])[1] || 'No title';
-        const link = (item.match(/<link[^>]*>([\s\S]*?)<\/link>/i) || [])[1] || '';
-        const description = (item.match(/<description[^>]*>([\s\S]*?)<\/description>/i) || [])[1] || '';
-        const pubDate = (item.match(/<pubDate[^>]*>([\s\S]*?)<\/pubDate>/i) || [])[1] || '';
-
-        items.push({
-          title: title.trim(),
-          link: link.trim(),
-          description: description.trim().replace(/<[^>]*>/g, ''), // Strip HTML
-          publishedDate: pubDate.trim(),
-          source: url
-        });
-      }
+      const feed = parseFeed(response.data, url);
+
+      const items = feed.entries.slice(0, max_items).map(entry => ({
+        title: entry.title,
+        link: entry.url || '',
+        description: entry.summary || '',
+        author: entry.author,
+        guid: entry.guid,
+        publishedDate: entry.publishedAt ? entry.publishedAt.toISOString() : '',
+        source: url
+      }));
 
       return {
         feed_url: url,
+        feed_title: feed.title,
+        format: feed.format,
         total_items: items.length,
         items,
         fetched_at: new Date().toISOString()
@@ -1,10 +1,21 @@
 import { Request, Response, NextFunction } from 'express';
 import { UserModel, UserProfileModel } from '@/models/User';
-import { generateTokens, comparePassword } from '@/utils/auth';
+import { comparePassword } from '@/utils/auth';
+import { SessionService } from '@/services/sessionService';
+import { AccountService } from '@/services/accountService';
 import { createError } from '@/middleware/errorHandler';
-import { RegisterRequest, LoginRequest, AuthResponse } from '@/types';
+import { RegisterRequest, LoginRequest, AuthResponse, SessionMetadata } from '@/types';
 import { logger } from '@/utils/logger';
 
+// Device details shown in the sessions list
+const getSessionMetadata = (req: Request): SessionMetadata => {
+  const userAgent = req.get('User-Agent');
+  return {
+    ...(userAgent && { userAgent: userAgent.substring(0, 500) }),
+    ...(req.ip && { ipAddress: req.ip }),
+  };
+};
+
 export const register = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { email, password, name }: RegisterRequest = req.body;
@@ -22,7 +33,14 @@ export const register = async (req: Request, res: Response, next: NextFunction)
     await UserProfileModel.create(user.id);
 
     // Generate tokens
-    const tokens = generateTokens(user.id, user.email);
+    const tokens = await SessionService.createSession(user.id, user.email, getSessionMetadata(req));
+
+    try {
+      await AccountService.sendVerificationEmail(user.id, user.email, user.name);
+    } catch (error) {
+      logger.error('Failed to send verification email:', error);
+      // Don't throw - the user can request another verification email
+    }
 
     // Prepare response
     const response: AuthResponse = {
@@ -67,7 +85,7 @@ export const login = async (req: Request, res: Response, next: NextFunction) =>
     }
 
     // Generate tokens
-    const tokens = generateTokens(user.id, user.email);
+    const tokens = await SessionService.createSession(user.id, user.email, getSessionMetadata(req));
 
     // Update last active
     await UserModel.updateLastActive(user.id);
@@ -148,12 +166,36 @@ export const updateProfile = async (req: Request, res: Response, next: NextFunct
   }
 };
 
+export const refresh = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { refreshToken } = req.body;
+
+    const tokens = await SessionService.refresh(refreshToken, getSessionMetadata(req));
+
+    res.json({
+      success: true,
+      data: { tokens },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const logout = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    // In a production app, you'd invalidate the refresh token here
-    // For now, we'll just return success since JWT tokens are stateless
-    
-    logger.info(`User logged out: ${req.user?.email || 'unknown'}`);
+    if (!req.user) {
+      throw createError('User not authenticated', 401);
+    }
+
+    // Revoke the session of the presented refresh token, falling back to the access token's session
+    const { refreshToken } = req.body || {};
+    if (refreshToken) {
+      await SessionService.revokeByToken(refreshToken, req.user.id);
+    } else if (req.user.sessionId) {
+      await SessionService.revokeSession(req.user.id, req.user.sessionId);
+    }
+
+    logger.info(`User logged out: ${req.user.email}`);
 
     res.json({
       success: true,
@@ -162,4 +204,133 @@ export const logout = async (req: Request, res: Response, next: NextFunction) =>
   } catch (error) {
     next(error);
   }
-};
\ No newline at end of file
+};
+
+export const getSessions = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      throw createError('User not authenticated', 401);
+    }
+
+    const sessions = await SessionService.listSessions(req.user.id, req.user.sessionId);
+
+    res.json({
+      success: true,
+      data: sessions,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const revokeSession = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      throw createError('User not authenticated', 401);
+    }
+
+    const revoked = await SessionService.revokeSession(req.user.id, req.params['id']!);
+    if (!revoked) {
+      throw createError('Session not found', 404);
+    }
+
+    logger.info(`Session ${req.params['id']} revoked for user: ${req.user.email}`);
+
+    res.json({
+      success: true,
+      message: 'Session revoked',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const revokeOtherSessions = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      throw createError('User not authenticated', 401);
+    }
+
+    const revoked = await SessionService.revokeAllSessions(req.user.id, req.user.sessionId);
+
+    res.json({
+      success: true,
+      data: { revoked },
+      message: 'Other sessions revoked',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const verifyEmail = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { token } = req.body;
+
+    await AccountService.verifyEmail(token);
+
+    res.json({
+      success: true,
+      message: 'Email verified successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const resendVerification = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      throw createError('User not authenticated', 401);
+    }
+
+    const user = await UserModel.findById(req.user.id);
+    if (!user) {
+      throw createError('User not found', 404);
+    }
+
+    if (user.isVerified) {
+      throw createError('Email is already verified', 400);
+    }
+
+    await AccountService.sendVerificationEmail(user.id, user.email, user.name);
+
+    res.json({
+      success: true,
+      message: 'Verification email sent',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const forgotPassword = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { email } = req.body;
+
+    await AccountService.requestPasswordReset(email);
+
+    // Same response whether or not the account exists
+    res.json({
+      success: true,
+      message: 'If an account exists for that email, a reset link has been sent',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const resetPassword = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { token, password } = req.body;
+
+    await AccountService.resetPassword(token, password);
+
+    res.json({
+      success: true,
+      message: 'Password reset successfully. Please sign in with your new password.',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
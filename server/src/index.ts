@@ -8,12 +8,31 @@ import { logger } from '@/utils/logger';
 import { errorHandler } from '@/middleware/errorHandler';
 import { notFoundHandler } from '@/middleware/notFoundHandler';
 import { initializeDatabase } from '@/utils/database';
+import { VectorDatabaseService } from '@/utils/vectorDatabase';
+import { getMailTransport } from '@/utils/mail';
+import { JobService } from '@/services/jobService';
+import { FeedService } from '@/services/feedService';
 import authRoutes from '@/routes/auth';
 import embeddingsRoutes from '@/routes/embeddings';
 import contextRoutes from '@/routes/context';
 import writingStyleRoutes from '@/routes/writingStyle';
 import linkedinRoutes from '@/routes/linkedin';
 import webSearchRoutes from '@/routes/webSearch';
+import contentRoutes from '@/routes/content';
+import projectRoutes from '@/routes/projects';
+import brandStrategyRoutes from '@/routes/brandStrategy';
+import accountRoutes from '@/routes/account';
+import intelligenceRoutes from '@/routes/intelligence';
+import feedRoutes from '@/routes/feeds';
+import ingestRoutes from '@/routes/ingest';
+import jobRoutes from '@/routes/jobs';
+import competitorRoutes from '@/routes/competitors';
+import mentionRoutes from '@/routes/mentions';
+import pipelineRoutes from '@/routes/pipeline';
+import notificationRoutes from '@/routes/notifications';
+import llmRoutes from '@/routes/llm';
+import generateRoutes from '@/routes/generate';
+import hashtagRoutes from '@/routes/hashtags';
 
 // Load environment variables
 dotenv.config();
@@ -39,6 +58,10 @@ app.use(cors({
   credentials: true,
 }));
 
+// Webhook signatures are checked against the exact bytes sent, so these
+// routes get the raw body and the JSON parser below leaves them alone
+app.use('/api/ingest/huginn', express.raw({ type: '*/*', limit: '1mb' }));
+
 // Body parsing middleware
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
@@ -80,6 +103,51 @@ app.use('/api/linkedin', linkedinRoutes);
 // Web search routes
 app.use('/api/web-search', webSearchRoutes);
 
+// Content library routes
+app.use('/api/content', contentRoutes);
+
+// Project routes
+app.use('/api/projects', projectRoutes);
+
+// Brand strategy routes
+app.use('/api/brand-strategy', brandStrategyRoutes);
+
+// Account data export and deletion
+app.use('/api/account', accountRoutes);
+
+// Intelligence feed routes
+app.use('/api/intelligence', intelligenceRoutes);
+
+// Feed subscription routes
+app.use('/api/feeds', feedRoutes);
+
+// Webhook ingestion and ingest source management
+app.use('/api/ingest', ingestRoutes);
+
+// Background job status and schedules
+app.use('/api/jobs', jobRoutes);
+
+// Competitor watchlist, snapshots and diffs
+app.use('/api/competitors', competitorRoutes);
+
+// Brand mentions and sentiment series
+app.use('/api/mentions', mentionRoutes);
+
+// Opportunity and threat pipeline
+app.use('/api/pipeline', pipelineRoutes);
+
+// In-app notifications, preferences and digests
+app.use('/api/notifications', notificationRoutes);
+
+// LLM models per task and usage accounting
+app.use('/api/llm', llmRoutes);
+
+// Voice-conditioned content generation
+app.use('/api/generate', generateRoutes);
+
+// Hashtag recommendations from history, trends and brand strategy
+app.use('/api/hashtags', hashtagRoutes);
+
 // Error handling middleware
 app.use(notFoundHandler);
 app.use(errorHandler);
@@ -90,6 +158,18 @@ const startServer = async () => {
     // Initialize PostgreSQL database
     await initializeDatabase();
     logger.info('Using PostgreSQL database');
+
+    // Fail fast when no mail transport is configured
+    getMailTransport();
+
+    // Resize the embedding column if the configured provider changed
+    await VectorDatabaseService.ensureEmbeddingDimensions();
+
+    // Run queued and scheduled background jobs, including intelligence cleanup
+    JobService.scheduleWorker();
+
+    // Poll subscribed feeds for new entries
+    FeedService.schedulePolling();
     
     app.listen(PORT, () => {
       logger.info(`🚀 ANIDHI Server running on port ${PORT}`);
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyToken, extractTokenFromHeader } from '@/utils/auth';
 import { UserModel } from '@/models/User';
+import { SessionService } from '@/services/sessionService';
 import { createError } from '@/middleware/errorHandler';
 import { JWTPayload } from '@/types';
 
@@ -12,6 +13,7 @@ declare global {
         id: string;
         email: string;
         name: string;
+        sessionId?: string;
       };
     }
   }
@@ -26,6 +28,11 @@ export const authenticateToken = async (req: Request, res: Response, next: NextF
     }
 
     const decoded: JWTPayload = verifyToken(token);
+
+    // Access tokens stop working as soon as their session is revoked
+    if (decoded.sessionId && !(await SessionService.isSessionActive(decoded.sessionId))) {
+      throw createError('Session has been revoked', 401);
+    }
     
     // Verify user still exists
     const user = await UserModel.findById(decoded.userId);
@@ -41,6 +48,7 @@ export const authenticateToken = async (req: Request, res: Response, next: NextF
       id: user.id,
       email: user.email,
       name: user.name,
+      ...(decoded.sessionId && { sessionId: decoded.sessionId }),
     };
 
     next();
@@ -0,0 +1,70 @@
+import { db } from '@/utils/database';
+import { AuthToken, AuthTokenPurpose } from '@/types';
+
+export class AuthTokenModel {
+  static async create(tokenData: Pick<AuthToken, 'userId' | 'purpose' | 'expiresAt'>): Promise<AuthToken> {
+    const query = `
+      INSERT INTO auth_tokens (user_id, purpose, expires_at)
+      VALUES ($1, $2, $3)
+      RETURNING *
+    `;
+
+    const result = await db.query(query, [tokenData.userId, tokenData.purpose, tokenData.expiresAt]);
+    const token = result.rows[0];
+
+    return {
+      id: token.id,
+      userId: token.user_id,
+      purpose: token.purpose,
+      expiresAt: token.expires_at,
+      usedAt: token.used_at,
+      createdAt: token.created_at,
+    };
+  }
+
+  /**
+   * Mark a token as used. Returns null if it does not exist, has the wrong
+   * purpose, has expired or was already used, so each token works once.
+   */
+  static async consume(id: string, purpose: AuthTokenPurpose): Promise<AuthToken | null> {
+    const query = `
+      UPDATE auth_tokens SET used_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND purpose = $2 AND used_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+      RETURNING *
+    `;
+
+    const result = await db.query(query, [id, purpose]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const token = result.rows[0];
+    return {
+      id: token.id,
+      userId: token.user_id,
+      purpose: token.purpose,
+      expiresAt: token.expires_at,
+      usedAt: token.used_at,
+      createdAt: token.created_at,
+    };
+  }
+
+  /**
+   * Invalidate a user's outstanding tokens for a purpose, e.g. before issuing a new one
+   */
+  static async invalidateForUser(userId: string, purpose: AuthTokenPurpose): Promise<number> {
+    const query = `
+      UPDATE auth_tokens SET used_at = CURRENT_TIMESTAMP
+      WHERE user_id = $1 AND purpose = $2 AND used_at IS NULL
+    `;
+
+    const result = await db.query(query, [userId, purpose]);
+    return result.rowCount ?? 0;
+  }
+
+  static async deleteExpired(): Promise<number> {
+    const result = await db.query('DELETE FROM auth_tokens WHERE expires_at < CURRENT_TIMESTAMP');
+    return result.rowCount ?? 0;
+  }
+}
@@ -0,0 +1,221 @@
+import { db } from '@/utils/database';
+import { BrandMention, BrandMentionFilters, BrandMentionSummary, SentimentSeriesPoint } from '@/types';
+
+// Day a mention belongs to in series and date filters
+const MENTION_DAY = 'COALESCE(published_at, created_at)';
+
+export class BrandMentionModel {
+  /**
+   * Store mentions of a brand, skipping URLs already recorded for it.
+   * Returns only the mentions that were new.
+   */
+  static async createMany(userId: string, brand: string, mentions: Omit<BrandMention, 'id' | 'userId' | 'brand' | 'createdAt'>[]): Promise<BrandMention[]> {
+    const query = `
+      INSERT INTO brand_mentions (user_id, brand, keyword, url, title, snippet, source, sentiment, sentiment_score, published_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      ON CONFLICT (user_id, (LOWER(brand)), url) DO NOTHING
+      RETURNING *
+    `;
+
+    const created: BrandMention[] = [];
+    for (const mentionData of mentions) {
+      const result = await db.query(query, [
+        userId,
+        brand,
+        mentionData.keyword || null,
+        mentionData.url,
+        mentionData.title,
+        mentionData.snippet || null,
+        mentionData.source,
+        mentionData.sentiment,
+        mentionData.sentimentScore,
+        mentionData.publishedAt || null
+      ]);
+      if (result.rows.length === 0) {
+        continue;
+      }
+
+      const mention = result.rows[0];
+      created.push({
+        id: mention.id,
+        userId: mention.user_id,
+        brand: mention.brand,
+        keyword: mention.keyword,
+        url: mention.url,
+        title: mention.title,
+        snippet: mention.snippet,
+        source: mention.source,
+        sentiment: mention.sentiment,
+        sentimentScore: parseFloat(mention.sentiment_score),
+        publishedAt: mention.published_at,
+        createdAt: mention.created_at,
+      });
+    }
+
+    return created;
+  }
+
+  /**
+   * Page through a user's mentions, newest first
+   */
+  static async findByUserId(userId: string, filters: BrandMentionFilters = {}): Promise<{ mentions: BrandMention[]; total: number }> {
+    const conditions = ['user_id = $1'];
+    const values: any[] = [userId];
+    let paramCount = 2;
+
+    if (filters.brand) {
+      conditions.push(`LOWER(brand) = LOWER($${paramCount++})`);
+      values.push(filters.brand);
+    }
+    if (filters.keyword) {
+      conditions.push(`LOWER(keyword) = LOWER($${paramCount++})`);
+      values.push(filters.keyword);
+    }
+    if (filters.sentiment) {
+      conditions.push(`sentiment = $${paramCount++}`);
+      values.push(filters.sentiment);
+    }
+    if (filters.from) {
+      conditions.push(`${MENTION_DAY} >= $${paramCount++}`);
+      values.push(filters.from);
+    }
+    if (filters.to) {
+      conditions.push(`${MENTION_DAY} < $${paramCount++}`);
+      values.push(filters.to);
+    }
+
+    values.push(filters.limit ?? 50, filters.offset ?? 0);
+
+    const query = `
+      SELECT *, COUNT(*) OVER() AS total_count FROM brand_mentions
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY ${MENTION_DAY} DESC
+      LIMIT $${paramCount++} OFFSET $${paramCount}
+    `;
+
+    const result = await db.query(query, values);
+
+    return {
+      mentions: result.rows.map(mention => ({
+        id: mention.id,
+        userId: mention.user_id,
+        brand: mention.brand,
+        keyword: mention.keyword,
+        url: mention.url,
+        title: mention.title,
+        snippet: mention.snippet,
+        source: mention.source,
+        sentiment: mention.sentiment,
+        sentimentScore: parseFloat(mention.sentiment_score),
+        publishedAt: mention.published_at,
+        createdAt: mention.created_at,
+      })),
+      total: result.rows.length > 0 ? parseInt(result.rows[0].total_count) : 0
+    };
+  }
+
+  /**
+   * Mention counts per sentiment for each UTC day since `from` that has any
+   */
+  static async dailySeries(userId: string, from: Date, filters: Pick<BrandMentionFilters, 'brand' | 'keyword'> = {}): Promise<SentimentSeriesPoint[]> {
+    const conditions = ['user_id = $1', `${MENTION_DAY} >= $2`];
+    const values: any[] = [userId, from];
+    let paramCount = 3;
+
+    if (filters.brand) {
+      conditions.push(`LOWER(brand) = LOWER($${paramCount++})`);
+      values.push(filters.brand);
+    }
+    if (filters.keyword) {
+      conditions.push(`LOWER(keyword) = LOWER($${paramCount++})`);
+      values.push(filters.keyword);
+    }
+
+    const query = `
+      SELECT
+        TO_CHAR(DATE_TRUNC('day', ${MENTION_DAY}), 'YYYY-MM-DD') AS date,
+        COUNT(*) FILTER (WHERE sentiment = 'positive') AS positive,
+        COUNT(*) FILTER (WHERE sentiment = 'negative') AS negative,
+        COUNT(*) FILTER (WHERE sentiment = 'neutral') AS neutral,
+        COUNT(*) AS total,
+        AVG(sentiment_score) AS average_score
+      FROM brand_mentions
+      WHERE ${conditions.join(' AND ')}
+      GROUP BY 1
+      ORDER BY 1
+    `;
+
+    const result = await db.query(query, values);
+    return result.rows.map(row => ({
+      date: row.date,
+      positive: parseInt(row.positive),
+      negative: parseInt(row.negative),
+      neutral: parseInt(row.neutral),
+      total: parseInt(row.total),
+      averageScore: Math.round(parseFloat(row.average_score) * 100) / 100,
+    }));
+  }
+
+  /**
+   * Most frequent sources and the keywords matched since `from`
+   */
+  static async summarize(userId: string, from: Date, filters: Pick<BrandMentionFilters, 'brand' | 'keyword'> = {}): Promise<{ sources: string[]; keywords: string[] }> {
+    const conditions = ['user_id = $1', `${MENTION_DAY} >= $2`];
+    const values: any[] = [userId, from];
+    let paramCount = 3;
+
+    if (filters.brand) {
+      conditions.push(`LOWER(brand) = LOWER($${paramCount++})`);
+      values.push(filters.brand);
+    }
+    if (filters.keyword) {
+      conditions.push(`LOWER(keyword) = LOWER($${paramCount++})`);
+      values.push(filters.keyword);
+    }
+
+    const query = `
+      SELECT
+        ARRAY(
+          SELECT source FROM brand_mentions WHERE ${conditions.join(' AND ')}
+          GROUP BY source ORDER BY COUNT(*) DESC, source LIMIT 5
+        ) AS sources,
+        ARRAY(
+          SELECT DISTINCT keyword FROM brand_mentions WHERE ${conditions.join(' AND ')} AND keyword IS NOT NULL
+          ORDER BY keyword
+        ) AS keywords
+    `;
+
+    const result = await db.query(query, values);
+    return {
+      sources: result.rows[0].sources,
+      keywords: result.rows[0].keywords,
+    };
+  }
+
+  /**
+   * Every brand the user monitors, with its keywords and mention counts
+   */
+  static async findBrands(userId: string): Promise<BrandMentionSummary[]> {
+    const query = `
+      SELECT
+        MIN(brand) AS brand,
+        COALESCE(ARRAY_AGG(DISTINCT keyword) FILTER (WHERE keyword IS NOT NULL), '{}') AS keywords,
+        COUNT(*) AS total,
+        COUNT(*) FILTER (WHERE sentiment = 'negative') AS negative,
+        MAX(created_at) AS last_seen_at
+      FROM brand_mentions
+      WHERE user_id = $1
+      GROUP BY LOWER(brand)
+      ORDER BY MAX(created_at) DESC
+    `;
+
+    const result = await db.query(query, [userId]);
+    return result.rows.map(row => ({
+      brand: row.brand,
+      keywords: row.keywords,
+      total: parseInt(row.total),
+      negative: parseInt(row.negative),
+      lastSeenAt: row.last_seen_at,
+    }));
+  }
+}
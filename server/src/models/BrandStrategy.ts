@@ -2,10 +2,12 @@ import { db } from '@/utils/database';
 import { BrandStrategy } from '@/types';
 
 export class BrandStrategyModel {
-  static async create(strategyData: Omit<BrandStrategy, 'id' | 'createdAt' | 'updatedAt'>): Promise<BrandStrategy> {
+  static async create(strategyData: Omit<BrandStrategy, 'id' | 'version' | 'createdAt' | 'updatedAt'>): Promise<BrandStrategy> {
+    // Each strategy is a new version numbered per user
     const query = `
-      INSERT INTO brand_strategy (user_id, core_message, target_audience, content_pillars, voice_and_tone, platform_strategy, is_active)
-      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      INSERT INTO brand_strategy (user_id, core_message, target_audience, content_pillars, voice_and_tone, platform_strategy, is_active, parent_id, version)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8,
+        (SELECT COALESCE(MAX(version), 0) + 1 FROM brand_strategy WHERE user_id = $1))
       RETURNING *
     `;
     
@@ -16,7 +18,8 @@ export class BrandStrategyModel {
       strategyData.contentPillars,
       JSON.stringify(strategyData.voiceAndTone),
       JSON.stringify(strategyData.platformStrategy),
-      strategyData.isActive
+      strategyData.isActive,
+      strategyData.parentId || null
     ];
     
     const result = await db.query(query, values);
@@ -31,6 +34,8 @@ export class BrandStrategyModel {
       voiceAndTone: strategy.voice_and_tone,
       platformStrategy: strategy.platform_strategy,
       isActive: strategy.is_active,
+      version: strategy.version,
+      parentId: strategy.parent_id,
       createdAt: strategy.created_at,
       updatedAt: strategy.updated_at,
     };
@@ -40,7 +45,7 @@ export class BrandStrategyModel {
     const query = `
       SELECT * FROM brand_strategy 
       WHERE user_id = $1 
-      ORDER BY is_active DESC, created_at DESC
+      ORDER BY is_active DESC, version DESC
     `;
     
     const result = await db.query(query, [userId]);
@@ -54,6 +59,8 @@ export class BrandStrategyModel {
       voiceAndTone: strategy.voice_and_tone,
       platformStrategy: strategy.platform_strategy,
       isActive: strategy.is_active,
+      version: strategy.version,
+      parentId: strategy.parent_id,
       createdAt: strategy.created_at,
       updatedAt: strategy.updated_at,
     }));
@@ -77,6 +84,8 @@ export class BrandStrategyModel {
       voiceAndTone: strategy.voice_and_tone,
       platformStrategy: strategy.platform_strategy,
       isActive: strategy.is_active,
+      version: strategy.version,
+      parentId: strategy.parent_id,
       createdAt: strategy.created_at,
       updatedAt: strategy.updated_at,
     };
@@ -106,6 +115,8 @@ export class BrandStrategyModel {
       voiceAndTone: strategy.voice_and_tone,
       platformStrategy: strategy.platform_strategy,
       isActive: strategy.is_active,
+      version: strategy.version,
+      parentId: strategy.parent_id,
       createdAt: strategy.created_at,
       updatedAt: strategy.updated_at,
     };
@@ -171,6 +182,8 @@ export class BrandStrategyModel {
       voiceAndTone: strategy.voice_and_tone,
       platformStrategy: strategy.platform_strategy,
       isActive: strategy.is_active,
+      version: strategy.version,
+      parentId: strategy.parent_id,
       createdAt: strategy.created_at,
       updatedAt: strategy.updated_at,
     };
@@ -207,6 +220,8 @@ export class BrandStrategyModel {
       voiceAndTone: strategy.voice_and_tone,
       platformStrategy: strategy.platform_strategy,
       isActive: strategy.is_active,
+      version: strategy.version,
+      parentId: strategy.parent_id,
       createdAt: strategy.created_at,
       updatedAt: strategy.updated_at,
     };
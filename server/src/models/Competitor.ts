@@ -0,0 +1,284 @@
+import { db } from '@/utils/database';
+import { Competitor, CompetitorSnapshot } from '@/types';
+
+export class CompetitorModel {
+  static async create(competitorData: Pick<Competitor, 'userId' | 'name' | 'industry'> & Partial<Pick<Competitor, 'domain'>>): Promise<Competitor> {
+    const query = `
+      INSERT INTO competitors (user_id, name, domain, industry)
+      VALUES ($1, $2, $3, $4)
+      RETURNING *
+    `;
+
+    const values = [
+      competitorData.userId,
+      competitorData.name,
+      competitorData.domain || null,
+      competitorData.industry
+    ];
+
+    const result = await db.query(query, values);
+    const competitor = result.rows[0];
+
+    return {
+      id: competitor.id,
+      userId: competitor.user_id,
+      name: competitor.name,
+      domain: competitor.domain,
+      industry: competitor.industry,
+      isActive: competitor.is_active,
+      vectorDocumentId: competitor.vector_document_id,
+      lastSnapshotAt: competitor.last_snapshot_at,
+      createdAt: competitor.created_at,
+      updatedAt: competitor.updated_at,
+    };
+  }
+
+  static async findById(id: string): Promise<Competitor | null> {
+    const result = await db.query('SELECT * FROM competitors WHERE id = $1', [id]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const competitor = result.rows[0];
+    return {
+      id: competitor.id,
+      userId: competitor.user_id,
+      name: competitor.name,
+      domain: competitor.domain,
+      industry: competitor.industry,
+      isActive: competitor.is_active,
+      vectorDocumentId: competitor.vector_document_id,
+      lastSnapshotAt: competitor.last_snapshot_at,
+      createdAt: competitor.created_at,
+      updatedAt: competitor.updated_at,
+    };
+  }
+
+  /**
+   * Names are matched case-insensitively, as the unique index does
+   */
+  static async findByName(userId: string, name: string): Promise<Competitor | null> {
+    const result = await db.query('SELECT * FROM competitors WHERE user_id = $1 AND LOWER(name) = LOWER($2)', [userId, name]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const competitor = result.rows[0];
+    return {
+      id: competitor.id,
+      userId: competitor.user_id,
+      name: competitor.name,
+      domain: competitor.domain,
+      industry: competitor.industry,
+      isActive: competitor.is_active,
+      vectorDocumentId: competitor.vector_document_id,
+      lastSnapshotAt: competitor.last_snapshot_at,
+      createdAt: competitor.created_at,
+      updatedAt: competitor.updated_at,
+    };
+  }
+
+  static async findByUserId(userId: string, activeOnly: boolean = false): Promise<Competitor[]> {
+    const query = `
+      SELECT * FROM competitors
+      WHERE user_id = $1 ${activeOnly ? 'AND is_active = true' : ''}
+      ORDER BY name ASC
+    `;
+    const result = await db.query(query, [userId]);
+    return result.rows.map(competitor => ({
+      id: competitor.id,
+      userId: competitor.user_id,
+      name: competitor.name,
+      domain: competitor.domain,
+      industry: competitor.industry,
+      isActive: competitor.is_active,
+      vectorDocumentId: competitor.vector_document_id,
+      lastSnapshotAt: competitor.last_snapshot_at,
+      createdAt: competitor.created_at,
+      updatedAt: competitor.updated_at,
+    }));
+  }
+
+  static async update(id: string, updates: Partial<Pick<Competitor, 'domain' | 'industry' | 'isActive' | 'vectorDocumentId'>>): Promise<Competitor | null> {
+    const fields: string[] = [];
+    const values: any[] = [];
+    let paramCount = 1;
+
+    if (updates.domain !== undefined) {
+      fields.push(`domain = $${paramCount++}`);
+      values.push(updates.domain || null);
+    }
+    if (updates.industry !== undefined) {
+      fields.push(`industry = $${paramCount++}`);
+      values.push(updates.industry);
+    }
+    if (updates.isActive !== undefined) {
+      fields.push(`is_active = $${paramCount++}`);
+      values.push(updates.isActive);
+    }
+    if (updates.vectorDocumentId !== undefined) {
+      fields.push(`vector_document_id = $${paramCount++}`);
+      values.push(updates.vectorDocumentId);
+    }
+
+    if (fields.length === 0) {
+      return this.findById(id);
+    }
+
+    fields.push(`updated_at = CURRENT_TIMESTAMP`);
+    values.push(id);
+
+    const query = `
+      UPDATE competitors
+      SET ${fields.join(', ')}
+      WHERE id = $${paramCount}
+      RETURNING *
+    `;
+
+    const result = await db.query(query, values);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const competitor = result.rows[0];
+    return {
+      id: competitor.id,
+      userId: competitor.user_id,
+      name: competitor.name,
+      domain: competitor.domain,
+      industry: competitor.industry,
+      isActive: competitor.is_active,
+      vectorDocumentId: competitor.vector_document_id,
+      lastSnapshotAt: competitor.last_snapshot_at,
+      createdAt: competitor.created_at,
+      updatedAt: competitor.updated_at,
+    };
+  }
+
+  static async delete(id: string): Promise<boolean> {
+    const result = await db.query('DELETE FROM competitors WHERE id = $1', [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+}
+
+export class CompetitorSnapshotModel {
+  /**
+   * Store a snapshot and mark it as the competitor's latest
+   */
+  static async create(snapshotData: Omit<CompetitorSnapshot, 'id' | 'capturedAt'>): Promise<CompetitorSnapshot> {
+    const client = await db.connect();
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(`
+        INSERT INTO competitor_snapshots (competitor_id, key_topics, content_frequency, recent_post_count, social_presence, recent_content)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        RETURNING *
+      `, [
+        snapshotData.competitorId,
+        snapshotData.keyTopics,
+        snapshotData.contentFrequency,
+        snapshotData.recentPostCount,
+        JSON.stringify(snapshotData.socialPresence),
+        JSON.stringify(snapshotData.recentContent)
+      ]);
+      const snapshot = result.rows[0];
+
+      await client.query(
+        'UPDATE competitors SET last_snapshot_at = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+        [snapshotData.competitorId, snapshot.captured_at]
+      );
+
+      await client.query('COMMIT');
+
+      return {
+        id: snapshot.id,
+        competitorId: snapshot.competitor_id,
+        keyTopics: snapshot.key_topics,
+        contentFrequency: snapshot.content_frequency,
+        recentPostCount: snapshot.recent_post_count,
+        socialPresence: snapshot.social_presence,
+        recentContent: snapshot.recent_content,
+        capturedAt: snapshot.captured_at,
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async findById(id: string): Promise<CompetitorSnapshot | null> {
+    const result = await db.query('SELECT * FROM competitor_snapshots WHERE id = $1', [id]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const snapshot = result.rows[0];
+    return {
+      id: snapshot.id,
+      competitorId: snapshot.competitor_id,
+      keyTopics: snapshot.key_topics,
+      contentFrequency: snapshot.content_frequency,
+      recentPostCount: snapshot.recent_post_count,
+      socialPresence: snapshot.social_presence,
+      recentContent: snapshot.recent_content,
+      capturedAt: snapshot.captured_at,
+    };
+  }
+
+  /**
+   * Newest snapshots first
+   */
+  static async findByCompetitorId(competitorId: string, limit: number = 20): Promise<CompetitorSnapshot[]> {
+    const query = `
+      SELECT * FROM competitor_snapshots
+      WHERE competitor_id = $1
+      ORDER BY captured_at DESC
+      LIMIT $2
+    `;
+    const result = await db.query(query, [competitorId, limit]);
+    return result.rows.map(snapshot => ({
+      id: snapshot.id,
+      competitorId: snapshot.competitor_id,
+      keyTopics: snapshot.key_topics,
+      contentFrequency: snapshot.content_frequency,
+      recentPostCount: snapshot.recent_post_count,
+      socialPresence: snapshot.social_presence,
+      recentContent: snapshot.recent_content,
+      capturedAt: snapshot.captured_at,
+    }));
+  }
+
+  /**
+   * The latest snapshot taken at or before a point in time, falling back to
+   * the oldest one when the competitor wasn't tracked yet
+   */
+  static async findBaseline(competitorId: string, at: Date): Promise<CompetitorSnapshot | null> {
+    const query = `
+      SELECT * FROM competitor_snapshots
+      WHERE competitor_id = $1
+      ORDER BY (captured_at <= $2) DESC,
+        CASE WHEN captured_at <= $2 THEN captured_at END DESC,
+        captured_at ASC
+      LIMIT 1
+    `;
+    const result = await db.query(query, [competitorId, at]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const snapshot = result.rows[0];
+    return {
+      id: snapshot.id,
+      competitorId: snapshot.competitor_id,
+      keyTopics: snapshot.key_topics,
+      contentFrequency: snapshot.content_frequency,
+      recentPostCount: snapshot.recent_post_count,
+      socialPresence: snapshot.social_presence,
+      recentContent: snapshot.recent_content,
+      capturedAt: snapshot.captured_at,
+    };
+  }
+}
@@ -1,11 +1,11 @@
 import { db } from '@/utils/database';
-import { Content } from '@/types';
+import { Content, ContentFilters } from '@/types';
 
 export class ContentModel {
   static async create(contentData: Omit<Content, 'id' | 'createdAt' | 'updatedAt'>): Promise<Content> {
     const query = `
-      INSERT INTO content (user_id, platform, content_type, title, body, tags, brand_alignment, performance_score, status)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      INSERT INTO content (user_id, platform, content_type, title, body, tags, brand_alignment, performance_score, status, parent_id)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
       RETURNING *
     `;
     
@@ -18,7 +18,8 @@ export class ContentModel {
       contentData.tags,
       contentData.brandAlignment,
       contentData.performanceScore,
-      contentData.status
+      contentData.status,
+      contentData.parentId || null
     ];
     
     const result = await db.query(query, values);
@@ -35,6 +36,7 @@ export class ContentModel {
       brandAlignment: parseFloat(content.brand_alignment),
       performanceScore: parseFloat(content.performance_score),
       status: content.status,
+      parentId: content.parent_id,
       createdAt: content.created_at,
       updatedAt: content.updated_at,
     };
@@ -61,6 +63,7 @@ export class ContentModel {
       brandAlignment: parseFloat(content.brand_alignment),
       performanceScore: parseFloat(content.performance_score),
       status: content.status,
+      parentId: content.parent_id,
       createdAt: content.created_at,
       updatedAt: content.updated_at,
     }));
@@ -86,6 +89,7 @@ export class ContentModel {
       brandAlignment: parseFloat(content.brand_alignment),
       performanceScore: parseFloat(content.performance_score),
       status: content.status,
+      parentId: content.parent_id,
       createdAt: content.created_at,
       updatedAt: content.updated_at,
     };
@@ -161,6 +165,7 @@ export class ContentModel {
       brandAlignment: parseFloat(content.brand_alignment),
       performanceScore: parseFloat(content.performance_score),
       status: content.status,
+      parentId: content.parent_id,
       createdAt: content.created_at,
       updatedAt: content.updated_at,
     };
@@ -192,6 +197,7 @@ export class ContentModel {
       brandAlignment: parseFloat(content.brand_alignment),
       performanceScore: parseFloat(content.performance_score),
       status: content.status,
+      parentId: content.parent_id,
       createdAt: content.created_at,
       updatedAt: content.updated_at,
     }));
@@ -217,8 +223,93 @@ export class ContentModel {
       brandAlignment: parseFloat(content.brand_alignment),
       performanceScore: parseFloat(content.performance_score),
       status: content.status,
+      parentId: content.parent_id,
       createdAt: content.created_at,
       updatedAt: content.updated_at,
     }));
   }
+
+  static async findWithFilters(userId: string, filters: ContentFilters = {}): Promise<Content[]> {
+    const conditions = ['user_id = $1'];
+    const values: any[] = [userId];
+    let paramCount = 2;
+
+    if (filters.platform) {
+      conditions.push(`platform = $${paramCount++}`);
+      values.push(filters.platform);
+    }
+    if (filters.status) {
+      conditions.push(`status = $${paramCount++}`);
+      values.push(filters.status);
+    }
+    if (filters.tags && filters.tags.length > 0) {
+      conditions.push(`tags && $${paramCount++}`);
+      values.push(filters.tags);
+    }
+    if (filters.from) {
+      conditions.push(`created_at >= $${paramCount++}`);
+      values.push(filters.from);
+    }
+    if (filters.to) {
+      conditions.push(`created_at <= $${paramCount++}`);
+      values.push(filters.to);
+    }
+
+    values.push(filters.limit ?? 50, filters.offset ?? 0);
+
+    const query = `
+      SELECT * FROM content 
+      WHERE ${conditions.join(' AND ')} 
+      ORDER BY updated_at DESC 
+      LIMIT $${paramCount++} OFFSET $${paramCount}
+    `;
+    
+    const result = await db.query(query, values);
+    
+    return result.rows.map(content => ({
+      id: content.id,
+      userId: content.user_id,
+      platform: content.platform,
+      contentType: content.content_type,
+      title: content.title,
+      body: content.body,
+      tags: content.tags,
+      brandAlignment: parseFloat(content.brand_alignment),
+      performanceScore: parseFloat(content.performance_score),
+      status: content.status,
+      parentId: content.parent_id,
+      createdAt: content.created_at,
+      updatedAt: content.updated_at,
+    }));
+  }
+
+  static async findVariants(parentId: string): Promise<Content[]> {
+    const query = `
+      SELECT * FROM content 
+      WHERE parent_id = $1 
+      ORDER BY created_at ASC
+    `;
+    
+    const result = await db.query(query, [parentId]);
+    
+    return result.rows.map(content => ({
+      id: content.id,
+      userId: content.user_id,
+      platform: content.platform,
+      contentType: content.content_type,
+      title: content.title,
+      body: content.body,
+      tags: content.tags,
+      brandAlignment: parseFloat(content.brand_alignment),
+      performanceScore: parseFloat(content.performance_score),
+      status: content.status,
+      parentId: content.parent_id,
+      createdAt: content.created_at,
+      updatedAt: content.updated_at,
+    }));
+  }
+
+  static async archive(id: string): Promise<Content | null> {
+    return this.update(id, { status: 'archived' });
+  }
 }
\ No newline at end of file
@@ -0,0 +1,364 @@
+import { db } from '@/utils/database';
+import { FeedEntry, FeedSubscription } from '@/types';
+
+export class FeedSubscriptionModel {
+  static async create(subscriptionData: Pick<FeedSubscription, 'userId' | 'url'> & Partial<Pick<FeedSubscription, 'title' | 'pollIntervalMinutes'>>): Promise<FeedSubscription> {
+    const query = `
+      INSERT INTO feed_subscriptions (user_id, url, title, poll_interval_minutes)
+      VALUES ($1, $2, $3, $4)
+      RETURNING *
+    `;
+
+    const values = [
+      subscriptionData.userId,
+      subscriptionData.url,
+      subscriptionData.title || null,
+      subscriptionData.pollIntervalMinutes ?? 60
+    ];
+
+    const result = await db.query(query, values);
+    const subscription = result.rows[0];
+
+    return {
+      id: subscription.id,
+      userId: subscription.user_id,
+      url: subscription.url,
+      title: subscription.title,
+      siteUrl: subscription.site_url,
+      format: subscription.format,
+      etag: subscription.etag,
+      lastModified: subscription.last_modified,
+      pollIntervalMinutes: subscription.poll_interval_minutes,
+      isActive: subscription.is_active,
+      lastPolledAt: subscription.last_polled_at,
+      lastError: subscription.last_error,
+      errorCount: subscription.error_count,
+      createdAt: subscription.created_at,
+      updatedAt: subscription.updated_at,
+    };
+  }
+
+  static async findById(id: string): Promise<FeedSubscription | null> {
+    const result = await db.query('SELECT * FROM feed_subscriptions WHERE id = $1', [id]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const subscription = result.rows[0];
+    return {
+      id: subscription.id,
+      userId: subscription.user_id,
+      url: subscription.url,
+      title: subscription.title,
+      siteUrl: subscription.site_url,
+      format: subscription.format,
+      etag: subscription.etag,
+      lastModified: subscription.last_modified,
+      pollIntervalMinutes: subscription.poll_interval_minutes,
+      isActive: subscription.is_active,
+      lastPolledAt: subscription.last_polled_at,
+      lastError: subscription.last_error,
+      errorCount: subscription.error_count,
+      createdAt: subscription.created_at,
+      updatedAt: subscription.updated_at,
+    };
+  }
+
+  static async findByUserAndUrl(userId: string, url: string): Promise<FeedSubscription | null> {
+    const result = await db.query('SELECT * FROM feed_subscriptions WHERE user_id = $1 AND url = $2', [userId, url]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const subscription = result.rows[0];
+    return {
+      id: subscription.id,
+      userId: subscription.user_id,
+      url: subscription.url,
+      title: subscription.title,
+      siteUrl: subscription.site_url,
+      format: subscription.format,
+      etag: subscription.etag,
+      lastModified: subscription.last_modified,
+      pollIntervalMinutes: subscription.poll_interval_minutes,
+      isActive: subscription.is_active,
+      lastPolledAt: subscription.last_polled_at,
+      lastError: subscription.last_error,
+      errorCount: subscription.error_count,
+      createdAt: subscription.created_at,
+      updatedAt: subscription.updated_at,
+    };
+  }
+
+  static async findByUserId(userId: string): Promise<FeedSubscription[]> {
+    const query = 'SELECT * FROM feed_subscriptions WHERE user_id = $1 ORDER BY created_at DESC';
+    const result = await db.query(query, [userId]);
+    return result.rows.map(subscription => ({
+      id: subscription.id,
+      userId: subscription.user_id,
+      url: subscription.url,
+      title: subscription.title,
+      siteUrl: subscription.site_url,
+      format: subscription.format,
+      etag: subscription.etag,
+      lastModified: subscription.last_modified,
+      pollIntervalMinutes: subscription.poll_interval_minutes,
+      isActive: subscription.is_active,
+      lastPolledAt: subscription.last_polled_at,
+      lastError: subscription.last_error,
+      errorCount: subscription.error_count,
+      createdAt: subscription.created_at,
+      updatedAt: subscription.updated_at,
+    }));
+  }
+
+  /**
+   * Active subscriptions whose poll interval has elapsed, least recently polled first
+   */
+  static async findDue(limit: number = 50): Promise<FeedSubscription[]> {
+    const query = `
+      SELECT * FROM feed_subscriptions
+      WHERE is_active = true
+        AND (last_polled_at IS NULL
+          OR last_polled_at + make_interval(mins => poll_interval_minutes) <= CURRENT_TIMESTAMP)
+      ORDER BY last_polled_at ASC NULLS FIRST
+      LIMIT $1
+    `;
+    const result = await db.query(query, [limit]);
+    return result.rows.map(subscription => ({
+      id: subscription.id,
+      userId: subscription.user_id,
+      url: subscription.url,
+      title: subscription.title,
+      siteUrl: subscription.site_url,
+      format: subscription.format,
+      etag: subscription.etag,
+      lastModified: subscription.last_modified,
+      pollIntervalMinutes: subscription.poll_interval_minutes,
+      isActive: subscription.is_active,
+      lastPolledAt: subscription.last_polled_at,
+      lastError: subscription.last_error,
+      errorCount: subscription.error_count,
+      createdAt: subscription.created_at,
+      updatedAt: subscription.updated_at,
+    }));
+  }
+
+  static async update(id: string, updates: Partial<Pick<FeedSubscription, 'title' | 'pollIntervalMinutes' | 'isActive'>>): Promise<FeedSubscription | null> {
+    const fields: string[] = [];
+    const values: any[] = [];
+    let paramCount = 1;
+
+    if (updates.title !== undefined) {
+      fields.push(`title = $${paramCount++}`);
+      values.push(updates.title);
+    }
+    if (updates.pollIntervalMinutes !== undefined) {
+      fields.push(`poll_interval_minutes = $${paramCount++}`);
+      values.push(updates.pollIntervalMinutes);
+    }
+    if (updates.isActive !== undefined) {
+      fields.push(`is_active = $${paramCount++}`);
+      values.push(updates.isActive);
+      if (updates.isActive) {
+        // Reactivating gives a failing feed a clean slate
+        fields.push('error_count = 0', 'last_error = NULL');
+      }
+    }
+
+    if (fields.length === 0) {
+      return this.findById(id);
+    }
+
+    fields.push(`updated_at = CURRENT_TIMESTAMP`);
+    values.push(id);
+
+    const query = `
+      UPDATE feed_subscriptions
+      SET ${fields.join(', ')}
+      WHERE id = $${paramCount}
+      RETURNING *
+    `;
+
+    const result = await db.query(query, values);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const subscription = result.rows[0];
+    return {
+      id: subscription.id,
+      userId: subscription.user_id,
+      url: subscription.url,
+      title: subscription.title,
+      siteUrl: subscription.site_url,
+      format: subscription.format,
+      etag: subscription.etag,
+      lastModified: subscription.last_modified,
+      pollIntervalMinutes: subscription.poll_interval_minutes,
+      isActive: subscription.is_active,
+      lastPolledAt: subscription.last_polled_at,
+      lastError: subscription.last_error,
+      errorCount: subscription.error_count,
+      createdAt: subscription.created_at,
+      updatedAt: subscription.updated_at,
+    };
+  }
+
+  /**
+   * Record a successful poll with the validators to send next time.
+   * Feed metadata is only overwritten when the fetch returned a new body.
+   */
+  static async recordPoll(id: string, poll: {
+    etag?: string | undefined;
+    lastModified?: string | undefined;
+    title?: string | undefined;
+    siteUrl?: string | undefined;
+    format?: string | undefined;
+  } = {}): Promise<FeedSubscription | null> {
+    const query = `
+      UPDATE feed_subscriptions
+      SET etag = COALESCE($2, etag),
+          last_modified = COALESCE($3, last_modified),
+          title = COALESCE(title, $4),
+          site_url = COALESCE($5, site_url),
+          format = COALESCE($6, format),
+          last_polled_at = CURRENT_TIMESTAMP,
+          last_error = NULL,
+          error_count = 0,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1
+      RETURNING *
+    `;
+
+    const result = await db.query(query, [
+      id,
+      poll.etag || null,
+      poll.lastModified || null,
+      poll.title || null,
+      poll.siteUrl || null,
+      poll.format || null
+    ]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const subscription = result.rows[0];
+    return {
+      id: subscription.id,
+      userId: subscription.user_id,
+      url: subscription.url,
+      title: subscription.title,
+      siteUrl: subscription.site_url,
+      format: subscription.format,
+      etag: subscription.etag,
+      lastModified: subscription.last_modified,
+      pollIntervalMinutes: subscription.poll_interval_minutes,
+      isActive: subscription.is_active,
+      lastPolledAt: subscription.last_polled_at,
+      lastError: subscription.last_error,
+      errorCount: subscription.error_count,
+      createdAt: subscription.created_at,
+      updatedAt: subscription.updated_at,
+    };
+  }
+
+  /**
+   * Record a failed poll. The subscription is paused after `maxErrors`
+   * consecutive failures.
+   */
+  static async recordError(id: string, message: string, maxErrors: number): Promise<FeedSubscription | null> {
+    const query = `
+      UPDATE feed_subscriptions
+      SET last_error = $2,
+          error_count = error_count + 1,
+          is_active = error_count + 1 < $3,
+          last_polled_at = CURRENT_TIMESTAMP,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1
+      RETURNING *
+    `;
+
+    const result = await db.query(query, [id, message, maxErrors]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const subscription = result.rows[0];
+    return {
+      id: subscription.id,
+      userId: subscription.user_id,
+      url: subscription.url,
+      title: subscription.title,
+      siteUrl: subscription.site_url,
+      format: subscription.format,
+      etag: subscription.etag,
+      lastModified: subscription.last_modified,
+      pollIntervalMinutes: subscription.poll_interval_minutes,
+      isActive: subscription.is_active,
+      lastPolledAt: subscription.last_polled_at,
+      lastError: subscription.last_error,
+      errorCount: subscription.error_count,
+      createdAt: subscription.created_at,
+      updatedAt: subscription.updated_at,
+    };
+  }
+
+  static async delete(id: string): Promise<boolean> {
+    const result = await db.query('DELETE FROM feed_subscriptions WHERE id = $1', [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Entries this subscription has not ingested before, matched by GUID or URL
+   */
+  static async filterUnseen(subscriptionId: string, entries: FeedEntry[]): Promise<FeedEntry[]> {
+    if (entries.length === 0) {
+      return [];
+    }
+
+    const query = `
+      SELECT guid, url FROM feed_items
+      WHERE subscription_id = $1 AND (guid = ANY($2) OR url = ANY($3))
+    `;
+    const result = await db.query(query, [
+      subscriptionId,
+      entries.map(entry => entry.guid),
+      entries.map(entry => entry.url).filter(Boolean)
+    ]);
+
+    const seen = new Set<string>();
+    for (const row of result.rows) {
+      seen.add(row.guid);
+      if (row.url) {
+        seen.add(row.url);
+      }
+    }
+
+    // Also drop repeats within the same document
+    return entries.filter(entry => {
+      if (seen.has(entry.guid) || (entry.url && seen.has(entry.url))) {
+        return false;
+      }
+      seen.add(entry.guid);
+      if (entry.url) {
+        seen.add(entry.url);
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Remember an ingested entry. Returns false if it was already recorded,
+   * e.g. by a concurrent poll.
+   */
+  static async markSeen(subscriptionId: string, entry: FeedEntry, intelligenceId?: string): Promise<boolean> {
+    const query = `
+      INSERT INTO feed_items (subscription_id, guid, url, intelligence_id)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (subscription_id, guid) DO NOTHING
+    `;
+    const result = await db.query(query, [subscriptionId, entry.guid, entry.url || null, intelligenceId || null]);
+    return (result.rowCount ?? 0) > 0;
+  }
+}
@@ -0,0 +1,299 @@
+import { db } from '@/utils/database';
+import { IngestDeadLetter, IngestSource } from '@/types';
+
+export class IngestSourceModel {
+  static async create(sourceData: Pick<IngestSource, 'userId' | 'name' | 'mapping'> & { secret: string }): Promise<IngestSource> {
+    const query = `
+      INSERT INTO ingest_sources (user_id, name, secret, mapping)
+      VALUES ($1, $2, $3, $4)
+      RETURNING *
+    `;
+
+    const values = [
+      sourceData.userId,
+      sourceData.name,
+      sourceData.secret,
+      JSON.stringify(sourceData.mapping)
+    ];
+
+    const result = await db.query(query, values);
+    const source = result.rows[0];
+
+    return {
+      id: source.id,
+      userId: source.user_id,
+      name: source.name,
+      mapping: source.mapping,
+      isActive: source.is_active,
+      lastEventAt: source.last_event_at,
+      createdAt: source.created_at,
+      updatedAt: source.updated_at,
+    };
+  }
+
+  static async findById(id: string): Promise<IngestSource | null> {
+    const result = await db.query('SELECT * FROM ingest_sources WHERE id = $1', [id]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const source = result.rows[0];
+    return {
+      id: source.id,
+      userId: source.user_id,
+      name: source.name,
+      mapping: source.mapping,
+      isActive: source.is_active,
+      lastEventAt: source.last_event_at,
+      createdAt: source.created_at,
+      updatedAt: source.updated_at,
+    };
+  }
+
+  static async findByUserId(userId: string): Promise<IngestSource[]> {
+    const query = 'SELECT * FROM ingest_sources WHERE user_id = $1 ORDER BY created_at DESC';
+    const result = await db.query(query, [userId]);
+    return result.rows.map(source => ({
+      id: source.id,
+      userId: source.user_id,
+      name: source.name,
+      mapping: source.mapping,
+      isActive: source.is_active,
+      lastEventAt: source.last_event_at,
+      createdAt: source.created_at,
+      updatedAt: source.updated_at,
+    }));
+  }
+
+  /**
+   * The signing secret is kept out of IngestSource so it can't leak into responses
+   */
+  static async findSecret(id: string): Promise<string | null> {
+    const result = await db.query('SELECT secret FROM ingest_sources WHERE id = $1', [id]);
+    return result.rows[0]?.secret ?? null;
+  }
+
+  static async update(id: string, updates: Partial<Pick<IngestSource, 'name' | 'mapping' | 'isActive'>>): Promise<IngestSource | null> {
+    const fields: string[] = [];
+    const values: any[] = [];
+    let paramCount = 1;
+
+    if (updates.name !== undefined) {
+      fields.push(`name = $${paramCount++}`);
+      values.push(updates.name);
+    }
+    if (updates.mapping !== undefined) {
+      fields.push(`mapping = $${paramCount++}`);
+      values.push(JSON.stringify(updates.mapping));
+    }
+    if (updates.isActive !== undefined) {
+      fields.push(`is_active = $${paramCount++}`);
+      values.push(updates.isActive);
+    }
+
+    if (fields.length === 0) {
+      return this.findById(id);
+    }
+
+    fields.push(`updated_at = CURRENT_TIMESTAMP`);
+    values.push(id);
+
+    const query = `
+      UPDATE ingest_sources
+      SET ${fields.join(', ')}
+      WHERE id = $${paramCount}
+      RETURNING *
+    `;
+
+    const result = await db.query(query, values);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const source = result.rows[0];
+    return {
+      id: source.id,
+      userId: source.user_id,
+      name: source.name,
+      mapping: source.mapping,
+      isActive: source.is_active,
+      lastEventAt: source.last_event_at,
+      createdAt: source.created_at,
+      updatedAt: source.updated_at,
+    };
+  }
+
+  static async updateSecret(id: string, secret: string): Promise<boolean> {
+    const query = 'UPDATE ingest_sources SET secret = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1';
+    const result = await db.query(query, [id, secret]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  static async touch(id: string): Promise<void> {
+    await db.query('UPDATE ingest_sources SET last_event_at = CURRENT_TIMESTAMP WHERE id = $1', [id]);
+  }
+
+  static async delete(id: string): Promise<boolean> {
+    const result = await db.query('DELETE FROM ingest_sources WHERE id = $1', [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Claim an idempotency key before processing. Returns false when the key
+   * was already claimed, i.e. the event is a repeat delivery.
+   */
+  static async claimEvent(sourceId: string, idempotencyKey: string): Promise<boolean> {
+    const query = `
+      INSERT INTO ingest_events (source_id, idempotency_key)
+      VALUES ($1, $2)
+      ON CONFLICT (source_id, idempotency_key) DO NOTHING
+    `;
+    const result = await db.query(query, [sourceId, idempotencyKey]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  static async completeEvent(sourceId: string, idempotencyKey: string, recordType: string, recordId: string): Promise<void> {
+    const query = `
+      UPDATE ingest_events SET record_type = $3, record_id = $4
+      WHERE source_id = $1 AND idempotency_key = $2
+    `;
+    await db.query(query, [sourceId, idempotencyKey, recordType, recordId]);
+  }
+
+  /**
+   * Give up a claim so a later delivery of the same event is processed
+   */
+  static async releaseEvent(sourceId: string, idempotencyKey: string): Promise<void> {
+    await db.query('DELETE FROM ingest_events WHERE source_id = $1 AND idempotency_key = $2', [sourceId, idempotencyKey]);
+  }
+
+  static async findEvent(sourceId: string, idempotencyKey: string): Promise<{ recordType?: string; recordId?: string; createdAt: Date } | null> {
+    const query = 'SELECT * FROM ingest_events WHERE source_id = $1 AND idempotency_key = $2';
+    const result = await db.query(query, [sourceId, idempotencyKey]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const event = result.rows[0];
+    return {
+      recordType: event.record_type,
+      recordId: event.record_id,
+      createdAt: event.created_at,
+    };
+  }
+}
+
+export class IngestDeadLetterModel {
+  /**
+   * Store an event that could not be mapped. A repeat delivery of the same
+   * event updates the existing dead letter instead of adding another.
+   */
+  static async record(deadLetterData: Pick<IngestDeadLetter, 'sourceId' | 'idempotencyKey' | 'body' | 'error'>): Promise<IngestDeadLetter> {
+    const query = `
+      INSERT INTO ingest_dead_letters (source_id, idempotency_key, body, error)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (source_id, idempotency_key) DO UPDATE
+      SET body = EXCLUDED.body,
+          error = EXCLUDED.error,
+          attempts = ingest_dead_letters.attempts + 1,
+          last_attempt_at = CURRENT_TIMESTAMP,
+          resolved_at = NULL
+      RETURNING *
+    `;
+
+    const values = [
+      deadLetterData.sourceId,
+      deadLetterData.idempotencyKey,
+      deadLetterData.body,
+      deadLetterData.error
+    ];
+
+    const result = await db.query(query, values);
+    const deadLetter = result.rows[0];
+
+    return {
+      id: deadLetter.id,
+      sourceId: deadLetter.source_id,
+      idempotencyKey: deadLetter.idempotency_key,
+      body: deadLetter.body,
+      error: deadLetter.error,
+      attempts: deadLetter.attempts,
+      lastAttemptAt: deadLetter.last_attempt_at,
+      resolvedAt: deadLetter.resolved_at,
+      createdAt: deadLetter.created_at,
+    };
+  }
+
+  static async findById(id: string): Promise<IngestDeadLetter | null> {
+    const result = await db.query('SELECT * FROM ingest_dead_letters WHERE id = $1', [id]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const deadLetter = result.rows[0];
+    return {
+      id: deadLetter.id,
+      sourceId: deadLetter.source_id,
+      idempotencyKey: deadLetter.idempotency_key,
+      body: deadLetter.body,
+      error: deadLetter.error,
+      attempts: deadLetter.attempts,
+      lastAttemptAt: deadLetter.last_attempt_at,
+      resolvedAt: deadLetter.resolved_at,
+      createdAt: deadLetter.created_at,
+    };
+  }
+
+  /**
+   * Dead letters, oldest first. Resolved ones are left out unless asked for.
+   */
+  static async find(filters: { userId?: string; sourceId?: string; includeResolved?: boolean; limit?: number } = {}): Promise<IngestDeadLetter[]> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+    let paramCount = 1;
+
+    if (filters.userId) {
+      conditions.push(`s.user_id = $${paramCount++}`);
+      values.push(filters.userId);
+    }
+    if (filters.sourceId) {
+      conditions.push(`d.source_id = $${paramCount++}`);
+      values.push(filters.sourceId);
+    }
+    if (!filters.includeResolved) {
+      conditions.push('d.resolved_at IS NULL');
+    }
+
+    values.push(filters.limit ?? 100);
+
+    const query = `
+      SELECT d.* FROM ingest_dead_letters d
+      JOIN ingest_sources s ON s.id = d.source_id
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY d.created_at ASC
+      LIMIT $${paramCount}
+    `;
+
+    const result = await db.query(query, values);
+    return result.rows.map(deadLetter => ({
+      id: deadLetter.id,
+      sourceId: deadLetter.source_id,
+      idempotencyKey: deadLetter.idempotency_key,
+      body: deadLetter.body,
+      error: deadLetter.error,
+      attempts: deadLetter.attempts,
+      lastAttemptAt: deadLetter.last_attempt_at,
+      resolvedAt: deadLetter.resolved_at,
+      createdAt: deadLetter.created_at,
+    }));
+  }
+
+  static async resolve(sourceId: string, idempotencyKey: string): Promise<boolean> {
+    const query = `
+      UPDATE ingest_dead_letters SET resolved_at = CURRENT_TIMESTAMP
+      WHERE source_id = $1 AND idempotency_key = $2 AND resolved_at IS NULL
+    `;
+    const result = await db.query(query, [sourceId, idempotencyKey]);
+    return (result.rowCount ?? 0) > 0;
+  }
+}
@@ -1,11 +1,25 @@
 import { db } from '@/utils/database';
-import { IntelligenceData } from '@/types';
+import { IntelligenceData, IntelligenceDataInput, IntelligenceFeedFilters, IntelligenceStatus } from '@/types';
 
 export class IntelligenceDataModel {
-  static async create(intelligenceData: Omit<IntelligenceData, 'id' | 'createdAt' | 'updatedAt'>): Promise<IntelligenceData> {
+  /**
+   * Create an item. An item with the same fingerprint as an existing one
+   * refreshes that item instead, keeping its triage status; saved and
+   * acted-on items keep not expiring.
+   */
+  static async create(intelligenceData: IntelligenceDataInput): Promise<IntelligenceData> {
     const query = `
-      INSERT INTO intelligence_data (user_id, type, data, relevance_score, is_actionable, source, expires_at)
-      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      INSERT INTO intelligence_data (user_id, type, data, relevance_score, is_actionable, source, fingerprint, expires_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      ON CONFLICT (user_id, fingerprint) DO UPDATE SET
+        data = EXCLUDED.data,
+        relevance_score = EXCLUDED.relevance_score,
+        is_actionable = EXCLUDED.is_actionable,
+        expires_at = CASE
+          WHEN intelligence_data.status IN ('saved', 'acted_on') THEN NULL
+          ELSE EXCLUDED.expires_at
+        END,
+        updated_at = CURRENT_TIMESTAMP
       RETURNING *
     `;
     
@@ -16,6 +30,7 @@ export class IntelligenceDataModel {
       intelligenceData.relevanceScore,
       intelligenceData.isActionable,
       intelligenceData.source || null,
+      intelligenceData.fingerprint || null,
       intelligenceData.expiresAt || null
     ];
     
@@ -30,6 +45,9 @@ export class IntelligenceDataModel {
       relevanceScore: parseFloat(intelligence.relevance_score),
       isActionable: intelligence.is_actionable,
       source: intelligence.source,
+      fingerprint: intelligence.fingerprint,
+      status: intelligence.status,
+      statusChangedAt: intelligence.status_changed_at,
       expiresAt: intelligence.expires_at,
       createdAt: intelligence.created_at,
       updatedAt: intelligence.updated_at,
@@ -54,6 +72,9 @@ export class IntelligenceDataModel {
       relevanceScore: parseFloat(intelligence.relevance_score),
       isActionable: intelligence.is_actionable,
       source: intelligence.source,
+      fingerprint: intelligence.fingerprint,
+      status: intelligence.status,
+      statusChangedAt: intelligence.status_changed_at,
       expiresAt: intelligence.expires_at,
       createdAt: intelligence.created_at,
       updatedAt: intelligence.updated_at,
@@ -77,6 +98,9 @@ export class IntelligenceDataModel {
       relevanceScore: parseFloat(intelligence.relevance_score),
       isActionable: intelligence.is_actionable,
       source: intelligence.source,
+      fingerprint: intelligence.fingerprint,
+      status: intelligence.status,
+      statusChangedAt: intelligence.status_changed_at,
       expiresAt: intelligence.expires_at,
       createdAt: intelligence.created_at,
       updatedAt: intelligence.updated_at,
@@ -100,6 +124,9 @@ export class IntelligenceDataModel {
       relevanceScore: parseFloat(intelligence.relevance_score),
       isActionable: intelligence.is_actionable,
       source: intelligence.source,
+      fingerprint: intelligence.fingerprint,
+      status: intelligence.status,
+      statusChangedAt: intelligence.status_changed_at,
       expiresAt: intelligence.expires_at,
       createdAt: intelligence.created_at,
       updatedAt: intelligence.updated_at,
@@ -123,6 +150,9 @@ export class IntelligenceDataModel {
       relevanceScore: parseFloat(intelligence.relevance_score),
       isActionable: intelligence.is_actionable,
       source: intelligence.source,
+      fingerprint: intelligence.fingerprint,
+      status: intelligence.status,
+      statusChangedAt: intelligence.status_changed_at,
       expiresAt: intelligence.expires_at,
       createdAt: intelligence.created_at,
       updatedAt: intelligence.updated_at,
@@ -188,22 +218,142 @@ export class IntelligenceDataModel {
       relevanceScore: parseFloat(intelligence.relevance_score),
       isActionable: intelligence.is_actionable,
       source: intelligence.source,
+      fingerprint: intelligence.fingerprint,
+      status: intelligence.status,
+      statusChangedAt: intelligence.status_changed_at,
       expiresAt: intelligence.expires_at,
       createdAt: intelligence.created_at,
       updatedAt: intelligence.updated_at,
     };
   }
 
+  /**
+   * Move an item to a triage state. Saving or acting on an item keeps it
+   * past its expiry.
+   */
+  static async updateStatus(id: string, status: IntelligenceStatus): Promise<IntelligenceData | null> {
+    const query = `
+      UPDATE intelligence_data
+      SET status = $1,
+          status_changed_at = CURRENT_TIMESTAMP,
+          expires_at = CASE WHEN $1 IN ('saved', 'acted_on') THEN NULL ELSE expires_at END,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = $2
+      RETURNING *
+    `;
+
+    const result = await db.query(query, [status, id]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const intelligence = result.rows[0];
+    return {
+      id: intelligence.id,
+      userId: intelligence.user_id,
+      type: intelligence.type,
+      data: intelligence.data,
+      relevanceScore: parseFloat(intelligence.relevance_score),
+      isActionable: intelligence.is_actionable,
+      source: intelligence.source,
+      fingerprint: intelligence.fingerprint,
+      status: intelligence.status,
+      statusChangedAt: intelligence.status_changed_at,
+      expiresAt: intelligence.expires_at,
+      createdAt: intelligence.created_at,
+      updatedAt: intelligence.updated_at,
+    };
+  }
+
+  /**
+   * Unexpired items matching the feed filters, with the total before paging
+   */
+  static async findFeed(userId: string, filters: IntelligenceFeedFilters = {}): Promise<{ items: IntelligenceData[]; total: number }> {
+    const conditions = ['user_id = $1', '(expires_at IS NULL OR expires_at > CURRENT_TIMESTAMP)'];
+    const values: any[] = [userId];
+    let paramCount = 2;
+
+    if (filters.types && filters.types.length > 0) {
+      conditions.push(`type = ANY($${paramCount++})`);
+      values.push(filters.types);
+    }
+    if (filters.statuses && filters.statuses.length > 0) {
+      conditions.push(`status = ANY($${paramCount++})`);
+      values.push(filters.statuses);
+    }
+    if (filters.minRelevance !== undefined) {
+      conditions.push(`relevance_score >= $${paramCount++}`);
+      values.push(filters.minRelevance);
+    }
+    if (filters.actionableOnly) {
+      conditions.push('is_actionable = true');
+    }
+
+    const orderBy = filters.sort === 'recent'
+      ? 'created_at DESC'
+      : 'relevance_score DESC, created_at DESC';
+
+    values.push(filters.limit ?? 50, filters.offset ?? 0);
+
+    const query = `
+      SELECT *, COUNT(*) OVER() AS total_count FROM intelligence_data
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY ${orderBy}
+      LIMIT $${paramCount++} OFFSET $${paramCount}
+    `;
+
+    const result = await db.query(query, values);
+
+    return {
+      items: result.rows.map(intelligence => ({
+        id: intelligence.id,
+        userId: intelligence.user_id,
+        type: intelligence.type,
+        data: intelligence.data,
+        relevanceScore: parseFloat(intelligence.relevance_score),
+        isActionable: intelligence.is_actionable,
+        source: intelligence.source,
+        fingerprint: intelligence.fingerprint,
+        status: intelligence.status,
+        statusChangedAt: intelligence.status_changed_at,
+        expiresAt: intelligence.expires_at,
+        createdAt: intelligence.created_at,
+        updatedAt: intelligence.updated_at,
+      })),
+      total: result.rows.length > 0 ? parseInt(result.rows[0].total_count) : 0
+    };
+  }
+
+  /**
+   * Number of unexpired items in each triage state
+   */
+  static async countByStatus(userId: string): Promise<Record<IntelligenceStatus, number>> {
+    const query = `
+      SELECT status, COUNT(*) AS count FROM intelligence_data
+      WHERE user_id = $1 AND (expires_at IS NULL OR expires_at > CURRENT_TIMESTAMP)
+      GROUP BY status
+    `;
+
+    const result = await db.query(query, [userId]);
+
+    const counts: Record<IntelligenceStatus, number> = { new: 0, saved: 0, dismissed: 0, acted_on: 0 };
+    for (const row of result.rows) {
+      counts[row.status as IntelligenceStatus] = parseInt(row.count);
+    }
+    return counts;
+  }
+
   static async delete(id: string): Promise<boolean> {
     const query = 'DELETE FROM intelligence_data WHERE id = $1';
     const result = await db.query(query, [id]);
-    return result.rowCount > 0;
+    return (result.rowCount ?? 0) > 0;
   }
 
   static async cleanupExpired(): Promise<number> {
     const query = 'DELETE FROM intelligence_data WHERE expires_at IS NOT NULL AND expires_at <= CURRENT_TIMESTAMP';
     const result = await db.query(query);
-    return result.rowCount;
+    return result.rowCount ?? 0;
   }
 
   static async findHighRelevanceItems(userId: string, minScore: number = 0.7): Promise<IntelligenceData[]> {
@@ -223,6 +373,9 @@ export class IntelligenceDataModel {
       relevanceScore: parseFloat(intelligence.relevance_score),
       isActionable: intelligence.is_actionable,
       source: intelligence.source,
+      fingerprint: intelligence.fingerprint,
+      status: intelligence.status,
+      statusChangedAt: intelligence.status_changed_at,
       expiresAt: intelligence.expires_at,
       createdAt: intelligence.created_at,
       updatedAt: intelligence.updated_at,
@@ -0,0 +1,509 @@
+import { db } from '@/utils/database';
+import { nextCronRun } from '@/utils/cron';
+import { Job, JobSchedule, JobStatus, JobType } from '@/types';
+
+export class JobModel {
+  static async create(jobData: Pick<Job, 'type' | 'payload'> & Partial<Pick<Job, 'userId' | 'scheduleId' | 'maxAttempts' | 'runAt'>>): Promise<Job> {
+    const query = `
+      INSERT INTO jobs (user_id, schedule_id, type, payload, max_attempts, run_at)
+      VALUES ($1, $2, $3, $4, $5, COALESCE($6, CURRENT_TIMESTAMP))
+      RETURNING *
+    `;
+
+    const values = [
+      jobData.userId || null,
+      jobData.scheduleId || null,
+      jobData.type,
+      JSON.stringify(jobData.payload),
+      jobData.maxAttempts ?? 3,
+      jobData.runAt || null
+    ];
+
+    const result = await db.query(query, values);
+    const job = result.rows[0];
+
+    return {
+      id: job.id,
+      userId: job.user_id,
+      scheduleId: job.schedule_id,
+      type: job.type,
+      payload: job.payload,
+      status: job.status,
+      attempts: job.attempts,
+      maxAttempts: job.max_attempts,
+      runAt: job.run_at,
+      lockedAt: job.locked_at,
+      lastError: job.last_error,
+      result: job.result,
+      startedAt: job.started_at,
+      finishedAt: job.finished_at,
+      createdAt: job.created_at,
+      updatedAt: job.updated_at,
+    };
+  }
+
+  static async findById(id: string): Promise<Job | null> {
+    const result = await db.query('SELECT * FROM jobs WHERE id = $1', [id]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const job = result.rows[0];
+    return {
+      id: job.id,
+      userId: job.user_id,
+      scheduleId: job.schedule_id,
+      type: job.type,
+      payload: job.payload,
+      status: job.status,
+      attempts: job.attempts,
+      maxAttempts: job.max_attempts,
+      runAt: job.run_at,
+      lockedAt: job.locked_at,
+      lastError: job.last_error,
+      result: job.result,
+      startedAt: job.started_at,
+      finishedAt: job.finished_at,
+      createdAt: job.created_at,
+      updatedAt: job.updated_at,
+    };
+  }
+
+  static async findByUserId(userId: string, filters: { status?: JobStatus; type?: JobType; limit?: number } = {}): Promise<Job[]> {
+    const conditions = ['user_id = $1'];
+    const values: any[] = [userId];
+    let paramCount = 2;
+
+    if (filters.status) {
+      conditions.push(`status = $${paramCount++}`);
+      values.push(filters.status);
+    }
+    if (filters.type) {
+      conditions.push(`type = $${paramCount++}`);
+      values.push(filters.type);
+    }
+
+    values.push(filters.limit ?? 50);
+
+    const query = `
+      SELECT * FROM jobs
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY created_at DESC
+      LIMIT $${paramCount}
+    `;
+
+    const result = await db.query(query, values);
+    return result.rows.map(job => ({
+      id: job.id,
+      userId: job.user_id,
+      scheduleId: job.schedule_id,
+      type: job.type,
+      payload: job.payload,
+      status: job.status,
+      attempts: job.attempts,
+      maxAttempts: job.max_attempts,
+      runAt: job.run_at,
+      lockedAt: job.locked_at,
+      lastError: job.last_error,
+      result: job.result,
+      startedAt: job.started_at,
+      finishedAt: job.finished_at,
+      createdAt: job.created_at,
+      updatedAt: job.updated_at,
+    }));
+  }
+
+  /**
+   * Running jobs per type, for enforcing concurrency limits
+   */
+  static async countRunning(): Promise<Partial<Record<JobType, number>>> {
+    const result = await db.query("SELECT type, COUNT(*)::int AS count FROM jobs WHERE status = 'running' GROUP BY type");
+    const counts: Partial<Record<JobType, number>> = {};
+    for (const row of result.rows) {
+      counts[row.type as JobType] = row.count;
+    }
+    return counts;
+  }
+
+  /**
+   * Lock up to `limit` due jobs of a type and mark them running. Rows locked
+   * by another worker are skipped, so concurrent workers never share a job.
+   */
+  static async claim(type: JobType, limit: number): Promise<Job[]> {
+    const query = `
+      UPDATE jobs
+      SET status = 'running',
+          attempts = attempts + 1,
+          locked_at = CURRENT_TIMESTAMP,
+          started_at = CURRENT_TIMESTAMP,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id IN (
+        SELECT id FROM jobs
+        WHERE status = 'queued' AND type = $1 AND run_at <= CURRENT_TIMESTAMP
+        ORDER BY run_at ASC
+        LIMIT $2
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+
+    const result = await db.query(query, [type, limit]);
+    return result.rows.map(job => ({
+      id: job.id,
+      userId: job.user_id,
+      scheduleId: job.schedule_id,
+      type: job.type,
+      payload: job.payload,
+      status: job.status,
+      attempts: job.attempts,
+      maxAttempts: job.max_attempts,
+      runAt: job.run_at,
+      lockedAt: job.locked_at,
+      lastError: job.last_error,
+      result: job.result,
+      startedAt: job.started_at,
+      finishedAt: job.finished_at,
+      createdAt: job.created_at,
+      updatedAt: job.updated_at,
+    }));
+  }
+
+  /**
+   * Record a successful attempt. Claims are identified by their attempt
+   * number, so a worker whose lock timed out and whose job was claimed again
+   * cannot overwrite the newer run. Returns false when the claim was lost.
+   */
+  static async complete(id: string, attempt: number, jobResult: Record<string, any>): Promise<boolean> {
+    const query = `
+      UPDATE jobs
+      SET status = 'succeeded', result = $3, last_error = NULL, locked_at = NULL,
+          finished_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND attempts = $2 AND status = 'running'
+    `;
+    const result = await db.query(query, [id, attempt, JSON.stringify(jobResult)]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Record a failed attempt. With a retry time the job is queued again,
+   * otherwise it is failed for good. Returns false when the claim was lost.
+   */
+  static async fail(id: string, attempt: number, error: string, retryAt: Date | null): Promise<boolean> {
+    const query = retryAt
+      ? `
+        UPDATE jobs
+        SET status = 'queued', last_error = $3, run_at = $4, locked_at = NULL, updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1 AND attempts = $2 AND status = 'running'
+      `
+      : `
+        UPDATE jobs
+        SET status = 'failed', last_error = $3, locked_at = NULL,
+            finished_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1 AND attempts = $2 AND status = 'running'
+      `;
+    const result = await db.query(query, retryAt ? [id, attempt, error, retryAt] : [id, attempt, error]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Cancel a job that has not started yet
+   */
+  static async cancel(id: string): Promise<Job | null> {
+    const query = `
+      UPDATE jobs
+      SET status = 'cancelled', finished_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND status = 'queued'
+      RETURNING *
+    `;
+    const result = await db.query(query, [id]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const job = result.rows[0];
+    return {
+      id: job.id,
+      userId: job.user_id,
+      scheduleId: job.schedule_id,
+      type: job.type,
+      payload: job.payload,
+      status: job.status,
+      attempts: job.attempts,
+      maxAttempts: job.max_attempts,
+      runAt: job.run_at,
+      lockedAt: job.locked_at,
+      lastError: job.last_error,
+      result: job.result,
+      startedAt: job.started_at,
+      finishedAt: job.finished_at,
+      createdAt: job.created_at,
+      updatedAt: job.updated_at,
+    };
+  }
+
+  /**
+   * Return jobs whose worker died mid-run to the queue, or fail them if
+   * they are out of attempts
+   */
+  static async requeueStale(lockTimeoutMinutes: number): Promise<number> {
+    const query = `
+      UPDATE jobs
+      SET status = CASE WHEN attempts < max_attempts THEN 'queued' ELSE 'failed' END,
+          last_error = 'Worker stopped before the job finished',
+          finished_at = CASE WHEN attempts < max_attempts THEN NULL ELSE CURRENT_TIMESTAMP END,
+          locked_at = NULL,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE status = 'running' AND locked_at < CURRENT_TIMESTAMP - make_interval(mins => $1)
+    `;
+    const result = await db.query(query, [lockTimeoutMinutes]);
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Delete finished jobs older than the given number of days
+   */
+  static async cleanupFinished(olderThanDays: number): Promise<number> {
+    const query = `
+      DELETE FROM jobs
+      WHERE status IN ('succeeded', 'failed', 'cancelled')
+        AND finished_at < CURRENT_TIMESTAMP - make_interval(days => $1)
+    `;
+    const result = await db.query(query, [olderThanDays]);
+    return result.rowCount ?? 0;
+  }
+}
+
+export class JobScheduleModel {
+  static async create(scheduleData: Pick<JobSchedule, 'type' | 'payload' | 'cron'> & Partial<Pick<JobSchedule, 'userId'>>): Promise<JobSchedule> {
+    const query = `
+      INSERT INTO job_schedules (user_id, type, payload, cron, next_run_at)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING *
+    `;
+
+    const values = [
+      scheduleData.userId || null,
+      scheduleData.type,
+      JSON.stringify(scheduleData.payload),
+      scheduleData.cron,
+      nextCronRun(scheduleData.cron)
+    ];
+
+    const result = await db.query(query, values);
+    const schedule = result.rows[0];
+
+    return {
+      id: schedule.id,
+      userId: schedule.user_id,
+      type: schedule.type,
+      payload: schedule.payload,
+      cron: schedule.cron,
+      isActive: schedule.is_active,
+      nextRunAt: schedule.next_run_at,
+      lastRunAt: schedule.last_run_at,
+      createdAt: schedule.created_at,
+      updatedAt: schedule.updated_at,
+    };
+  }
+
+  /**
+   * Create or update the schedule of a system job. The next run is only
+   * recomputed when the cron expression changed.
+   */
+  static async upsertSystem(type: JobType, cron: string): Promise<JobSchedule> {
+    const query = `
+      INSERT INTO job_schedules (type, cron, next_run_at)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (type) WHERE user_id IS NULL DO UPDATE
+      SET cron = EXCLUDED.cron,
+          next_run_at = CASE WHEN job_schedules.cron = EXCLUDED.cron THEN job_schedules.next_run_at ELSE EXCLUDED.next_run_at END,
+          updated_at = CURRENT_TIMESTAMP
+      RETURNING *
+    `;
+
+    const result = await db.query(query, [type, cron, nextCronRun(cron)]);
+    const schedule = result.rows[0];
+
+    return {
+      id: schedule.id,
+      userId: schedule.user_id,
+      type: schedule.type,
+      payload: schedule.payload,
+      cron: schedule.cron,
+      isActive: schedule.is_active,
+      nextRunAt: schedule.next_run_at,
+      lastRunAt: schedule.last_run_at,
+      createdAt: schedule.created_at,
+      updatedAt: schedule.updated_at,
+    };
+  }
+
+  static async findById(id: string): Promise<JobSchedule | null> {
+    const result = await db.query('SELECT * FROM job_schedules WHERE id = $1', [id]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const schedule = result.rows[0];
+    return {
+      id: schedule.id,
+      userId: schedule.user_id,
+      type: schedule.type,
+      payload: schedule.payload,
+      cron: schedule.cron,
+      isActive: schedule.is_active,
+      nextRunAt: schedule.next_run_at,
+      lastRunAt: schedule.last_run_at,
+      createdAt: schedule.created_at,
+      updatedAt: schedule.updated_at,
+    };
+  }
+
+  static async findByUserId(userId: string): Promise<JobSchedule[]> {
+    const query = 'SELECT * FROM job_schedules WHERE user_id = $1 ORDER BY created_at DESC';
+    const result = await db.query(query, [userId]);
+    return result.rows.map(schedule => ({
+      id: schedule.id,
+      userId: schedule.user_id,
+      type: schedule.type,
+      payload: schedule.payload,
+      cron: schedule.cron,
+      isActive: schedule.is_active,
+      nextRunAt: schedule.next_run_at,
+      lastRunAt: schedule.last_run_at,
+      createdAt: schedule.created_at,
+      updatedAt: schedule.updated_at,
+    }));
+  }
+
+  static async update(id: string, updates: Partial<Pick<JobSchedule, 'cron' | 'payload' | 'isActive' | 'nextRunAt'>>): Promise<JobSchedule | null> {
+    const fields: string[] = [];
+    const values: any[] = [];
+    let paramCount = 1;
+
+    if (updates.cron !== undefined) {
+      fields.push(`cron = $${paramCount++}`);
+      values.push(updates.cron);
+    }
+    if (updates.payload !== undefined) {
+      fields.push(`payload = $${paramCount++}`);
+      values.push(JSON.stringify(updates.payload));
+    }
+    if (updates.isActive !== undefined) {
+      fields.push(`is_active = $${paramCount++}`);
+      values.push(updates.isActive);
+    }
+    if (updates.nextRunAt !== undefined) {
+      fields.push(`next_run_at = $${paramCount++}`);
+      values.push(updates.nextRunAt);
+    }
+
+    if (fields.length === 0) {
+      return this.findById(id);
+    }
+
+    fields.push(`updated_at = CURRENT_TIMESTAMP`);
+    values.push(id);
+
+    const query = `
+      UPDATE job_schedules
+      SET ${fields.join(', ')}
+      WHERE id = $${paramCount}
+      RETURNING *
+    `;
+
+    const result = await db.query(query, values);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const schedule = result.rows[0];
+    return {
+      id: schedule.id,
+      userId: schedule.user_id,
+      type: schedule.type,
+      payload: schedule.payload,
+      cron: schedule.cron,
+      isActive: schedule.is_active,
+      nextRunAt: schedule.next_run_at,
+      lastRunAt: schedule.last_run_at,
+      createdAt: schedule.created_at,
+      updatedAt: schedule.updated_at,
+    };
+  }
+
+  static async delete(id: string): Promise<boolean> {
+    const result = await db.query('DELETE FROM job_schedules WHERE id = $1', [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Queue a job for every active schedule that is due and move the schedule
+   * to its next run. A schedule whose previous job is still queued or running
+   * is skipped for this run rather than piling up jobs.
+   */
+  static async enqueueDue(limit: number = 100): Promise<Job[]> {
+    const client = await db.connect();
+    try {
+      await client.query('BEGIN');
+
+      const due = await client.query(`
+        SELECT * FROM job_schedules
+        WHERE is_active = true AND next_run_at <= CURRENT_TIMESTAMP
+        ORDER BY next_run_at ASC
+        LIMIT $1
+        FOR UPDATE SKIP LOCKED
+      `, [limit]);
+
+      const jobs: Job[] = [];
+      for (const schedule of due.rows) {
+        await client.query(
+          'UPDATE job_schedules SET next_run_at = $2, last_run_at = CURRENT_TIMESTAMP WHERE id = $1',
+          [schedule.id, nextCronRun(schedule.cron)]
+        );
+
+        const pending = await client.query(
+          "SELECT 1 FROM jobs WHERE schedule_id = $1 AND status IN ('queued', 'running') LIMIT 1",
+          [schedule.id]
+        );
+        if (pending.rows.length > 0) {
+          continue;
+        }
+
+        const result = await client.query(`
+          INSERT INTO jobs (user_id, schedule_id, type, payload)
+          VALUES ($1, $2, $3, $4)
+          RETURNING *
+        `, [schedule.user_id, schedule.id, schedule.type, JSON.stringify(schedule.payload)]);
+        const job = result.rows[0];
+
+        jobs.push({
+          id: job.id,
+          userId: job.user_id,
+          scheduleId: job.schedule_id,
+          type: job.type,
+          payload: job.payload,
+          status: job.status,
+          attempts: job.attempts,
+          maxAttempts: job.max_attempts,
+          runAt: job.run_at,
+          lockedAt: job.locked_at,
+          lastError: job.last_error,
+          result: job.result,
+          startedAt: job.started_at,
+          finishedAt: job.finished_at,
+          createdAt: job.created_at,
+          updatedAt: job.updated_at,
+        });
+      }
+
+      await client.query('COMMIT');
+      return jobs;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
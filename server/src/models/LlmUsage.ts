@@ -0,0 +1,81 @@
+import { db } from '@/utils/database';
+import { LlmTask, LlmUsageRecord, LlmUsageSummary, LlmUsageTotals } from '@/types';
+
+const toTotals = (row: any): LlmUsageTotals => ({
+  requests: parseInt(row.requests),
+  inputTokens: parseInt(row.input_tokens),
+  outputTokens: parseInt(row.output_tokens),
+  costUsd: parseFloat(row.cost_usd),
+});
+
+export class LlmUsageModel {
+  static async create(usageData: Omit<LlmUsageRecord, 'id' | 'createdAt'>): Promise<LlmUsageRecord> {
+    const query = `
+      INSERT INTO llm_usage (user_id, task, provider, model, input_tokens, output_tokens, cost_usd)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING *
+    `;
+
+    const values = [
+      usageData.userId,
+      usageData.task,
+      usageData.provider,
+      usageData.model,
+      usageData.inputTokens,
+      usageData.outputTokens,
+      usageData.costUsd
+    ];
+
+    const result = await db.query(query, values);
+    const usage = result.rows[0];
+
+    return {
+      id: usage.id,
+      userId: usage.user_id,
+      task: usage.task,
+      provider: usage.provider,
+      model: usage.model,
+      inputTokens: usage.input_tokens,
+      outputTokens: usage.output_tokens,
+      costUsd: parseFloat(usage.cost_usd),
+      createdAt: usage.created_at,
+    };
+  }
+
+  /**
+   * Requests, tokens and cost since `from`, in total and by task and model
+   */
+  static async summarize(userId: string, from: Date): Promise<LlmUsageSummary> {
+    const totals = `
+      COUNT(*) AS requests,
+      COALESCE(SUM(input_tokens), 0) AS input_tokens,
+      COALESCE(SUM(output_tokens), 0) AS output_tokens,
+      COALESCE(SUM(cost_usd), 0) AS cost_usd
+    `;
+
+    const [overall, byTask, byModel] = await Promise.all([
+      db.query(`SELECT ${totals} FROM llm_usage WHERE user_id = $1 AND created_at >= $2`, [userId, from]),
+      db.query(`
+        SELECT task, ${totals}
+        FROM llm_usage
+        WHERE user_id = $1 AND created_at >= $2
+        GROUP BY task
+        ORDER BY cost_usd DESC, requests DESC
+      `, [userId, from]),
+      db.query(`
+        SELECT provider, model, ${totals}
+        FROM llm_usage
+        WHERE user_id = $1 AND created_at >= $2
+        GROUP BY provider, model
+        ORDER BY cost_usd DESC, requests DESC
+      `, [userId, from])
+    ]);
+
+    return {
+      from,
+      totals: toTotals(overall.rows[0]),
+      byTask: byTask.rows.map(row => ({ task: row.task as LlmTask, ...toTotals(row) })),
+      byModel: byModel.rows.map(row => ({ provider: row.provider, model: row.model, ...toTotals(row) })),
+    };
+  }
+}
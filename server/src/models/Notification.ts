@@ -0,0 +1,293 @@
+import { db } from '@/utils/database';
+import {
+  DigestFrequency,
+  Notification,
+  NotificationFilters,
+  NotificationInput,
+  NotificationPreferences,
+  NotificationType
+} from '@/types';
+
+// Used until a user saves preferences of their own
+export const DEFAULT_DIGEST_FREQUENCY: DigestFrequency = 'weekly';
+
+export class NotificationModel {
+  /**
+   * Create a notification. Returns null when the user already has one with
+   * the same dedupe key.
+   */
+  static async create(userId: string, notificationData: NotificationInput): Promise<Notification | null> {
+    const query = `
+      INSERT INTO notifications (user_id, type, title, body, link, data, dedupe_key)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      ON CONFLICT (user_id, dedupe_key) DO NOTHING
+      RETURNING *
+    `;
+
+    const values = [
+      userId,
+      notificationData.type,
+      notificationData.title,
+      notificationData.body,
+      notificationData.link || null,
+      JSON.stringify(notificationData.data || {}),
+      notificationData.dedupeKey || null
+    ];
+
+    const result = await db.query(query, values);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const notification = result.rows[0];
+    return {
+      id: notification.id,
+      userId: notification.user_id,
+      type: notification.type,
+      title: notification.title,
+      body: notification.body,
+      link: notification.link,
+      data: notification.data,
+      dedupeKey: notification.dedupe_key,
+      readAt: notification.read_at,
+      createdAt: notification.created_at,
+    };
+  }
+
+  static async findById(id: string): Promise<Notification | null> {
+    const query = 'SELECT * FROM notifications WHERE id = $1';
+    const result = await db.query(query, [id]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const notification = result.rows[0];
+    return {
+      id: notification.id,
+      userId: notification.user_id,
+      type: notification.type,
+      title: notification.title,
+      body: notification.body,
+      link: notification.link,
+      data: notification.data,
+      dedupeKey: notification.dedupe_key,
+      readAt: notification.read_at,
+      createdAt: notification.created_at,
+    };
+  }
+
+  /**
+   * Page through a user's notifications, newest first
+   */
+  static async findByUserId(userId: string, filters: NotificationFilters = {}): Promise<{ notifications: Notification[]; total: number }> {
+    const conditions = ['user_id = $1'];
+    const values: any[] = [userId];
+    let paramCount = 2;
+
+    if (filters.unreadOnly) {
+      conditions.push('read_at IS NULL');
+    }
+    if (filters.types && filters.types.length > 0) {
+      conditions.push(`type = ANY($${paramCount++})`);
+      values.push(filters.types);
+    }
+
+    values.push(filters.limit ?? 50, filters.offset ?? 0);
+
+    const query = `
+      SELECT *, COUNT(*) OVER() AS total_count FROM notifications
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY created_at DESC
+      LIMIT $${paramCount++} OFFSET $${paramCount}
+    `;
+
+    const result = await db.query(query, values);
+
+    return {
+      notifications: result.rows.map(notification => ({
+        id: notification.id,
+        userId: notification.user_id,
+        type: notification.type,
+        title: notification.title,
+        body: notification.body,
+        link: notification.link,
+        data: notification.data,
+        dedupeKey: notification.dedupe_key,
+        readAt: notification.read_at,
+        createdAt: notification.created_at,
+      })),
+      total: result.rows.length > 0 ? parseInt(result.rows[0].total_count) : 0
+    };
+  }
+
+  /**
+   * Unread notifications created since `since`, oldest first
+   */
+  static async findUnreadSince(userId: string, since: Date, types: NotificationType[]): Promise<Notification[]> {
+    const query = `
+      SELECT * FROM notifications
+      WHERE user_id = $1 AND read_at IS NULL AND created_at >= $2 AND type = ANY($3)
+      ORDER BY created_at ASC
+    `;
+
+    const result = await db.query(query, [userId, since, types]);
+
+    return result.rows.map(notification => ({
+      id: notification.id,
+      userId: notification.user_id,
+      type: notification.type,
+      title: notification.title,
+      body: notification.body,
+      link: notification.link,
+      data: notification.data,
+      dedupeKey: notification.dedupe_key,
+      readAt: notification.read_at,
+      createdAt: notification.created_at,
+    }));
+  }
+
+  static async countUnread(userId: string): Promise<number> {
+    const query = 'SELECT COUNT(*) AS count FROM notifications WHERE user_id = $1 AND read_at IS NULL';
+    const result = await db.query(query, [userId]);
+    return parseInt(result.rows[0].count);
+  }
+
+  /**
+   * Mark a notification read, or unread again
+   */
+  static async setRead(id: string, read: boolean): Promise<Notification | null> {
+    const query = `
+      UPDATE notifications
+      SET read_at = CASE WHEN $2 THEN COALESCE(read_at, CURRENT_TIMESTAMP) ELSE NULL END
+      WHERE id = $1
+      RETURNING *
+    `;
+
+    const result = await db.query(query, [id, read]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const notification = result.rows[0];
+    return {
+      id: notification.id,
+      userId: notification.user_id,
+      type: notification.type,
+      title: notification.title,
+      body: notification.body,
+      link: notification.link,
+      data: notification.data,
+      dedupeKey: notification.dedupe_key,
+      readAt: notification.read_at,
+      createdAt: notification.created_at,
+    };
+  }
+
+  static async markAllRead(userId: string): Promise<number> {
+    const query = 'UPDATE notifications SET read_at = CURRENT_TIMESTAMP WHERE user_id = $1 AND read_at IS NULL';
+    const result = await db.query(query, [userId]);
+    return result.rowCount ?? 0;
+  }
+
+  static async delete(id: string): Promise<boolean> {
+    const query = 'DELETE FROM notifications WHERE id = $1';
+    const result = await db.query(query, [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Delete read notifications read before the cutoff
+   */
+  static async deleteReadBefore(cutoff: Date): Promise<number> {
+    const query = 'DELETE FROM notifications WHERE read_at IS NOT NULL AND read_at < $1';
+    const result = await db.query(query, [cutoff]);
+    return result.rowCount ?? 0;
+  }
+}
+
+export class NotificationPreferencesModel {
+  /**
+   * A user's preferences, or the defaults when they have not saved any
+   */
+  static async findByUserId(userId: string): Promise<NotificationPreferences> {
+    const query = 'SELECT * FROM notification_preferences WHERE user_id = $1';
+    const result = await db.query(query, [userId]);
+
+    if (result.rows.length === 0) {
+      return { userId, mutedTypes: [], digestFrequency: DEFAULT_DIGEST_FREQUENCY };
+    }
+
+    const preferences = result.rows[0];
+    return {
+      userId: preferences.user_id,
+      mutedTypes: preferences.muted_types,
+      digestFrequency: preferences.digest_frequency,
+      lastDigestAt: preferences.last_digest_at,
+    };
+  }
+
+  static async upsert(userId: string, updates: Partial<Pick<NotificationPreferences, 'mutedTypes' | 'digestFrequency'>>): Promise<NotificationPreferences> {
+    const query = `
+      INSERT INTO notification_preferences (user_id, muted_types, digest_frequency)
+      VALUES ($1, COALESCE($2, '{}'::text[]), COALESCE($3, $4))
+      ON CONFLICT (user_id) DO UPDATE SET
+        muted_types = COALESCE($2, notification_preferences.muted_types),
+        digest_frequency = COALESCE($3, notification_preferences.digest_frequency),
+        updated_at = CURRENT_TIMESTAMP
+      RETURNING *
+    `;
+
+    const values = [
+      userId,
+      updates.mutedTypes ?? null,
+      updates.digestFrequency ?? null,
+      DEFAULT_DIGEST_FREQUENCY
+    ];
+
+    const result = await db.query(query, values);
+    const preferences = result.rows[0];
+
+    return {
+      userId: preferences.user_id,
+      mutedTypes: preferences.muted_types,
+      digestFrequency: preferences.digest_frequency,
+      lastDigestAt: preferences.last_digest_at,
+    };
+  }
+
+  /**
+   * Verified users on a digest frequency whose last digest went out before
+   * `sentBefore`, or who have never had one
+   */
+  static async findDigestRecipients(frequency: Exclude<DigestFrequency, 'off'>, sentBefore: Date): Promise<{ userId: string; email: string; name: string; mutedTypes: NotificationType[]; lastDigestAt?: Date }[]> {
+    const query = `
+      SELECT u.id, u.email, u.name, COALESCE(p.muted_types, '{}'::text[]) AS muted_types, p.last_digest_at
+      FROM users u
+      LEFT JOIN notification_preferences p ON p.user_id = u.id
+      WHERE u.is_verified = true
+        AND COALESCE(p.digest_frequency, $2) = $1
+        AND (p.last_digest_at IS NULL OR p.last_digest_at < $3)
+      ORDER BY u.created_at
+    `;
+
+    const result = await db.query(query, [frequency, DEFAULT_DIGEST_FREQUENCY, sentBefore]);
+
+    return result.rows.map(row => ({
+      userId: row.id,
+      email: row.email,
+      name: row.name,
+      mutedTypes: row.muted_types,
+      lastDigestAt: row.last_digest_at,
+    }));
+  }
+
+  static async markDigestSent(userId: string, sentAt: Date): Promise<void> {
+    const query = `
+      INSERT INTO notification_preferences (user_id, digest_frequency, last_digest_at)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (user_id) DO UPDATE SET last_digest_at = EXCLUDED.last_digest_at
+    `;
+    await db.query(query, [userId, DEFAULT_DIGEST_FREQUENCY, sentAt]);
+  }
+}
@@ -0,0 +1,206 @@
+import { db } from '@/utils/database';
+import { PipelineFilters, PipelineItem } from '@/types';
+
+export class PipelineItemModel {
+  /**
+   * Add an item to the pipeline. An item classified from the same
+   * intelligence item again is refreshed in place and keeps its stage.
+   */
+  static async create(itemData: Omit<PipelineItem, 'id' | 'stage' | 'projectId' | 'detectedAt' | 'stageChangedAt' | 'createdAt' | 'updatedAt'>): Promise<PipelineItem> {
+    const query = `
+      INSERT INTO pipeline_items (user_id, kind, category, title, description, priority, deadline, source, actions, intelligence_id)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      ON CONFLICT (intelligence_id) DO UPDATE SET
+        kind = EXCLUDED.kind,
+        category = EXCLUDED.category,
+        title = EXCLUDED.title,
+        description = EXCLUDED.description,
+        priority = EXCLUDED.priority,
+        deadline = COALESCE(EXCLUDED.deadline, pipeline_items.deadline),
+        actions = EXCLUDED.actions,
+        updated_at = CURRENT_TIMESTAMP
+      RETURNING *
+    `;
+
+    const values = [
+      itemData.userId,
+      itemData.kind,
+      itemData.category,
+      itemData.title,
+      itemData.description,
+      itemData.priority,
+      itemData.deadline || null,
+      itemData.source,
+      itemData.actions,
+      itemData.intelligenceId || null
+    ];
+
+    const result = await db.query(query, values);
+    const item = result.rows[0];
+
+    return {
+      id: item.id,
+      userId: item.user_id,
+      kind: item.kind,
+      category: item.category,
+      title: item.title,
+      description: item.description,
+      priority: item.priority,
+      deadline: item.deadline,
+      source: item.source,
+      actions: item.actions,
+      stage: item.stage,
+      intelligenceId: item.intelligence_id,
+      projectId: item.project_id,
+      detectedAt: item.detected_at,
+      stageChangedAt: item.stage_changed_at,
+      createdAt: item.created_at,
+      updatedAt: item.updated_at,
+    };
+  }
+
+  static async findById(id: string): Promise<PipelineItem | null> {
+    const result = await db.query('SELECT * FROM pipeline_items WHERE id = $1', [id]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const item = result.rows[0];
+    return {
+      id: item.id,
+      userId: item.user_id,
+      kind: item.kind,
+      category: item.category,
+      title: item.title,
+      description: item.description,
+      priority: item.priority,
+      deadline: item.deadline,
+      source: item.source,
+      actions: item.actions,
+      stage: item.stage,
+      intelligenceId: item.intelligence_id,
+      projectId: item.project_id,
+      detectedAt: item.detected_at,
+      stageChangedAt: item.stage_changed_at,
+      createdAt: item.created_at,
+      updatedAt: item.updated_at,
+    };
+  }
+
+  /**
+   * A user's pipeline, highest priority and nearest deadline first
+   */
+  static async findByUserId(userId: string, filters: PipelineFilters = {}): Promise<PipelineItem[]> {
+    const conditions = ['user_id = $1'];
+    const values: any[] = [userId];
+    let paramCount = 2;
+
+    if (filters.kind) {
+      conditions.push(`kind = $${paramCount++}`);
+      values.push(filters.kind);
+    }
+    if (filters.stages && filters.stages.length > 0) {
+      conditions.push(`stage = ANY($${paramCount++})`);
+      values.push(filters.stages);
+    }
+
+    const query = `
+      SELECT * FROM pipeline_items
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY
+        CASE priority WHEN 'high' THEN 0 WHEN 'medium' THEN 1 ELSE 2 END,
+        deadline ASC NULLS LAST,
+        detected_at DESC
+    `;
+
+    const result = await db.query(query, values);
+    return result.rows.map(item => ({
+      id: item.id,
+      userId: item.user_id,
+      kind: item.kind,
+      category: item.category,
+      title: item.title,
+      description: item.description,
+      priority: item.priority,
+      deadline: item.deadline,
+      source: item.source,
+      actions: item.actions,
+      stage: item.stage,
+      intelligenceId: item.intelligence_id,
+      projectId: item.project_id,
+      detectedAt: item.detected_at,
+      stageChangedAt: item.stage_changed_at,
+      createdAt: item.created_at,
+      updatedAt: item.updated_at,
+    }));
+  }
+
+  static async update(id: string, updates: Partial<Pick<PipelineItem, 'stage' | 'priority' | 'projectId'>> & { deadline?: Date | null }): Promise<PipelineItem | null> {
+    const fields: string[] = [];
+    const values: any[] = [];
+    let paramCount = 1;
+
+    if (updates.stage !== undefined) {
+      fields.push(`stage_changed_at = CASE WHEN stage = $${paramCount} THEN stage_changed_at ELSE CURRENT_TIMESTAMP END`);
+      fields.push(`stage = $${paramCount++}`);
+      values.push(updates.stage);
+    }
+    if (updates.priority !== undefined) {
+      fields.push(`priority = $${paramCount++}`);
+      values.push(updates.priority);
+    }
+    if (updates.deadline !== undefined) {
+      fields.push(`deadline = $${paramCount++}`);
+      values.push(updates.deadline);
+    }
+    if (updates.projectId !== undefined) {
+      fields.push(`project_id = $${paramCount++}`);
+      values.push(updates.projectId);
+    }
+
+    if (fields.length === 0) {
+      return this.findById(id);
+    }
+
+    fields.push(`updated_at = CURRENT_TIMESTAMP`);
+    values.push(id);
+
+    const query = `
+      UPDATE pipeline_items
+      SET ${fields.join(', ')}
+      WHERE id = $${paramCount}
+      RETURNING *
+    `;
+
+    const result = await db.query(query, values);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const item = result.rows[0];
+    return {
+      id: item.id,
+      userId: item.user_id,
+      kind: item.kind,
+      category: item.category,
+      title: item.title,
+      description: item.description,
+      priority: item.priority,
+      deadline: item.deadline,
+      source: item.source,
+      actions: item.actions,
+      stage: item.stage,
+      intelligenceId: item.intelligence_id,
+      projectId: item.project_id,
+      detectedAt: item.detected_at,
+      stageChangedAt: item.stage_changed_at,
+      createdAt: item.created_at,
+      updatedAt: item.updated_at,
+    };
+  }
+
+  static async delete(id: string): Promise<boolean> {
+    const result = await db.query('DELETE FROM pipeline_items WHERE id = $1', [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+}
@@ -1,5 +1,5 @@
 import { db } from '@/utils/database';
-import { Project } from '@/types';
+import { Project, Content } from '@/types';
 
 export class ProjectModel {
   static async create(projectData: Omit<Project, 'id' | 'createdAt' | 'updatedAt'>): Promise<Project> {
@@ -228,4 +228,47 @@ export class ProjectModel {
   static async findCompletedProjects(userId: string): Promise<Project[]> {
     return this.findByStatus(userId, 'completed');
   }
+
+  static async linkContent(projectId: string, contentId: string): Promise<boolean> {
+    const query = `
+      INSERT INTO project_content (project_id, content_id)
+      VALUES ($1, $2)
+      ON CONFLICT (project_id, content_id) DO NOTHING
+    `;
+    const result = await db.query(query, [projectId, contentId]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  static async unlinkContent(projectId: string, contentId: string): Promise<boolean> {
+    const query = 'DELETE FROM project_content WHERE project_id = $1 AND content_id = $2';
+    const result = await db.query(query, [projectId, contentId]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  static async findLinkedContent(projectId: string): Promise<Content[]> {
+    const query = `
+      SELECT c.* FROM content c
+      JOIN project_content pc ON pc.content_id = c.id
+      WHERE pc.project_id = $1
+      ORDER BY pc.created_at DESC
+    `;
+
+    const result = await db.query(query, [projectId]);
+
+    return result.rows.map(content => ({
+      id: content.id,
+      userId: content.user_id,
+      platform: content.platform,
+      contentType: content.content_type,
+      title: content.title,
+      body: content.body,
+      tags: content.tags,
+      brandAlignment: parseFloat(content.brand_alignment),
+      performanceScore: parseFloat(content.performance_score),
+      status: content.status,
+      parentId: content.parent_id,
+      createdAt: content.created_at,
+      updatedAt: content.updated_at,
+    }));
+  }
 }
\ No newline at end of file
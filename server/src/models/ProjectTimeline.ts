@@ -0,0 +1,336 @@
+import { db } from '@/utils/database';
+import { ProjectMilestone, ProjectDeadline } from '@/types';
+
+export class ProjectMilestoneModel {
+  static async create(milestoneData: Omit<ProjectMilestone, 'id' | 'completed' | 'completedAt'>): Promise<ProjectMilestone> {
+    const query = `
+      INSERT INTO project_milestones (project_id, name, description, target_date)
+      VALUES ($1, $2, $3, $4)
+      RETURNING *
+    `;
+
+    const values = [
+      milestoneData.projectId,
+      milestoneData.name,
+      milestoneData.description || null,
+      milestoneData.targetDate
+    ];
+
+    const result = await db.query(query, values);
+    const milestone = result.rows[0];
+
+    return {
+      id: milestone.id,
+      projectId: milestone.project_id,
+      name: milestone.name,
+      description: milestone.description,
+      targetDate: milestone.target_date,
+      completed: milestone.completed,
+      completedAt: milestone.completed_at,
+    };
+  }
+
+  static async findByProjectId(projectId: string): Promise<ProjectMilestone[]> {
+    const query = `
+      SELECT * FROM project_milestones
+      WHERE project_id = $1
+      ORDER BY target_date ASC
+    `;
+
+    const result = await db.query(query, [projectId]);
+
+    return result.rows.map(milestone => ({
+      id: milestone.id,
+      projectId: milestone.project_id,
+      name: milestone.name,
+      description: milestone.description,
+      targetDate: milestone.target_date,
+      completed: milestone.completed,
+      completedAt: milestone.completed_at,
+    }));
+  }
+
+  /**
+   * Open milestones of active projects due today or within `withinDays`,
+   * across all users
+   */
+  static async findDueAcrossUsers(withinDays: number): Promise<(ProjectMilestone & { userId: string; projectName: string })[]> {
+    const query = `
+      SELECT m.*, p.user_id, p.name AS project_name FROM project_milestones m
+      JOIN projects p ON p.id = m.project_id
+      WHERE m.completed = false AND p.status = 'active'
+        AND m.target_date BETWEEN CURRENT_DATE AND CURRENT_DATE + $1::int
+      ORDER BY m.target_date ASC
+    `;
+
+    const result = await db.query(query, [withinDays]);
+
+    return result.rows.map(milestone => ({
+      id: milestone.id,
+      projectId: milestone.project_id,
+      name: milestone.name,
+      description: milestone.description,
+      targetDate: milestone.target_date,
+      completed: milestone.completed,
+      completedAt: milestone.completed_at,
+      userId: milestone.user_id,
+      projectName: milestone.project_name,
+    }));
+  }
+
+  static async findById(id: string): Promise<ProjectMilestone | null> {
+    const query = 'SELECT * FROM project_milestones WHERE id = $1';
+    const result = await db.query(query, [id]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const milestone = result.rows[0];
+    return {
+      id: milestone.id,
+      projectId: milestone.project_id,
+      name: milestone.name,
+      description: milestone.description,
+      targetDate: milestone.target_date,
+      completed: milestone.completed,
+      completedAt: milestone.completed_at,
+    };
+  }
+
+  static async update(id: string, updates: Partial<ProjectMilestone>): Promise<ProjectMilestone | null> {
+    const fields = [];
+    const values = [];
+    let paramCount = 1;
+
+    if (updates.name !== undefined) {
+      fields.push(`name = $${paramCount++}`);
+      values.push(updates.name);
+    }
+    if (updates.description !== undefined) {
+      fields.push(`description = $${paramCount++}`);
+      values.push(updates.description);
+    }
+    if (updates.targetDate !== undefined) {
+      fields.push(`target_date = $${paramCount++}`);
+      values.push(updates.targetDate);
+    }
+    if (updates.completed !== undefined) {
+      fields.push(`completed = $${paramCount++}`);
+      values.push(updates.completed);
+      // Track when a milestone was completed, and clear it when reopened
+      fields.push(updates.completed ? 'completed_at = COALESCE(completed_at, CURRENT_TIMESTAMP)' : 'completed_at = NULL');
+    }
+
+    if (fields.length === 0) {
+      return this.findById(id);
+    }
+
+    fields.push(`updated_at = CURRENT_TIMESTAMP`);
+    values.push(id);
+
+    const query = `
+      UPDATE project_milestones
+      SET ${fields.join(', ')}
+      WHERE id = $${paramCount}
+      RETURNING *
+    `;
+
+    const result = await db.query(query, values);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const milestone = result.rows[0];
+    return {
+      id: milestone.id,
+      projectId: milestone.project_id,
+      name: milestone.name,
+      description: milestone.description,
+      targetDate: milestone.target_date,
+      completed: milestone.completed,
+      completedAt: milestone.completed_at,
+    };
+  }
+
+  static async delete(id: string): Promise<boolean> {
+    const query = 'DELETE FROM project_milestones WHERE id = $1';
+    const result = await db.query(query, [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+}
+
+export class ProjectDeadlineModel {
+  static async create(deadlineData: Omit<ProjectDeadline, 'id' | 'completed'>): Promise<ProjectDeadline> {
+    const query = `
+      INSERT INTO project_deadlines (project_id, name, date, priority)
+      VALUES ($1, $2, $3, $4)
+      RETURNING *
+    `;
+
+    const values = [
+      deadlineData.projectId,
+      deadlineData.name,
+      deadlineData.date,
+      deadlineData.priority
+    ];
+
+    const result = await db.query(query, values);
+    const deadline = result.rows[0];
+
+    return {
+      id: deadline.id,
+      projectId: deadline.project_id,
+      name: deadline.name,
+      date: deadline.date,
+      priority: deadline.priority,
+      completed: deadline.completed,
+    };
+  }
+
+  static async findByProjectId(projectId: string): Promise<ProjectDeadline[]> {
+    const query = `
+      SELECT * FROM project_deadlines
+      WHERE project_id = $1
+      ORDER BY date ASC
+    `;
+
+    const result = await db.query(query, [projectId]);
+
+    return result.rows.map(deadline => ({
+      id: deadline.id,
+      projectId: deadline.project_id,
+      name: deadline.name,
+      date: deadline.date,
+      priority: deadline.priority,
+      completed: deadline.completed,
+    }));
+  }
+
+  static async findById(id: string): Promise<ProjectDeadline | null> {
+    const query = 'SELECT * FROM project_deadlines WHERE id = $1';
+    const result = await db.query(query, [id]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const deadline = result.rows[0];
+    return {
+      id: deadline.id,
+      projectId: deadline.project_id,
+      name: deadline.name,
+      date: deadline.date,
+      priority: deadline.priority,
+      completed: deadline.completed,
+    };
+  }
+
+  static async findUpcoming(userId: string, withinDays: number = 7): Promise<ProjectDeadline[]> {
+    const query = `
+      SELECT d.* FROM project_deadlines d
+      JOIN projects p ON p.id = d.project_id
+      WHERE p.user_id = $1 AND d.completed = false
+        AND d.date <= CURRENT_DATE + ($2 || ' days')::interval
+      ORDER BY d.date ASC
+    `;
+
+    const result = await db.query(query, [userId, withinDays]);
+
+    return result.rows.map(deadline => ({
+      id: deadline.id,
+      projectId: deadline.project_id,
+      name: deadline.name,
+      date: deadline.date,
+      priority: deadline.priority,
+      completed: deadline.completed,
+    }));
+  }
+
+  /**
+   * Open deadlines of active projects due today or within `withinDays`,
+   * across all users
+   */
+  static async findDueAcrossUsers(withinDays: number): Promise<(ProjectDeadline & { userId: string; projectName: string })[]> {
+    const query = `
+      SELECT d.*, p.user_id, p.name AS project_name FROM project_deadlines d
+      JOIN projects p ON p.id = d.project_id
+      WHERE d.completed = false AND p.status = 'active'
+        AND d.date BETWEEN CURRENT_DATE AND CURRENT_DATE + $1::int
+      ORDER BY d.date ASC
+    `;
+
+    const result = await db.query(query, [withinDays]);
+
+    return result.rows.map(deadline => ({
+      id: deadline.id,
+      projectId: deadline.project_id,
+      name: deadline.name,
+      date: deadline.date,
+      priority: deadline.priority,
+      completed: deadline.completed,
+      userId: deadline.user_id,
+      projectName: deadline.project_name,
+    }));
+  }
+
+  static async update(id: string, updates: Partial<ProjectDeadline>): Promise<ProjectDeadline | null> {
+    const fields = [];
+    const values = [];
+    let paramCount = 1;
+
+    if (updates.name !== undefined) {
+      fields.push(`name = $${paramCount++}`);
+      values.push(updates.name);
+    }
+    if (updates.date !== undefined) {
+      fields.push(`date = $${paramCount++}`);
+      values.push(updates.date);
+    }
+    if (updates.priority !== undefined) {
+      fields.push(`priority = $${paramCount++}`);
+      values.push(updates.priority);
+    }
+    if (updates.completed !== undefined) {
+      fields.push(`completed = $${paramCount++}`);
+      values.push(updates.completed);
+    }
+
+    if (fields.length === 0) {
+      return this.findById(id);
+    }
+
+    fields.push(`updated_at = CURRENT_TIMESTAMP`);
+    values.push(id);
+
+    const query = `
+      UPDATE project_deadlines
+      SET ${fields.join(', ')}
+      WHERE id = $${paramCount}
+      RETURNING *
+    `;
+
+    const result = await db.query(query, values);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const deadline = result.rows[0];
+    return {
+      id: deadline.id,
+      projectId: deadline.project_id,
+      name: deadline.name,
+      date: deadline.date,
+      priority: deadline.priority,
+      completed: deadline.completed,
+    };
+  }
+
+  static async delete(id: string): Promise<boolean> {
+    const query = 'DELETE FROM project_deadlines WHERE id = $1';
+    const result = await db.query(query, [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+}
@@ -0,0 +1,207 @@
+import { db } from '@/utils/database';
+import { RefreshToken, Session } from '@/types';
+
+export class RefreshTokenModel {
+  static async create(tokenData: Omit<RefreshToken, 'id' | 'createdAt' | 'lastUsedAt' | 'revokedAt' | 'replacedBy'>): Promise<RefreshToken> {
+    const query = `
+      INSERT INTO refresh_tokens (user_id, family_id, token_hash, user_agent, ip_address, expires_at)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING *
+    `;
+
+    const values = [
+      tokenData.userId,
+      tokenData.familyId,
+      tokenData.tokenHash,
+      tokenData.userAgent || null,
+      tokenData.ipAddress || null,
+      tokenData.expiresAt
+    ];
+
+    const result = await db.query(query, values);
+    const token = result.rows[0];
+
+    return {
+      id: token.id,
+      userId: token.user_id,
+      familyId: token.family_id,
+      tokenHash: token.token_hash,
+      userAgent: token.user_agent,
+      ipAddress: token.ip_address,
+      expiresAt: token.expires_at,
+      createdAt: token.created_at,
+      lastUsedAt: token.last_used_at,
+      revokedAt: token.revoked_at,
+      replacedBy: token.replaced_by,
+    };
+  }
+
+  static async findByHash(tokenHash: string): Promise<RefreshToken | null> {
+    const query = 'SELECT * FROM refresh_tokens WHERE token_hash = $1';
+    const result = await db.query(query, [tokenHash]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const token = result.rows[0];
+    return {
+      id: token.id,
+      userId: token.user_id,
+      familyId: token.family_id,
+      tokenHash: token.token_hash,
+      userAgent: token.user_agent,
+      ipAddress: token.ip_address,
+      expiresAt: token.expires_at,
+      createdAt: token.created_at,
+      lastUsedAt: token.last_used_at,
+      revokedAt: token.revoked_at,
+      replacedBy: token.replaced_by,
+    };
+  }
+
+  /**
+   * Replace a token with a new one in the same family. Returns null if the
+   * old token was already rotated or revoked, e.g. by a concurrent request.
+   */
+  static async rotate(
+    oldTokenId: string,
+    tokenData: Omit<RefreshToken, 'id' | 'familyId' | 'userId' | 'createdAt' | 'lastUsedAt' | 'revokedAt' | 'replacedBy'>
+  ): Promise<RefreshToken | null> {
+    const client = await db.connect();
+    try {
+      await client.query('BEGIN');
+
+      const existing = await client.query(
+        'SELECT * FROM refresh_tokens WHERE id = $1 AND replaced_by IS NULL AND revoked_at IS NULL FOR UPDATE',
+        [oldTokenId]
+      );
+
+      if (existing.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      const old = existing.rows[0];
+      const result = await client.query(`
+        INSERT INTO refresh_tokens (user_id, family_id, token_hash, user_agent, ip_address, expires_at)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        RETURNING *
+      `, [
+        old.user_id,
+        old.family_id,
+        tokenData.tokenHash,
+        tokenData.userAgent || old.user_agent,
+        tokenData.ipAddress || old.ip_address,
+        tokenData.expiresAt
+      ]);
+      const token = result.rows[0];
+
+      await client.query(
+        'UPDATE refresh_tokens SET replaced_by = $1, last_used_at = CURRENT_TIMESTAMP WHERE id = $2',
+        [token.id, oldTokenId]
+      );
+
+      await client.query('COMMIT');
+
+      return {
+        id: token.id,
+        userId: token.user_id,
+        familyId: token.family_id,
+        tokenHash: token.token_hash,
+        userAgent: token.user_agent,
+        ipAddress: token.ip_address,
+        expiresAt: token.expires_at,
+        createdAt: token.created_at,
+        lastUsedAt: token.last_used_at,
+        revokedAt: token.revoked_at,
+        replacedBy: token.replaced_by,
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async revokeFamily(familyId: string, userId?: string): Promise<number> {
+    let query = `
+      UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP
+      WHERE family_id = $1 AND revoked_at IS NULL
+    `;
+    const values = [familyId];
+
+    if (userId) {
+      query += ' AND user_id = $2';
+      values.push(userId);
+    }
+
+    const result = await db.query(query, values);
+    return result.rowCount ?? 0;
+  }
+
+  static async revokeAllForUser(userId: string, exceptFamilyId?: string): Promise<number> {
+    let query = `
+      UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP
+      WHERE user_id = $1 AND revoked_at IS NULL
+    `;
+    const values = [userId];
+
+    if (exceptFamilyId) {
+      query += ' AND family_id != $2';
+      values.push(exceptFamilyId);
+    }
+
+    const result = await db.query(query, values);
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * A family is an active session while its latest token is unrevoked and unexpired
+   */
+  static async isFamilyActive(familyId: string): Promise<boolean> {
+    const query = `
+      SELECT 1 FROM refresh_tokens
+      WHERE family_id = $1 AND replaced_by IS NULL AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+    `;
+    const result = await db.query(query, [familyId]);
+    return result.rows.length > 0;
+  }
+
+  static async findActiveSessions(userId: string): Promise<Omit<Session, 'current'>[]> {
+    const query = `
+      SELECT
+        t.family_id, t.user_agent, t.ip_address, t.expires_at,
+        t.created_at AS last_used_at,
+        (SELECT MIN(f.created_at) FROM refresh_tokens f WHERE f.family_id = t.family_id) AS created_at
+      FROM refresh_tokens t
+      WHERE t.user_id = $1 AND t.replaced_by IS NULL AND t.revoked_at IS NULL AND t.expires_at > CURRENT_TIMESTAMP
+      ORDER BY t.created_at DESC
+    `;
+
+    const result = await db.query(query, [userId]);
+
+    return result.rows.map(session => ({
+      id: session.family_id,
+      userAgent: session.user_agent,
+      ipAddress: session.ip_address,
+      createdAt: session.created_at,
+      lastUsedAt: session.last_used_at,
+      expiresAt: session.expires_at,
+    }));
+  }
+
+  static async deleteExpired(userId?: string): Promise<number> {
+    let query = 'DELETE FROM refresh_tokens WHERE expires_at < CURRENT_TIMESTAMP';
+    const values: string[] = [];
+
+    if (userId) {
+      query += ' AND user_id = $1';
+      values.push(userId);
+    }
+
+    const result = await db.query(query, values);
+    return result.rowCount ?? 0;
+  }
+}
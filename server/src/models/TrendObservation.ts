@@ -0,0 +1,86 @@
+import { db } from '@/utils/database';
+import { TrendObservation, TrendPoint } from '@/types';
+
+export class TrendObservationModel {
+  static async create(observationData: Omit<TrendObservation, 'id' | 'observedAt'> & { observedAt?: Date }): Promise<TrendObservation> {
+    const query = `
+      INSERT INTO trend_observations (user_id, keyword, category, industry, volume, source, observed_at)
+      VALUES ($1, $2, $3, $4, $5, $6, COALESCE($7, CURRENT_TIMESTAMP))
+      RETURNING *
+    `;
+
+    const values = [
+      observationData.userId,
+      observationData.keyword,
+      observationData.category,
+      observationData.industry || null,
+      observationData.volume,
+      observationData.source,
+      observationData.observedAt || null
+    ];
+
+    const result = await db.query(query, values);
+    const observation = result.rows[0];
+
+    return {
+      id: observation.id,
+      userId: observation.user_id,
+      keyword: observation.keyword,
+      category: observation.category,
+      industry: observation.industry,
+      volume: parseFloat(observation.volume),
+      source: observation.source,
+      observedAt: observation.observed_at,
+    };
+  }
+
+  /**
+   * Average volume per UTC day since `from` for a keyword, oldest first
+   */
+  static async dailySeries(userId: string, keyword: string, from: Date): Promise<TrendPoint[]> {
+    const query = `
+      SELECT TO_CHAR(DATE_TRUNC('day', observed_at), 'YYYY-MM-DD') AS date, AVG(volume) AS volume
+      FROM trend_observations
+      WHERE user_id = $1 AND LOWER(keyword) = LOWER($2) AND observed_at >= $3
+      GROUP BY 1
+      ORDER BY 1
+    `;
+
+    const result = await db.query(query, [userId, keyword, from]);
+    return result.rows.map(row => ({
+      date: row.date,
+      volume: Math.round(parseFloat(row.volume) * 100) / 100,
+    }));
+  }
+
+  /**
+   * Keywords observed since `from`, most recently observed first, with the
+   * category and industry of their latest observation
+   */
+  static async findKeywords(userId: string, from: Date): Promise<{ keyword: string; category: string; industry?: string; lastObservedAt: Date }[]> {
+    const query = `
+      SELECT DISTINCT ON (LOWER(keyword)) keyword, category, industry, observed_at
+      FROM trend_observations
+      WHERE user_id = $1 AND observed_at >= $2
+      ORDER BY LOWER(keyword), observed_at DESC
+    `;
+
+    const result = await db.query(query, [userId, from]);
+    return result.rows
+      .map(row => ({
+        keyword: row.keyword,
+        category: row.category,
+        industry: row.industry,
+        lastObservedAt: row.observed_at,
+      }))
+      .sort((a, b) => new Date(b.lastObservedAt).getTime() - new Date(a.lastObservedAt).getTime());
+  }
+
+  /**
+   * Delete observations older than the momentum window needs
+   */
+  static async deleteOlderThan(cutoff: Date): Promise<number> {
+    const result = await db.query('DELETE FROM trend_observations WHERE observed_at < $1', [cutoff]);
+    return result.rowCount ?? 0;
+  }
+}
@@ -71,6 +71,17 @@ export class UserModel {
     await db.query(query, [id]);
   }
 
+  static async markVerified(id: string): Promise<void> {
+    const query = 'UPDATE users SET is_verified = true, updated_at = CURRENT_TIMESTAMP WHERE id = $1';
+    await db.query(query, [id]);
+  }
+
+  static async updatePassword(id: string, password: string): Promise<void> {
+    const hashedPassword = await hashPassword(password);
+    const query = 'UPDATE users SET password = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2';
+    await db.query(query, [hashedPassword, id]);
+  }
+
   static async emailExists(email: string): Promise<boolean> {
     const query = 'SELECT 1 FROM users WHERE email = $1';
     const result = await db.query(query, [email]);
@@ -2,9 +2,21 @@
 export { UserModel, UserProfileModel } from './User';
 export { ContentModel } from './Content';
 export { ProjectModel } from './Project';
+export { ProjectMilestoneModel, ProjectDeadlineModel } from './ProjectTimeline';
 export { IntelligenceDataModel } from './IntelligenceData';
 export { UserContextModel } from './UserContext';
 export { BrandStrategyModel } from './BrandStrategy';
+export { RefreshTokenModel } from './RefreshToken';
+export { AuthTokenModel } from './AuthToken';
+export { FeedSubscriptionModel } from './FeedSubscription';
+export { IngestSourceModel, IngestDeadLetterModel } from './IngestSource';
+export { JobModel, JobScheduleModel } from './Job';
+export { CompetitorModel, CompetitorSnapshotModel } from './Competitor';
+export { BrandMentionModel } from './BrandMention';
+export { PipelineItemModel } from './PipelineItem';
+export { TrendObservationModel } from './TrendObservation';
+export { NotificationModel, NotificationPreferencesModel } from './Notification';
+export { LlmUsageModel } from './LlmUsage';
 
 // Re-export types for convenience
 export * from '@/types';
\ No newline at end of file
@@ -0,0 +1,81 @@
+import { Router } from 'express';
+import { authenticateToken } from '@/middleware/auth';
+import { UserModel } from '@/models';
+import { AccountDataService } from '@/services/accountDataService';
+import { comparePassword } from '@/utils/auth';
+import { validateRequired } from '@/utils/modelValidation';
+import { logger } from '@/utils/logger';
+
+const router = Router();
+
+// Apply authentication middleware to all routes
+router.use(authenticateToken);
+
+// Phrase the user must type to confirm deletion
+const DELETE_CONFIRMATION = 'DELETE MY ACCOUNT';
+
+/**
+ * Download everything stored about the user as a zip archive
+ * GET /api/account/export
+ */
+router.get('/export', async (req, res) => {
+  const date = new Date().toISOString().substring(0, 10);
+
+  try {
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="anidhi-export-${date}.zip"`);
+
+    await AccountDataService.writeExport(req.user!.id, res);
+    return;
+  } catch (error) {
+    logger.error('Failed to export account data:', error);
+
+    // Once streaming has started the only option is to abort the download
+    if (res.headersSent) {
+      return res.destroy();
+    }
+    res.removeHeader('Content-Disposition');
+    return res.status(500).json({ error: 'Failed to export account data' });
+  }
+});
+
+/**
+ * Permanently delete the account and all of its data. Requires the
+ * current password and the confirmation phrase.
+ * DELETE /api/account
+ */
+router.delete('/', async (req, res) => {
+  try {
+    const { password, confirmation } = req.body;
+
+    const errors = [
+      validateRequired(password, 'password'),
+      validateRequired(confirmation, 'confirmation')
+    ].filter(Boolean);
+
+    if (errors.length > 0) {
+      return res.status(400).json({ errors });
+    }
+
+    if (confirmation !== DELETE_CONFIRMATION) {
+      return res.status(400).json({ error: `Type "${DELETE_CONFIRMATION}" to confirm` });
+    }
+
+    const user = await UserModel.findByEmail(req.user!.email);
+    if (!user || !(await comparePassword(password, user.password))) {
+      return res.status(403).json({ error: 'Incorrect password' });
+    }
+
+    const deleted = await AccountDataService.deleteAccount(user.id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Account not found' });
+    }
+
+    return res.json({ message: 'Account and all data deleted' });
+  } catch (error) {
+    logger.error('Failed to delete account:', error);
+    return res.status(500).json({ error: 'Failed to delete account' });
+  }
+});
+
+export default router;
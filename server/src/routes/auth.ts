@@ -1,18 +1,48 @@
 import { Router } from 'express';
-import { register, login, getProfile, updateProfile, logout } from '@/controllers/authController';
+import {
+  register,
+  login,
+  refresh,
+  getProfile,
+  updateProfile,
+  logout,
+  getSessions,
+  revokeSession,
+  revokeOtherSessions,
+  verifyEmail,
+  resendVerification,
+  forgotPassword,
+  resetPassword
+} from '@/controllers/authController';
 import { authenticateToken } from '@/middleware/auth';
 import { validateRequest } from '@/utils/validation';
-import { registerSchema, loginSchema, updateProfileSchema } from '@/utils/validation';
+import {
+  registerSchema,
+  loginSchema,
+  refreshTokenSchema,
+  updateProfileSchema,
+  verifyEmailSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema
+} from '@/utils/validation';
 
 const router = Router();
 
 // Public routes
 router.post('/register', validateRequest(registerSchema), register);
 router.post('/login', validateRequest(loginSchema), login);
+router.post('/refresh', validateRequest(refreshTokenSchema), refresh);
+router.post('/verify', validateRequest(verifyEmailSchema), verifyEmail);
+router.post('/forgot-password', validateRequest(forgotPasswordSchema), forgotPassword);
+router.post('/reset-password', validateRequest(resetPasswordSchema), resetPassword);
 
 // Protected routes
 router.get('/profile', authenticateToken, getProfile);
 router.put('/profile', authenticateToken, validateRequest(updateProfileSchema), updateProfile);
 router.post('/logout', authenticateToken, logout);
+router.post('/verify/resend', authenticateToken, resendVerification);
+router.get('/sessions', authenticateToken, getSessions);
+router.delete('/sessions', authenticateToken, revokeOtherSessions);
+router.delete('/sessions/:id', authenticateToken, revokeSession);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,244 @@
+import { Router } from 'express';
+import { authenticateToken } from '@/middleware/auth';
+import { BrandStrategyModel } from '@/models';
+import { BrandStrategyService, BrandStrategyInput } from '@/services/brandStrategyService';
+import { validateBrandStrategy, validateRequired } from '@/utils/modelValidation';
+import { BrandStrategy } from '@/types';
+import { logger } from '@/utils/logger';
+
+const router = Router();
+
+// Apply authentication middleware to all routes
+router.use(authenticateToken);
+
+/**
+ * Load a strategy and verify it belongs to the requesting user
+ */
+const findOwnedStrategy = async (id: string, userId: string): Promise<{ strategy?: BrandStrategy; status?: number; error?: string }> => {
+  const strategy = await BrandStrategyModel.findById(id);
+  if (!strategy) {
+    return { status: 404, error: 'Brand strategy not found' };
+  }
+
+  if (strategy.userId !== userId) {
+    return { status: 403, error: 'Access denied' };
+  }
+
+  return { strategy };
+};
+
+/**
+ * Pick the editable strategy fields out of a request body
+ */
+const pickStrategyInput = (body: any): BrandStrategyInput => {
+  const input: BrandStrategyInput = {};
+  if (body.coreMessage !== undefined) input.coreMessage = body.coreMessage;
+  if (body.targetAudience !== undefined) input.targetAudience = body.targetAudience;
+  if (body.contentPillars !== undefined) input.contentPillars = body.contentPillars;
+  if (body.voiceAndTone !== undefined) input.voiceAndTone = body.voiceAndTone;
+  if (body.platformStrategy !== undefined) input.platformStrategy = body.platformStrategy;
+  return input;
+};
+
+/**
+ * List all strategy versions, newest first
+ * GET /api/brand-strategy
+ */
+router.get('/', async (req, res) => {
+  try {
+    const strategies = await BrandStrategyModel.findByUserId(req.user!.id);
+    strategies.sort((a, b) => b.version - a.version);
+
+    return res.json({
+      strategies,
+      count: strategies.length
+    });
+  } catch (error) {
+    logger.error('Failed to list brand strategies:', error);
+    return res.status(500).json({ error: 'Failed to list brand strategies' });
+  }
+});
+
+/**
+ * Get the active strategy, creating a default one if none exists
+ * GET /api/brand-strategy/active
+ */
+router.get('/active', async (req, res) => {
+  try {
+    const strategy = await BrandStrategyService.getActiveStrategy(req.user!.id);
+
+    return res.json({ strategy });
+  } catch (error) {
+    logger.error('Failed to get active brand strategy:', error);
+    return res.status(500).json({ error: 'Failed to get active brand strategy' });
+  }
+});
+
+/**
+ * Compare two strategy versions
+ * GET /api/brand-strategy/diff?from=<id>&to=<id>
+ */
+router.get('/diff', async (req, res) => {
+  try {
+    const { from, to } = req.query;
+    const userId = req.user!.id;
+
+    const errors = [
+      validateRequired(from, 'from'),
+      validateRequired(to, 'to')
+    ].filter(Boolean);
+
+    if (errors.length > 0) {
+      return res.status(400).json({ errors });
+    }
+
+    const [fromResult, toResult] = await Promise.all([
+      findOwnedStrategy(from as string, userId),
+      findOwnedStrategy(to as string, userId)
+    ]);
+
+    if (!fromResult.strategy) {
+      return res.status(fromResult.status!).json({ error: fromResult.error });
+    }
+    if (!toResult.strategy) {
+      return res.status(toResult.status!).json({ error: toResult.error });
+    }
+
+    const diff = BrandStrategyService.diffStrategies(fromResult.strategy, toResult.strategy);
+
+    return res.json({ diff });
+  } catch (error) {
+    logger.error('Failed to diff brand strategies:', error);
+    return res.status(500).json({ error: 'Failed to diff brand strategies' });
+  }
+});
+
+/**
+ * Save a new strategy version, based on baseId or the active strategy
+ * POST /api/brand-strategy
+ */
+router.post('/', async (req, res) => {
+  try {
+    const userId = req.user!.id;
+    const { baseId, activate = true } = req.body;
+    const input = pickStrategyInput(req.body);
+
+    const errors = validateBrandStrategy({ ...input, userId });
+    if (errors.length > 0) {
+      return res.status(400).json({ errors });
+    }
+
+    let base: BrandStrategy | null = null;
+    if (baseId) {
+      const { strategy, status, error } = await findOwnedStrategy(baseId, userId);
+      if (!strategy) {
+        return res.status(status!).json({ error });
+      }
+      base = strategy;
+    } else {
+      base = await BrandStrategyModel.findActiveStrategy(userId);
+    }
+
+    const strategy = await BrandStrategyService.saveVersion(userId, base, input, Boolean(activate));
+
+    return res.status(201).json({
+      message: 'Brand strategy saved successfully',
+      strategy
+    });
+  } catch (error) {
+    logger.error('Failed to save brand strategy:', error);
+    return res.status(500).json({ error: 'Failed to save brand strategy' });
+  }
+});
+
+/**
+ * Get a strategy version
+ * GET /api/brand-strategy/:id
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const { strategy, status, error } = await findOwnedStrategy(req.params.id, req.user!.id);
+    if (!strategy) {
+      return res.status(status!).json({ error });
+    }
+
+    return res.json({ strategy });
+  } catch (error) {
+    logger.error('Failed to get brand strategy:', error);
+    return res.status(500).json({ error: 'Failed to get brand strategy' });
+  }
+});
+
+/**
+ * Make an existing strategy version the active one
+ * POST /api/brand-strategy/:id/activate
+ */
+router.post('/:id/activate', async (req, res) => {
+  try {
+    const userId = req.user!.id;
+    const { strategy, status, error } = await findOwnedStrategy(req.params.id, userId);
+    if (!strategy) {
+      return res.status(status!).json({ error });
+    }
+
+    const activated = await BrandStrategyModel.setActiveStrategy(userId, strategy.id);
+
+    return res.json({
+      message: 'Brand strategy activated successfully',
+      strategy: activated
+    });
+  } catch (error) {
+    logger.error('Failed to activate brand strategy:', error);
+    return res.status(500).json({ error: 'Failed to activate brand strategy' });
+  }
+});
+
+/**
+ * Roll back to a previous version by restoring it as the newest active version
+ * POST /api/brand-strategy/:id/rollback
+ */
+router.post('/:id/rollback', async (req, res) => {
+  try {
+    const userId = req.user!.id;
+    const { strategy, status, error } = await findOwnedStrategy(req.params.id, userId);
+    if (!strategy) {
+      return res.status(status!).json({ error });
+    }
+
+    const restored = await BrandStrategyService.rollback(userId, strategy);
+
+    return res.json({
+      message: `Rolled back to version ${strategy.version}`,
+      strategy: restored
+    });
+  } catch (error) {
+    logger.error('Failed to roll back brand strategy:', error);
+    return res.status(500).json({ error: 'Failed to roll back brand strategy' });
+  }
+});
+
+/**
+ * Delete an inactive strategy version
+ * DELETE /api/brand-strategy/:id
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const { strategy, status, error } = await findOwnedStrategy(req.params.id, req.user!.id);
+    if (!strategy) {
+      return res.status(status!).json({ error });
+    }
+
+    if (strategy.isActive) {
+      return res.status(400).json({ error: 'The active brand strategy cannot be deleted' });
+    }
+
+    await BrandStrategyModel.delete(strategy.id);
+
+    return res.json({ message: 'Brand strategy deleted successfully' });
+  } catch (error) {
+    logger.error('Failed to delete brand strategy:', error);
+    return res.status(500).json({ error: 'Failed to delete brand strategy' });
+  }
+});
+
+export default router;
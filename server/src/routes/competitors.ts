@@ -0,0 +1,256 @@
+import { Router } from 'express';
+import { authenticateToken } from '@/middleware/auth';
+import { AppError } from '@/middleware/errorHandler';
+import { CompetitorModel, CompetitorSnapshotModel } from '@/models';
+import { CompetitorService } from '@/services/competitorService';
+import { WebSearchService } from '@/services/webSearchService';
+import { validateRequired } from '@/utils/modelValidation';
+import { Competitor } from '@/types';
+import { logger } from '@/utils/logger';
+
+const router = Router();
+
+// Apply authentication middleware to all routes
+router.use(authenticateToken);
+
+const MAX_TEXT_LENGTH = 200;
+
+/**
+ * Load a competitor and verify it belongs to the requesting user
+ */
+const findOwnedCompetitor = async (id: string, userId: string): Promise<{ competitor?: Competitor; status?: number; error?: string }> => {
+  const competitor = await CompetitorModel.findById(id);
+  if (!competitor) {
+    return { status: 404, error: 'Competitor not found' };
+  }
+
+  if (competitor.userId !== userId) {
+    return { status: 403, error: 'Access denied' };
+  }
+
+  return { competitor };
+};
+
+const validateText = (value: unknown, field: string): string | null => {
+  if (value === undefined) {
+    return null;
+  }
+  if (typeof value !== 'string' || value.length > MAX_TEXT_LENGTH) {
+    return `${field} must be a string of up to ${MAX_TEXT_LENGTH} characters`;
+  }
+  return null;
+};
+
+/**
+ * List the user's watchlist
+ * GET /api/competitors
+ */
+router.get('/', async (req, res) => {
+  try {
+    const competitors = await CompetitorModel.findByUserId(req.user!.id);
+    return res.json({ competitors });
+  } catch (error) {
+    logger.error('Failed to list competitors:', error);
+    return res.status(500).json({ error: 'Failed to list competitors' });
+  }
+});
+
+/**
+ * Add a competitor to the watchlist and take a first snapshot
+ * POST /api/competitors
+ */
+router.post('/', async (req, res) => {
+  try {
+    const { name, industry, domain } = req.body;
+
+    const errors = [
+      validateRequired(name, 'name'),
+      validateRequired(industry, 'industry'),
+      validateText(name, 'name'),
+      validateText(industry, 'industry'),
+      validateText(domain, 'domain')
+    ].filter(Boolean);
+
+    if (errors.length > 0) {
+      return res.status(400).json({ errors });
+    }
+
+    const competitor = await CompetitorService.addCompetitor(req.user!.id, { name, industry, ...(domain && { domain }) });
+
+    let snapshot = null;
+    try {
+      snapshot = await WebSearchService.snapshotCompetitor(competitor);
+    } catch (error) {
+      // Don't throw - the competitor is tracked and the next refresh snapshots it
+    }
+
+    return res.status(201).json({
+      message: 'Competitor added successfully',
+      competitor,
+      snapshot
+    });
+  } catch (error) {
+    const { statusCode, message } = error as AppError;
+    if (statusCode && statusCode < 500) {
+      return res.status(statusCode).json({ error: message });
+    }
+    logger.error('Failed to add competitor:', error);
+    return res.status(500).json({ error: 'Failed to add competitor' });
+  }
+});
+
+/**
+ * Get a competitor with its recent snapshots, newest first
+ * GET /api/competitors/:id?limit=20
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const { competitor, status, error } = await findOwnedCompetitor(req.params['id']!, req.user!.id);
+    if (!competitor) {
+      return res.status(status!).json({ error });
+    }
+
+    const limit = Math.min(Math.max(parseInt(req.query['limit'] as string) || 20, 1), 100);
+    const snapshots = await CompetitorSnapshotModel.findByCompetitorId(competitor.id, limit);
+
+    return res.json({ competitor, snapshots });
+  } catch (error) {
+    logger.error('Failed to get competitor:', error);
+    return res.status(500).json({ error: 'Failed to get competitor' });
+  }
+});
+
+/**
+ * Change a competitor's details, or pause/resume tracking
+ * PUT /api/competitors/:id
+ */
+router.put('/:id', async (req, res) => {
+  try {
+    const { domain, industry, isActive } = req.body;
+
+    const errors = [
+      validateText(domain, 'domain'),
+      validateText(industry, 'industry'),
+      industry !== undefined && !String(industry).trim() ? 'industry cannot be empty' : null,
+      isActive !== undefined && typeof isActive !== 'boolean' ? 'isActive must be a boolean' : null
+    ].filter(Boolean);
+
+    if (errors.length > 0) {
+      return res.status(400).json({ errors });
+    }
+
+    const { competitor, status, error } = await findOwnedCompetitor(req.params['id']!, req.user!.id);
+    if (!competitor) {
+      return res.status(status!).json({ error });
+    }
+
+    const updated = await CompetitorModel.update(competitor.id, {
+      ...(domain !== undefined && { domain: domain.trim() }),
+      ...(industry !== undefined && { industry: industry.trim() }),
+      ...(isActive !== undefined && { isActive })
+    });
+
+    return res.json({
+      message: 'Competitor updated successfully',
+      competitor: updated
+    });
+  } catch (error) {
+    logger.error('Failed to update competitor:', error);
+    return res.status(500).json({ error: 'Failed to update competitor' });
+  }
+});
+
+/**
+ * Take a snapshot now
+ * POST /api/competitors/:id/snapshot
+ */
+router.post('/:id/snapshot', async (req, res) => {
+  try {
+    const { competitor, status, error } = await findOwnedCompetitor(req.params['id']!, req.user!.id);
+    if (!competitor) {
+      return res.status(status!).json({ error });
+    }
+
+    const snapshot = await WebSearchService.snapshotCompetitor(competitor);
+
+    return res.status(201).json({
+      message: 'Snapshot taken successfully',
+      snapshot
+    });
+  } catch (error) {
+    logger.error('Failed to snapshot competitor:', error);
+    return res.status(500).json({ error: 'Failed to snapshot competitor' });
+  }
+});
+
+/**
+ * What changed since a date (a week ago by default)
+ * GET /api/competitors/:id/diff?since=2026-10-12
+ */
+router.get('/:id/diff', async (req, res) => {
+  try {
+    const since = req.query['since'] ? new Date(req.query['since'] as string) : undefined;
+    if (since && isNaN(since.getTime())) {
+      return res.status(400).json({ error: 'since must be a date' });
+    }
+
+    const { competitor, status, error } = await findOwnedCompetitor(req.params['id']!, req.user!.id);
+    if (!competitor) {
+      return res.status(status!).json({ error });
+    }
+
+    const diff = await CompetitorService.getDiff(competitor, since);
+
+    return res.json({ diff });
+  } catch (error) {
+    const { statusCode, message } = error as AppError;
+    if (statusCode && statusCode < 500) {
+      return res.status(statusCode).json({ error: message });
+    }
+    logger.error('Failed to diff competitor snapshots:', error);
+    return res.status(500).json({ error: 'Failed to diff competitor snapshots' });
+  }
+});
+
+/**
+ * Other tracked competitors most like this one
+ * GET /api/competitors/:id/similar?limit=5
+ */
+router.get('/:id/similar', async (req, res) => {
+  try {
+    const { competitor, status, error } = await findOwnedCompetitor(req.params['id']!, req.user!.id);
+    if (!competitor) {
+      return res.status(status!).json({ error });
+    }
+
+    const limit = Math.min(Math.max(parseInt(req.query['limit'] as string) || 5, 1), 20);
+    const similar = await CompetitorService.findSimilar(competitor, limit);
+
+    return res.json({ similar });
+  } catch (error) {
+    logger.error('Failed to find similar competitors:', error);
+    return res.status(500).json({ error: 'Failed to find similar competitors' });
+  }
+});
+
+/**
+ * Stop tracking a competitor and delete its history
+ * DELETE /api/competitors/:id
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const { competitor, status, error } = await findOwnedCompetitor(req.params['id']!, req.user!.id);
+    if (!competitor) {
+      return res.status(status!).json({ error });
+    }
+
+    await CompetitorService.removeCompetitor(competitor);
+
+    return res.json({ message: 'Competitor removed successfully' });
+  } catch (error) {
+    logger.error('Failed to remove competitor:', error);
+    return res.status(500).json({ error: 'Failed to remove competitor' });
+  }
+});
+
+export default router;
@@ -0,0 +1,311 @@
+import { Router } from 'express';
+import { authenticateToken } from '@/middleware/auth';
+import { AppError } from '@/middleware/errorHandler';
+import { ContentModel } from '@/models';
+import { AlignmentService } from '@/services/alignmentService';
+import { ContentService, ContentInput } from '@/services/contentService';
+import { GENERATION_PLATFORMS, GenerationPlatform } from '@/services/generationService';
+import { RepurposeService } from '@/services/repurposeService';
+import { validateRequired, validateContent } from '@/utils/modelValidation';
+import { Content, ContentFilters } from '@/types';
+import { logger } from '@/utils/logger';
+
+const router = Router();
+
+// Apply authentication middleware to all routes
+router.use(authenticateToken);
+
+/**
+ * Load a content item and verify it belongs to the requesting user
+ */
+const findOwnedContent = async (id: string, userId: string): Promise<{ content?: Content; status?: number; error?: string }> => {
+  const content = await ContentModel.findById(id);
+  if (!content) {
+    return { status: 404, error: 'Content not found' };
+  }
+
+  if (content.userId !== userId) {
+    return { status: 403, error: 'Access denied' };
+  }
+
+  return { content };
+};
+
+/**
+ * Create a content item
+ * POST /api/content
+ */
+router.post('/', async (req, res) => {
+  try {
+    const { platform, contentType, title, body, tags = [], status = 'draft' } = req.body;
+    const userId = req.user!.id;
+
+    // Validate required fields
+    const errors = [
+      validateRequired(platform, 'platform'),
+      validateRequired(contentType, 'contentType'),
+      validateRequired(body, 'body'),
+      ...validateContent({ userId, platform, contentType, body, status })
+    ].filter(Boolean);
+
+    if (errors.length > 0) {
+      return res.status(400).json({ errors });
+    }
+
+    const contentData: ContentInput = {
+      platform,
+      contentType,
+      body,
+      tags,
+      brandAlignment: 0,
+      performanceScore: 0,
+      status
+    };
+    if (title) {
+      contentData.title = title;
+    }
+
+    const content = await ContentService.createContent(userId, contentData);
+
+    return res.status(201).json({
+      message: 'Content created successfully',
+      content
+    });
+  } catch (error) {
+    logger.error('Failed to create content:', error);
+    return res.status(500).json({ error: 'Failed to create content' });
+  }
+});
+
+/**
+ * List content with optional filters
+ * GET /api/content?platform=&status=&tags=a,b&from=&to=&limit=&offset=
+ */
+router.get('/', async (req, res) => {
+  try {
+    const { platform, status, tags, from, to, limit = 50, offset = 0 } = req.query;
+    const userId = req.user!.id;
+
+    const filters: ContentFilters = {
+      limit: Math.min(parseInt(limit as string) || 50, 200),
+      offset: parseInt(offset as string) || 0
+    };
+
+    if (platform) {
+      filters.platform = platform as string;
+    }
+    if (status) {
+      if (!['draft', 'published', 'archived'].includes(status as string)) {
+        return res.status(400).json({ error: 'Status must be draft, published, or archived' });
+      }
+      filters.status = status as Content['status'];
+    }
+    if (tags) {
+      filters.tags = (tags as string).split(',').map(tag => tag.trim()).filter(Boolean);
+    }
+    if (from) {
+      filters.from = new Date(from as string);
+    }
+    if (to) {
+      filters.to = new Date(to as string);
+    }
+
+    if ((filters.from && isNaN(filters.from.getTime())) || (filters.to && isNaN(filters.to.getTime()))) {
+      return res.status(400).json({ error: 'from and to must be valid dates' });
+    }
+
+    const content = await ContentService.listContent(userId, filters);
+
+    return res.json({
+      content,
+      count: content.length
+    });
+  } catch (error) {
+    logger.error('Failed to list content:', error);
+    return res.status(500).json({ error: 'Failed to list content' });
+  }
+});
+
+/**
+ * Get a content item
+ * GET /api/content/:id
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const { content, status, error } = await findOwnedContent(req.params.id, req.user!.id);
+    if (!content) {
+      return res.status(status!).json({ error });
+    }
+
+    return res.json({ content });
+  } catch (error) {
+    logger.error('Failed to get content:', error);
+    return res.status(500).json({ error: 'Failed to get content' });
+  }
+});
+
+/**
+ * Score a content item against the writing style profile and active brand
+ * strategy, with an explanation per check
+ * GET /api/content/:id/alignment
+ */
+router.get('/:id/alignment', async (req, res) => {
+  try {
+    const { content, status, error } = await findOwnedContent(req.params.id, req.user!.id);
+    if (!content) {
+      return res.status(status!).json({ error });
+    }
+
+    const alignment = await AlignmentService.scoreContent(content);
+
+    return res.json({ contentId: content.id, alignment });
+  } catch (error) {
+    logger.error('Failed to score content alignment:', error);
+    return res.status(500).json({ error: 'Failed to score content alignment' });
+  }
+});
+
+/**
+ * Repurpose a content item into draft variants for other platforms, linked
+ * to it as their parent
+ * POST /api/content/:id/repurpose
+ */
+router.post('/:id/repurpose', async (req, res) => {
+  try {
+    const { content, status, error } = await findOwnedContent(req.params.id, req.user!.id);
+    if (!content) {
+      return res.status(status!).json({ error });
+    }
+
+    const { platforms } = req.body;
+    if (platforms !== undefined && (!Array.isArray(platforms) || platforms.some(platform => !GENERATION_PLATFORMS.includes(platform)))) {
+      return res.status(400).json({ errors: [`platforms must be a list of ${GENERATION_PLATFORMS.join(', ')}`] });
+    }
+
+    const result = await RepurposeService.repurpose(content, platforms as GenerationPlatform[] | undefined);
+
+    return res.status(201).json({
+      message: 'Content repurposed successfully',
+      contentId: content.id,
+      ...result
+    });
+  } catch (error) {
+    const { statusCode, message } = error as AppError;
+    if (statusCode && statusCode !== 500) {
+      return res.status(statusCode).json({ error: message });
+    }
+    logger.error('Failed to repurpose content:', error);
+    return res.status(500).json({ error: 'Failed to repurpose content' });
+  }
+});
+
+/**
+ * Get the variants repurposed from a content item
+ * GET /api/content/:id/variants
+ */
+router.get('/:id/variants', async (req, res) => {
+  try {
+    const { content, status, error } = await findOwnedContent(req.params.id, req.user!.id);
+    if (!content) {
+      return res.status(status!).json({ error });
+    }
+
+    const variants = await RepurposeService.getVariants(content);
+
+    return res.json({ contentId: content.id, variants });
+  } catch (error) {
+    logger.error('Failed to get content variants:', error);
+    return res.status(500).json({ error: 'Failed to get content variants' });
+  }
+});
+
+/**
+ * Update a content item
+ * PUT /api/content/:id
+ */
+router.put('/:id', async (req, res) => {
+  try {
+    const { content, status, error } = await findOwnedContent(req.params.id, req.user!.id);
+    if (!content) {
+      return res.status(status!).json({ error });
+    }
+
+    const { platform, contentType, title, body, tags, performanceScore, status: newStatus } = req.body;
+    const updates: Partial<ContentInput> = {};
+
+    if (platform !== undefined) updates.platform = platform;
+    if (contentType !== undefined) updates.contentType = contentType;
+    if (title !== undefined) updates.title = title;
+    if (body !== undefined) updates.body = body;
+    if (tags !== undefined) updates.tags = tags;
+    if (newStatus !== undefined) updates.status = newStatus;
+    if (performanceScore !== undefined) updates.performanceScore = performanceScore;
+
+    const errors = [
+      ...(performanceScore !== undefined && typeof performanceScore !== 'number' ? ['Performance score must be a number'] : []),
+      ...validateContent({ ...content, ...updates })
+    ];
+    if (errors.length > 0) {
+      return res.status(400).json({ errors });
+    }
+
+    const updated = await ContentService.updateContent(content, updates);
+
+    return res.json({
+      message: 'Content updated successfully',
+      content: updated
+    });
+  } catch (error) {
+    logger.error('Failed to update content:', error);
+    return res.status(500).json({ error: 'Failed to update content' });
+  }
+});
+
+/**
+ * Archive a content item
+ * POST /api/content/:id/archive
+ */
+router.post('/:id/archive', async (req, res) => {
+  try {
+    const { content, status, error } = await findOwnedContent(req.params.id, req.user!.id);
+    if (!content) {
+      return res.status(status!).json({ error });
+    }
+
+    const archived = await ContentService.archiveContent(content);
+
+    return res.json({
+      message: 'Content archived successfully',
+      content: archived
+    });
+  } catch (error) {
+    logger.error('Failed to archive content:', error);
+    return res.status(500).json({ error: 'Failed to archive content' });
+  }
+});
+
+/**
+ * Delete a content item
+ * DELETE /api/content/:id
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const { content, status, error } = await findOwnedContent(req.params.id, req.user!.id);
+    if (!content) {
+      return res.status(status!).json({ error });
+    }
+
+    const deleted = await ContentService.deleteContent(content);
+
+    if (deleted) {
+      return res.json({ message: 'Content deleted successfully' });
+    } else {
+      return res.status(404).json({ error: 'Content not found' });
+    }
+  } catch (error) {
+    logger.error('Failed to delete content:', error);
+    return res.status(500).json({ error: 'Failed to delete content' });
+  }
+});
+
+export default router;
@@ -1,8 +1,8 @@
 import { Router } from 'express';
 import { authenticateToken } from '@/middleware/auth';
 import { EmbeddingService } from '@/services/embeddingService';
-import { VectorDatabaseService } from '@/utils/vectorDatabase';
-import { validateRequired } from '@/utils/modelValidation';
+import { VectorDatabaseService, HybridSearchFilters } from '@/utils/vectorDatabase';
+import { validateRequired, validateArray, validateRange } from '@/utils/modelValidation';
 import { logger } from '@/utils/logger';
 
 const router = Router();
@@ -103,38 +103,60 @@ router.post('/context', async (req, res) => {
 });
 
 /**
- * Semantic search across user's documents
+ * Hybrid keyword and semantic search across user's documents
  * POST /api/embeddings/search
  */
 router.post('/search', async (req, res) => {
   try {
-    const { query, documentTypes, limit = 10, threshold = 0.7 } = req.body;
+    const { query, documentTypes, limit = 10, threshold, platform, contentType, from, to } = req.body;
     const userId = req.user!.userId;
 
     // Validate required fields
     const errors = [
-      validateRequired(query, 'query')
+      validateRequired(query, 'query'),
+      documentTypes !== undefined ? validateArray(documentTypes, 'documentTypes') : null,
+      validateRange(limit, 1, 50, 'limit'),
+      threshold !== undefined ? validateRange(threshold, 0, 1, 'threshold') : null
     ].filter(Boolean);
 
+    const filters: Omit<HybridSearchFilters, 'documentTypes'> = {};
+    if (platform) {
+      filters.platform = platform;
+    }
+    if (contentType) {
+      filters.contentType = contentType;
+    }
+    if (from) {
+      filters.from = new Date(from);
+    }
+    if (to) {
+      filters.to = new Date(to);
+    }
+
+    if ((filters.from && isNaN(filters.from.getTime())) || (filters.to && isNaN(filters.to.getTime()))) {
+      errors.push('from and to must be valid dates');
+    }
+
     if (errors.length > 0) {
       return res.status(400).json({ errors });
     }
 
     const results = await EmbeddingService.findSimilarContent(userId, query, {
-      documentTypes,
+      ...(documentTypes && { documentTypes }),
+      ...(threshold !== undefined && { threshold }),
       limit,
-      threshold,
-      includeMetadata: true
+      includeMetadata: true,
+      filters
     });
 
-    res.json({
+    return res.json({
       query,
       results,
       count: results.length
     });
   } catch (error) {
     logger.error('Failed to perform semantic search:', error);
-    res.status(500).json({ error: 'Failed to perform semantic search' });
+    return res.status(500).json({ error: 'Failed to perform semantic search' });
   }
 });
 
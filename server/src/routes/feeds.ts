@@ -0,0 +1,178 @@
+import { Router } from 'express';
+import { authenticateToken } from '@/middleware/auth';
+import { AppError } from '@/middleware/errorHandler';
+import { FeedSubscriptionModel } from '@/models';
+import { FeedService } from '@/services/feedService';
+import { validateRequired } from '@/utils/modelValidation';
+import { FeedSubscription } from '@/types';
+import { logger } from '@/utils/logger';
+
+const router = Router();
+
+// Apply authentication middleware to all routes
+router.use(authenticateToken);
+
+const MIN_POLL_INTERVAL_MINUTES = 5;
+const MAX_POLL_INTERVAL_MINUTES = 24 * 60;
+
+/**
+ * Load a subscription and verify it belongs to the requesting user
+ */
+const findOwnedSubscription = async (id: string, userId: string): Promise<{ subscription?: FeedSubscription; status?: number; error?: string }> => {
+  const subscription = await FeedSubscriptionModel.findById(id);
+  if (!subscription) {
+    return { status: 404, error: 'Feed subscription not found' };
+  }
+
+  if (subscription.userId !== userId) {
+    return { status: 403, error: 'Access denied' };
+  }
+
+  return { subscription };
+};
+
+const validatePollInterval = (value: unknown): string | null => {
+  if (value === undefined) {
+    return null;
+  }
+  if (!Number.isInteger(value) || (value as number) < MIN_POLL_INTERVAL_MINUTES || (value as number) > MAX_POLL_INTERVAL_MINUTES) {
+    return `pollIntervalMinutes must be a whole number between ${MIN_POLL_INTERVAL_MINUTES} and ${MAX_POLL_INTERVAL_MINUTES}`;
+  }
+  return null;
+};
+
+/**
+ * List the user's feed subscriptions
+ * GET /api/feeds
+ */
+router.get('/', async (req, res) => {
+  try {
+    const subscriptions = await FeedSubscriptionModel.findByUserId(req.user!.id);
+    return res.json({ subscriptions });
+  } catch (error) {
+    logger.error('Failed to list feed subscriptions:', error);
+    return res.status(500).json({ error: 'Failed to list feed subscriptions' });
+  }
+});
+
+/**
+ * Subscribe to an RSS, Atom or JSON feed
+ * POST /api/feeds
+ */
+router.post('/', async (req, res) => {
+  try {
+    const { url, pollIntervalMinutes } = req.body;
+
+    const errors = [
+      validateRequired(url, 'url'),
+      validatePollInterval(pollIntervalMinutes)
+    ].filter(Boolean);
+
+    if (errors.length > 0) {
+      return res.status(400).json({ errors });
+    }
+
+    const { subscription, items } = await FeedService.subscribe(req.user!.id, String(url).trim(), pollIntervalMinutes);
+
+    return res.status(201).json({
+      message: 'Subscribed to feed successfully',
+      subscription,
+      newItems: items.length
+    });
+  } catch (error) {
+    const { statusCode, message } = error as AppError;
+    if (statusCode && statusCode < 500) {
+      return res.status(statusCode).json({ error: message });
+    }
+    logger.error('Failed to subscribe to feed:', error);
+    return res.status(500).json({ error: 'Failed to subscribe to feed' });
+  }
+});
+
+/**
+ * Rename, pause/resume or change the poll interval of a subscription
+ * PUT /api/feeds/:id
+ */
+router.put('/:id', async (req, res) => {
+  try {
+    const { title, pollIntervalMinutes, isActive } = req.body;
+
+    const errors = [
+      validatePollInterval(pollIntervalMinutes),
+      isActive !== undefined && typeof isActive !== 'boolean' ? 'isActive must be a boolean' : null
+    ].filter(Boolean);
+
+    if (errors.length > 0) {
+      return res.status(400).json({ errors });
+    }
+
+    const { subscription, status, error } = await findOwnedSubscription(req.params['id']!, req.user!.id);
+    if (!subscription) {
+      return res.status(status!).json({ error });
+    }
+
+    const updated = await FeedSubscriptionModel.update(subscription.id, {
+      ...(title !== undefined && { title }),
+      ...(pollIntervalMinutes !== undefined && { pollIntervalMinutes }),
+      ...(isActive !== undefined && { isActive })
+    });
+
+    return res.json({
+      message: 'Feed subscription updated successfully',
+      subscription: updated
+    });
+  } catch (error) {
+    logger.error('Failed to update feed subscription:', error);
+    return res.status(500).json({ error: 'Failed to update feed subscription' });
+  }
+});
+
+/**
+ * Poll a subscription now instead of waiting for its interval
+ * POST /api/feeds/:id/poll
+ */
+router.post('/:id/poll', async (req, res) => {
+  try {
+    const { subscription, status, error } = await findOwnedSubscription(req.params['id']!, req.user!.id);
+    if (!subscription) {
+      return res.status(status!).json({ error });
+    }
+
+    const result = await FeedService.poll(subscription);
+
+    return res.json({
+      message: result.notModified ? 'Feed has not changed' : 'Feed polled successfully',
+      subscription: result.subscription,
+      newItems: result.items.length
+    });
+  } catch (error) {
+    const { statusCode, message } = error as AppError;
+    if (statusCode && statusCode < 500) {
+      return res.status(statusCode).json({ error: message });
+    }
+    logger.error('Failed to poll feed:', error);
+    return res.status(500).json({ error: 'Failed to poll feed' });
+  }
+});
+
+/**
+ * Unsubscribe from a feed. Items already in the intelligence feed are kept.
+ * DELETE /api/feeds/:id
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const { subscription, status, error } = await findOwnedSubscription(req.params['id']!, req.user!.id);
+    if (!subscription) {
+      return res.status(status!).json({ error });
+    }
+
+    await FeedSubscriptionModel.delete(subscription.id);
+
+    return res.json({ message: 'Unsubscribed from feed successfully' });
+  } catch (error) {
+    logger.error('Failed to delete feed subscription:', error);
+    return res.status(500).json({ error: 'Failed to delete feed subscription' });
+  }
+});
+
+export default router;
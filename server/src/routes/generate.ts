@@ -0,0 +1,93 @@
+import { Router } from 'express';
+import { authenticateToken } from '@/middleware/auth';
+import { AppError } from '@/middleware/errorHandler';
+import { ProjectModel } from '@/models';
+import { GENERATION_PLATFORMS, GenerationPlatform, GenerationService, MAX_DRAFTS } from '@/services/generationService';
+import { validateRequired } from '@/utils/modelValidation';
+import { Project } from '@/types';
+import { logger } from '@/utils/logger';
+
+const router = Router();
+
+// Apply authentication middleware to all routes
+router.use(authenticateToken);
+
+const MAX_TOPIC_LENGTH = 500;
+
+/**
+ * Load a project and verify it belongs to the requesting user
+ */
+const findOwnedProject = async (id: string, userId: string): Promise<{ project?: Project; status?: number; error?: string }> => {
+  const project = await ProjectModel.findById(id);
+  if (!project) {
+    return { status: 404, error: 'Project not found' };
+  }
+
+  if (project.userId !== userId) {
+    return { status: 403, error: 'Access denied' };
+  }
+
+  return { project };
+};
+
+/**
+ * Generate post drafts in the user's voice and save them to the content library
+ * POST /api/generate/post
+ */
+router.post('/post', async (req, res) => {
+  try {
+    const { topic, platform, projectId, contentType, count = 3 } = req.body;
+
+    const errors = [
+      validateRequired(topic, 'topic'),
+      validateRequired(platform, 'platform'),
+      typeof topic === 'string' && topic.length > MAX_TOPIC_LENGTH
+        ? `topic must be at most ${MAX_TOPIC_LENGTH} characters`
+        : null,
+      platform && !GENERATION_PLATFORMS.includes(platform)
+        ? `platform must be one of ${GENERATION_PLATFORMS.join(', ')}`
+        : null,
+      contentType !== undefined && typeof contentType !== 'string'
+        ? 'contentType must be a string'
+        : null,
+      !Number.isInteger(count) || count < 1 || count > MAX_DRAFTS
+        ? `count must be between 1 and ${MAX_DRAFTS}`
+        : null
+    ].filter(Boolean);
+
+    if (errors.length > 0) {
+      return res.status(400).json({ errors });
+    }
+
+    let project: Project | undefined;
+    if (projectId) {
+      const owned = await findOwnedProject(projectId, req.user!.id);
+      if (!owned.project) {
+        return res.status(owned.status!).json({ error: owned.error });
+      }
+      project = owned.project;
+    }
+
+    const result = await GenerationService.generatePost(req.user!.id, {
+      topic: topic.trim(),
+      platform: platform as GenerationPlatform,
+      count,
+      ...(contentType && { contentType }),
+      ...(project && { project })
+    });
+
+    return res.status(201).json({
+      message: 'Drafts generated successfully',
+      ...result
+    });
+  } catch (error) {
+    const { statusCode, message } = error as AppError;
+    if (statusCode && statusCode !== 500) {
+      return res.status(statusCode).json({ error: message });
+    }
+    logger.error('Failed to generate post:', error);
+    return res.status(500).json({ error: 'Failed to generate post' });
+  }
+});
+
+export default router;
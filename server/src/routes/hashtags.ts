@@ -0,0 +1,56 @@
+import { Router } from 'express';
+import { authenticateToken } from '@/middleware/auth';
+import { GENERATION_PLATFORMS, GenerationPlatform } from '@/services/generationService';
+import { HashtagService } from '@/services/hashtagService';
+import { logger } from '@/utils/logger';
+
+const router = Router();
+
+// Apply authentication middleware to all routes
+router.use(authenticateToken);
+
+const MAX_TOPICS = 10;
+
+const parseList = (value: unknown): string[] =>
+  value ? (value as string).split(',').map(entry => entry.trim()).filter(Boolean) : [];
+
+/**
+ * Get ranked hashtag suggestions with the reasons behind each
+ * GET /api/hashtags/recommendations?platform=linkedin&topics=AI agents,sales&limit=5
+ */
+router.get('/recommendations', async (req, res) => {
+  try {
+    const { platform, topics, limit } = req.query;
+    const topicList = parseList(topics);
+    const parsedLimit = limit !== undefined ? parseInt(limit as string) : undefined;
+
+    const errors = [
+      platform !== undefined && !GENERATION_PLATFORMS.includes(platform as GenerationPlatform)
+        ? `platform must be one of ${GENERATION_PLATFORMS.join(', ')}`
+        : null,
+      topicList.length > MAX_TOPICS
+        ? `topics must list at most ${MAX_TOPICS} entries`
+        : null,
+      parsedLimit !== undefined && (!Number.isInteger(parsedLimit) || parsedLimit < 1)
+        ? 'limit must be a positive whole number'
+        : null
+    ].filter(Boolean);
+
+    if (errors.length > 0) {
+      return res.status(400).json({ errors });
+    }
+
+    const recommendations = await HashtagService.recommend(req.user!.id, {
+      topics: topicList,
+      ...(platform && { platform: platform as GenerationPlatform }),
+      ...(parsedLimit !== undefined && { limit: parsedLimit })
+    });
+
+    return res.json(recommendations);
+  } catch (error) {
+    logger.error('Failed to recommend hashtags:', error);
+    return res.status(500).json({ error: 'Failed to recommend hashtags' });
+  }
+});
+
+export default router;
@@ -0,0 +1,242 @@
+import { Router } from 'express';
+import { authenticateToken } from '@/middleware/auth';
+import { AppError } from '@/middleware/errorHandler';
+import { IngestDeadLetterModel, IngestSourceModel } from '@/models';
+import { IngestService } from '@/services/ingestService';
+import { validateRequired } from '@/utils/modelValidation';
+import { validateMapping } from '@/utils/ingestMapping';
+import { IngestSource } from '@/types';
+import { logger } from '@/utils/logger';
+
+const router = Router();
+
+/**
+ * Receive a Huginn Post Agent event. Authenticated by the X-Huginn-Signature
+ * header rather than a user token; the body arrives raw so it can be verified.
+ * POST /api/ingest/huginn/:sourceId
+ */
+router.post('/huginn/:sourceId', async (req, res) => {
+  try {
+    const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+
+    const result = await IngestService.receive(req.params['sourceId']!, body, {
+      ...(req.get('X-Huginn-Signature') && { signature: req.get('X-Huginn-Signature')! }),
+      ...(req.get('Idempotency-Key') && { idempotencyKey: req.get('Idempotency-Key')! })
+    });
+
+    if (result.status === 'dead_lettered') {
+      return res.status(422).json({
+        error: result.deadLetter!.error,
+        deadLetterId: result.deadLetter!.id
+      });
+    }
+
+    return res.status(result.status === 'processed' ? 201 : 200).json(result);
+  } catch (error) {
+    const { statusCode, message } = error as AppError;
+    if (statusCode && statusCode < 500) {
+      return res.status(statusCode).json({ error: message });
+    }
+    logger.error('Failed to ingest Huginn event:', error);
+    return res.status(500).json({ error: 'Failed to ingest event' });
+  }
+});
+
+// Everything below manages sources and needs a signed-in user
+router.use(authenticateToken);
+
+/**
+ * Load an ingest source and verify it belongs to the requesting user
+ */
+const findOwnedSource = async (id: string, userId: string): Promise<{ source?: IngestSource; status?: number; error?: string }> => {
+  const source = await IngestSourceModel.findById(id);
+  if (!source) {
+    return { status: 404, error: 'Ingest source not found' };
+  }
+
+  if (source.userId !== userId) {
+    return { status: 403, error: 'Access denied' };
+  }
+
+  return { source };
+};
+
+/**
+ * List the user's ingest sources
+ * GET /api/ingest/sources
+ */
+router.get('/sources', async (req, res) => {
+  try {
+    const sources = await IngestSourceModel.findByUserId(req.user!.id);
+    return res.json({ sources });
+  } catch (error) {
+    logger.error('Failed to list ingest sources:', error);
+    return res.status(500).json({ error: 'Failed to list ingest sources' });
+  }
+});
+
+/**
+ * Create an ingest source. The signing secret is only shown in this response.
+ * POST /api/ingest/sources
+ */
+router.post('/sources', async (req, res) => {
+  try {
+    const { name, mapping } = req.body;
+
+    const errors = [
+      validateRequired(name, 'name'),
+      ...validateMapping(mapping)
+    ].filter(Boolean);
+
+    if (errors.length > 0) {
+      return res.status(400).json({ errors });
+    }
+
+    const { source, secret } = await IngestService.createSource(req.user!.id, String(name).trim(), mapping);
+
+    return res.status(201).json({
+      message: 'Ingest source created successfully',
+      source,
+      secret,
+      webhookPath: `/api/ingest/huginn/${source.id}`
+    });
+  } catch (error) {
+    logger.error('Failed to create ingest source:', error);
+    return res.status(500).json({ error: 'Failed to create ingest source' });
+  }
+});
+
+/**
+ * Rename, remap or pause/resume a source
+ * PUT /api/ingest/sources/:id
+ */
+router.put('/sources/:id', async (req, res) => {
+  try {
+    const { name, mapping, isActive } = req.body;
+
+    const errors = [
+      ...(mapping !== undefined ? validateMapping(mapping) : []),
+      isActive !== undefined && typeof isActive !== 'boolean' ? 'isActive must be a boolean' : null
+    ].filter(Boolean);
+
+    if (errors.length > 0) {
+      return res.status(400).json({ errors });
+    }
+
+    const { source, status, error } = await findOwnedSource(req.params['id']!, req.user!.id);
+    if (!source) {
+      return res.status(status!).json({ error });
+    }
+
+    const updated = await IngestSourceModel.update(source.id, {
+      ...(name !== undefined && { name }),
+      ...(mapping !== undefined && { mapping }),
+      ...(isActive !== undefined && { isActive })
+    });
+
+    return res.json({
+      message: 'Ingest source updated successfully',
+      source: updated
+    });
+  } catch (error) {
+    logger.error('Failed to update ingest source:', error);
+    return res.status(500).json({ error: 'Failed to update ingest source' });
+  }
+});
+
+/**
+ * Issue a new signing secret
+ * POST /api/ingest/sources/:id/rotate-secret
+ */
+router.post('/sources/:id/rotate-secret', async (req, res) => {
+  try {
+    const { source, status, error } = await findOwnedSource(req.params['id']!, req.user!.id);
+    if (!source) {
+      return res.status(status!).json({ error });
+    }
+
+    const secret = await IngestService.rotateSecret(source);
+
+    return res.json({
+      message: 'Secret rotated successfully',
+      secret
+    });
+  } catch (error) {
+    logger.error('Failed to rotate ingest source secret:', error);
+    return res.status(500).json({ error: 'Failed to rotate secret' });
+  }
+});
+
+/**
+ * Delete a source along with its dead letters. Records it created are kept.
+ * DELETE /api/ingest/sources/:id
+ */
+router.delete('/sources/:id', async (req, res) => {
+  try {
+    const { source, status, error } = await findOwnedSource(req.params['id']!, req.user!.id);
+    if (!source) {
+      return res.status(status!).json({ error });
+    }
+
+    await IngestSourceModel.delete(source.id);
+
+    return res.json({ message: 'Ingest source deleted successfully' });
+  } catch (error) {
+    logger.error('Failed to delete ingest source:', error);
+    return res.status(500).json({ error: 'Failed to delete ingest source' });
+  }
+});
+
+/**
+ * List events that could not be mapped
+ * GET /api/ingest/dead-letters?sourceId=&includeResolved=true
+ */
+router.get('/dead-letters', async (req, res) => {
+  try {
+    const { sourceId, includeResolved } = req.query;
+
+    const deadLetters = await IngestDeadLetterModel.find({
+      userId: req.user!.id,
+      ...(sourceId && { sourceId: String(sourceId) }),
+      includeResolved: includeResolved === 'true'
+    });
+
+    return res.json({ deadLetters });
+  } catch (error) {
+    logger.error('Failed to list dead letters:', error);
+    return res.status(500).json({ error: 'Failed to list dead letters' });
+  }
+});
+
+/**
+ * Run a dead letter through its source's current mapping again
+ * POST /api/ingest/dead-letters/:id/replay
+ */
+router.post('/dead-letters/:id/replay', async (req, res) => {
+  try {
+    const deadLetter = await IngestDeadLetterModel.findById(req.params['id']!);
+    if (!deadLetter) {
+      return res.status(404).json({ error: 'Dead letter not found' });
+    }
+
+    const { source, status, error } = await findOwnedSource(deadLetter.sourceId, req.user!.id);
+    if (!source) {
+      return res.status(status!).json({ error });
+    }
+
+    const result = await IngestService.replay(deadLetter);
+    if (result.status === 'dead_lettered') {
+      return res.status(422).json({ error: result.deadLetter!.error });
+    }
+
+    return res.json({
+      message: result.status === 'processed' ? 'Event processed successfully' : 'Event was already processed',
+      ...result
+    });
+  } catch (error) {
+    logger.error('Failed to replay dead letter:', error);
+    return res.status(500).json({ error: 'Failed to replay dead letter' });
+  }
+});
+
+export default router;
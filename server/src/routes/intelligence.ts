@@ -0,0 +1,198 @@
+import { Router } from 'express';
+import { authenticateToken } from '@/middleware/auth';
+import { IntelligenceDataModel } from '@/models';
+import { IntelligenceService } from '@/services/intelligenceService';
+import { validateIntelligenceData } from '@/utils/modelValidation';
+import { IntelligenceData, IntelligenceFeedFilters, IntelligenceStatus, IntelligenceType } from '@/types';
+import { logger } from '@/utils/logger';
+
+const router = Router();
+
+// Apply authentication middleware to all routes
+router.use(authenticateToken);
+
+const INTELLIGENCE_TYPES: IntelligenceType[] = ['trend', 'competitor', 'opportunity', 'threat', 'news'];
+const INTELLIGENCE_STATUSES: IntelligenceStatus[] = ['new', 'saved', 'dismissed', 'acted_on'];
+
+/**
+ * Load an intelligence item and verify it belongs to the requesting user
+ */
+const findOwnedItem = async (id: string, userId: string): Promise<{ item?: IntelligenceData; status?: number; error?: string }> => {
+  const item = await IntelligenceDataModel.findById(id);
+  if (!item) {
+    return { status: 404, error: 'Intelligence item not found' };
+  }
+
+  if (item.userId !== userId) {
+    return { status: 403, error: 'Access denied' };
+  }
+
+  return { item };
+};
+
+const parseList = (value: unknown): string[] =>
+  value ? (value as string).split(',').map(entry => entry.trim()).filter(Boolean) : [];
+
+/**
+ * Get the intelligence feed
+ * GET /api/intelligence?type=trend,news&status=new,saved&minRelevance=0.5&actionable=true&sort=relevance|recent&limit=&offset=
+ */
+router.get('/', async (req, res) => {
+  try {
+    const { type, status, minRelevance, actionable, sort = 'relevance', limit = 50, offset = 0 } = req.query;
+
+    const types = parseList(type);
+    if (types.some(entry => !INTELLIGENCE_TYPES.includes(entry as IntelligenceType))) {
+      return res.status(400).json({ error: `type must be one of ${INTELLIGENCE_TYPES.join(', ')}` });
+    }
+
+    const statuses = parseList(status);
+    if (statuses.some(entry => !INTELLIGENCE_STATUSES.includes(entry as IntelligenceStatus))) {
+      return res.status(400).json({ error: `status must be one of ${INTELLIGENCE_STATUSES.join(', ')}` });
+    }
+
+    if (sort !== 'relevance' && sort !== 'recent') {
+      return res.status(400).json({ error: 'sort must be relevance or recent' });
+    }
+
+    const filters: IntelligenceFeedFilters = {
+      types: types as IntelligenceType[],
+      // Dismissed items stay hidden unless asked for
+      statuses: statuses.length > 0 ? statuses as IntelligenceStatus[] : ['new', 'saved', 'acted_on'],
+      sort,
+      actionableOnly: actionable === 'true',
+      limit: Math.min(parseInt(limit as string) || 50, 200),
+      offset: parseInt(offset as string) || 0
+    };
+
+    if (minRelevance !== undefined) {
+      const score = parseFloat(minRelevance as string);
+      if (isNaN(score) || score < 0 || score > 1) {
+        return res.status(400).json({ error: 'minRelevance must be between 0 and 1' });
+      }
+      filters.minRelevance = score;
+    }
+
+    const feed = await IntelligenceService.getFeed(req.user!.id, filters);
+
+    return res.json(feed);
+  } catch (error) {
+    logger.error('Failed to get intelligence feed:', error);
+    return res.status(500).json({ error: 'Failed to get intelligence feed' });
+  }
+});
+
+/**
+ * Add an item to the feed
+ * POST /api/intelligence
+ */
+router.post('/', async (req, res) => {
+  try {
+    const { type, data, relevanceScore = 0.5, isActionable = false, source, expiresAt } = req.body;
+    const userId = req.user!.id;
+
+    const expiry = expiresAt ? new Date(expiresAt) : undefined;
+    if (expiry && isNaN(expiry.getTime())) {
+      return res.status(400).json({ error: 'expiresAt must be a valid date' });
+    }
+
+    const errors = validateIntelligenceData({
+      userId,
+      type,
+      data,
+      relevanceScore,
+      ...(expiry && { expiresAt: expiry })
+    });
+
+    if (errors.length > 0) {
+      return res.status(400).json({ errors });
+    }
+
+    const item = await IntelligenceService.createItem({
+      userId,
+      type,
+      data,
+      relevanceScore,
+      isActionable: !!isActionable,
+      ...(source && { source }),
+      ...(expiry && { expiresAt: expiry })
+    });
+
+    return res.status(201).json({
+      message: 'Intelligence item created successfully',
+      item
+    });
+  } catch (error) {
+    logger.error('Failed to create intelligence item:', error);
+    return res.status(500).json({ error: 'Failed to create intelligence item' });
+  }
+});
+
+/**
+ * Get a single feed item
+ * GET /api/intelligence/:id
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const { item, status, error } = await findOwnedItem(req.params['id']!, req.user!.id);
+    if (!item) {
+      return res.status(status!).json({ error });
+    }
+
+    return res.json({ item });
+  } catch (error) {
+    logger.error('Failed to get intelligence item:', error);
+    return res.status(500).json({ error: 'Failed to get intelligence item' });
+  }
+});
+
+/**
+ * Triage a feed item
+ * PUT /api/intelligence/:id/status
+ */
+router.put('/:id/status', async (req, res) => {
+  try {
+    const { status: nextStatus } = req.body;
+
+    if (!INTELLIGENCE_STATUSES.includes(nextStatus)) {
+      return res.status(400).json({ error: `status must be one of ${INTELLIGENCE_STATUSES.join(', ')}` });
+    }
+
+    const { item, status, error } = await findOwnedItem(req.params['id']!, req.user!.id);
+    if (!item) {
+      return res.status(status!).json({ error });
+    }
+
+    const updated = await IntelligenceService.updateStatus(item, nextStatus);
+
+    return res.json({
+      message: 'Intelligence item updated successfully',
+      item: updated
+    });
+  } catch (error) {
+    logger.error('Failed to update intelligence item:', error);
+    return res.status(500).json({ error: 'Failed to update intelligence item' });
+  }
+});
+
+/**
+ * Delete a feed item
+ * DELETE /api/intelligence/:id
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const { item, status, error } = await findOwnedItem(req.params['id']!, req.user!.id);
+    if (!item) {
+      return res.status(status!).json({ error });
+    }
+
+    await IntelligenceDataModel.delete(item.id);
+
+    return res.json({ message: 'Intelligence item deleted successfully' });
+  } catch (error) {
+    logger.error('Failed to delete intelligence item:', error);
+    return res.status(500).json({ error: 'Failed to delete intelligence item' });
+  }
+});
+
+export default router;
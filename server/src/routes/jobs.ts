@@ -0,0 +1,267 @@
+import { Router } from 'express';
+import { authenticateToken } from '@/middleware/auth';
+import { AppError } from '@/middleware/errorHandler';
+import { JobModel, JobScheduleModel } from '@/models';
+import { JobService } from '@/services/jobService';
+import { validateRequired } from '@/utils/modelValidation';
+import { Job, JobSchedule, JobStatus, JobType } from '@/types';
+import { logger } from '@/utils/logger';
+
+const router = Router();
+
+// Apply authentication middleware to all routes
+router.use(authenticateToken);
+
+const JOB_STATUSES: JobStatus[] = ['queued', 'running', 'succeeded', 'failed', 'cancelled'];
+
+/**
+ * Load a job and verify it belongs to the requesting user
+ */
+const findOwnedJob = async (id: string, userId: string): Promise<{ job?: Job; status?: number; error?: string }> => {
+  const job = await JobModel.findById(id);
+  if (!job) {
+    return { status: 404, error: 'Job not found' };
+  }
+
+  if (job.userId !== userId) {
+    return { status: 403, error: 'Access denied' };
+  }
+
+  return { job };
+};
+
+/**
+ * Load a schedule and verify it belongs to the requesting user
+ */
+const findOwnedSchedule = async (id: string, userId: string): Promise<{ schedule?: JobSchedule; status?: number; error?: string }> => {
+  const schedule = await JobScheduleModel.findById(id);
+  if (!schedule) {
+    return { status: 404, error: 'Schedule not found' };
+  }
+
+  if (schedule.userId !== userId) {
+    return { status: 403, error: 'Access denied' };
+  }
+
+  return { schedule };
+};
+
+const isPayload = (value: unknown): boolean =>
+  value === undefined || (typeof value === 'object' && value !== null && !Array.isArray(value));
+
+/**
+ * List the user's recent jobs
+ * GET /api/jobs?status=failed&type=trend_refresh&limit=50
+ */
+router.get('/', async (req, res) => {
+  try {
+    const { status, type, limit = 50 } = req.query;
+
+    if (status && !JOB_STATUSES.includes(status as JobStatus)) {
+      return res.status(400).json({ error: `status must be one of ${JOB_STATUSES.join(', ')}` });
+    }
+
+    const jobs = await JobModel.findByUserId(req.user!.id, {
+      ...(status && { status: status as JobStatus }),
+      ...(type && { type: type as JobType }),
+      limit: Math.min(Math.max(parseInt(limit as string) || 50, 1), 200)
+    });
+
+    return res.json({ jobs });
+  } catch (error) {
+    logger.error('Failed to list jobs:', error);
+    return res.status(500).json({ error: 'Failed to list jobs' });
+  }
+});
+
+/**
+ * Queue a one-off job
+ * POST /api/jobs
+ */
+router.post('/', async (req, res) => {
+  try {
+    const { type, payload, runAt } = req.body;
+
+    const errors = [
+      validateRequired(type, 'type'),
+      isPayload(payload) ? null : 'payload must be an object',
+      runAt !== undefined && isNaN(new Date(runAt).getTime()) ? 'runAt must be a date' : null
+    ].filter(Boolean);
+
+    if (errors.length > 0) {
+      return res.status(400).json({ errors });
+    }
+
+    const job = await JobService.enqueue(req.user!.id, type, payload ?? {}, runAt !== undefined ? new Date(runAt) : undefined);
+
+    return res.status(202).json({
+      message: 'Job queued successfully',
+      job
+    });
+  } catch (error) {
+    const { statusCode, message } = error as AppError;
+    if (statusCode && statusCode < 500) {
+      return res.status(statusCode).json({ error: message });
+    }
+    logger.error('Failed to queue job:', error);
+    return res.status(500).json({ error: 'Failed to queue job' });
+  }
+});
+
+/**
+ * List the user's recurring schedules
+ * GET /api/jobs/schedules
+ */
+router.get('/schedules', async (req, res) => {
+  try {
+    const schedules = await JobScheduleModel.findByUserId(req.user!.id);
+    return res.json({ schedules });
+  } catch (error) {
+    logger.error('Failed to list job schedules:', error);
+    return res.status(500).json({ error: 'Failed to list job schedules' });
+  }
+});
+
+/**
+ * Schedule a recurring job with a cron expression (UTC)
+ * POST /api/jobs/schedules
+ */
+router.post('/schedules', async (req, res) => {
+  try {
+    const { type, cron, payload } = req.body;
+
+    const errors = [
+      validateRequired(type, 'type'),
+      validateRequired(cron, 'cron'),
+      isPayload(payload) ? null : 'payload must be an object'
+    ].filter(Boolean);
+
+    if (errors.length > 0) {
+      return res.status(400).json({ errors });
+    }
+
+    const schedule = await JobService.createSchedule(req.user!.id, type, String(cron), payload ?? {});
+
+    return res.status(201).json({
+      message: 'Schedule created successfully',
+      schedule
+    });
+  } catch (error) {
+    const { statusCode, message } = error as AppError;
+    if (statusCode && statusCode < 500) {
+      return res.status(statusCode).json({ error: message });
+    }
+    logger.error('Failed to create job schedule:', error);
+    return res.status(500).json({ error: 'Failed to create job schedule' });
+  }
+});
+
+/**
+ * Change a schedule's cron or payload, or pause/resume it
+ * PUT /api/jobs/schedules/:id
+ */
+router.put('/schedules/:id', async (req, res) => {
+  try {
+    const { cron, payload, isActive } = req.body;
+
+    const errors = [
+      cron !== undefined && typeof cron !== 'string' ? 'cron must be a string' : null,
+      isPayload(payload) ? null : 'payload must be an object',
+      isActive !== undefined && typeof isActive !== 'boolean' ? 'isActive must be a boolean' : null
+    ].filter(Boolean);
+
+    if (errors.length > 0) {
+      return res.status(400).json({ errors });
+    }
+
+    const { schedule, status, error } = await findOwnedSchedule(req.params['id']!, req.user!.id);
+    if (!schedule) {
+      return res.status(status!).json({ error });
+    }
+
+    const updated = await JobService.updateSchedule(schedule, {
+      ...(cron !== undefined && { cron }),
+      ...(payload !== undefined && { payload }),
+      ...(isActive !== undefined && { isActive })
+    });
+
+    return res.json({
+      message: 'Schedule updated successfully',
+      schedule: updated
+    });
+  } catch (error) {
+    const { statusCode, message } = error as AppError;
+    if (statusCode && statusCode < 500) {
+      return res.status(statusCode).json({ error: message });
+    }
+    logger.error('Failed to update job schedule:', error);
+    return res.status(500).json({ error: 'Failed to update job schedule' });
+  }
+});
+
+/**
+ * Delete a schedule. Jobs it already queued keep running.
+ * DELETE /api/jobs/schedules/:id
+ */
+router.delete('/schedules/:id', async (req, res) => {
+  try {
+    const { schedule, status, error } = await findOwnedSchedule(req.params['id']!, req.user!.id);
+    if (!schedule) {
+      return res.status(status!).json({ error });
+    }
+
+    await JobScheduleModel.delete(schedule.id);
+
+    return res.json({ message: 'Schedule deleted successfully' });
+  } catch (error) {
+    logger.error('Failed to delete job schedule:', error);
+    return res.status(500).json({ error: 'Failed to delete job schedule' });
+  }
+});
+
+/**
+ * Get a job's status, attempts, last error and result
+ * GET /api/jobs/:id
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const { job, status, error } = await findOwnedJob(req.params['id']!, req.user!.id);
+    if (!job) {
+      return res.status(status!).json({ error });
+    }
+
+    return res.json({ job });
+  } catch (error) {
+    logger.error('Failed to get job:', error);
+    return res.status(500).json({ error: 'Failed to get job' });
+  }
+});
+
+/**
+ * Cancel a job that has not started yet
+ * POST /api/jobs/:id/cancel
+ */
+router.post('/:id/cancel', async (req, res) => {
+  try {
+    const { job, status, error } = await findOwnedJob(req.params['id']!, req.user!.id);
+    if (!job) {
+      return res.status(status!).json({ error });
+    }
+
+    const cancelled = await JobService.cancel(job);
+
+    return res.json({
+      message: 'Job cancelled successfully',
+      job: cancelled
+    });
+  } catch (error) {
+    const { statusCode, message } = error as AppError;
+    if (statusCode && statusCode < 500) {
+      return res.status(statusCode).json({ error: message });
+    }
+    logger.error('Failed to cancel job:', error);
+    return res.status(500).json({ error: 'Failed to cancel job' });
+  }
+});
+
+export default router;
@@ -0,0 +1,44 @@
+import { Router } from 'express';
+import { authenticateToken } from '@/middleware/auth';
+import { LLM_TASKS, LlmService } from '@/services/llmService';
+import { logger } from '@/utils/logger';
+
+const router = Router();
+
+// Apply authentication middleware to all routes
+router.use(authenticateToken);
+
+/**
+ * Get tokens and cost used over the last `days` days, by task and model
+ * GET /api/llm/usage?days=30
+ */
+router.get('/usage', async (req, res) => {
+  try {
+    const days = parseInt(req.query['days'] as string) || 30;
+    if (days < 1 || days > 365) {
+      return res.status(400).json({ error: 'days must be between 1 and 365' });
+    }
+
+    const usage = await LlmService.getUsage(req.user!.id, days);
+    return res.json({ days, usage });
+  } catch (error) {
+    logger.error('Failed to get LLM usage:', error);
+    return res.status(500).json({ error: 'Failed to get LLM usage' });
+  }
+});
+
+/**
+ * Get the provider and model each task runs on
+ * GET /api/llm/models
+ */
+router.get('/models', async (_req, res) => {
+  try {
+    const models = LLM_TASKS.map(task => ({ task, ...LlmService.resolveModel(task) }));
+    return res.json({ models });
+  } catch (error) {
+    logger.error('Failed to get LLM models:', error);
+    return res.status(500).json({ error: 'Failed to get LLM models' });
+  }
+});
+
+export default router;
@@ -0,0 +1,101 @@
+import { Router } from 'express';
+import { authenticateToken } from '@/middleware/auth';
+import { MentionService } from '@/services/mentionService';
+import { BrandMentionModel } from '@/models';
+import { BrandMentionFilters, MentionSentiment } from '@/types';
+import { logger } from '@/utils/logger';
+
+const router = Router();
+
+// Apply authentication middleware to all routes
+router.use(authenticateToken);
+
+const SENTIMENTS: MentionSentiment[] = ['positive', 'negative', 'neutral'];
+const MAX_SERIES_DAYS = 365;
+
+const parseDate = (value: unknown): Date | null | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * List stored mentions, newest first. `from` and `to` bound the day a
+ * mention was published, or found if the source gave no date.
+ * GET /api/mentions?brand=Acme&sentiment=negative&from=2024-05-01&to=2024-05-02
+ */
+router.get('/', async (req, res) => {
+  try {
+    const { brand, keyword, sentiment, from, to, limit = 50, offset = 0 } = req.query;
+
+    if (sentiment !== undefined && !SENTIMENTS.includes(sentiment as MentionSentiment)) {
+      return res.status(400).json({ error: `sentiment must be one of ${SENTIMENTS.join(', ')}` });
+    }
+
+    const fromDate = parseDate(from);
+    const toDate = parseDate(to);
+    if (fromDate === null || toDate === null) {
+      return res.status(400).json({ error: 'from and to must be valid dates' });
+    }
+
+    const filters: BrandMentionFilters = {
+      limit: Math.min(Math.max(parseInt(limit as string) || 50, 1), 200),
+      offset: Math.max(parseInt(offset as string) || 0, 0),
+      ...(brand && { brand: brand as string }),
+      ...(keyword && { keyword: keyword as string }),
+      ...(sentiment && { sentiment: sentiment as MentionSentiment }),
+      ...(fromDate && { from: fromDate }),
+      ...(toDate && { to: toDate })
+    };
+
+    const result = await MentionService.getMentions(req.user!.id, filters);
+
+    return res.json(result);
+  } catch (error) {
+    logger.error('Failed to list brand mentions:', error);
+    return res.status(500).json({ error: 'Failed to list brand mentions' });
+  }
+});
+
+/**
+ * Brands with stored mentions, their keywords and counts
+ * GET /api/mentions/brands
+ */
+router.get('/brands', async (req, res) => {
+  try {
+    const brands = await BrandMentionModel.findBrands(req.user!.id);
+    return res.json({ brands });
+  } catch (error) {
+    logger.error('Failed to list mentioned brands:', error);
+    return res.status(500).json({ error: 'Failed to list mentioned brands' });
+  }
+});
+
+/**
+ * Daily sentiment series and summary for a brand or keyword
+ * GET /api/mentions/sentiment?brand=Acme&keyword=pricing&days=30
+ */
+router.get('/sentiment', async (req, res) => {
+  try {
+    const { brand, keyword, days = 30 } = req.query;
+
+    const range = parseInt(days as string);
+    if (isNaN(range) || range < 1 || range > MAX_SERIES_DAYS) {
+      return res.status(400).json({ error: `days must be between 1 and ${MAX_SERIES_DAYS}` });
+    }
+
+    const report = await MentionService.getSentiment(req.user!.id, {
+      ...(brand && { brand: brand as string }),
+      ...(keyword && { keyword: keyword as string })
+    }, range);
+
+    return res.json(report);
+  } catch (error) {
+    logger.error('Failed to get brand sentiment:', error);
+    return res.status(500).json({ error: 'Failed to get brand sentiment' });
+  }
+});
+
+export default router;
@@ -0,0 +1,219 @@
+import { Router } from 'express';
+import { authenticateToken } from '@/middleware/auth';
+import { NotificationModel, UserModel } from '@/models';
+import { NOTIFICATION_TYPES, NotificationService } from '@/services/notificationService';
+import { DigestFrequency, Notification, NotificationType } from '@/types';
+import { logger } from '@/utils/logger';
+
+const router = Router();
+
+// Apply authentication middleware to all routes
+router.use(authenticateToken);
+
+const DIGEST_FREQUENCIES: DigestFrequency[] = ['off', 'daily', 'weekly'];
+
+/**
+ * Load a notification and verify it belongs to the requesting user
+ */
+const findOwnedNotification = async (id: string, userId: string): Promise<{ notification?: Notification; status?: number; error?: string }> => {
+  const notification = await NotificationModel.findById(id);
+  if (!notification) {
+    return { status: 404, error: 'Notification not found' };
+  }
+
+  if (notification.userId !== userId) {
+    return { status: 403, error: 'Access denied' };
+  }
+
+  return { notification };
+};
+
+const parseList = (value: unknown): string[] =>
+  value ? (value as string).split(',').map(entry => entry.trim()).filter(Boolean) : [];
+
+/**
+ * Get notifications, newest first, with the unread count
+ * GET /api/notifications?unread=true&type=alert,deadline&limit=20&offset=0
+ */
+router.get('/', async (req, res) => {
+  try {
+    const { unread, type, limit, offset } = req.query;
+
+    const types = parseList(type);
+    if (types.some(entry => !NOTIFICATION_TYPES.includes(entry as NotificationType))) {
+      return res.status(400).json({ error: `type must be one of ${NOTIFICATION_TYPES.join(', ')}` });
+    }
+
+    const result = await NotificationService.getNotifications(req.user!.id, {
+      unreadOnly: unread === 'true',
+      types: types as NotificationType[],
+      limit: Math.min(parseInt(limit as string) || 20, 100),
+      offset: parseInt(offset as string) || 0
+    });
+
+    return res.json(result);
+  } catch (error) {
+    logger.error('Failed to get notifications:', error);
+    return res.status(500).json({ error: 'Failed to get notifications' });
+  }
+});
+
+/**
+ * Get the number of unread notifications
+ * GET /api/notifications/unread-count
+ */
+router.get('/unread-count', async (req, res) => {
+  try {
+    const unread = await NotificationModel.countUnread(req.user!.id);
+    return res.json({ unread });
+  } catch (error) {
+    logger.error('Failed to count unread notifications:', error);
+    return res.status(500).json({ error: 'Failed to count unread notifications' });
+  }
+});
+
+/**
+ * Mark every notification read
+ * POST /api/notifications/read-all
+ */
+router.post('/read-all', async (req, res) => {
+  try {
+    const updated = await NotificationModel.markAllRead(req.user!.id);
+    return res.json({ message: 'Notifications marked read', updated });
+  } catch (error) {
+    logger.error('Failed to mark notifications read:', error);
+    return res.status(500).json({ error: 'Failed to mark notifications read' });
+  }
+});
+
+/**
+ * Get notification preferences
+ * GET /api/notifications/preferences
+ */
+router.get('/preferences', async (req, res) => {
+  try {
+    const preferences = await NotificationService.getPreferences(req.user!.id);
+    return res.json({ preferences });
+  } catch (error) {
+    logger.error('Failed to get notification preferences:', error);
+    return res.status(500).json({ error: 'Failed to get notification preferences' });
+  }
+});
+
+/**
+ * Update notification preferences
+ * PUT /api/notifications/preferences
+ */
+router.put('/preferences', async (req, res) => {
+  try {
+    const { mutedTypes, digestFrequency } = req.body;
+
+    const errors = [
+      mutedTypes !== undefined && (!Array.isArray(mutedTypes) || mutedTypes.some(entry => !NOTIFICATION_TYPES.includes(entry)))
+        ? `mutedTypes must be a list of ${NOTIFICATION_TYPES.join(', ')}`
+        : null,
+      digestFrequency !== undefined && !DIGEST_FREQUENCIES.includes(digestFrequency)
+        ? `digestFrequency must be one of ${DIGEST_FREQUENCIES.join(', ')}`
+        : null
+    ].filter(Boolean);
+
+    if (errors.length > 0) {
+      return res.status(400).json({ errors });
+    }
+
+    const preferences = await NotificationService.updatePreferences(req.user!.id, {
+      ...(mutedTypes !== undefined && { mutedTypes: [...new Set<NotificationType>(mutedTypes)] }),
+      ...(digestFrequency !== undefined && { digestFrequency })
+    });
+
+    return res.json({
+      message: 'Notification preferences updated successfully',
+      preferences
+    });
+  } catch (error) {
+    logger.error('Failed to update notification preferences:', error);
+    return res.status(500).json({ error: 'Failed to update notification preferences' });
+  }
+});
+
+/**
+ * Send the digest now instead of waiting for the schedule
+ * POST /api/notifications/digest
+ */
+router.post('/digest', async (req, res) => {
+  try {
+    const [user, preferences] = await Promise.all([
+      UserModel.findById(req.user!.id),
+      NotificationService.getPreferences(req.user!.id)
+    ]);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const sent = await NotificationService.sendDigest({
+      userId: user.id,
+      email: user.email,
+      name: user.name,
+      mutedTypes: preferences.mutedTypes,
+      ...(preferences.lastDigestAt && { lastDigestAt: preferences.lastDigestAt })
+    }, preferences.digestFrequency === 'daily' ? 'daily' : 'weekly');
+
+    return res.json({
+      message: sent ? 'Digest sent' : 'Nothing unread to send',
+      sent
+    });
+  } catch (error) {
+    logger.error('Failed to send notification digest:', error);
+    return res.status(500).json({ error: 'Failed to send notification digest' });
+  }
+});
+
+/**
+ * Mark a notification read or unread
+ * PUT /api/notifications/:id
+ */
+router.put('/:id', async (req, res) => {
+  try {
+    const { read } = req.body;
+    if (typeof read !== 'boolean') {
+      return res.status(400).json({ error: 'read must be true or false' });
+    }
+
+    const { notification, status, error } = await findOwnedNotification(req.params['id']!, req.user!.id);
+    if (!notification) {
+      return res.status(status!).json({ error });
+    }
+
+    const updated = await NotificationModel.setRead(notification.id, read);
+
+    return res.json({
+      message: 'Notification updated successfully',
+      notification: updated
+    });
+  } catch (error) {
+    logger.error('Failed to update notification:', error);
+    return res.status(500).json({ error: 'Failed to update notification' });
+  }
+});
+
+/**
+ * Delete a notification
+ * DELETE /api/notifications/:id
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const { notification, status, error } = await findOwnedNotification(req.params['id']!, req.user!.id);
+    if (!notification) {
+      return res.status(status!).json({ error });
+    }
+
+    await NotificationModel.delete(notification.id);
+
+    return res.json({ message: 'Notification deleted successfully' });
+  } catch (error) {
+    logger.error('Failed to delete notification:', error);
+    return res.status(500).json({ error: 'Failed to delete notification' });
+  }
+});
+
+export default router;
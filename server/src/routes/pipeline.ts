@@ -0,0 +1,190 @@
+import { Router } from 'express';
+import { authenticateToken } from '@/middleware/auth';
+import { AppError } from '@/middleware/errorHandler';
+import { PipelineItemModel } from '@/models';
+import { PipelineService } from '@/services/pipelineService';
+import { PipelineItem, PipelineKind, PipelineStage } from '@/types';
+import { logger } from '@/utils/logger';
+
+const router = Router();
+
+// Apply authentication middleware to all routes
+router.use(authenticateToken);
+
+const PIPELINE_KINDS: PipelineKind[] = ['opportunity', 'threat'];
+const PIPELINE_STAGES: PipelineStage[] = ['detected', 'pursuing', 'done', 'ignored'];
+const PRIORITIES: PipelineItem['priority'][] = ['low', 'medium', 'high'];
+
+/**
+ * Load a pipeline item and verify it belongs to the requesting user
+ */
+const findOwnedItem = async (id: string, userId: string): Promise<{ item?: PipelineItem; status?: number; error?: string }> => {
+  const item = await PipelineItemModel.findById(id);
+  if (!item) {
+    return { status: 404, error: 'Pipeline item not found' };
+  }
+
+  if (item.userId !== userId) {
+    return { status: 403, error: 'Access denied' };
+  }
+
+  return { item };
+};
+
+const parseList = (value: unknown): string[] =>
+  value ? (value as string).split(',').map(entry => entry.trim()).filter(Boolean) : [];
+
+/**
+ * Get the pipeline
+ * GET /api/pipeline?kind=opportunity&stage=detected,pursuing
+ */
+router.get('/', async (req, res) => {
+  try {
+    const { kind, stage } = req.query;
+
+    if (kind !== undefined && !PIPELINE_KINDS.includes(kind as PipelineKind)) {
+      return res.status(400).json({ error: `kind must be one of ${PIPELINE_KINDS.join(', ')}` });
+    }
+
+    const stages = parseList(stage);
+    if (stages.some(entry => !PIPELINE_STAGES.includes(entry as PipelineStage))) {
+      return res.status(400).json({ error: `stage must be one of ${PIPELINE_STAGES.join(', ')}` });
+    }
+
+    const items = await PipelineItemModel.findByUserId(req.user!.id, {
+      stages: stages as PipelineStage[],
+      ...(kind && { kind: kind as PipelineKind })
+    });
+
+    return res.json({ items });
+  } catch (error) {
+    logger.error('Failed to get pipeline:', error);
+    return res.status(500).json({ error: 'Failed to get pipeline' });
+  }
+});
+
+/**
+ * Classify the items already in the intelligence feed
+ * POST /api/pipeline/classify
+ */
+router.post('/classify', async (req, res) => {
+  try {
+    const items = await PipelineService.classifyFeed(req.user!.id);
+    return res.json({ items });
+  } catch (error) {
+    logger.error('Failed to classify intelligence feed:', error);
+    return res.status(500).json({ error: 'Failed to classify intelligence feed' });
+  }
+});
+
+/**
+ * Get a pipeline item
+ * GET /api/pipeline/:id
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const { item, status, error } = await findOwnedItem(req.params['id']!, req.user!.id);
+    if (!item) {
+      return res.status(status!).json({ error });
+    }
+
+    return res.json({ item });
+  } catch (error) {
+    logger.error('Failed to get pipeline item:', error);
+    return res.status(500).json({ error: 'Failed to get pipeline item' });
+  }
+});
+
+/**
+ * Move an item to another stage or change its priority or deadline
+ * PUT /api/pipeline/:id
+ */
+router.put('/:id', async (req, res) => {
+  try {
+    const { stage, priority, deadline } = req.body;
+
+    const date = deadline ? new Date(deadline) : null;
+    const errors = [
+      stage !== undefined && !PIPELINE_STAGES.includes(stage) ? `stage must be one of ${PIPELINE_STAGES.join(', ')}` : null,
+      priority !== undefined && !PRIORITIES.includes(priority) ? `priority must be one of ${PRIORITIES.join(', ')}` : null,
+      date && isNaN(date.getTime()) ? 'deadline must be a valid date or null' : null
+    ].filter(Boolean);
+
+    if (errors.length > 0) {
+      return res.status(400).json({ errors });
+    }
+
+    const { item, status, error } = await findOwnedItem(req.params['id']!, req.user!.id);
+    if (!item) {
+      return res.status(status!).json({ error });
+    }
+
+    let updated: PipelineItem | null = item;
+    if (stage !== undefined && stage !== item.stage) {
+      updated = await PipelineService.moveItem(item, stage);
+    }
+    if (priority !== undefined || deadline !== undefined) {
+      updated = await PipelineItemModel.update(item.id, {
+        ...(priority !== undefined && { priority }),
+        ...(deadline !== undefined && { deadline: date })
+      });
+    }
+
+    return res.json({
+      message: 'Pipeline item updated successfully',
+      item: updated
+    });
+  } catch (error) {
+    logger.error('Failed to update pipeline item:', error);
+    return res.status(500).json({ error: 'Failed to update pipeline item' });
+  }
+});
+
+/**
+ * Turn an opportunity into a project
+ * POST /api/pipeline/:id/project
+ */
+router.post('/:id/project', async (req, res) => {
+  try {
+    const { item, status, error } = await findOwnedItem(req.params['id']!, req.user!.id);
+    if (!item) {
+      return res.status(status!).json({ error });
+    }
+
+    const result = await PipelineService.convertToProject(item);
+
+    return res.status(201).json({
+      message: 'Project created successfully',
+      ...result
+    });
+  } catch (error) {
+    const { statusCode, message } = error as AppError;
+    if (statusCode && statusCode < 500) {
+      return res.status(statusCode).json({ error: message });
+    }
+    logger.error('Failed to convert opportunity to project:', error);
+    return res.status(500).json({ error: 'Failed to convert opportunity to project' });
+  }
+});
+
+/**
+ * Remove an item from the pipeline
+ * DELETE /api/pipeline/:id
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const { item, status, error } = await findOwnedItem(req.params['id']!, req.user!.id);
+    if (!item) {
+      return res.status(status!).json({ error });
+    }
+
+    await PipelineItemModel.delete(item.id);
+
+    return res.json({ message: 'Pipeline item deleted successfully' });
+  } catch (error) {
+    logger.error('Failed to delete pipeline item:', error);
+    return res.status(500).json({ error: 'Failed to delete pipeline item' });
+  }
+});
+
+export default router;
@@ -0,0 +1,496 @@
+import { Router } from 'express';
+import { authenticateToken } from '@/middleware/auth';
+import { ProjectModel, ProjectMilestoneModel, ProjectDeadlineModel, ContentModel } from '@/models';
+import { ProjectService } from '@/services/projectService';
+import { validateRequired, validateProject } from '@/utils/modelValidation';
+import { Project, ProjectMilestone, ProjectDeadline } from '@/types';
+import { logger } from '@/utils/logger';
+
+const router = Router();
+
+// Apply authentication middleware to all routes
+router.use(authenticateToken);
+
+const DEADLINE_PRIORITIES = ['low', 'medium', 'high'];
+
+/**
+ * Load a project and verify it belongs to the requesting user
+ */
+const findOwnedProject = async (id: string, userId: string): Promise<{ project?: Project; status?: number; error?: string }> => {
+  const project = await ProjectModel.findById(id);
+  if (!project) {
+    return { status: 404, error: 'Project not found' };
+  }
+
+  if (project.userId !== userId) {
+    return { status: 403, error: 'Access denied' };
+  }
+
+  return { project };
+};
+
+const isValidDate = (value: any): boolean => !isNaN(new Date(value).getTime());
+
+/**
+ * Create a project
+ * POST /api/projects
+ */
+router.post('/', async (req, res) => {
+  try {
+    const { name, type, description, goals = [], status = 'active', startDate, endDate, context = {} } = req.body;
+    const userId = req.user!.id;
+
+    const projectData: Omit<Project, 'id' | 'createdAt' | 'updatedAt'> = {
+      userId,
+      name,
+      type,
+      goals,
+      status,
+      context
+    };
+    if (description) projectData.description = description;
+    if (startDate) projectData.startDate = new Date(startDate);
+    if (endDate) projectData.endDate = new Date(endDate);
+
+    // Validate required fields
+    const errors = [
+      validateRequired(name, 'name'),
+      validateRequired(type, 'type'),
+      ...validateProject(projectData)
+    ].filter(Boolean);
+
+    if (errors.length > 0) {
+      return res.status(400).json({ errors });
+    }
+
+    const project = await ProjectModel.create(projectData);
+
+    return res.status(201).json({
+      message: 'Project created successfully',
+      project
+    });
+  } catch (error) {
+    logger.error('Failed to create project:', error);
+    return res.status(500).json({ error: 'Failed to create project' });
+  }
+});
+
+/**
+ * List projects with their progress
+ * GET /api/projects?status=&type=
+ */
+router.get('/', async (req, res) => {
+  try {
+    const { status, type } = req.query;
+    const userId = req.user!.id;
+
+    let projects = status
+      ? await ProjectModel.findByStatus(userId, status as string)
+      : await ProjectModel.findByUserId(userId);
+
+    if (type) {
+      projects = projects.filter(project => project.type === type);
+    }
+
+    const withProgress = await Promise.all(projects.map(async project => ({
+      ...project,
+      progress: await ProjectService.getProgress(project.id)
+    })));
+
+    return res.json({
+      projects: withProgress,
+      count: withProgress.length
+    });
+  } catch (error) {
+    logger.error('Failed to list projects:', error);
+    return res.status(500).json({ error: 'Failed to list projects' });
+  }
+});
+
+/**
+ * Get a project with its timeline, linked content and progress
+ * GET /api/projects/:id
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const { project, status, error } = await findOwnedProject(req.params.id, req.user!.id);
+    if (!project) {
+      return res.status(status!).json({ error });
+    }
+
+    const details = await ProjectService.getProjectDetails(project);
+
+    return res.json(details);
+  } catch (error) {
+    logger.error('Failed to get project:', error);
+    return res.status(500).json({ error: 'Failed to get project' });
+  }
+});
+
+/**
+ * Update a project
+ * PUT /api/projects/:id
+ */
+router.put('/:id', async (req, res) => {
+  try {
+    const { project, status, error } = await findOwnedProject(req.params.id, req.user!.id);
+    if (!project) {
+      return res.status(status!).json({ error });
+    }
+
+    const { name, type, description, goals, status: newStatus, startDate, endDate, context } = req.body;
+    const updates: Partial<Project> = {};
+
+    if (name !== undefined) updates.name = name;
+    if (type !== undefined) updates.type = type;
+    if (description !== undefined) updates.description = description;
+    if (goals !== undefined) updates.goals = goals;
+    if (newStatus !== undefined) updates.status = newStatus;
+    if (startDate !== undefined) updates.startDate = new Date(startDate);
+    if (endDate !== undefined) updates.endDate = new Date(endDate);
+    if (context !== undefined) updates.context = context;
+
+    const errors = validateProject({ ...project, ...updates });
+    if (errors.length > 0) {
+      return res.status(400).json({ errors });
+    }
+
+    const updated = await ProjectModel.update(project.id, updates);
+
+    return res.json({
+      message: 'Project updated successfully',
+      project: updated
+    });
+  } catch (error) {
+    logger.error('Failed to update project:', error);
+    return res.status(500).json({ error: 'Failed to update project' });
+  }
+});
+
+/**
+ * Delete a project along with its milestones, deadlines and content links
+ * DELETE /api/projects/:id
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const { project, status, error } = await findOwnedProject(req.params.id, req.user!.id);
+    if (!project) {
+      return res.status(status!).json({ error });
+    }
+
+    const deleted = await ProjectModel.delete(project.id);
+
+    if (deleted) {
+      return res.json({ message: 'Project deleted successfully' });
+    } else {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+  } catch (error) {
+    logger.error('Failed to delete project:', error);
+    return res.status(500).json({ error: 'Failed to delete project' });
+  }
+});
+
+/**
+ * Add a milestone to a project
+ * POST /api/projects/:id/milestones
+ */
+router.post('/:id/milestones', async (req, res) => {
+  try {
+    const { project, status, error } = await findOwnedProject(req.params.id, req.user!.id);
+    if (!project) {
+      return res.status(status!).json({ error });
+    }
+
+    const { name, description = '', targetDate } = req.body;
+
+    const errors = [
+      validateRequired(name, 'name'),
+      validateRequired(targetDate, 'targetDate'),
+      targetDate && !isValidDate(targetDate) ? 'targetDate must be a valid date' : null
+    ].filter(Boolean);
+
+    if (errors.length > 0) {
+      return res.status(400).json({ errors });
+    }
+
+    const milestone = await ProjectMilestoneModel.create({
+      projectId: project.id,
+      name,
+      description,
+      targetDate: new Date(targetDate)
+    });
+
+    return res.status(201).json({
+      message: 'Milestone created successfully',
+      milestone
+    });
+  } catch (error) {
+    logger.error('Failed to create milestone:', error);
+    return res.status(500).json({ error: 'Failed to create milestone' });
+  }
+});
+
+/**
+ * Update a milestone, including marking it complete
+ * PUT /api/projects/:id/milestones/:milestoneId
+ */
+router.put('/:id/milestones/:milestoneId', async (req, res) => {
+  try {
+    const { project, status, error } = await findOwnedProject(req.params.id, req.user!.id);
+    if (!project) {
+      return res.status(status!).json({ error });
+    }
+
+    const milestone = await ProjectMilestoneModel.findById(req.params.milestoneId);
+    if (!milestone || milestone.projectId !== project.id) {
+      return res.status(404).json({ error: 'Milestone not found' });
+    }
+
+    const { name, description, targetDate, completed } = req.body;
+    const updates: Partial<ProjectMilestone> = {};
+
+    if (name !== undefined) updates.name = name;
+    if (description !== undefined) updates.description = description;
+    if (targetDate !== undefined) {
+      if (!isValidDate(targetDate)) {
+        return res.status(400).json({ errors: ['targetDate must be a valid date'] });
+      }
+      updates.targetDate = new Date(targetDate);
+    }
+    if (completed !== undefined) updates.completed = Boolean(completed);
+
+    const updated = await ProjectMilestoneModel.update(milestone.id, updates);
+
+    return res.json({
+      message: 'Milestone updated successfully',
+      milestone: updated
+    });
+  } catch (error) {
+    logger.error('Failed to update milestone:', error);
+    return res.status(500).json({ error: 'Failed to update milestone' });
+  }
+});
+
+/**
+ * Delete a milestone
+ * DELETE /api/projects/:id/milestones/:milestoneId
+ */
+router.delete('/:id/milestones/:milestoneId', async (req, res) => {
+  try {
+    const { project, status, error } = await findOwnedProject(req.params.id, req.user!.id);
+    if (!project) {
+      return res.status(status!).json({ error });
+    }
+
+    const milestone = await ProjectMilestoneModel.findById(req.params.milestoneId);
+    if (!milestone || milestone.projectId !== project.id) {
+      return res.status(404).json({ error: 'Milestone not found' });
+    }
+
+    await ProjectMilestoneModel.delete(milestone.id);
+
+    return res.json({ message: 'Milestone deleted successfully' });
+  } catch (error) {
+    logger.error('Failed to delete milestone:', error);
+    return res.status(500).json({ error: 'Failed to delete milestone' });
+  }
+});
+
+/**
+ * Add a deadline to a project
+ * POST /api/projects/:id/deadlines
+ */
+router.post('/:id/deadlines', async (req, res) => {
+  try {
+    const { project, status, error } = await findOwnedProject(req.params.id, req.user!.id);
+    if (!project) {
+      return res.status(status!).json({ error });
+    }
+
+    const { name, date, priority = 'medium' } = req.body;
+
+    const errors = [
+      validateRequired(name, 'name'),
+      validateRequired(date, 'date'),
+      date && !isValidDate(date) ? 'date must be a valid date' : null,
+      !DEADLINE_PRIORITIES.includes(priority) ? 'Priority must be low, medium, or high' : null
+    ].filter(Boolean);
+
+    if (errors.length > 0) {
+      return res.status(400).json({ errors });
+    }
+
+    const deadline = await ProjectDeadlineModel.create({
+      projectId: project.id,
+      name,
+      date: new Date(date),
+      priority
+    });
+
+    return res.status(201).json({
+      message: 'Deadline created successfully',
+      deadline
+    });
+  } catch (error) {
+    logger.error('Failed to create deadline:', error);
+    return res.status(500).json({ error: 'Failed to create deadline' });
+  }
+});
+
+/**
+ * Update a deadline, including marking it complete
+ * PUT /api/projects/:id/deadlines/:deadlineId
+ */
+router.put('/:id/deadlines/:deadlineId', async (req, res) => {
+  try {
+    const { project, status, error } = await findOwnedProject(req.params.id, req.user!.id);
+    if (!project) {
+      return res.status(status!).json({ error });
+    }
+
+    const deadline = await ProjectDeadlineModel.findById(req.params.deadlineId);
+    if (!deadline || deadline.projectId !== project.id) {
+      return res.status(404).json({ error: 'Deadline not found' });
+    }
+
+    const { name, date, priority, completed } = req.body;
+    const updates: Partial<ProjectDeadline> = {};
+
+    if (name !== undefined) updates.name = name;
+    if (date !== undefined) {
+      if (!isValidDate(date)) {
+        return res.status(400).json({ errors: ['date must be a valid date'] });
+      }
+      updates.date = new Date(date);
+    }
+    if (priority !== undefined) {
+      if (!DEADLINE_PRIORITIES.includes(priority)) {
+        return res.status(400).json({ errors: ['Priority must be low, medium, or high'] });
+      }
+      updates.priority = priority;
+    }
+    if (completed !== undefined) updates.completed = Boolean(completed);
+
+    const updated = await ProjectDeadlineModel.update(deadline.id, updates);
+
+    return res.json({
+      message: 'Deadline updated successfully',
+      deadline: updated
+    });
+  } catch (error) {
+    logger.error('Failed to update deadline:', error);
+    return res.status(500).json({ error: 'Failed to update deadline' });
+  }
+});
+
+/**
+ * Delete a deadline
+ * DELETE /api/projects/:id/deadlines/:deadlineId
+ */
+router.delete('/:id/deadlines/:deadlineId', async (req, res) => {
+  try {
+    const { project, status, error } = await findOwnedProject(req.params.id, req.user!.id);
+    if (!project) {
+      return res.status(status!).json({ error });
+    }
+
+    const deadline = await ProjectDeadlineModel.findById(req.params.deadlineId);
+    if (!deadline || deadline.projectId !== project.id) {
+      return res.status(404).json({ error: 'Deadline not found' });
+    }
+
+    await ProjectDeadlineModel.delete(deadline.id);
+
+    return res.json({ message: 'Deadline deleted successfully' });
+  } catch (error) {
+    logger.error('Failed to delete deadline:', error);
+    return res.status(500).json({ error: 'Failed to delete deadline' });
+  }
+});
+
+/**
+ * List content linked to a project
+ * GET /api/projects/:id/content
+ */
+router.get('/:id/content', async (req, res) => {
+  try {
+    const { project, status, error } = await findOwnedProject(req.params.id, req.user!.id);
+    if (!project) {
+      return res.status(status!).json({ error });
+    }
+
+    const content = await ProjectModel.findLinkedContent(project.id);
+
+    return res.json({
+      content,
+      count: content.length
+    });
+  } catch (error) {
+    logger.error('Failed to list project content:', error);
+    return res.status(500).json({ error: 'Failed to list project content' });
+  }
+});
+
+/**
+ * Link a content item to a project
+ * POST /api/projects/:id/content
+ */
+router.post('/:id/content', async (req, res) => {
+  try {
+    const userId = req.user!.id;
+    const { project, status, error } = await findOwnedProject(req.params.id, userId);
+    if (!project) {
+      return res.status(status!).json({ error });
+    }
+
+    const { contentId } = req.body;
+    const requiredError = validateRequired(contentId, 'contentId');
+    if (requiredError) {
+      return res.status(400).json({ errors: [requiredError] });
+    }
+
+    const content = await ContentModel.findById(contentId);
+    if (!content || content.userId !== userId) {
+      return res.status(404).json({ error: 'Content not found' });
+    }
+
+    await ProjectModel.linkContent(project.id, content.id);
+    const progress = await ProjectService.getProgress(project.id);
+
+    return res.status(201).json({
+      message: 'Content linked successfully',
+      content,
+      progress
+    });
+  } catch (error) {
+    logger.error('Failed to link content to project:', error);
+    return res.status(500).json({ error: 'Failed to link content to project' });
+  }
+});
+
+/**
+ * Unlink a content item from a project
+ * DELETE /api/projects/:id/content/:contentId
+ */
+router.delete('/:id/content/:contentId', async (req, res) => {
+  try {
+    const { project, status, error } = await findOwnedProject(req.params.id, req.user!.id);
+    if (!project) {
+      return res.status(status!).json({ error });
+    }
+
+    const unlinked = await ProjectModel.unlinkContent(project.id, req.params.contentId);
+
+    if (unlinked) {
+      return res.json({ message: 'Content unlinked successfully' });
+    } else {
+      return res.status(404).json({ error: 'Content is not linked to this project' });
+    }
+  } catch (error) {
+    logger.error('Failed to unlink content from project:', error);
+    return res.status(500).json({ error: 'Failed to unlink content from project' });
+  }
+});
+
+export default router;
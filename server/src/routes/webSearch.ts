@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import { authenticateToken } from '@/middleware/auth';
 import { WebSearchService } from '@/services/webSearchService';
+import { IntelligenceService } from '@/services/intelligenceService';
+import { TrendService } from '@/services/trendService';
 import { validateRequired } from '@/utils/modelValidation';
 import { logger } from '@/utils/logger';
 
@@ -181,63 +183,69 @@ router.get('/insights', async (req, res) => {
 });
 
 /**
- * Get trend alerts and notifications
- * GET /api/web-search/alerts
+ * Get the momentum of every trend observed in the last 30 days
+ * GET /api/web-search/trends/momentum
  */
-router.get('/alerts', async (req, res) => {
+router.get('/trends/momentum', async (req, res) => {
   try {
-    const userId = req.user!.userId;
-    const data = await WebSearchService.getStoredTrends(userId);
+    const trends = await TrendService.listMomentum(req.user!.id);
+    res.json({ trends });
+  } catch (error) {
+    logger.error('Failed to get trend momentum:', error);
+    res.status(500).json({ error: 'Failed to get trend momentum' });
+  }
+});
 
-    // Generate alerts based on stored data
-    const alerts = [];
-
-    // High growth trends
-    if (data.industryTrends?.trends) {
-      const highGrowthTrends = data.industryTrends.trends.filter((trend: any) => trend.growth > 30);
-      alerts.push(...highGrowthTrends.map((trend: any) => ({
-        type: 'trend_alert',
-        priority: 'high',
-        title: `High Growth Trend: ${trend.keyword}`,
-        message: `${trend.keyword} is showing ${trend.growth}% growth`,
-        actionable: true,
-        action: 'Create content about this trending topic'
-      })));
+/**
+ * Get the daily volumes and momentum of one trend
+ * GET /api/web-search/trends/history?keyword=ai
+ */
+router.get('/trends/history', async (req, res) => {
+  try {
+    const { keyword } = req.query;
+    if (typeof keyword !== 'string' || keyword.trim() === '') {
+      return res.status(400).json({ error: 'keyword is required' });
     }
 
-    // Competitor activity
-    if (data.competitorAnalysis?.competitors) {
-      const activeCompetitors = data.competitorAnalysis.competitors.filter((comp: any) => 
-        comp.contentFrequency === 'high'
-      );
-      alerts.push(...activeCompetitors.map((comp: any) => ({
-        type: 'competitor_alert',
-        priority: 'medium',
-        title: `Competitor Activity: ${comp.name}`,
-        message: `${comp.name} has high content activity`,
-        actionable: true,
-        action: 'Review their recent content strategy'
-      })));
-    }
+    const history = await TrendService.getHistory(req.user!.id, keyword.trim());
+    return res.json(history);
+  } catch (error) {
+    logger.error('Failed to get trend history:', error);
+    return res.status(500).json({ error: 'Failed to get trend history' });
+  }
+});
 
-    // Content opportunities
-    if (data.trendingTopics?.contentOpportunities) {
-      const highPotentialOpps = data.trendingTopics.contentOpportunities.filter((opp: any) => 
-        opp.potential === 'high' && opp.difficulty === 'easy'
-      );
-      alerts.push(...highPotentialOpps.map((opp: any) => ({
-        type: 'opportunity_alert',
-        priority: 'medium',
-        title: `Content Opportunity: ${opp.topic}`,
-        message: `High potential, easy difficulty content opportunity`,
-        actionable: true,
-        action: 'Create content with this angle: ' + opp.angle
-      })));
-    }
+/**
+ * Get trend alerts: new, actionable items from the intelligence feed.
+ * Trends only alert once their momentum is accelerating.
+ * GET /api/web-search/alerts
+ */
+router.get('/alerts', async (req, res) => {
+  try {
+    const { items, total } = await IntelligenceService.getFeed(req.user!.id, {
+      statuses: ['new'],
+      actionableOnly: true,
+      limit: 10
+    });
+
+    const alerts = items.map(item => ({
+      id: item.id,
+      type: `${item.type}_alert`,
+      priority: item.relevanceScore >= 0.7 ? 'high' : 'medium',
+      title: item.data['title'],
+      message: item.data['summary'],
+      actionable: item.isActionable,
+      action: item.data['action'],
+      ...(item.type === 'trend' && {
+        momentum: item.data['momentum'],
+        growth: item.data['growth'],
+        accelerating: item.data['accelerating'] === true
+      })
+    }));
 
     res.json({
-      alerts: alerts.slice(0, 10), // Limit to 10 alerts
-      totalAlerts: alerts.length
+      alerts,
+      totalAlerts: total
     });
   } catch (error) {
     logger.error('Failed to get trend alerts:', error);
@@ -0,0 +1,107 @@
+#!/usr/bin/env tsx
+
+import { Command } from 'commander';
+import { IngestDeadLetterModel } from '@/models';
+import { IngestService } from '@/services/ingestService';
+import { db, initializeDatabase } from '@/utils/database';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+const program = new Command();
+
+program
+  .name('ingest-cli')
+  .description('CLI tool for inspecting and replaying dead-lettered webhook events')
+  .version('1.0.0');
+
+program
+  .command('dead-letters')
+  .description('List dead-lettered events')
+  .option('-u, --user-id <userId>', 'Only events for this user')
+  .option('-s, --source-id <sourceId>', 'Only events for this ingest source')
+  .option('-a, --all', 'Include events that were resolved')
+  .option('-l, --limit <limit>', 'Maximum events', '100')
+  .action(async (options) => {
+    try {
+      await initializeDatabase();
+
+      const deadLetters = await IngestDeadLetterModel.find({
+        userId: options.userId,
+        sourceId: options.sourceId,
+        includeResolved: Boolean(options.all),
+        limit: parseInt(options.limit)
+      });
+
+      console.log(`📭 ${deadLetters.length} dead-lettered events:`);
+      console.table(deadLetters.map(deadLetter => ({
+        id: deadLetter.id,
+        source: deadLetter.sourceId,
+        key: deadLetter.idempotencyKey,
+        error: deadLetter.error,
+        attempts: deadLetter.attempts,
+        resolved: deadLetter.resolvedAt ? 'yes' : 'no'
+      })));
+    } catch (error) {
+      console.error('❌ Failed to list dead letters:', error);
+      process.exit(1);
+    } finally {
+      await db.end();
+    }
+  });
+
+program
+  .command('replay')
+  .description('Run dead-lettered events through their source\'s current mapping again')
+  .option('-i, --id <deadLetterId>', 'Replay a single dead letter')
+  .option('-u, --user-id <userId>', 'Only events for this user')
+  .option('-s, --source-id <sourceId>', 'Only events for this ingest source')
+  .option('-l, --limit <limit>', 'Maximum events', '100')
+  .action(async (options) => {
+    try {
+      await initializeDatabase();
+
+      if (options.id) {
+        const deadLetter = await IngestDeadLetterModel.findById(options.id);
+        if (!deadLetter) {
+          console.error(`❌ Dead letter not found: ${options.id}`);
+          process.exitCode = 1;
+          return;
+        }
+
+        const result = await IngestService.replay(deadLetter);
+        if (result.status === 'dead_lettered') {
+          console.error(`❌ Still failing: ${result.deadLetter!.error}`);
+          process.exitCode = 1;
+        } else {
+          console.log(`✅ ${result.status === 'processed' ? 'Processed' : 'Already processed'} ${result.record ? `as ${result.record.type} ${result.record.id}` : ''}`);
+        }
+        return;
+      }
+
+      const { processed, failed } = await IngestService.replayAll({
+        userId: options.userId,
+        sourceId: options.sourceId,
+        limit: parseInt(options.limit)
+      });
+
+      console.log(`✅ Replayed ${processed + failed} events: ${processed} processed, ${failed} still failing`);
+      if (failed > 0) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      console.error('❌ Replay failed:', error);
+      process.exit(1);
+    } finally {
+      await db.end();
+    }
+  });
+
+// Handle errors and show help
+program.parseAsync(process.argv).catch((error) => {
+  console.error('❌ CLI error:', error);
+  process.exit(1);
+});
+
+export default program;
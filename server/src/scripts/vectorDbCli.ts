@@ -1,7 +1,8 @@
 #!/usr/bin/env tsx
 
 import { Command } from 'commander';
-import { VectorDatabaseService } from '@/utils/vectorDatabase';
+import { VectorDatabaseService, VectorDocument } from '@/utils/vectorDatabase';
+import { EmbeddingCache } from '@/utils/embeddingCache';
 import { EmbeddingService } from '@/services/embeddingService';
 import { initializeDatabase } from '@/utils/database';
 import { logger } from '@/utils/logger';
@@ -52,7 +53,8 @@ program
         const result = await db.query(`
           SELECT 
             document_type,
-            COUNT(*) as count,
+            COUNT(*) FILTER (WHERE parent_id IS NULL) as count,
+            COUNT(*) FILTER (WHERE parent_id IS NOT NULL) as chunks,
             COUNT(DISTINCT user_id) as unique_users
           FROM vector_documents 
           GROUP BY document_type
@@ -139,6 +141,64 @@ program
     }
   });
 
+program
+  .command('import')
+  .description('Import documents from a JSON export, embedding them in batches')
+  .requiredOption('-i, --input <file>', 'Input file produced by the export command')
+  .option('-u, --user-id <userId>', 'Import into a different user')
+  .action(async (options) => {
+    try {
+      await initializeDatabase();
+
+      const fs = await import('fs/promises');
+      const data = JSON.parse(await fs.readFile(options.input, 'utf8'));
+      const userId = options.userId || data.userId;
+
+      const documents = await VectorDatabaseService.batchStoreDocuments(
+        (data.documents as Pick<VectorDocument, 'content' | 'metadata' | 'documentType'>[]).map(doc => ({
+          userId,
+          content: doc.content,
+          metadata: doc.metadata || {},
+          documentType: doc.documentType
+        }))
+      );
+
+      console.log(`✅ Imported ${documents.length} documents for user ${userId}`);
+    } catch (error) {
+      console.error('❌ Import failed:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('backfill')
+  .description('Re-embed documents created with a different embedding model')
+  .option('-u, --user-id <userId>', 'Only backfill documents for this user')
+  .option('-b, --batch-size <size>', 'Documents per provider call', '100')
+  .option('--dry-run', 'Only count documents that need new embeddings')
+  .action(async (options) => {
+    try {
+      await initializeDatabase();
+      await VectorDatabaseService.ensureEmbeddingDimensions();
+
+      const { pending, updated } = await VectorDatabaseService.backfillEmbeddings({
+        userId: options.userId,
+        batchSize: parseInt(options.batchSize),
+        dryRun: !!options.dryRun
+      });
+
+      const model = VectorDatabaseService.getEmbeddingModel();
+      if (options.dryRun) {
+        console.log(`🔍 ${pending} documents need embeddings from ${model}`);
+      } else {
+        console.log(`✅ Re-embedded ${updated} of ${pending} documents with ${model}`);
+      }
+    } catch (error) {
+      console.error('❌ Backfill failed:', error);
+      process.exit(1);
+    }
+  });
+
 program
   .command('analyze-writing')
   .description('Analyze writing style for a user')
@@ -172,6 +232,7 @@ program
   .command('cleanup')
   .description('Clean up old or invalid documents')
   .option('--dry-run', 'Show what would be deleted without actually deleting')
+  .option('--cache-days <days>', 'Prune embedding cache entries unused for this many days', '90')
   .action(async (options) => {
     try {
       await initializeDatabase();
@@ -195,6 +256,9 @@ program
           const deleteResult = await db.query(deleteQuery);
           console.log(`✅ Deleted ${deleteResult.rowCount} documents with null embeddings`);
         }
+
+        const pruned = await EmbeddingCache.prune(parseInt(options.cacheDays));
+        console.log(`✅ Pruned ${pruned} embedding cache entries unused for ${options.cacheDays} days`);
       }
     } catch (error) {
       console.error('❌ Cleanup failed:', error);
@@ -0,0 +1,194 @@
+import { Writable } from 'stream';
+import archiver from 'archiver';
+import { db } from '@/utils/database';
+import { logger } from '@/utils/logger';
+
+export interface AccountExportManifest {
+  userId: string;
+  exportedAt: string;
+  // Row count per exported table
+  tables: Record<string, number>;
+}
+
+// Secrets and derived search data are never exported
+const EXCLUDED_COLUMNS = ['password', 'token_hash', 'secret', 'embedding', 'search_vector'];
+
+/**
+ * Every table holding a user's data, keyed by export file name. $1 is the
+ * user id and $2 the excluded columns. Add new per-user tables here.
+ */
+const EXPORT_QUERIES: Record<string, string> = {
+  user: 'SELECT to_jsonb(t) - $2::text[] AS row FROM users t WHERE t.id = $1',
+  user_profiles: 'SELECT to_jsonb(t) - $2::text[] AS row FROM user_profiles t WHERE t.user_id = $1',
+  user_context: 'SELECT to_jsonb(t) - $2::text[] AS row FROM user_context t WHERE t.user_id = $1 ORDER BY t.context_type, t.version',
+  content: 'SELECT to_jsonb(t) - $2::text[] AS row FROM content t WHERE t.user_id = $1 ORDER BY t.created_at',
+  projects: 'SELECT to_jsonb(t) - $2::text[] AS row FROM projects t WHERE t.user_id = $1 ORDER BY t.created_at',
+  project_milestones: `
+    SELECT to_jsonb(t) - $2::text[] AS row FROM project_milestones t
+    JOIN projects p ON p.id = t.project_id WHERE p.user_id = $1 ORDER BY t.created_at
+  `,
+  project_deadlines: `
+    SELECT to_jsonb(t) - $2::text[] AS row FROM project_deadlines t
+    JOIN projects p ON p.id = t.project_id WHERE p.user_id = $1 ORDER BY t.created_at
+  `,
+  project_content: `
+    SELECT to_jsonb(t) - $2::text[] AS row FROM project_content t
+    JOIN projects p ON p.id = t.project_id WHERE p.user_id = $1
+  `,
+  intelligence_data: 'SELECT to_jsonb(t) - $2::text[] AS row FROM intelligence_data t WHERE t.user_id = $1 ORDER BY t.created_at',
+  brand_strategy: 'SELECT to_jsonb(t) - $2::text[] AS row FROM brand_strategy t WHERE t.user_id = $1 ORDER BY t.created_at',
+  vector_documents: 'SELECT to_jsonb(t) - $2::text[] AS row FROM vector_documents t WHERE t.user_id = $1 ORDER BY t.created_at, t.chunk_index',
+  feed_subscriptions: 'SELECT to_jsonb(t) - $2::text[] AS row FROM feed_subscriptions t WHERE t.user_id = $1 ORDER BY t.created_at',
+  ingest_sources: 'SELECT to_jsonb(t) - $2::text[] AS row FROM ingest_sources t WHERE t.user_id = $1 ORDER BY t.created_at',
+  ingest_dead_letters: `
+    SELECT to_jsonb(t) - $2::text[] AS row FROM ingest_dead_letters t
+    JOIN ingest_sources s ON s.id = t.source_id WHERE s.user_id = $1 ORDER BY t.created_at
+  `,
+  job_schedules: 'SELECT to_jsonb(t) - $2::text[] AS row FROM job_schedules t WHERE t.user_id = $1 ORDER BY t.created_at',
+  jobs: 'SELECT to_jsonb(t) - $2::text[] AS row FROM jobs t WHERE t.user_id = $1 ORDER BY t.created_at',
+  competitors: 'SELECT to_jsonb(t) - $2::text[] AS row FROM competitors t WHERE t.user_id = $1 ORDER BY t.created_at',
+  competitor_snapshots: `
+    SELECT to_jsonb(t) - $2::text[] AS row FROM competitor_snapshots t
+    JOIN competitors c ON c.id = t.competitor_id WHERE c.user_id = $1 ORDER BY t.captured_at
+  `,
+  brand_mentions: 'SELECT to_jsonb(t) - $2::text[] AS row FROM brand_mentions t WHERE t.user_id = $1 ORDER BY t.created_at',
+  pipeline_items: 'SELECT to_jsonb(t) - $2::text[] AS row FROM pipeline_items t WHERE t.user_id = $1 ORDER BY t.created_at',
+  trend_observations: 'SELECT to_jsonb(t) - $2::text[] AS row FROM trend_observations t WHERE t.user_id = $1 ORDER BY t.observed_at',
+  notifications: 'SELECT to_jsonb(t) - $2::text[] AS row FROM notifications t WHERE t.user_id = $1 ORDER BY t.created_at',
+  notification_preferences: 'SELECT to_jsonb(t) - $2::text[] AS row FROM notification_preferences t WHERE t.user_id = $1',
+  llm_usage: 'SELECT to_jsonb(t) - $2::text[] AS row FROM llm_usage t WHERE t.user_id = $1 ORDER BY t.created_at',
+  sessions: 'SELECT to_jsonb(t) - $2::text[] AS row FROM refresh_tokens t WHERE t.user_id = $1 ORDER BY t.created_at',
+};
+
+const formatDate = (value: unknown): string =>
+  value ? new Date(value as string).toISOString().substring(0, 10) : 'unknown date';
+
+/**
+ * Render every saved version of the context box, newest first
+ */
+const renderContextMarkdown = (rows: any[]): string => {
+  const versions = rows
+    .filter(row => row.context_type === 'context_box')
+    .sort((a, b) => b.version - a.version);
+
+  const sections = versions.map(row =>
+    `## Version ${row.version} (${formatDate(row.created_at)})\n\n${row.data?.content ?? ''}\n`
+  );
+
+  return ['# Context', '', ...(sections.length > 0 ? sections : ['_No context saved._\n'])].join('\n');
+};
+
+/**
+ * Render writing samples with their platform and content type
+ */
+const renderWritingSamplesMarkdown = (rows: any[]): string => {
+  const samples = rows.filter(row => row.document_type === 'writing_sample' && !row.parent_id);
+
+  const sections = samples.map((row, i) => {
+    const details = [row.metadata?.platform, row.metadata?.contentType, formatDate(row.created_at)]
+      .filter(Boolean)
+      .join(' · ');
+    return `## Sample ${i + 1}\n\n_${details}_\n\n${row.content}\n`;
+  });
+
+  return ['# Writing Samples', '', ...(sections.length > 0 ? sections : ['_No writing samples saved._\n'])].join('\n');
+};
+
+export class AccountDataService {
+
+  /**
+   * Collect all of a user's rows, keyed by table
+   */
+  static async collectUserData(userId: string): Promise<Record<string, any[]>> {
+    try {
+      const data: Record<string, any[]> = {};
+
+      for (const [name, query] of Object.entries(EXPORT_QUERIES)) {
+        const result = await db.query(query, [userId, EXCLUDED_COLUMNS]);
+        data[name] = result.rows.map(row => row.row);
+      }
+
+      return data;
+    } catch (error) {
+      logger.error('Failed to collect user data:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Write a zip of the user's data to the output stream: one JSON file per
+   * table plus Markdown renditions of context versions and writing samples
+   */
+  static async writeExport(userId: string, output: Writable): Promise<AccountExportManifest> {
+    try {
+      const data = await this.collectUserData(userId);
+
+      const manifest: AccountExportManifest = {
+        userId,
+        exportedAt: new Date().toISOString(),
+        tables: Object.fromEntries(Object.entries(data).map(([name, rows]) => [name, rows.length])),
+      };
+
+      const archive = archiver('zip', { zlib: { level: 9 } });
+      const done = new Promise<void>((resolve, reject) => {
+        output.on('finish', resolve);
+        output.on('close', resolve);
+        output.on('error', reject);
+        archive.on('error', reject);
+      });
+
+      archive.pipe(output);
+      archive.append(JSON.stringify(manifest, null, 2), { name: 'manifest.json' });
+      for (const [name, rows] of Object.entries(data)) {
+        archive.append(JSON.stringify(rows, null, 2), { name: `data/${name}.json` });
+      }
+      archive.append(renderContextMarkdown(data['user_context'] ?? []), { name: 'markdown/context.md' });
+      archive.append(renderWritingSamplesMarkdown(data['vector_documents'] ?? []), { name: 'markdown/writing-samples.md' });
+
+      await archive.finalize();
+      await done;
+
+      logger.info(`Exported account data for user ${userId}`);
+      return manifest;
+    } catch (error) {
+      logger.error('Failed to export account data:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Permanently erase a user and everything they own. Per-user tables
+   * cascade from users; cached embeddings of the user's documents are
+   * removed as well since they are derived from the user's text.
+   */
+  static async deleteAccount(userId: string): Promise<boolean> {
+    const client = await db.connect();
+    try {
+      await client.query('BEGIN');
+
+      await client.query(`
+        DELETE FROM embedding_cache
+        WHERE content_hash IN (
+          SELECT encode(sha256(convert_to(content, 'UTF8')), 'hex')
+          FROM vector_documents WHERE user_id = $1
+        )
+      `, [userId]);
+
+      const result = await client.query('DELETE FROM users WHERE id = $1', [userId]);
+
+      await client.query('COMMIT');
+
+      const deleted = (result.rowCount ?? 0) > 0;
+      if (deleted) {
+        logger.info(`Deleted account and all data for user ${userId}`);
+      }
+      return deleted;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Failed to delete account:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
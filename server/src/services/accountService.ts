@@ -0,0 +1,135 @@
+import { AuthTokenModel, UserModel } from '@/models';
+import { AuthTokenPurpose } from '@/types';
+import { generateAuthToken, verifyAuthToken } from '@/utils/auth';
+import { getMailTransport } from '@/utils/mail';
+import { SessionService } from '@/services/sessionService';
+import { createError } from '@/middleware/errorHandler';
+import { logger } from '@/utils/logger';
+
+const TOKEN_TTL_MINUTES: Record<AuthTokenPurpose, number> = {
+  email_verification: 24 * 60,
+  password_reset: 60,
+};
+
+// Links in emails point at the client app
+const appUrl = (): string =>
+  (process.env['APP_URL'] || process.env['CORS_ORIGIN'] || 'http://localhost:5173').replace(/\/$/, '');
+
+export class AccountService {
+
+  /**
+   * Email a link that marks the address as verified
+   */
+  static async sendVerificationEmail(userId: string, email: string, name: string): Promise<void> {
+    try {
+      const token = await this.issueToken(userId, 'email_verification');
+      const link = `${appUrl()}/verify-email?token=${encodeURIComponent(token)}`;
+
+      await getMailTransport().send({
+        to: email,
+        subject: 'Verify your ANIDHI email address',
+        text: [
+          `Hi ${name},`,
+          '',
+          'Please confirm your email address by opening the link below:',
+          link,
+          '',
+          'The link expires in 24 hours. If you did not create an ANIDHI account, you can ignore this email.',
+        ].join('\n'),
+      });
+    } catch (error) {
+      logger.error('Failed to send verification email:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark the token's user as verified. Each token works once.
+   */
+  static async verifyEmail(token: string): Promise<string> {
+    const userId = await this.consumeToken(token, 'email_verification');
+    await UserModel.markVerified(userId);
+
+    logger.info(`Email verified for user ${userId}`);
+    return userId;
+  }
+
+  /**
+   * Email a password reset link if the address belongs to an account.
+   * Resolves the same way either way so addresses cannot be enumerated.
+   */
+  static async requestPasswordReset(email: string): Promise<void> {
+    try {
+      const user = await UserModel.findByEmail(email);
+      if (!user) {
+        logger.info(`Password reset requested for unknown email: ${email}`);
+        return;
+      }
+
+      const token = await this.issueToken(user.id, 'password_reset');
+      const link = `${appUrl()}/reset-password?token=${encodeURIComponent(token)}`;
+
+      try {
+        await getMailTransport().send({
+          to: user.email,
+          subject: 'Reset your ANIDHI password',
+          text: [
+            `Hi ${user.name},`,
+            '',
+            'We received a request to reset your password. Open the link below to choose a new one:',
+            link,
+            '',
+            'The link expires in 1 hour. If you did not ask for a reset, you can ignore this email.',
+          ].join('\n'),
+        });
+      } catch (error) {
+        logger.error('Failed to send password reset email:', error);
+        // Don't throw - failing here would reveal that the address has an account
+      }
+    } catch (error) {
+      logger.error('Failed to request password reset:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Set a new password and sign out every session. Receiving the email also
+   * proves the address, so the account is marked verified.
+   */
+  static async resetPassword(token: string, password: string): Promise<string> {
+    const userId = await this.consumeToken(token, 'password_reset');
+
+    await UserModel.updatePassword(userId, password);
+    await UserModel.markVerified(userId);
+    await SessionService.revokeAllSessions(userId);
+
+    logger.info(`Password reset for user ${userId}`);
+    return userId;
+  }
+
+  // Newer tokens replace older unused ones for the same purpose
+  private static async issueToken(userId: string, purpose: AuthTokenPurpose): Promise<string> {
+    await AuthTokenModel.invalidateForUser(userId, purpose);
+
+    const expiresAt = new Date(Date.now() + TOKEN_TTL_MINUTES[purpose] * 60 * 1000);
+    const record = await AuthTokenModel.create({ userId, purpose, expiresAt });
+
+    return generateAuthToken(userId, purpose, record.id, expiresAt);
+  }
+
+  private static async consumeToken(token: string, purpose: AuthTokenPurpose): Promise<string> {
+    let payload;
+    try {
+      payload = verifyAuthToken(token, purpose);
+    } catch (error) {
+      throw createError('Invalid or expired token', 400);
+    }
+
+    const record = await AuthTokenModel.consume(payload.jti, purpose);
+    if (!record || record.userId !== payload.userId) {
+      throw createError('Invalid or expired token', 400);
+    }
+
+    return record.userId;
+  }
+}
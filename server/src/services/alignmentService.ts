@@ -0,0 +1,206 @@
+import { BrandStrategyModel } from '@/models';
+import { WritingStyleProfile, WritingStyleService } from '@/services/writingStyleService';
+import { AlignmentCheck, AlignmentDimension, BrandAlignmentReport, BrandStrategy, Content } from '@/types';
+import { logger } from '@/utils/logger';
+
+// Every check counts the same; checks that can't run are left out of the mean
+const WEIGHTS: Record<AlignmentDimension, number> = {
+  sentence_length: 0.2,
+  formality: 0.2,
+  vocabulary: 0.2,
+  pillars: 0.2,
+  banned_phrases: 0.2,
+};
+
+// Sentences within this many words of the profile's average score full marks
+const SENTENCE_LENGTH_TOLERANCE = 3;
+
+// Matching this many of the user's common words scores full marks
+const VOCABULARY_TARGET = 5;
+
+const FORMALITY_LEVELS: Record<WritingStyleProfile['formality'], number> = {
+  casual: 0,
+  'semi-formal': 1,
+  formal: 2,
+};
+
+// Words too common to say anything about someone's vocabulary or a pillar's topic
+const STOP_WORDS = new Set([
+  'about', 'after', 'also', 'been', 'being', 'from', 'have', 'here', 'into', 'just', 'like', 'more', 'most',
+  'much', 'only', 'other', 'over', 'some', 'such', 'than', 'that', 'their', 'them', 'then', 'there', 'these',
+  'they', 'this', 'those', 'very', 'want', 'were', 'what', 'when', 'where', 'which', 'while', 'will', 'with',
+  'would', 'your', 'yours',
+]);
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const clamp = (value: number): number => Math.min(1, Math.max(0, value));
+
+// Lowercased words of four letters or more, without punctuation or stop words
+const significantWords = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/\s+/)
+    .map(word => word.replace(/[^\w]/g, ''))
+    .filter(word => word.length > 3 && !STOP_WORDS.has(word));
+
+// Whole-word, case-insensitive match of a short phrase such as "AI" or "C++"
+const mentions = (text: string, phrase: string): boolean => {
+  const escaped = phrase.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return escaped.length > 0 && new RegExp(`(?<!\\w)${escaped}(?!\\w)`, 'i').test(text);
+};
+
+// Crude stem so "leaders" matches the "Leadership" pillar and "team" matches "teams"
+const stem = (word: string): string => word.replace(/s$/, '').slice(0, 5);
+
+export class AlignmentService {
+
+  /**
+   * Score a content item against the user's writing style profile and
+   * active brand strategy
+   */
+  static async scoreContent(content: Pick<Content, 'userId' | 'title' | 'body'>): Promise<BrandAlignmentReport> {
+    try {
+      const [profile, strategy] = await Promise.all([
+        WritingStyleService.getWritingStyleProfile(content.userId),
+        BrandStrategyModel.findActiveStrategy(content.userId)
+      ]);
+
+      return this.scoreText([content.title, content.body].filter(Boolean).join('\n\n'), profile, strategy);
+    } catch (error) {
+      logger.error('Failed to score brand alignment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Score a draft from 0 to 1 with an explanation per check. Style checks
+   * need a writing style profile and brand checks an active strategy; with
+   * neither the score is 0.
+   */
+  static scoreText(text: string, profile: WritingStyleProfile | null, strategy: BrandStrategy | null): BrandAlignmentReport {
+    const checks: AlignmentCheck[] = [];
+    const missing: string[] = [];
+
+    if (profile) {
+      const draft = WritingStyleService.profileText(text);
+      checks.push(
+        this.checkSentenceLength(draft.sentenceStructure.averageLength, profile.sentenceStructure.averageLength),
+        this.checkFormality(draft.formality, profile.formality),
+        this.checkVocabulary(text, profile.vocabulary.commonWords)
+      );
+    } else {
+      missing.push('Add writing samples to check sentence length, formality and vocabulary');
+    }
+
+    if (strategy) {
+      if (strategy.contentPillars.length > 0) {
+        checks.push(this.checkPillars(text, strategy.contentPillars));
+      } else {
+        missing.push('Add content pillars to your brand strategy to check pillar coverage');
+      }
+      checks.push(this.checkBannedPhrases(text, strategy.voiceAndTone?.bannedPhrases || []));
+    } else {
+      missing.push('Activate a brand strategy to check pillars and banned phrases');
+    }
+
+    const totalWeight = checks.reduce((sum, check) => sum + check.weight, 0);
+    const score = totalWeight > 0
+      ? checks.reduce((sum, check) => sum + check.score * check.weight, 0) / totalWeight
+      : 0;
+
+    return { score: round(score), checks, missing };
+  }
+
+  private static checkSentenceLength(draftAverage: number, profileAverage: number): AlignmentCheck {
+    const difference = Math.abs((draftAverage || 0) - profileAverage);
+    // Full marks within the tolerance, nothing once sentences are twice as long or short as usual
+    const score = clamp(1 - Math.max(0, difference - SENTENCE_LENGTH_TOLERANCE) / Math.max(profileAverage, SENTENCE_LENGTH_TOLERANCE + 1));
+
+    return {
+      dimension: 'sentence_length',
+      score: round(score),
+      weight: WEIGHTS.sentence_length,
+      explanation: difference <= SENTENCE_LENGTH_TOLERANCE
+        ? `Sentences average ${Math.round(draftAverage || 0)} words, close to your usual ${profileAverage}`
+        : `Sentences average ${Math.round(draftAverage || 0)} words; yours usually run ${profileAverage}`
+    };
+  }
+
+  private static checkFormality(draft: WritingStyleProfile['formality'], profile: WritingStyleProfile['formality']): AlignmentCheck {
+    const distance = Math.abs(FORMALITY_LEVELS[draft] - FORMALITY_LEVELS[profile]);
+
+    return {
+      dimension: 'formality',
+      score: round(1 - distance / 2),
+      weight: WEIGHTS.formality,
+      explanation: distance === 0
+        ? `Reads as ${draft}, matching your usual register`
+        : `Reads as ${draft}; you usually write ${profile}`
+    };
+  }
+
+  private static checkVocabulary(text: string, commonWords: string[]): AlignmentCheck {
+    const vocabulary = [...new Set(commonWords.map(word => word.toLowerCase()).filter(word => !STOP_WORDS.has(word)))];
+    if (vocabulary.length === 0) {
+      return {
+        dimension: 'vocabulary',
+        score: 1,
+        weight: WEIGHTS.vocabulary,
+        explanation: 'Your profile has no characteristic words to compare against yet'
+      };
+    }
+
+    const words = new Set(significantWords(text));
+    const used = vocabulary.filter(word => words.has(word));
+    const target = Math.min(VOCABULARY_TARGET, vocabulary.length);
+
+    return {
+      dimension: 'vocabulary',
+      score: round(clamp(used.length / target)),
+      weight: WEIGHTS.vocabulary,
+      explanation: used.length > 0
+        ? `Uses ${used.length} of your common words: ${used.slice(0, 5).join(', ')}`
+        : `Uses none of your common words, such as ${vocabulary.slice(0, 3).join(', ')}`
+    };
+  }
+
+  /**
+   * A draft should speak to at least one pillar. A pillar counts as covered
+   * when the draft mentions any of its significant words.
+   */
+  private static checkPillars(text: string, pillars: string[]): AlignmentCheck {
+    const stems = new Set(significantWords(text).map(stem));
+    const covered = pillars.filter(pillar => {
+      const pillarWords = significantWords(pillar);
+      return pillarWords.length > 0
+        ? pillarWords.some(word => stems.has(stem(word)))
+        : mentions(text, pillar);
+    });
+
+    return {
+      dimension: 'pillars',
+      score: covered.length > 0 ? 1 : 0,
+      weight: WEIGHTS.pillars,
+      explanation: covered.length > 0
+        ? `Covers ${covered.join(', ')}`
+        : `Doesn't touch any content pillar: ${pillars.join(', ')}`
+    };
+  }
+
+  private static checkBannedPhrases(text: string, bannedPhrases: string[]): AlignmentCheck {
+    const found = bannedPhrases.filter(phrase => mentions(text, phrase));
+
+    return {
+      dimension: 'banned_phrases',
+      // Each banned phrase costs half the check
+      score: round(clamp(1 - found.length * 0.5)),
+      weight: WEIGHTS.banned_phrases,
+      explanation: found.length > 0
+        ? `Uses banned phrases: ${found.join(', ')}`
+        : bannedPhrases.length > 0
+          ? 'Avoids all banned phrases'
+          : 'No banned phrases set in your brand strategy'
+    };
+  }
+}
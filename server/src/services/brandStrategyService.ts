@@ -0,0 +1,144 @@
+import { BrandStrategyModel } from '@/models';
+import { BrandStrategy, BrandStrategyChange, BrandStrategyDiff } from '@/types';
+import { logger } from '@/utils/logger';
+
+export type BrandStrategyInput = Partial<Pick<BrandStrategy,
+  'coreMessage' | 'targetAudience' | 'contentPillars' | 'voiceAndTone' | 'platformStrategy'>>;
+
+export class BrandStrategyService {
+
+  /**
+   * Get the user's active strategy, creating the default one on first use
+   */
+  static async getActiveStrategy(userId: string): Promise<BrandStrategy> {
+    try {
+      const active = await BrandStrategyModel.findActiveStrategy(userId);
+      if (active) {
+        return active;
+      }
+
+      logger.info(`Creating default brand strategy for user ${userId}`);
+      return await BrandStrategyModel.createDefaultStrategy(userId);
+    } catch (error) {
+      logger.error('Failed to get active brand strategy:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Save changes as a new strategy version based on an existing one.
+   * Previous versions are never modified so they stay available for diffing and rollback.
+   */
+  static async saveVersion(
+    userId: string,
+    base: BrandStrategy | null,
+    changes: BrandStrategyInput,
+    activate: boolean = true
+  ): Promise<BrandStrategy> {
+    try {
+      const strategyData: Omit<BrandStrategy, 'id' | 'version' | 'createdAt' | 'updatedAt'> = {
+        userId,
+        targetAudience: changes.targetAudience ?? base?.targetAudience ?? [],
+        contentPillars: changes.contentPillars ?? base?.contentPillars ?? [],
+        voiceAndTone: changes.voiceAndTone ?? base?.voiceAndTone ?? {
+          tone: '',
+          personality: [],
+          vocabulary: '',
+          writingStyle: ''
+        },
+        platformStrategy: changes.platformStrategy ?? base?.platformStrategy ?? {},
+        isActive: false
+      };
+
+      const coreMessage = changes.coreMessage ?? base?.coreMessage;
+      if (coreMessage !== undefined) {
+        strategyData.coreMessage = coreMessage;
+      }
+      if (base) {
+        strategyData.parentId = base.id;
+      }
+
+      const created = await BrandStrategyModel.create(strategyData);
+
+      logger.info(`Saved brand strategy version ${created.version} for user ${userId}`);
+
+      if (!activate) {
+        return created;
+      }
+
+      return (await BrandStrategyModel.setActiveStrategy(userId, created.id)) ?? created;
+    } catch (error) {
+      logger.error('Failed to save brand strategy version:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Roll back to a previous strategy by saving a copy of it as the newest active version
+   */
+  static async rollback(userId: string, target: BrandStrategy): Promise<BrandStrategy> {
+    try {
+      const restored = await this.saveVersion(userId, target, {}, true);
+
+      logger.info(`Rolled back brand strategy for user ${userId} to version ${target.version}`);
+      return restored;
+    } catch (error) {
+      logger.error('Failed to roll back brand strategy:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Describe field-level changes between two strategies
+   */
+  static diffStrategies(from: BrandStrategy, to: BrandStrategy): BrandStrategyDiff {
+    const changes: BrandStrategyChange[] = [];
+
+    this.collectChanges('coreMessage', from.coreMessage ?? '', to.coreMessage ?? '', changes);
+    this.collectChanges('targetAudience', from.targetAudience ?? [], to.targetAudience ?? [], changes);
+    this.collectChanges('contentPillars', from.contentPillars ?? [], to.contentPillars ?? [], changes);
+    this.collectChanges('voiceAndTone', from.voiceAndTone ?? {}, to.voiceAndTone ?? {}, changes);
+    this.collectChanges('platformStrategy', from.platformStrategy ?? {}, to.platformStrategy ?? {}, changes);
+
+    return {
+      fromId: from.id,
+      toId: to.id,
+      fromVersion: from.version,
+      toVersion: to.version,
+      changes
+    };
+  }
+
+  /**
+   * Recursively compare values, reporting arrays as added/removed items
+   */
+  private static collectChanges(path: string, before: any, after: any, changes: BrandStrategyChange[]): void {
+    if (Array.isArray(before) || Array.isArray(after)) {
+      const beforeItems: any[] = Array.isArray(before) ? before : [];
+      const afterItems: any[] = Array.isArray(after) ? after : [];
+      const added = afterItems.filter(item => !beforeItems.includes(item)).map(String);
+      const removed = beforeItems.filter(item => !afterItems.includes(item)).map(String);
+
+      if (added.length > 0 || removed.length > 0) {
+        changes.push({ field: path, before: beforeItems, after: afterItems, added, removed });
+      }
+      return;
+    }
+
+    const isObject = (value: any) => value !== null && typeof value === 'object';
+    if (isObject(before) || isObject(after)) {
+      const beforeObject = isObject(before) ? before : {};
+      const afterObject = isObject(after) ? after : {};
+      const keys = new Set([...Object.keys(beforeObject), ...Object.keys(afterObject)]);
+
+      for (const key of [...keys].sort()) {
+        this.collectChanges(`${path}.${key}`, beforeObject[key], afterObject[key], changes);
+      }
+      return;
+    }
+
+    if (before !== after) {
+      changes.push({ field: path, before: before ?? null, after: after ?? null });
+    }
+  }
+}
@@ -0,0 +1,222 @@
+import { CompetitorModel, CompetitorSnapshotModel } from '@/models';
+import { Competitor, CompetitorDiff, CompetitorPlatformChange, CompetitorSnapshot } from '@/types';
+import { EmbeddingService } from '@/services/embeddingService';
+import { CompetitorInfo } from '@/services/webSearchService';
+import { createError } from '@/middleware/errorHandler';
+import { VectorDatabaseService } from '@/utils/vectorDatabase';
+import { logger } from '@/utils/logger';
+
+const MAX_COMPETITORS_PER_USER = 25;
+
+// Diffs compare against the snapshot from this long ago unless asked otherwise
+const DEFAULT_DIFF_DAYS = 7;
+
+export interface SimilarCompetitor {
+  name: string;
+  industry?: string;
+  competitorId?: string;
+  similarity: number;
+}
+
+export class CompetitorService {
+
+  /**
+   * Add a competitor to the user's watchlist
+   */
+  static async addCompetitor(userId: string, details: { name: string; industry: string; domain?: string }): Promise<Competitor> {
+    const name = details.name.trim();
+
+    const existing = await CompetitorModel.findByName(userId, name);
+    if (existing) {
+      throw createError(`${existing.name} is already on your watchlist`, 409);
+    }
+
+    const watchlist = await CompetitorModel.findByUserId(userId);
+    if (watchlist.length >= MAX_COMPETITORS_PER_USER) {
+      throw createError(`You can track at most ${MAX_COMPETITORS_PER_USER} competitors`, 400);
+    }
+
+    try {
+      const competitor = await CompetitorModel.create({
+        userId,
+        name,
+        industry: details.industry.trim(),
+        ...(details.domain && { domain: details.domain.trim() })
+      });
+      logger.info(`User ${userId} started tracking competitor ${competitor.name}`);
+      return competitor;
+    } catch (error) {
+      logger.error('Failed to add competitor:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a competitor, its snapshots and its embedding
+   */
+  static async removeCompetitor(competitor: Competitor): Promise<void> {
+    try {
+      await CompetitorModel.delete(competitor.id);
+    } catch (error) {
+      logger.error('Failed to remove competitor:', error);
+      throw error;
+    }
+
+    if (competitor.vectorDocumentId) {
+      try {
+        await VectorDatabaseService.deleteDocument(competitor.vectorDocumentId);
+      } catch (error) {
+        logger.error(`Failed to delete the embedding of competitor ${competitor.id}:`, error);
+        // Don't throw - the competitor is gone, a stale embedding only affects similarity results
+      }
+    }
+  }
+
+  /**
+   * Find the watchlist entry for an analyzed competitor, adding it if needed
+   */
+  static async track(userId: string, info: Pick<CompetitorInfo, 'name' | 'industry' | 'domain'>): Promise<Competitor> {
+    const existing = await CompetitorModel.findByName(userId, info.name);
+    if (existing) {
+      return existing;
+    }
+
+    return this.addCompetitor(userId, info);
+  }
+
+  /**
+   * Store an analysis as the competitor's latest snapshot and re-embed it for
+   * similarity search
+   */
+  static async recordSnapshot(competitor: Competitor, info: CompetitorInfo): Promise<CompetitorSnapshot> {
+    let snapshot: CompetitorSnapshot;
+    try {
+      snapshot = await CompetitorSnapshotModel.create({
+        competitorId: competitor.id,
+        keyTopics: info.keyTopics,
+        contentFrequency: info.contentFrequency,
+        recentPostCount: info.recentPostCount,
+        socialPresence: info.socialPresence,
+        recentContent: info.recentContent.map(result => ({
+          title: result.title,
+          url: result.url,
+          ...(result.publishedDate && { publishedDate: result.publishedDate })
+        }))
+      });
+    } catch (error) {
+      logger.error('Failed to record competitor snapshot:', error);
+      throw error;
+    }
+
+    try {
+      const document = await EmbeddingService.storeCompetitorData(competitor.userId, {
+        name: competitor.name,
+        industry: competitor.industry,
+        platforms: info.socialPresence.map(presence => presence.platform),
+        contentStrategy: info.keyTopics,
+        competitorId: competitor.id
+      }, competitor.vectorDocumentId);
+
+      if (document.id !== competitor.vectorDocumentId) {
+        await CompetitorModel.update(competitor.id, { vectorDocumentId: document.id });
+      }
+    } catch (error) {
+      logger.error(`Failed to re-embed competitor ${competitor.id}:`, error);
+      // Don't throw - the snapshot is saved and the next one re-embeds
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Compare the latest snapshot with the one from `since` (a week ago by default)
+   */
+  static async getDiff(competitor: Competitor, since: Date = new Date(Date.now() - DEFAULT_DIFF_DAYS * 24 * 60 * 60 * 1000)): Promise<CompetitorDiff> {
+    const [latest] = await CompetitorSnapshotModel.findByCompetitorId(competitor.id, 1);
+    if (!latest) {
+      throw createError('No snapshots yet; take one first', 404);
+    }
+
+    const baseline = await CompetitorSnapshotModel.findBaseline(competitor.id, since);
+    return this.diffSnapshots(baseline ?? latest, latest);
+  }
+
+  /**
+   * Describe what changed between two snapshots of a competitor
+   */
+  static diffSnapshots(from: CompetitorSnapshot, to: CompetitorSnapshot): CompetitorDiff {
+    const normalize = (topic: string) => topic.trim().toLowerCase();
+    const fromTopics = new Set(from.keyTopics.map(normalize));
+    const toTopics = new Set(to.keyTopics.map(normalize));
+
+    const fromPlatforms = new Map(from.socialPresence.map(presence => [presence.platform, presence]));
+    const toPlatforms = new Map(to.socialPresence.map(presence => [presence.platform, presence]));
+
+    const platformChanges: CompetitorPlatformChange[] = [];
+    for (const [platform, after] of toPlatforms) {
+      const before = fromPlatforms.get(platform);
+      if (before && (before.followers !== after.followers || before.engagement !== after.engagement)) {
+        platformChanges.push({
+          platform,
+          followersBefore: before.followers ?? null,
+          followersAfter: after.followers ?? null,
+          engagementBefore: before.engagement ?? null,
+          engagementAfter: after.engagement ?? null
+        });
+      }
+    }
+
+    const seenUrls = new Set(from.recentContent.map(content => content.url));
+
+    return {
+      competitorId: to.competitorId,
+      fromId: from.id,
+      toId: to.id,
+      fromCapturedAt: from.capturedAt,
+      toCapturedAt: to.capturedAt,
+      topicsAdded: to.keyTopics.filter(topic => !fromTopics.has(normalize(topic))),
+      topicsRemoved: from.keyTopics.filter(topic => !toTopics.has(normalize(topic))),
+      contentFrequency: from.contentFrequency !== to.contentFrequency
+        ? { before: from.contentFrequency, after: to.contentFrequency }
+        : null,
+      recentPostCount: { before: from.recentPostCount, after: to.recentPostCount },
+      platformsAdded: [...toPlatforms.keys()].filter(platform => !fromPlatforms.has(platform)),
+      platformsRemoved: [...fromPlatforms.keys()].filter(platform => !toPlatforms.has(platform)),
+      platformChanges,
+      newContent: to.recentContent
+        .filter(content => !seenUrls.has(content.url))
+        .map(content => ({ title: content.title, url: content.url }))
+    };
+  }
+
+  /**
+   * Other competitors of the user whose latest snapshots embed closest to this one
+   */
+  static async findSimilar(competitor: Competitor, limit: number = 5): Promise<SimilarCompetitor[]> {
+    if (!competitor.vectorDocumentId) {
+      return [];
+    }
+
+    try {
+      const document = await VectorDatabaseService.getDocumentById(competitor.vectorDocumentId);
+      if (!document) {
+        return [];
+      }
+
+      const results = await VectorDatabaseService.similaritySearch(document.content, competitor.userId, 'competitor', limit + 1, 0);
+
+      return results
+        .filter(result => result.document.id !== document.id)
+        .slice(0, limit)
+        .map(result => ({
+          name: result.document.metadata['competitorName'],
+          industry: result.document.metadata['industry'],
+          competitorId: result.document.metadata['competitorId'],
+          similarity: result.similarity
+        }));
+    } catch (error) {
+      logger.error('Failed to find similar competitors:', error);
+      throw error;
+    }
+  }
+}
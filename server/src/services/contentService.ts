@@ -0,0 +1,143 @@
+import { ContentModel } from '@/models';
+import { AlignmentService } from '@/services/alignmentService';
+import { EmbeddingService } from '@/services/embeddingService';
+import { Content, ContentFilters } from '@/types';
+import { logger } from '@/utils/logger';
+
+export type ContentInput = Omit<Content, 'id' | 'userId' | 'createdAt' | 'updatedAt'>;
+
+export class ContentService {
+
+  /**
+   * Create a content item, scoring its brand alignment and indexing it for
+   * semantic search
+   */
+  static async createContent(userId: string, contentData: ContentInput): Promise<Content> {
+    try {
+      const brandAlignment = await this.scoreAlignment({ ...contentData, userId });
+      const content = await ContentModel.create({ ...contentData, userId, brandAlignment });
+
+      await this.syncEmbedding(content);
+
+      logger.info(`Created ${content.status} content ${content.id} for user ${userId}`);
+      return content;
+    } catch (error) {
+      logger.error('Failed to create content:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List a user's content library with optional filters
+   */
+  static async listContent(userId: string, filters: ContentFilters = {}): Promise<Content[]> {
+    try {
+      return await ContentModel.findWithFilters(userId, filters);
+    } catch (error) {
+      logger.error('Failed to list content:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a content item, re-scoring and re-embedding it when its text changes
+   */
+  static async updateContent(content: Content, updates: Partial<ContentInput>): Promise<Content | null> {
+    try {
+      const changes = updates.title !== undefined || updates.body !== undefined
+        ? { ...updates, brandAlignment: await this.scoreAlignment({ ...content, ...updates }) }
+        : updates;
+
+      const updated = await ContentModel.update(content.id, changes);
+
+      if (updated && this.affectsEmbedding(updates)) {
+        await this.syncEmbedding(updated);
+      }
+
+      return updated;
+    } catch (error) {
+      logger.error('Failed to update content:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move a content item to the archived state
+   */
+  static async archiveContent(content: Content): Promise<Content | null> {
+    try {
+      const archived = await ContentModel.archive(content.id);
+
+      logger.info(`Archived content ${content.id} for user ${content.userId}`);
+      return archived;
+    } catch (error) {
+      logger.error('Failed to archive content:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a content item together with its vector document
+   */
+  static async deleteContent(content: Content): Promise<boolean> {
+    try {
+      const deleted = await ContentModel.delete(content.id);
+
+      if (deleted) {
+        try {
+          await EmbeddingService.removeContentEmbedding(content.userId, content.id);
+        } catch (error) {
+          logger.error('Failed to remove content embedding:', error);
+          // Don't throw - the content row is already gone
+        }
+      }
+
+      return deleted;
+    } catch (error) {
+      logger.error('Failed to delete content:', error);
+      throw error;
+    }
+  }
+
+  private static affectsEmbedding(updates: Partial<ContentInput>): boolean {
+    return updates.title !== undefined
+      || updates.body !== undefined
+      || updates.tags !== undefined
+      || updates.platform !== undefined
+      || updates.contentType !== undefined;
+  }
+
+  private static async scoreAlignment(content: Pick<Content, 'userId' | 'title' | 'body' | 'brandAlignment'>): Promise<number> {
+    try {
+      const report = await AlignmentService.scoreContent(content);
+      return report.score;
+    } catch (error) {
+      logger.error('Failed to score content alignment:', error);
+      // Don't throw - the content is saved with its previous score
+      return content.brandAlignment;
+    }
+  }
+
+  private static async syncEmbedding(content: Content): Promise<void> {
+    try {
+      await EmbeddingService.updateContentEmbedding(
+        content.userId,
+        content.id,
+        this.contentToText(content),
+        {
+          platform: content.platform,
+          contentType: content.contentType,
+          status: content.status,
+          tags: content.tags
+        }
+      );
+    } catch (error) {
+      logger.error('Failed to sync content embedding:', error);
+      // Don't throw - the draft is saved even if embedding fails
+    }
+  }
+
+  private static contentToText(content: Content): string {
+    return [content.title, content.body].filter(Boolean).join('\n\n');
+  }
+}
@@ -1,4 +1,4 @@
-import { VectorDatabaseService, VectorDocument } from '@/utils/vectorDatabase';
+import { VectorDatabaseService, VectorDocument, HybridSearchFilters, HybridSearchResult } from '@/utils/vectorDatabase';
 import { UserContextModel, ContentModel, IntelligenceDataModel } from '@/models';
 import { logger } from '@/utils/logger';
 
@@ -22,6 +22,7 @@ export interface SemanticSearchOptions {
   limit?: number;
   threshold?: number;
   includeMetadata?: boolean;
+  filters?: Omit<HybridSearchFilters, 'documentTypes'>;
 }
 
 export class EmbeddingService {
@@ -53,6 +54,32 @@ export class EmbeddingService {
     }
   }
 
+  /**
+   * Store several context items of one type, embedding them in a single batch
+   */
+  static async storeUserContexts(userId: string, contextType: string, contextItems: Record<string, any>[]): Promise<VectorDocument[]> {
+    try {
+      const timestamp = new Date().toISOString();
+
+      const documents = await VectorDatabaseService.batchStoreDocuments(contextItems.map(contextData => ({
+        userId,
+        content: this.contextToText(contextType, contextData),
+        metadata: {
+          contextType,
+          originalData: contextData,
+          timestamp
+        },
+        documentType: 'context' as const
+      })));
+
+      logger.info(`Stored ${documents.length} ${contextType} context embeddings for user ${userId}`);
+      return documents;
+    } catch (error) {
+      logger.error('Failed to store user context embeddings:', error);
+      throw error;
+    }
+  }
+
   /**
    * Store content samples for writing style analysis
    */
@@ -107,22 +134,29 @@ export class EmbeddingService {
   }
 
   /**
-   * Store competitor analysis data
+   * Store competitor analysis data. Pass the id of the competitor's existing
+   * document to re-embed it in place instead of adding another.
    */
-  static async storeCompetitorData(userId: string, competitorData: any): Promise<VectorDocument> {
+  static async storeCompetitorData(userId: string, competitorData: any, documentId?: string): Promise<VectorDocument> {
     try {
       const competitorText = this.competitorToText(competitorData);
-      
-      const document = await VectorDatabaseService.storeDocument({
+      const metadata = {
+        competitorId: competitorData.competitorId,
+        competitorName: competitorData.name,
+        industry: competitorData.industry,
+        platforms: competitorData.platforms,
+        strengths: competitorData.strengths,
+        timestamp: new Date().toISOString()
+      };
+
+      const updated = documentId
+        ? await VectorDatabaseService.updateDocument(documentId, { content: competitorText, metadata })
+        : null;
+
+      const document = updated ?? await VectorDatabaseService.storeDocument({
         userId,
         content: competitorText,
-        metadata: {
-          competitorName: competitorData.name,
-          industry: competitorData.industry,
-          platforms: competitorData.platforms,
-          strengths: competitorData.strengths,
-          timestamp: new Date().toISOString()
-        },
+        metadata,
         documentType: 'competitor'
       });
 
@@ -167,39 +201,30 @@ export class EmbeddingService {
   }
 
   /**
-   * Find semantically similar content for inspiration
+   * Find similar content for inspiration using hybrid keyword and semantic search
    */
-  static async findSimilarContent(userId: string, query: string, options: SemanticSearchOptions = {}): Promise<any[]> {
+  static async findSimilarContent(userId: string, query: string, options: SemanticSearchOptions = {}): Promise<(HybridSearchResult & { documentType: string; metadata?: Record<string, any> })[]> {
     try {
       const {
         documentTypes = ['content', 'writing_sample'],
         limit = 10,
-        threshold = 0.7,
-        includeMetadata = true
+        threshold = 0,
+        includeMetadata = true,
+        filters = {}
       } = options;
 
-      const results = [];
-
-      for (const docType of documentTypes) {
-        const searchResults = await VectorDatabaseService.similaritySearch(
-          query,
-          userId,
-          docType,
-          limit,
-          threshold
-        );
-
-        results.push(...searchResults.map(result => ({
-          ...result,
-          documentType: docType,
-          metadata: includeMetadata ? result.document.metadata : undefined
-        })));
-      }
+      const results = await VectorDatabaseService.hybridSearch(query, userId, {
+        ...filters,
+        documentTypes,
+        limit,
+        threshold
+      });
 
-      // Sort by similarity and limit results
-      return results
-        .sort((a, b) => b.similarity - a.similarity)
-        .slice(0, limit);
+      return results.map(result => ({
+        ...result,
+        documentType: result.document.documentType,
+        ...(includeMetadata && { metadata: result.document.metadata })
+      }));
     } catch (error) {
       logger.error('Failed to find similar content:', error);
       throw error;
@@ -276,29 +301,63 @@ export class EmbeddingService {
   }
 
   /**
-   * Update embeddings when content changes
+   * Update embeddings when content changes, creating the vector document on first save
    */
-  static async updateContentEmbedding(contentId: string, newContent: string): Promise<void> {
+  static async updateContentEmbedding(
+    userId: string,
+    contentId: string,
+    newContent: string,
+    metadata: Record<string, any> = {}
+  ): Promise<VectorDocument | null> {
     try {
       // Find existing vector document for this content
-      const existingDocs = await VectorDatabaseService.getUserDocuments('', 'content');
-      const existingDoc = existingDocs.find(doc => doc.metadata.contentId === contentId);
+      const existingDoc = await VectorDatabaseService.getContentDocument(userId, contentId);
 
       if (existingDoc) {
-        await VectorDatabaseService.updateDocument(existingDoc.id, {
+        return await VectorDatabaseService.updateDocument(existingDoc.id, {
           content: newContent,
           metadata: {
             ...existingDoc.metadata,
+            ...metadata,
             lastUpdated: new Date().toISOString()
           }
         });
       }
+
+      return await VectorDatabaseService.storeDocument({
+        userId,
+        content: newContent,
+        metadata: {
+          ...metadata,
+          contentId,
+          timestamp: new Date().toISOString()
+        },
+        documentType: 'content'
+      });
     } catch (error) {
       logger.error('Failed to update content embedding:', error);
       throw error;
     }
   }
 
+  /**
+   * Remove the vector document linked to a content item
+   */
+  static async removeContentEmbedding(userId: string, contentId: string): Promise<boolean> {
+    try {
+      const existingDoc = await VectorDatabaseService.getContentDocument(userId, contentId);
+
+      if (!existingDoc) {
+        return false;
+      }
+
+      return await VectorDatabaseService.deleteDocument(existingDoc.id);
+    } catch (error) {
+      logger.error('Failed to remove content embedding:', error);
+      throw error;
+    }
+  }
+
   /**
    * Convert context data to searchable text
    */
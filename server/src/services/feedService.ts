@@ -0,0 +1,267 @@
+import { createHash } from 'crypto';
+import { parseFeed } from '@anidhi/shared';
+import { FeedSubscriptionModel } from '@/models';
+import { FeedEntry, FeedSubscription, IntelligenceData, ParsedFeed } from '@/types';
+import { IntelligenceService } from '@/services/intelligenceService';
+import { EmbeddingService } from '@/services/embeddingService';
+import { createError } from '@/middleware/errorHandler';
+import { logger } from '@/utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Feed items stay in the intelligence feed for two weeks unless saved
+const FEED_ITEM_TTL_DAYS = 14;
+
+// The first poll of a new subscription only ingests the newest entries
+const INITIAL_ENTRY_LIMIT = 20;
+
+// Consecutive failures before a subscription is paused
+const MAX_CONSECUTIVE_ERRORS = 5;
+
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_FEED_BYTES = 5 * 1024 * 1024;
+
+const POLL_INTERVAL_MINUTES = parseInt(process.env['FEED_POLL_INTERVAL_MINUTES'] || '') || 15;
+
+const USER_AGENT = 'ANIDHI-Feed-Reader/1.0';
+
+type FetchResult =
+  | { notModified: true }
+  | { notModified: false; feed: ParsedFeed; etag?: string; lastModified?: string };
+
+export interface PollResult {
+  subscription: FeedSubscription;
+  notModified: boolean;
+  items: IntelligenceData[];
+}
+
+export class FeedService {
+
+  /**
+   * Subscribe a user to a feed. The feed is fetched straight away so a bad
+   * URL is rejected and the first entries show up immediately.
+   */
+  static async subscribe(userId: string, url: string, pollIntervalMinutes?: number): Promise<PollResult> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw createError('Feed URL is not a valid URL', 400);
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      throw createError('Feed URL must use http or https', 400);
+    }
+
+    const existing = await FeedSubscriptionModel.findByUserAndUrl(userId, parsed.toString());
+    if (existing) {
+      throw createError('Already subscribed to this feed', 409);
+    }
+
+    let fetched: FetchResult;
+    try {
+      fetched = await this.fetchFeed(parsed.toString());
+    } catch (error) {
+      throw createError(`Could not read feed: ${(error as Error).message}`, 422);
+    }
+
+    try {
+      const subscription = await FeedSubscriptionModel.create({
+        userId,
+        url: parsed.toString(),
+        ...(pollIntervalMinutes !== undefined && { pollIntervalMinutes })
+      });
+
+      logger.info(`User ${userId} subscribed to feed ${subscription.url}`);
+      return await this.ingest(subscription, fetched);
+    } catch (error) {
+      logger.error('Failed to subscribe to feed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch a subscription with conditional request headers and ingest any
+   * entries it has not seen before. Failures are recorded on the subscription.
+   */
+  static async poll(subscription: FeedSubscription): Promise<PollResult> {
+    let fetched: FetchResult;
+    try {
+      fetched = await this.fetchFeed(subscription.url, subscription.etag, subscription.lastModified);
+    } catch (error) {
+      const message = (error as Error).message;
+      const updated = await FeedSubscriptionModel.recordError(subscription.id, message, MAX_CONSECUTIVE_ERRORS);
+      logger.warn(`Failed to poll feed ${subscription.url}: ${message}`);
+      if (updated && !updated.isActive) {
+        logger.warn(`Paused feed ${subscription.url} after ${MAX_CONSECUTIVE_ERRORS} consecutive failures`);
+      }
+      throw createError(`Could not read feed: ${message}`, 422);
+    }
+
+    return this.ingest(subscription, fetched);
+  }
+
+  /**
+   * Poll every subscription whose interval has elapsed. Returns the number
+   * of new items ingested.
+   */
+  static async pollDue(): Promise<number> {
+    const due = await FeedSubscriptionModel.findDue();
+    let ingested = 0;
+
+    for (const subscription of due) {
+      try {
+        const result = await this.poll(subscription);
+        ingested += result.items.length;
+      } catch (error) {
+        // Don't throw - the failure is recorded and the other feeds still poll
+      }
+    }
+
+    if (ingested > 0) {
+      logger.info(`Ingested ${ingested} feed items from ${due.length} feeds`);
+    }
+    return ingested;
+  }
+
+  /**
+   * Run pollDue every FEED_POLL_INTERVAL_MINUTES (default 15). Each
+   * subscription still honours its own poll interval.
+   */
+  static schedulePolling(intervalMinutes: number = POLL_INTERVAL_MINUTES): NodeJS.Timeout {
+    const timer = setInterval(() => {
+      this.pollDue().catch(error => {
+        // Don't throw - the next run will try again
+        logger.error('Failed to poll feeds:', error);
+      });
+    }, intervalMinutes * 60 * 1000);
+
+    // Don't keep the process alive just for polling
+    timer.unref();
+    return timer;
+  }
+
+  private static async ingest(subscription: FeedSubscription, fetched: FetchResult): Promise<PollResult> {
+    if (fetched.notModified) {
+      const updated = await FeedSubscriptionModel.recordPoll(subscription.id);
+      return { subscription: updated ?? subscription, notModified: true, items: [] };
+    }
+
+    const { feed } = fetched;
+    let entries = await FeedSubscriptionModel.filterUnseen(subscription.id, feed.entries);
+    if (!subscription.lastPolledAt) {
+      entries = this.newestFirst(entries).slice(0, INITIAL_ENTRY_LIMIT);
+    }
+
+    const feedTitle = subscription.title || feed.title || subscription.url;
+    const items: IntelligenceData[] = [];
+    const ingested: FeedEntry[] = [];
+
+    for (const entry of entries) {
+      const item = await IntelligenceService.createItem({
+        userId: subscription.userId,
+        type: 'news',
+        data: {
+          title: entry.title,
+          ...(entry.summary && { summary: entry.summary }),
+          ...(entry.url && { url: entry.url }),
+          ...(entry.author && { author: entry.author }),
+          ...(entry.publishedAt && { publishedAt: entry.publishedAt.toISOString() }),
+          feedTitle,
+          subscriptionId: subscription.id
+        },
+        relevanceScore: 0.5,
+        isActionable: false,
+        source: 'feed',
+        fingerprint: `feed:${createHash('sha256').update(`${subscription.id}\n${entry.guid}`).digest('hex')}`,
+        expiresAt: new Date(Date.now() + FEED_ITEM_TTL_DAYS * DAY_MS)
+      });
+
+      // A concurrent poll may have taken the entry; the fingerprint kept the item single
+      if (await FeedSubscriptionModel.markSeen(subscription.id, entry, item.id)) {
+        items.push(item);
+        ingested.push(entry);
+      }
+    }
+
+    if (ingested.length > 0) {
+      await this.storeEmbeddings(subscription.userId, feedTitle, ingested);
+    }
+
+    const updated = await FeedSubscriptionModel.recordPoll(subscription.id, {
+      etag: fetched.etag,
+      lastModified: fetched.lastModified,
+      title: feed.title,
+      siteUrl: feed.siteUrl,
+      format: feed.format
+    });
+
+    logger.info(`Polled feed ${subscription.url}: ${items.length} new of ${feed.entries.length} entries`);
+    return { subscription: updated ?? subscription, notModified: false, items };
+  }
+
+  private static async fetchFeed(url: string, etag?: string, lastModified?: string): Promise<FetchResult> {
+    const headers: Record<string, string> = {
+      'User-Agent': USER_AGENT,
+      Accept: 'application/feed+json, application/atom+xml, application/rss+xml, application/xml;q=0.9, text/xml;q=0.9, */*;q=0.5'
+    };
+    if (etag) {
+      headers['If-None-Match'] = etag;
+    }
+    if (lastModified) {
+      headers['If-Modified-Since'] = lastModified;
+    }
+
+    const response = await fetch(url, { headers, redirect: 'follow', signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+
+    if (response.status === 304) {
+      return { notModified: true };
+    }
+    if (!response.ok) {
+      throw new Error(`server responded with status ${response.status}`);
+    }
+
+    const declaredLength = parseInt(response.headers.get('content-length') || '');
+    if (declaredLength > MAX_FEED_BYTES) {
+      throw new Error('feed is too large');
+    }
+
+    const body = await response.text();
+    if (body.length > MAX_FEED_BYTES) {
+      throw new Error('feed is too large');
+    }
+
+    const responseEtag = response.headers.get('etag');
+    const responseLastModified = response.headers.get('last-modified');
+
+    return {
+      notModified: false,
+      // Resolve relative links against where the feed actually lives
+      feed: parseFeed(body, response.url || url),
+      ...(responseEtag && { etag: responseEtag }),
+      ...(responseLastModified && { lastModified: responseLastModified })
+    };
+  }
+
+  private static newestFirst(entries: FeedEntry[]): FeedEntry[] {
+    return [...entries].sort((a, b) => (b.publishedAt?.getTime() ?? 0) - (a.publishedAt?.getTime() ?? 0));
+  }
+
+  private static async storeEmbeddings(userId: string, feedTitle: string, entries: FeedEntry[]): Promise<void> {
+    try {
+      await EmbeddingService.storeUserContexts(
+        userId,
+        'feed_item',
+        entries.map(entry => ({
+          title: entry.title,
+          feed: feedTitle,
+          ...(entry.url && { url: entry.url }),
+          ...(entry.author && { author: entry.author }),
+          summary: entry.content || entry.summary || ''
+        }))
+      );
+    } catch (error) {
+      logger.error('Failed to store feed item embeddings:', error);
+      // Don't throw - the items are in the feed either way
+    }
+  }
+}
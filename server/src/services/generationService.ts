@@ -0,0 +1,213 @@
+import { BrandStrategyModel, ProjectModel } from '@/models';
+import { ContentService } from '@/services/contentService';
+import { EmbeddingService } from '@/services/embeddingService';
+import { LlmService } from '@/services/llmService';
+import { WritingStyleProfile, WritingStyleService } from '@/services/writingStyleService';
+import { createError } from '@/middleware/errorHandler';
+import { BrandStrategy, Content, Project } from '@/types';
+import { POST_PROMPT, POST_SYSTEM } from '@/templates/postGeneration';
+import { LlmMessage, LlmUsage } from '@/utils/llmProviders';
+import { renderTemplate } from '@/utils/templates';
+import { logger } from '@/utils/logger';
+
+export const GENERATION_PLATFORMS = ['linkedin', 'twitter', 'instagram', 'youtube', 'blog'] as const;
+
+export type GenerationPlatform = typeof GENERATION_PLATFORMS[number];
+
+const PLATFORM_GUIDES: Record<GenerationPlatform, string> = {
+  linkedin: 'Up to about 1,300 characters. Open with a line that earns the click on "see more", keep paragraphs short and end with a question or call to action. Three to five hashtags.',
+  twitter: 'At most 280 characters including hashtags. One idea, stated plainly. One or two hashtags.',
+  instagram: 'A caption of up to about 2,200 characters with the hook in the first line. Up to ten hashtags.',
+  youtube: 'A video script: a hook in the first 15 seconds, three to five talking points and a closing call to action. Three hashtags.',
+  blog: 'A 300 to 600 word article with a clear structure and a title. Hashtags become the post tags.',
+};
+
+const DEFAULT_CONTENT_TYPES: Record<GenerationPlatform, string> = {
+  linkedin: 'post',
+  twitter: 'post',
+  instagram: 'caption',
+  youtube: 'script',
+  blog: 'article',
+};
+
+// Few-shot examples are trimmed so a long article doesn't crowd out the rest of the prompt
+const EXAMPLE_COUNT = 3;
+const EXAMPLE_MAX_CHARS = 1200;
+
+export const MAX_DRAFTS = 5;
+
+export interface PostGenerationRequest {
+  topic: string;
+  platform: GenerationPlatform;
+  contentType?: string;
+  project?: Project;
+  count?: number;
+}
+
+export interface PostGenerationResult {
+  drafts: Content[];
+  // What the prompt was conditioned on
+  context: {
+    styleProfile: boolean;
+    pillars: string[];
+    examples: number;
+    projectId?: string;
+  };
+  model: string;
+  usage: LlmUsage;
+}
+
+interface GeneratedDraft {
+  title?: string;
+  body?: string;
+  hashtags?: string[];
+}
+
+export class GenerationService {
+
+  /**
+   * Draft posts in the user's voice: the prompt carries their writing style
+   * profile, the active brand strategy and their most similar past writing
+   * as examples. Each draft is saved as a draft content item and linked to
+   * the project when one is given.
+   */
+  static async generatePost(userId: string, request: PostGenerationRequest): Promise<PostGenerationResult> {
+    try {
+      const count = Math.min(Math.max(request.count ?? 3, 1), MAX_DRAFTS);
+
+      const [style, strategy, examples] = await Promise.all([
+        WritingStyleService.getWritingStyleProfile(userId),
+        BrandStrategyModel.findActiveStrategy(userId),
+        this.findExamples(userId, request.topic)
+      ]);
+
+      const messages = this.buildMessages({ ...request, count }, style, strategy, examples);
+      const { data, response } = await LlmService.completeJson<{ drafts?: GeneratedDraft[] }>(
+        userId,
+        'content_generation',
+        messages,
+        { temperature: 0.8, maxTokens: 800 * count }
+      );
+
+      const generated = (Array.isArray(data.drafts) ? data.drafts : [])
+        .filter(draft => typeof draft?.body === 'string' && draft.body.trim().length > 0)
+        .slice(0, count);
+      if (generated.length === 0) {
+        throw createError('The model did not return any drafts', 502);
+      }
+
+      const drafts: Content[] = [];
+      for (const draft of generated) {
+        const content = await ContentService.createContent(userId, {
+          platform: request.platform,
+          contentType: request.contentType || DEFAULT_CONTENT_TYPES[request.platform],
+          body: draft.body!.trim(),
+          tags: this.toTags(draft.hashtags),
+          brandAlignment: 0,
+          performanceScore: 0,
+          status: 'draft',
+          ...(draft.title?.trim() && { title: draft.title.trim() })
+        });
+
+        if (request.project) {
+          await ProjectModel.linkContent(request.project.id, content.id);
+        }
+        drafts.push(content);
+      }
+
+      logger.info(`Generated ${drafts.length} ${request.platform} drafts for user ${userId}`);
+
+      return {
+        drafts,
+        context: {
+          styleProfile: !!style,
+          pillars: strategy?.contentPillars || [],
+          examples: examples.length,
+          ...(request.project && { projectId: request.project.id })
+        },
+        model: response.model,
+        usage: response.usage
+      };
+    } catch (error) {
+      logger.error('Failed to generate post:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Build the system and user messages for a generation request
+   */
+  static buildMessages(
+    request: PostGenerationRequest & { count: number },
+    style: WritingStyleProfile | null,
+    strategy: BrandStrategy | null,
+    examples: { platform: string; text: string }[]
+  ): LlmMessage[] {
+    const view = {
+      topic: request.topic,
+      platform: request.platform,
+      platformGuide: PLATFORM_GUIDES[request.platform],
+      count: request.count,
+      drafts: request.count === 1 ? 'post draft' : 'distinct post drafts',
+      style: style && {
+        tone: style.tone,
+        formality: style.formality,
+        commonPhrases: style.writingPatterns?.commonPhrases?.slice(0, 8).join('; '),
+        callToActionStyle: style.writingPatterns?.callToActionStyle?.join('; ')
+      },
+      strategy: strategy && {
+        coreMessage: strategy.coreMessage,
+        pillars: strategy.contentPillars.join(', '),
+        audience: strategy.targetAudience.join(', ')
+      },
+      project: request.project && {
+        name: request.project.name,
+        description: request.project.description,
+        goals: request.project.goals.join('; ')
+      },
+      hasExamples: examples.length > 0,
+      examples
+    };
+
+    return [
+      { role: 'system', content: POST_SYSTEM },
+      { role: 'user', content: renderTemplate(POST_PROMPT, view) }
+    ];
+  }
+
+  /**
+   * The user's past writing closest to the topic, best match first
+   */
+  private static async findExamples(userId: string, topic: string): Promise<{ platform: string; text: string }[]> {
+    try {
+      const results = await EmbeddingService.findSimilarContent(userId, topic, { limit: EXAMPLE_COUNT * 2 });
+
+      // Unpublished drafts may be earlier generations rather than the user's own writing
+      return results
+        .filter(result => result.metadata?.['status'] !== 'draft')
+        .slice(0, EXAMPLE_COUNT)
+        .map(result => ({
+          platform: String(result.metadata?.['platform'] || 'unknown'),
+          text: result.document.content.length > EXAMPLE_MAX_CHARS
+            ? `${result.document.content.slice(0, EXAMPLE_MAX_CHARS)}…`
+            : result.document.content
+        }));
+    } catch (error) {
+      logger.error('Failed to find writing examples:', error);
+      // Don't throw - drafts can still follow the style profile without examples
+      return [];
+    }
+  }
+
+  private static toTags(hashtags: unknown): string[] {
+    if (!Array.isArray(hashtags)) {
+      return [];
+    }
+
+    const tags = hashtags
+      .filter((tag): tag is string => typeof tag === 'string')
+      .map(tag => tag.trim().replace(/^#+/, ''))
+      .filter(Boolean);
+    return [...new Set(tags)];
+  }
+}
@@ -0,0 +1,274 @@
+import { BrandStrategyModel, ContentModel, IntelligenceDataModel } from '@/models';
+import { GenerationPlatform } from '@/services/generationService';
+import { BrandStrategy, Content, HashtagRecommendations, HashtagSignal, HashtagSuggestion, IntelligenceData, PlatformConfig } from '@/types';
+import { hashtagKey, isHashtag, toHashtag } from '@/utils/hashtags';
+import { logger } from '@/utils/logger';
+
+// Most hashtags worth using on each platform
+export const HASHTAG_LIMITS: Record<GenerationPlatform, number> = {
+  linkedin: 5,
+  twitter: 2,
+  instagram: 10,
+  youtube: 3,
+  blog: 5,
+};
+
+// Cap when no platform is given
+const DEFAULT_CAP = 10;
+
+// How much each signal adds to a suggestion's score; they sum to 1
+const WEIGHTS: Record<HashtagSignal, number> = {
+  strategy: 0.35,
+  history: 0.35,
+  trend: 0.2,
+  topic: 0.1,
+};
+
+// A tag used on this many published posts counts as established
+const USAGE_TARGET = 3;
+
+// History comes from the target platform alone once it has this many published posts
+const MIN_PLATFORM_POSTS = 5;
+
+// Trends sharing no word with the topics count for this much
+const OFF_TOPIC_TREND_FACTOR = 0.5;
+
+// Topics longer than this make unreadable hashtags, so only their words are suggested
+const MAX_PHRASE_WORDS = 3;
+
+const TOPIC_STOP_WORDS = new Set([
+  'about', 'and', 'for', 'from', 'how', 'into', 'our', 'that', 'the', 'this', 'what', 'when', 'why', 'with', 'your',
+]);
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const clamp = (value: number): number => Math.min(1, Math.max(0, value));
+
+const percent = (value: number): string => `${Math.round(value * 100)}%`;
+
+const PLATFORM_NAMES: Record<GenerationPlatform, string> = {
+  linkedin: 'LinkedIn',
+  twitter: 'Twitter',
+  instagram: 'Instagram',
+  youtube: 'YouTube',
+  blog: 'blog',
+};
+
+const label = (platform: string): string => PLATFORM_NAMES[platform as GenerationPlatform] || platform;
+
+// Words worth matching on or tagging, keeping short acronyms such as "AI"
+const topicWords = (text: string): string[] =>
+  text
+    .split(/[^\p{L}\p{N}_]+/u)
+    .filter(word => word.length > 2 || (word.length === 2 && word === word.toUpperCase()))
+    .filter(word => !TOPIC_STOP_WORDS.has(word.toLowerCase()));
+
+export interface HashtagRequest {
+  platform?: GenerationPlatform;
+  topics?: string[];
+  limit?: number;
+}
+
+export interface HashtagSources {
+  platform?: string;
+  topics: string[];
+  // Published content to learn from
+  posts: Content[];
+  // Set when the posts all come from this platform
+  historyPlatform?: string;
+  trends: IntelligenceData[];
+  strategy: BrandStrategy | null;
+}
+
+type AddCandidate = (value: string, signal: HashtagSignal, score: number, reason: string) => void;
+
+interface Candidate {
+  tag: string;
+  signals: Map<HashtagSignal, { score: number; reason: string }>;
+}
+
+export class HashtagService {
+
+  /**
+   * Ranked hashtag suggestions for a platform, combining the brand
+   * strategy's hashtags, the user's published tags weighted by how those
+   * posts performed, trends from their intelligence feed and the topics
+   * given. Never returns more than the platform's cap.
+   */
+  static async recommend(userId: string, request: HashtagRequest = {}): Promise<HashtagRecommendations> {
+    try {
+      const [published, trends, strategy] = await Promise.all([
+        ContentModel.findByStatus(userId, 'published'),
+        IntelligenceDataModel.findByType(userId, 'trend'),
+        BrandStrategyModel.findActiveStrategy(userId)
+      ]);
+
+      const onPlatform = request.platform ? published.filter(content => content.platform === request.platform) : [];
+      const fromPlatform = onPlatform.length >= MIN_PLATFORM_POSTS;
+
+      const cap = request.platform ? HASHTAG_LIMITS[request.platform] : DEFAULT_CAP;
+      const suggestions = this.rank({
+        topics: (request.topics || []).map(topic => topic.trim()).filter(Boolean),
+        posts: fromPlatform ? onPlatform : published,
+        trends: trends.filter(trend => trend.status !== 'dismissed'),
+        strategy,
+        ...(request.platform && { platform: request.platform }),
+        ...(fromPlatform && { historyPlatform: request.platform })
+      });
+
+      return {
+        cap,
+        suggestions: suggestions.slice(0, Math.min(request.limit ?? cap, cap)),
+        ...(request.platform && { platform: request.platform })
+      };
+    } catch (error) {
+      logger.error('Failed to recommend hashtags:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Score every candidate hashtag from the sources, best first
+   */
+  static rank(sources: HashtagSources): HashtagSuggestion[] {
+    const candidates = new Map<string, Candidate>();
+    const add: AddCandidate = (value, signal, score, reason) => {
+      const tag = toHashtag(value);
+      if (!tag || score <= 0) {
+        return;
+      }
+
+      const key = hashtagKey(tag);
+      const candidate = candidates.get(key) || { tag, signals: new Map() };
+      if ((candidate.signals.get(signal)?.score ?? 0) < score) {
+        candidate.signals.set(signal, { score, reason });
+      }
+      candidates.set(key, candidate);
+    };
+
+    // Strategy first, so the brand's own spelling of a tag wins
+    this.addStrategy(sources, add);
+    this.addHistory(sources, add);
+    this.addTrends(sources, add);
+    this.addTopics(sources, add);
+
+    return [...candidates.values()]
+      .map(candidate => {
+        const signals = [...candidate.signals.keys()];
+        return {
+          tag: candidate.tag,
+          score: round(signals.reduce((sum, signal) => sum + WEIGHTS[signal] * candidate.signals.get(signal)!.score, 0)),
+          signals,
+          reasons: [...candidate.signals.values()].map(entry => entry.reason)
+        };
+      })
+      .sort((a, b) => b.score - a.score || a.tag.localeCompare(b.tag));
+  }
+
+  /**
+   * Hashtags named in the platform's hashtag strategy, or in every active
+   * platform's when no platform is given
+   */
+  private static addStrategy(sources: HashtagSources, add: AddCandidate) {
+    const configs: Record<string, PlatformConfig | undefined> = { ...sources.strategy?.platformStrategy };
+    const platforms = sources.platform
+      ? [sources.platform]
+      : Object.keys(configs).filter(platform => configs[platform]?.active);
+
+    for (const platform of platforms) {
+      for (const entry of configs[platform]?.hashtagStrategy || []) {
+        if (isHashtag(entry)) {
+          add(entry, 'strategy', 1, `In your ${label(platform)} hashtag strategy`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Tags from published posts. Frequent tags score higher, and tags on
+   * posts that outperform the user's average score higher still.
+   */
+  private static addHistory(sources: HashtagSources, add: AddCandidate) {
+    if (sources.posts.length === 0) {
+      return;
+    }
+
+    const baseline = sources.posts.reduce((sum, post) => sum + post.performanceScore, 0) / sources.posts.length;
+    const stats = new Map<string, { tag: string; uses: number; performance: number }>();
+    for (const post of sources.posts) {
+      const seen = new Set<string>();
+      for (const tag of post.tags || []) {
+        const key = hashtagKey(toHashtag(tag));
+        if (!key || seen.has(key)) {
+          continue;
+        }
+        seen.add(key);
+
+        const entry = stats.get(key) || { tag, uses: 0, performance: 0 };
+        entry.uses += 1;
+        entry.performance += post.performanceScore;
+        stats.set(key, entry);
+      }
+    }
+
+    const posts = sources.historyPlatform ? `${label(sources.historyPlatform)} posts` : 'posts';
+    for (const { tag, uses, performance } of stats.values()) {
+      const average = performance / uses;
+      // 0.5 at the user's average performance, 1 at twice it; unscored posts count as average
+      const relative = baseline > 0 ? clamp(average / (2 * baseline)) : 0.5;
+      const usage = Math.min(1, uses / USAGE_TARGET);
+
+      add(
+        tag,
+        'history',
+        usage * (0.4 + 0.6 * relative),
+        baseline > 0
+          ? `Used on ${uses} of your published ${posts}, averaging ${percent(average)} performance against ${percent(baseline)} overall`
+          : `Used on ${uses} of your published ${posts}`
+      );
+    }
+  }
+
+  /**
+   * Trending keywords from the intelligence feed, scored by growth.
+   * Trends unrelated to the topics count for less.
+   */
+  private static addTrends(sources: HashtagSources, add: AddCandidate) {
+    const topics = new Set(sources.topics.flatMap(topicWords).map(word => word.toLowerCase()));
+
+    for (const trend of sources.trends) {
+      const keyword = String(trend.data['keyword'] || '').trim();
+      if (!keyword) {
+        continue;
+      }
+
+      const accelerating = trend.data['accelerating'] === true;
+      const onTopic = topics.size === 0 || topicWords(keyword).some(word => topics.has(word.toLowerCase()));
+      const score = clamp(trend.relevanceScore + (accelerating ? 0.2 : 0)) * (onTopic ? 1 : OFF_TOPIC_TREND_FACTOR);
+
+      add(
+        keyword,
+        'trend',
+        score,
+        `Trending with ${Number(trend.data['growth']) || 0}% growth${accelerating ? ' and accelerating' : ''}${onTopic ? '' : ', though not about your topic'}`
+      );
+    }
+  }
+
+  /**
+   * The topics themselves, and their words for longer topics
+   */
+  private static addTopics(sources: HashtagSources, add: AddCandidate) {
+    for (const topic of sources.topics) {
+      const reason = `From your topic "${topic}"`;
+      const words = topicWords(topic);
+
+      if (topic.split(/\s+/).length <= MAX_PHRASE_WORDS) {
+        add(topic, 'topic', 1, reason);
+      }
+      if (words.length > 1) {
+        words.forEach(word => add(word, 'topic', 0.5, reason));
+      }
+    }
+  }
+}
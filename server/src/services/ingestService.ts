@@ -0,0 +1,211 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { IngestDeadLetterModel, IngestSourceModel } from '@/models';
+import { IngestDeadLetter, IngestMapping, IngestSource } from '@/types';
+import { IntelligenceService } from '@/services/intelligenceService';
+import { EmbeddingService } from '@/services/embeddingService';
+import { TrendService } from '@/services/trendService';
+import { createError } from '@/middleware/errorHandler';
+import { applyMapping, MappedRecord, resolveIdempotencyKey } from '@/utils/ingestMapping';
+import { logger } from '@/utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longer keys are hashed so they fit the ingest_events column
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+const sha256 = (value: string | Buffer): string => createHash('sha256').update(value).digest('hex');
+
+export interface IngestResult {
+  status: 'processed' | 'duplicate' | 'dead_lettered';
+  idempotencyKey: string;
+  record?: { type: string; id: string };
+  deadLetter?: IngestDeadLetter;
+}
+
+export class IngestService {
+
+  /**
+   * Create a webhook source with a fresh signing secret. The secret is only
+   * returned here and when it is rotated.
+   */
+  static async createSource(userId: string, name: string, mapping: IngestMapping): Promise<{ source: IngestSource; secret: string }> {
+    try {
+      const secret = this.generateSecret();
+      const source = await IngestSourceModel.create({ userId, name, mapping, secret });
+      logger.info(`User ${userId} created ingest source ${source.id}`);
+      return { source, secret };
+    } catch (error) {
+      logger.error('Failed to create ingest source:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace a source's signing secret. Events signed with the old one are rejected.
+   */
+  static async rotateSecret(source: IngestSource): Promise<string> {
+    try {
+      const secret = this.generateSecret();
+      await IngestSourceModel.updateSecret(source.id, secret);
+      logger.info(`Rotated secret for ingest source ${source.id}`);
+      return secret;
+    } catch (error) {
+      logger.error('Failed to rotate ingest source secret:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check a "sha256=<hex>" signature: an HMAC-SHA256 of the raw body keyed
+   * with the source secret
+   */
+  static verifySignature(secret: string, body: Buffer, signature: string | undefined): boolean {
+    if (!signature) {
+      return false;
+    }
+
+    const provided = Buffer.from(signature.trim().replace(/^sha256=/i, ''), 'hex');
+    const expected = createHmac('sha256', secret).update(body).digest();
+
+    return provided.length === expected.length && timingSafeEqual(provided, expected);
+  }
+
+  /**
+   * Accept a signed webhook delivery. Repeat deliveries are acknowledged
+   * without being processed again, and events the source's mapping can't
+   * handle are kept as dead letters for replay.
+   */
+  static async receive(sourceId: string, body: Buffer, headers: { signature?: string; idempotencyKey?: string }): Promise<IngestResult> {
+    const source = await IngestSourceModel.findById(sourceId);
+    const secret = source && await IngestSourceModel.findSecret(sourceId);
+    // Unknown sources and bad signatures look the same to the caller
+    if (!source || !secret || !this.verifySignature(secret, body, headers.signature)) {
+      throw createError('Invalid signature', 401);
+    }
+    if (!source.isActive) {
+      throw createError('Ingest source is paused', 403);
+    }
+
+    return this.process(source, body.toString('utf8'), headers.idempotencyKey);
+  }
+
+  /**
+   * Run a dead letter through its source's current mapping again
+   */
+  static async replay(deadLetter: IngestDeadLetter): Promise<IngestResult> {
+    const source = await IngestSourceModel.findById(deadLetter.sourceId);
+    if (!source) {
+      throw createError('Ingest source not found', 404);
+    }
+
+    return this.process(source, deadLetter.body, deadLetter.idempotencyKey);
+  }
+
+  /**
+   * Replay unresolved dead letters, oldest first
+   */
+  static async replayAll(filters: { userId?: string; sourceId?: string; limit?: number } = {}): Promise<{ processed: number; failed: number }> {
+    const deadLetters = await IngestDeadLetterModel.find(filters);
+    let processed = 0;
+
+    for (const deadLetter of deadLetters) {
+      const result = await this.replay(deadLetter);
+      if (result.status !== 'dead_lettered') {
+        processed++;
+      }
+    }
+
+    logger.info(`Replayed ${deadLetters.length} dead letters: ${processed} processed`);
+    return { processed, failed: deadLetters.length - processed };
+  }
+
+  private static async process(source: IngestSource, body: string, idempotencyKey?: string): Promise<IngestResult> {
+    let payload: unknown;
+    let mapped: MappedRecord | undefined;
+    let failure: string | undefined;
+
+    try {
+      payload = JSON.parse(body);
+      mapped = applyMapping(source.mapping, payload);
+    } catch (error) {
+      failure = error instanceof SyntaxError ? `Body is not valid JSON: ${error.message}` : (error as Error).message;
+    }
+
+    // An explicit header wins, then the mapping's key, then the body itself
+    let key = idempotencyKey || (payload !== undefined && resolveIdempotencyKey(source.mapping, payload)) || `sha256:${sha256(body)}`;
+    if (key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+      key = `sha256:${sha256(key)}`;
+    }
+
+    const existing = await IngestSourceModel.findEvent(source.id, key);
+    if (existing || (mapped && !await IngestSourceModel.claimEvent(source.id, key))) {
+      // A dead letter for an event that has since gone through is settled
+      await IngestDeadLetterModel.resolve(source.id, key);
+      return {
+        status: 'duplicate',
+        idempotencyKey: key,
+        ...(existing?.recordType && existing.recordId && { record: { type: existing.recordType, id: existing.recordId } })
+      };
+    }
+
+    if (!mapped) {
+      const deadLetter = await IngestDeadLetterModel.record({ sourceId: source.id, idempotencyKey: key, body, error: failure! });
+      logger.warn(`Dead-lettered event for ingest source ${source.id}: ${failure}`);
+      return { status: 'dead_lettered', idempotencyKey: key, deadLetter };
+    }
+
+    try {
+      const record = await this.createRecord(source, key, mapped);
+      await IngestSourceModel.completeEvent(source.id, key, record.type, record.id);
+      await IngestDeadLetterModel.resolve(source.id, key);
+      await IngestSourceModel.touch(source.id);
+      return { status: 'processed', idempotencyKey: key, record };
+    } catch (error) {
+      // Let the sender retry rather than swallowing the event
+      await IngestSourceModel.releaseEvent(source.id, key);
+      logger.error('Failed to process ingest event:', error);
+      throw error;
+    }
+  }
+
+  private static async createRecord(source: IngestSource, key: string, mapped: MappedRecord): Promise<{ type: string; id: string }> {
+    switch (mapped.target) {
+      case 'intelligence': {
+        const item = await IntelligenceService.createItem({
+          userId: source.userId,
+          type: mapped.type,
+          data: mapped.data,
+          relevanceScore: mapped.relevanceScore,
+          isActionable: mapped.isActionable,
+          source: 'huginn',
+          fingerprint: `huginn:${sha256(`${source.id}\n${key}`)}`,
+          ...(mapped.expiresInDays > 0 && { expiresAt: new Date(Date.now() + mapped.expiresInDays * DAY_MS) })
+        });
+        return { type: 'intelligence', id: item.id };
+      }
+
+      case 'trend': {
+        // With a volume, momentum comes from the stored history; otherwise only the reported growth is kept
+        const [momentum] = mapped.volume !== undefined
+          ? await TrendService.observe(source.userId, [{ keyword: mapped.keyword, category: mapped.category, volume: mapped.volume }], 'huginn')
+          : [];
+        const [item] = await IntelligenceService.recordTrends(source.userId, [{
+          keyword: mapped.keyword,
+          growth: mapped.growth,
+          category: mapped.category,
+          ...(momentum && { momentum: momentum.direction, accelerating: momentum.accelerating })
+        }], 'huginn');
+        return { type: 'trend', id: item!.id };
+      }
+
+      case 'writing_sample': {
+        const document = await EmbeddingService.storeWritingSample(source.userId, mapped.content, mapped.platform, mapped.contentType);
+        return { type: 'writing_sample', id: document.id };
+      }
+    }
+  }
+
+  private static generateSecret(): string {
+    return randomBytes(32).toString('hex');
+  }
+}
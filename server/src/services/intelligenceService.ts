@@ -0,0 +1,225 @@
+import { IntelligenceDataModel } from '@/models';
+import {
+  IntelligenceData,
+  IntelligenceDataInput,
+  IntelligenceFeedFilters,
+  IntelligenceStatus,
+  Threat,
+  TrendDirection
+} from '@/types';
+import { PipelineService } from '@/services/pipelineService';
+import { NotificationService } from '@/services/notificationService';
+import { logger } from '@/utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long automatically gathered items stay in the feed unless saved
+const TREND_TTL_DAYS = 7;
+const COMPETITOR_TTL_DAYS = 14;
+const THREAT_TTL_DAYS = 14;
+
+const expiresIn = (days: number): Date => new Date(Date.now() + days * DAY_MS);
+
+const clamp = (value: number): number => Math.min(1, Math.max(0, value));
+
+// Lowercased, whitespace-collapsed key part so reruns map to the same item
+const fingerprintPart = (value: string): string => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export interface IntelligenceFeed {
+  items: IntelligenceData[];
+  total: number;
+  counts: Record<IntelligenceStatus, number>;
+}
+
+export class IntelligenceService {
+
+  /**
+   * Page through a user's feed along with per-status counts
+   */
+  static async getFeed(userId: string, filters: IntelligenceFeedFilters = {}): Promise<IntelligenceFeed> {
+    try {
+      const [{ items, total }, counts] = await Promise.all([
+        IntelligenceDataModel.findFeed(userId, filters),
+        IntelligenceDataModel.countByStatus(userId)
+      ]);
+
+      return { items, total, counts };
+    } catch (error) {
+      logger.error('Failed to get intelligence feed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add an item to a user's feed
+   */
+  static async createItem(input: IntelligenceDataInput): Promise<IntelligenceData> {
+    try {
+      const item = await IntelligenceDataModel.create(input);
+      await this.classify([item]);
+      await this.notify([item]);
+      return item;
+    } catch (error) {
+      logger.error('Failed to create intelligence item:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Triage an item: save it, dismiss it or mark it acted on
+   */
+  static async updateStatus(item: IntelligenceData, status: IntelligenceStatus): Promise<IntelligenceData | null> {
+    try {
+      const updated = await IntelligenceDataModel.updateStatus(item.id, status);
+      logger.info(`Intelligence item ${item.id} moved from ${item.status} to ${status}`);
+      return updated;
+    } catch (error) {
+      logger.error('Failed to update intelligence status:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record industry trends as feed items; accelerating trends are actionable
+   */
+  static async recordTrends(userId: string, trends: { keyword: string; growth: number; category: string; momentum?: TrendDirection; accelerating?: boolean }[], source: string = 'web_search'): Promise<IntelligenceData[]> {
+    return this.recordMany(trends.map(trend => ({
+      userId,
+      type: 'trend',
+      data: {
+        title: `Trend: ${trend.keyword}`,
+        summary: trend.accelerating
+          ? `${trend.keyword} is accelerating, with ${trend.growth}% growth`
+          : `${trend.keyword} is showing ${trend.growth}% growth`,
+        action: 'Create content about this trending topic',
+        ...trend
+      },
+      relevanceScore: clamp(trend.growth / 100),
+      isActionable: trend.accelerating === true,
+      source,
+      fingerprint: `trend:${fingerprintPart(trend.keyword)}`,
+      expiresAt: expiresIn(TREND_TTL_DAYS)
+    })));
+  }
+
+  /**
+   * Record monitored competitors; highly active competitors are actionable
+   */
+  static async recordCompetitors(userId: string, competitors: { name: string; contentFrequency: string; keyTopics: string[] }[]): Promise<IntelligenceData[]> {
+    return this.recordMany(competitors.map(competitor => ({
+      userId,
+      type: 'competitor',
+      data: {
+        title: `Competitor: ${competitor.name}`,
+        summary: `${competitor.name} has ${competitor.contentFrequency} content activity`,
+        action: 'Review their recent content strategy',
+        ...competitor
+      },
+      relevanceScore: competitor.contentFrequency === 'high' ? 0.7 : competitor.contentFrequency === 'moderate' ? 0.5 : 0.3,
+      isActionable: competitor.contentFrequency === 'high',
+      source: 'web_search',
+      fingerprint: `competitor:${fingerprintPart(competitor.name)}`,
+      expiresAt: expiresIn(COMPETITOR_TTL_DAYS)
+    })));
+  }
+
+  /**
+   * Record content opportunities; high-potential, easy ones are actionable
+   */
+  static async recordOpportunities(userId: string, opportunities: { topic: string; angle: string; difficulty: string; potential: string }[]): Promise<IntelligenceData[]> {
+    return this.recordMany(opportunities.map(opportunity => ({
+      userId,
+      type: 'opportunity',
+      data: {
+        title: `Content Opportunity: ${opportunity.topic}`,
+        summary: `${opportunity.potential} potential, ${opportunity.difficulty} difficulty`,
+        action: `Create content with this angle: ${opportunity.angle}`,
+        ...opportunity
+      },
+      relevanceScore: opportunity.potential === 'high' ? 0.8 : opportunity.potential === 'medium' ? 0.5 : 0.3,
+      isActionable: opportunity.potential === 'high' && opportunity.difficulty === 'easy',
+      source: 'web_search',
+      fingerprint: `opportunity:${fingerprintPart(opportunity.topic)}`,
+      expiresAt: expiresIn(TREND_TTL_DAYS)
+    })));
+  }
+
+  /**
+   * Record a detected threat. The key identifies the incident, so detecting
+   * it again updates the same item.
+   */
+  static async recordThreat(userId: string, threat: Omit<Threat, 'id' | 'detectedAt'>, key: string, details: Record<string, any> = {}): Promise<IntelligenceData> {
+    const [item] = await this.recordMany([{
+      userId,
+      type: 'threat',
+      data: {
+        summary: threat.description,
+        action: threat.mitigation[0],
+        ...threat,
+        ...details,
+        detectedAt: new Date()
+      },
+      relevanceScore: threat.severity === 'high' ? 0.9 : threat.severity === 'medium' ? 0.7 : 0.5,
+      isActionable: true,
+      source: threat.source,
+      fingerprint: `threat:${threat.type}:${fingerprintPart(key)}`,
+      expiresAt: expiresIn(THREAT_TTL_DAYS)
+    }]);
+    return item!;
+  }
+
+  /**
+   * Delete expired items
+   */
+  static async cleanupExpired(): Promise<number> {
+    try {
+      const removed = await IntelligenceDataModel.cleanupExpired();
+      if (removed > 0) {
+        logger.info(`Removed ${removed} expired intelligence items`);
+      }
+      return removed;
+    } catch (error) {
+      logger.error('Failed to clean up expired intelligence items:', error);
+      throw error;
+    }
+  }
+
+  private static async recordMany(inputs: IntelligenceDataInput[]): Promise<IntelligenceData[]> {
+    try {
+      const items: IntelligenceData[] = [];
+      for (const input of inputs) {
+        items.push(await IntelligenceDataModel.create(input));
+      }
+      await this.classify(items);
+      await this.notify(items);
+      return items;
+    } catch (error) {
+      logger.error('Failed to record intelligence items:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add the opportunities and threats among new items to the pipeline
+   */
+  private static async classify(items: IntelligenceData[]): Promise<void> {
+    try {
+      await PipelineService.classifyItems(items);
+    } catch (error) {
+      logger.error('Failed to classify intelligence items:', error);
+      // Don't throw - the items are in the feed either way
+    }
+  }
+
+  /**
+   * Alert the user to new actionable items
+   */
+  private static async notify(items: IntelligenceData[]): Promise<void> {
+    try {
+      await NotificationService.notifyIntelligence(items);
+    } catch (error) {
+      logger.error('Failed to notify about intelligence items:', error);
+      // Don't throw - the feed still shows the items
+    }
+  }
+}
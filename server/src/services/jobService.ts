@@ -0,0 +1,351 @@
+import { JobModel, JobScheduleModel } from '@/models';
+import { Job, JobSchedule, JobType } from '@/types';
+import { IntelligenceService } from '@/services/intelligenceService';
+import { WebSearchService } from '@/services/webSearchService';
+import { TrendService } from '@/services/trendService';
+import { NotificationService } from '@/services/notificationService';
+import { createError } from '@/middleware/errorHandler';
+import { nextCronRun, validateCron } from '@/utils/cron';
+import { logger } from '@/utils/logger';
+
+const WORKER_INTERVAL_SECONDS = parseInt(process.env['JOB_WORKER_INTERVAL_SECONDS'] || '') || 15;
+
+// Jobs this process runs at once, on top of each type's own limit
+const WORKER_CONCURRENCY = parseInt(process.env['JOB_CONCURRENCY'] || '') || 3;
+
+// A running job untouched for this long is assumed to have lost its worker
+const LOCK_TIMEOUT_MINUTES = parseInt(process.env['JOB_LOCK_TIMEOUT_MINUTES'] || '') || 30;
+
+// Retries wait base * 2^(attempt - 1), capped at an hour
+const RETRY_BASE_SECONDS = parseInt(process.env['JOB_RETRY_BASE_SECONDS'] || '') || 60;
+const MAX_RETRY_DELAY_SECONDS = 60 * 60;
+
+// Finished jobs are kept this long for the status API
+const JOB_RETENTION_DAYS = 30;
+
+// User schedules drive paid searches, so keep them from running too often
+const MIN_SCHEDULE_INTERVAL_MINUTES = 60;
+const MAX_SCHEDULES_PER_USER = 20;
+
+const SYSTEM_SCHEDULES: { type: JobType; cron: string }[] = [
+  { type: 'intelligence_cleanup', cron: process.env['INTELLIGENCE_CLEANUP_CRON'] || '0 * * * *' },
+  { type: 'deadline_reminders', cron: process.env['DEADLINE_REMINDER_CRON'] || '0 * * * *' },
+  { type: 'notification_digest', cron: process.env['NOTIFICATION_DIGEST_CRON'] || '0 8 * * *' },
+];
+
+export interface JobHandler {
+  run(job: Job): Promise<Record<string, any>>;
+  // Problems with a payload, checked before a job is queued or scheduled
+  validate(payload: Record<string, any>): string[];
+  // Most jobs of this type running at once across all workers
+  concurrency: number;
+  // System jobs only run from built-in schedules
+  system?: boolean;
+}
+
+const validateText = (value: unknown, field: string): string | null =>
+  typeof value === 'string' && value.trim() !== '' && value.length <= 200 ? null : `${field} must be a non-empty string of up to 200 characters`;
+
+const validateList = (value: unknown, field: string): string | null =>
+  value === undefined || (Array.isArray(value) && value.length <= 10 && value.every(entry => typeof entry === 'string'))
+    ? null
+    : `${field} must be a list of up to 10 strings`;
+
+const DEFAULT_HANDLERS: Record<JobType, JobHandler> = {
+  trend_refresh: {
+    concurrency: 2,
+    validate: payload => [validateText(payload['industry'], 'industry'), validateList(payload['keywords'], 'keywords')].filter(Boolean) as string[],
+    run: async job => {
+      const { trends, insights, searchResults } = await WebSearchService.searchIndustryTrends(job.userId!, job.payload['industry'], job.payload['keywords']);
+      return { trends: trends.length, insights: insights.length, searchResults: searchResults.length };
+    }
+  },
+  competitor_monitor: {
+    concurrency: 2,
+    validate: payload => [validateText(payload['industry'], 'industry'), validateList(payload['competitorNames'], 'competitorNames')].filter(Boolean) as string[],
+    run: async job => {
+      const competitors = await WebSearchService.monitorCompetitors(job.userId!, job.payload['industry'], job.payload['competitorNames']);
+      return { competitors: competitors.length };
+    }
+  },
+  brand_mention_scan: {
+    concurrency: 2,
+    validate: payload => [validateText(payload['brandName'], 'brandName'), validateList(payload['keywords'], 'keywords')].filter(Boolean) as string[],
+    run: async job => {
+      const { mentions, sentiment } = await WebSearchService.searchBrandMentions(job.userId!, job.payload['brandName'], job.payload['keywords']);
+      return { mentions: mentions.length, sentiment };
+    }
+  },
+  intelligence_cleanup: {
+    concurrency: 1,
+    system: true,
+    validate: () => [],
+    run: async () => {
+      const expiredItems = await IntelligenceService.cleanupExpired();
+      const finishedJobs = await JobModel.cleanupFinished(JOB_RETENTION_DAYS);
+      const staleObservations = await TrendService.cleanupObservations();
+      const readNotifications = await NotificationService.cleanupRead();
+      return { expiredItems, finishedJobs, staleObservations, readNotifications };
+    }
+  },
+  deadline_reminders: {
+    concurrency: 1,
+    system: true,
+    validate: () => [],
+    run: async () => ({ reminders: await NotificationService.remindDeadlines() })
+  },
+  notification_digest: {
+    concurrency: 1,
+    system: true,
+    validate: () => [],
+    run: async () => ({ digests: await NotificationService.sendDigests() })
+  },
+};
+
+let handlers: Record<JobType, JobHandler> = { ...DEFAULT_HANDLERS };
+
+export const getJobHandler = (type: JobType): JobHandler | undefined => handlers[type];
+
+/**
+ * Swap a job type's handler, e.g. for tests. Pass null to restore the default.
+ */
+export const setJobHandler = (type: JobType, handler: JobHandler | null): void => {
+  handlers = { ...handlers, [type]: handler ?? DEFAULT_HANDLERS[type] };
+};
+
+export const JOB_TYPES = Object.keys(DEFAULT_HANDLERS) as JobType[];
+
+export class JobService {
+  // Jobs this process is running right now
+  private static active = 0;
+
+  /**
+   * Queue a one-off job for a user
+   */
+  static async enqueue(userId: string, type: JobType, payload: Record<string, any> = {}, runAt?: Date): Promise<Job> {
+    this.validateUserJob(type, payload);
+
+    try {
+      const job = await JobModel.create({ userId, type, payload, ...(runAt && { runAt }) });
+      logger.info(`Queued ${type} job ${job.id} for user ${userId}`);
+      return job;
+    } catch (error) {
+      logger.error('Failed to queue job:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a job that has not started yet
+   */
+  static async cancel(job: Job): Promise<Job> {
+    const cancelled = await JobModel.cancel(job.id);
+    if (!cancelled) {
+      throw createError(`Only queued jobs can be cancelled; this one is ${job.status}`, 409);
+    }
+    return cancelled;
+  }
+
+  /**
+   * Add a recurring job for a user
+   */
+  static async createSchedule(userId: string, type: JobType, cron: string, payload: Record<string, any> = {}): Promise<JobSchedule> {
+    this.validateUserJob(type, payload);
+    this.validateUserCron(cron);
+
+    const existing = await JobScheduleModel.findByUserId(userId);
+    if (existing.length >= MAX_SCHEDULES_PER_USER) {
+      throw createError(`You can have at most ${MAX_SCHEDULES_PER_USER} schedules`, 400);
+    }
+
+    try {
+      const schedule = await JobScheduleModel.create({ userId, type, cron: cron.trim(), payload });
+      logger.info(`User ${userId} scheduled ${type} at "${schedule.cron}"`);
+      return schedule;
+    } catch (error) {
+      logger.error('Failed to create job schedule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Change a schedule's timing or payload, or pause/resume it. Resuming
+   * picks up from the next matching time rather than catching up.
+   */
+  static async updateSchedule(schedule: JobSchedule, updates: { cron?: string; payload?: Record<string, any>; isActive?: boolean }): Promise<JobSchedule | null> {
+    if (updates.payload !== undefined) {
+      this.validateUserJob(schedule.type, updates.payload);
+    }
+    if (updates.cron !== undefined) {
+      this.validateUserCron(updates.cron);
+    }
+
+    const cron = updates.cron?.trim() ?? schedule.cron;
+    const reschedule = updates.cron !== undefined || (updates.isActive === true && !schedule.isActive);
+
+    try {
+      return await JobScheduleModel.update(schedule.id, {
+        ...(updates.cron !== undefined && { cron }),
+        ...(updates.payload !== undefined && { payload: updates.payload }),
+        ...(updates.isActive !== undefined && { isActive: updates.isActive }),
+        ...(reschedule && { nextRunAt: nextCronRun(cron) })
+      });
+    } catch (error) {
+      logger.error('Failed to update job schedule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Make sure every system job has its schedule
+   */
+  static async ensureSystemSchedules(): Promise<void> {
+    try {
+      for (const { type, cron } of SYSTEM_SCHEDULES) {
+        await JobScheduleModel.upsertSystem(type, cron);
+      }
+    } catch (error) {
+      logger.error('Failed to set up system job schedules:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Claim and run as many due jobs as the concurrency limits allow, and wait
+   * for them to finish. Returns the number of jobs run.
+   */
+  static async runDue(): Promise<number> {
+    const capacity = WORKER_CONCURRENCY - this.active;
+    if (capacity <= 0) {
+      return 0;
+    }
+
+    const running = await JobModel.countRunning();
+    const claimed: Job[] = [];
+    for (const type of JOB_TYPES) {
+      const free = Math.min(handlers[type].concurrency - (running[type] ?? 0), capacity - claimed.length);
+      if (free > 0) {
+        claimed.push(...await JobModel.claim(type, free));
+      }
+    }
+
+    this.active += claimed.length;
+    await Promise.all(claimed.map(job => this.execute(job).finally(() => {
+      this.active--;
+    })));
+
+    return claimed.length;
+  }
+
+  /**
+   * One pass of the worker: recover stale jobs, queue scheduled ones, run what's due
+   */
+  static async tick(): Promise<number> {
+    const requeued = await JobModel.requeueStale(LOCK_TIMEOUT_MINUTES);
+    if (requeued > 0) {
+      logger.warn(`Recovered ${requeued} jobs that stopped without finishing`);
+    }
+
+    const scheduled = await JobScheduleModel.enqueueDue();
+    if (scheduled.length > 0) {
+      logger.info(`Queued ${scheduled.length} scheduled jobs`);
+    }
+
+    return this.runDue();
+  }
+
+  /**
+   * Run the worker every JOB_WORKER_INTERVAL_SECONDS (default 15)
+   */
+  static scheduleWorker(intervalSeconds: number = WORKER_INTERVAL_SECONDS): NodeJS.Timeout {
+    this.ensureSystemSchedules().catch(() => {
+      // Don't throw - user jobs still run, and the next restart tries again
+    });
+
+    const timer = setInterval(() => {
+      this.tick().catch(error => {
+        // Don't throw - the next tick will try again
+        logger.error('Job worker tick failed:', error);
+      });
+    }, intervalSeconds * 1000);
+
+    // Don't keep the process alive just for the worker
+    timer.unref();
+    return timer;
+  }
+
+  private static async execute(job: Job): Promise<void> {
+    const handler = handlers[job.type];
+    const startedAt = Date.now();
+
+    try {
+      const result = await handler.run(job);
+      if (!await JobModel.complete(job.id, job.attempts, result)) {
+        logger.warn(`Job ${job.id} (${job.type}) finished after its lock timed out, discarding the result`);
+        return;
+      }
+      logger.info(`Job ${job.id} (${job.type}) succeeded in ${Date.now() - startedAt}ms`);
+      await this.notify(() => NotificationService.notifyJobSucceeded(job, result));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const retryAt = job.attempts < job.maxAttempts
+        ? new Date(Date.now() + Math.min(RETRY_BASE_SECONDS * 2 ** (job.attempts - 1), MAX_RETRY_DELAY_SECONDS) * 1000)
+        : null;
+
+      try {
+        if (!await JobModel.fail(job.id, job.attempts, message, retryAt)) {
+          logger.warn(`Job ${job.id} (${job.type}) failed after its lock timed out: ${message}`);
+          return;
+        }
+      } catch (recordError) {
+        // Don't throw - requeueStale picks the job up once its lock times out
+        logger.error('Failed to record job failure:', recordError);
+      }
+
+      if (retryAt) {
+        logger.warn(`Job ${job.id} (${job.type}) failed on attempt ${job.attempts}, retrying at ${retryAt.toISOString()}: ${message}`);
+      } else {
+        logger.error(`Job ${job.id} (${job.type}) failed after ${job.attempts} attempts: ${message}`);
+        await this.notify(() => NotificationService.notifyJobFailed(job, message));
+      }
+    }
+  }
+
+  private static async notify(send: () => Promise<unknown>): Promise<void> {
+    try {
+      await send();
+    } catch (error) {
+      // Don't throw - the job's outcome is already recorded
+      logger.error('Failed to notify about job:', error);
+    }
+  }
+
+  private static validateUserJob(type: JobType, payload: Record<string, any>): void {
+    const handler = handlers[type];
+    if (!handler || handler.system) {
+      throw createError(`type must be one of ${JOB_TYPES.filter(entry => !handlers[entry].system).join(', ')}`, 400);
+    }
+
+    const errors = handler.validate(payload);
+    if (errors.length > 0) {
+      throw createError(errors.join('; '), 400);
+    }
+  }
+
+  private static validateUserCron(cron: string): void {
+    const error = validateCron(cron);
+    if (error) {
+      throw createError(error, 400);
+    }
+
+    // Check the gaps over the next day's worth of runs
+    let previous = nextCronRun(cron);
+    for (let i = 0; i < 24; i++) {
+      const next = nextCronRun(cron, previous);
+      if (next.getTime() - previous.getTime() < MIN_SCHEDULE_INTERVAL_MINUTES * 60 * 1000) {
+        throw createError(`Schedules can run at most once every ${MIN_SCHEDULE_INTERVAL_MINUTES} minutes`, 400);
+      }
+      previous = next;
+    }
+  }
+}
@@ -0,0 +1,166 @@
+import { LlmUsageModel } from '@/models';
+import { LlmTask, LlmUsageSummary } from '@/types';
+import {
+  LLM_PROVIDER_NAMES,
+  LlmMessage,
+  LlmProviderName,
+  LlmResponse,
+  LlmStreamEvent,
+  defaultLlmProviderName,
+  estimateCost,
+  getLlmProvider,
+  parseJsonResponse
+} from '@/utils/llmProviders';
+import { logger } from '@/utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const LLM_TASKS: LlmTask[] = ['content_generation', 'content_strategy', 'analysis', 'classification'];
+
+type ModelTier = 'large' | 'small';
+
+// Writing gets the stronger model; scoring and labelling get the cheaper one
+const TASK_TIERS: Record<LlmTask, ModelTier> = {
+  content_generation: 'large',
+  content_strategy: 'large',
+  analysis: 'small',
+  classification: 'small',
+};
+
+// Local servers run whatever model LLM_LOCAL_MODEL names for every task
+const DEFAULT_MODELS: Record<Exclude<LlmProviderName, 'local'>, Record<ModelTier, string>> = {
+  openai: { large: 'gpt-4o', small: 'gpt-4o-mini' },
+  anthropic: { large: 'claude-sonnet-4-20250514', small: 'claude-3-5-haiku-20241022' },
+  fake: { large: 'fake-large', small: 'fake-small' },
+};
+
+export interface LlmModelChoice {
+  provider: LlmProviderName;
+  model: string;
+}
+
+export interface LlmCallOptions {
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface LlmJsonResponse<T> {
+  data: T;
+  response: LlmResponse;
+}
+
+export class LlmService {
+
+  /**
+   * The provider and model for a task. LLM_MODEL_<TASK> overrides the
+   * default as "provider:model" or just "model" on the default provider.
+   */
+  static resolveModel(task: LlmTask): LlmModelChoice {
+    const override = process.env[`LLM_MODEL_${task.toUpperCase()}`]?.trim();
+    if (override) {
+      const separator = override.indexOf(':');
+      const prefix = override.slice(0, separator) as LlmProviderName;
+      if (separator > 0 && LLM_PROVIDER_NAMES.includes(prefix)) {
+        return { provider: prefix, model: override.slice(separator + 1) };
+      }
+      return { provider: defaultLlmProviderName(), model: override };
+    }
+
+    const provider = defaultLlmProviderName();
+    if (provider === 'local') {
+      return { provider, model: process.env['LLM_LOCAL_MODEL'] || 'llama3.1' };
+    }
+
+    const models = DEFAULT_MODELS[provider];
+    if (!models) {
+      throw new Error(`Unknown LLM provider: ${provider}`);
+    }
+    return { provider, model: models[TASK_TIERS[task]] };
+  }
+
+  /**
+   * Run a chat completion for a task and charge its usage to the user
+   */
+  static async complete(userId: string, task: LlmTask, messages: LlmMessage[], options: LlmCallOptions = {}): Promise<LlmResponse> {
+    try {
+      const { provider, model } = this.resolveModel(task);
+      const backend = getLlmProvider(provider);
+
+      const response = await backend.complete({ model, messages, ...options });
+      await this.recordUsage(userId, task, backend.name, response);
+
+      return response;
+    } catch (error) {
+      logger.error(`Failed to complete ${task} LLM request:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Run a JSON-mode completion and parse the object it returns
+   */
+  static async completeJson<T = Record<string, any>>(userId: string, task: LlmTask, messages: LlmMessage[], options: LlmCallOptions = {}): Promise<LlmJsonResponse<T>> {
+    try {
+      const { provider, model } = this.resolveModel(task);
+      const backend = getLlmProvider(provider);
+
+      const response = await backend.complete({ model, messages, ...options, json: true });
+      await this.recordUsage(userId, task, backend.name, response);
+
+      return { data: parseJsonResponse<T>(response.content), response };
+    } catch (error) {
+      logger.error(`Failed to complete ${task} LLM JSON request:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stream a chat completion for a task. Usage is charged once the stream
+   * finishes; a stream abandoned early is not charged.
+   */
+  static async *stream(userId: string, task: LlmTask, messages: LlmMessage[], options: LlmCallOptions = {}): AsyncIterable<LlmStreamEvent> {
+    const { provider, model } = this.resolveModel(task);
+    const backend = getLlmProvider(provider);
+
+    try {
+      for await (const event of backend.stream({ model, messages, ...options })) {
+        if (event.type === 'done') {
+          await this.recordUsage(userId, task, backend.name, event.response);
+        }
+        yield event;
+      }
+    } catch (error) {
+      logger.error(`Failed to stream ${task} LLM request:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * A user's LLM usage and cost over the last `days` days
+   */
+  static async getUsage(userId: string, days: number = 30): Promise<LlmUsageSummary> {
+    try {
+      return await LlmUsageModel.summarize(userId, new Date(Date.now() - days * DAY_MS));
+    } catch (error) {
+      logger.error('Failed to get LLM usage:', error);
+      throw error;
+    }
+  }
+
+  private static async recordUsage(userId: string, task: LlmTask, provider: string, response: LlmResponse): Promise<void> {
+    try {
+      await LlmUsageModel.create({
+        userId,
+        task,
+        provider,
+        model: response.model,
+        inputTokens: response.usage.inputTokens,
+        outputTokens: response.usage.outputTokens,
+        costUsd: estimateCost(provider, response.model, response.usage)
+      });
+    } catch (error) {
+      // Don't throw - the caller already has its completion
+      logger.error(`Failed to record LLM usage for user ${userId}:`, error);
+    }
+  }
+}
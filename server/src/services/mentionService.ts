@@ -0,0 +1,187 @@
+import { BrandMentionModel } from '@/models';
+import {
+  BrandMention,
+  BrandMentionFilters,
+  IntelligenceData,
+  SentimentAnalysis,
+  SentimentSeriesPoint,
+  Threat
+} from '@/types';
+import { IntelligenceService } from '@/services/intelligenceService';
+import { SearchResult } from '@/services/webSearchService';
+import { scoreSentiment } from '@/utils/sentiment';
+import { logger } from '@/utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A day is a spike when its negative mentions reach both the minimum and a
+// multiple of the average over the days before it
+const SPIKE_BASELINE_DAYS = 7;
+const SPIKE_MIN_NEGATIVE = parseInt(process.env['MENTION_SPIKE_MIN_NEGATIVE'] || '') || 3;
+const SPIKE_RATIO = 2;
+
+const toDay = (date: Date): string => date.toISOString().substring(0, 10);
+
+export interface NegativeSpike {
+  date: string;
+  negative: number;
+  // Average negative mentions per day over the baseline window
+  baseline: number;
+  severity: Threat['severity'];
+}
+
+export interface SentimentReport {
+  series: SentimentSeriesPoint[];
+  summary: SentimentAnalysis;
+}
+
+export class MentionService {
+
+  /**
+   * Score and store search results as mentions of a brand, then raise a
+   * threat if today's negative mentions spiked
+   */
+  static async recordMentions(userId: string, brand: string, keywords: string[], results: SearchResult[], now: Date = new Date()): Promise<{ mentions: BrandMention[]; threat: IntelligenceData | null }> {
+    try {
+      const mentions = await BrandMentionModel.createMany(userId, brand, results.map(result => {
+        const text = `${result.title}. ${result.snippet}`;
+        const { label, score } = scoreSentiment(text);
+        const keyword = keywords.find(candidate => text.toLowerCase().includes(candidate.toLowerCase()));
+
+        return {
+          url: result.url,
+          title: result.title,
+          snippet: result.snippet,
+          source: result.source,
+          sentiment: label,
+          sentimentScore: score,
+          ...(keyword && { keyword }),
+          ...(result.publishedDate && { publishedAt: result.publishedDate })
+        };
+      }));
+
+      const threat = mentions.some(mention => mention.sentiment === 'negative')
+        ? await this.checkForSpike(userId, brand, now)
+        : null;
+
+      logger.info(`Recorded ${mentions.length} new mentions of ${brand} for user ${userId}`);
+      return { mentions, threat };
+    } catch (error) {
+      logger.error('Failed to record brand mentions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Page through stored mentions
+   */
+  static async getMentions(userId: string, filters: BrandMentionFilters = {}): Promise<{ mentions: BrandMention[]; total: number }> {
+    try {
+      return await BrandMentionModel.findByUserId(userId, filters);
+    } catch (error) {
+      logger.error('Failed to get brand mentions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Daily sentiment for the last `days` days, including days without
+   * mentions, and a summary of the whole period
+   */
+  static async getSentiment(userId: string, filters: Pick<BrandMentionFilters, 'brand' | 'keyword'> = {}, days: number = 30, now: Date = new Date()): Promise<SentimentReport> {
+    try {
+      const from = new Date(`${toDay(new Date(now.getTime() - (days - 1) * DAY_MS))}T00:00:00Z`);
+      const [points, { sources, keywords }] = await Promise.all([
+        BrandMentionModel.dailySeries(userId, from, filters),
+        BrandMentionModel.summarize(userId, from, filters)
+      ]);
+
+      const byDay = new Map(points.map(point => [point.date, point]));
+      const series: SentimentSeriesPoint[] = [];
+      for (let i = 0; i < days; i++) {
+        const date = toDay(new Date(from.getTime() + i * DAY_MS));
+        series.push(byDay.get(date) ?? { date, positive: 0, negative: 0, neutral: 0, total: 0, averageScore: 0 });
+      }
+
+      const total = points.reduce((sum, point) => sum + point.total, 0);
+      const share = (count: number) => total > 0 ? Math.round(count / total * 100) : 0;
+      const sum = (field: 'positive' | 'negative' | 'neutral') => points.reduce((acc, point) => acc + point[field], 0);
+
+      return {
+        series,
+        summary: {
+          overall: total > 0
+            ? Math.round(points.reduce((acc, point) => acc + point.averageScore * point.total, 0) / total * 100) / 100
+            : 0,
+          positive: share(sum('positive')),
+          negative: share(sum('negative')),
+          neutral: share(sum('neutral')),
+          sources,
+          keywords,
+          analyzedAt: now
+        }
+      };
+    } catch (error) {
+      logger.error('Failed to get brand sentiment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Whether a day's negative mentions spiked against the days before it
+   */
+  static detectNegativeSpike(series: SentimentSeriesPoint[], date: string): NegativeSpike | null {
+    const byDay = new Map(series.map(point => [point.date, point]));
+    const negative = byDay.get(date)?.negative ?? 0;
+
+    const day = new Date(`${date}T00:00:00Z`).getTime();
+    let previous = 0;
+    for (let i = 1; i <= SPIKE_BASELINE_DAYS; i++) {
+      previous += byDay.get(toDay(new Date(day - i * DAY_MS)))?.negative ?? 0;
+    }
+    const baseline = Math.round(previous / SPIKE_BASELINE_DAYS * 100) / 100;
+
+    // A quiet baseline counts as one a day so a couple of stray mentions aren't a spike
+    const ratio = negative / Math.max(baseline, 1);
+    if (negative < SPIKE_MIN_NEGATIVE || ratio < SPIKE_RATIO) {
+      return null;
+    }
+
+    return {
+      date,
+      negative,
+      baseline,
+      severity: ratio >= 4 ? 'high' : ratio >= 3 ? 'medium' : 'low'
+    };
+  }
+
+  /**
+   * Raise a negative_sentiment threat for the brand if today is a spike.
+   * Repeat checks on the same day update the same threat.
+   */
+  private static async checkForSpike(userId: string, brand: string, now: Date): Promise<IntelligenceData | null> {
+    const today = toDay(now);
+    const from = new Date(`${today}T00:00:00Z`).getTime() - SPIKE_BASELINE_DAYS * DAY_MS;
+    const series = await BrandMentionModel.dailySeries(userId, new Date(from), { brand });
+
+    const spike = this.detectNegativeSpike(series, today);
+    if (!spike) {
+      return null;
+    }
+
+    logger.warn(`Negative mention spike for ${brand} (user ${userId}): ${spike.negative} today against ${spike.baseline} a day`);
+
+    return IntelligenceService.recordThreat(userId, {
+      title: `Negative mentions of ${brand} are spiking`,
+      description: `${spike.negative} negative mentions today, against ${spike.baseline} a day over the previous week`,
+      type: 'negative_sentiment',
+      severity: spike.severity,
+      mitigation: [
+        'Review the negative mentions and find the common cause',
+        'Prepare a response or clarification if the concern is valid',
+        'Publish positive, relevant content to balance the conversation'
+      ],
+      source: 'brand_mentions'
+    }, `${brand}:${today}`, { brand, date: today, negative: spike.negative, baseline: spike.baseline });
+  }
+}
@@ -0,0 +1,351 @@
+import { NotificationModel, NotificationPreferencesModel, ProjectDeadlineModel, ProjectMilestoneModel } from '@/models';
+import {
+  DigestFrequency,
+  IntelligenceData,
+  Job,
+  JobType,
+  Notification,
+  NotificationFilters,
+  NotificationInput,
+  NotificationPreferences,
+  NotificationType
+} from '@/types';
+import { DIGEST_HTML, DIGEST_SUBJECT, DIGEST_TEXT } from '@/templates/notificationDigest';
+import { getNotificationChannel } from '@/utils/notificationChannels';
+import { renderTemplate } from '@/utils/templates';
+import { logger } from '@/utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const NOTIFICATION_TYPES: NotificationType[] = ['alert', 'analysis', 'deadline'];
+
+const TYPE_LABELS: Record<NotificationType, string> = {
+  alert: 'Alerts',
+  analysis: 'Finished analyses',
+  deadline: 'Upcoming deadlines',
+};
+
+const DIGEST_PERIOD_DAYS: Record<Exclude<DigestFrequency, 'off'>, number> = {
+  daily: 1,
+  weekly: 7,
+};
+
+// The digest job may start a little early or late, so a digest counts as due this much before its period is up
+const DIGEST_SLACK_MS = 60 * 60 * 1000;
+
+// Milestones and deadlines this many days out get a reminder
+const DEADLINE_REMINDER_DAYS = parseInt(process.env['DEADLINE_REMINDER_DAYS'] || '') || 3;
+
+// Read notifications are kept this long
+const READ_RETENTION_DAYS = 90;
+
+// Describe a finished user job in a notification
+const JOB_SUMMARIES: Partial<Record<JobType, { label: string; summary: (job: Job, result: Record<string, any>) => string }>> = {
+  trend_refresh: {
+    label: 'Trend refresh',
+    summary: (job, result) => `Found ${result['trends'] ?? 0} trends in ${job.payload['industry']}`,
+  },
+  competitor_monitor: {
+    label: 'Competitor check',
+    summary: (_job, result) => `Checked ${result['competitors'] ?? 0} competitors`,
+  },
+  brand_mention_scan: {
+    label: 'Brand mention scan',
+    summary: (job, result) => `Found ${result['mentions'] ?? 0} mentions of ${job.payload['brandName']}`,
+  },
+};
+
+// Links in emails point at the client app
+const appUrl = (): string =>
+  (process.env['APP_URL'] || process.env['CORS_ORIGIN'] || 'http://localhost:5173').replace(/\/$/, '');
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+// Postgres DATE values arrive as local midnight
+const formatDay = (date: Date): string => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const describeDue = (date: Date, now: Date): string => {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const days = Math.round((new Date(date).setHours(0, 0, 0, 0) - today.getTime()) / DAY_MS);
+  const when = days <= 0 ? 'today' : days === 1 ? 'tomorrow' : `in ${days} days`;
+  return `due ${when} (${formatDay(new Date(date))})`;
+};
+
+export interface NotificationList {
+  notifications: Notification[];
+  total: number;
+  unread: number;
+}
+
+export interface DigestRecipient {
+  userId: string;
+  email: string;
+  name: string;
+  mutedTypes: NotificationType[];
+  lastDigestAt?: Date;
+}
+
+export interface RenderedDigest {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export class NotificationService {
+
+  /**
+   * Notify a user unless they muted the type. Returns null when muted or
+   * when a notification with the same dedupe key already exists.
+   */
+  static async notify(userId: string, input: NotificationInput): Promise<Notification | null> {
+    try {
+      const preferences = await NotificationPreferencesModel.findByUserId(userId);
+      if (preferences.mutedTypes.includes(input.type)) {
+        return null;
+      }
+
+      const notification = await NotificationModel.create(userId, input);
+      if (notification) {
+        logger.info(`Created ${input.type} notification ${notification.id} for user ${userId}`);
+      }
+      return notification;
+    } catch (error) {
+      logger.error('Failed to create notification:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Page through a user's notifications with their unread count
+   */
+  static async getNotifications(userId: string, filters: NotificationFilters = {}): Promise<NotificationList> {
+    try {
+      const [{ notifications, total }, unread] = await Promise.all([
+        NotificationModel.findByUserId(userId, filters),
+        NotificationModel.countUnread(userId)
+      ]);
+
+      return { notifications, total, unread };
+    } catch (error) {
+      logger.error('Failed to get notifications:', error);
+      throw error;
+    }
+  }
+
+  static async getPreferences(userId: string): Promise<NotificationPreferences> {
+    try {
+      return await NotificationPreferencesModel.findByUserId(userId);
+    } catch (error) {
+      logger.error('Failed to get notification preferences:', error);
+      throw error;
+    }
+  }
+
+  static async updatePreferences(userId: string, updates: Partial<Pick<NotificationPreferences, 'mutedTypes' | 'digestFrequency'>>): Promise<NotificationPreferences> {
+    try {
+      return await NotificationPreferencesModel.upsert(userId, updates);
+    } catch (error) {
+      logger.error('Failed to update notification preferences:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Alert on new, actionable intelligence items, once per item
+   */
+  static async notifyIntelligence(items: IntelligenceData[]): Promise<Notification[]> {
+    const created: Notification[] = [];
+    for (const item of items.filter(entry => entry.isActionable && entry.status === 'new')) {
+      const notification = await this.notify(item.userId, {
+        type: 'alert',
+        title: String(item.data['title'] || `New ${item.type}`),
+        body: String(item.data['summary'] || ''),
+        link: '/intelligence',
+        data: { intelligenceId: item.id, intelligenceType: item.type },
+        dedupeKey: `intelligence:${item.id}`
+      });
+      if (notification) {
+        created.push(notification);
+      }
+    }
+    return created;
+  }
+
+  /**
+   * Tell a user a one-off analysis job finished. Scheduled runs stay quiet
+   * and surface through the alerts they raise.
+   */
+  static async notifyJobSucceeded(job: Job, result: Record<string, any>): Promise<Notification | null> {
+    const description = JOB_SUMMARIES[job.type];
+    if (!job.userId || job.scheduleId || !description) {
+      return null;
+    }
+
+    return this.notify(job.userId, {
+      type: 'analysis',
+      title: `${description.label} finished`,
+      body: description.summary(job, result),
+      link: '/intelligence',
+      data: { jobId: job.id, jobType: job.type, status: 'succeeded' },
+      dedupeKey: `job:${job.id}`
+    });
+  }
+
+  /**
+   * Tell a user an analysis job gave up after its last attempt
+   */
+  static async notifyJobFailed(job: Job, message: string): Promise<Notification | null> {
+    const description = JOB_SUMMARIES[job.type];
+    if (!job.userId || !description) {
+      return null;
+    }
+
+    return this.notify(job.userId, {
+      type: 'analysis',
+      title: `${description.label} failed`,
+      body: `Gave up after ${job.attempts} attempts: ${message}`,
+      data: { jobId: job.id, jobType: job.type, status: 'failed' },
+      dedupeKey: `job:${job.id}`
+    });
+  }
+
+  /**
+   * Remind users of open milestones and deadlines in active projects that
+   * are due soon. Each date is reminded once; moving it reminds again.
+   */
+  static async remindDeadlines(now: Date = new Date()): Promise<number> {
+    try {
+      const [milestones, deadlines] = await Promise.all([
+        ProjectMilestoneModel.findDueAcrossUsers(DEADLINE_REMINDER_DAYS),
+        ProjectDeadlineModel.findDueAcrossUsers(DEADLINE_REMINDER_DAYS)
+      ]);
+
+      let reminded = 0;
+      for (const milestone of milestones) {
+        const notification = await this.notify(milestone.userId, {
+          type: 'deadline',
+          title: `${milestone.projectName}: ${milestone.name}`,
+          body: `Milestone ${describeDue(milestone.targetDate, now)}`,
+          link: '/projects',
+          data: { projectId: milestone.projectId, milestoneId: milestone.id },
+          dedupeKey: `milestone:${milestone.id}:${formatDay(new Date(milestone.targetDate))}`
+        });
+        reminded += notification ? 1 : 0;
+      }
+
+      for (const deadline of deadlines) {
+        const notification = await this.notify(deadline.userId, {
+          type: 'deadline',
+          title: `${deadline.projectName}: ${deadline.name}`,
+          body: `${deadline.priority === 'high' ? 'High priority deadline' : 'Deadline'} ${describeDue(deadline.date, now)}`,
+          link: '/projects',
+          data: { projectId: deadline.projectId, deadlineId: deadline.id },
+          dedupeKey: `deadline:${deadline.id}:${formatDay(new Date(deadline.date))}`
+        });
+        reminded += notification ? 1 : 0;
+      }
+
+      return reminded;
+    } catch (error) {
+      logger.error('Failed to send deadline reminders:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send every daily and weekly digest that is due. A user whose delivery
+   * fails is tried again on the next run. Returns the number sent.
+   */
+  static async sendDigests(now: Date = new Date()): Promise<number> {
+    try {
+      let sent = 0;
+      for (const frequency of ['daily', 'weekly'] as const) {
+        const sentBefore = new Date(now.getTime() - DIGEST_PERIOD_DAYS[frequency] * DAY_MS + DIGEST_SLACK_MS);
+        const recipients = await NotificationPreferencesModel.findDigestRecipients(frequency, sentBefore);
+
+        for (const recipient of recipients) {
+          try {
+            sent += await this.sendDigest(recipient, frequency, now) ? 1 : 0;
+          } catch (error) {
+            // Don't throw - the other digests still go out
+            logger.error(`Failed to send digest to user ${recipient.userId}:`, error);
+          }
+        }
+      }
+
+      return sent;
+    } catch (error) {
+      logger.error('Failed to send notification digests:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deliver one user's unread notifications since their last digest, or
+   * over the last period. Nothing is sent when there is nothing unread, but
+   * the period still counts as covered.
+   */
+  static async sendDigest(recipient: DigestRecipient, frequency: Exclude<DigestFrequency, 'off'>, now: Date = new Date()): Promise<boolean> {
+    const periodStart = new Date(now.getTime() - DIGEST_PERIOD_DAYS[frequency] * DAY_MS);
+    const since = recipient.lastDigestAt && recipient.lastDigestAt > periodStart ? recipient.lastDigestAt : periodStart;
+    const types = NOTIFICATION_TYPES.filter(type => !recipient.mutedTypes.includes(type));
+
+    const notifications = await NotificationModel.findUnreadSince(recipient.userId, since, types);
+    if (notifications.length > 0) {
+      await getNotificationChannel().deliver({
+        userId: recipient.userId,
+        to: recipient.email,
+        ...this.renderDigest(recipient.name, frequency, notifications),
+        notifications
+      });
+      logger.info(`Sent ${frequency} digest with ${notifications.length} notifications to user ${recipient.userId}`);
+    }
+
+    await NotificationPreferencesModel.markDigestSent(recipient.userId, now);
+    return notifications.length > 0;
+  }
+
+  /**
+   * Render the digest email, grouping notifications by type
+   */
+  static renderDigest(name: string, frequency: Exclude<DigestFrequency, 'off'>, notifications: Notification[]): RenderedDigest {
+    const view = {
+      name,
+      count: notifications.length,
+      noun: notifications.length === 1 ? 'notification' : 'notifications',
+      period: frequency,
+      appUrl: appUrl(),
+      settingsUrl: `${appUrl()}/notifications`,
+      groups: NOTIFICATION_TYPES
+        .map(type => ({
+          label: TYPE_LABELS[type],
+          notifications: notifications
+            .filter(notification => notification.type === type)
+            .map(notification => ({
+              title: notification.title,
+              body: notification.body,
+              url: notification.link ? `${appUrl()}${notification.link}` : ''
+            }))
+        }))
+        .filter(group => group.notifications.length > 0)
+    };
+
+    return {
+      subject: renderTemplate(DIGEST_SUBJECT, view),
+      text: renderTemplate(DIGEST_TEXT, view),
+      html: renderTemplate(DIGEST_HTML, view, { escape: true })
+    };
+  }
+
+  /**
+   * Delete notifications read more than READ_RETENTION_DAYS ago
+   */
+  static async cleanupRead(): Promise<number> {
+    try {
+      return await NotificationModel.deleteReadBefore(new Date(Date.now() - READ_RETENTION_DAYS * DAY_MS));
+    } catch (error) {
+      logger.error('Failed to clean up notifications:', error);
+      throw error;
+    }
+  }
+}
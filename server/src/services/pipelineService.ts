@@ -0,0 +1,160 @@
+import { IntelligenceDataModel, PipelineItemModel, ProjectDeadlineModel, ProjectModel } from '@/models';
+import { IntelligenceData, IntelligenceStatus, PipelineItem, PipelineStage, Project } from '@/types';
+import { createError } from '@/middleware/errorHandler';
+import { classifyIntelligence } from '@/utils/signalClassifier';
+import { logger } from '@/utils/logger';
+
+// Feed items looked at when classifying a user's existing feed
+const BACKFILL_LIMIT = 200;
+
+// Moving a pipeline item triages the feed item it came from
+const FEED_STATUS: Partial<Record<PipelineStage, IntelligenceStatus>> = {
+  pursuing: 'saved',
+  done: 'acted_on',
+  ignored: 'dismissed'
+};
+
+export class PipelineService {
+
+  /**
+   * Classify intelligence items and add the opportunities and threats among
+   * them to their owners' pipelines
+   */
+  static async classifyItems(items: IntelligenceData[], now: Date = new Date()): Promise<PipelineItem[]> {
+    try {
+      const added: PipelineItem[] = [];
+      for (const item of items) {
+        const signal = classifyIntelligence(item, now);
+        if (!signal) {
+          continue;
+        }
+
+        added.push(await PipelineItemModel.create(signal.kind === 'opportunity'
+          ? {
+            userId: item.userId,
+            kind: 'opportunity',
+            category: signal.opportunity.type,
+            title: signal.opportunity.title,
+            description: signal.opportunity.description,
+            priority: signal.opportunity.priority,
+            source: signal.opportunity.source,
+            actions: signal.opportunity.actionRequired,
+            intelligenceId: item.id,
+            ...(signal.opportunity.deadline && { deadline: signal.opportunity.deadline })
+          }
+          : {
+            userId: item.userId,
+            kind: 'threat',
+            category: signal.threat.type,
+            title: signal.threat.title,
+            description: signal.threat.description,
+            priority: signal.threat.severity,
+            source: signal.threat.source,
+            actions: signal.threat.mitigation,
+            intelligenceId: item.id
+          }));
+      }
+      return added;
+    } catch (error) {
+      logger.error('Failed to classify intelligence items:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Classify the live items already in a user's feed
+   */
+  static async classifyFeed(userId: string): Promise<PipelineItem[]> {
+    try {
+      const { items } = await IntelligenceDataModel.findFeed(userId, {
+        statuses: ['new', 'saved'],
+        sort: 'recent',
+        limit: BACKFILL_LIMIT
+      });
+
+      const added = await this.classifyItems(items);
+      logger.info(`Classified ${items.length} feed items into ${added.length} pipeline items for user ${userId}`);
+      return added;
+    } catch (error) {
+      logger.error('Failed to classify intelligence feed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move an item to another stage and triage its feed item to match
+   */
+  static async moveItem(item: PipelineItem, stage: PipelineStage): Promise<PipelineItem | null> {
+    try {
+      const updated = await PipelineItemModel.update(item.id, { stage });
+
+      const status = FEED_STATUS[stage];
+      if (status && item.intelligenceId) {
+        try {
+          await IntelligenceDataModel.updateStatus(item.intelligenceId, status);
+        } catch (error) {
+          logger.error('Failed to update intelligence status:', error);
+          // Don't throw - the pipeline move already happened
+        }
+      }
+
+      logger.info(`Pipeline item ${item.id} moved from ${item.stage} to ${stage}`);
+      return updated;
+    } catch (error) {
+      logger.error('Failed to move pipeline item:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Turn an opportunity into an opportunity project. Its actions become the
+   * project goals and its deadline a project deadline.
+   */
+  static async convertToProject(item: PipelineItem): Promise<{ project: Project; item: PipelineItem }> {
+    try {
+      if (item.kind !== 'opportunity') {
+        throw createError('Only opportunities can become projects', 400);
+      }
+      if (item.projectId) {
+        throw createError('Opportunity already has a project', 409);
+      }
+
+      const project = await ProjectModel.create({
+        userId: item.userId,
+        name: item.title.substring(0, 255),
+        type: 'opportunity',
+        description: item.description,
+        goals: item.actions,
+        status: 'active',
+        startDate: new Date(),
+        ...(item.deadline && { endDate: item.deadline }),
+        context: {
+          pipelineItemId: item.id,
+          category: item.category,
+          source: item.source,
+          ...(item.intelligenceId && { intelligenceId: item.intelligenceId })
+        }
+      });
+
+      if (item.deadline) {
+        await ProjectDeadlineModel.create({
+          projectId: project.id,
+          name: item.title.substring(0, 255),
+          date: item.deadline,
+          priority: item.priority
+        });
+      }
+
+      const updated = await PipelineItemModel.update(item.id, {
+        projectId: project.id,
+        ...(item.stage === 'detected' && { stage: 'pursuing' as const })
+      });
+
+      logger.info(`Pipeline item ${item.id} converted to project ${project.id}`);
+      return { project, item: updated! };
+    } catch (error) {
+      logger.error('Failed to convert opportunity to project:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import { ProjectModel, ProjectMilestoneModel, ProjectDeadlineModel } from '@/models';
+import { Project, ProjectTimeline, ProjectProgress, Content } from '@/types';
+import { logger } from '@/utils/logger';
+
+export class ProjectService {
+
+  /**
+   * Load a project's milestones and deadlines
+   */
+  static async getTimeline(projectId: string): Promise<ProjectTimeline> {
+    try {
+      const [milestones, deadlines] = await Promise.all([
+        ProjectMilestoneModel.findByProjectId(projectId),
+        ProjectDeadlineModel.findByProjectId(projectId)
+      ]);
+
+      return { milestones, deadlines };
+    } catch (error) {
+      logger.error('Failed to load project timeline:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Calculate completion progress from milestones, deadlines and linked content
+   */
+  static async getProgress(projectId: string): Promise<ProjectProgress> {
+    try {
+      const [timeline, content] = await Promise.all([
+        this.getTimeline(projectId),
+        ProjectModel.findLinkedContent(projectId)
+      ]);
+
+      return this.calculateProgress(timeline, content);
+    } catch (error) {
+      logger.error('Failed to calculate project progress:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Load a project together with its timeline, linked content and progress
+   */
+  static async getProjectDetails(project: Project): Promise<{
+    project: Project;
+    timeline: ProjectTimeline;
+    content: Content[];
+    progress: ProjectProgress;
+  }> {
+    try {
+      const [timeline, content] = await Promise.all([
+        this.getTimeline(project.id),
+        ProjectModel.findLinkedContent(project.id)
+      ]);
+
+      return {
+        project,
+        timeline,
+        content,
+        progress: this.calculateProgress(timeline, content)
+      };
+    } catch (error) {
+      logger.error('Failed to load project details:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Completion rate weighs milestones, deadlines and published content equally
+   * across whichever of them the project actually uses
+   */
+  private static calculateProgress(timeline: ProjectTimeline, content: Content[]): ProjectProgress {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    const milestonesCompleted = timeline.milestones.filter(m => m.completed).length;
+    const deadlinesCompleted = timeline.deadlines.filter(d => d.completed).length;
+    const overdueDeadlines = timeline.deadlines.filter(d => !d.completed && new Date(d.date) < today).length;
+    const publishedContent = content.filter(c => c.status === 'published').length;
+
+    const ratios: number[] = [];
+    if (timeline.milestones.length > 0) {
+      ratios.push(milestonesCompleted / timeline.milestones.length);
+    }
+    if (timeline.deadlines.length > 0) {
+      ratios.push(deadlinesCompleted / timeline.deadlines.length);
+    }
+    if (content.length > 0) {
+      ratios.push(publishedContent / content.length);
+    }
+
+    const completionRate = ratios.length > 0
+      ? Math.round((ratios.reduce((sum, ratio) => sum + ratio, 0) / ratios.length) * 100)
+      : 0;
+
+    return {
+      milestonesTotal: timeline.milestones.length,
+      milestonesCompleted,
+      deadlinesTotal: timeline.deadlines.length,
+      deadlinesCompleted,
+      overdueDeadlines,
+      linkedContent: content.length,
+      publishedContent,
+      completionRate
+    };
+  }
+}
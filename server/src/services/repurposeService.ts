@@ -0,0 +1,228 @@
+import { BrandStrategyModel, ContentModel } from '@/models';
+import { ContentService } from '@/services/contentService';
+import { GENERATION_PLATFORMS, GenerationPlatform } from '@/services/generationService';
+import { HASHTAG_LIMITS } from '@/services/hashtagService';
+import { LlmService } from '@/services/llmService';
+import { createError } from '@/middleware/errorHandler';
+import { BrandStrategy, Content, PlatformStrategy } from '@/types';
+import { REPURPOSE_PROMPT, REPURPOSE_SYSTEM } from '@/templates/repurpose';
+import { LlmMessage, LlmUsage } from '@/utils/llmProviders';
+import { hashtagKey, isHashtag, toHashtag } from '@/utils/hashtags';
+import { renderTemplate } from '@/utils/templates';
+import { splitThread, TWEET_LIMIT } from '@/utils/threadSplitter';
+import { logger } from '@/utils/logger';
+
+// How a variant of each content type is written
+const FORMATS: Record<string, string> = {
+  post: 'A standalone post that makes sense without the original. Open with a strong first line, keep paragraphs short and end with a question or call to action.',
+  thread: `A thread of three to eight posts, each under ${TWEET_LIMIT} characters, separated by blank lines. The first post is the hook and the last sums up.`,
+  caption: 'A caption of up to about 2,200 characters with the hook in the first line and a call to action at the end.',
+  script: 'A short video script: a hook in the first 15 seconds, three to five talking points and a closing call to action.',
+  outline: 'A blog post outline: a working title, a one-sentence angle, then four to six section headings with two or three bullet points each.',
+  article: 'A 300 to 600 word article with a title and a clear structure.',
+  newsletter: 'A newsletter section with a personal opening and one clear takeaway.',
+};
+
+// Used when the platform's config names no content type we know how to write
+const DEFAULT_FORMATS: Record<GenerationPlatform, string> = {
+  linkedin: 'post',
+  twitter: 'thread',
+  instagram: 'caption',
+  youtube: 'script',
+  blog: 'outline',
+};
+
+// Blog posts keep their hashtags as tags rather than in the text
+const TAGS_ONLY: GenerationPlatform[] = ['blog'];
+
+export interface RepurposeTarget {
+  platform: GenerationPlatform;
+  contentType: string;
+  // Hashtags from the platform's hashtag strategy, always used
+  hashtags: string[];
+  // Hashtag strategy entries that aren't hashtags, such as "two niche tags"
+  hashtagGuidance: string[];
+  engagementStrategy?: string;
+}
+
+export interface RepurposeResult {
+  variants: Content[];
+  model: string;
+  usage: LlmUsage;
+}
+
+interface GeneratedVariant {
+  platform?: string;
+  title?: string;
+  body?: string;
+  hashtags?: string[];
+}
+
+export class RepurposeService {
+
+  /**
+   * Turn a content item into drafts for other platforms, each following
+   * that platform's config in the active brand strategy and linked to the
+   * source as its parent. Without platforms, targets the strategy's active
+   * platforms, or every other platform when none are active.
+   */
+  static async repurpose(source: Content, platforms?: GenerationPlatform[]): Promise<RepurposeResult> {
+    try {
+      const strategy = await BrandStrategyModel.findActiveStrategy(source.userId);
+      const targets = this.planTargets(source, strategy, platforms);
+      if (targets.length === 0) {
+        throw createError('No platforms to repurpose to', 400);
+      }
+
+      const { data, response } = await LlmService.completeJson<{ variants?: GeneratedVariant[] }>(
+        source.userId,
+        'content_generation',
+        this.buildMessages(source, strategy, targets),
+        { temperature: 0.7, maxTokens: 1000 * targets.length }
+      );
+
+      const generated = Array.isArray(data.variants) ? data.variants : [];
+      const variants: Content[] = [];
+      for (const target of targets) {
+        const variant = generated.find(entry =>
+          typeof entry?.platform === 'string' && entry.platform.toLowerCase() === target.platform
+        );
+        if (typeof variant?.body !== 'string' || variant.body.trim().length === 0) {
+          logger.warn(`No ${target.platform} variant returned for content ${source.id}`);
+          continue;
+        }
+
+        const { contentType, body, tags } = this.finishVariant(target, variant.body, variant.hashtags);
+        variants.push(await ContentService.createContent(source.userId, {
+          platform: target.platform,
+          contentType,
+          body,
+          tags,
+          brandAlignment: 0,
+          performanceScore: 0,
+          status: 'draft',
+          parentId: source.id,
+          ...(variant.title?.trim() && { title: variant.title.trim() })
+        }));
+      }
+
+      if (variants.length === 0) {
+        throw createError('The model did not return any variants', 502);
+      }
+
+      logger.info(`Repurposed content ${source.id} into ${variants.length} variants for user ${source.userId}`);
+
+      return { variants, model: response.model, usage: response.usage };
+    } catch (error) {
+      logger.error('Failed to repurpose content:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Variants repurposed from a content item, oldest first
+   */
+  static async getVariants(source: Content): Promise<Content[]> {
+    try {
+      return await ContentModel.findVariants(source.id);
+    } catch (error) {
+      logger.error('Failed to get content variants:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Decide the content type, hashtags and guidance for each target platform
+   * from the brand strategy's platform configs
+   */
+  static planTargets(source: Content, strategy: BrandStrategy | null, platforms?: GenerationPlatform[]): RepurposeTarget[] {
+    const configs: PlatformStrategy = strategy?.platformStrategy || {};
+    const others = GENERATION_PLATFORMS.filter(platform => platform !== source.platform);
+    const active = others.filter(platform => configs[platform]?.active);
+    const selected = platforms && platforms.length > 0
+      ? [...new Set(platforms)]
+      : active.length > 0 ? active : others;
+
+    return selected.map(platform => {
+      const config = configs[platform];
+      const contentType = (config?.contentTypes || [])
+        .map(type => type.trim().toLowerCase())
+        .find(type => Object.prototype.hasOwnProperty.call(FORMATS, type));
+      const hashtagStrategy = (config?.hashtagStrategy || []).map(entry => entry.trim()).filter(Boolean);
+
+      return {
+        platform,
+        contentType: contentType || DEFAULT_FORMATS[platform],
+        hashtags: hashtagStrategy.filter(isHashtag).map(toHashtag),
+        hashtagGuidance: hashtagStrategy.filter(entry => !isHashtag(entry)),
+        ...(config?.engagementStrategy?.trim() && { engagementStrategy: config.engagementStrategy.trim() })
+      };
+    });
+  }
+
+  /**
+   * Build the system and user messages for a repurposing request
+   */
+  static buildMessages(source: Content, strategy: BrandStrategy | null, targets: RepurposeTarget[]): LlmMessage[] {
+    const view = {
+      source: {
+        platform: source.platform,
+        contentType: source.contentType,
+        title: source.title,
+        body: source.body
+      },
+      strategy: strategy && {
+        coreMessage: strategy.coreMessage,
+        audience: strategy.targetAudience.join(', ')
+      },
+      targets: targets.map(target => ({
+        platform: target.platform,
+        format: FORMATS[target.contentType],
+        engagement: target.engagementStrategy,
+        hashtagGuide: [
+          target.hashtags.length > 0 ? `always include ${target.hashtags.join(' ')}` : '',
+          ...target.hashtagGuidance
+        ].filter(Boolean).join('; ')
+      }))
+    };
+
+    return [
+      { role: 'system', content: REPURPOSE_SYSTEM },
+      { role: 'user', content: renderTemplate(REPURPOSE_PROMPT, view) }
+    ];
+  }
+
+  /**
+   * Apply the platform's hashtag strategy to a generated variant and, on
+   * Twitter, split it into a thread that fits the character limit. Strategy
+   * hashtags come before the model's suggestions when trimming to the
+   * platform's maximum.
+   */
+  static finishVariant(target: RepurposeTarget, text: string, suggested?: unknown): { contentType: string; body: string; tags: string[] } {
+    const candidates = [
+      ...target.hashtags,
+      ...(Array.isArray(suggested) ? suggested : [])
+        .filter((tag): tag is string => typeof tag === 'string' && isHashtag(tag))
+        .map(toHashtag)
+    ];
+    const hashtags = candidates
+      .filter((tag, i) => candidates.findIndex(other => hashtagKey(other) === hashtagKey(tag)) === i)
+      .slice(0, HASHTAG_LIMITS[target.platform]);
+
+    let body = text.trim();
+    const missing = hashtags.filter(tag => !body.toLowerCase().includes(tag.toLowerCase()));
+    if (!TAGS_ONLY.includes(target.platform) && missing.length > 0) {
+      // On Twitter the tags close the last post, or get a post of their own when it is full
+      body += target.platform === 'twitter' ? ` ${missing.join(' ')}` : `\n\n${missing.join(' ')}`;
+    }
+
+    let contentType = target.contentType;
+    if (target.platform === 'twitter') {
+      const posts = splitThread(body);
+      body = posts.join('\n\n');
+      contentType = posts.length > 1 ? 'thread' : 'post';
+    }
+
+    return { contentType, body, tags: hashtags.map(tag => tag.slice(1)) };
+  }
+}
@@ -0,0 +1,166 @@
+import { randomUUID } from 'crypto';
+import { RefreshTokenModel, UserModel } from '@/models';
+import { AuthTokens, Session, SessionMetadata } from '@/types';
+import {
+  generateAccessToken,
+  generateRefreshToken,
+  hashToken,
+  REFRESH_TOKEN_TTL_DAYS
+} from '@/utils/auth';
+import { createError } from '@/middleware/errorHandler';
+import { logger } from '@/utils/logger';
+
+const refreshTokenExpiry = (): Date =>
+  new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+export class SessionService {
+
+  /**
+   * Start a new session (refresh token family) and issue its first tokens
+   */
+  static async createSession(userId: string, email: string, metadata: SessionMetadata = {}): Promise<AuthTokens> {
+    try {
+      const refreshToken = generateRefreshToken();
+      const familyId = randomUUID();
+
+      await RefreshTokenModel.create({
+        userId,
+        familyId,
+        tokenHash: hashToken(refreshToken),
+        ...metadata,
+        expiresAt: refreshTokenExpiry()
+      });
+
+      try {
+        await RefreshTokenModel.deleteExpired(userId);
+      } catch (error) {
+        logger.error('Failed to delete expired refresh tokens:', error);
+        // Don't throw - cleanup is best effort
+      }
+
+      return {
+        accessToken: generateAccessToken(userId, email, familyId),
+        refreshToken
+      };
+    } catch (error) {
+      logger.error('Failed to create session:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair. Each refresh token can be
+   * used once; presenting a rotated token again means it leaked, so the
+   * whole session is revoked.
+   */
+  static async refresh(refreshToken: string, metadata: SessionMetadata = {}): Promise<AuthTokens> {
+    const existing = await RefreshTokenModel.findByHash(hashToken(refreshToken));
+    if (!existing) {
+      throw createError('Invalid refresh token', 401);
+    }
+
+    if (existing.revokedAt) {
+      throw createError('Session has been revoked', 401);
+    }
+
+    if (existing.replacedBy) {
+      await this.handleReuse(existing.familyId, existing.userId);
+    }
+
+    if (new Date(existing.expiresAt) <= new Date()) {
+      throw createError('Refresh token expired', 401);
+    }
+
+    const user = await UserModel.findById(existing.userId);
+    if (!user) {
+      throw createError('User not found', 401);
+    }
+
+    const nextToken = generateRefreshToken();
+    const rotated = await RefreshTokenModel.rotate(existing.id, {
+      tokenHash: hashToken(nextToken),
+      ...metadata,
+      expiresAt: refreshTokenExpiry()
+    });
+
+    if (!rotated) {
+      // Another request rotated this token first
+      await this.handleReuse(existing.familyId, existing.userId);
+    }
+
+    return {
+      accessToken: generateAccessToken(user.id, user.email, existing.familyId),
+      refreshToken: nextToken
+    };
+  }
+
+  /**
+   * End the session a refresh token belongs to
+   */
+  static async revokeByToken(refreshToken: string, userId: string): Promise<boolean> {
+    try {
+      const existing = await RefreshTokenModel.findByHash(hashToken(refreshToken));
+      if (!existing || existing.userId !== userId) {
+        return false;
+      }
+
+      return (await RefreshTokenModel.revokeFamily(existing.familyId, userId)) > 0;
+    } catch (error) {
+      logger.error('Failed to revoke refresh token:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List a user's active sessions, marking the one making the request
+   */
+  static async listSessions(userId: string, currentSessionId?: string): Promise<Session[]> {
+    try {
+      const sessions = await RefreshTokenModel.findActiveSessions(userId);
+      return sessions.map(session => ({
+        ...session,
+        current: session.id === currentSessionId
+      }));
+    } catch (error) {
+      logger.error('Failed to list sessions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke one session, signing out that device
+   */
+  static async revokeSession(userId: string, sessionId: string): Promise<boolean> {
+    try {
+      return (await RefreshTokenModel.revokeFamily(sessionId, userId)) > 0;
+    } catch (error) {
+      logger.error('Failed to revoke session:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke every session for a user, optionally keeping the current one
+   */
+  static async revokeAllSessions(userId: string, exceptSessionId?: string): Promise<number> {
+    try {
+      return await RefreshTokenModel.revokeAllForUser(userId, exceptSessionId);
+    } catch (error) {
+      logger.error('Failed to revoke sessions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Whether an access token's session is still active
+   */
+  static async isSessionActive(sessionId: string): Promise<boolean> {
+    return RefreshTokenModel.isFamilyActive(sessionId);
+  }
+
+  private static async handleReuse(familyId: string, userId: string): Promise<never> {
+    await RefreshTokenModel.revokeFamily(familyId);
+    logger.warn(`Refresh token reuse detected for user ${userId}; revoked session ${familyId}`);
+    throw createError('Refresh token reuse detected', 401);
+  }
+}
@@ -0,0 +1,101 @@
+import { TrendObservationModel } from '@/models';
+import { TrendMomentum, TrendPoint } from '@/types';
+import { computeMomentum } from '@/utils/trendMomentum';
+import { logger } from '@/utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// History considered when computing momentum
+const MOMENTUM_WINDOW_DAYS = 30;
+
+// Observations are kept this long
+const OBSERVATION_RETENTION_DAYS = 90;
+
+export interface TrendMeasurement {
+  keyword: string;
+  category: string;
+  volume: number;
+  industry?: string;
+}
+
+export interface TrendHistory {
+  series: TrendPoint[];
+  momentum: TrendMomentum;
+}
+
+export class TrendService {
+
+  /**
+   * Store a measurement of each trend and return their momentum including it
+   */
+  static async observe(userId: string, measurements: TrendMeasurement[], source: string, now: Date = new Date()): Promise<TrendMomentum[]> {
+    try {
+      for (const measurement of measurements) {
+        await TrendObservationModel.create({
+          userId,
+          keyword: measurement.keyword,
+          category: measurement.category,
+          volume: Math.max(0, measurement.volume),
+          source,
+          observedAt: now,
+          ...(measurement.industry && { industry: measurement.industry })
+        });
+      }
+
+      const momentum: TrendMomentum[] = [];
+      for (const measurement of measurements) {
+        momentum.push((await this.getHistory(userId, measurement.keyword, now)).momentum);
+      }
+      return momentum;
+    } catch (error) {
+      logger.error('Failed to record trend observations:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Daily volumes of a trend over the momentum window and its momentum
+   */
+  static async getHistory(userId: string, keyword: string, now: Date = new Date()): Promise<TrendHistory> {
+    try {
+      const series = await TrendObservationModel.dailySeries(userId, keyword, new Date(now.getTime() - MOMENTUM_WINDOW_DAYS * DAY_MS));
+      return { series, momentum: computeMomentum(keyword, series) };
+    } catch (error) {
+      logger.error('Failed to get trend history:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Momentum of every trend observed in the window, accelerating ones first
+   * and then by growth
+   */
+  static async listMomentum(userId: string, now: Date = new Date()): Promise<(TrendMomentum & { category: string; industry?: string; lastObservedAt: Date })[]> {
+    try {
+      const keywords = await TrendObservationModel.findKeywords(userId, new Date(now.getTime() - MOMENTUM_WINDOW_DAYS * DAY_MS));
+
+      const trends = [];
+      for (const { keyword, category, industry, lastObservedAt } of keywords) {
+        const { momentum } = await this.getHistory(userId, keyword, now);
+        trends.push({ ...momentum, category, lastObservedAt, ...(industry && { industry }) });
+      }
+
+      return trends.sort((a, b) => Number(b.accelerating) - Number(a.accelerating) || b.growth - a.growth);
+    } catch (error) {
+      logger.error('Failed to list trend momentum:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete observations past retention
+   */
+  static async cleanupObservations(): Promise<number> {
+    try {
+      return await TrendObservationModel.deleteOlderThan(new Date(Date.now() - OBSERVATION_RETENTION_DAYS * DAY_MS));
+    } catch (error) {
+      logger.error('Failed to clean up trend observations:', error);
+      throw error;
+    }
+  }
+}
@@ -1,6 +1,15 @@
-import { UserContextModel } from '@/models';
+import { SearchOptions } from '@anidhi/shared';
+import { CompetitorModel, UserContextModel } from '@/models';
+import { Competitor, CompetitorSnapshot, TrendDirection } from '@/types';
+import { CompetitorService } from '@/services/competitorService';
 import { EmbeddingService } from '@/services/embeddingService';
+import { HashtagService } from '@/services/hashtagService';
+import { IntelligenceService } from '@/services/intelligenceService';
+import { MentionService } from '@/services/mentionService';
+import { TrendService } from '@/services/trendService';
 import { logger } from '@/utils/logger';
+import { getSearchProvider } from '@/utils/searchProviders';
+import { scoreSentiment } from '@/utils/sentiment';
 
 export interface SearchResult {
   title: string;
@@ -15,7 +24,10 @@ export interface SearchResult {
 export interface TrendData {
   keyword: string;
   volume: number;
-  growth: number; // percentage change
+  growth: number; // percentage change of the 3-day average against the 3 days before
+  momentum: TrendDirection;
+  // Rising, and faster than earlier in the week
+  accelerating: boolean;
   category: string;
   relatedTerms: string[];
   timeframe: string;
@@ -34,6 +46,8 @@ export interface CompetitorInfo {
   }[];
   keyTopics: string[];
   contentFrequency: 'low' | 'moderate' | 'high';
+  // Posts seen in the last 30 days
+  recentPostCount: number;
 }
 
 export interface IndustryInsight {
@@ -47,6 +61,29 @@ export interface IndustryInsight {
   threats: string[];
 }
 
+// Results per industry-wide query that trend volumes are measured against
+const TREND_SAMPLE_SIZE = 10;
+
+// A competitor's key topics are words found in at least this many of its recent results
+const MIN_TOPIC_MENTIONS = 2;
+const MAX_KEY_TOPICS = 5;
+
+// Words too common in news coverage to say what a competitor is talking about
+const TOPIC_STOP_WORDS = new Set([
+  'about', 'after', 'also', 'announces', 'been', 'being', 'from', 'have', 'here', 'into', 'just', 'more', 'most',
+  'news', 'only', 'other', 'over', 'said', 'says', 'some', 'such', 'than', 'that', 'their', 'them', 'then',
+  'there', 'these', 'they', 'this', 'those', 'today', 'were', 'what', 'when', 'where', 'which', 'while', 'will',
+  'with', 'would', 'year', 'your',
+]);
+
+// Lowercased words of four letters or more, without punctuation or stop words
+const topicWords = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/\s+/)
+    .map(word => word.replace(/[^\w]/g, ''))
+    .filter(word => word.length > 3 && !TOPIC_STOP_WORDS.has(word));
+
 export class WebSearchService {
   
   /**
@@ -58,15 +95,28 @@ export class WebSearchService {
     searchResults: SearchResult[];
   }> {
     try {
-      // Simulate web search results (in production, this would use real APIs)
-      const searchResults = await this.performWebSearch([
-        `${industry} trends 2024`,
-        `${industry} industry insights`,
-        ...keywords.map(k => `${k} ${industry}`)
+      // Keyword queries mention their keyword by construction, so trends are
+      // measured against the industry-wide results only
+      const [industryResults, keywordResults] = await Promise.all([
+        this.performWebSearch([`${industry} trends 2024`, `${industry} industry insights`], { maxResults: TREND_SAMPLE_SIZE }),
+        this.performWebSearch(keywords.map(k => `${k} ${industry}`))
       ]);
+      const searchResults = this.mergeResults([industryResults, keywordResults]);
 
-      // Analyze trends from search results
-      const trends = await this.extractTrends(searchResults, industry);
+      // Measure each trend in the results and work out its momentum from earlier measurements
+      const measured = this.extractTrends(industryResults, searchResults, industry, keywords);
+      const momentum = await TrendService.observe(
+        userId,
+        measured.map(({ keyword, category, volume }) => ({ keyword, category, volume, industry })),
+        'web_search'
+      );
+      const trends: TrendData[] = measured.map((trend, index) => ({
+        ...trend,
+        growth: momentum[index]!.growth,
+        momentum: momentum[index]!.direction,
+        accelerating: momentum[index]!.accelerating,
+        timeframe: 'last 30 days'
+      }));
       
       // Generate industry insights
       const insights = await this.generateIndustryInsights(searchResults, industry);
@@ -88,6 +138,13 @@ export class WebSearchService {
       // Store as embeddings for semantic search
       await this.storeSearchEmbeddings(userId, searchResults, industry);
 
+      try {
+        await IntelligenceService.recordTrends(userId, trends);
+      } catch (error) {
+        logger.error('Failed to record trends:', error);
+        // Don't throw - the feed catches up on the next search
+      }
+
       logger.info(`Searched industry trends for user ${userId}, industry: ${industry}`);
       
       return { trends, insights, searchResults };
@@ -98,20 +155,35 @@ export class WebSearchService {
   }
 
   /**
-   * Monitor competitors in the industry
+   * Monitor competitors in the industry. Named competitors are added to the
+   * watchlist; without names the active watchlist is checked, or the
+   * industry leaders when the watchlist is empty. Watched competitors get a
+   * new snapshot each time.
    */
   static async monitorCompetitors(userId: string, industry: string, competitorNames: string[] = []): Promise<CompetitorInfo[]> {
     try {
       const competitors: CompetitorInfo[] = [];
 
-      // If no specific competitors provided, find industry leaders
-      const targetCompetitors = competitorNames.length > 0 
-        ? competitorNames 
-        : await this.findIndustryLeaders(industry);
+      const watchlist = competitorNames.length > 0 ? [] : await CompetitorModel.findByUserId(userId, true);
+      const targetCompetitors = competitorNames.length > 0
+        ? competitorNames.map(name => ({ name, industry, track: true }))
+        : watchlist.length > 0
+          ? watchlist.map(competitor => ({ name: competitor.name, industry: competitor.industry, track: true }))
+          : (await this.findIndustryLeaders(industry)).map(name => ({ name, industry, track: false }));
 
-      for (const competitorName of targetCompetitors) {
-        const competitorInfo = await this.analyzeCompetitor(competitorName, industry);
+      for (const target of targetCompetitors) {
+        const competitorInfo = await this.analyzeCompetitor(target.name, target.industry);
         competitors.push(competitorInfo);
+
+        if (target.track) {
+          try {
+            const competitor = await CompetitorService.track(userId, competitorInfo);
+            await CompetitorService.recordSnapshot(competitor, competitorInfo);
+          } catch (error) {
+            logger.error(`Failed to snapshot competitor ${target.name}:`, error);
+            // Don't throw - the analysis is still returned, the next run snapshots again
+          }
+        }
       }
 
       // Store competitor analysis
@@ -126,6 +198,13 @@ export class WebSearchService {
         0.7
       );
 
+      try {
+        await IntelligenceService.recordCompetitors(userId, competitors);
+      } catch (error) {
+        logger.error('Failed to record competitors:', error);
+        // Don't throw - the feed catches up on the next search
+      }
+
       logger.info(`Monitored ${competitors.length} competitors for user ${userId}`);
       
       return competitors;
@@ -135,6 +214,19 @@ export class WebSearchService {
     }
   }
 
+  /**
+   * Analyze one watched competitor now and store the result as a snapshot
+   */
+  static async snapshotCompetitor(competitor: Competitor): Promise<CompetitorSnapshot> {
+    try {
+      const competitorInfo = await this.analyzeCompetitor(competitor.name, competitor.industry);
+      return await CompetitorService.recordSnapshot(competitor, competitorInfo);
+    } catch (error) {
+      logger.error('Failed to snapshot competitor:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get trending topics for content creation
    */
@@ -164,7 +256,7 @@ export class WebSearchService {
       const contentOpportunities = await this.generateContentOpportunities(topics, industry, userInterests);
       
       // Generate relevant hashtags
-      const hashtags = await this.generateHashtags(topics, industry);
+      const hashtags = await this.generateHashtags(userId, topics, industry);
 
       // Store trending topics
       await UserContextModel.updateOrCreate(
@@ -180,6 +272,13 @@ export class WebSearchService {
         0.8
       );
 
+      try {
+        await IntelligenceService.recordOpportunities(userId, contentOpportunities);
+      } catch (error) {
+        logger.error('Failed to record opportunities:', error);
+        // Don't throw - the feed catches up on the next search
+      }
+
       logger.info(`Retrieved trending topics for user ${userId}`);
       
       return { topics, contentOpportunities, hashtags };
@@ -211,7 +310,18 @@ export class WebSearchService {
         ...keywords.map(k => `"${brandName}" ${k}`)
       ];
 
-      const mentions = await this.performWebSearch(searchQueries);
+      const mentions = (await this.performWebSearch(searchQueries)).map(mention => ({
+        ...mention,
+        sentiment: scoreSentiment(`${mention.title}. ${mention.snippet}`).label
+      }));
+
+      // Keep every mention for the sentiment series
+      try {
+        await MentionService.recordMentions(userId, brandName, keywords, mentions);
+      } catch (error) {
+        logger.error('Failed to record brand mentions:', error);
+        // Don't throw - the search results are still useful
+      }
       
       // Analyze sentiment
       const sentiment = await this.analyzeSentiment(mentions);
@@ -274,98 +384,68 @@ export class WebSearchService {
   }
 
   /**
-   * Perform web search (simulated - in production would use real APIs)
+   * Run each query through the configured search provider and merge the hits,
+   * keeping the best-ranked copy of any URL returned by several queries
    */
-  private static async performWebSearch(queries: string[]): Promise<SearchResult[]> {
-    // Simulate search results - in production, this would integrate with:
-    // - Google Custom Search API
-    // - Bing Search API
-    // - News APIs
-    // - Social media APIs
-    // - RSS feeds
-    
-    const simulatedResults: SearchResult[] = [
-      {
-        title: "AI Trends Shaping 2024: What Industry Leaders Need to Know",
-        url: "https://example.com/ai-trends-2024",
-        snippet: "Artificial intelligence continues to transform industries with new developments in machine learning, automation, and data analytics...",
-        source: "TechCrunch",
-        publishedDate: new Date('2024-01-15'),
-        relevanceScore: 0.95,
-        sentiment: 'positive'
-      },
-      {
-        title: "The Future of Remote Work: Technology Trends",
-        url: "https://example.com/remote-work-trends",
-        snippet: "Remote work technologies are evolving rapidly, with new tools for collaboration, productivity, and team management...",
-        source: "Harvard Business Review",
-        publishedDate: new Date('2024-01-10'),
-        relevanceScore: 0.88,
-        sentiment: 'neutral'
-      },
-      {
-        title: "Cybersecurity Challenges in the Digital Age",
-        url: "https://example.com/cybersecurity-challenges",
-        snippet: "As digital transformation accelerates, organizations face new cybersecurity threats and must adapt their security strategies...",
-        source: "Forbes",
-        publishedDate: new Date('2024-01-08'),
-        relevanceScore: 0.82,
-        sentiment: 'negative'
-      }
-    ];
-
-    // Add more results based on queries
-    const additionalResults = queries.flatMap(query => 
-      this.generateSimulatedResults(query)
-    );
-
-    return [...simulatedResults, ...additionalResults].slice(0, 20);
+  private static async performWebSearch(queries: string[], options: SearchOptions = {}): Promise<SearchResult[]> {
+    const provider = getSearchProvider();
+    const maxResults = options.maxResults ?? 5;
+    const hitLists = await Promise.all(queries.map(query => provider.search(query, { ...options, maxResults })));
+
+    return this.mergeResults(hitLists.map(hits => hits.map((hit, rank) => ({
+      title: hit.title,
+      url: hit.url,
+      snippet: hit.snippet,
+      source: hit.source,
+      ...(hit.publishedDate && { publishedDate: new Date(hit.publishedDate) }),
+      // Providers without scores still return hits best-first
+      relevanceScore: hit.score ?? 1 - rank / (hits.length + 1)
+    }))));
   }
 
-  private static generateSimulatedResults(query: string): SearchResult[] {
-    const topics = query.toLowerCase().split(' ');
-    const results: SearchResult[] = [];
-
-    // Generate 2-3 results per query
-    for (let i = 0; i < 3; i++) {
-      results.push({
-        title: `${topics[0].charAt(0).toUpperCase() + topics[0].slice(1)} Industry Insights ${i + 1}`,
-        url: `https://example.com/${topics[0]}-${i + 1}`,
-        snippet: `Latest developments in ${topics.join(' ')} showing significant impact on industry practices and future outlook...`,
-        source: ['Reuters', 'Bloomberg', 'Industry Weekly', 'Business Insider'][i % 4],
-        publishedDate: new Date(Date.now() - Math.random() * 30 * 24 * 60 * 60 * 1000), // Random date within last 30 days
-        relevanceScore: 0.7 + Math.random() * 0.3,
-        sentiment: ['positive', 'neutral', 'negative'][Math.floor(Math.random() * 3)] as any
-      });
+  /**
+   * Combine result lists, keeping the best scored copy of each URL
+   */
+  private static mergeResults(resultLists: SearchResult[][]): SearchResult[] {
+    const results = new Map<string, SearchResult>();
+    for (const result of resultLists.flat()) {
+      const existing = results.get(result.url);
+      if (!existing || existing.relevanceScore < result.relevanceScore) {
+        results.set(result.url, result);
+      }
     }
 
-    return results;
+    return Array.from(results.values())
+      .sort((a, b) => b.relevanceScore - a.relevanceScore)
+      .slice(0, 20);
   }
 
-  private static async extractTrends(searchResults: SearchResult[], industry: string): Promise<TrendData[]> {
-    // Analyze search results to extract trend data
-    const trends: TrendData[] = [
-      {
-        keyword: 'AI automation',
-        volume: 85000,
-        growth: 45.2,
-        category: 'Technology',
-        relatedTerms: ['machine learning', 'artificial intelligence', 'automation'],
-        timeframe: 'last 30 days',
-        sources: ['TechCrunch', 'Wired', 'MIT Technology Review']
-      },
-      {
-        keyword: 'remote collaboration',
-        volume: 62000,
-        growth: 23.8,
-        category: 'Workplace',
-        relatedTerms: ['virtual meetings', 'team productivity', 'digital workspace'],
-        timeframe: 'last 30 days',
-        sources: ['Harvard Business Review', 'Fast Company']
-      }
-    ];
-
-    return trends;
+  /**
+   * Volume is the percentage of the industry-wide sample mentioning the
+   * keyword, so it does not depend on how many results a provider returns.
+   * Related terms and sources come from every result.
+   */
+  private static extractTrends(
+    sample: SearchResult[],
+    searchResults: SearchResult[],
+    industry: string,
+    keywords: string[]
+  ): Omit<TrendData, 'growth' | 'momentum' | 'accelerating' | 'timeframe'>[] {
+    const candidates = keywords.length > 0 ? keywords : [industry];
+    const mentions = (result: SearchResult, term: string) =>
+      `${result.title} ${result.snippet}`.toLowerCase().includes(term.toLowerCase());
+
+    return candidates.map(keyword => {
+      const sampled = sample.filter(result => mentions(result, keyword)).length;
+      const matching = searchResults.filter(result => mentions(result, keyword));
+      return {
+        keyword,
+        volume: sample.length > 0 ? Math.round(sampled / sample.length * 1000) / 10 : 0,
+        category: industry,
+        relatedTerms: candidates.filter(other => other !== keyword && matching.some(result => mentions(result, other))),
+        sources: Array.from(new Set(matching.map(result => result.source))).slice(0, 5)
+      };
+    });
   }
 
   private static async generateIndustryInsights(searchResults: SearchResult[], industry: string): Promise<IndustryInsight[]> {
@@ -407,30 +487,51 @@ export class WebSearchService {
   }
 
   private static async analyzeCompetitor(competitorName: string, industry: string): Promise<CompetitorInfo> {
-    // Simulate competitor analysis
+    const recentContent = await this.performWebSearch([
+      `"${competitorName}"`,
+      `${competitorName} ${industry} news`
+    ], { category: 'news' });
+
+    // Publishing pace over the last 30 days, as seen by the search provider
+    const monthAgo = Date.now() - 30 * 24 * 60 * 60 * 1000;
+    const recentCount = recentContent.filter(result => result.publishedDate && result.publishedDate.getTime() >= monthAgo).length;
+
     return {
       name: competitorName,
       domain: `${competitorName.toLowerCase().replace(/\s+/g, '')}.com`,
       industry,
-      recentContent: [
-        {
-          title: `${competitorName} Announces New Innovation`,
-          url: `https://${competitorName.toLowerCase()}.com/news`,
-          snippet: `${competitorName} reveals latest developments in ${industry}...`,
-          source: competitorName,
-          publishedDate: new Date(),
-          relevanceScore: 0.9
-        }
-      ],
-      socialPresence: [
-        { platform: 'LinkedIn', followers: 50000, engagement: 3.2 },
-        { platform: 'Twitter', followers: 25000, engagement: 2.8 }
-      ],
-      keyTopics: ['innovation', 'technology', 'growth'],
-      contentFrequency: 'moderate'
+      recentContent: recentContent.slice(0, 5),
+      // No provider reports follower counts yet, so presence stays unknown rather than guessed
+      socialPresence: [],
+      keyTopics: this.extractKeyTopics(recentContent, competitorName, industry),
+      contentFrequency: recentCount >= 5 ? 'high' : recentCount >= 2 ? 'moderate' : 'low',
+      recentPostCount: recentCount
     };
   }
 
+  /**
+   * The words a competitor's recent coverage keeps coming back to, most
+   * widespread first. Its own name and industry don't count.
+   */
+  private static extractKeyTopics(recentContent: SearchResult[], competitorName: string, industry: string): string[] {
+    const ignored = new Set(topicWords(`${competitorName} ${industry}`));
+    const mentions = new Map<string, number>();
+    for (const result of recentContent) {
+      for (const word of new Set(topicWords(`${result.title} ${result.snippet}`))) {
+        if (!ignored.has(word)) {
+          mentions.set(word, (mentions.get(word) || 0) + 1);
+        }
+      }
+    }
+
+    const threshold = Math.min(MIN_TOPIC_MENTIONS, recentContent.length);
+    return [...mentions.entries()]
+      .filter(([, count]) => count >= threshold)
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, MAX_KEY_TOPICS)
+      .map(([word]) => word);
+  }
+
   private static async extractTrendingTopics(searchResults: SearchResult[], industry: string): Promise<string[]> {
     // Extract trending topics from search results
     return [
@@ -451,20 +552,19 @@ export class WebSearchService {
     }));
   }
 
-  private static async generateHashtags(topics: string[], industry: string): Promise<string[]> {
-    const baseHashtags = [
-      `#${industry.replace(/\s+/g, '')}`,
-      '#Innovation',
-      '#Technology',
-      '#Business',
-      '#Trends'
-    ];
-
-    const topicHashtags = topics.map(topic => 
-      `#${topic.replace(/\s+/g, '')}`
-    );
-
-    return [...baseHashtags, ...topicHashtags].slice(0, 10);
+  /**
+   * Hashtags for the trending topics from the recommendation engine, so
+   * they reflect the user's own history and brand strategy
+   */
+  private static async generateHashtags(userId: string, topics: string[], industry: string): Promise<string[]> {
+    try {
+      const { suggestions } = await HashtagService.recommend(userId, { topics: [industry, ...topics] });
+      return suggestions.map(suggestion => suggestion.tag);
+    } catch (error) {
+      logger.error('Failed to recommend hashtags for trending topics:', error);
+      // Don't throw - the topics are still useful without hashtags
+      return [];
+    }
   }
 
   private static async analyzeSentiment(mentions: SearchResult[]) {
@@ -475,7 +575,7 @@ export class WebSearchService {
       return acc;
     }, {} as any);
 
-    const total = mentions.length;
+    const total = mentions.length || 1;
     return {
       positive: Math.round((sentimentCounts.positive || 0) / total * 100),
       negative: Math.round((sentimentCounts.negative || 0) / total * 100),
@@ -509,19 +609,17 @@ export class WebSearchService {
   private static async storeSearchEmbeddings(userId: string, searchResults: SearchResult[], industry: string): Promise<void> {
     try {
       // Store search results as embeddings for semantic search
-      for (const result of searchResults.slice(0, 5)) {
-        await EmbeddingService.storeUserContext(
-          userId,
-          'web_search_result',
-          {
-            title: result.title,
-            snippet: result.snippet,
-            source: result.source,
-            industry,
-            url: result.url
-          }
-        );
-      }
+      await EmbeddingService.storeUserContexts(
+        userId,
+        'web_search_result',
+        searchResults.slice(0, 5).map(result => ({
+          title: result.title,
+          snippet: result.snippet,
+          source: result.source,
+          industry,
+          url: result.url
+        }))
+      );
     } catch (error) {
       logger.error('Failed to store search embeddings:', error);
       // Don't throw - this is not critical
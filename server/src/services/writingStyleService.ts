@@ -158,6 +158,22 @@ export class WritingStyleService {
     }
   }
 
+  /**
+   * Measure a single text the way profiles are measured, without storing
+   * anything. Used to compare a draft against the user's profile.
+   */
+  static profileText(content: string): Pick<WritingStyleProfile, 'tone' | 'formality' | 'vocabulary' | 'sentenceStructure'> {
+    const sentences = content.split(/[.!?]+/).filter(s => s.trim().length > 0);
+    const words = content.toLowerCase().split(/\s+/).filter(w => w.length > 0);
+
+    return {
+      tone: this.analyzeTone(content),
+      formality: this.analyzeFormality(content, words),
+      vocabulary: this.analyzeVocabulary(words),
+      sentenceStructure: this.analyzeSentenceStructure(sentences)
+    };
+  }
+
   /**
    * Compare writing styles between two profiles or samples
    */
@@ -410,7 +426,7 @@ export class WritingStyleService {
     casualScore += contractions.length;
 
     // Long sentences indicate formal style
-    const avgSentenceLength = words.length / (content.split(/[.!?]+/).length - 1);
+    const avgSentenceLength = words.length / Math.max(1, content.split(/[.!?]+/).filter(s => s.trim().length > 0).length);
     if (avgSentenceLength > 20) formalScore++;
     if (avgSentenceLength < 12) casualScore++;
 
@@ -0,0 +1,36 @@
+/**
+ * Notification digest email. Rendered with renderTemplate from a view of
+ * { name, count, period, groups: [{ label, notifications: [{ title, body, url }] }], appUrl, settingsUrl }.
+ */
+
+export const DIGEST_SUBJECT = 'Your {{period}} ANIDHI digest: {{count}} unread {{noun}}';
+
+export const DIGEST_TEXT = `Hi {{name}},
+
+Here is what happened since your last digest.
+
+{{#groups}}{{label}}
+{{#notifications}}- {{title}}{{#body}}: {{body}}{{/body}}
+{{#url}}  {{url}}
+{{/url}}{{/notifications}}
+{{/groups}}Open ANIDHI to catch up: {{appUrl}}
+
+You get this email {{period}}. Change it in your notification settings: {{settingsUrl}}
+`;
+
+export const DIGEST_HTML = `<div style="font-family: sans-serif; color: #111827; max-width: 600px;">
+  <p>Hi {{name}},</p>
+  <p>Here is what happened since your last digest.</p>
+  {{#groups}}<h3 style="margin-bottom: 4px;">{{label}}</h3>
+  <ul>
+    {{#notifications}}<li style="margin-bottom: 6px;">
+      {{#url}}<a href="{{url}}">{{title}}</a>{{/url}}{{^url}}<strong>{{title}}</strong>{{/url}}
+      {{#body}}<br><span style="color: #4b5563;">{{body}}</span>{{/body}}
+    </li>{{/notifications}}
+  </ul>{{/groups}}
+  <p><a href="{{appUrl}}">Open ANIDHI</a> to catch up.</p>
+  <p style="color: #6b7280; font-size: 12px;">
+    You get this email {{period}}. <a href="{{settingsUrl}}">Change your notification settings</a>.
+  </p>
+</div>
+`;
@@ -0,0 +1,33 @@
+/**
+ * Post generation prompt. Rendered with renderTemplate from a view of
+ * { topic, platform, platformGuide, count, drafts, style?, strategy?, project?, hasExamples, examples: [{ platform, text }] }.
+ */
+
+export const POST_SYSTEM = `You are a ghostwriter drafting social media posts in the author's own voice. Match their tone, phrasing and calls to action closely, and never invent facts, numbers or quotes about them.`;
+
+export const POST_PROMPT = `Write {{count}} {{platform}} {{drafts}} about: {{topic}}
+
+Platform guidance: {{platformGuide}}
+{{#style}}
+Author's voice:
+- Tone: {{style.tone}}
+- Formality: {{style.formality}}
+{{#style.commonPhrases}}- Phrases they use: {{style.commonPhrases}}
+{{/style.commonPhrases}}{{#style.callToActionStyle}}- How they close: {{style.callToActionStyle}}
+{{/style.callToActionStyle}}{{/style}}{{#strategy}}
+Brand strategy:
+{{#strategy.coreMessage}}- Core message: {{strategy.coreMessage}}
+{{/strategy.coreMessage}}{{#strategy.pillars}}- Content pillars: {{strategy.pillars}}. Tie each draft to one of them.
+{{/strategy.pillars}}{{#strategy.audience}}- Audience: {{strategy.audience}}
+{{/strategy.audience}}{{/strategy}}{{#project}}
+Project this post is for: {{project.name}}
+{{#project.description}}{{project.description}}
+{{/project.description}}{{#project.goals}}Goals: {{project.goals}}
+{{/project.goals}}{{/project}}{{#hasExamples}}
+Examples of the author's writing:
+{{#examples}}---
+[{{platform}}]
+{{text}}
+{{/examples}}---
+{{/hasExamples}}
+Vary the angle and opening of each draft. Respond with JSON: {"drafts": [{"title": "short internal title", "body": "the post text", "hashtags": ["#tag"]}]}`;
@@ -0,0 +1,26 @@
+/**
+ * Repurposing prompt. Rendered with renderTemplate from a view of
+ * { source: { platform, contentType, title?, body }, strategy?, targets: [{ platform, format, engagement?, hashtagGuide? }] }.
+ */
+
+export const REPURPOSE_SYSTEM = `You are a ghostwriter adapting the author's existing writing for other platforms. Keep their voice, argument and facts and change only the form. Never invent facts, numbers or quotes about them.`;
+
+export const REPURPOSE_PROMPT = `Adapt this {{source.platform}} {{source.contentType}} for other platforms.
+{{#source.title}}
+Title: {{source.title}}
+{{/source.title}}
+---
+{{source.body}}
+---
+{{#strategy}}
+Brand strategy:
+{{#strategy.coreMessage}}- Core message: {{strategy.coreMessage}}
+{{/strategy.coreMessage}}{{#strategy.audience}}- Audience: {{strategy.audience}}
+{{/strategy.audience}}{{/strategy}}
+Write one variant for each platform:
+{{#targets}}
+[{{platform}}] {{format}}
+{{#engagement}}- Engagement strategy: {{engagement}}
+{{/engagement}}{{#hashtagGuide}}- Hashtag guidance: {{hashtagGuide}}
+{{/hashtagGuide}}{{/targets}}
+Leave hashtags out of the body and list them separately. Respond with JSON: {"variants": [{"platform": "platform name as above", "title": "short internal title", "body": "the variant text", "hashtags": ["#tag"]}]}`;
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { PassThrough } from 'stream';
+import { UserModel, UserProfileModel, UserContextModel } from '@/models';
+import { AccountDataService } from '@/services/accountDataService';
+import { db, initializeDatabase } from '@/utils/database';
+
+describe('Account Data Service', () => {
+  let testUserId: string;
+
+  beforeAll(async () => {
+    await initializeDatabase();
+    const user = await UserModel.create({
+      email: `account-data-test-${Date.now()}@example.com`,
+      password: 'hashedpassword123',
+      name: 'Account Data Test User'
+    });
+    testUserId = user.id;
+
+    await UserProfileModel.create(testUserId);
+    await UserContextModel.create({
+      userId: testUserId,
+      contextType: 'context_box',
+      data: { content: 'I write about developer tooling.' },
+      confidence: 0.8,
+      lastUpdated: new Date(),
+      version: 1
+    });
+  });
+
+  afterAll(async () => {
+    await db.query('DELETE FROM users WHERE id = $1', [testUserId]);
+    await db.end();
+  });
+
+  it('should collect user rows without secrets', async () => {
+    const data = await AccountDataService.collectUserData(testUserId);
+
+    expect(data['user']!.length).toBe(1);
+    expect(data['user']![0].password).toBeUndefined();
+    expect(data['user_profiles']!.length).toBe(1);
+    expect(data['user_context']![0].data.content).toBe('I write about developer tooling.');
+  });
+
+  it('should write a zip archive with a manifest', async () => {
+    const output = new PassThrough();
+    const chunks: Buffer[] = [];
+    output.on('data', chunk => chunks.push(chunk));
+
+    const manifest = await AccountDataService.writeExport(testUserId, output);
+    const archive = Buffer.concat(chunks);
+
+    expect(archive.subarray(0, 2).toString()).toBe('PK');
+    expect(archive.includes('markdown/context.md')).toBe(true);
+    expect(manifest.tables['user_context']).toBe(1);
+  });
+
+  it('should erase the account and everything it owns', async () => {
+    expect(await AccountDataService.deleteAccount(testUserId)).toBe(true);
+
+    const user = await UserModel.findById(testUserId);
+    expect(user).toBeNull();
+
+    const contexts = await UserContextModel.findByUserId(testUserId);
+    expect(contexts.length).toBe(0);
+
+    expect(await AccountDataService.deleteAccount(testUserId)).toBe(false);
+  });
+});
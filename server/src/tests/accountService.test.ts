@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { UserModel } from '@/models';
+import { AccountService } from '@/services/accountService';
+import { SessionService } from '@/services/sessionService';
+import { MemoryMailTransport, setMailTransport } from '@/utils/mail';
+import { comparePassword, verifyToken } from '@/utils/auth';
+import { db, initializeDatabase } from '@/utils/database';
+
+// Pull the token out of the link in the last email sent
+const lastToken = (mail: MemoryMailTransport): string => {
+  const match = mail.sent[mail.sent.length - 1]!.text.match(/token=([^\s]+)/);
+  return decodeURIComponent(match![1]!);
+};
+
+describe('Account Service', () => {
+  let testUserId: string;
+  let mail: MemoryMailTransport;
+  const email = `account-test-${Date.now()}@example.com`;
+
+  beforeAll(async () => {
+    await initializeDatabase();
+    const user = await UserModel.create({
+      email,
+      password: 'originalpassword',
+      name: 'Account Test User'
+    });
+    testUserId = user.id;
+  });
+
+  afterAll(async () => {
+    setMailTransport(null);
+    await db.query('DELETE FROM users WHERE id = $1', [testUserId]);
+    await db.end();
+  });
+
+  beforeEach(async () => {
+    mail = new MemoryMailTransport();
+    setMailTransport(mail);
+    await db.query('DELETE FROM auth_tokens WHERE user_id = $1', [testUserId]);
+  });
+
+  it('should verify an email address once per token', async () => {
+    await AccountService.sendVerificationEmail(testUserId, email, 'Account Test User');
+    expect(mail.sent[0]!.to).toBe(email);
+
+    const token = lastToken(mail);
+    await AccountService.verifyEmail(token);
+
+    const user = await UserModel.findById(testUserId);
+    expect(user!.isVerified).toBe(true);
+
+    await expect(AccountService.verifyEmail(token)).rejects.toThrow('Invalid or expired token');
+  });
+
+  it('should invalidate older tokens when a new one is issued', async () => {
+    await AccountService.sendVerificationEmail(testUserId, email, 'Account Test User');
+    const first = lastToken(mail);
+    await AccountService.sendVerificationEmail(testUserId, email, 'Account Test User');
+
+    await expect(AccountService.verifyEmail(first)).rejects.toThrow('Invalid or expired token');
+    await AccountService.verifyEmail(lastToken(mail));
+  });
+
+  it('should reject a token issued for another purpose', async () => {
+    await AccountService.requestPasswordReset(email);
+
+    await expect(AccountService.verifyEmail(lastToken(mail))).rejects.toThrow('Invalid or expired token');
+    expect(() => verifyToken(lastToken(mail))).toThrow('Invalid token');
+  });
+
+  it('should not send mail for unknown addresses', async () => {
+    await AccountService.requestPasswordReset(`missing-${Date.now()}@example.com`);
+    expect(mail.sent.length).toBe(0);
+  });
+
+  it('should resolve a reset request when the email cannot be sent', async () => {
+    setMailTransport({
+      name: 'failing',
+      send: async () => { throw new Error('SMTP unavailable'); },
+    });
+
+    await expect(AccountService.requestPasswordReset(email)).resolves.toBeUndefined();
+  });
+
+  it('should reset the password and sign out every session', async () => {
+    await SessionService.createSession(testUserId, email);
+    await AccountService.requestPasswordReset(email);
+
+    await AccountService.resetPassword(lastToken(mail), 'newpassword123');
+
+    const user = await UserModel.findByEmail(email);
+    expect(await comparePassword('newpassword123', user!.password)).toBe(true);
+    expect(await SessionService.listSessions(testUserId)).toEqual([]);
+
+    await expect(AccountService.resetPassword(lastToken(mail), 'anotherpassword')).rejects.toThrow('Invalid or expired token');
+  });
+});
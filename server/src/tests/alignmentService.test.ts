@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { UserModel, BrandStrategyModel, UserContextModel } from '@/models';
+import { AlignmentService } from '@/services/alignmentService';
+import { ContentService } from '@/services/contentService';
+import { WritingStyleProfile } from '@/services/writingStyleService';
+import { BrandStrategy } from '@/types';
+import { FakeEmbeddingProvider, getEmbeddingProvider, setEmbeddingProvider } from '@/utils/embeddingProviders';
+import { db, initializeDatabase } from '@/utils/database';
+
+const profile = {
+  tone: 'conversational',
+  formality: 'casual',
+  vocabulary: {
+    complexity: 'moderate',
+    technicalLevel: 'basic',
+    commonWords: ['team', 'leaders', 'trust', 'listen', 'growth', 'that', 'ship'],
+    uniqueWords: []
+  },
+  sentenceStructure: { averageLength: 7, complexity: 'simple', variety: 0.4 },
+  writingPatterns: { preferredFormats: [], commonPhrases: [], transitionWords: [], callToActionStyle: [] }
+} as unknown as WritingStyleProfile;
+
+const strategy = {
+  contentPillars: ['Leadership', 'AI'],
+  targetAudience: ['Founders'],
+  voiceAndTone: { tone: 'warm', personality: [], vocabulary: 'plain', writingStyle: 'direct', bannedPhrases: ['synergy', 'game changer'] }
+} as unknown as BrandStrategy;
+
+const onBrand = 'Great leaders listen to their team. Trust drives growth. We ship AI every week.';
+
+const offBrand = 'Furthermore, the synergy across our quarterly roadmap is a game changer, consequently requiring comprehensive alignment across every stakeholder group in the organisation.';
+
+describe('Alignment Service', () => {
+  describe('scoreText', () => {
+    it('should score an on-brand draft highly with an explanation per check', () => {
+      const report = AlignmentService.scoreText(onBrand, profile, strategy);
+
+      expect(report.checks.map(check => check.dimension)).toEqual(['sentence_length', 'formality', 'vocabulary', 'pillars', 'banned_phrases']);
+      expect(report.score).toBeGreaterThanOrEqual(0.8);
+      expect(report.missing).toEqual([]);
+
+      const pillars = report.checks.find(check => check.dimension === 'pillars')!;
+      expect(pillars.score).toBe(1);
+      expect(pillars.explanation).toContain('Leadership');
+      expect(report.checks.every(check => check.explanation.length > 0)).toBe(true);
+    });
+
+    it('should penalise long formal sentences, missed pillars and banned phrases', () => {
+      const report = AlignmentService.scoreText(offBrand, profile, strategy);
+      const check = (dimension: string) => report.checks.find(entry => entry.dimension === dimension)!;
+
+      expect(report.score).toBeLessThan(0.3);
+      expect(check('sentence_length').score).toBeLessThan(0.5);
+      expect(check('formality').explanation).toContain('you usually write casual');
+      expect(check('pillars').score).toBe(0);
+      expect(check('banned_phrases').score).toBe(0);
+      expect(check('banned_phrases').explanation).toBe('Uses banned phrases: synergy, game changer');
+    });
+
+    it('should match short pillars as whole words only', () => {
+      const pillarsOnly = { ...strategy, contentPillars: ['AI'] } as BrandStrategy;
+
+      expect(AlignmentService.scoreText('Our daily standup ran long.', null, pillarsOnly).checks[0]!.score).toBe(0);
+      expect(AlignmentService.scoreText('We use AI daily.', null, pillarsOnly).checks[0]!.score).toBe(1);
+    });
+
+    it('should score only the checks it has data for', () => {
+      expect(AlignmentService.scoreText(onBrand, null, null)).toEqual({
+        score: 0,
+        checks: [],
+        missing: [
+          'Add writing samples to check sentence length, formality and vocabulary',
+          'Activate a brand strategy to check pillars and banned phrases'
+        ]
+      });
+
+      const styleOnly = AlignmentService.scoreText(onBrand, profile, null);
+      expect(styleOnly.checks).toHaveLength(3);
+      expect(styleOnly.missing).toHaveLength(1);
+    });
+  });
+
+  describe('on content save', () => {
+    let testUserId: string;
+
+    beforeAll(async () => {
+      await initializeDatabase();
+      setEmbeddingProvider(new FakeEmbeddingProvider(getEmbeddingProvider().dimensions));
+
+      const user = await UserModel.create({
+        email: `alignment-test-${Date.now()}@example.com`,
+        password: 'hashedpassword123',
+        name: 'Alignment Test User'
+      });
+      testUserId = user.id;
+    });
+
+    afterAll(async () => {
+      setEmbeddingProvider(null);
+      await db.query('DELETE FROM users WHERE id = $1', [testUserId]);
+      await db.end();
+    });
+
+    beforeEach(async () => {
+      await db.query('DELETE FROM content WHERE user_id = $1', [testUserId]);
+      await db.query('DELETE FROM brand_strategy WHERE user_id = $1', [testUserId]);
+      await db.query('DELETE FROM user_context WHERE user_id = $1', [testUserId]);
+    });
+
+    it('should fill brandAlignment when content is created and when its text changes', async () => {
+      await UserContextModel.updateOrCreate(testUserId, 'writing_style', profile as unknown as Record<string, any>, 0.8);
+      await BrandStrategyModel.create({ ...strategy, userId: testUserId, isActive: true });
+
+      const content = await ContentService.createContent(testUserId, {
+        platform: 'linkedin',
+        contentType: 'post',
+        body: onBrand,
+        tags: [],
+        brandAlignment: 0,
+        performanceScore: 0,
+        status: 'draft'
+      });
+      expect(content.brandAlignment).toBe(AlignmentService.scoreText(onBrand, profile, strategy).score);
+
+      const retitled = await ContentService.updateContent(content, { status: 'published' });
+      expect(retitled!.brandAlignment).toBe(content.brandAlignment);
+
+      const rewritten = await ContentService.updateContent(content, { body: offBrand });
+      expect(rewritten!.brandAlignment).toBeLessThan(content.brandAlignment);
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { FixtureSearchProvider } from '@anidhi/shared';
+import { UserModel, CompetitorModel, CompetitorSnapshotModel } from '@/models';
+import { CompetitorService } from '@/services/competitorService';
+import { WebSearchService } from '@/services/webSearchService';
+import { CompetitorSnapshot } from '@/types';
+import { db, initializeDatabase } from '@/utils/database';
+import { FakeEmbeddingProvider, getEmbeddingProvider, setEmbeddingProvider } from '@/utils/embeddingProviders';
+import { setSearchProvider } from '@/utils/searchProviders';
+
+describe('Competitor Service', () => {
+  let testUserId: string;
+
+  const snapshot = (overrides: Partial<CompetitorSnapshot>): CompetitorSnapshot => ({
+    id: 'snapshot',
+    competitorId: 'competitor',
+    keyTopics: [],
+    contentFrequency: 'low',
+    recentPostCount: 0,
+    socialPresence: [],
+    recentContent: [],
+    capturedAt: new Date(),
+    ...overrides
+  });
+
+  beforeAll(async () => {
+    await initializeDatabase();
+    setEmbeddingProvider(new FakeEmbeddingProvider(getEmbeddingProvider().dimensions));
+    setSearchProvider(new FixtureSearchProvider());
+
+    const user = await UserModel.create({
+      email: `competitor-test-${Date.now()}@example.com`,
+      password: 'hashedpassword123',
+      name: 'Competitor Test User'
+    });
+    testUserId = user.id;
+  });
+
+  afterAll(async () => {
+    setEmbeddingProvider(null);
+    setSearchProvider(null);
+    await db.query('DELETE FROM users WHERE id = $1', [testUserId]);
+    await db.end();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM competitors WHERE user_id = $1', [testUserId]);
+    await db.query("DELETE FROM vector_documents WHERE user_id = $1 AND document_type = 'competitor'", [testUserId]);
+  });
+
+  it('should describe topic, frequency, platform and content changes', () => {
+    const from = snapshot({
+      id: 'week-ago',
+      keyTopics: ['Hiring', 'AI'],
+      contentFrequency: 'moderate',
+      recentPostCount: 3,
+      socialPresence: [{ platform: 'LinkedIn', followers: 50000, engagement: 3.2 }, { platform: 'Twitter', followers: 25000 }],
+      recentContent: [{ title: 'Old post', url: 'https://acme.example.com/old' }]
+    });
+    const to = snapshot({
+      id: 'today',
+      keyTopics: ['ai', 'Pricing'],
+      contentFrequency: 'high',
+      recentPostCount: 7,
+      socialPresence: [{ platform: 'LinkedIn', followers: 52000, engagement: 3.2 }, { platform: 'YouTube', followers: 1000 }],
+      recentContent: [
+        { title: 'Old post', url: 'https://acme.example.com/old' },
+        { title: 'New pricing', url: 'https://acme.example.com/pricing' }
+      ]
+    });
+
+    expect(CompetitorService.diffSnapshots(from, to)).toMatchObject({
+      fromId: 'week-ago',
+      toId: 'today',
+      topicsAdded: ['Pricing'],
+      topicsRemoved: ['Hiring'],
+      contentFrequency: { before: 'moderate', after: 'high' },
+      recentPostCount: { before: 3, after: 7 },
+      platformsAdded: ['YouTube'],
+      platformsRemoved: ['Twitter'],
+      platformChanges: [{ platform: 'LinkedIn', followersBefore: 50000, followersAfter: 52000, engagementBefore: 3.2, engagementAfter: 3.2 }],
+      newContent: [{ title: 'New pricing', url: 'https://acme.example.com/pricing' }]
+    });
+
+    const unchanged = CompetitorService.diffSnapshots(to, to);
+    expect(unchanged.contentFrequency).toBeNull();
+    expect(unchanged.topicsAdded).toEqual([]);
+    expect(unchanged.platformChanges).toEqual([]);
+    expect(unchanged.newContent).toEqual([]);
+  });
+
+  it('should keep one watchlist entry per name, ignoring case', async () => {
+    await CompetitorService.addCompetitor(testUserId, { name: 'Acme', industry: 'fintech' });
+    await expect(CompetitorService.addCompetitor(testUserId, { name: ' acme ', industry: 'fintech' })).rejects.toMatchObject({ statusCode: 409 });
+
+    const tracked = await CompetitorService.track(testUserId, { name: 'ACME', industry: 'fintech', domain: 'acme.com' });
+    expect(tracked.name).toBe('Acme');
+    expect(await CompetitorModel.findByUserId(testUserId)).toHaveLength(1);
+  });
+
+  it('should diff the latest snapshot against the one from a week ago', async () => {
+    const competitor = await CompetitorService.addCompetitor(testUserId, { name: 'Acme', industry: 'fintech' });
+
+    const weekAgo = await CompetitorSnapshotModel.create({
+      competitorId: competitor.id,
+      keyTopics: ['hiring'],
+      contentFrequency: 'low',
+      recentPostCount: 1,
+      socialPresence: [],
+      recentContent: []
+    });
+    await db.query("UPDATE competitor_snapshots SET captured_at = CURRENT_TIMESTAMP - INTERVAL '8 days' WHERE id = $1", [weekAgo.id]);
+
+    const yesterday = await CompetitorSnapshotModel.create({
+      competitorId: competitor.id,
+      keyTopics: ['hiring', 'ai'],
+      contentFrequency: 'moderate',
+      recentPostCount: 3,
+      socialPresence: [],
+      recentContent: []
+    });
+    await db.query("UPDATE competitor_snapshots SET captured_at = CURRENT_TIMESTAMP - INTERVAL '1 day' WHERE id = $1", [yesterday.id]);
+
+    const latest = await WebSearchService.snapshotCompetitor((await CompetitorModel.findById(competitor.id))!);
+
+    const diff = await CompetitorService.getDiff(competitor);
+    expect(diff.fromId).toBe(weekAgo.id);
+    expect(diff.toId).toBe(latest.id);
+    expect(diff.topicsRemoved).toEqual(['hiring']);
+
+    const sinceYesterday = await CompetitorService.getDiff(competitor, new Date(Date.now() - 12 * 60 * 60 * 1000));
+    expect(sinceYesterday.fromId).toBe(yesterday.id);
+
+    const updated = await CompetitorModel.findById(competitor.id);
+    expect(updated!.lastSnapshotAt).toBeInstanceOf(Date);
+    expect(updated!.vectorDocumentId).toBeTruthy();
+  });
+
+  it('should take key topics from the recent content of each snapshot', async () => {
+    const competitor = await CompetitorService.addCompetitor(testUserId, { name: 'Acme', industry: 'fintech' });
+    const hit = (title: string, snippet: string) =>
+      ({ title, url: `https://news.example.com/${title.toLowerCase().replace(/\s+/g, '-')}`, snippet, source: 'news.example.com' });
+
+    setSearchProvider(new FixtureSearchProvider({
+      '"Acme"': [hit('Acme is hiring engineers', 'The hiring spree continues'), hit('Acme hiring in Berlin', 'Engineers wanted')]
+    }));
+    const before = await WebSearchService.snapshotCompetitor(competitor);
+
+    setSearchProvider(new FixtureSearchProvider({
+      '"Acme"': [hit('Acme raises pricing', 'New pricing tiers'), hit('Acme pricing backlash', 'Customers react to the pricing')]
+    }));
+    const after = await WebSearchService.snapshotCompetitor((await CompetitorModel.findById(competitor.id))!);
+    setSearchProvider(new FixtureSearchProvider());
+
+    expect(before.keyTopics).toEqual(['hiring', 'engineers']);
+    expect(before.socialPresence).toEqual([]);
+
+    const diff = CompetitorService.diffSnapshots(before, after);
+    expect(diff.topicsAdded).toEqual(['pricing']);
+    expect(diff.topicsRemoved).toEqual(['hiring', 'engineers']);
+  });
+
+  it('should re-embed a competitor in place on each snapshot', async () => {
+    const competitor = await CompetitorService.addCompetitor(testUserId, { name: 'Acme', industry: 'fintech' });
+
+    await WebSearchService.snapshotCompetitor(competitor);
+    const first = await CompetitorModel.findById(competitor.id);
+    await WebSearchService.snapshotCompetitor(first!);
+    const second = await CompetitorModel.findById(competitor.id);
+
+    expect(first!.vectorDocumentId).toBeTruthy();
+    expect(second!.vectorDocumentId).toBe(first!.vectorDocumentId);
+
+    const documents = await db.query("SELECT id FROM vector_documents WHERE user_id = $1 AND document_type = 'competitor'", [testUserId]);
+    expect(documents.rows).toHaveLength(1);
+  });
+
+  it('should refuse a diff before the first snapshot', async () => {
+    const competitor = await CompetitorService.addCompetitor(testUserId, { name: 'Acme', industry: 'fintech' });
+    await expect(CompetitorService.getDiff(competitor)).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from '@jest/globals';
+import { nextCronRun, parseCron, validateCron } from '@/utils/cron';
+
+describe('Cron', () => {
+  const at = (iso: string) => new Date(iso);
+
+  it('should find the next matching minute in UTC', () => {
+    expect(nextCronRun('*/15 * * * *', at('2026-10-19T08:07:30Z'))).toEqual(at('2026-10-19T08:15:00Z'));
+    expect(nextCronRun('0 8 * * *', at('2026-10-19T08:00:00Z'))).toEqual(at('2026-10-20T08:00:00Z'));
+    expect(nextCronRun('30 9 1 * *', at('2026-12-15T00:00:00Z'))).toEqual(at('2027-01-01T09:30:00Z'));
+  });
+
+  it('should support lists, ranges, steps and aliases', () => {
+    // 2026-10-23 is a Friday
+    expect(nextCronRun('0 8 * * 1-5', at('2026-10-23T09:00:00Z'))).toEqual(at('2026-10-26T08:00:00Z'));
+    expect(nextCronRun('0 6,18 * * *', at('2026-10-19T07:00:00Z'))).toEqual(at('2026-10-19T18:00:00Z'));
+    expect(nextCronRun('0 1-23/6 * * *', at('2026-10-19T02:00:00Z'))).toEqual(at('2026-10-19T07:00:00Z'));
+    expect(nextCronRun('@weekly', at('2026-10-19T00:00:00Z'))).toEqual(at('2026-10-25T00:00:00Z'));
+    expect(nextCronRun('0 0 * * 7', at('2026-10-19T00:00:00Z'))).toEqual(at('2026-10-25T00:00:00Z'));
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // The 1st of the month or any Monday
+    expect(nextCronRun('0 0 1 * 1', at('2026-10-20T00:00:00Z'))).toEqual(at('2026-10-26T00:00:00Z'));
+    expect(nextCronRun('0 0 1 * 1', at('2026-10-27T00:00:00Z'))).toEqual(at('2026-11-01T00:00:00Z'));
+  });
+
+  it('should reject invalid expressions with a readable message', () => {
+    expect(() => parseCron('* * * *')).toThrow('5 fields');
+    expect(validateCron('60 * * * *')).toContain('minute');
+    expect(validateCron('0 0 31 2 *')).toContain('never matches');
+    expect(validateCron('*/0 * * * *')).toContain('step');
+    expect(validateCron('')).toBe('cron must be a non-empty string');
+    expect(validateCron('0 */2 * * *')).toBeNull();
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  createEmbeddingProvider,
+  FakeEmbeddingProvider,
+  LocalHashingEmbeddingProvider,
+  OpenAIEmbeddingProvider
+} from '@/utils/embeddingProviders';
+
+const cosine = (a: number[], b: number[]) =>
+  a.reduce((sum, value, i) => sum + value * b[i]!, 0);
+
+describe('Embedding Providers', () => {
+  describe('LocalHashingEmbeddingProvider', () => {
+    const provider = new LocalHashingEmbeddingProvider(256);
+
+    it('should return normalized vectors of the configured size', async () => {
+      const [embedding] = await provider.embed(['Leadership lessons from shipping software']);
+      expect(embedding).toHaveLength(256);
+      expect(cosine(embedding!, embedding!)).toBeCloseTo(1, 5);
+    });
+
+    it('should be deterministic', async () => {
+      const [first] = await provider.embed(['Same text every time']);
+      const [second] = await provider.embed(['Same text every time']);
+      expect(first).toEqual(second);
+    });
+
+    it('should place texts with shared vocabulary closer together', async () => {
+      const [query, related, unrelated] = await provider.embed([
+        'machine learning for marketing teams',
+        'how marketing teams adopt machine learning',
+        'sourdough bread baking schedule'
+      ]);
+
+      expect(cosine(query!, related!)).toBeGreaterThan(cosine(query!, unrelated!));
+    });
+
+    it('should not return a zero vector for empty text', async () => {
+      const [embedding] = await provider.embed(['']);
+      expect(embedding!.some(value => value !== 0)).toBe(true);
+    });
+  });
+
+  describe('FakeEmbeddingProvider', () => {
+    it('should record calls and honour pinned vectors', async () => {
+      const pinned = [1, 0, 0];
+      const provider = new FakeEmbeddingProvider(3, { pinned });
+
+      const embeddings = await provider.embed(['pinned', 'other']);
+
+      expect(embeddings[0]).toEqual(pinned);
+      expect(embeddings[1]).toHaveLength(3);
+      expect(provider.calls).toEqual([['pinned', 'other']]);
+    });
+  });
+
+  describe('createEmbeddingProvider', () => {
+    it('should select the provider and dimensions from config', () => {
+      const local = createEmbeddingProvider({ provider: 'local', dimensions: 384 });
+      expect(local).toBeInstanceOf(LocalHashingEmbeddingProvider);
+      expect(local.dimensions).toBe(384);
+
+      const fake = createEmbeddingProvider({ provider: 'fake' });
+      expect(fake).toBeInstanceOf(FakeEmbeddingProvider);
+    });
+
+    it('should use OpenAI only when an API key is available', () => {
+      expect(createEmbeddingProvider({ apiKey: 'sk-test' })).toBeInstanceOf(OpenAIEmbeddingProvider);
+      expect(createEmbeddingProvider({ apiKey: '' })).toBeInstanceOf(LocalHashingEmbeddingProvider);
+    });
+  });
+});
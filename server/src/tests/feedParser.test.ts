@@ -0,0 +1,98 @@
+import { describe, it, expect } from '@jest/globals';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parseFeed } from '@anidhi/shared';
+
+const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures', 'feeds', name), 'utf8');
+
+describe('Feed Parser', () => {
+  it('should parse RSS 2.0 with CDATA, content:encoded and relative links', () => {
+    const feed = parseFeed(fixture('rss2.xml'));
+
+    expect(feed.format).toBe('rss');
+    expect(feed.title).toBe('Engineering Leadership Weekly');
+    expect(feed.siteUrl).toBe('https://leadership.example.com/');
+    expect(feed.entries).toHaveLength(3);
+
+    const [first, second, third] = feed.entries;
+    expect(first).toMatchObject({
+      guid: 'post-101',
+      title: 'Hiring your first staff engineer',
+      url: 'https://leadership.example.com/posts/first-staff-engineer',
+      summary: 'When the team passes twenty engineers…',
+      content: 'When the team passes twenty engineers, the tech lead role splits.',
+      author: 'Sam Rivera'
+    });
+    expect(first!.publishedAt).toEqual(new Date('2026-10-12T09:30:00Z'));
+
+    // Without a guid the link identifies the entry
+    expect(second!.guid).toBe('https://leadership.example.com/posts/incident-reviews');
+    expect(second!.publishedAt).toEqual(new Date('2026-10-09T12:00:00Z'));
+
+    // Without either, a hash of title and date does
+    expect(third!.guid).toMatch(/^sha256:[0-9a-f]{64}$/);
+    expect(parseFeed(fixture('rss2.xml')).entries[2]!.guid).toBe(third!.guid);
+  });
+
+  it('should parse RSS 1.0 (RDF)', () => {
+    const feed = parseFeed(fixture('rss1.rdf'));
+
+    expect(feed.format).toBe('rss');
+    expect(feed.title).toBe('Research Digest');
+    expect(feed.entries).toEqual([{
+      guid: 'https://research.example.org/papers/42',
+      title: 'Measuring developer productivity',
+      url: 'https://research.example.org/papers/42',
+      summary: 'A survey of 300 teams.',
+      publishedAt: new Date('2026-10-05T08:00:00Z')
+    }]);
+  });
+
+  it('should parse Atom with alternate links, XHTML content and feed-level authors', () => {
+    const feed = parseFeed(fixture('atom.xml'));
+
+    expect(feed.format).toBe('atom');
+    expect(feed.title).toBe('Product & Design Notes');
+    expect(feed.siteUrl).toBe('https://design.example.net/');
+
+    const [first, second] = feed.entries;
+    expect(first).toMatchObject({
+      guid: 'tag:design.example.net,2026:design-reviews',
+      url: 'https://design.example.net/2026/10/design-reviews',
+      summary: 'Async first, meetings second.',
+      content: 'Async first, meetings second.',
+      author: 'Priya Shah'
+    });
+    expect(first!.publishedAt).toEqual(new Date('2026-10-14T18:30:02Z'));
+
+    // Entries without <published> fall back to <updated>
+    expect(second!.author).toBe('Lee Park');
+    expect(second!.publishedAt).toEqual(new Date('2026-09-30T10:00:00Z'));
+  });
+
+  it('should parse JSON Feed 1.1', () => {
+    const feed = parseFeed(fixture('feed.json'));
+
+    expect(feed.format).toBe('json');
+    expect(feed.title).toBe('Indie Founder Log');
+
+    const [first, second] = feed.entries;
+    expect(first).toMatchObject({
+      guid: '2026-10-16-pricing',
+      title: 'Three pricing experiments',
+      summary: 'We tried usage-based pricing first.',
+      author: 'Alex Kim'
+    });
+    expect(second).toMatchObject({
+      guid: '7',
+      url: 'https://founder.example.io/links/newsletter-growth',
+      author: 'Guest Writer'
+    });
+  });
+
+  it('should reject documents that are not feeds', () => {
+    expect(() => parseFeed('<html><body>Not a feed</body></html>')).toThrow('not an RSS, Atom or JSON feed');
+    expect(() => parseFeed('{"items": []}')).toThrow('not a JSON Feed');
+    expect(() => parseFeed('{broken')).toThrow('not valid JSON');
+  });
+});
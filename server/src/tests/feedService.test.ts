@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { readFileSync } from 'fs';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { join } from 'path';
+import { UserModel, FeedSubscriptionModel } from '@/models';
+import { FeedService } from '@/services/feedService';
+import { db, initializeDatabase } from '@/utils/database';
+import { FakeEmbeddingProvider, getEmbeddingProvider, setEmbeddingProvider } from '@/utils/embeddingProviders';
+
+const RSS_FIXTURE = readFileSync(join(__dirname, 'fixtures', 'feeds', 'rss2.xml'), 'utf8');
+const ETAG = '"rss-v1"';
+
+describe('Feed Service', () => {
+  let testUserId: string;
+  let server: Server;
+  let feedUrl: string;
+  let body = RSS_FIXTURE;
+  let requests: { ifNoneMatch?: string }[] = [];
+
+  beforeAll(async () => {
+    await initializeDatabase();
+    setEmbeddingProvider(new FakeEmbeddingProvider(getEmbeddingProvider().dimensions));
+
+    const user = await UserModel.create({
+      email: `feed-test-${Date.now()}@example.com`,
+      password: 'hashedpassword123',
+      name: 'Feed Test User'
+    });
+    testUserId = user.id;
+
+    server = createServer((req, res) => {
+      requests.push({ ...(req.headers['if-none-match'] && { ifNoneMatch: req.headers['if-none-match'] }) });
+
+      if (req.url === '/broken.xml') {
+        res.statusCode = 500;
+        return res.end();
+      }
+      if (req.headers['if-none-match'] === ETAG && body === RSS_FIXTURE) {
+        res.statusCode = 304;
+        return res.end();
+      }
+
+      res.setHeader('Content-Type', 'application/rss+xml');
+      res.setHeader('ETag', body === RSS_FIXTURE ? ETAG : '"rss-v2"');
+      return res.end(body);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    feedUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/feed.xml`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    setEmbeddingProvider(null);
+    await db.query('DELETE FROM users WHERE id = $1', [testUserId]);
+    await db.end();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM feed_subscriptions WHERE user_id = $1', [testUserId]);
+    await db.query('DELETE FROM intelligence_data WHERE user_id = $1', [testUserId]);
+    body = RSS_FIXTURE;
+    requests = [];
+  });
+
+  it('should ingest entries as intelligence items when subscribing', async () => {
+    const { subscription, items } = await FeedService.subscribe(testUserId, feedUrl);
+
+    expect(subscription.title).toBe('Engineering Leadership Weekly');
+    expect(subscription.format).toBe('rss');
+    expect(subscription.etag).toBe(ETAG);
+    expect(items).toHaveLength(3);
+    expect(items.every(item => item.type === 'news' && item.source === 'feed')).toBe(true);
+    expect(items.map(item => item.data['title'])).toContain('Hiring your first staff engineer');
+  });
+
+  it('should send the stored ETag and skip unchanged feeds', async () => {
+    const { subscription } = await FeedService.subscribe(testUserId, feedUrl);
+
+    const result = await FeedService.poll(subscription);
+
+    expect(requests.at(-1)!.ifNoneMatch).toBe(ETAG);
+    expect(result.notModified).toBe(true);
+    expect(result.items).toEqual([]);
+  });
+
+  it('should only ingest entries it has not seen, by GUID or URL', async () => {
+    const { subscription } = await FeedService.subscribe(testUserId, feedUrl);
+
+    // Same URL under a new GUID, plus one genuinely new entry
+    body = RSS_FIXTURE.replace('<item>', `
+      <item>
+        <title>Brand new post</title>
+        <link>https://leadership.example.com/posts/brand-new</link>
+      </item>
+      <item>
+        <title>Running better incident reviews (updated)</title>
+        <link>https://leadership.example.com/posts/incident-reviews</link>
+        <guid>incident-reviews-v2</guid>
+      </item>
+      <item>`);
+
+    const result = await FeedService.poll(subscription);
+
+    expect(result.notModified).toBe(false);
+    expect(result.items.map(item => item.data['title'])).toEqual(['Brand new post']);
+    expect(result.subscription.etag).toBe('"rss-v2"');
+  });
+
+  it('should reject URLs that are not feeds', async () => {
+    await expect(FeedService.subscribe(testUserId, 'ftp://example.com/feed')).rejects.toMatchObject({ statusCode: 400 });
+    await expect(FeedService.subscribe(testUserId, feedUrl.replace('feed.xml', 'broken.xml'))).rejects.toMatchObject({ statusCode: 422 });
+    expect(await FeedSubscriptionModel.findByUserId(testUserId)).toEqual([]);
+  });
+
+  it('should record failures and pause a feed after repeated errors', async () => {
+    const { subscription } = await FeedService.subscribe(testUserId, feedUrl);
+    await db.query('UPDATE feed_subscriptions SET url = $2 WHERE id = $1', [subscription.id, feedUrl.replace('feed.xml', 'broken.xml')]);
+    let current = (await FeedSubscriptionModel.findById(subscription.id))!;
+
+    for (let i = 0; i < 5; i++) {
+      await expect(FeedService.poll(current)).rejects.toMatchObject({ statusCode: 422 });
+      current = (await FeedSubscriptionModel.findById(subscription.id))!;
+    }
+
+    expect(current.errorCount).toBe(5);
+    expect(current.lastError).toContain('500');
+    expect(current.isActive).toBe(false);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { UserModel, BrandStrategyModel, ContentModel, ProjectModel, UserContextModel } from '@/models';
+import { ContentService } from '@/services/contentService';
+import { GenerationService } from '@/services/generationService';
+import { FakeEmbeddingProvider, getEmbeddingProvider, setEmbeddingProvider } from '@/utils/embeddingProviders';
+import { FakeLlmProvider, setLlmProvider } from '@/utils/llmProviders';
+import { db, initializeDatabase } from '@/utils/database';
+
+describe('Generation Service', () => {
+  let testUserId: string;
+  let provider: FakeLlmProvider;
+
+  const drafts = JSON.stringify({
+    drafts: [
+      { title: 'Agents in the pipeline', body: 'Here is the thing: agents qualify leads while you sleep. What do you think?', hashtags: ['#AI', '#sales', '#AI'] },
+      { title: 'Empty', body: '   ' },
+      { body: 'Three lessons from shipping agents to sales teams.', hashtags: ['#ai'] }
+    ]
+  });
+
+  beforeAll(async () => {
+    await initializeDatabase();
+    setEmbeddingProvider(new FakeEmbeddingProvider(getEmbeddingProvider().dimensions));
+
+    const user = await UserModel.create({
+      email: `generation-test-${Date.now()}@example.com`,
+      password: 'hashedpassword123',
+      name: 'Generation Test User'
+    });
+    testUserId = user.id;
+  });
+
+  afterAll(async () => {
+    setLlmProvider(null);
+    setEmbeddingProvider(null);
+    await db.query('DELETE FROM users WHERE id = $1', [testUserId]);
+    await db.end();
+  });
+
+  beforeEach(async () => {
+    provider = new FakeLlmProvider(drafts);
+    setLlmProvider(provider);
+
+    await db.query('DELETE FROM content WHERE user_id = $1', [testUserId]);
+    await db.query('DELETE FROM vector_documents WHERE user_id = $1', [testUserId]);
+    await db.query('DELETE FROM brand_strategy WHERE user_id = $1', [testUserId]);
+    await db.query('DELETE FROM user_context WHERE user_id = $1', [testUserId]);
+    await db.query('DELETE FROM projects WHERE user_id = $1', [testUserId]);
+  });
+
+  it('should condition the prompt on style, pillars and past posts', async () => {
+    await UserContextModel.updateOrCreate(testUserId, 'writing_style', {
+      tone: 'confident',
+      formality: 'casual',
+      writingPatterns: {
+        preferredFormats: [],
+        commonPhrases: ['here is the thing'],
+        transitionWords: [],
+        callToActionStyle: ['What do you think?']
+      }
+    }, 0.8);
+    await BrandStrategyModel.create({
+      userId: testUserId,
+      coreMessage: 'Practical AI for revenue teams',
+      targetAudience: ['Sales leaders'],
+      contentPillars: ['AI in sales', 'Team building'],
+      voiceAndTone: { tone: 'confident', personality: [], vocabulary: 'plain', writingStyle: 'direct' },
+      platformStrategy: {},
+      isActive: true
+    });
+    await ContentService.createContent(testUserId, {
+      platform: 'linkedin',
+      contentType: 'post',
+      body: 'We put AI agents in front of our sales pipeline and learned three things.',
+      tags: ['ai'],
+      brandAlignment: 0,
+      performanceScore: 0,
+      status: 'published'
+    });
+
+    const result = await GenerationService.generatePost(testUserId, { topic: 'AI agents in sales', platform: 'linkedin', count: 3 });
+
+    const prompt = provider.calls[0]!.messages.map(message => message.content).join('\n');
+    expect(provider.calls[0]!.json).toBe(true);
+    expect(prompt).toContain('Tone: confident');
+    expect(prompt).toContain('here is the thing');
+    expect(prompt).toContain('What do you think?');
+    expect(prompt).toContain('AI in sales, Team building');
+    expect(prompt).toContain('We put AI agents in front of our sales pipeline');
+    expect(result.context).toEqual({ styleProfile: true, pillars: ['AI in sales', 'Team building'], examples: 1 });
+  });
+
+  it('should save non-empty drafts as draft content with their hashtags as tags', async () => {
+    const result = await GenerationService.generatePost(testUserId, { topic: 'AI agents in sales', platform: 'instagram' });
+
+    expect(result.drafts).toHaveLength(2);
+    expect(result.drafts[0]).toMatchObject({
+      title: 'Agents in the pipeline',
+      platform: 'instagram',
+      contentType: 'caption',
+      status: 'draft',
+      tags: ['AI', 'sales']
+    });
+    expect(result.drafts[1]!.title).toBeNull();
+    expect(result.context).toEqual({ styleProfile: false, pillars: [], examples: 0 });
+
+    const saved = await ContentModel.findByStatus(testUserId, 'draft');
+    expect(saved).toHaveLength(2);
+  });
+
+  it('should link drafts to the project', async () => {
+    const project = await ProjectModel.create({
+      userId: testUserId,
+      name: 'Agent launch',
+      type: 'custom',
+      goals: ['Book demos'],
+      status: 'active',
+      context: {}
+    });
+
+    const result = await GenerationService.generatePost(testUserId, { topic: 'Launch week', platform: 'twitter', count: 1, project });
+
+    expect(provider.calls[0]!.messages[1]!.content).toContain('Project this post is for: Agent launch');
+    expect(result.drafts).toHaveLength(1);
+    expect(result.context.projectId).toBe(project.id);
+
+    const linked = await ProjectModel.findLinkedContent(project.id);
+    expect(linked.map(content => content.id)).toEqual([result.drafts[0]!.id]);
+  });
+
+  it('should fail when the model returns no drafts', async () => {
+    setLlmProvider(new FakeLlmProvider('{"drafts": []}'));
+
+    await expect(GenerationService.generatePost(testUserId, { topic: 'Nothing', platform: 'blog' }))
+      .rejects.toThrow('did not return any drafts');
+  });
+});
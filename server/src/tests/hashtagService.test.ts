@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { UserModel, BrandStrategyModel, ContentModel } from '@/models';
+import { HashtagService, HASHTAG_LIMITS } from '@/services/hashtagService';
+import { IntelligenceService } from '@/services/intelligenceService';
+import { db, initializeDatabase } from '@/utils/database';
+import { toHashtag } from '@/utils/hashtags';
+import { BrandStrategy, Content, IntelligenceData } from '@/types';
+
+const post = (tags: string[], performanceScore: number, platform: string = 'linkedin') =>
+  ({ platform, tags, performanceScore, status: 'published' }) as Content;
+
+const trend = (keyword: string, growth: number, accelerating: boolean = false) =>
+  ({ data: { keyword, growth, accelerating }, relevanceScore: growth / 100, status: 'new' }) as unknown as IntelligenceData;
+
+const strategy = (hashtagStrategy: string[]) =>
+  ({
+    platformStrategy: {
+      linkedin: { active: true, postingFrequency: '', contentTypes: [], hashtagStrategy, engagementStrategy: '' }
+    }
+  }) as unknown as BrandStrategy;
+
+describe('toHashtag', () => {
+  it('should keep single words and join phrases in PascalCase', () => {
+    expect(toHashtag('#Leadership')).toBe('#Leadership');
+    expect(toHashtag('ai')).toBe('#ai');
+    expect(toHashtag('AI agents')).toBe('#AIAgents');
+    expect(toHashtag('machine-learning ops')).toBe('#MachineLearningOps');
+    expect(toHashtag(' # ')).toBe('');
+  });
+});
+
+describe('HashtagService.rank', () => {
+  it('should combine strategy, history, trends and topics with a reason per signal', () => {
+    const ranked = HashtagService.rank({
+      platform: 'linkedin',
+      topics: ['AI agents in sales'],
+      posts: [post(['leadership', 'AI'], 0.8), post(['ai'], 0.6), post(['AI'], 0.7)],
+      trends: [trend('AI agents', 60, true)],
+      strategy: strategy(['#Leadership', 'a few niche tags'])
+    });
+
+    const leadership = ranked.find(suggestion => suggestion.tag === '#Leadership')!;
+    expect(ranked[0]).toBe(leadership);
+    expect(leadership.signals).toEqual(['strategy', 'history']);
+    expect(leadership.reasons[0]).toBe('In your LinkedIn hashtag strategy');
+
+    const ai = ranked.find(suggestion => suggestion.tag === '#AI')!;
+    expect(ai.signals).toEqual(['history', 'topic']);
+    expect(ai.reasons[0]).toContain('Used on 3 of your published posts');
+
+    expect(ranked.find(suggestion => suggestion.tag === '#AIAgents')!.reasons).toEqual(['Trending with 60% growth and accelerating']);
+    expect(ranked.some(suggestion => suggestion.tag === '#AIAgentsInSales')).toBe(false);
+    expect(ranked.some(suggestion => suggestion.tag.includes('niche'))).toBe(false);
+  });
+
+  it('should rank tags from better performing posts higher', () => {
+    const ranked = HashtagService.rank({
+      topics: [],
+      posts: [post(['growth'], 0.9), post(['growth'], 0.8), post(['filler'], 0.1), post(['filler'], 0.2)],
+      trends: [],
+      strategy: null
+    });
+
+    expect(ranked.map(suggestion => suggestion.tag)).toEqual(['#growth', '#filler']);
+    expect(ranked[0]!.score).toBeGreaterThan(ranked[1]!.score);
+  });
+
+  it('should discount trends unrelated to the topics', () => {
+    const ranked = HashtagService.rank({
+      topics: ['sales'],
+      posts: [],
+      trends: [trend('sales automation', 50), trend('quantum computing', 50)],
+      strategy: null
+    });
+
+    const onTopic = ranked.find(suggestion => suggestion.tag === '#SalesAutomation')!;
+    const offTopic = ranked.find(suggestion => suggestion.tag === '#QuantumComputing')!;
+    expect(onTopic.score).toBeGreaterThan(offTopic.score);
+    expect(offTopic.reasons[0]).toContain('not about your topic');
+  });
+});
+
+describe('HashtagService.recommend', () => {
+  let testUserId: string;
+
+  beforeAll(async () => {
+    await initializeDatabase();
+
+    const user = await UserModel.create({
+      email: `hashtag-test-${Date.now()}@example.com`,
+      password: 'hashedpassword123',
+      name: 'Hashtag Test User'
+    });
+    testUserId = user.id;
+  });
+
+  afterAll(async () => {
+    await db.query('DELETE FROM users WHERE id = $1', [testUserId]);
+    await db.end();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM content WHERE user_id = $1', [testUserId]);
+    await db.query('DELETE FROM intelligence_data WHERE user_id = $1', [testUserId]);
+    await db.query('DELETE FROM brand_strategy WHERE user_id = $1', [testUserId]);
+  });
+
+  it('should learn from published content, trends and strategy within the platform cap', async () => {
+    await BrandStrategyModel.create({
+      userId: testUserId,
+      coreMessage: 'Practical AI for revenue teams',
+      targetAudience: ['Sales leaders'],
+      contentPillars: ['AI in sales'],
+      voiceAndTone: { tone: 'confident', personality: [], vocabulary: 'plain', writingStyle: 'direct' },
+      platformStrategy: {
+        twitter: { active: true, postingFrequency: 'daily', contentTypes: [], hashtagStrategy: ['#RevOps'], engagementStrategy: '' }
+      },
+      isActive: true
+    });
+    for (const [tags, status] of [[['pipeline'], 'published'], [['pipeline'], 'published'], [['unpublished'], 'draft']] as const) {
+      await ContentModel.create({
+        userId: testUserId,
+        platform: 'twitter',
+        contentType: 'post',
+        body: 'Pipeline lessons',
+        tags: [...tags],
+        brandAlignment: 0,
+        performanceScore: 0.5,
+        status
+      });
+    }
+    await IntelligenceService.recordTrends(testUserId, [{ keyword: 'sales agents', growth: 30, category: 'technology', accelerating: true }]);
+
+    const result = await HashtagService.recommend(testUserId, { platform: 'twitter', topics: ['sales'] });
+
+    expect(result.platform).toBe('twitter');
+    expect(result.cap).toBe(HASHTAG_LIMITS.twitter);
+    expect(result.suggestions).toHaveLength(HASHTAG_LIMITS.twitter);
+    expect(result.suggestions.map(suggestion => suggestion.tag)).toEqual(['#RevOps', '#pipeline']);
+
+    const all = await HashtagService.recommend(testUserId, { topics: ['sales'], limit: 10 });
+    expect(all.suggestions.map(suggestion => suggestion.tag)).toEqual(
+      expect.arrayContaining(['#RevOps', '#pipeline', '#SalesAgents', '#sales'])
+    );
+    expect(all.suggestions.some(suggestion => suggestion.tag === '#unpublished')).toBe(false);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from '@jest/globals';
+import { applyMapping, resolveIdempotencyKey, resolveTemplate, validateMapping } from '@/utils/ingestMapping';
+import { IngestMapping } from '@/types';
+
+describe('Ingest Mapping', () => {
+  const payload = {
+    id: 'evt-1',
+    title: 'Competitor launches pricing page',
+    site: { name: 'Acme Blog' },
+    score: '0.8',
+    tags: ['pricing', 'launch'],
+    items: [{ keyword: 'AI agents', growth: '45%' }]
+  };
+
+  it('should resolve placeholders, keeping the type of a lone placeholder', () => {
+    expect(resolveTemplate('{{site.name}}', payload)).toBe('Acme Blog');
+    expect(resolveTemplate('{{tags}}', payload)).toEqual(['pricing', 'launch']);
+    expect(resolveTemplate('{{ items.0.keyword }}', payload)).toBe('AI agents');
+    expect(resolveTemplate('From {{site.name}}: {{missing}}', payload)).toBe('From Acme Blog: ');
+    expect(resolveTemplate(0.3, payload)).toBe(0.3);
+  });
+
+  it('should map a payload to an intelligence item', () => {
+    const mapping: IngestMapping = {
+      target: 'intelligence',
+      fields: { type: 'competitor', title: '{{title}}', source: '{{site.name}}', tags: '{{tags}}', relevance: '{{score}}', actionable: 'true' },
+      idempotencyKey: '{{id}}'
+    };
+
+    expect(applyMapping(mapping, payload)).toEqual({
+      target: 'intelligence',
+      type: 'competitor',
+      data: { title: 'Competitor launches pricing page', source: 'Acme Blog', tags: ['pricing', 'launch'] },
+      relevanceScore: 0.8,
+      isActionable: true,
+      expiresInDays: 14
+    });
+    expect(resolveIdempotencyKey(mapping, payload)).toBe('evt-1');
+  });
+
+  it('should map trends and writing samples with defaults', () => {
+    expect(applyMapping({ target: 'trend', fields: { keyword: '{{items.0.keyword}}', growth: '{{items.0.growth}}' } }, payload))
+      .toEqual({ target: 'trend', keyword: 'AI agents', growth: 45, category: 'general' });
+    expect(applyMapping({ target: 'trend', fields: { keyword: '{{items.0.keyword}}', growth: '{{items.0.growth}}', volume: 12 } }, payload))
+      .toMatchObject({ volume: 12 });
+
+    expect(applyMapping({ target: 'writing_sample', fields: { content: '{{title}}', platform: 'linkedin' } }, payload))
+      .toEqual({ target: 'writing_sample', content: 'Competitor launches pricing page', platform: 'linkedin', contentType: 'post' });
+  });
+
+  it('should reject payloads missing required values', () => {
+    expect(() => applyMapping({ target: 'intelligence', fields: { title: '{{headline}}' } }, payload)).toThrow('no value for title');
+    expect(() => applyMapping({ target: 'trend', fields: { keyword: '{{title}}', growth: '{{site.name}}' } }, payload)).toThrow('growth must be a number');
+    expect(() => applyMapping({ target: 'trend', fields: { keyword: '{{title}}', growth: 5, volume: -1 } }, payload)).toThrow('volume must be a number');
+    expect(() => applyMapping({ target: 'intelligence', fields: { title: '{{title}}', relevance: 3 } }, payload)).toThrow('relevance');
+  });
+
+  it('should validate mappings before they are saved', () => {
+    expect(validateMapping({ target: 'trend', fields: { keyword: '{{k}}', growth: '{{g}}' } })).toEqual([]);
+    expect(validateMapping(null)).toEqual(['mapping must be an object']);
+    expect(validateMapping({ target: 'email', fields: {} })).toContain('mapping.target must be one of intelligence, trend, writing_sample');
+    expect(validateMapping({ target: 'writing_sample', fields: { content: { path: 'x' } } })).toEqual([
+      'mapping.fields.content must be a string, number or boolean'
+    ]);
+    expect(validateMapping({ target: 'intelligence', fields: { title: 'x', type: 'rumour' } })).toEqual([
+      'mapping.fields.type must be one of trend, competitor, opportunity, threat, news'
+    ]);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { createHmac } from 'crypto';
+import { UserModel, IngestDeadLetterModel, IngestSourceModel, IntelligenceDataModel } from '@/models';
+import { IngestService } from '@/services/ingestService';
+import { IngestSource } from '@/types';
+import { db, initializeDatabase } from '@/utils/database';
+
+const sign = (secret: string, body: Buffer): string =>
+  `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+
+describe('Ingest Service', () => {
+  let testUserId: string;
+  let source: IngestSource;
+  let secret: string;
+
+  const deliver = (payload: unknown, headers: { idempotencyKey?: string } = {}) => {
+    const body = Buffer.from(JSON.stringify(payload));
+    return IngestService.receive(source.id, body, { signature: sign(secret, body), ...headers });
+  };
+
+  beforeAll(async () => {
+    await initializeDatabase();
+    const user = await UserModel.create({
+      email: `ingest-test-${Date.now()}@example.com`,
+      password: 'hashedpassword123',
+      name: 'Ingest Test User'
+    });
+    testUserId = user.id;
+  });
+
+  afterAll(async () => {
+    await db.query('DELETE FROM users WHERE id = $1', [testUserId]);
+    await db.end();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM ingest_sources WHERE user_id = $1', [testUserId]);
+    await db.query('DELETE FROM intelligence_data WHERE user_id = $1', [testUserId]);
+
+    ({ source, secret } = await IngestService.createSource(testUserId, 'Competitor watch', {
+      target: 'intelligence',
+      fields: { type: 'competitor', title: '{{title}}', url: '{{url}}' },
+      idempotencyKey: '{{id}}'
+    }));
+  });
+
+  it('should create an intelligence item from a signed event', async () => {
+    const result = await deliver({ id: 'evt-1', title: 'Acme redesigned their pricing page', url: 'https://acme.example.com/pricing' });
+
+    expect(result.status).toBe('processed');
+    expect(result.idempotencyKey).toBe('evt-1');
+
+    const item = await IntelligenceDataModel.findById(result.record!.id);
+    expect(item).toMatchObject({ type: 'competitor', source: 'huginn', userId: testUserId });
+    expect(item!.data['title']).toBe('Acme redesigned their pricing page');
+  });
+
+  it('should reject unsigned, badly signed and paused deliveries', async () => {
+    const body = Buffer.from('{"id":"evt-1","title":"Hi"}');
+
+    await expect(IngestService.receive(source.id, body, {})).rejects.toMatchObject({ statusCode: 401 });
+    await expect(IngestService.receive(source.id, body, { signature: sign('wrong-secret', body) })).rejects.toMatchObject({ statusCode: 401 });
+
+    await IngestSourceModel.update(source.id, { isActive: false });
+    await expect(IngestService.receive(source.id, body, { signature: sign(secret, body) })).rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  it('should process repeat deliveries only once', async () => {
+    const first = await deliver({ id: 'evt-2', title: 'Acme hired a new CMO' });
+    const second = await deliver({ id: 'evt-2', title: 'Acme hired a new CMO' });
+    // The header takes precedence over the mapped key
+    const third = await deliver({ id: 'evt-3', title: 'Acme hired a new CMO' }, { idempotencyKey: 'evt-2' });
+
+    expect(first.status).toBe('processed');
+    expect(second).toMatchObject({ status: 'duplicate', record: first.record });
+    expect(third.status).toBe('duplicate');
+
+    const { total } = await IntelligenceDataModel.findFeed(testUserId, {});
+    expect(total).toBe(1);
+  });
+
+  it('should dead-letter malformed events and replay them once the mapping is fixed', async () => {
+    const result = await deliver({ id: 'evt-4', headline: 'Acme opened a Berlin office' });
+
+    expect(result.status).toBe('dead_lettered');
+    expect(result.deadLetter!.error).toContain('no value for title');
+
+    // A repeat delivery updates the same dead letter
+    await deliver({ id: 'evt-4', headline: 'Acme opened a Berlin office' });
+    const [deadLetter] = await IngestDeadLetterModel.find({ sourceId: source.id });
+    expect(deadLetter!.attempts).toBe(2);
+
+    await IngestSourceModel.update(source.id, {
+      mapping: { target: 'intelligence', fields: { type: 'competitor', title: '{{headline}}' }, idempotencyKey: '{{id}}' }
+    });
+
+    const { processed, failed } = await IngestService.replayAll({ sourceId: source.id });
+    expect({ processed, failed }).toEqual({ processed: 1, failed: 0 });
+    expect(await IngestDeadLetterModel.find({ sourceId: source.id })).toEqual([]);
+
+    const replayed = await IngestDeadLetterModel.findById(deadLetter!.id);
+    expect(replayed!.resolvedAt).toBeInstanceOf(Date);
+  });
+
+  it('should dead-letter bodies that are not JSON', async () => {
+    const body = Buffer.from('title=not json');
+
+    const result = await IngestService.receive(source.id, body, { signature: sign(secret, body) });
+
+    expect(result.status).toBe('dead_lettered');
+    expect(result.deadLetter!.error).toContain('not valid JSON');
+    expect(result.idempotencyKey).toMatch(/^sha256:/);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { UserModel, IntelligenceDataModel } from '@/models';
+import { IntelligenceService } from '@/services/intelligenceService';
+import { db, initializeDatabase } from '@/utils/database';
+
+describe('Intelligence Service', () => {
+  let testUserId: string;
+
+  beforeAll(async () => {
+    await initializeDatabase();
+    const user = await UserModel.create({
+      email: `intelligence-test-${Date.now()}@example.com`,
+      password: 'hashedpassword123',
+      name: 'Intelligence Test User'
+    });
+    testUserId = user.id;
+  });
+
+  afterAll(async () => {
+    await db.query('DELETE FROM users WHERE id = $1', [testUserId]);
+    await db.end();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM intelligence_data WHERE user_id = $1', [testUserId]);
+  });
+
+  it('should filter the feed by type and sort by relevance', async () => {
+    await IntelligenceService.recordTrends(testUserId, [
+      { keyword: 'AI agents', growth: 80, category: 'technology', momentum: 'rising', accelerating: true },
+      { keyword: 'Low code', growth: 20, category: 'technology', momentum: 'stable', accelerating: false }
+    ]);
+    await IntelligenceService.recordCompetitors(testUserId, [
+      { name: 'Acme', contentFrequency: 'high', keyTopics: ['ai'] }
+    ]);
+
+    const feed = await IntelligenceService.getFeed(testUserId, { types: ['trend'] });
+    expect(feed.total).toBe(2);
+    expect(feed.items[0]!.data['keyword']).toBe('AI agents');
+    expect(feed.items[0]!.isActionable).toBe(true);
+    expect(feed.items[1]!.isActionable).toBe(false);
+    expect(feed.counts.new).toBe(3);
+  });
+
+  it('should update re-recorded items without resetting their triage state', async () => {
+    const [item] = await IntelligenceService.recordTrends(testUserId, [
+      { keyword: 'AI agents', growth: 40, category: 'technology' }
+    ]);
+    await IntelligenceService.updateStatus(item!, 'dismissed');
+
+    const [again] = await IntelligenceService.recordTrends(testUserId, [
+      { keyword: 'ai  Agents', growth: 60, category: 'technology' }
+    ]);
+
+    expect(again!.id).toBe(item!.id);
+    expect(again!.status).toBe('dismissed');
+    expect(again!.data['growth']).toBe(60);
+  });
+
+  it('should keep saved items past their expiry', async () => {
+    const expiring = await IntelligenceService.createItem({
+      userId: testUserId,
+      type: 'news',
+      data: { title: 'Expiring' },
+      relevanceScore: 0.5,
+      isActionable: false,
+      expiresAt: new Date(Date.now() + 60 * 1000)
+    });
+
+    const saved = await IntelligenceService.updateStatus(expiring, 'saved');
+    expect(saved!.status).toBe('saved');
+    expect(saved!.expiresAt).toBeNull();
+  });
+
+  it('should remove expired items on cleanup', async () => {
+    const item = await IntelligenceService.createItem({
+      userId: testUserId,
+      type: 'news',
+      data: { title: 'Old news' },
+      relevanceScore: 0.5,
+      isActionable: false
+    });
+    await db.query(`UPDATE intelligence_data SET expires_at = CURRENT_TIMESTAMP - INTERVAL '1 hour' WHERE id = $1`, [item.id]);
+
+    expect(await IntelligenceService.cleanupExpired()).toBeGreaterThanOrEqual(1);
+    expect(await IntelligenceDataModel.findById(item.id)).toBeNull();
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from '@jest/globals';
+import { UserModel, JobModel, JobScheduleModel } from '@/models';
+import { JobService, setJobHandler } from '@/services/jobService';
+import { db, initializeDatabase } from '@/utils/database';
+
+describe('Job Service', () => {
+  let testUserId: string;
+
+  beforeAll(async () => {
+    await initializeDatabase();
+    const user = await UserModel.create({
+      email: `job-test-${Date.now()}@example.com`,
+      password: 'hashedpassword123',
+      name: 'Job Test User'
+    });
+    testUserId = user.id;
+  });
+
+  afterAll(async () => {
+    await db.query('DELETE FROM users WHERE id = $1', [testUserId]);
+    await db.end();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM jobs WHERE user_id = $1', [testUserId]);
+    await db.query('DELETE FROM job_schedules WHERE user_id = $1', [testUserId]);
+  });
+
+  afterEach(() => {
+    setJobHandler('trend_refresh', null);
+  });
+
+  it('should retry a failed job with backoff and record the result', async () => {
+    let calls = 0;
+    setJobHandler('trend_refresh', {
+      concurrency: 2,
+      validate: () => [],
+      run: async () => {
+        calls++;
+        if (calls === 1) {
+          throw new Error('Search provider timed out');
+        }
+        return { trends: 3 };
+      }
+    });
+
+    const queued = await JobService.enqueue(testUserId, 'trend_refresh', { industry: 'fintech' });
+    await JobService.runDue();
+
+    const retrying = await JobModel.findById(queued.id);
+    expect(retrying).toMatchObject({ status: 'queued', attempts: 1, lastError: 'Search provider timed out' });
+    expect(retrying!.runAt.getTime()).toBeGreaterThan(Date.now());
+
+    // Not due yet, so another pass leaves it alone
+    await JobService.runDue();
+    expect(calls).toBe(1);
+
+    await db.query('UPDATE jobs SET run_at = CURRENT_TIMESTAMP WHERE id = $1', [queued.id]);
+    await JobService.runDue();
+
+    const done = await JobModel.findById(queued.id);
+    expect(done).toMatchObject({ status: 'succeeded', attempts: 2, result: { trends: 3 } });
+    expect(done!.finishedAt).toBeInstanceOf(Date);
+  });
+
+  it('should mark a job failed once it runs out of attempts', async () => {
+    setJobHandler('trend_refresh', {
+      concurrency: 2,
+      validate: () => [],
+      run: async () => {
+        throw new Error('Still broken');
+      }
+    });
+
+    const queued = await JobModel.create({ userId: testUserId, type: 'trend_refresh', payload: {}, maxAttempts: 1 });
+    await JobService.runDue();
+
+    const failed = await JobModel.findById(queued.id);
+    expect(failed).toMatchObject({ status: 'failed', attempts: 1, lastError: 'Still broken' });
+  });
+
+  it('should ignore the outcome of a run whose lock timed out', async () => {
+    const queued = await JobModel.create({ userId: testUserId, type: 'trend_refresh', payload: {} });
+    const [stale] = await JobModel.claim('trend_refresh', 1);
+
+    // The lock times out and another worker claims the job again
+    await db.query("UPDATE jobs SET locked_at = CURRENT_TIMESTAMP - INTERVAL '1 day' WHERE id = $1", [queued.id]);
+    await JobModel.requeueStale(30);
+    const [current] = await JobModel.claim('trend_refresh', 1);
+
+    expect(await JobModel.complete(stale!.id, stale!.attempts, { trends: 1 })).toBe(false);
+    expect(await JobModel.fail(stale!.id, stale!.attempts, 'Too late', null)).toBe(false);
+    expect(await JobModel.findById(queued.id)).toMatchObject({ status: 'running', attempts: 2 });
+
+    expect(await JobModel.complete(current!.id, current!.attempts, { trends: 2 })).toBe(true);
+    expect(await JobModel.findById(queued.id)).toMatchObject({ status: 'succeeded', result: { trends: 2 } });
+  });
+
+  it('should not run more jobs of a type than its concurrency allows', async () => {
+    let running = 0;
+    let peak = 0;
+    setJobHandler('trend_refresh', {
+      concurrency: 2,
+      validate: () => [],
+      run: async () => {
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise(resolve => setTimeout(resolve, 20));
+        running--;
+        return {};
+      }
+    });
+
+    for (let i = 0; i < 4; i++) {
+      await JobService.enqueue(testUserId, 'trend_refresh', { industry: 'fintech' });
+    }
+
+    expect(await JobService.runDue()).toBe(2);
+    expect(peak).toBe(2);
+
+    const remaining = await JobModel.findByUserId(testUserId, { status: 'queued' });
+    expect(remaining).toHaveLength(2);
+  });
+
+  it('should queue one job per due schedule and advance it', async () => {
+    const schedule = await JobService.createSchedule(testUserId, 'brand_mention_scan', '0 8 * * *', { brandName: 'Anidhi' });
+    expect(schedule.nextRunAt.getTime()).toBeGreaterThan(Date.now());
+
+    await db.query("UPDATE job_schedules SET next_run_at = CURRENT_TIMESTAMP - INTERVAL '1 minute' WHERE id = $1", [schedule.id]);
+    const first = await JobScheduleModel.enqueueDue();
+    expect(first.filter(job => job.scheduleId === schedule.id)).toHaveLength(1);
+
+    const advanced = await JobScheduleModel.findById(schedule.id);
+    expect(advanced!.nextRunAt.getTime()).toBeGreaterThan(Date.now());
+    expect(advanced!.lastRunAt).toBeInstanceOf(Date);
+
+    // Due again while the last job is still queued: nothing piles up
+    await db.query("UPDATE job_schedules SET next_run_at = CURRENT_TIMESTAMP - INTERVAL '1 minute' WHERE id = $1", [schedule.id]);
+    const second = await JobScheduleModel.enqueueDue();
+    expect(second.filter(job => job.scheduleId === schedule.id)).toHaveLength(0);
+
+    const jobs = await JobModel.findByUserId(testUserId);
+    expect(jobs).toHaveLength(1);
+    expect(jobs[0]).toMatchObject({ type: 'brand_mention_scan', payload: { brandName: 'Anidhi' } });
+  });
+
+  it('should reject system jobs, bad payloads and frequent schedules', async () => {
+    await expect(JobService.enqueue(testUserId, 'intelligence_cleanup', {})).rejects.toMatchObject({ statusCode: 400 });
+    await expect(JobService.enqueue(testUserId, 'trend_refresh', {})).rejects.toThrow('industry');
+    await expect(JobService.createSchedule(testUserId, 'trend_refresh', '*/5 * * * *', { industry: 'fintech' }))
+      .rejects.toThrow('at most once every 60 minutes');
+    await expect(JobService.createSchedule(testUserId, 'trend_refresh', 'every day', { industry: 'fintech' }))
+      .rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it('should only cancel queued jobs', async () => {
+    const job = await JobService.enqueue(testUserId, 'trend_refresh', { industry: 'fintech' }, new Date(Date.now() + 60 * 60 * 1000));
+
+    const cancelled = await JobService.cancel(job);
+    expect(cancelled.status).toBe('cancelled');
+
+    await expect(JobService.cancel(cancelled)).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('should pause and resume a schedule', async () => {
+    const schedule = await JobService.createSchedule(testUserId, 'trend_refresh', '@daily', { industry: 'fintech' });
+
+    const paused = await JobService.updateSchedule(schedule, { isActive: false });
+    expect(paused!.isActive).toBe(false);
+
+    const resumed = await JobService.updateSchedule(paused!, { isActive: true, cron: '0 6 * * 1' });
+    expect(resumed).toMatchObject({ isActive: true, cron: '0 6 * * 1' });
+    expect(resumed!.nextRunAt.getUTCDay()).toBe(1);
+    expect(resumed!.nextRunAt.getUTCHours()).toBe(6);
+  });
+});
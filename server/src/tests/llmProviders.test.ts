@@ -0,0 +1,234 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import {
+  AnthropicLlmProvider,
+  estimateCost,
+  FakeLlmProvider,
+  LlmProvider,
+  LlmRequest,
+  LlmResponse,
+  LocalLlmProvider,
+  parseJsonResponse
+} from '@/utils/llmProviders';
+
+const readBody = (req: IncomingMessage): Promise<Record<string, any>> =>
+  new Promise(resolve => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => resolve(JSON.parse(body || '{}')));
+  });
+
+const sse = (events: Record<string, any>[]): string =>
+  events.map(event => `event: ${event['type'] || 'message'}\ndata: ${JSON.stringify(event)}\n\n`).join('');
+
+// Collect a stream into its text deltas and final response
+const collect = async (provider: LlmProvider, request: LlmRequest): Promise<{ deltas: string[]; response?: LlmResponse }> => {
+  const deltas: string[] = [];
+  let response: LlmResponse | undefined;
+  for await (const event of provider.stream(request)) {
+    if (event.type === 'delta') {
+      deltas.push(event.text);
+    } else {
+      response = event.response;
+    }
+  }
+  return { deltas, ...(response && { response }) };
+};
+
+describe('LLM Providers', () => {
+  let server: Server;
+  let baseUrl: string;
+  const requests: { url: string; headers: IncomingMessage['headers']; body: Record<string, any> }[] = [];
+
+  beforeAll(async () => {
+    server = createServer(async (req, res) => {
+      const body = await readBody(req);
+      requests.push({ url: req.url!, headers: req.headers, body });
+
+      if (req.url === '/v1/chat/completions' && body['stream']) {
+        res.setHeader('Content-Type', 'text/event-stream');
+        const chunk = (delta: Record<string, any>, finish: string | null) =>
+          ({ id: 'c1', object: 'chat.completion.chunk', created: 0, model: 'llama3.1', choices: [{ index: 0, delta, finish_reason: finish }] });
+        res.end([
+          `data: ${JSON.stringify(chunk({ role: 'assistant', content: 'Hello' }, null))}\n\n`,
+          `data: ${JSON.stringify(chunk({ content: ' there' }, 'stop'))}\n\n`,
+          `data: ${JSON.stringify({ id: 'c1', object: 'chat.completion.chunk', created: 0, model: 'llama3.1', choices: [], usage: { prompt_tokens: 9, completion_tokens: 2, total_tokens: 11 } })}\n\n`,
+          'data: [DONE]\n\n'
+        ].join(''));
+      } else if (req.url === '/v1/chat/completions') {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({
+          id: 'c1',
+          object: 'chat.completion',
+          created: 0,
+          model: 'llama3.1',
+          choices: [{ index: 0, message: { role: 'assistant', content: body['response_format'] ? '{"ok":true}' : 'Hello there' }, finish_reason: 'stop' }],
+          usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 }
+        }));
+      } else if (req.url === '/anthropic/v1/messages' && body['stream']) {
+        res.setHeader('Content-Type', 'text/event-stream');
+        res.end(sse([
+          { type: 'message_start', message: { model: 'claude-3-5-haiku-20241022', usage: { input_tokens: 20, output_tokens: 1 } } },
+          { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+          { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hi' } },
+          { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: ' again' } },
+          { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 4 } },
+          { type: 'message_stop' }
+        ]));
+      } else if (req.url === '/anthropic/v1/messages') {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({
+          model: 'claude-3-5-haiku-20241022',
+          content: [{ type: 'text', text: body['messages'].at(-1).role === 'assistant' ? '"ok": true}' : 'Hi again' }],
+          stop_reason: 'end_turn',
+          usage: { input_tokens: 20, output_tokens: 4 }
+        }));
+      } else {
+        res.statusCode = 529;
+        res.end(JSON.stringify({ type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } }));
+      }
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const request: LlmRequest = {
+    model: 'test-model',
+    messages: [
+      { role: 'system', content: 'You write social posts.' },
+      { role: 'user', content: 'Say hello' }
+    ],
+    maxTokens: 50
+  };
+
+  describe('LocalLlmProvider', () => {
+    it('should complete against an OpenAI-compatible endpoint', async () => {
+      const provider = new LocalLlmProvider(`${baseUrl}/v1`, 'local-key');
+
+      const response = await provider.complete(request);
+
+      expect(response).toMatchObject({ content: 'Hello there', model: 'llama3.1', finishReason: 'stop' });
+      expect(response.usage).toEqual({ inputTokens: 12, outputTokens: 3 });
+      expect(requests.at(-1)!.headers.authorization).toBe('Bearer local-key');
+      expect(requests.at(-1)!.body).toMatchObject({ model: 'test-model', max_tokens: 50 });
+    });
+
+    it('should ask for a JSON object in JSON mode', async () => {
+      const provider = new LocalLlmProvider(`${baseUrl}/v1`);
+
+      const response = await provider.complete({ ...request, json: true });
+
+      expect(requests.at(-1)!.body['response_format']).toEqual({ type: 'json_object' });
+      expect(parseJsonResponse(response.content)).toEqual({ ok: true });
+    });
+
+    it('should stream deltas and finish with usage', async () => {
+      const provider = new LocalLlmProvider(`${baseUrl}/v1`);
+
+      const { deltas, response } = await collect(provider, request);
+
+      expect(deltas).toEqual(['Hello', ' there']);
+      expect(response).toMatchObject({ content: 'Hello there', finishReason: 'stop', usage: { inputTokens: 9, outputTokens: 2 } });
+    });
+  });
+
+  describe('AnthropicLlmProvider', () => {
+    it('should send system messages as the system prompt', async () => {
+      const provider = new AnthropicLlmProvider('anthropic-key', `${baseUrl}/anthropic`);
+
+      const response = await provider.complete(request);
+
+      expect(response).toMatchObject({ content: 'Hi again', finishReason: 'end_turn', usage: { inputTokens: 20, outputTokens: 4 } });
+      expect(requests.at(-1)!.headers['x-api-key']).toBe('anthropic-key');
+      expect(requests.at(-1)!.headers['anthropic-version']).toBeDefined();
+      expect(requests.at(-1)!.body['system']).toBe('You write social posts.');
+      expect(requests.at(-1)!.body['messages']).toEqual([{ role: 'user', content: 'Say hello' }]);
+    });
+
+    it('should prefill the reply in JSON mode', async () => {
+      const provider = new AnthropicLlmProvider('anthropic-key', `${baseUrl}/anthropic`);
+
+      const response = await provider.complete({ ...request, json: true });
+
+      expect(requests.at(-1)!.body['messages'].at(-1)).toEqual({ role: 'assistant', content: '{' });
+      expect(parseJsonResponse(response.content)).toEqual({ ok: true });
+    });
+
+    it('should stream text deltas from server-sent events', async () => {
+      const provider = new AnthropicLlmProvider('anthropic-key', `${baseUrl}/anthropic`);
+
+      const { deltas, response } = await collect(provider, request);
+
+      expect(deltas).toEqual(['Hi', ' again']);
+      expect(response).toMatchObject({
+        content: 'Hi again',
+        model: 'claude-3-5-haiku-20241022',
+        finishReason: 'end_turn',
+        usage: { inputTokens: 20, outputTokens: 4 }
+      });
+    });
+
+    it('should throw on error responses', async () => {
+      const provider = new AnthropicLlmProvider('anthropic-key', `${baseUrl}/overloaded`);
+
+      await expect(provider.complete(request)).rejects.toThrow('status 529');
+    });
+  });
+
+  describe('FakeLlmProvider', () => {
+    it('should reply deterministically and record calls', async () => {
+      const provider = new FakeLlmProvider();
+
+      const first = await provider.complete(request);
+      const second = await provider.complete(request);
+
+      expect(first.content).toBe('Fake reply to: Say hello');
+      expect(second).toEqual(first);
+      expect(first.usage.outputTokens).toBeGreaterThan(0);
+      expect(provider.calls).toHaveLength(2);
+    });
+
+    it('should stream the reply a word at a time', async () => {
+      const provider = new FakeLlmProvider(req => `Reply for ${req.model}`);
+
+      const { deltas, response } = await collect(provider, request);
+
+      expect(deltas).toEqual(['Reply ', 'for ', 'test-model']);
+      expect(response!.content).toBe('Reply for test-model');
+    });
+  });
+
+  describe('parseJsonResponse', () => {
+    it('should read an object wrapped in a code fence', () => {
+      expect(parseJsonResponse('```json\n{"tone": "bold"}\n```')).toEqual({ tone: 'bold' });
+    });
+
+    it('should throw when there is no object', () => {
+      expect(() => parseJsonResponse('No JSON here')).toThrow('did not contain a JSON object');
+    });
+  });
+
+  describe('estimateCost', () => {
+    it('should price hosted models by their longest matching prefix', () => {
+      const usage = { inputTokens: 1_000_000, outputTokens: 1_000_000 };
+
+      expect(estimateCost('openai', 'gpt-4o-mini-2024-07-18', usage)).toBeCloseTo(0.75);
+      expect(estimateCost('openai', 'gpt-4o', usage)).toBeCloseTo(12.5);
+      expect(estimateCost('anthropic', 'claude-sonnet-4-20250514', usage)).toBeCloseTo(18);
+    });
+
+    it('should treat local, fake and unknown models as free', () => {
+      const usage = { inputTokens: 1000, outputTokens: 1000 };
+
+      expect(estimateCost('local', 'gpt-4o', usage)).toBe(0);
+      expect(estimateCost('fake', 'fake-large', usage)).toBe(0);
+      expect(estimateCost('openai', 'some-new-model', usage)).toBe(0);
+    });
+  });
+});
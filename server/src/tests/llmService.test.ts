@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { UserModel } from '@/models';
+import { LlmService } from '@/services/llmService';
+import { FakeLlmProvider, setLlmProvider } from '@/utils/llmProviders';
+import { db, initializeDatabase } from '@/utils/database';
+
+describe('LLM Service', () => {
+  let testUserId: string;
+  let provider: FakeLlmProvider;
+  const savedEnv = { ...process.env };
+
+  beforeAll(async () => {
+    await initializeDatabase();
+
+    const user = await UserModel.create({
+      email: `llm-test-${Date.now()}@example.com`,
+      password: 'hashedpassword123',
+      name: 'LLM Test User'
+    });
+    testUserId = user.id;
+  });
+
+  afterAll(async () => {
+    setLlmProvider(null);
+    await db.query('DELETE FROM users WHERE id = $1', [testUserId]);
+    await db.end();
+  });
+
+  beforeEach(async () => {
+    process.env = { ...savedEnv };
+    provider = new FakeLlmProvider(req => req.json ? '{"hashtags": ["#ai"]}' : 'A short post');
+    setLlmProvider(provider);
+
+    await db.query('DELETE FROM llm_usage WHERE user_id = $1', [testUserId]);
+  });
+
+  describe('resolveModel', () => {
+    it('should pick the model tier by task', () => {
+      process.env['LLM_PROVIDER'] = 'openai';
+
+      expect(LlmService.resolveModel('content_generation')).toEqual({ provider: 'openai', model: 'gpt-4o' });
+      expect(LlmService.resolveModel('classification')).toEqual({ provider: 'openai', model: 'gpt-4o-mini' });
+    });
+
+    it('should honour per-task overrides', () => {
+      process.env['LLM_PROVIDER'] = 'openai';
+      process.env['LLM_MODEL_ANALYSIS'] = 'local:qwen2.5';
+      process.env['LLM_MODEL_CONTENT_STRATEGY'] = 'gpt-4.1';
+
+      expect(LlmService.resolveModel('analysis')).toEqual({ provider: 'local', model: 'qwen2.5' });
+      expect(LlmService.resolveModel('content_strategy')).toEqual({ provider: 'openai', model: 'gpt-4.1' });
+    });
+
+    it('should only fall back to the fake provider under test', () => {
+      delete process.env['LLM_PROVIDER'];
+      delete process.env['OPENAI_API_KEY'];
+      delete process.env['ANTHROPIC_API_KEY'];
+
+      process.env['NODE_ENV'] = 'test';
+      expect(LlmService.resolveModel('analysis').provider).toBe('fake');
+
+      process.env['NODE_ENV'] = 'production';
+      expect(() => LlmService.resolveModel('analysis')).toThrow('No LLM provider configured');
+    });
+  });
+
+  describe('usage accounting', () => {
+    it('should record usage for completions, JSON completions and streams', async () => {
+      process.env['LLM_PROVIDER'] = 'fake';
+
+      const response = await LlmService.complete(testUserId, 'content_generation', [{ role: 'user', content: 'Write a post' }]);
+      const { data } = await LlmService.completeJson<{ hashtags: string[] }>(testUserId, 'analysis', [{ role: 'user', content: 'Suggest hashtags' }]);
+
+      let streamed = '';
+      for await (const event of LlmService.stream(testUserId, 'content_generation', [{ role: 'user', content: 'Write another post' }])) {
+        if (event.type === 'delta') {
+          streamed += event.text;
+        }
+      }
+
+      expect(response.content).toBe('A short post');
+      expect(data.hashtags).toEqual(['#ai']);
+      expect(streamed).toBe('A short post');
+      expect(provider.calls.map(call => call.model)).toEqual(['fake-large', 'fake-small', 'fake-large']);
+
+      const usage = await LlmService.getUsage(testUserId, 30);
+      expect(usage.totals.requests).toBe(3);
+      expect(usage.totals.outputTokens).toBeGreaterThan(0);
+      expect(usage.totals.costUsd).toBe(0);
+      expect(usage.byTask.find(entry => entry.task === 'content_generation')!.requests).toBe(2);
+      expect(usage.byModel.map(entry => entry.model).sort()).toEqual(['fake-large', 'fake-small']);
+    });
+  });
+});
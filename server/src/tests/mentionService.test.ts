@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { UserModel, BrandMentionModel } from '@/models';
+import { MentionService } from '@/services/mentionService';
+import { SearchResult } from '@/services/webSearchService';
+import { SentimentSeriesPoint } from '@/types';
+import { db, initializeDatabase } from '@/utils/database';
+
+describe('Mention Service', () => {
+  let testUserId: string;
+
+  const point = (date: string, negative: number): SentimentSeriesPoint => ({
+    date,
+    positive: 0,
+    negative,
+    neutral: 0,
+    total: negative,
+    averageScore: negative > 0 ? -1 : 0
+  });
+
+  const result = (url: string, title: string, publishedDate?: Date): SearchResult => ({
+    title,
+    url,
+    snippet: '',
+    source: 'news.example.com',
+    relevanceScore: 0.8,
+    ...(publishedDate && { publishedDate })
+  });
+
+  beforeAll(async () => {
+    await initializeDatabase();
+
+    const user = await UserModel.create({
+      email: `mention-test-${Date.now()}@example.com`,
+      password: 'hashedpassword123',
+      name: 'Mention Test User'
+    });
+    testUserId = user.id;
+  });
+
+  afterAll(async () => {
+    await db.query('DELETE FROM users WHERE id = $1', [testUserId]);
+    await db.end();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM brand_mentions WHERE user_id = $1', [testUserId]);
+    await db.query('DELETE FROM intelligence_data WHERE user_id = $1', [testUserId]);
+  });
+
+  it('should detect a negative spike against the previous week', () => {
+    const quietWeek = ['2026-10-12', '2026-10-13', '2026-10-14', '2026-10-15', '2026-10-16', '2026-10-17', '2026-10-18']
+      .map(date => point(date, 1));
+
+    expect(MentionService.detectNegativeSpike([...quietWeek, point('2026-10-19', 5)], '2026-10-19'))
+      .toEqual({ date: '2026-10-19', negative: 5, baseline: 1, severity: 'high' });
+    expect(MentionService.detectNegativeSpike([...quietWeek, point('2026-10-19', 3)], '2026-10-19')!.severity).toBe('medium');
+
+    // Twice a busy baseline is needed, and a minimum on quiet days
+    const busyWeek = quietWeek.map(entry => point(entry.date, 4));
+    expect(MentionService.detectNegativeSpike([...busyWeek, point('2026-10-19', 6)], '2026-10-19')).toBeNull();
+    expect(MentionService.detectNegativeSpike([point('2026-10-19', 2)], '2026-10-19')).toBeNull();
+  });
+
+  it('should store each URL once per brand and tag matched keywords', async () => {
+    const results = [
+      result('https://news.example.com/1', 'Acme pricing praised as excellent and fair'),
+      result('https://news.example.com/2', 'Acme opens a new office')
+    ];
+
+    const first = await MentionService.recordMentions(testUserId, 'Acme', ['pricing'], results);
+    expect(first.mentions).toHaveLength(2);
+    expect(first.mentions[0]).toMatchObject({ sentiment: 'positive', keyword: 'pricing' });
+    expect(first.mentions[1]!.sentiment).toBe('neutral');
+
+    const second = await MentionService.recordMentions(testUserId, 'ACME', ['pricing'], results);
+    expect(second.mentions).toHaveLength(0);
+
+    const { total } = await BrandMentionModel.findByUserId(testUserId, { brand: 'acme' });
+    expect(total).toBe(2);
+  });
+
+  it('should raise one threat per brand and day when negative mentions spike', async () => {
+    const now = new Date();
+    const lastWeek = new Date(now.getTime() - 3 * 24 * 60 * 60 * 1000);
+
+    await MentionService.recordMentions(testUserId, 'Acme', [], [
+      result('https://news.example.com/old', 'Acme outage frustrates customers', lastWeek)
+    ], now);
+
+    const first = await MentionService.recordMentions(testUserId, 'Acme', [], [
+      result('https://news.example.com/a', 'Acme data breach confirmed', now),
+      result('https://news.example.com/b', 'Acme hit with lawsuit over breach', now),
+      result('https://news.example.com/c', 'Customers call Acme support terrible', now)
+    ], now);
+    expect(first.threat).toBeTruthy();
+    expect(first.threat!.type).toBe('threat');
+    expect(first.threat!.data).toMatchObject({ type: 'negative_sentiment', brand: 'Acme', negative: 3 });
+
+    const second = await MentionService.recordMentions(testUserId, 'Acme', [], [
+      result('https://news.example.com/d', 'Acme scandal widens', now)
+    ], now);
+    expect(second.threat!.id).toBe(first.threat!.id);
+    expect(second.threat!.data['negative']).toBe(4);
+
+    const { series, summary } = await MentionService.getSentiment(testUserId, { brand: 'Acme' }, 7, now);
+    expect(series).toHaveLength(7);
+    expect(series[6]!.negative).toBe(4);
+    expect(summary.negative).toBe(100);
+  });
+});
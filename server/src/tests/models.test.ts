@@ -259,5 +259,17 @@ describe('Database Models', () => {
       expect(activeStrategy?.id).toBe(strategy2.id);
       expect(activeStrategy?.isActive).toBe(true);
     });
+
+    it('should number strategy versions per user', async () => {
+      const strategy1 = await BrandStrategyModel.create(testBrandStrategy);
+      const strategy2 = await BrandStrategyModel.create({
+        ...testBrandStrategy,
+        parentId: strategy1.id,
+        isActive: false
+      });
+
+      expect(strategy2.version).toBe(strategy1.version + 1);
+      expect(strategy2.parentId).toBe(strategy1.id);
+    });
   });
 });
\ No newline at end of file
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { UserModel, NotificationModel, ProjectModel, ProjectDeadlineModel } from '@/models';
+import { NotificationService } from '@/services/notificationService';
+import { IntelligenceService } from '@/services/intelligenceService';
+import { FileNotificationChannel, setNotificationChannel } from '@/utils/notificationChannels';
+import { db, initializeDatabase } from '@/utils/database';
+
+describe('Notification Service', () => {
+  let testUserId: string;
+  let directory: string;
+
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  // Digests written for the test user
+  const deliveredDigests = async () => {
+    const files = (await fs.readdir(directory)).filter(file => file.endsWith(`-${testUserId}.json`));
+    return Promise.all(files.map(async file => JSON.parse(await fs.readFile(path.join(directory, file), 'utf8'))));
+  };
+
+  beforeAll(async () => {
+    await initializeDatabase();
+
+    const user = await UserModel.create({
+      email: `notification-test-${Date.now()}@example.com`,
+      password: 'hashedpassword123',
+      name: 'Notification Test User'
+    });
+    testUserId = user.id;
+    await UserModel.markVerified(testUserId);
+  });
+
+  afterAll(async () => {
+    setNotificationChannel(null);
+    await db.query('DELETE FROM users WHERE id = $1', [testUserId]);
+    await db.end();
+  });
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'notifications-'));
+    setNotificationChannel(new FileNotificationChannel(directory));
+
+    await db.query('DELETE FROM notifications WHERE user_id = $1', [testUserId]);
+    await db.query('DELETE FROM notification_preferences WHERE user_id = $1', [testUserId]);
+    await db.query('DELETE FROM intelligence_data WHERE user_id = $1', [testUserId]);
+    await db.query('DELETE FROM projects WHERE user_id = $1', [testUserId]);
+  });
+
+  it('should alert once on new actionable intelligence', async () => {
+    await IntelligenceService.recordTrends(testUserId, [
+      { keyword: 'AI agents', growth: 80, category: 'technology', momentum: 'rising', accelerating: true },
+      { keyword: 'Low code', growth: 20, category: 'technology', momentum: 'stable', accelerating: false }
+    ]);
+    await IntelligenceService.recordTrends(testUserId, [
+      { keyword: 'AI agents', growth: 95, category: 'technology', momentum: 'rising', accelerating: true }
+    ]);
+
+    const { notifications, unread } = await NotificationService.getNotifications(testUserId);
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0]).toMatchObject({ type: 'alert', title: 'Trend: AI agents', link: '/intelligence' });
+    expect(unread).toBe(1);
+  });
+
+  it('should skip muted types', async () => {
+    await NotificationService.updatePreferences(testUserId, { mutedTypes: ['alert'] });
+
+    expect(await NotificationService.notify(testUserId, { type: 'alert', title: 'Muted', body: '' })).toBeNull();
+    expect(await NotificationService.notify(testUserId, { type: 'analysis', title: 'Shown', body: '' })).not.toBeNull();
+    expect(await NotificationModel.countUnread(testUserId)).toBe(1);
+  });
+
+  it('should remind each upcoming deadline once', async () => {
+    const project = await ProjectModel.create({
+      userId: testUserId,
+      name: 'Launch',
+      type: 'custom',
+      goals: [],
+      status: 'active',
+      context: {}
+    });
+    await ProjectDeadlineModel.create({
+      projectId: project.id,
+      name: 'Submit talk',
+      date: new Date(Date.now() + DAY_MS),
+      priority: 'high'
+    });
+
+    await NotificationService.remindDeadlines();
+    await NotificationService.remindDeadlines();
+
+    const { notifications } = await NotificationService.getNotifications(testUserId, { types: ['deadline'] });
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0]!.title).toBe('Launch: Submit talk');
+    expect(notifications[0]!.body).toMatch(/^High priority deadline due (today|tomorrow)/);
+  });
+
+  it('should send a digest of unread notifications once per period', async () => {
+    await NotificationService.updatePreferences(testUserId, { digestFrequency: 'daily' });
+    await NotificationService.notify(testUserId, { type: 'alert', title: 'Trend: AI agents', body: 'Accelerating', link: '/intelligence' });
+    const read = await NotificationService.notify(testUserId, { type: 'analysis', title: 'Already read', body: '' });
+    await NotificationModel.setRead(read!.id, true);
+
+    const now = new Date();
+    await NotificationService.sendDigests(now);
+
+    const [digest, ...rest] = await deliveredDigests();
+    expect(rest).toHaveLength(0);
+    expect(digest.subject).toBe('Your daily ANIDHI digest: 1 unread notification');
+    expect(digest.text).toContain('- Trend: AI agents: Accelerating');
+    expect(digest.text).not.toContain('Already read');
+    expect(digest.html).toContain('Trend: AI agents');
+
+    // Not due again until the next day
+    await NotificationService.sendDigests(new Date(now.getTime() + 60 * 60 * 1000));
+    expect(await deliveredDigests()).toHaveLength(1);
+
+    expect((await NotificationService.getPreferences(testUserId)).lastDigestAt).toEqual(now);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { UserModel, IntelligenceDataModel, PipelineItemModel, ProjectDeadlineModel } from '@/models';
+import { IntelligenceService } from '@/services/intelligenceService';
+import { PipelineService } from '@/services/pipelineService';
+import { db, initializeDatabase } from '@/utils/database';
+
+describe('Pipeline Service', () => {
+  let testUserId: string;
+
+  beforeAll(async () => {
+    await initializeDatabase();
+    const user = await UserModel.create({
+      email: `pipeline-test-${Date.now()}@example.com`,
+      password: 'hashedpassword123',
+      name: 'Pipeline Test User'
+    });
+    testUserId = user.id;
+  });
+
+  afterAll(async () => {
+    await db.query('DELETE FROM users WHERE id = $1', [testUserId]);
+    await db.end();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM pipeline_items WHERE user_id = $1', [testUserId]);
+    await db.query('DELETE FROM intelligence_data WHERE user_id = $1', [testUserId]);
+    await db.query('DELETE FROM projects WHERE user_id = $1', [testUserId]);
+  });
+
+  it('should add classified feed items to the pipeline once', async () => {
+    const item = await IntelligenceService.createItem({
+      userId: testUserId,
+      type: 'news',
+      data: { title: 'Guest post submissions open', summary: 'Write for us by 2099-01-15' },
+      relevanceScore: 0.5,
+      isActionable: false,
+      source: 'feed',
+      fingerprint: 'feed:guest-post'
+    });
+    await IntelligenceService.createItem({
+      userId: testUserId,
+      type: 'news',
+      data: { title: 'Weekly roundup' },
+      relevanceScore: 0.5,
+      isActionable: false,
+      source: 'feed'
+    });
+
+    const items = await PipelineItemModel.findByUserId(testUserId);
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ kind: 'opportunity', category: 'writing', stage: 'detected', intelligenceId: item.id });
+    expect(items[0]!.deadline).toBeInstanceOf(Date);
+
+    await PipelineService.classifyFeed(testUserId);
+    expect(await PipelineItemModel.findByUserId(testUserId)).toHaveLength(1);
+  });
+
+  it('should keep the stage when an item is classified again and triage the feed item', async () => {
+    const [trend] = await IntelligenceService.recordTrends(testUserId, [
+      { keyword: 'AI agents', growth: 60, category: 'technology', momentum: 'rising', accelerating: true }
+    ]);
+    const [detected] = await PipelineItemModel.findByUserId(testUserId);
+
+    const moved = await PipelineService.moveItem(detected!, 'pursuing');
+    expect(moved!.stage).toBe('pursuing');
+    expect((await IntelligenceDataModel.findById(trend!.id))!.status).toBe('saved');
+
+    await IntelligenceService.recordTrends(testUserId, [
+      { keyword: 'AI agents', growth: 90, category: 'technology', momentum: 'rising', accelerating: true }
+    ]);
+    const [again] = await PipelineItemModel.findByUserId(testUserId);
+    expect(again!.id).toBe(detected!.id);
+    expect(again!.stage).toBe('pursuing');
+    expect(again!.priority).toBe('high');
+  });
+
+  it('should convert an opportunity into a project with its deadline', async () => {
+    const opportunity = await PipelineItemModel.create({
+      userId: testUserId,
+      kind: 'opportunity',
+      category: 'speaking',
+      title: 'DevConf call for speakers',
+      description: 'Talks on developer tooling',
+      priority: 'medium',
+      deadline: new Date('2099-03-01T23:59:59Z'),
+      source: 'feed',
+      actions: ['Draft an abstract', 'Submit']
+    });
+
+    const { project, item } = await PipelineService.convertToProject(opportunity);
+    expect(project).toMatchObject({ name: 'DevConf call for speakers', type: 'opportunity', goals: ['Draft an abstract', 'Submit'] });
+    expect(project.context['pipelineItemId']).toBe(opportunity.id);
+    expect(item).toMatchObject({ projectId: project.id, stage: 'pursuing' });
+    expect(await ProjectDeadlineModel.findByProjectId(project.id)).toHaveLength(1);
+
+    await expect(PipelineService.convertToProject(item)).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('should refuse to convert a threat', async () => {
+    const threat = await PipelineItemModel.create({
+      userId: testUserId,
+      kind: 'threat',
+      category: 'reputation',
+      title: 'Lawsuit',
+      description: '',
+      priority: 'high',
+      source: 'feed',
+      actions: []
+    });
+
+    await expect(PipelineService.convertToProject(threat)).rejects.toMatchObject({ statusCode: 400 });
+  });
+});
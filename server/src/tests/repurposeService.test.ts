@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { UserModel, BrandStrategyModel } from '@/models';
+import { ContentService } from '@/services/contentService';
+import { RepurposeService } from '@/services/repurposeService';
+import { FakeEmbeddingProvider, getEmbeddingProvider, setEmbeddingProvider } from '@/utils/embeddingProviders';
+import { FakeLlmProvider, setLlmProvider } from '@/utils/llmProviders';
+import { TWEET_LIMIT } from '@/utils/threadSplitter';
+import { db, initializeDatabase } from '@/utils/database';
+import { Content } from '@/types';
+
+describe('Repurpose Service', () => {
+  let testUserId: string;
+  let provider: FakeLlmProvider;
+  let source: Content;
+
+  const longPost = Array.from({ length: 12 }, (_, i) => `Lesson ${i}: agents only help when someone owns the pipeline.`).join(' ');
+
+  const variants = JSON.stringify({
+    variants: [
+      { platform: 'twitter', title: 'Agent thread', body: `We put agents in our pipeline.\n\n${longPost}`, hashtags: ['#agents', '#sales', '#growth'] },
+      { platform: 'Blog', title: 'Agent outline', body: '# Agents in sales\n- Why\n- How', hashtags: ['agents'] },
+      { platform: 'instagram', body: '  ' }
+    ]
+  });
+
+  beforeAll(async () => {
+    await initializeDatabase();
+    setEmbeddingProvider(new FakeEmbeddingProvider(getEmbeddingProvider().dimensions));
+
+    const user = await UserModel.create({
+      email: `repurpose-test-${Date.now()}@example.com`,
+      password: 'hashedpassword123',
+      name: 'Repurpose Test User'
+    });
+    testUserId = user.id;
+  });
+
+  afterAll(async () => {
+    setLlmProvider(null);
+    setEmbeddingProvider(null);
+    await db.query('DELETE FROM users WHERE id = $1', [testUserId]);
+    await db.end();
+  });
+
+  beforeEach(async () => {
+    provider = new FakeLlmProvider(variants);
+    setLlmProvider(provider);
+
+    await db.query('DELETE FROM content WHERE user_id = $1', [testUserId]);
+    await db.query('DELETE FROM vector_documents WHERE user_id = $1', [testUserId]);
+    await db.query('DELETE FROM brand_strategy WHERE user_id = $1', [testUserId]);
+
+    source = await ContentService.createContent(testUserId, {
+      platform: 'linkedin',
+      contentType: 'post',
+      title: 'Agents in sales',
+      body: 'We put AI agents in front of our sales pipeline and learned three things.',
+      tags: ['ai'],
+      brandAlignment: 0,
+      performanceScore: 0,
+      status: 'published'
+    });
+  });
+
+  it('should target the active platforms and follow their config', async () => {
+    await BrandStrategyModel.create({
+      userId: testUserId,
+      coreMessage: 'Practical AI for revenue teams',
+      targetAudience: ['Sales leaders'],
+      contentPillars: ['AI in sales'],
+      voiceAndTone: { tone: 'confident', personality: [], vocabulary: 'plain', writingStyle: 'direct' },
+      platformStrategy: {
+        twitter: { active: true, postingFrequency: 'daily', contentTypes: ['thread'], hashtagStrategy: ['#RevOps', 'one niche tag'], engagementStrategy: 'Reply to every quote' },
+        blog: { active: true, postingFrequency: 'monthly', contentTypes: ['outline'], hashtagStrategy: [], engagementStrategy: '' },
+        instagram: { active: false, postingFrequency: '', contentTypes: [], hashtagStrategy: [], engagementStrategy: '' }
+      },
+      isActive: true
+    });
+
+    const result = await RepurposeService.repurpose(source);
+
+    const prompt = provider.calls[0]!.messages[1]!.content;
+    expect(prompt).toContain('We put AI agents in front of our sales pipeline');
+    expect(prompt).toContain('[twitter] A thread');
+    expect(prompt).toContain('Engagement strategy: Reply to every quote');
+    expect(prompt).toContain('Hashtag guidance: always include #RevOps; one niche tag');
+    expect(prompt).toContain('[blog] A blog post outline');
+    expect(prompt).not.toContain('[instagram]');
+
+    expect(result.variants.map(variant => variant.platform)).toEqual(['twitter', 'blog']);
+
+    const [thread, outline] = result.variants;
+    expect(thread).toMatchObject({ contentType: 'thread', status: 'draft', parentId: source.id, tags: ['RevOps', 'agents'] });
+    const posts = thread!.body.split('\n\n');
+    expect(posts.length).toBeGreaterThan(1);
+    posts.forEach(post => expect(post.length).toBeLessThanOrEqual(TWEET_LIMIT));
+    expect(posts[posts.length - 1]).toContain('#RevOps #agents');
+
+    expect(outline).toMatchObject({ contentType: 'outline', body: '# Agents in sales\n- Why\n- How', tags: ['agents'], parentId: source.id });
+  });
+
+  it('should target every other platform without an active strategy', async () => {
+    const result = await RepurposeService.repurpose(source);
+
+    expect(provider.calls[0]!.messages[1]!.content).not.toContain('[linkedin]');
+    // The empty Instagram variant and the missing YouTube one are skipped
+    expect(result.variants.map(variant => variant.platform)).toEqual(['twitter', 'blog']);
+  });
+
+  it('should list variants linked to their source', async () => {
+    const result = await RepurposeService.repurpose(source, ['blog']);
+    expect(result.variants).toHaveLength(1);
+
+    const linked = await RepurposeService.getVariants(source);
+    expect(linked.map(variant => variant.id)).toEqual([result.variants[0]!.id]);
+    expect(await RepurposeService.getVariants(result.variants[0]!)).toEqual([]);
+  });
+
+  it('should fail when the model returns no variants', async () => {
+    setLlmProvider(new FakeLlmProvider('{"variants": []}'));
+
+    await expect(RepurposeService.repurpose(source, ['youtube'])).rejects.toThrow('did not return any variants');
+  });
+});
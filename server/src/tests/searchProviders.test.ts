@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import {
+  createSearchProvider,
+  FallbackSearchProvider,
+  FixtureSearchProvider,
+  JsonApiSearchProvider,
+  SearchProvider,
+  SearxngSearchProvider
+} from '@anidhi/shared';
+
+describe('Search Providers', () => {
+  let server: Server;
+  let baseUrl: string;
+  const requests: { url: string; authorization?: string }[] = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      requests.push({ url: req.url!, ...(req.headers.authorization && { authorization: req.headers.authorization }) });
+      res.setHeader('Content-Type', 'application/json');
+
+      if (req.url!.startsWith('/searxng/search')) {
+        res.end(JSON.stringify({
+          results: [
+            { url: 'https://www.example.org/a', title: 'First', content: 'First snippet', engine: 'duckduckgo', score: 4, publishedDate: '2026-10-01T00:00:00' },
+            { url: 'https://news.example.net/b', title: 'Second', content: 'Second snippet', engine: 'bing', score: 2 }
+          ]
+        }));
+      } else if (req.url!.startsWith('/api/search')) {
+        res.end(JSON.stringify({
+          web: {
+            results: [
+              { link: 'https://blog.example.com/post', title: 'Post', description: 'Post description', date: '2026-09-30' },
+              { title: 'No link' }
+            ]
+          }
+        }));
+      } else {
+        res.statusCode = 502;
+        res.end('{}');
+      }
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  describe('SearxngSearchProvider', () => {
+    it('should map SearXNG results and scale scores to the best hit', async () => {
+      const provider = new SearxngSearchProvider(`${baseUrl}/searxng`);
+
+      const hits = await provider.search('ai agents', { category: 'news' });
+
+      expect(requests.at(-1)!.url).toContain('format=json');
+      expect(requests.at(-1)!.url).toContain('categories=news');
+      expect(hits).toHaveLength(2);
+      expect(hits[0]).toMatchObject({ title: 'First', snippet: 'First snippet', source: 'example.org', score: 1 });
+      expect(hits[0]!.publishedDate).toBeDefined();
+      expect(hits[1]!.score).toBe(0.5);
+    });
+  });
+
+  describe('JsonApiSearchProvider', () => {
+    it('should read results from the configured path and send the api key', async () => {
+      const provider = new JsonApiSearchProvider({
+        url: `${baseUrl}/api/search`,
+        apiKey: 'secret',
+        resultsPath: 'web.results',
+        limitParam: 'count'
+      });
+
+      const hits = await provider.search('ai agents', { maxResults: 3 });
+
+      expect(requests.at(-1)!.url).toContain('count=3');
+      expect(requests.at(-1)!.authorization).toBe('Bearer secret');
+      expect(hits).toEqual([{
+        title: 'Post',
+        url: 'https://blog.example.com/post',
+        snippet: 'Post description',
+        source: 'blog.example.com',
+        publishedDate: new Date('2026-09-30').toISOString()
+      }]);
+    });
+
+    it('should throw when the backend fails', async () => {
+      const provider = new JsonApiSearchProvider({ url: `${baseUrl}/broken` });
+      await expect(provider.search('anything')).rejects.toThrow('status 502');
+    });
+  });
+
+  describe('FixtureSearchProvider', () => {
+    it('should replay hits by normalized query and record calls', async () => {
+      const provider = new FixtureSearchProvider({
+        'AI Agents': [{ title: 'Recorded', url: 'https://example.com/r', snippet: '', source: 'example.com' }]
+      });
+
+      expect(await provider.search('  ai   agents ')).toHaveLength(1);
+      expect(await provider.search('unknown')).toEqual([]);
+      expect(provider.calls.map(call => call.query)).toEqual(['  ai   agents ', 'unknown']);
+    });
+  });
+
+  describe('FallbackSearchProvider', () => {
+    it('should move on to the next provider only when one fails', async () => {
+      const failing: SearchProvider = {
+        name: 'failing',
+        search: async () => { throw new Error('down'); }
+      };
+      const fixture = new FixtureSearchProvider({
+        query: [{ title: 'Hit', url: 'https://example.com', snippet: '', source: 'example.com' }]
+      });
+
+      const provider = new FallbackSearchProvider([failing, fixture]);
+
+      expect(provider.name).toBe('failing>fixture');
+      expect(await provider.search('query')).toHaveLength(1);
+      await expect(new FallbackSearchProvider([failing]).search('query')).rejects.toThrow('down');
+    });
+  });
+
+  describe('createSearchProvider', () => {
+    it('should chain configured providers in the requested order', () => {
+      const provider = createSearchProvider({
+        providers: ['json', 'searxng'],
+        searxngUrl: 'http://searxng.local',
+        jsonApi: { url: 'http://api.local/search' }
+      });
+
+      expect(provider).toBeInstanceOf(FallbackSearchProvider);
+      expect(provider.name).toBe('json>searxng');
+    });
+
+    it('should return a single provider unwrapped', () => {
+      expect(createSearchProvider({ providers: ['fixture'] })).toBeInstanceOf(FixtureSearchProvider);
+    });
+
+    it('should reject a provider without its settings', () => {
+      expect(() => createSearchProvider({ providers: ['searxng'] })).toThrow('SEARXNG_URL');
+    });
+  });
+});
@@ -0,0 +1,20 @@
+import { describe, it, expect } from '@jest/globals';
+import { scoreSentiment } from '@/utils/sentiment';
+
+describe('Sentiment', () => {
+  it('should label texts by their lexicon terms', () => {
+    expect(scoreSentiment('Acme praised for excellent, reliable support')).toEqual({ label: 'positive', score: 1 });
+    expect(scoreSentiment('Customers report another outage and billing complaints')).toEqual({ label: 'negative', score: -1 });
+    expect(scoreSentiment('Acme opens an office in Berlin')).toEqual({ label: 'neutral', score: 0 });
+  });
+
+  it('should damp a single term and balance mixed texts', () => {
+    expect(scoreSentiment('A great quarter')).toEqual({ label: 'positive', score: 0.5 });
+    expect(scoreSentiment('Great product, terrible support').label).toBe('neutral');
+  });
+
+  it('should flip terms after a negation', () => {
+    expect(scoreSentiment('The new release is not reliable and not great').label).toBe('negative');
+    expect(scoreSentiment('Reviewers say it is never slow').label).toBe('positive');
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { UserModel } from '@/models';
+import { SessionService } from '@/services/sessionService';
+import { db, initializeDatabase } from '@/utils/database';
+import { verifyToken } from '@/utils/auth';
+
+describe('Session Service', () => {
+  let testUserId: string;
+  const email = `session-test-${Date.now()}@example.com`;
+
+  beforeAll(async () => {
+    await initializeDatabase();
+    const user = await UserModel.create({
+      email,
+      password: 'hashedpassword123',
+      name: 'Session Test User'
+    });
+    testUserId = user.id;
+  });
+
+  afterAll(async () => {
+    await db.query('DELETE FROM users WHERE id = $1', [testUserId]);
+    await db.end();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM refresh_tokens WHERE user_id = $1', [testUserId]);
+  });
+
+  it('should issue an access token bound to a new session', async () => {
+    const tokens = await SessionService.createSession(testUserId, email, { userAgent: 'jest' });
+    const payload = verifyToken(tokens.accessToken);
+
+    const sessions = await SessionService.listSessions(testUserId, payload.sessionId);
+    expect(sessions.length).toBe(1);
+    expect(sessions[0]!.id).toBe(payload.sessionId);
+    expect(sessions[0]!.current).toBe(true);
+    expect(sessions[0]!.userAgent).toBe('jest');
+  });
+
+  it('should rotate refresh tokens within the same session', async () => {
+    const first = await SessionService.createSession(testUserId, email);
+    const second = await SessionService.refresh(first.refreshToken);
+
+    expect(second.refreshToken).not.toBe(first.refreshToken);
+    expect(verifyToken(second.accessToken).sessionId).toBe(verifyToken(first.accessToken).sessionId);
+
+    const sessions = await SessionService.listSessions(testUserId);
+    expect(sessions.length).toBe(1);
+  });
+
+  it('should revoke the session when a rotated token is reused', async () => {
+    const first = await SessionService.createSession(testUserId, email);
+    const second = await SessionService.refresh(first.refreshToken);
+
+    await expect(SessionService.refresh(first.refreshToken)).rejects.toThrow('Refresh token reuse detected');
+    await expect(SessionService.refresh(second.refreshToken)).rejects.toThrow('Session has been revoked');
+
+    const sessionId = verifyToken(first.accessToken).sessionId!;
+    expect(await SessionService.isSessionActive(sessionId)).toBe(false);
+  });
+
+  it('should revoke a single session', async () => {
+    const kept = await SessionService.createSession(testUserId, email);
+    const revoked = await SessionService.createSession(testUserId, email);
+    const revokedId = verifyToken(revoked.accessToken).sessionId!;
+
+    expect(await SessionService.revokeSession(testUserId, revokedId)).toBe(true);
+
+    const sessions = await SessionService.listSessions(testUserId);
+    expect(sessions.map(session => session.id)).toEqual([verifyToken(kept.accessToken).sessionId]);
+    await expect(SessionService.refresh(revoked.refreshToken)).rejects.toThrow('Session has been revoked');
+  });
+});
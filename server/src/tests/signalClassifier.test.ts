@@ -0,0 +1,71 @@
+import { describe, it, expect } from '@jest/globals';
+import { IntelligenceData } from '@/types';
+import { classifyIntelligence, extractDeadline } from '@/utils/signalClassifier';
+
+describe('Signal Classifier', () => {
+  const now = new Date('2026-10-19T08:00:00Z');
+
+  const item = (overrides: Partial<IntelligenceData>): IntelligenceData => ({
+    id: 'item',
+    userId: 'user',
+    type: 'news',
+    data: {},
+    relevanceScore: 0.5,
+    isActionable: false,
+    source: 'feed',
+    status: 'new',
+    createdAt: now,
+    updatedAt: now,
+    ...overrides
+  });
+
+  it('should find deadlines in text', () => {
+    expect(extractDeadline('Deadline: 2026-11-01', now)).toEqual(new Date('2026-11-01T23:59:59Z'));
+    expect(extractDeadline('Submissions due Nov. 3rd, 2027', now)).toEqual(new Date('2027-11-03T23:59:59Z'));
+    // Without a year, the next occurrence
+    expect(extractDeadline('Applications close January 5', now)).toEqual(new Date('2027-01-05T23:59:59Z'));
+    expect(extractDeadline('Written by Alice', now)).toBeUndefined();
+  });
+
+  it('should classify opportunities with priority and deadline', () => {
+    const speaking = classifyIntelligence(item({
+      data: { title: 'DevConf call for speakers', summary: 'Submit your talk by October 24' }
+    }), now);
+    expect(speaking).toMatchObject({
+      kind: 'opportunity',
+      opportunity: { type: 'speaking', priority: 'high', deadline: new Date('2026-10-24T23:59:59Z') }
+    });
+
+    const trend = classifyIntelligence(item({
+      type: 'trend',
+      data: { title: 'Trend: AI agents', summary: 'AI agents is showing 60% growth' },
+      relevanceScore: 0.6,
+      isActionable: true
+    }), now);
+    expect(trend).toMatchObject({ kind: 'opportunity', opportunity: { type: 'content', priority: 'medium' } });
+  });
+
+  it('should classify threats and keep the details of raised ones', () => {
+    expect(classifyIntelligence(item({
+      data: { title: 'Acme faces lawsuit over data breach' },
+      relevanceScore: 0.8
+    }), now)).toMatchObject({ kind: 'threat', threat: { type: 'reputation', severity: 'high' } });
+
+    expect(classifyIntelligence(item({
+      type: 'competitor',
+      data: { title: 'Competitor: Acme', summary: 'Acme has high content activity' },
+      isActionable: true
+    }), now)).toMatchObject({ kind: 'threat', threat: { type: 'competition' } });
+
+    expect(classifyIntelligence(item({
+      type: 'threat',
+      data: { title: 'Negative mentions of Acme are spiking', type: 'negative_sentiment', severity: 'low', mitigation: ['Respond'] },
+      relevanceScore: 0.9
+    }), now)).toMatchObject({ kind: 'threat', threat: { type: 'negative_sentiment', severity: 'low', mitigation: ['Respond'] } });
+  });
+
+  it('should leave items without a signal alone', () => {
+    expect(classifyIntelligence(item({ data: { title: 'Weekly roundup of links' } }), now)).toBeNull();
+    expect(classifyIntelligence(item({ type: 'trend', data: { title: 'Trend: Low code' } }), now)).toBeNull();
+  });
+});
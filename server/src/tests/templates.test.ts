@@ -0,0 +1,23 @@
+import { describe, it, expect } from '@jest/globals';
+import { renderTemplate } from '@/utils/templates';
+
+describe('Templates', () => {
+  it('should insert values and read nested paths', () => {
+    expect(renderTemplate('Hi {{name}}, {{ user.plan }}{{missing}}!', { name: 'Ada', user: { plan: 'pro' } }))
+      .toBe('Hi Ada, pro!');
+  });
+
+  it('should escape values only when asked', () => {
+    expect(renderTemplate('<b>{{title}}</b>', { title: 'R&D <team>' }, { escape: true }))
+      .toBe('<b>R&amp;D &lt;team&gt;</b>');
+    expect(renderTemplate('{{title}}', { title: 'R&D' })).toBe('R&D');
+  });
+
+  it('should repeat sections over lists and skip empty ones', () => {
+    const template = '{{#items}}[{{name}}{{#note}}: {{note}}{{/note}}]{{/items}}{{^items}}none{{/items}}';
+
+    expect(renderTemplate(template, { items: [{ name: 'a', note: 'x' }, { name: 'b' }] })).toBe('[a: x][b]');
+    expect(renderTemplate(template, { items: [] })).toBe('none');
+    expect(renderTemplate('{{#tags}}#{{.}} {{/tags}}', { tags: ['ai', 'ml'] })).toBe('#ai #ml ');
+  });
+});
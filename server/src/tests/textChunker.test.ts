@@ -0,0 +1,55 @@
+import { describe, it, expect } from '@jest/globals';
+import { chunkText } from '@/utils/textChunker';
+
+const paragraph = (label: string, sentences: number) =>
+  Array.from({ length: sentences }, (_, i) => `${label} sentence ${i} ends here.`).join(' ');
+
+describe('chunkText', () => {
+  it('should return short text as a single chunk', () => {
+    const chunks = chunkText('A short post', { maxChars: 100 });
+    expect(chunks).toEqual([{ index: 0, content: 'A short post', start: 0, end: 12 }]);
+  });
+
+  it('should keep chunks within the size limit and map offsets back to the text', () => {
+    const text = [paragraph('Alpha', 8), paragraph('Beta', 30), paragraph('Gamma', 4)].join('\n\n');
+    const chunks = chunkText(text, { maxChars: 400, overlap: 80 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach((chunk, i) => {
+      expect(chunk.index).toBe(i);
+      expect(chunk.content.length).toBeLessThanOrEqual(400);
+      expect(text.slice(chunk.start, chunk.end)).toBe(chunk.content);
+    });
+    expect(chunks[chunks.length - 1]!.end).toBe(text.length);
+  });
+
+  it('should prefer breaking at paragraph boundaries', () => {
+    const first = paragraph('Alpha', 8);
+    const text = [first, paragraph('Beta', 30)].join('\n\n');
+    const [chunk] = chunkText(text, { maxChars: 400 });
+
+    expect(chunk!.content).toBe(first);
+  });
+
+  it('should overlap consecutive chunks by whole sentences', () => {
+    const text = paragraph('Beta', 40);
+    const chunks = chunkText(text, { maxChars: 300, overlap: 60 });
+
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i]!.start).toBeLessThan(chunks[i - 1]!.end);
+      expect(chunks[i - 1]!.end - chunks[i]!.start).toBeLessThanOrEqual(60);
+      expect(chunks[i]!.content).toMatch(/^Beta sentence/);
+    }
+  });
+
+  it('should split text without sentence breaks at word boundaries', () => {
+    const text = Array.from({ length: 200 }, (_, i) => `word${i}`).join(' ');
+    const chunks = chunkText(text, { maxChars: 250, overlap: 0 });
+
+    chunks.forEach(chunk => {
+      expect(chunk.content.length).toBeLessThanOrEqual(250);
+      expect(chunk.content).toMatch(/^word\d+/);
+      expect(chunk.content).toMatch(/word\d+$/);
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from '@jest/globals';
+import { splitThread, TWEET_LIMIT } from '@/utils/threadSplitter';
+
+const sentences = (count: number) =>
+  Array.from({ length: count }, (_, i) => `Sentence ${i} explains one more thing about agents.`).join(' ');
+
+describe('splitThread', () => {
+  it('should leave a short post whole and unnumbered', () => {
+    expect(splitThread('Agents are here.')).toEqual(['Agents are here.']);
+  });
+
+  it('should keep every numbered post within the limit', () => {
+    const posts = splitThread(sentences(40));
+
+    expect(posts.length).toBeGreaterThan(1);
+    posts.forEach((post, i) => {
+      expect(post.length).toBeLessThanOrEqual(TWEET_LIMIT);
+      expect(post.endsWith(` ${i + 1}/${posts.length}`)).toBe(true);
+    });
+  });
+
+  it('should start a new post at each blank line and break long paragraphs between sentences', () => {
+    const posts = splitThread(`The hook.\n\n${sentences(12)}\n\nThe end.`);
+
+    expect(posts[0]).toBe(`The hook. 1/${posts.length}`);
+    expect(posts[posts.length - 1]).toBe(`The end. ${posts.length}/${posts.length}`);
+    posts.slice(1, -1).forEach(post => expect(post).toMatch(/^Sentence \d+ .*\. \d+\/\d+$/));
+  });
+
+  it('should cut words longer than a post', () => {
+    const posts = splitThread(`See ${'x'.repeat(400)}`, 100);
+
+    expect(posts.length).toBeGreaterThan(1);
+    posts.forEach(post => expect(post.length).toBeLessThanOrEqual(100));
+    expect(posts.map(post => post.replace(/ \d+\/\d+$/, '')).join('')).toBe(`See${'x'.repeat(400)}`);
+  });
+});
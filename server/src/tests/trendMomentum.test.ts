@@ -0,0 +1,48 @@
+import { describe, it, expect } from '@jest/globals';
+import { computeMomentum, slopeOf } from '@/utils/trendMomentum';
+import { TrendPoint } from '@/types';
+
+describe('Trend Momentum', () => {
+  const series = (volumes: number[]): TrendPoint[] =>
+    volumes.map((volume, index) => ({ date: `2026-10-${String(index + 1).padStart(2, '0')}`, volume }));
+
+  it('should measure the slope per day across gaps', () => {
+    expect(slopeOf(series([10, 12, 14]))).toBe(2);
+    expect(slopeOf([{ date: '2026-10-01', volume: 10 }, { date: '2026-10-05', volume: 18 }])).toBe(2);
+    expect(slopeOf(series([10]))).toBe(0);
+  });
+
+  it('should flag a rising trend whose slope is increasing as accelerating', () => {
+    expect(computeMomentum('AI agents', series([10, 10, 11, 12, 15, 20, 28]))).toEqual({
+      keyword: 'AI agents',
+      observations: 7,
+      latest: 28,
+      shortAverage: 21,
+      longAverage: 15.14,
+      slope: 2.79,
+      growth: 90.9,
+      acceleration: 0.304,
+      direction: 'rising',
+      accelerating: true
+    });
+  });
+
+  it('should not flag steady growth as accelerating', () => {
+    const momentum = computeMomentum('Low code', series([10, 12, 14, 16, 18, 20, 22]));
+    expect(momentum.direction).toBe('rising');
+    expect(momentum.acceleration).toBe(0);
+    expect(momentum.accelerating).toBe(false);
+  });
+
+  it('should classify declining and flat trends', () => {
+    expect(computeMomentum('Web3', series([30, 27, 24, 22, 20, 18, 15])).direction).toBe('declining');
+    expect(computeMomentum('Email', series([12, 11, 12, 12, 11, 12, 12])).direction).toBe('stable');
+  });
+
+  it('should call a trend stable until it has enough history', () => {
+    const momentum = computeMomentum('New', series([5, 10, 20]));
+    expect(momentum.direction).toBe('stable');
+    expect(momentum.accelerating).toBe(false);
+    expect(computeMomentum('None', []).observations).toBe(0);
+  });
+});
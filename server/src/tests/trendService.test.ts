@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { FixtureSearchProvider } from '@anidhi/shared';
+import { UserModel, TrendObservationModel } from '@/models';
+import { TrendService } from '@/services/trendService';
+import { WebSearchService } from '@/services/webSearchService';
+import { setSearchProvider } from '@/utils/searchProviders';
+import { db, initializeDatabase } from '@/utils/database';
+
+describe('Trend Service', () => {
+  let testUserId: string;
+
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const now = new Date('2026-10-19T12:00:00Z');
+  const daysAgo = (days: number) => new Date(now.getTime() - days * DAY_MS);
+
+  const observeDaily = async (keyword: string, volumes: number[]) => {
+    for (const [index, volume] of volumes.entries()) {
+      await TrendObservationModel.create({
+        userId: testUserId,
+        keyword,
+        category: 'technology',
+        volume,
+        source: 'web_search',
+        observedAt: daysAgo(volumes.length - index)
+      });
+    }
+  };
+
+  beforeAll(async () => {
+    await initializeDatabase();
+
+    const user = await UserModel.create({
+      email: `trend-test-${Date.now()}@example.com`,
+      password: 'hashedpassword123',
+      name: 'Trend Test User'
+    });
+    testUserId = user.id;
+  });
+
+  afterAll(async () => {
+    await db.query('DELETE FROM users WHERE id = $1', [testUserId]);
+    await db.end();
+  });
+
+  beforeEach(async () => {
+    await db.query('DELETE FROM trend_observations WHERE user_id = $1', [testUserId]);
+  });
+
+  it('should compute momentum including the new observation', async () => {
+    await observeDaily('AI agents', [10, 10, 11, 12, 15, 20]);
+
+    const [momentum] = await TrendService.observe(testUserId, [
+      { keyword: 'ai agents', category: 'technology', volume: 28 }
+    ], 'web_search', now);
+
+    expect(momentum!.observations).toBe(7);
+    expect(momentum!.latest).toBe(28);
+    expect(momentum!.direction).toBe('rising');
+    expect(momentum!.accelerating).toBe(true);
+  });
+
+  it('should average observations made on the same day', async () => {
+    await TrendService.observe(testUserId, [{ keyword: 'Low code', category: 'technology', volume: 4 }], 'web_search', now);
+    await TrendService.observe(testUserId, [{ keyword: 'Low code', category: 'technology', volume: 8 }], 'huginn', now);
+
+    const { series } = await TrendService.getHistory(testUserId, 'Low code', now);
+    expect(series).toEqual([{ date: '2026-10-19', volume: 6 }]);
+  });
+
+  it('should list trends in the window with accelerating ones first', async () => {
+    await observeDaily('Low code', [10, 12, 14, 16, 18, 20, 22]);
+    await observeDaily('AI agents', [10, 10, 11, 12, 15, 20, 28]);
+    await TrendObservationModel.create({
+      userId: testUserId,
+      keyword: 'Web3',
+      category: 'technology',
+      volume: 50,
+      source: 'web_search',
+      observedAt: daysAgo(45)
+    });
+
+    const trends = await TrendService.listMomentum(testUserId, now);
+    expect(trends.map(trend => trend.keyword)).toEqual(['AI agents', 'Low code']);
+    expect(trends[0]!.accelerating).toBe(true);
+    expect(trends[1]).toMatchObject({ direction: 'rising', accelerating: false, category: 'technology' });
+  });
+
+  it('should measure trend volume against industry-wide results only', async () => {
+    const hit = (title: string) =>
+      ({ title, url: `https://news.example.com/${title.toLowerCase().replace(/\s+/g, '-')}`, snippet: '', source: 'news.example.com' });
+
+    setSearchProvider(new FixtureSearchProvider({
+      'fintech trends 2024': [hit('AI agents reach banking'), hit('Open banking grows')],
+      'fintech industry insights': [hit('Payments consolidate'), hit('Regulators look at lending')],
+      // Every result of a keyword's own query mentions it
+      'ai agents fintech': [hit('AI agents for fraud'), hit('AI agents in support'), hit('AI agents raise funding')]
+    }));
+
+    try {
+      const { trends, searchResults } = await WebSearchService.searchIndustryTrends(testUserId, 'fintech', ['AI agents']);
+
+      expect(trends[0]).toMatchObject({ keyword: 'AI agents', volume: 25 });
+      expect(trends[0]!.sources).toEqual(['news.example.com']);
+      expect(searchResults).toHaveLength(7);
+    } finally {
+      setSearchProvider(null);
+    }
+  });
+});
@@ -3,6 +3,7 @@ import { VectorDatabaseService } from '@/utils/vectorDatabase';
 import { EmbeddingService } from '@/services/embeddingService';
 import { UserModel } from '@/models';
 import { initializeDatabase } from '@/utils/database';
+import { FakeEmbeddingProvider, getEmbeddingProvider, setEmbeddingProvider } from '@/utils/embeddingProviders';
 
 // Mock OpenAI to avoid API calls during testing
 jest.mock('openai', () => {
@@ -10,11 +11,12 @@ jest.mock('openai', () => {
     __esModule: true,
     default: jest.fn().mockImplementation(() => ({
       embeddings: {
-        create: jest.fn().mockResolvedValue({
-          data: [{
+        create: jest.fn().mockImplementation(({ input }: { input: string[] }) => Promise.resolve({
+          data: input.map((_, index) => ({
+            index,
             embedding: Array(1536).fill(0).map(() => Math.random())
-          }]
-        })
+          }))
+        }))
       }
     }))
   };
@@ -215,6 +217,112 @@ describe('Vector Database Service', () => {
     });
   });
 
+  describe('Hybrid Search', () => {
+    beforeEach(async () => {
+      await VectorDatabaseService.storeDocument({
+        userId: testUserId,
+        content: 'Launch recap for #BuildInPublic with the Anidhi team',
+        metadata: { platform: 'twitter', contentType: 'post' },
+        documentType: 'content'
+      });
+
+      await VectorDatabaseService.storeDocument({
+        userId: testUserId,
+        content: 'Quarterly thoughts on leadership and hiring',
+        metadata: { platform: 'linkedin', contentType: 'article' },
+        documentType: 'content'
+      });
+    });
+
+    it('should find exact keyword matches and highlight them', async () => {
+      const results = await VectorDatabaseService.hybridSearch('#BuildInPublic', testUserId, { threshold: 0.99 });
+
+      expect(results.length).toBe(1);
+      expect(results[0].keywordRank).toBe(1);
+      expect(results[0].document.content).toContain('#BuildInPublic');
+
+      const [highlight] = results[0].highlights;
+      expect(highlight).toBeTruthy();
+      expect(results[0].snippet.slice(highlight!.start, highlight!.end)).toBe('BuildInPublic');
+    });
+
+    it('should apply metadata filters', async () => {
+      const results = await VectorDatabaseService.hybridSearch('leadership launch', testUserId, {
+        platform: 'linkedin',
+        contentType: 'article'
+      });
+
+      expect(results.length).toBeGreaterThan(0);
+      results.forEach(result => {
+        expect(result.document.metadata.platform).toBe('linkedin');
+      });
+    });
+
+    it('should rank documents matched by both methods first', async () => {
+      const results = await VectorDatabaseService.hybridSearch('leadership and hiring', testUserId);
+
+      expect(results[0].document.content).toContain('leadership');
+      expect(results[0].score).toBeGreaterThanOrEqual(results[results.length - 1].score);
+    });
+  });
+
+  describe('Document Chunking', () => {
+    const longContent = [
+      Array(40).fill('Our hiring process starts with a short take-home exercise.').join(' '),
+      Array(40).fill('Kubernetes autoscaling keeps the ingestion pipeline responsive.').join(' ')
+    ].join('\n\n');
+
+    it('should store long content as chunks linked to one document', async () => {
+      const document = await VectorDatabaseService.storeDocument({
+        userId: testUserId,
+        content: longContent,
+        metadata: { source: 'profile' },
+        documentType: 'content'
+      });
+
+      expect(document.content).toBe(longContent);
+
+      const documents = await VectorDatabaseService.getUserDocuments(testUserId);
+      expect(documents.length).toBe(1);
+      expect(documents[0].id).toBe(document.id);
+    });
+
+    it('should group chunk hits under the parent document', async () => {
+      const document = await VectorDatabaseService.storeDocument({
+        userId: testUserId,
+        content: longContent,
+        metadata: {},
+        documentType: 'content'
+      });
+
+      const results = await VectorDatabaseService.hybridSearch('Kubernetes autoscaling', testUserId);
+
+      expect(results.length).toBe(1);
+      expect(results[0].document.id).toBe(document.id);
+      expect(results[0].keywordRank).toBe(1);
+      expect(results[0].chunks.some(chunk =>
+        longContent.slice(chunk.start, chunk.end).includes('Kubernetes')
+      )).toBe(true);
+    });
+
+    it('should remove chunks when content becomes short', async () => {
+      const document = await VectorDatabaseService.storeDocument({
+        userId: testUserId,
+        content: longContent,
+        metadata: {},
+        documentType: 'content'
+      });
+
+      await VectorDatabaseService.updateDocument(document.id, { content: 'Now a short note' });
+
+      const results = await VectorDatabaseService.hybridSearch('hiring Kubernetes', testUserId);
+      results.forEach(result => {
+        expect(result.keywordRank).toBeNull();
+        expect(result.chunks).toEqual([]);
+      });
+    });
+  });
+
   describe('User Document Management', () => {
     it('should get all documents for a user', async () => {
       await VectorDatabaseService.storeDocument({
@@ -239,6 +347,28 @@ describe('Vector Database Service', () => {
       expect(contentDocs[0].documentType).toBe('content');
     });
 
+    it('should find the document linked to a content item', async () => {
+      const stored = await VectorDatabaseService.storeDocument({
+        userId: testUserId,
+        content: 'Linked content',
+        metadata: { contentId: 'content-1' },
+        documentType: 'content'
+      });
+
+      await VectorDatabaseService.storeDocument({
+        userId: testUserId,
+        content: 'Other content',
+        metadata: { contentId: 'content-2' },
+        documentType: 'content'
+      });
+
+      const found = await VectorDatabaseService.getContentDocument(testUserId, 'content-1');
+      expect(found?.id).toBe(stored.id);
+
+      const missing = await VectorDatabaseService.getContentDocument(testUserId, 'content-3');
+      expect(missing).toBeNull();
+    });
+
     it('should get document statistics', async () => {
       await VectorDatabaseService.storeDocument({
         userId: testUserId,
@@ -287,6 +417,27 @@ describe('Vector Database Service', () => {
         expect(doc.metadata.batch).toBe(1);
       });
     });
+
+    it('should embed a batch in one call and reuse cached embeddings', async () => {
+      const previous = getEmbeddingProvider();
+      const provider = new FakeEmbeddingProvider(previous.dimensions);
+      setEmbeddingProvider(provider);
+
+      try {
+        // Unique text so entries cached by earlier runs don't hide the first call
+        const one = `Cached batch text one ${Date.now()}`;
+        const two = `Cached batch text two ${Date.now()}`;
+        const first = await VectorDatabaseService.generateEmbeddings([one, two, one]);
+        const second = await VectorDatabaseService.generateEmbeddings([one, two, one]);
+
+        expect(provider.calls).toEqual([[one, two]]);
+        expect(first[0]).toEqual(first[2]);
+        expect(second[1]!.length).toBe(previous.dimensions);
+        expect(second[1]![0]).toBeCloseTo(first[1]![0]!, 5);
+      } finally {
+        setEmbeddingProvider(previous);
+      }
+    });
   });
 });
 
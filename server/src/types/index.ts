@@ -1,3 +1,5 @@
+import type { FeedFormat } from '@anidhi/shared';
+
 export interface User {
   id: string;
   email: string;
@@ -52,6 +54,58 @@ export interface AuthResponse {
 export interface JWTPayload {
   userId: string;
   email: string;
+  // Session (refresh token family) the access token was issued for
+  sessionId?: string;
+  iat: number;
+  exp: number;
+}
+
+export interface RefreshToken {
+  id: string;
+  userId: string;
+  // All tokens rotated from the same login share a family, which is the session
+  familyId: string;
+  tokenHash: string;
+  userAgent?: string;
+  ipAddress?: string;
+  expiresAt: Date;
+  createdAt: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  replacedBy?: string;
+}
+
+export interface Session {
+  id: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  current: boolean;
+}
+
+export interface SessionMetadata {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export type AuthTokenPurpose = 'email_verification' | 'password_reset';
+
+// Single-use token sent by email; the emailed JWT carries the id as its jti
+export interface AuthToken {
+  id: string;
+  userId: string;
+  purpose: AuthTokenPurpose;
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt: Date;
+}
+
+export interface AuthTokenPayload {
+  userId: string;
+  purpose: AuthTokenPurpose;
+  jti: string;
   iat: number;
   exp: number;
 }
@@ -68,10 +122,22 @@ export interface Content {
   brandAlignment: number;
   performanceScore: number;
   status: 'draft' | 'published' | 'archived';
+  // The content item this one was repurposed from
+  parentId?: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface ContentFilters {
+  platform?: string;
+  status?: Content['status'];
+  tags?: string[];
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
 export interface ContentPerformance {
   views: number;
   likes: number;
@@ -104,6 +170,7 @@ export interface ProjectTimeline {
 
 export interface ProjectMilestone {
   id: string;
+  projectId: string;
   name: string;
   description: string;
   targetDate: Date;
@@ -113,26 +180,153 @@ export interface ProjectMilestone {
 
 export interface ProjectDeadline {
   id: string;
+  projectId: string;
   name: string;
   date: Date;
   priority: 'low' | 'medium' | 'high';
   completed: boolean;
 }
 
+export interface ProjectProgress {
+  milestonesTotal: number;
+  milestonesCompleted: number;
+  deadlinesTotal: number;
+  deadlinesCompleted: number;
+  overdueDeadlines: number;
+  linkedContent: number;
+  publishedContent: number;
+  completionRate: number;
+}
+
 // Intelligence and Context Types
+export type IntelligenceType = 'trend' | 'competitor' | 'opportunity' | 'threat' | 'news';
+
+// Triage state of a feed item
+export type IntelligenceStatus = 'new' | 'saved' | 'dismissed' | 'acted_on';
+
 export interface IntelligenceData {
   id: string;
   userId: string;
-  type: 'trend' | 'competitor' | 'opportunity' | 'threat' | 'news';
+  type: IntelligenceType;
   data: Record<string, any>;
   relevanceScore: number;
   isActionable: boolean;
   source?: string;
+  // Stable key for items produced by automated sources, so re-runs update instead of duplicating
+  fingerprint?: string;
+  status: IntelligenceStatus;
+  statusChangedAt?: Date;
   expiresAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type IntelligenceDataInput = Omit<IntelligenceData, 'id' | 'status' | 'statusChangedAt' | 'createdAt' | 'updatedAt'>;
+
+export interface IntelligenceFeedFilters {
+  types?: IntelligenceType[];
+  statuses?: IntelligenceStatus[];
+  minRelevance?: number;
+  actionableOnly?: boolean;
+  sort?: 'relevance' | 'recent';
+  limit?: number;
+  offset?: number;
+}
+
+export type { FeedEntry, FeedFormat, ParsedFeed } from '@anidhi/shared';
+
+export interface FeedSubscription {
+  id: string;
+  userId: string;
+  url: string;
+  title?: string;
+  siteUrl?: string;
+  format?: FeedFormat;
+  etag?: string;
+  lastModified?: string;
+  pollIntervalMinutes: number;
+  isActive: boolean;
+  lastPolledAt?: Date;
+  lastError?: string;
+  errorCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// What an ingested webhook event becomes
+export type IngestTarget = 'intelligence' | 'trend' | 'writing_sample';
+
+// Declarative mapping from a webhook payload to a record. Field values are
+// literals or templates where {{path.to.value}} reads from the payload.
+export interface IngestMapping {
+  target: IngestTarget;
+  fields: Record<string, string | number | boolean>;
+  // Template for the key that identifies repeat deliveries of the same event
+  idempotencyKey?: string;
+}
+
+export interface IngestSource {
+  id: string;
+  userId: string;
+  name: string;
+  mapping: IngestMapping;
+  isActive: boolean;
+  lastEventAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IngestDeadLetter {
+  id: string;
+  sourceId: string;
+  idempotencyKey: string;
+  // Raw request body as received
+  body: string;
+  error: string;
+  attempts: number;
+  lastAttemptAt: Date;
+  resolvedAt?: Date;
+  createdAt: Date;
+}
+
+// Background jobs users can run or schedule, plus system maintenance
+export type JobType = 'trend_refresh' | 'competitor_monitor' | 'brand_mention_scan' | 'intelligence_cleanup' | 'deadline_reminders' | 'notification_digest';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface Job {
+  id: string;
+  // Unset for system jobs
+  userId?: string;
+  scheduleId?: string;
+  type: JobType;
+  payload: Record<string, any>;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+  lockedAt?: Date;
+  lastError?: string;
+  result?: Record<string, any>;
+  startedAt?: Date;
+  finishedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface JobSchedule {
+  id: string;
+  userId?: string;
+  type: JobType;
+  payload: Record<string, any>;
+  cron: string;
+  isActive: boolean;
+  nextRunAt: Date;
+  lastRunAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface UserContext {
   id: string;
   userId: string;
@@ -154,15 +348,35 @@ export interface BrandStrategy {
   voiceAndTone: VoiceProfile;
   platformStrategy: PlatformStrategy;
   isActive: boolean;
+  version: number;
+  parentId?: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface BrandStrategyChange {
+  field: string;
+  before: any;
+  after: any;
+  added?: string[];
+  removed?: string[];
+}
+
+export interface BrandStrategyDiff {
+  fromId: string;
+  toId: string;
+  fromVersion: number;
+  toVersion: number;
+  changes: BrandStrategyChange[];
+}
+
 export interface VoiceProfile {
   tone: string;
   personality: string[];
   vocabulary: string;
   writingStyle: string;
+  // Phrases drafts must not use, matched case-insensitively
+  bannedPhrases?: string[];
 }
 
 export interface PlatformStrategy {
@@ -182,27 +396,115 @@ export interface PlatformConfig {
 }
 
 // External Intelligence Types
+export type TrendDirection = 'rising' | 'stable' | 'declining';
+
 export interface TrendData {
   id: string;
   topic: string;
   industry: string;
   trendScore: number;
-  momentum: 'rising' | 'stable' | 'declining';
+  momentum: TrendDirection;
   keywords: string[];
   sources: string[];
   detectedAt: Date;
   relevanceToUser: number;
 }
 
-export interface CompetitorProfile {
+// One measurement of a trend's volume, such as the search results mentioning it
+export interface TrendObservation {
   id: string;
+  userId: string;
+  keyword: string;
+  category: string;
+  industry?: string;
+  volume: number;
+  source: string;
+  observedAt: Date;
+}
+
+// Daily average volume of a trend
+export interface TrendPoint {
+  date: string;
+  volume: number;
+}
+
+// Momentum of a trend computed from its daily volumes
+export interface TrendMomentum {
+  keyword: string;
+  // Days with observations in the window
+  observations: number;
+  latest: number;
+  // Moving averages over the last 3 and 7 days with observations
+  shortAverage: number;
+  longAverage: number;
+  // Change in volume per day over the long window, least squares
+  slope: number;
+  // Percentage change of the short average against the 3 days before it
+  growth: number;
+  // Change in slope between the older and newer half of the long window, relative to the long average
+  acceleration: number;
+  direction: TrendDirection;
+  accelerating: boolean;
+}
+
+export type ContentFrequency = 'low' | 'moderate' | 'high';
+
+// A competitor on a user's watchlist
+export interface Competitor {
+  id: string;
+  userId: string;
   name: string;
+  domain?: string;
   industry: string;
-  platforms: string[];
-  strengths: string[];
-  contentStrategy: string[];
-  engagementMetrics: Record<string, number>;
-  lastAnalyzed: Date;
+  isActive: boolean;
+  // Embedding of the latest snapshot, kept up to date for similarity search
+  vectorDocumentId?: string;
+  lastSnapshotAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CompetitorSocialPresence {
+  platform: string;
+  followers?: number;
+  engagement?: number;
+}
+
+// What a competitor looked like at one point in time
+export interface CompetitorSnapshot {
+  id: string;
+  competitorId: string;
+  keyTopics: string[];
+  contentFrequency: ContentFrequency;
+  // Posts seen in the 30 days before the snapshot
+  recentPostCount: number;
+  socialPresence: CompetitorSocialPresence[];
+  recentContent: { title: string; url: string; publishedDate?: Date }[];
+  capturedAt: Date;
+}
+
+export interface CompetitorPlatformChange {
+  platform: string;
+  followersBefore: number | null;
+  followersAfter: number | null;
+  engagementBefore: number | null;
+  engagementAfter: number | null;
+}
+
+export interface CompetitorDiff {
+  competitorId: string;
+  fromId: string;
+  toId: string;
+  fromCapturedAt: Date;
+  toCapturedAt: Date;
+  topicsAdded: string[];
+  topicsRemoved: string[];
+  contentFrequency: { before: ContentFrequency; after: ContentFrequency } | null;
+  recentPostCount: { before: number; after: number };
+  platformsAdded: string[];
+  platformsRemoved: string[];
+  platformChanges: CompetitorPlatformChange[];
+  newContent: { title: string; url: string }[];
 }
 
 export interface Opportunity {
@@ -228,6 +530,88 @@ export interface Threat {
   detectedAt: Date;
 }
 
+// Column of the opportunity and threat pipeline
+export type PipelineStage = 'detected' | 'pursuing' | 'done' | 'ignored';
+
+export type PipelineKind = 'opportunity' | 'threat';
+
+// An opportunity or threat classified from an intelligence item, tracked through the pipeline
+export interface PipelineItem {
+  id: string;
+  userId: string;
+  kind: PipelineKind;
+  // Opportunity['type'] for opportunities, Threat['type'] for threats
+  category: Opportunity['type'] | Threat['type'];
+  title: string;
+  description: string;
+  // An opportunity's priority or a threat's severity
+  priority: 'low' | 'medium' | 'high';
+  deadline?: Date;
+  source: string;
+  // An opportunity's actionRequired or a threat's mitigation
+  actions: string[];
+  stage: PipelineStage;
+  intelligenceId?: string;
+  projectId?: string;
+  detectedAt: Date;
+  stageChangedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PipelineFilters {
+  kind?: PipelineKind;
+  stages?: PipelineStage[];
+}
+
+export type MentionSentiment = 'positive' | 'negative' | 'neutral';
+
+// A web page that mentions one of the user's brands
+export interface BrandMention {
+  id: string;
+  userId: string;
+  brand: string;
+  // The monitored keyword the mention matched, if any
+  keyword?: string;
+  url: string;
+  title: string;
+  snippet?: string;
+  source: string;
+  sentiment: MentionSentiment;
+  // -1 to 1
+  sentimentScore: number;
+  publishedAt?: Date;
+  createdAt: Date;
+}
+
+export interface BrandMentionFilters {
+  brand?: string;
+  keyword?: string;
+  sentiment?: MentionSentiment;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+export interface BrandMentionSummary {
+  brand: string;
+  keywords: string[];
+  total: number;
+  negative: number;
+  lastSeenAt: Date;
+}
+
+// One day of mentions; days are taken from publish dates, or when first seen
+export interface SentimentSeriesPoint {
+  date: string;
+  positive: number;
+  negative: number;
+  neutral: number;
+  total: number;
+  averageScore: number;
+}
+
 export interface SentimentAnalysis {
   overall: number;
   positive: number;
@@ -236,4 +620,110 @@ export interface SentimentAnalysis {
   sources: string[];
   keywords: string[];
   analyzedAt: Date;
-}
\ No newline at end of file
+}
+
+// Actionable intelligence, finished background analyses and upcoming project dates
+export type NotificationType = 'alert' | 'analysis' | 'deadline';
+
+export type DigestFrequency = 'off' | 'daily' | 'weekly';
+
+export interface Notification {
+  id: string;
+  userId: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  // Client route the notification opens
+  link?: string;
+  data: Record<string, any>;
+  // Notifications with the same key are only created once per user
+  dedupeKey?: string;
+  readAt?: Date;
+  createdAt: Date;
+}
+
+export type NotificationInput = Omit<Notification, 'id' | 'userId' | 'data' | 'readAt' | 'createdAt'> & {
+  data?: Record<string, any>;
+};
+
+export interface NotificationFilters {
+  unreadOnly?: boolean;
+  types?: NotificationType[];
+  limit?: number;
+  offset?: number;
+}
+
+export interface NotificationPreferences {
+  userId: string;
+  // Types that are neither shown nor emailed
+  mutedTypes: NotificationType[];
+  digestFrequency: DigestFrequency;
+  lastDigestAt?: Date;
+}
+
+// What an LLM call is for; each task picks its own model
+export type LlmTask = 'content_generation' | 'content_strategy' | 'analysis' | 'classification';
+
+export interface LlmUsageRecord {
+  id: string;
+  userId: string;
+  task: LlmTask;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  createdAt: Date;
+}
+
+export interface LlmUsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface LlmUsageSummary {
+  from: Date;
+  totals: LlmUsageTotals;
+  byTask: (LlmUsageTotals & { task: LlmTask })[];
+  byModel: (LlmUsageTotals & { provider: string; model: string })[];
+}
+
+// Ways a draft can match or miss the user's voice and brand strategy
+export type AlignmentDimension = 'sentence_length' | 'formality' | 'vocabulary' | 'pillars' | 'banned_phrases';
+
+export interface AlignmentCheck {
+  dimension: AlignmentDimension;
+  // 0-1
+  score: number;
+  weight: number;
+  explanation: string;
+}
+
+export interface BrandAlignmentReport {
+  // Weighted mean of the checks that could run, 0-1
+  score: number;
+  checks: AlignmentCheck[];
+  // Why checks were skipped, e.g. no writing style profile yet
+  missing: string[];
+}
+
+// Where a hashtag suggestion comes from
+export type HashtagSignal = 'strategy' | 'history' | 'trend' | 'topic';
+
+export interface HashtagSuggestion {
+  tag: string;
+  // Weighted sum of the signals behind it, 0-1
+  score: number;
+  signals: HashtagSignal[];
+  // One explanation per signal
+  reasons: string[];
+}
+
+export interface HashtagRecommendations {
+  platform?: string;
+  // Most hashtags worth using on the platform
+  cap: number;
+  suggestions: HashtagSuggestion[];
+}
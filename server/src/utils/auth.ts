@@ -1,9 +1,11 @@
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
-import { JWTPayload, AuthTokens } from '@/types';
+import { createHash, randomBytes } from 'crypto';
+import { AuthTokenPayload, AuthTokenPurpose, JWTPayload } from '@/types';
 
-const JWT_SECRET = process.env.JWT_SECRET || 'your-fallback-secret-key';
-const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '7d';
+const JWT_SECRET = process.env['JWT_SECRET'] || 'your-fallback-secret-key';
+const JWT_EXPIRES_IN = process.env['JWT_EXPIRES_IN'] || '15m';
+export const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env['REFRESH_TOKEN_TTL_DAYS'] || '') || 30;
 
 export const hashPassword = async (password: string): Promise<string> => {
   const saltRounds = 12;
@@ -14,33 +16,62 @@ export const comparePassword = async (password: string, hashedPassword: string):
   return bcrypt.compare(password, hashedPassword);
 };
 
-export const generateTokens = (userId: string, email: string): AuthTokens => {
+export const generateAccessToken = (userId: string, email: string, sessionId: string): string => {
   const payload: Omit<JWTPayload, 'iat' | 'exp'> = {
     userId,
     email,
+    sessionId,
   };
 
-  const accessToken = jwt.sign(payload, JWT_SECRET, {
+  return jwt.sign(payload, JWT_SECRET, {
     expiresIn: JWT_EXPIRES_IN,
   });
+};
+
+// Refresh tokens are opaque random strings; only their hash is stored
+export const generateRefreshToken = (): string => {
+  return randomBytes(48).toString('base64url');
+};
+
+export const hashToken = (token: string): string => {
+  return createHash('sha256').update(token).digest('hex');
+};
 
-  // For now, we'll use the same token for refresh. In production, implement proper refresh token logic
-  const refreshToken = jwt.sign(payload, JWT_SECRET, {
-    expiresIn: '30d',
+// Emailed tokens are signed like access tokens but scoped to a single purpose
+export const generateAuthToken = (userId: string, purpose: AuthTokenPurpose, tokenId: string, expiresAt: Date): string => {
+  return jwt.sign({ userId, purpose }, JWT_SECRET, {
+    jwtid: tokenId,
+    expiresIn: Math.max(1, Math.floor((expiresAt.getTime() - Date.now()) / 1000)),
   });
+};
 
-  return {
-    accessToken,
-    refreshToken,
-  };
+export const verifyAuthToken = (token: string, purpose: AuthTokenPurpose): AuthTokenPayload => {
+  let payload: AuthTokenPayload;
+  try {
+    payload = jwt.verify(token, JWT_SECRET) as AuthTokenPayload;
+  } catch (error) {
+    throw new Error('Invalid token');
+  }
+
+  if (payload.purpose !== purpose || !payload.jti) {
+    throw new Error('Invalid token');
+  }
+  return payload;
 };
 
 export const verifyToken = (token: string): JWTPayload => {
+  let payload: JWTPayload;
   try {
-    return jwt.verify(token, JWT_SECRET) as JWTPayload;
+    payload = jwt.verify(token, JWT_SECRET) as JWTPayload;
   } catch (error) {
     throw new Error('Invalid token');
   }
+
+  // Emailed tokens share the secret but must never work as access tokens
+  if ('purpose' in payload) {
+    throw new Error('Invalid token');
+  }
+  return payload;
 };
 
 export const extractTokenFromHeader = (authHeader: string | undefined): string | null => {
@@ -0,0 +1,158 @@
+/**
+ * Five-field cron expressions (minute hour day-of-month month day-of-week),
+ * evaluated in UTC. Fields take *, lists, ranges and steps ("*\/15",
+ * "1-5", "0,30"); @hourly, @daily, @weekly and @monthly are shorthands.
+ * As in Vixie cron, when both day fields are restricted either may match.
+ */
+
+interface CronField {
+  values: Set<number>;
+  // True when the field was "*" (or "*\/1"), which matters for the day fields
+  any: boolean;
+}
+
+export interface CronSchedule {
+  minute: CronField;
+  hour: CronField;
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+}
+
+const ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+const FIELD_RANGES: [string, number, number][] = [
+  ['minute', 0, 59],
+  ['hour', 0, 23],
+  ['day of month', 1, 31],
+  ['month', 1, 12],
+  ['day of week', 0, 7],
+];
+
+// Give up rather than loop forever on expressions like "0 0 31 2 *"
+const MAX_SEARCH_MINUTES = 4 * 366 * 24 * 60;
+
+const parseField = (source: string, name: string, min: number, max: number): CronField => {
+  const values = new Set<number>();
+
+  for (const part of source.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step in ${name} field: "${part}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else {
+      const [startText, endText] = range!.split('-');
+      start = Number(startText);
+      end = endText === undefined ? (stepText === undefined ? start : max) : Number(endText);
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid ${name} field: "${part}" (allowed ${min}-${max})`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return { values, any: source === '*' || source === '*/1' };
+};
+
+/**
+ * Parse a cron expression. Throws with a readable message when it is invalid.
+ */
+export const parseCron = (expression: string): CronSchedule => {
+  const normalized = ALIASES[expression.trim().toLowerCase()] ?? expression.trim();
+  const parts = normalized.split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields, got ${parts.length}`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = parts.map((part, index) => {
+    const [name, min, max] = FIELD_RANGES[index]!;
+    return parseField(part, name, min, max);
+  }) as [CronField, CronField, CronField, CronField, CronField];
+
+  // Sunday may be written as 0 or 7
+  if (dayOfWeek.values.has(7)) {
+    dayOfWeek.values.add(0);
+    dayOfWeek.values.delete(7);
+  }
+
+  return { minute, hour, dayOfMonth, month, dayOfWeek };
+};
+
+/**
+ * Returns an error message for an invalid expression, or null
+ */
+export const validateCron = (expression: unknown): string | null => {
+  if (typeof expression !== 'string' || expression.trim() === '') {
+    return 'cron must be a non-empty string';
+  }
+  try {
+    nextCronRun(expression);
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+};
+
+const matchesDay = (schedule: CronSchedule, date: Date): boolean => {
+  const dayOfMonth = schedule.dayOfMonth.values.has(date.getUTCDate());
+  const dayOfWeek = schedule.dayOfWeek.values.has(date.getUTCDay());
+
+  if (schedule.dayOfMonth.any && schedule.dayOfWeek.any) return true;
+  if (schedule.dayOfMonth.any) return dayOfWeek;
+  if (schedule.dayOfWeek.any) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+};
+
+/**
+ * The first time strictly after `after` that the expression matches
+ */
+export const nextCronRun = (expression: string | CronSchedule, after: Date = new Date()): Date => {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression;
+
+  const next = new Date(after.getTime());
+  next.setUTCSeconds(0, 0);
+  next.setUTCMinutes(next.getUTCMinutes() + 1);
+
+  // Skip whole months, days and hours that can't match before stepping minutes
+  const limit = after.getTime() + MAX_SEARCH_MINUTES * 60 * 1000;
+  while (next.getTime() <= limit) {
+    if (!schedule.month.values.has(next.getUTCMonth() + 1)) {
+      next.setUTCMonth(next.getUTCMonth() + 1, 1);
+      next.setUTCHours(0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, next)) {
+      next.setUTCDate(next.getUTCDate() + 1);
+      next.setUTCHours(0, 0);
+      continue;
+    }
+    if (!schedule.hour.values.has(next.getUTCHours())) {
+      next.setUTCHours(next.getUTCHours() + 1, 0);
+      continue;
+    }
+    if (!schedule.minute.values.has(next.getUTCMinutes())) {
+      next.setUTCMinutes(next.getUTCMinutes() + 1);
+      continue;
+    }
+    return next;
+  }
+
+  throw new Error(`Cron expression never matches: ${typeof expression === 'string' ? expression : 'schedule'}`);
+};
@@ -0,0 +1,74 @@
+import { createHash } from 'crypto';
+import { db } from '@/utils/database';
+import { logger } from '@/utils/logger';
+
+export class EmbeddingCache {
+
+  /**
+   * Hash text exactly as it will be embedded
+   */
+  static hashContent(text: string): string {
+    return createHash('sha256').update(text, 'utf8').digest('hex');
+  }
+
+  /**
+   * Look up cached embeddings by content hash for one model and dimension
+   */
+  static async getMany(hashes: string[], model: string, dimensions: number): Promise<Map<string, number[]>> {
+    const cached = new Map<string, number[]>();
+    if (hashes.length === 0) {
+      return cached;
+    }
+
+    const result = await db.query(`
+      UPDATE embedding_cache
+      SET last_used_at = CURRENT_TIMESTAMP
+      WHERE model = $1 AND dimensions = $2 AND content_hash = ANY($3)
+      RETURNING content_hash, embedding
+    `, [model, dimensions, hashes]);
+
+    for (const row of result.rows) {
+      cached.set(row.content_hash, row.embedding.map(Number));
+    }
+
+    return cached;
+  }
+
+  /**
+   * Store freshly generated embeddings
+   */
+  static async putMany(entries: { hash: string; embedding: number[] }[], model: string, dimensions: number): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    const values: any[] = [model, dimensions];
+    const rows = entries.map(entry => {
+      values.push(entry.hash, entry.embedding);
+      return `($${values.length - 1}, $1, $2, $${values.length})`;
+    });
+
+    await db.query(`
+      INSERT INTO embedding_cache (content_hash, model, dimensions, embedding)
+      VALUES ${rows.join(', ')}
+      ON CONFLICT (content_hash, model, dimensions)
+      DO UPDATE SET last_used_at = CURRENT_TIMESTAMP
+    `, values);
+  }
+
+  /**
+   * Remove entries that have not been used recently
+   */
+  static async prune(maxAgeDays: number = 90): Promise<number> {
+    try {
+      const result = await db.query(
+        `DELETE FROM embedding_cache WHERE last_used_at < CURRENT_TIMESTAMP - ($1 || ' days')::interval`,
+        [maxAgeDays]
+      );
+      return result.rowCount ?? 0;
+    } catch (error) {
+      logger.error('Failed to prune embedding cache:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,203 @@
+import OpenAI from 'openai';
+import { logger } from '@/utils/logger';
+
+/**
+ * Turns text into fixed-size vectors. Every provider returns one vector per
+ * input text, in input order, each with exactly `dimensions` components.
+ */
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export type EmbeddingProviderName = 'openai' | 'local' | 'fake';
+
+export interface EmbeddingProviderConfig {
+  provider?: EmbeddingProviderName;
+  model?: string;
+  dimensions?: number;
+  apiKey?: string;
+}
+
+export const DEFAULT_EMBEDDING_DIMENSIONS = 1536;
+
+// 32-bit FNV-1a hash, stable across processes and platforms
+const fnv1a = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const normalize = (vector: number[]): number[] => {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  if (norm === 0) {
+    // A zero vector has no cosine similarity; pgvector would return NaN for it
+    vector[0] = 1;
+    return vector;
+  }
+  return vector.map(value => value / norm);
+};
+
+/**
+ * OpenAI embeddings API. text-embedding-3 models can be shortened to any dimension.
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai';
+  private client: OpenAI;
+
+  constructor(
+    readonly model: string = 'text-embedding-3-small',
+    readonly dimensions: number = DEFAULT_EMBEDDING_DIMENSIONS,
+    apiKey: string | undefined = process.env['OPENAI_API_KEY']
+  ) {
+    this.client = new OpenAI({ apiKey });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: texts,
+      encoding_format: 'float',
+      ...(this.model.startsWith('text-embedding-3') && { dimensions: this.dimensions }),
+    });
+
+    // The API may return items out of order, so place them by index
+    const embeddings: number[][] = new Array(texts.length);
+    for (const item of response.data) {
+      embeddings[item.index] = item.embedding;
+    }
+    return embeddings;
+  }
+}
+
+/**
+ * Offline, deterministic embeddings using the hashing trick over word unigrams
+ * and bigrams with sublinear term frequency. Texts that share vocabulary land
+ * close together, which is enough for development and keyword-heavy search.
+ */
+export class LocalHashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local';
+  readonly model = 'hashing-v1';
+
+  constructor(readonly dimensions: number = DEFAULT_EMBEDDING_DIMENSIONS) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const tokens = text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(token => token.length > 1);
+
+    const features = new Map<string, number>();
+    tokens.forEach((token, i) => {
+      features.set(token, (features.get(token) || 0) + 1);
+      const next = tokens[i + 1];
+      if (next) {
+        const bigram = `${token} ${next}`;
+        features.set(bigram, (features.get(bigram) || 0) + 0.5);
+      }
+    });
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [feature, count] of features) {
+      const hash = fnv1a(feature);
+      const sign = fnv1a(`#${feature}`) & 1 ? 1 : -1;
+      vector[hash % this.dimensions]! += sign * (1 + Math.log(count));
+    }
+
+    return normalize(vector);
+  }
+}
+
+/**
+ * Test double: deterministic pseudo-random vectors per text, with optional
+ * pinned vectors and a record of every batch it was asked to embed.
+ */
+export class FakeEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'fake';
+  readonly model = 'fake';
+  readonly calls: string[][] = [];
+
+  constructor(
+    readonly dimensions: number = DEFAULT_EMBEDDING_DIMENSIONS,
+    private readonly fixed: Record<string, number[]> = {}
+  ) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    this.calls.push([...texts]);
+    return texts.map(text => this.fixed[text] ?? this.vectorFor(text));
+  }
+
+  private vectorFor(text: string): number[] {
+    // Linear congruential generator seeded from the text
+    let seed = fnv1a(text) || 1;
+    const vector = new Array<number>(this.dimensions);
+    for (let i = 0; i < this.dimensions; i++) {
+      seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0;
+      vector[i] = seed / 0xffffffff - 0.5;
+    }
+    return normalize(vector);
+  }
+}
+
+/**
+ * Build a provider from explicit config, falling back to environment variables:
+ * EMBEDDING_PROVIDER, EMBEDDING_MODEL and EMBEDDING_DIMENSIONS.
+ * Without an explicit choice, OpenAI is used when an API key is set and the
+ * local provider otherwise.
+ */
+export const createEmbeddingProvider = (config: EmbeddingProviderConfig = {}): EmbeddingProvider => {
+  const apiKey = config.apiKey ?? process.env['OPENAI_API_KEY'];
+  const hasApiKey = !!apiKey && apiKey !== 'your-openai-api-key';
+  const dimensions = config.dimensions
+    ?? (parseInt(process.env['EMBEDDING_DIMENSIONS'] || '') || DEFAULT_EMBEDDING_DIMENSIONS);
+  const providerName = config.provider
+    ?? ((process.env['EMBEDDING_PROVIDER'] || (hasApiKey ? 'openai' : 'local')) as EmbeddingProviderName);
+
+  switch (providerName) {
+    case 'openai':
+      return new OpenAIEmbeddingProvider(
+        config.model ?? (process.env['EMBEDDING_MODEL'] || 'text-embedding-3-small'),
+        dimensions,
+        apiKey
+      );
+    case 'local':
+      return new LocalHashingEmbeddingProvider(dimensions);
+    case 'fake':
+      return new FakeEmbeddingProvider(dimensions);
+    default:
+      throw new Error(`Unknown embedding provider: ${providerName}`);
+  }
+};
+
+let activeProvider: EmbeddingProvider | null = null;
+
+/**
+ * The process-wide embedding provider, created from config on first use
+ */
+export const getEmbeddingProvider = (): EmbeddingProvider => {
+  if (!activeProvider) {
+    activeProvider = createEmbeddingProvider();
+    logger.info(`Using ${activeProvider.name} embedding provider (${activeProvider.model}, ${activeProvider.dimensions} dimensions)`);
+  }
+  return activeProvider;
+};
+
+/**
+ * Replace the process-wide provider, e.g. with a FakeEmbeddingProvider in tests
+ */
+export const setEmbeddingProvider = (provider: EmbeddingProvider | null): void => {
+  activeProvider = provider;
+};
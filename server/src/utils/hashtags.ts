@@ -0,0 +1,20 @@
+// A single hashtag such as "#leadership" or "leadership", as opposed to a sentence of guidance
+const HASHTAG = /^#?[\p{L}\p{N}_]+$/u;
+
+export const isHashtag = (value: string): boolean => HASHTAG.test(value.trim());
+
+/**
+ * Turn a word or phrase into a hashtag. Single words keep their case;
+ * phrases are joined in PascalCase, so "AI agents" becomes "#AIAgents".
+ * Returns an empty string when nothing usable is left.
+ */
+export const toHashtag = (value: string): string => {
+  const words = value.trim().replace(/^#+/, '').split(/[^\p{L}\p{N}_]+/u).filter(Boolean);
+  if (words.length <= 1) {
+    return words.length === 1 ? `#${words[0]}` : '';
+  }
+  return `#${words.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('')}`;
+};
+
+// Case-insensitive identity of a hashtag, with or without its "#"
+export const hashtagKey = (value: string): string => value.trim().replace(/^#+/, '').toLowerCase();
@@ -0,0 +1,229 @@
+import { IngestMapping, IngestTarget, IntelligenceType } from '@/types';
+
+/**
+ * Declarative mappings turn webhook payloads into records. Each field is a
+ * literal or a template: "{{path.to.value}}" reads from the payload, with
+ * numeric segments indexing arrays. A field that is exactly one placeholder
+ * keeps the value's type; anything else is interpolated into a string.
+ */
+
+export const INGEST_TARGETS: IngestTarget[] = ['intelligence', 'trend', 'writing_sample'];
+
+const INTELLIGENCE_TYPES: IntelligenceType[] = ['trend', 'competitor', 'opportunity', 'threat', 'news'];
+
+// Fields each target can't do without
+const REQUIRED_FIELDS: Record<IngestTarget, string[]> = {
+  intelligence: ['title'],
+  trend: ['keyword', 'growth'],
+  writing_sample: ['content'],
+};
+
+// Intelligence fields that control the item rather than end up in its data
+const INTELLIGENCE_CONTROL_FIELDS = ['type', 'relevance', 'actionable', 'expiresInDays'];
+
+const PLACEHOLDER = /\{\{\s*([^{}\s]+)\s*\}\}/g;
+const SINGLE_PLACEHOLDER = /^\{\{\s*([^{}\s]+)\s*\}\}$/;
+
+export type MappedRecord =
+  | {
+      target: 'intelligence';
+      type: IntelligenceType;
+      data: Record<string, any>;
+      relevanceScore: number;
+      isActionable: boolean;
+      expiresInDays: number;
+    }
+  | { target: 'trend'; keyword: string; growth: number; category: string; volume?: number }
+  | { target: 'writing_sample'; content: string; platform: string; contentType: string };
+
+const readPath = (payload: unknown, path: string): unknown => {
+  let current: any = payload;
+  for (const segment of path.split('.')) {
+    if (current === null || current === undefined) {
+      return undefined;
+    }
+    current = Array.isArray(current) && /^\d+$/.test(segment) ? current[Number(segment)] : current[segment];
+  }
+  return current;
+};
+
+/**
+ * Resolve one mapped field against a payload
+ */
+export const resolveTemplate = (template: string | number | boolean, payload: unknown): unknown => {
+  if (typeof template !== 'string') {
+    return template;
+  }
+
+  const single = template.match(SINGLE_PLACEHOLDER);
+  if (single) {
+    return readPath(payload, single[1]!);
+  }
+
+  return template.replace(PLACEHOLDER, (_, path: string) => {
+    const value = readPath(payload, path);
+    if (value === null || value === undefined) {
+      return '';
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  });
+};
+
+/**
+ * Check a mapping before it is saved. Returns a list of problems.
+ */
+export const validateMapping = (mapping: unknown): string[] => {
+  if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) {
+    return ['mapping must be an object'];
+  }
+
+  const { target, fields, idempotencyKey } = mapping as Partial<IngestMapping>;
+  const errors: string[] = [];
+
+  if (!target || !INGEST_TARGETS.includes(target)) {
+    errors.push(`mapping.target must be one of ${INGEST_TARGETS.join(', ')}`);
+  }
+
+  if (!fields || typeof fields !== 'object' || Array.isArray(fields)) {
+    errors.push('mapping.fields must be an object');
+  } else {
+    for (const [name, value] of Object.entries(fields)) {
+      if (!['string', 'number', 'boolean'].includes(typeof value)) {
+        errors.push(`mapping.fields.${name} must be a string, number or boolean`);
+      }
+    }
+    if (target && INGEST_TARGETS.includes(target)) {
+      for (const name of REQUIRED_FIELDS[target]) {
+        if (fields[name] === undefined) {
+          errors.push(`mapping.fields.${name} is required for ${target}`);
+        }
+      }
+    }
+    if (target === 'intelligence' && typeof fields['type'] === 'string' && !SINGLE_PLACEHOLDER.test(fields['type'])
+      && !INTELLIGENCE_TYPES.includes(fields['type'] as IntelligenceType)) {
+      errors.push(`mapping.fields.type must be one of ${INTELLIGENCE_TYPES.join(', ')}`);
+    }
+  }
+
+  if (idempotencyKey !== undefined && (typeof idempotencyKey !== 'string' || idempotencyKey.trim() === '')) {
+    errors.push('mapping.idempotencyKey must be a non-empty string');
+  }
+
+  return errors;
+};
+
+const asText = (value: unknown): string | undefined => {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  const text = (typeof value === 'object' ? JSON.stringify(value) : String(value)).trim();
+  return text === '' ? undefined : text;
+};
+
+const asNumber = (value: unknown): number | undefined => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  // Accept values like "42" or "42%" from scraped pages
+  const parsed = typeof value === 'string' ? parseFloat(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const asBoolean = (value: unknown): boolean | undefined => {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  const text = asText(value)?.toLowerCase();
+  if (text === 'true' || text === '1' || text === 'yes') return true;
+  if (text === 'false' || text === '0' || text === 'no') return false;
+  return undefined;
+};
+
+/**
+ * Resolve the event's idempotency key from the mapping, if it defines one
+ */
+export const resolveIdempotencyKey = (mapping: IngestMapping, payload: unknown): string | undefined =>
+  mapping.idempotencyKey ? asText(resolveTemplate(mapping.idempotencyKey, payload)) : undefined;
+
+/**
+ * Apply a mapping to a payload. Throws when the payload lacks a required
+ * field or holds a value of the wrong kind.
+ */
+export const applyMapping = (mapping: IngestMapping, payload: unknown): MappedRecord => {
+  const resolved: Record<string, unknown> = {};
+  for (const [name, template] of Object.entries(mapping.fields)) {
+    resolved[name] = resolveTemplate(template, payload);
+  }
+
+  const required = (name: string): string => {
+    const value = asText(resolved[name]);
+    if (value === undefined) {
+      throw new Error(`Payload has no value for ${name} (${mapping.fields[name]})`);
+    }
+    return value;
+  };
+
+  switch (mapping.target) {
+    case 'intelligence': {
+      const type = asText(resolved['type']) ?? 'news';
+      if (!INTELLIGENCE_TYPES.includes(type as IntelligenceType)) {
+        throw new Error(`type must be one of ${INTELLIGENCE_TYPES.join(', ')}, got "${type}"`);
+      }
+
+      const relevance = resolved['relevance'] === undefined ? 0.5 : asNumber(resolved['relevance']);
+      if (relevance === undefined || relevance < 0 || relevance > 1) {
+        throw new Error('relevance must be a number between 0 and 1');
+      }
+
+      const expiresInDays = resolved['expiresInDays'] === undefined ? 14 : asNumber(resolved['expiresInDays']);
+      if (expiresInDays === undefined || expiresInDays < 0) {
+        throw new Error('expiresInDays must be a number of days, or 0 to never expire');
+      }
+
+      const data: Record<string, any> = { title: required('title') };
+      for (const [name, value] of Object.entries(resolved)) {
+        if (name !== 'title' && !INTELLIGENCE_CONTROL_FIELDS.includes(name) && value !== undefined && value !== '') {
+          data[name] = value;
+        }
+      }
+
+      return {
+        target: 'intelligence',
+        type: type as IntelligenceType,
+        data,
+        relevanceScore: relevance,
+        isActionable: asBoolean(resolved['actionable']) ?? false,
+        expiresInDays
+      };
+    }
+
+    case 'trend': {
+      const growth = asNumber(resolved['growth']);
+      if (growth === undefined) {
+        throw new Error(`growth must be a number, got "${asText(resolved['growth']) ?? ''}"`);
+      }
+      const volume = asNumber(resolved['volume']);
+      if (resolved['volume'] !== undefined && (volume === undefined || volume < 0)) {
+        throw new Error(`volume must be a number of at least 0, got "${asText(resolved['volume']) ?? ''}"`);
+      }
+      return {
+        target: 'trend',
+        keyword: required('keyword'),
+        growth,
+        category: asText(resolved['category']) ?? 'general',
+        ...(volume !== undefined && { volume })
+      };
+    }
+
+    case 'writing_sample':
+      return {
+        target: 'writing_sample',
+        content: required('content'),
+        platform: asText(resolved['platform']) ?? 'web',
+        contentType: asText(resolved['contentType']) ?? 'post'
+      };
+
+    default:
+      throw new Error(`Unknown mapping target: ${(mapping as IngestMapping).target}`);
+  }
+};
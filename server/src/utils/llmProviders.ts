@@ -0,0 +1,496 @@
+import OpenAI from 'openai';
+import { logger } from '@/utils/logger';
+
+export type LlmRole = 'system' | 'user' | 'assistant';
+
+export interface LlmMessage {
+  role: LlmRole;
+  content: string;
+}
+
+export interface LlmRequest {
+  model: string;
+  messages: LlmMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  // Ask for a single JSON object as the whole response
+  json?: boolean;
+}
+
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LlmResponse {
+  content: string;
+  model: string;
+  usage: LlmUsage;
+  // Why generation stopped, as reported by the backend (stop, length, ...)
+  finishReason?: string;
+}
+
+export type LlmStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; response: LlmResponse };
+
+/**
+ * Generates chat completions. `stream` yields text deltas as they arrive and
+ * ends with a `done` event carrying the full response and its usage.
+ * Providers throw on transport or backend errors.
+ */
+export interface LlmProvider {
+  readonly name: string;
+  complete(request: LlmRequest): Promise<LlmResponse>;
+  stream(request: LlmRequest): AsyncIterable<LlmStreamEvent>;
+}
+
+export type LlmProviderName = 'openai' | 'anthropic' | 'local' | 'fake';
+
+export const LLM_PROVIDER_NAMES: LlmProviderName[] = ['openai', 'anthropic', 'local', 'fake'];
+
+const DEFAULT_MAX_TOKENS = 1024;
+const DEFAULT_TIMEOUT_MS = 60000;
+
+const JSON_INSTRUCTION = 'Respond with a single JSON object and nothing else.';
+
+// USD per million input and output tokens, matched by model name prefix; longest prefix wins
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-opus-4': { input: 15, output: 75 },
+};
+
+/**
+ * Cost in USD of a call to a hosted model. Local, fake and unknown models cost nothing.
+ */
+export const estimateCost = (provider: string, model: string, usage: LlmUsage): number => {
+  if (provider !== 'openai' && provider !== 'anthropic') {
+    return 0;
+  }
+
+  const prefix = Object.keys(MODEL_PRICES)
+    .filter(entry => model.startsWith(entry))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!prefix) {
+    logger.warn(`No price known for model ${model}; recording its cost as 0`);
+    return 0;
+  }
+
+  const price = MODEL_PRICES[prefix]!;
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+};
+
+// Rough token count for backends that don't report usage: about 4 characters a token
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+/**
+ * Parse a JSON-mode response, tolerating code fences or prose around the object
+ */
+export const parseJsonResponse = <T = Record<string, any>>(content: string): T => {
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new Error('LLM response did not contain a JSON object');
+  }
+
+  try {
+    return JSON.parse(content.slice(start, end + 1)) as T;
+  } catch {
+    throw new Error('LLM response was not valid JSON');
+  }
+};
+
+/**
+ * Chat completions over the OpenAI API. Also used for OpenAI-compatible
+ * servers through `baseURL`.
+ */
+export class OpenAILlmProvider implements LlmProvider {
+  readonly name: string = 'openai';
+  protected client: OpenAI;
+
+  constructor(
+    apiKey: string | undefined = process.env['OPENAI_API_KEY'],
+    baseURL?: string,
+    timeoutMs: number = DEFAULT_TIMEOUT_MS
+  ) {
+    this.client = new OpenAI({ apiKey, timeout: timeoutMs, ...(baseURL && { baseURL }) });
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const completion = await this.client.chat.completions.create({
+      ...this.body(request),
+      stream: false
+    });
+
+    const choice = completion.choices[0];
+    const content = choice?.message.content ?? '';
+    return {
+      content,
+      model: completion.model || request.model,
+      usage: completion.usage
+        ? { inputTokens: completion.usage.prompt_tokens, outputTokens: completion.usage.completion_tokens }
+        : this.estimateUsage(request, content),
+      ...(choice?.finish_reason && { finishReason: choice.finish_reason })
+    };
+  }
+
+  async *stream(request: LlmRequest): AsyncIterable<LlmStreamEvent> {
+    const stream = await this.client.chat.completions.create({
+      ...this.body(request),
+      stream: true,
+      stream_options: { include_usage: true }
+    });
+
+    let content = '';
+    let model = request.model;
+    let finishReason: string | undefined;
+    let usage: LlmUsage | undefined;
+
+    for await (const chunk of stream) {
+      model = chunk.model || model;
+      const choice = chunk.choices[0];
+      const text = choice?.delta?.content;
+      if (text) {
+        content += text;
+        yield { type: 'delta', text };
+      }
+      if (choice?.finish_reason) {
+        finishReason = choice.finish_reason;
+      }
+      if (chunk.usage) {
+        usage = { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens };
+      }
+    }
+
+    yield {
+      type: 'done',
+      response: {
+        content,
+        model,
+        usage: usage ?? this.estimateUsage(request, content),
+        ...(finishReason && { finishReason })
+      }
+    };
+  }
+
+  private body(request: LlmRequest) {
+    return {
+      model: request.model,
+      messages: request.json ? withJsonInstruction(request.messages) : request.messages,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      ...(request.json && { response_format: { type: 'json_object' as const } })
+    };
+  }
+
+  private estimateUsage(request: LlmRequest, content: string): LlmUsage {
+    return {
+      inputTokens: estimateTokens(request.messages.map(message => message.content).join('\n')),
+      outputTokens: estimateTokens(content)
+    };
+  }
+}
+
+/**
+ * A self-hosted OpenAI-compatible server such as Ollama, vLLM or LM Studio,
+ * configured with LLM_LOCAL_URL and optionally LLM_LOCAL_API_KEY
+ */
+export class LocalLlmProvider extends OpenAILlmProvider {
+  override readonly name = 'local';
+
+  constructor(
+    baseURL: string = process.env['LLM_LOCAL_URL'] || 'http://localhost:11434/v1',
+    apiKey: string = process.env['LLM_LOCAL_API_KEY'] || 'local',
+    timeoutMs: number = DEFAULT_TIMEOUT_MS
+  ) {
+    super(apiKey, baseURL, timeoutMs);
+  }
+}
+
+/**
+ * Anthropic Messages API over fetch. System messages are joined into the
+ * system prompt. JSON mode prefills the reply with "{" since the API has no
+ * response format option.
+ */
+export class AnthropicLlmProvider implements LlmProvider {
+  readonly name = 'anthropic';
+
+  constructor(
+    private readonly apiKey: string | undefined = process.env['ANTHROPIC_API_KEY'],
+    private readonly baseUrl: string = process.env['ANTHROPIC_BASE_URL'] || 'https://api.anthropic.com',
+    private readonly timeoutMs: number = DEFAULT_TIMEOUT_MS
+  ) {}
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const response = await this.post(request, false);
+    const data = await response.json() as {
+      model?: string;
+      content?: { type: string; text?: string }[];
+      stop_reason?: string;
+      usage?: { input_tokens: number; output_tokens: number };
+    };
+
+    const text = (data.content || [])
+      .filter(block => block.type === 'text')
+      .map(block => block.text || '')
+      .join('');
+
+    return {
+      content: request.json ? `{${text}` : text,
+      model: data.model || request.model,
+      usage: { inputTokens: data.usage?.input_tokens ?? 0, outputTokens: data.usage?.output_tokens ?? 0 },
+      ...(data.stop_reason && { finishReason: data.stop_reason })
+    };
+  }
+
+  async *stream(request: LlmRequest): AsyncIterable<LlmStreamEvent> {
+    const response = await this.post(request, true);
+
+    let content = '';
+    let model = request.model;
+    let finishReason: string | undefined;
+    const usage: LlmUsage = { inputTokens: 0, outputTokens: 0 };
+
+    if (request.json) {
+      content = '{';
+      yield { type: 'delta', text: '{' };
+    }
+
+    for await (const event of readServerSentEvents(response)) {
+      if (event['type'] === 'message_start') {
+        model = event['message']?.['model'] || model;
+        usage.inputTokens = event['message']?.['usage']?.['input_tokens'] ?? 0;
+      } else if (event['type'] === 'content_block_delta' && event['delta']?.['type'] === 'text_delta') {
+        const text: string = event['delta']['text'] || '';
+        content += text;
+        yield { type: 'delta', text };
+      } else if (event['type'] === 'message_delta') {
+        usage.outputTokens = event['usage']?.['output_tokens'] ?? usage.outputTokens;
+        finishReason = event['delta']?.['stop_reason'] || finishReason;
+      } else if (event['type'] === 'error') {
+        throw new Error(`Anthropic stream failed: ${event['error']?.['message'] || 'unknown error'}`);
+      }
+    }
+
+    yield { type: 'done', response: { content, model, usage, ...(finishReason && { finishReason }) } };
+  }
+
+  private async post(request: LlmRequest, stream: boolean): Promise<Response> {
+    const system = [
+      ...request.messages.filter(message => message.role === 'system').map(message => message.content),
+      ...(request.json ? [JSON_INSTRUCTION] : [])
+    ].join('\n\n');
+    const messages = request.messages
+      .filter(message => message.role !== 'system')
+      .map(message => ({ role: message.role, content: message.content }));
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'anthropic-version': '2023-06-01',
+        ...(this.apiKey && { 'x-api-key': this.apiKey })
+      },
+      body: JSON.stringify({
+        model: request.model,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        messages: request.json ? [...messages, { role: 'assistant', content: '{' }] : messages,
+        ...(system && { system }),
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        ...(stream && { stream: true })
+      }),
+      signal: AbortSignal.timeout(this.timeoutMs)
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`Anthropic request failed with status ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+    }
+
+    return response;
+  }
+}
+
+/**
+ * Test double: a fixed or computed reply with estimated usage, streamed a
+ * word at a time, and a record of every request.
+ */
+export class FakeLlmProvider implements LlmProvider {
+  readonly name = 'fake';
+  readonly calls: LlmRequest[] = [];
+
+  constructor(private readonly reply?: string | ((request: LlmRequest) => string)) {}
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    this.calls.push(request);
+
+    const content = this.replyTo(request);
+    return {
+      content,
+      model: request.model,
+      usage: {
+        inputTokens: estimateTokens(request.messages.map(message => message.content).join('\n')),
+        outputTokens: estimateTokens(content)
+      },
+      finishReason: 'stop'
+    };
+  }
+
+  async *stream(request: LlmRequest): AsyncIterable<LlmStreamEvent> {
+    const response = await this.complete(request);
+    for (const text of response.content.match(/\S+\s*/g) || []) {
+      yield { type: 'delta', text };
+    }
+    yield { type: 'done', response };
+  }
+
+  private replyTo(request: LlmRequest): string {
+    if (typeof this.reply === 'function') {
+      return this.reply(request);
+    }
+    if (this.reply !== undefined) {
+      return this.reply;
+    }
+
+    const prompt = [...request.messages].reverse().find(message => message.role === 'user')?.content || '';
+    return request.json
+      ? JSON.stringify({ reply: prompt.slice(0, 200) })
+      : `Fake reply to: ${prompt.slice(0, 200)}`;
+  }
+}
+
+const withJsonInstruction = (messages: LlmMessage[]): LlmMessage[] => [
+  { role: 'system', content: JSON_INSTRUCTION },
+  ...messages
+];
+
+/**
+ * Parse a server-sent event stream into the JSON payloads of its data lines
+ */
+async function* readServerSentEvents(response: Response): AsyncIterable<Record<string, any>> {
+  if (!response.body) {
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const parse = (block: string): Record<string, any> | null => {
+    const data = block
+      .split('\n')
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).trim())
+      .join('\n');
+    if (!data || data === '[DONE]') {
+      return null;
+    }
+    try {
+      return JSON.parse(data);
+    } catch {
+      return null;
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const event = parse(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (event) {
+        yield event;
+      }
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+
+  const last = parse(buffer);
+  if (last) {
+    yield last;
+  }
+}
+
+/**
+ * Build a provider by name
+ */
+export const createLlmProvider = (name: LlmProviderName): LlmProvider => {
+  switch (name) {
+    case 'openai':
+      return new OpenAILlmProvider();
+    case 'anthropic':
+      return new AnthropicLlmProvider();
+    case 'local':
+      return new LocalLlmProvider();
+    case 'fake':
+      return new FakeLlmProvider();
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`);
+  }
+};
+
+const isConfigured = (key: string | undefined, placeholder: string): boolean => !!key && key !== placeholder;
+
+/**
+ * The provider used when a task does not name one: LLM_PROVIDER, else OpenAI
+ * or Anthropic when their API key is set. The fake is only a default under test.
+ */
+export const defaultLlmProviderName = (): LlmProviderName => {
+  const configured = process.env['LLM_PROVIDER'] as LlmProviderName | undefined;
+  if (configured) {
+    return configured;
+  }
+  if (isConfigured(process.env['OPENAI_API_KEY'], 'your-openai-api-key')) {
+    return 'openai';
+  }
+  if (isConfigured(process.env['ANTHROPIC_API_KEY'], 'your-anthropic-api-key')) {
+    return 'anthropic';
+  }
+  if (process.env['NODE_ENV'] === 'test') {
+    return 'fake';
+  }
+  throw new Error('No LLM provider configured: set LLM_PROVIDER, OPENAI_API_KEY or ANTHROPIC_API_KEY');
+};
+
+const activeProviders = new Map<LlmProviderName, LlmProvider>();
+let overrideProvider: LlmProvider | null = null;
+
+/**
+ * The process-wide provider for a backend, created on first use
+ */
+export const getLlmProvider = (name: LlmProviderName): LlmProvider => {
+  if (overrideProvider) {
+    return overrideProvider;
+  }
+
+  let provider = activeProviders.get(name);
+  if (!provider) {
+    provider = createLlmProvider(name);
+    activeProviders.set(name, provider);
+    logger.info(`Using ${provider.name} LLM provider`);
+  }
+  return provider;
+};
+
+/**
+ * Route every request to one provider, e.g. a FakeLlmProvider in tests.
+ * Pass null to go back to the configured backends.
+ */
+export const setLlmProvider = (provider: LlmProvider | null): void => {
+  overrideProvider = provider;
+};
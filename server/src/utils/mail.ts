@@ -0,0 +1,152 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+import { logger } from '@/utils/logger';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Delivers outgoing email. Implementations either hand the message to a
+ * real mail server or keep it somewhere a developer can read it.
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+export type MailTransportName = 'smtp' | 'file' | 'console';
+
+const DEFAULT_FROM = 'ANIDHI <no-reply@anidhi.local>';
+
+/**
+ * SMTP delivery via nodemailer, configured from SMTP_HOST, SMTP_PORT,
+ * SMTP_SECURE, SMTP_USER and SMTP_PASS
+ */
+export class SmtpMailTransport implements MailTransport {
+  readonly name = 'smtp';
+  private transporter: Transporter;
+
+  constructor(private readonly from: string = process.env['MAIL_FROM'] || DEFAULT_FROM) {
+    const user = process.env['SMTP_USER'];
+    this.transporter = nodemailer.createTransport({
+      host: process.env['SMTP_HOST'],
+      port: parseInt(process.env['SMTP_PORT'] || '') || 587,
+      secure: process.env['SMTP_SECURE'] === 'true',
+      ...(user && { auth: { user, pass: process.env['SMTP_PASS'] } }),
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      ...(message.html && { html: message.html }),
+    });
+  }
+}
+
+/**
+ * Local development sink: writes each message to MAIL_DIR as a .eml file
+ */
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+
+  constructor(
+    readonly directory: string = process.env['MAIL_DIR'] || path.join(process.cwd(), 'tmp', 'mail'),
+    private readonly from: string = process.env['MAIL_FROM'] || DEFAULT_FROM
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const recipient = message.to.replace(/[^a-z0-9@._-]/gi, '_');
+    const file = path.join(this.directory, `${Date.now()}-${recipient}.eml`);
+    const contents = [
+      `From: ${this.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      '',
+      message.text,
+    ].join('\n');
+
+    await fs.writeFile(file, contents);
+    logger.info(`Mail to ${message.to} written to ${file}`);
+  }
+}
+
+/**
+ * Local development sink: logs each message instead of sending it
+ */
+export class ConsoleMailTransport implements MailTransport {
+  readonly name = 'console';
+
+  async send(message: MailMessage): Promise<void> {
+    logger.info(`Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+/**
+ * Test double that keeps every message in memory so tests can read links
+ * out of them. Never chosen by createMailTransport.
+ */
+export class MemoryMailTransport implements MailTransport {
+  readonly name = 'memory';
+  readonly sent: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.sent.push(message);
+  }
+}
+
+/**
+ * Build a transport from MAIL_TRANSPORT. Without an explicit choice, SMTP is
+ * used when SMTP_HOST is set. The console sink is only a default in
+ * development, since it logs reset and verification links.
+ */
+export const createMailTransport = (name?: MailTransportName): MailTransport => {
+  const configured = name
+    ?? ((process.env['MAIL_TRANSPORT'] || (process.env['SMTP_HOST'] ? 'smtp' : undefined)) as MailTransportName | undefined);
+  const transportName = configured
+    ?? (process.env['NODE_ENV'] === 'development' ? 'console' : undefined);
+
+  switch (transportName) {
+    case 'smtp':
+      return new SmtpMailTransport();
+    case 'file':
+      return new FileMailTransport();
+    case 'console':
+      return new ConsoleMailTransport();
+    case undefined:
+      throw new Error('No mail transport configured. Set SMTP_HOST, or MAIL_TRANSPORT to smtp, file or console.');
+    default:
+      throw new Error(`Unknown mail transport: ${transportName}`);
+  }
+};
+
+let activeTransport: MailTransport | null = null;
+
+/**
+ * The process-wide mail transport, created from config on first use
+ */
+export const getMailTransport = (): MailTransport => {
+  if (!activeTransport) {
+    activeTransport = createMailTransport();
+    logger.info(`Using ${activeTransport.name} mail transport`);
+  }
+  return activeTransport;
+};
+
+/**
+ * Replace the process-wide transport, e.g. with a MemoryMailTransport in tests
+ */
+export const setMailTransport = (transport: MailTransport | null): void => {
+  activeTransport = transport;
+};
@@ -247,6 +247,636 @@ const migrations: Migration[] = [
       await db.query('DROP TABLE IF EXISTS vector_documents CASCADE');
       await db.query('DROP EXTENSION IF EXISTS vector CASCADE');
     }
+  },
+  {
+    version: '006_project_timeline',
+    description: 'Add project milestones, deadlines and content links',
+    up: async () => {
+      // Project milestones table
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS project_milestones (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+          name VARCHAR(255) NOT NULL,
+          description TEXT,
+          target_date DATE NOT NULL,
+          completed BOOLEAN DEFAULT false,
+          completed_at TIMESTAMP,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      // Project deadlines table
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS project_deadlines (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+          name VARCHAR(255) NOT NULL,
+          date DATE NOT NULL,
+          priority VARCHAR(20) DEFAULT 'medium',
+          completed BOOLEAN DEFAULT false,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      // Content items linked to a project
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS project_content (
+          project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+          content_id UUID REFERENCES content(id) ON DELETE CASCADE,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (project_id, content_id)
+        )
+      `);
+
+      // Create indexes
+      await db.query('CREATE INDEX IF NOT EXISTS idx_project_milestones_project_id ON project_milestones(project_id)');
+      await db.query('CREATE INDEX IF NOT EXISTS idx_project_deadlines_project_id ON project_deadlines(project_id)');
+      await db.query('CREATE INDEX IF NOT EXISTS idx_project_deadlines_date ON project_deadlines(date)');
+      await db.query('CREATE INDEX IF NOT EXISTS idx_project_content_content_id ON project_content(content_id)');
+    },
+    down: async () => {
+      await db.query('DROP TABLE IF EXISTS project_content CASCADE');
+      await db.query('DROP TABLE IF EXISTS project_deadlines CASCADE');
+      await db.query('DROP TABLE IF EXISTS project_milestones CASCADE');
+    }
+  },
+  {
+    version: '007_brand_strategy_versions',
+    description: 'Add version numbers and lineage to brand strategies',
+    up: async () => {
+      await db.query(`
+        ALTER TABLE brand_strategy
+          ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1,
+          ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES brand_strategy(id) ON DELETE SET NULL
+      `);
+
+      // Number existing strategies per user in creation order
+      await db.query(`
+        UPDATE brand_strategy bs
+        SET version = numbered.version
+        FROM (
+          SELECT id, ROW_NUMBER() OVER (PARTITION BY user_id ORDER BY created_at) AS version
+          FROM brand_strategy
+        ) numbered
+        WHERE bs.id = numbered.id
+      `);
+
+      // Create indexes
+      await db.query('CREATE INDEX IF NOT EXISTS idx_brand_strategy_user_version ON brand_strategy(user_id, version)');
+    },
+    down: async () => {
+      await db.query('DROP INDEX IF EXISTS idx_brand_strategy_user_version');
+      await db.query('ALTER TABLE brand_strategy DROP COLUMN IF EXISTS parent_id, DROP COLUMN IF EXISTS version');
+    }
+  },
+  {
+    version: '008_embedding_model',
+    description: 'Record which embedding provider and model produced each vector',
+    up: async () => {
+      await db.query('ALTER TABLE vector_documents ADD COLUMN IF NOT EXISTS embedding_model VARCHAR(100)');
+
+      // Everything embedded so far came from OpenAI
+      await db.query(`
+        UPDATE vector_documents
+        SET embedding_model = 'openai:text-embedding-3-small'
+        WHERE embedding IS NOT NULL AND embedding_model IS NULL
+      `);
+
+      await db.query('CREATE INDEX IF NOT EXISTS idx_vector_documents_embedding_model ON vector_documents(embedding_model)');
+    },
+    down: async () => {
+      await db.query('DROP INDEX IF EXISTS idx_vector_documents_embedding_model');
+      await db.query('ALTER TABLE vector_documents DROP COLUMN IF EXISTS embedding_model');
+    }
+  },
+  {
+    version: '009_embedding_cache',
+    description: 'Add content-hash keyed embedding cache',
+    up: async () => {
+      // Embeddings are stored as plain arrays so one table can hold any dimension
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS embedding_cache (
+          content_hash CHAR(64) NOT NULL,
+          model VARCHAR(100) NOT NULL,
+          dimensions INTEGER NOT NULL,
+          embedding REAL[] NOT NULL,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          last_used_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (content_hash, model, dimensions)
+        )
+      `);
+
+      // Create indexes
+      await db.query('CREATE INDEX IF NOT EXISTS idx_embedding_cache_last_used_at ON embedding_cache(last_used_at)');
+    },
+    down: async () => {
+      await db.query('DROP TABLE IF EXISTS embedding_cache CASCADE');
+    }
+  },
+  {
+    version: '010_vector_documents_search',
+    description: 'Add full-text search vector to vector documents for hybrid search',
+    up: async () => {
+      await db.query(`
+        ALTER TABLE vector_documents
+        ADD COLUMN IF NOT EXISTS search_vector tsvector
+        GENERATED ALWAYS AS (to_tsvector('english', content)) STORED
+      `);
+
+      // Create indexes
+      await db.query('CREATE INDEX IF NOT EXISTS idx_vector_documents_search ON vector_documents USING GIN(search_vector)');
+      await db.query('CREATE INDEX IF NOT EXISTS idx_vector_documents_created_at ON vector_documents(created_at)');
+    },
+    down: async () => {
+      await db.query('DROP INDEX IF EXISTS idx_vector_documents_created_at');
+      await db.query('DROP INDEX IF EXISTS idx_vector_documents_search');
+      await db.query('ALTER TABLE vector_documents DROP COLUMN IF EXISTS search_vector');
+    }
+  },
+  {
+    version: '011_vector_document_chunks',
+    description: 'Store long vector documents as chunks linked to a parent document',
+    up: async () => {
+      await db.query(`
+        ALTER TABLE vector_documents
+        ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES vector_documents(id) ON DELETE CASCADE,
+        ADD COLUMN IF NOT EXISTS chunk_index INTEGER,
+        ADD COLUMN IF NOT EXISTS chunk_start INTEGER,
+        ADD COLUMN IF NOT EXISTS chunk_end INTEGER,
+        ADD COLUMN IF NOT EXISTS chunk_count INTEGER NOT NULL DEFAULT 0
+      `);
+
+      // Create indexes
+      await db.query('CREATE INDEX IF NOT EXISTS idx_vector_documents_parent_id ON vector_documents(parent_id)');
+    },
+    down: async () => {
+      await db.query('DELETE FROM vector_documents WHERE parent_id IS NOT NULL');
+      await db.query(`
+        ALTER TABLE vector_documents
+        DROP COLUMN IF EXISTS parent_id,
+        DROP COLUMN IF EXISTS chunk_index,
+        DROP COLUMN IF EXISTS chunk_start,
+        DROP COLUMN IF EXISTS chunk_end,
+        DROP COLUMN IF EXISTS chunk_count
+      `);
+    }
+  },
+  {
+    version: '012_refresh_tokens',
+    description: 'Store hashed refresh tokens for rotation, reuse detection and sessions',
+    up: async () => {
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS refresh_tokens (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          family_id UUID NOT NULL,
+          token_hash CHAR(64) NOT NULL UNIQUE,
+          user_agent TEXT,
+          ip_address VARCHAR(45),
+          expires_at TIMESTAMP NOT NULL,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          last_used_at TIMESTAMP,
+          revoked_at TIMESTAMP,
+          replaced_by UUID REFERENCES refresh_tokens(id) ON DELETE SET NULL
+        )
+      `);
+
+      // Create indexes
+      await db.query('CREATE INDEX IF NOT EXISTS idx_refresh_tokens_user_id ON refresh_tokens(user_id)');
+      await db.query('CREATE INDEX IF NOT EXISTS idx_refresh_tokens_family_id ON refresh_tokens(family_id)');
+      await db.query('CREATE INDEX IF NOT EXISTS idx_refresh_tokens_expires_at ON refresh_tokens(expires_at)');
+    },
+    down: async () => {
+      await db.query('DROP TABLE IF EXISTS refresh_tokens CASCADE');
+    }
+  },
+  {
+    version: '013_auth_tokens',
+    description: 'Track single-use email verification and password reset tokens',
+    up: async () => {
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS auth_tokens (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          purpose VARCHAR(30) NOT NULL CHECK (purpose IN ('email_verification', 'password_reset')),
+          expires_at TIMESTAMP NOT NULL,
+          used_at TIMESTAMP,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      // Create indexes
+      await db.query('CREATE INDEX IF NOT EXISTS idx_auth_tokens_user_purpose ON auth_tokens(user_id, purpose)');
+      await db.query('CREATE INDEX IF NOT EXISTS idx_auth_tokens_expires_at ON auth_tokens(expires_at)');
+    },
+    down: async () => {
+      await db.query('DROP TABLE IF EXISTS auth_tokens CASCADE');
+    }
+  },
+  {
+    version: '014_intelligence_triage',
+    description: 'Add triage status and source fingerprints to intelligence data',
+    up: async () => {
+      await db.query(`
+        ALTER TABLE intelligence_data
+        ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'new'
+          CHECK (status IN ('new', 'saved', 'dismissed', 'acted_on')),
+        ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMP,
+        ADD COLUMN IF NOT EXISTS fingerprint VARCHAR(255)
+      `);
+
+      // Create indexes
+      await db.query('CREATE UNIQUE INDEX IF NOT EXISTS idx_intelligence_data_fingerprint ON intelligence_data(user_id, fingerprint)');
+      await db.query('CREATE INDEX IF NOT EXISTS idx_intelligence_data_user_status ON intelligence_data(user_id, status)');
+      await db.query('CREATE INDEX IF NOT EXISTS idx_intelligence_data_expires_at ON intelligence_data(expires_at)');
+    },
+    down: async () => {
+      await db.query('DROP INDEX IF EXISTS idx_intelligence_data_fingerprint');
+      await db.query('DROP INDEX IF EXISTS idx_intelligence_data_user_status');
+      await db.query('DROP INDEX IF EXISTS idx_intelligence_data_expires_at');
+      await db.query(`
+        ALTER TABLE intelligence_data
+        DROP COLUMN IF EXISTS status,
+        DROP COLUMN IF EXISTS status_changed_at,
+        DROP COLUMN IF EXISTS fingerprint
+      `);
+    }
+  },
+  {
+    version: '015_feed_subscriptions',
+    description: 'Create feed subscriptions and seen feed items',
+    up: async () => {
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS feed_subscriptions (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          url TEXT NOT NULL,
+          title VARCHAR(500),
+          site_url TEXT,
+          format VARCHAR(10),
+          etag VARCHAR(500),
+          last_modified VARCHAR(100),
+          poll_interval_minutes INTEGER NOT NULL DEFAULT 60 CHECK (poll_interval_minutes >= 5),
+          is_active BOOLEAN NOT NULL DEFAULT true,
+          last_polled_at TIMESTAMP,
+          last_error TEXT,
+          error_count INTEGER NOT NULL DEFAULT 0,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(user_id, url)
+        )
+      `);
+
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS feed_items (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          subscription_id UUID NOT NULL REFERENCES feed_subscriptions(id) ON DELETE CASCADE,
+          guid TEXT NOT NULL,
+          url TEXT,
+          intelligence_id UUID REFERENCES intelligence_data(id) ON DELETE SET NULL,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(subscription_id, guid)
+        )
+      `);
+
+      // Create indexes
+      await db.query('CREATE INDEX IF NOT EXISTS idx_feed_subscriptions_due ON feed_subscriptions(is_active, last_polled_at)');
+      await db.query('CREATE INDEX IF NOT EXISTS idx_feed_items_subscription_url ON feed_items(subscription_id, url)');
+    },
+    down: async () => {
+      await db.query('DROP TABLE IF EXISTS feed_items CASCADE');
+      await db.query('DROP TABLE IF EXISTS feed_subscriptions CASCADE');
+    }
+  },
+  {
+    version: '016_ingest_sources',
+    description: 'Create webhook ingest sources, processed event keys and dead letters',
+    up: async () => {
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS ingest_sources (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          name VARCHAR(255) NOT NULL,
+          secret VARCHAR(255) NOT NULL,
+          mapping JSONB NOT NULL,
+          is_active BOOLEAN NOT NULL DEFAULT true,
+          last_event_at TIMESTAMP,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      // One row per idempotency key; record_type is null while the event is in flight
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS ingest_events (
+          source_id UUID NOT NULL REFERENCES ingest_sources(id) ON DELETE CASCADE,
+          idempotency_key VARCHAR(255) NOT NULL,
+          record_type VARCHAR(50),
+          record_id VARCHAR(255),
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (source_id, idempotency_key)
+        )
+      `);
+
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS ingest_dead_letters (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          source_id UUID NOT NULL REFERENCES ingest_sources(id) ON DELETE CASCADE,
+          idempotency_key VARCHAR(255) NOT NULL,
+          body TEXT NOT NULL,
+          error TEXT NOT NULL,
+          attempts INTEGER NOT NULL DEFAULT 1,
+          last_attempt_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          resolved_at TIMESTAMP,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(source_id, idempotency_key)
+        )
+      `);
+
+      // Create indexes
+      await db.query('CREATE INDEX IF NOT EXISTS idx_ingest_sources_user_id ON ingest_sources(user_id)');
+      await db.query('CREATE INDEX IF NOT EXISTS idx_ingest_dead_letters_unresolved ON ingest_dead_letters(source_id) WHERE resolved_at IS NULL');
+    },
+    down: async () => {
+      await db.query('DROP TABLE IF EXISTS ingest_dead_letters CASCADE');
+      await db.query('DROP TABLE IF EXISTS ingest_events CASCADE');
+      await db.query('DROP TABLE IF EXISTS ingest_sources CASCADE');
+    }
+  },
+  {
+    version: '017_jobs',
+    description: 'Create background job queue and recurring job schedules',
+    up: async () => {
+      // System schedules have no user
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS job_schedules (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+          type VARCHAR(50) NOT NULL,
+          payload JSONB NOT NULL DEFAULT '{}',
+          cron VARCHAR(100) NOT NULL,
+          is_active BOOLEAN NOT NULL DEFAULT true,
+          next_run_at TIMESTAMP NOT NULL,
+          last_run_at TIMESTAMP,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS jobs (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+          schedule_id UUID REFERENCES job_schedules(id) ON DELETE SET NULL,
+          type VARCHAR(50) NOT NULL,
+          payload JSONB NOT NULL DEFAULT '{}',
+          status VARCHAR(20) NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed', 'cancelled')),
+          attempts INTEGER NOT NULL DEFAULT 0,
+          max_attempts INTEGER NOT NULL DEFAULT 3,
+          run_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          locked_at TIMESTAMP,
+          last_error TEXT,
+          result JSONB,
+          started_at TIMESTAMP,
+          finished_at TIMESTAMP,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      // Create indexes
+      await db.query('CREATE UNIQUE INDEX IF NOT EXISTS idx_job_schedules_system_type ON job_schedules(type) WHERE user_id IS NULL');
+      await db.query('CREATE INDEX IF NOT EXISTS idx_job_schedules_due ON job_schedules(next_run_at) WHERE is_active = true');
+      await db.query("CREATE INDEX IF NOT EXISTS idx_jobs_runnable ON jobs(run_at) WHERE status = 'queued'");
+      await db.query('CREATE INDEX IF NOT EXISTS idx_jobs_user_created ON jobs(user_id, created_at DESC)');
+    },
+    down: async () => {
+      await db.query('DROP TABLE IF EXISTS jobs CASCADE');
+      await db.query('DROP TABLE IF EXISTS job_schedules CASCADE');
+    }
+  },
+  {
+    version: '018_competitors',
+    description: 'Create competitor watchlist and historical snapshots',
+    up: async () => {
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS competitors (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          name VARCHAR(200) NOT NULL,
+          domain VARCHAR(255),
+          industry VARCHAR(200) NOT NULL,
+          is_active BOOLEAN NOT NULL DEFAULT true,
+          vector_document_id UUID REFERENCES vector_documents(id) ON DELETE SET NULL,
+          last_snapshot_at TIMESTAMP,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS competitor_snapshots (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          competitor_id UUID NOT NULL REFERENCES competitors(id) ON DELETE CASCADE,
+          key_topics TEXT[] NOT NULL DEFAULT '{}',
+          content_frequency VARCHAR(20) NOT NULL CHECK (content_frequency IN ('low', 'moderate', 'high')),
+          recent_post_count INTEGER NOT NULL DEFAULT 0,
+          social_presence JSONB NOT NULL DEFAULT '[]',
+          recent_content JSONB NOT NULL DEFAULT '[]',
+          captured_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      // Create indexes
+      await db.query('CREATE UNIQUE INDEX IF NOT EXISTS idx_competitors_user_name ON competitors(user_id, LOWER(name))');
+      await db.query('CREATE INDEX IF NOT EXISTS idx_competitor_snapshots_captured ON competitor_snapshots(competitor_id, captured_at DESC)');
+    },
+    down: async () => {
+      await db.query('DROP TABLE IF EXISTS competitor_snapshots CASCADE');
+      await db.query('DROP TABLE IF EXISTS competitors CASCADE');
+    }
+  },
+  {
+    version: '019_brand_mentions',
+    description: 'Create brand mentions with sentiment',
+    up: async () => {
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS brand_mentions (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          brand VARCHAR(200) NOT NULL,
+          keyword VARCHAR(200),
+          url TEXT NOT NULL,
+          title TEXT NOT NULL,
+          snippet TEXT,
+          source VARCHAR(255) NOT NULL,
+          sentiment VARCHAR(20) NOT NULL CHECK (sentiment IN ('positive', 'negative', 'neutral')),
+          sentiment_score REAL NOT NULL DEFAULT 0,
+          published_at TIMESTAMP,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      // Create indexes
+      await db.query('CREATE UNIQUE INDEX IF NOT EXISTS idx_brand_mentions_user_brand_url ON brand_mentions(user_id, LOWER(brand), url)');
+      await db.query('CREATE INDEX IF NOT EXISTS idx_brand_mentions_user_day ON brand_mentions(user_id, (COALESCE(published_at, created_at)) DESC)');
+    },
+    down: async () => {
+      await db.query('DROP TABLE IF EXISTS brand_mentions CASCADE');
+    }
+  },
+  {
+    version: '020_pipeline_items',
+    description: 'Create opportunity and threat pipeline',
+    up: async () => {
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS pipeline_items (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          kind VARCHAR(20) NOT NULL CHECK (kind IN ('opportunity', 'threat')),
+          category VARCHAR(50) NOT NULL,
+          title TEXT NOT NULL,
+          description TEXT NOT NULL DEFAULT '',
+          priority VARCHAR(20) NOT NULL CHECK (priority IN ('low', 'medium', 'high')),
+          deadline TIMESTAMP,
+          source VARCHAR(100) NOT NULL,
+          actions TEXT[] NOT NULL DEFAULT '{}',
+          stage VARCHAR(20) NOT NULL DEFAULT 'detected' CHECK (stage IN ('detected', 'pursuing', 'done', 'ignored')),
+          intelligence_id UUID UNIQUE REFERENCES intelligence_data(id) ON DELETE SET NULL,
+          project_id UUID REFERENCES projects(id) ON DELETE SET NULL,
+          detected_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          stage_changed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      // Create indexes
+      await db.query('CREATE INDEX IF NOT EXISTS idx_pipeline_items_user_stage ON pipeline_items(user_id, stage)');
+    },
+    down: async () => {
+      await db.query('DROP TABLE IF EXISTS pipeline_items CASCADE');
+    }
+  },
+  {
+    version: '021_trend_observations',
+    description: 'Create trend observations for momentum',
+    up: async () => {
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS trend_observations (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          keyword VARCHAR(200) NOT NULL,
+          category VARCHAR(100) NOT NULL,
+          industry VARCHAR(200),
+          volume REAL NOT NULL CHECK (volume >= 0),
+          source VARCHAR(100) NOT NULL,
+          observed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      // Create indexes
+      await db.query('CREATE INDEX IF NOT EXISTS idx_trend_observations_user_keyword ON trend_observations(user_id, LOWER(keyword), observed_at DESC)');
+    },
+    down: async () => {
+      await db.query('DROP TABLE IF EXISTS trend_observations CASCADE');
+    }
+  },
+  {
+    version: '022_notifications',
+    description: 'Create notifications and notification preferences',
+    up: async () => {
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS notifications (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          type VARCHAR(20) NOT NULL CHECK (type IN ('alert', 'analysis', 'deadline')),
+          title TEXT NOT NULL,
+          body TEXT NOT NULL DEFAULT '',
+          link VARCHAR(500),
+          data JSONB NOT NULL DEFAULT '{}',
+          dedupe_key VARCHAR(200),
+          read_at TIMESTAMP,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(user_id, dedupe_key)
+        )
+      `);
+
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS notification_preferences (
+          user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+          muted_types TEXT[] NOT NULL DEFAULT '{}',
+          digest_frequency VARCHAR(10) NOT NULL DEFAULT 'weekly' CHECK (digest_frequency IN ('off', 'daily', 'weekly')),
+          last_digest_at TIMESTAMP,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      // Create indexes
+      await db.query('CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON notifications(user_id, created_at DESC)');
+      await db.query('CREATE INDEX IF NOT EXISTS idx_notifications_unread ON notifications(user_id) WHERE read_at IS NULL');
+    },
+    down: async () => {
+      await db.query('DROP TABLE IF EXISTS notification_preferences CASCADE');
+      await db.query('DROP TABLE IF EXISTS notifications CASCADE');
+    }
+  },
+  {
+    version: '023_llm_usage',
+    description: 'Create LLM usage accounting',
+    up: async () => {
+      await db.query(`
+        CREATE TABLE IF NOT EXISTS llm_usage (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          task VARCHAR(50) NOT NULL,
+          provider VARCHAR(20) NOT NULL,
+          model VARCHAR(100) NOT NULL,
+          input_tokens INTEGER NOT NULL DEFAULT 0,
+          output_tokens INTEGER NOT NULL DEFAULT 0,
+          cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      // Create indexes
+      await db.query('CREATE INDEX IF NOT EXISTS idx_llm_usage_user_created ON llm_usage(user_id, created_at DESC)');
+    },
+    down: async () => {
+      await db.query('DROP TABLE IF EXISTS llm_usage CASCADE');
+    }
+  },
+  {
+    version: '024_content_variants',
+    description: 'Link repurposed content variants to their source',
+    up: async () => {
+      await db.query('ALTER TABLE content ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES content(id) ON DELETE SET NULL');
+
+      // Create indexes
+      await db.query('CREATE INDEX IF NOT EXISTS idx_content_parent_id ON content(parent_id)');
+    },
+    down: async () => {
+      await db.query('DROP INDEX IF EXISTS idx_content_parent_id');
+      await db.query('ALTER TABLE content DROP COLUMN IF EXISTS parent_id');
+    }
+  },
+  {
+    version: '025_vector_documents_content_id',
+    description: 'Index vector documents by the content item they embed',
+    up: async () => {
+      await db.query(`
+        CREATE INDEX IF NOT EXISTS idx_vector_documents_content_id
+        ON vector_documents(user_id, (metadata->>'contentId'))
+        WHERE parent_id IS NULL
+      `);
+    },
+    down: async () => {
+      await db.query('DROP INDEX IF EXISTS idx_vector_documents_content_id');
+    }
   }
 ];
 
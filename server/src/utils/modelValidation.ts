@@ -148,10 +148,28 @@ export const validateBrandStrategy = (strategy: Partial<BrandStrategy>): string[
     errors.push('Voice and tone must be an object');
   }
 
+  const bannedPhrases = strategy.voiceAndTone?.bannedPhrases;
+  if (bannedPhrases !== undefined && (!Array.isArray(bannedPhrases) || bannedPhrases.some(phrase => typeof phrase !== 'string'))) {
+    errors.push('Banned phrases must be an array of strings');
+  }
+
   if (strategy.platformStrategy && typeof strategy.platformStrategy !== 'object') {
     errors.push('Platform strategy must be an object');
   }
 
+  if (strategy.platformStrategy && typeof strategy.platformStrategy === 'object') {
+    const platforms = ['linkedin', 'twitter', 'instagram', 'youtube', 'blog'];
+    for (const [platform, config] of Object.entries(strategy.platformStrategy)) {
+      if (!platforms.includes(platform)) {
+        errors.push(`Platform must be one of ${platforms.join(', ')}`);
+      } else if (!config || typeof config !== 'object') {
+        errors.push(`Platform config for ${platform} must be an object`);
+      } else if (!Array.isArray(config.contentTypes) || !Array.isArray(config.hashtagStrategy)) {
+        errors.push(`Content types and hashtag strategy for ${platform} must be arrays`);
+      }
+    }
+  }
+
   return errors;
 };
 
@@ -0,0 +1,94 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Notification } from '@/types';
+import { getMailTransport } from '@/utils/mail';
+import { logger } from '@/utils/logger';
+
+export interface NotificationMessage {
+  userId: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  notifications: Notification[];
+}
+
+/**
+ * Delivers notifications outside the app, such as digests. Implementations
+ * either reach the user or keep the message somewhere a developer can read it.
+ */
+export interface NotificationChannel {
+  readonly name: string;
+  deliver(message: NotificationMessage): Promise<void>;
+}
+
+export type NotificationChannelName = 'email' | 'file';
+
+/**
+ * Email through the process-wide mail transport
+ */
+export class EmailNotificationChannel implements NotificationChannel {
+  readonly name = 'email';
+
+  async deliver(message: NotificationMessage): Promise<void> {
+    await getMailTransport().send({
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      ...(message.html && { html: message.html }),
+    });
+  }
+}
+
+/**
+ * Local sink for testing: writes each message to NOTIFICATION_DIR as JSON
+ */
+export class FileNotificationChannel implements NotificationChannel {
+  readonly name = 'file';
+
+  constructor(readonly directory: string = process.env['NOTIFICATION_DIR'] || path.join(process.cwd(), 'tmp', 'notifications')) {}
+
+  async deliver(message: NotificationMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const file = path.join(this.directory, `${Date.now()}-${message.userId}.json`);
+    await fs.writeFile(file, JSON.stringify({ ...message, deliveredAt: new Date() }, null, 2));
+    logger.info(`Notification for ${message.to} written to ${file}`);
+  }
+}
+
+/**
+ * Build a channel from NOTIFICATION_CHANNEL, email by default
+ */
+export const createNotificationChannel = (name?: NotificationChannelName): NotificationChannel => {
+  const channelName = name ?? ((process.env['NOTIFICATION_CHANNEL'] || 'email') as NotificationChannelName);
+
+  switch (channelName) {
+    case 'email':
+      return new EmailNotificationChannel();
+    case 'file':
+      return new FileNotificationChannel();
+    default:
+      throw new Error(`Unknown notification channel: ${channelName}`);
+  }
+};
+
+let activeChannel: NotificationChannel | null = null;
+
+/**
+ * The process-wide notification channel, created from config on first use
+ */
+export const getNotificationChannel = (): NotificationChannel => {
+  if (!activeChannel) {
+    activeChannel = createNotificationChannel();
+    logger.info(`Using ${activeChannel.name} notification channel`);
+  }
+  return activeChannel;
+};
+
+/**
+ * Replace the process-wide channel, e.g. with a FileNotificationChannel in tests
+ */
+export const setNotificationChannel = (channel: NotificationChannel | null): void => {
+  activeChannel = channel;
+};
@@ -0,0 +1,22 @@
+import { createSearchProvider, SearchProvider } from '@anidhi/shared';
+import { logger } from '@/utils/logger';
+
+let activeProvider: SearchProvider | null = null;
+
+/**
+ * The process-wide search provider, created from config on first use
+ */
+export const getSearchProvider = (): SearchProvider => {
+  if (!activeProvider) {
+    activeProvider = createSearchProvider({ logger });
+    logger.info(`Using ${activeProvider.name} search provider`);
+  }
+  return activeProvider;
+};
+
+/**
+ * Replace the process-wide provider, e.g. with a FixtureSearchProvider in tests
+ */
+export const setSearchProvider = (provider: SearchProvider | null): void => {
+  activeProvider = provider;
+};
@@ -0,0 +1,67 @@
+/**
+ * Lexicon-based sentiment scoring for short texts such as search snippets.
+ * Good enough to sort mentions into positive, negative and neutral and to
+ * spot a run of bad press; not a replacement for a trained model.
+ */
+
+export type SentimentLabel = 'positive' | 'negative' | 'neutral';
+
+export interface SentimentScore {
+  label: SentimentLabel;
+  // -1 (very negative) to 1 (very positive)
+  score: number;
+}
+
+const POSITIVE_WORDS = [
+  'amazing', 'award', 'awarded', 'best', 'breakthrough', 'celebrate', 'excellent', 'exceptional',
+  'favorite', 'favourite', 'great', 'growth', 'helpful', 'impressive', 'innovative', 'inspiring',
+  'leader', 'leading', 'love', 'loved', 'outstanding', 'partnership', 'positive', 'praise', 'praised',
+  'recommend', 'recommended', 'reliable', 'success', 'successful', 'thrilled', 'top', 'trusted', 'win', 'wins',
+];
+
+const NEGATIVE_WORDS = [
+  'awful', 'bad', 'boycott', 'breach', 'broken', 'complaint', 'complaints', 'controversy', 'crisis',
+  'decline', 'disappointed', 'disappointing', 'failure', 'failed', 'fraud', 'hack', 'hacked', 'lawsuit',
+  'layoffs', 'leak', 'misleading', 'negative', 'outage', 'poor', 'problem', 'recall', 'scam', 'scandal',
+  'slow', 'terrible', 'unreliable', 'warning', 'worst',
+];
+
+const NEGATIONS = new Set(['not', 'no', 'never', "isn't", "wasn't", "don't", "doesn't", "didn't", 'hardly', 'without']);
+
+const LEXICON = new Map<string, number>([
+  ...POSITIVE_WORDS.map(word => [word, 1] as [string, number]),
+  ...NEGATIVE_WORDS.map(word => [word, -1] as [string, number]),
+]);
+
+// Scores within this distance of zero are neutral
+const NEUTRAL_BAND = 0.15;
+
+/**
+ * Score a text. A negation within the two preceding words flips a term.
+ */
+export const scoreSentiment = (text: string): SentimentScore => {
+  const words = text.toLowerCase().match(/[a-z']+/g) ?? [];
+
+  let total = 0;
+  let matched = 0;
+  words.forEach((word, index) => {
+    const weight = LEXICON.get(word);
+    if (weight === undefined) {
+      return;
+    }
+
+    const negated = words.slice(Math.max(0, index - 2), index).some(previous => NEGATIONS.has(previous));
+    total += negated ? -weight : weight;
+    matched++;
+  });
+
+  if (matched === 0) {
+    return { label: 'neutral', score: 0 };
+  }
+
+  // Average per matched term, damped so a single word can't reach the extremes
+  const score = Math.round((total / matched) * Math.min(1, matched / 2) * 100) / 100;
+  const label = score > NEUTRAL_BAND ? 'positive' : score < -NEUTRAL_BAND ? 'negative' : 'neutral';
+
+  return { label, score };
+};
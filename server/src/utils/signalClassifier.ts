@@ -0,0 +1,180 @@
+/**
+ * Rule-based classification of intelligence items into opportunities and
+ * threats. Each rule is a set of phrases looked for in the item's title and
+ * summary; the first matching rule wins, in the order listed.
+ */
+
+import { IntelligenceData, Opportunity, Threat } from '@/types';
+
+export type ClassifiedSignal =
+  | { kind: 'opportunity'; opportunity: Omit<Opportunity, 'id' | 'detectedAt'> }
+  | { kind: 'threat'; threat: Omit<Threat, 'id' | 'detectedAt'> };
+
+type Priority = Opportunity['priority'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// An opportunity closing within this many days is high priority
+const URGENT_DAYS = 7;
+
+const OPPORTUNITY_RULES: { type: Opportunity['type']; phrases: string[]; actions: string[] }[] = [
+  {
+    type: 'speaking',
+    phrases: ['call for speakers', 'call for papers', 'call for proposals', 'cfp', 'speaker', 'keynote', 'panelist', 'podcast guest'],
+    actions: ['Check the audience and format fit', 'Draft a talk abstract and speaker bio', 'Submit before the deadline']
+  },
+  {
+    type: 'writing',
+    phrases: ['guest post', 'write for us', 'contributors wanted', 'op-ed', 'submissions', 'accepting pitches', 'byline'],
+    actions: ['Read the submission guidelines', 'Pitch an angle that matches your expertise', 'Draft and submit the piece']
+  },
+  {
+    type: 'collaboration',
+    phrases: ['partnership', 'looking for partners', 'collaborat', 'co-author', 'joint venture', 'seeking co-founder'],
+    actions: ['Research the people involved', 'Reach out with a specific proposal', 'Agree on scope and next steps']
+  },
+  {
+    type: 'networking',
+    phrases: ['meetup', 'networking', 'mixer', 'roundtable', 'community event', 'conference', 'summit'],
+    actions: ['Register or request an invite', 'List the people you want to meet', 'Follow up within a week']
+  }
+];
+
+const CONTENT_ACTIONS = ['Outline a post with your perspective', 'Publish while the topic is current'];
+
+const THREAT_RULES: { type: Threat['type']; phrases: string[]; mitigation: string[] }[] = [
+  {
+    type: 'reputation',
+    phrases: ['lawsuit', 'scandal', 'data breach', 'boycott', 'fraud', 'misconduct', 'recall', 'backlash'],
+    mitigation: ['Confirm the facts and whether you are affected', 'Prepare a short public statement', 'Monitor mentions for the next few days']
+  },
+  {
+    type: 'market_shift',
+    phrases: ['regulation', 'banned', 'layoffs', 'downturn', 'recession', 'tariff', 'market decline', 'consolidation'],
+    mitigation: ['Assess the impact on your audience and offer', 'Adjust upcoming content to address the change']
+  },
+  {
+    type: 'competition',
+    phrases: ['launches', 'launched', 'acquires', 'acquired', 'raises', 'funding round', 'price cut', 'new pricing'],
+    mitigation: ['Review what the competitor changed', 'Highlight where your positioning differs']
+  }
+];
+
+const THREAT_TYPES: Threat['type'][] = ['reputation', 'competition', 'market_shift', 'negative_sentiment'];
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+// "deadline: 2026-11-01", "submit by November 1", "closes Nov 1, 2026"
+const DEADLINE_PATTERN = new RegExp(
+  `\\b(?:deadline|due|by|until|closes|close|before|ends)\\b:?\\s+(?:on\\s+)?(\\d{4}-\\d{2}-\\d{2}|(${MONTHS.map(month => month.substring(0, 3)).join('|')})[a-z]*\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?)`,
+  'i'
+);
+
+const priorityFromRelevance = (relevance: number): Priority =>
+  relevance >= 0.75 ? 'high' : relevance >= 0.5 ? 'medium' : 'low';
+
+const findRule = <T extends { phrases: string[] }>(rules: T[], text: string): T | undefined =>
+  rules.find(rule => rule.phrases.some(phrase => text.includes(phrase)));
+
+/**
+ * Find a deadline in free text. Dates without a year are taken as the next
+ * occurrence on or after `now`.
+ */
+export const extractDeadline = (text: string, now: Date = new Date()): Date | undefined => {
+  const match = text.match(DEADLINE_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, date, month, day, year] = match;
+  if (!month) {
+    const parsed = new Date(`${date}T23:59:59Z`);
+    return isNaN(parsed.getTime()) ? undefined : parsed;
+  }
+
+  const monthIndex = MONTHS.findIndex(name => name.startsWith(month.toLowerCase()));
+  const dayOfMonth = parseInt(day!);
+  if (dayOfMonth < 1 || dayOfMonth > 31) {
+    return undefined;
+  }
+
+  const candidate = new Date(Date.UTC(year ? parseInt(year) : now.getUTCFullYear(), monthIndex, dayOfMonth, 23, 59, 59));
+  if (!year && candidate < now) {
+    candidate.setUTCFullYear(candidate.getUTCFullYear() + 1);
+  }
+  return candidate;
+};
+
+/**
+ * Turn an intelligence item into an opportunity or threat, or null when no
+ * rule applies
+ */
+export const classifyIntelligence = (item: IntelligenceData, now: Date = new Date()): ClassifiedSignal | null => {
+  const title = String(item.data['title'] || item.data['keyword'] || item.data['name'] || '').trim();
+  const description = String(item.data['summary'] || item.data['description'] || '').trim();
+  const text = `${title} ${description}`.toLowerCase();
+  const source = item.source || item.type;
+
+  if (!title) {
+    return null;
+  }
+
+  // Threats raised by the system carry their own type, severity and mitigation
+  if (item.type === 'threat') {
+    const type = THREAT_TYPES.includes(item.data['type']) ? item.data['type'] : findRule(THREAT_RULES, text)?.type ?? 'reputation';
+    return {
+      kind: 'threat',
+      threat: {
+        title,
+        description,
+        type,
+        severity: ['low', 'medium', 'high'].includes(item.data['severity']) ? item.data['severity'] : priorityFromRelevance(item.relevanceScore),
+        mitigation: Array.isArray(item.data['mitigation'])
+          ? item.data['mitigation']
+          : THREAT_RULES.find(rule => rule.type === type)?.mitigation ?? [],
+        source
+      }
+    };
+  }
+
+  const threatRule = findRule(THREAT_RULES, text);
+  // Competitor moves are only a threat when the competitor is very active or doing something notable
+  if ((threatRule && item.type !== 'opportunity') || (item.type === 'competitor' && item.isActionable)) {
+    const rule = threatRule ?? THREAT_RULES.find(entry => entry.type === 'competition')!;
+    return {
+      kind: 'threat',
+      threat: {
+        title,
+        description,
+        type: rule.type,
+        severity: priorityFromRelevance(item.relevanceScore),
+        mitigation: rule.mitigation,
+        source
+      }
+    };
+  }
+
+  const opportunityRule = findRule(OPPORTUNITY_RULES, text);
+  const isContent = item.type === 'opportunity' || (item.type === 'trend' && item.isActionable);
+  if (!opportunityRule && !isContent) {
+    return null;
+  }
+
+  // Sources such as Huginn agents may pass the deadline as a field
+  const given = item.data['deadline'] ? new Date(item.data['deadline']) : undefined;
+  const deadline = given && !isNaN(given.getTime()) ? given : extractDeadline(`${title}. ${description}`, now);
+  const urgent = deadline !== undefined && deadline.getTime() - now.getTime() <= URGENT_DAYS * DAY_MS;
+
+  return {
+    kind: 'opportunity',
+    opportunity: {
+      title,
+      description,
+      type: opportunityRule?.type ?? 'content',
+      priority: urgent ? 'high' : priorityFromRelevance(item.relevanceScore),
+      source,
+      actionRequired: opportunityRule?.actions ?? (item.data['action'] ? [item.data['action'], ...CONTENT_ACTIONS] : CONTENT_ACTIONS),
+      ...(deadline && { deadline })
+    }
+  };
+};
@@ -0,0 +1,74 @@
+/**
+ * Minimal mustache-style templates for outgoing messages.
+ *
+ * `{{name}}` inserts a value, and dotted paths read nested objects.
+ * `{{#name}}…{{/name}}` repeats its body for each entry of a list, with the
+ * entry's fields in scope (`{{.}}` is the entry itself), or renders it once
+ * when the value is truthy. `{{^name}}…{{/name}}` renders only when the value
+ * is falsy or an empty list.
+ */
+
+export type TemplateView = Record<string, unknown>;
+
+export interface RenderOptions {
+  // HTML-escape inserted values
+  escape?: boolean;
+}
+
+const SECTION = /\{\{([#^])\s*([\w.]+)\s*\}\}([\s\S]*?)\{\{\/\s*\2\s*\}\}/g;
+const VARIABLE = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const lookup = (view: TemplateView, path: string): unknown => {
+  if (path === '.') {
+    return view['.'];
+  }
+
+  return path.split('.').reduce<unknown>(
+    (value, key) => value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined,
+    view
+  );
+};
+
+const format = (value: unknown): string => {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return value instanceof Date ? value.toISOString() : String(value);
+};
+
+export const renderTemplate = (template: string, view: TemplateView, options: RenderOptions = {}): string => {
+  const expanded = template.replace(SECTION, (_match, kind: string, name: string, body: string) => {
+    const value = lookup(view, name);
+    const empty = Array.isArray(value) ? value.length === 0 : !value;
+
+    if (kind === '^') {
+      return empty ? renderTemplate(body, view, options) : '';
+    }
+    if (empty) {
+      return '';
+    }
+    if (Array.isArray(value)) {
+      return value
+        .map(entry => renderTemplate(body, {
+          ...view,
+          ...(entry && typeof entry === 'object' ? entry as TemplateView : {}),
+          '.': entry
+        }, options))
+        .join('');
+    }
+    return renderTemplate(body, view, options);
+  });
+
+  return expanded.replace(VARIABLE, (_match, name: string) => {
+    const text = format(lookup(view, name));
+    return options.escape ? escapeHtml(text) : text;
+  });
+};
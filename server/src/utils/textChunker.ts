@@ -0,0 +1,152 @@
+export interface TextChunk {
+  index: number;
+  content: string;
+  // Character offsets of the chunk within the original text
+  start: number;
+  end: number;
+}
+
+export interface ChunkOptions {
+  maxChars?: number;
+  overlap?: number;
+}
+
+export const DEFAULT_CHUNK_SIZE = 2000;
+export const DEFAULT_CHUNK_OVERLAP = 200;
+
+interface Segment {
+  start: number;
+  end: number;
+  paragraphStart: boolean;
+}
+
+/**
+ * Split text[start, end) on a global separator pattern, returning the
+ * trimmed, non-empty pieces as absolute offsets
+ */
+const splitRange = (text: string, start: number, end: number, separator: RegExp): [number, number][] => {
+  const pieces: [number, number][] = [];
+  const slice = text.slice(start, end);
+  let last = 0;
+
+  for (const match of slice.matchAll(separator)) {
+    pieces.push([start + last, start + match.index!]);
+    last = match.index! + match[0].length;
+  }
+  pieces.push([start + last, end]);
+
+  return pieces
+    .map(([pieceStart, pieceEnd]): [number, number] => {
+      while (pieceStart < pieceEnd && /\s/.test(text[pieceStart]!)) pieceStart++;
+      while (pieceEnd > pieceStart && /\s/.test(text[pieceEnd - 1]!)) pieceEnd--;
+      return [pieceStart, pieceEnd];
+    })
+    .filter(([pieceStart, pieceEnd]) => pieceEnd > pieceStart);
+};
+
+/**
+ * Cut a run of text with no usable sentence breaks at word boundaries
+ */
+const hardSplit = (text: string, start: number, end: number, maxChars: number): [number, number][] => {
+  const pieces: [number, number][] = [];
+  let pieceStart = start;
+
+  while (end - pieceStart > maxChars) {
+    let cut = text.lastIndexOf(' ', pieceStart + maxChars);
+    if (cut <= pieceStart) {
+      cut = pieceStart + maxChars;
+    }
+    pieces.push([pieceStart, cut]);
+    pieceStart = cut;
+    while (pieceStart < end && /\s/.test(text[pieceStart]!)) pieceStart++;
+  }
+
+  if (end > pieceStart) {
+    pieces.push([pieceStart, end]);
+  }
+  return pieces;
+};
+
+/**
+ * Break text into paragraphs, then sentences, then words, so that no
+ * segment is longer than maxChars
+ */
+const segment = (text: string, maxChars: number): Segment[] => {
+  const segments: Segment[] = [];
+
+  for (const [paragraphStart, paragraphEnd] of splitRange(text, 0, text.length, /\n\s*\n/g)) {
+    if (paragraphEnd - paragraphStart <= maxChars) {
+      segments.push({ start: paragraphStart, end: paragraphEnd, paragraphStart: true });
+      continue;
+    }
+
+    let first = true;
+    for (const [sentenceStart, sentenceEnd] of splitRange(text, paragraphStart, paragraphEnd, /(?<=[.!?])\s+/g)) {
+      for (const [start, end] of hardSplit(text, sentenceStart, sentenceEnd, maxChars)) {
+        segments.push({ start, end, paragraphStart: first });
+        first = false;
+      }
+    }
+  }
+
+  return segments;
+};
+
+/**
+ * Split text into overlapping chunks of at most maxChars characters.
+ * Chunks end on paragraph breaks where possible and otherwise on sentence
+ * breaks. Consecutive chunks share up to `overlap` characters of whole
+ * sentences so context at the boundary is not lost.
+ */
+export const chunkText = (text: string, options: ChunkOptions = {}): TextChunk[] => {
+  const maxChars = options.maxChars ?? DEFAULT_CHUNK_SIZE;
+  const overlap = options.overlap ?? DEFAULT_CHUNK_OVERLAP;
+
+  if (text.length <= maxChars) {
+    return [{ index: 0, content: text, start: 0, end: text.length }];
+  }
+
+  const segments = segment(text, maxChars);
+  if (segments.length === 0) {
+    return [{ index: 0, content: text, start: 0, end: text.length }];
+  }
+
+  const chunks: TextChunk[] = [];
+  let i = 0;
+
+  while (i < segments.length) {
+    const first = segments[i]!;
+
+    let j = i + 1;
+    while (j < segments.length && segments[j]!.end - first.start <= maxChars) j++;
+
+    // Prefer ending at a paragraph break when one falls in the second half of the chunk
+    if (j < segments.length) {
+      for (let k = j - 1; k > i; k--) {
+        if (segments[k]!.paragraphStart && segments[k]!.start - first.start >= maxChars / 2) {
+          j = k;
+          break;
+        }
+      }
+    }
+
+    const last = segments[j - 1]!;
+    chunks.push({
+      index: chunks.length,
+      content: text.slice(first.start, last.end),
+      start: first.start,
+      end: last.end
+    });
+
+    if (j >= segments.length) {
+      break;
+    }
+
+    // Start the next chunk with trailing segments that fit in the overlap, always moving forward
+    let next = j;
+    while (next - 1 > i && last.end - segments[next - 1]!.start <= overlap) next--;
+    i = next;
+  }
+
+  return chunks;
+};
@@ -0,0 +1,97 @@
+export const TWEET_LIMIT = 280;
+
+// Room taken by a " 3/12" counter at the end of each post
+const counterLength = (total: number): number => ` ${total}/${total}`.length;
+
+/**
+ * Cut a sentence too long for one post at word boundaries, and words too
+ * long for one post (such as long links) wherever they reach the limit
+ */
+const splitWords = (sentence: string, limit: number): string[] => {
+  const pieces: string[] = [];
+  let current = '';
+
+  for (let word of sentence.split(/\s+/).filter(Boolean)) {
+    while (word.length > limit) {
+      if (current) {
+        pieces.push(current);
+        current = '';
+      }
+      pieces.push(word.slice(0, limit));
+      word = word.slice(limit);
+    }
+
+    if (current && current.length + 1 + word.length <= limit) {
+      current += ` ${word}`;
+    } else {
+      if (current) {
+        pieces.push(current);
+      }
+      current = word;
+    }
+  }
+
+  if (current) {
+    pieces.push(current);
+  }
+  return pieces;
+};
+
+/**
+ * Turn each paragraph into one post, packing the sentences of paragraphs
+ * that don't fit into as few posts as possible
+ */
+const pack = (text: string, limit: number): string[] => {
+  const posts: string[] = [];
+
+  for (const paragraph of text.split(/\n\s*\n/).map(entry => entry.trim()).filter(Boolean)) {
+    if (paragraph.length <= limit) {
+      posts.push(paragraph);
+      continue;
+    }
+
+    let current = '';
+    for (const sentence of paragraph.split(/(?<=[.!?])\s+/)) {
+      for (const piece of sentence.length > limit ? splitWords(sentence, limit) : [sentence]) {
+        if (current && current.length + 1 + piece.length <= limit) {
+          current += ` ${piece}`;
+        } else {
+          if (current) {
+            posts.push(current);
+          }
+          current = piece;
+        }
+      }
+    }
+    if (current) {
+      posts.push(current);
+    }
+  }
+
+  return posts;
+};
+
+/**
+ * Split text into a thread of posts of at most `limit` characters. Blank
+ * lines mark where the author wants a new post; longer paragraphs break
+ * between sentences, then words. Threads of more than one post are numbered
+ * "1/3", "2/3", … with the counter counted against the limit.
+ */
+export const splitThread = (text: string, limit: number = TWEET_LIMIT): string[] => {
+  let posts = pack(text, limit);
+  if (posts.length <= 1) {
+    return posts;
+  }
+
+  // Making room for the counter can push text into extra posts, which can lengthen the counter
+  let total = posts.length;
+  for (;;) {
+    posts = pack(text, limit - counterLength(total));
+    if (posts.length <= total) {
+      break;
+    }
+    total = posts.length;
+  }
+
+  return posts.map((post, i) => `${post} ${i + 1}/${posts.length}`);
+};
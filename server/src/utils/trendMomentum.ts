@@ -0,0 +1,98 @@
+/**
+ * Trend momentum from a daily volume series: moving averages, a least
+ * squares slope, and whether that slope is itself increasing.
+ */
+
+import { TrendDirection, TrendMomentum, TrendPoint } from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SHORT_WINDOW = 3;
+const LONG_WINDOW = 7;
+
+// Days with observations needed before a trend counts as rising or declining
+const MIN_OBSERVATIONS = 4;
+
+// Daily slope, as a share of the long average, that counts as rising or declining
+const DIRECTION_THRESHOLD = 0.05;
+
+// Increase in relative slope that counts as accelerating
+const ACCELERATION_THRESHOLD = 0.05;
+
+const round = (value: number, places: number = 2): number => {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+};
+
+const mean = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+/**
+ * Least squares slope of volume per day. Days without observations are
+ * skipped, not counted as zero.
+ */
+export const slopeOf = (points: TrendPoint[]): number => {
+  if (points.length < 2) {
+    return 0;
+  }
+
+  const start = new Date(`${points[0]!.date}T00:00:00Z`).getTime();
+  const xs = points.map(point => (new Date(`${point.date}T00:00:00Z`).getTime() - start) / DAY_MS);
+  const ys = points.map(point => point.volume);
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+
+  let numerator = 0;
+  let denominator = 0;
+  xs.forEach((x, index) => {
+    numerator += (x - meanX) * (ys[index]! - meanY);
+    denominator += (x - meanX) * (x - meanX);
+  });
+
+  return denominator === 0 ? 0 : numerator / denominator;
+};
+
+/**
+ * Momentum of a trend from its daily volumes, oldest first
+ */
+export const computeMomentum = (keyword: string, series: TrendPoint[]): TrendMomentum => {
+  const points = [...series].sort((a, b) => a.date.localeCompare(b.date));
+  const recent = points.slice(-LONG_WINDOW);
+  const volumes = recent.map(point => point.volume);
+
+  const shortAverage = mean(volumes.slice(-SHORT_WINDOW));
+  const longAverage = mean(volumes);
+  const previousAverage = mean(points.slice(-2 * SHORT_WINDOW, -SHORT_WINDOW).map(point => point.volume));
+
+  const slope = slopeOf(recent);
+  const relativeSlope = longAverage > 0 ? slope / longAverage : 0;
+
+  // Overlapping halves, so an odd window shares its middle day
+  const older = recent.slice(0, Math.ceil(recent.length / 2));
+  const newer = recent.slice(Math.floor(recent.length / 2));
+  const acceleration = recent.length >= MIN_OBSERVATIONS && longAverage > 0
+    ? (slopeOf(newer) - slopeOf(older)) / longAverage
+    : 0;
+
+  let direction: TrendDirection = 'stable';
+  if (recent.length >= MIN_OBSERVATIONS) {
+    if (relativeSlope > DIRECTION_THRESHOLD) {
+      direction = 'rising';
+    } else if (relativeSlope < -DIRECTION_THRESHOLD) {
+      direction = 'declining';
+    }
+  }
+
+  return {
+    keyword,
+    observations: recent.length,
+    latest: volumes[volumes.length - 1] ?? 0,
+    shortAverage: round(shortAverage),
+    longAverage: round(longAverage),
+    slope: round(slope),
+    growth: previousAverage > 0 ? round((shortAverage - previousAverage) / previousAverage * 100, 1) : 0,
+    acceleration: round(acceleration, 3),
+    direction,
+    accelerating: direction === 'rising' && acceleration > ACCELERATION_THRESHOLD
+  };
+};
@@ -1,11 +1,12 @@
+import { PoolClient } from 'pg';
 import { db } from '@/utils/database';
 import { logger } from '@/utils/logger';
-import OpenAI from 'openai';
+import { getEmbeddingProvider } from '@/utils/embeddingProviders';
+import { EmbeddingCache } from '@/utils/embeddingCache';
+import { chunkText, TextChunk } from '@/utils/textChunker';
 
-// Initialize OpenAI client for embeddings
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+// Maximum number of texts sent to the embedding provider in one call
+const EMBEDDING_BATCH_SIZE = 100;
 
 export interface VectorDocument {
   id: string;
@@ -14,15 +15,91 @@ export interface VectorDocument {
   metadata: Record<string, any>;
   documentType: 'content' | 'context' | 'trend' | 'competitor' | 'writing_sample' | 'project';
   embedding?: number[];
+  embeddingModel?: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Location of a chunk within its parent document's content
+export interface ChunkMatch {
+  index: number;
+  start: number;
+  end: number;
+}
+
 export interface SimilaritySearchResult {
   document: VectorDocument;
   similarity: number;
+  // Chunks of a long document that matched, in document order
+  chunks?: ChunkMatch[];
+}
+
+export interface HybridSearchFilters {
+  documentTypes?: string[];
+  platform?: string;
+  contentType?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface HybridSearchOptions extends HybridSearchFilters {
+  limit?: number;
+  // Minimum cosine similarity for a document to count as a semantic match
+  threshold?: number;
+}
+
+export interface HybridSearchResult extends SimilaritySearchResult {
+  score: number;
+  semanticRank: number | null;
+  keywordRank: number | null;
+  chunks: ChunkMatch[];
+  snippet: string;
+  // Character ranges of snippet that matched the query terms
+  highlights: { start: number; end: number }[];
 }
 
+// Reciprocal rank fusion constant; higher values flatten the weight of top ranks
+const RRF_K = 60;
+
+// Searches rank this many chunks per requested result before grouping them by document
+const SEARCH_CANDIDATE_MULTIPLIER = 4;
+
+// Control characters mark matches in ts_headline output since they don't appear in normal text
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_END = '\u0003';
+
+const parseHeadline = (headline: string): Pick<HybridSearchResult, 'snippet' | 'highlights'> => {
+  const highlights: { start: number; end: number }[] = [];
+  let snippet = '';
+  let start = -1;
+
+  for (const char of headline) {
+    if (char === HIGHLIGHT_START) {
+      start = snippet.length;
+    } else if (char === HIGHLIGHT_END) {
+      if (start >= 0 && snippet.length > start) {
+        highlights.push({ start, end: snippet.length });
+      }
+      start = -1;
+    } else {
+      snippet += char;
+    }
+  }
+
+  return { snippet, highlights };
+};
+
+// A long document is represented by the mean of its chunk embeddings
+const meanEmbedding = (embeddings: number[][]): number[] => {
+  const mean = new Array<number>(embeddings[0]!.length).fill(0);
+  for (const embedding of embeddings) {
+    embedding.forEach((value, i) => {
+      mean[i]! += value / embeddings.length;
+    });
+  }
+  return mean;
+};
+
 export class VectorDatabaseService {
   
   /**
@@ -30,6 +107,8 @@ export class VectorDatabaseService {
    */
   static async initialize(): Promise<void> {
     try {
+      const { dimensions } = getEmbeddingProvider();
+
       // Enable pgvector extension
       await db.query('CREATE EXTENSION IF NOT EXISTS vector');
       
@@ -41,7 +120,14 @@ export class VectorDatabaseService {
           content TEXT NOT NULL,
           metadata JSONB DEFAULT '{}',
           document_type VARCHAR(50) NOT NULL,
-          embedding vector(1536),
+          embedding vector(${dimensions}),
+          embedding_model VARCHAR(100),
+          search_vector tsvector GENERATED ALWAYS AS (to_tsvector('english', content)) STORED,
+          parent_id UUID REFERENCES vector_documents(id) ON DELETE CASCADE,
+          chunk_index INTEGER,
+          chunk_start INTEGER,
+          chunk_end INTEGER,
+          chunk_count INTEGER NOT NULL DEFAULT 0,
           created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
           updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
         )
@@ -64,6 +150,18 @@ export class VectorDatabaseService {
         WITH (lists = 100)
       `);
 
+      await db.query(`
+        CREATE INDEX IF NOT EXISTS idx_vector_documents_search 
+        ON vector_documents USING GIN(search_vector)
+      `);
+
+      await db.query(`
+        CREATE INDEX IF NOT EXISTS idx_vector_documents_parent_id 
+        ON vector_documents(parent_id)
+      `);
+
+      await this.ensureEmbeddingDimensions();
+
       logger.info('Vector database initialized successfully');
     } catch (error) {
       logger.error('Vector database initialization failed:', error);
@@ -72,17 +170,99 @@ export class VectorDatabaseService {
   }
 
   /**
-   * Generate embeddings for text content using OpenAI
+   * Make the embedding column match the configured provider's dimensions.
+   * Existing embeddings of another size cannot be compared with new ones, so
+   * they are cleared and must be regenerated.
+   */
+  static async ensureEmbeddingDimensions(): Promise<void> {
+    try {
+      const { dimensions } = getEmbeddingProvider();
+
+      const result = await db.query(`
+        SELECT atttypmod AS dimensions
+        FROM pg_attribute
+        WHERE attrelid = 'vector_documents'::regclass AND attname = 'embedding'
+      `);
+
+      const current = result.rows[0]?.dimensions;
+      if (current === undefined || current === dimensions) {
+        return;
+      }
+
+      logger.warn(`Embedding column has ${current} dimensions but the provider produces ${dimensions}; clearing stored embeddings`);
+
+      await db.query('DROP INDEX IF EXISTS idx_vector_documents_embedding');
+      await db.query(`ALTER TABLE vector_documents ALTER COLUMN embedding TYPE vector(${dimensions}) USING NULL`);
+      await db.query('UPDATE vector_documents SET embedding_model = NULL');
+      await db.query(`
+        CREATE INDEX IF NOT EXISTS idx_vector_documents_embedding 
+        ON vector_documents USING ivfflat (embedding vector_cosine_ops) 
+        WITH (lists = 100)
+      `);
+    } catch (error) {
+      logger.error('Failed to ensure embedding dimensions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Identifier of the provider and model that produce embeddings, stored with each document
+   */
+  static getEmbeddingModel(): string {
+    const provider = getEmbeddingProvider();
+    return `${provider.name}:${provider.model}`;
+  }
+
+  /**
+   * Generate embeddings for text content using the configured provider
    */
   static async generateEmbedding(text: string): Promise<number[]> {
+    const [embedding] = await this.generateEmbeddings([text]);
+    return embedding!;
+  }
+
+  /**
+   * Generate embeddings for many texts at once. Identical texts are embedded
+   * once, previously seen texts come from the embedding cache, and the rest
+   * are sent to the provider in batches.
+   */
+  static async generateEmbeddings(texts: string[]): Promise<number[][]> {
     try {
-      const response = await openai.embeddings.create({
-        model: 'text-embedding-3-small',
-        input: text,
-        encoding_format: 'float',
+      const provider = getEmbeddingProvider();
+      const model = this.getEmbeddingModel();
+      const hashes = texts.map(text => EmbeddingCache.hashContent(text));
+
+      const embeddings = await EmbeddingCache.getMany([...new Set(hashes)], model, provider.dimensions);
+
+      const missing = new Map<string, string>();
+      hashes.forEach((hash, i) => {
+        if (!embeddings.has(hash)) {
+          missing.set(hash, texts[i]!);
+        }
       });
 
-      return response.data[0].embedding;
+      const pending = [...missing.entries()];
+      for (let i = 0; i < pending.length; i += EMBEDDING_BATCH_SIZE) {
+        const batch = pending.slice(i, i + EMBEDDING_BATCH_SIZE);
+        const generated = await provider.embed(batch.map(([, text]) => text));
+
+        const entries = batch.map(([hash], j) => {
+          const embedding = generated[j];
+          if (!embedding || embedding.length !== provider.dimensions) {
+            throw new Error(`Expected ${provider.dimensions} dimensions, got ${embedding?.length ?? 0}`);
+          }
+          embeddings.set(hash, embedding);
+          return { hash, embedding };
+        });
+
+        await EmbeddingCache.putMany(entries, model, provider.dimensions);
+      }
+
+      if (texts.length > 1) {
+        logger.info(`Generated ${texts.length} embeddings: ${texts.length - missing.size} cached, ${missing.size} from ${provider.name}`);
+      }
+
+      return hashes.map(hash => embeddings.get(hash)!);
     } catch (error) {
       logger.error('Failed to generate embedding:', error);
       throw new Error('Embedding generation failed');
@@ -92,14 +272,19 @@ export class VectorDatabaseService {
   /**
    * Store a document with its embedding in the vector database
    */
-  static async storeDocument(document: Omit<VectorDocument, 'id' | 'embedding' | 'createdAt' | 'updatedAt'>): Promise<VectorDocument> {
+  static async storeDocument(document: Omit<VectorDocument, 'id' | 'embedding' | 'embeddingModel' | 'createdAt' | 'updatedAt'>): Promise<VectorDocument> {
     try {
+      const chunks = chunkText(document.content);
+      if (chunks.length > 1) {
+        return await this.storeChunkedDocument(document, chunks);
+      }
+
       // Generate embedding for the content
       const embedding = await this.generateEmbedding(document.content);
 
       const query = `
-        INSERT INTO vector_documents (user_id, content, metadata, document_type, embedding)
-        VALUES ($1, $2, $3, $4, $5)
+        INSERT INTO vector_documents (user_id, content, metadata, document_type, embedding, embedding_model)
+        VALUES ($1, $2, $3, $4, $5, $6)
         RETURNING *
       `;
 
@@ -108,7 +293,8 @@ export class VectorDatabaseService {
         document.content,
         JSON.stringify(document.metadata),
         document.documentType,
-        `[${embedding.join(',')}]`
+        `[${embedding.join(',')}]`,
+        this.getEmbeddingModel()
       ];
 
       const result = await db.query(query, values);
@@ -121,6 +307,7 @@ export class VectorDatabaseService {
         metadata: stored.metadata,
         documentType: stored.document_type,
         embedding: stored.embedding,
+        embeddingModel: stored.embedding_model,
         createdAt: stored.created_at,
         updatedAt: stored.updated_at,
       };
@@ -131,21 +318,110 @@ export class VectorDatabaseService {
   }
 
   /**
-   * Update an existing document and regenerate its embedding
+   * Store a long document as a parent row holding the full content plus one
+   * embedded row per chunk
+   */
+  private static async storeChunkedDocument(
+    document: Omit<VectorDocument, 'id' | 'embedding' | 'embeddingModel' | 'createdAt' | 'updatedAt'>,
+    chunks: TextChunk[]
+  ): Promise<VectorDocument> {
+    const embeddings = await this.generateEmbeddings(chunks.map(chunk => chunk.content));
+    const embeddingModel = this.getEmbeddingModel();
+
+    const client = await db.connect();
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(`
+        INSERT INTO vector_documents (user_id, content, metadata, document_type, embedding, embedding_model, chunk_count)
+        VALUES ($1, $2, $3, $4, $5, $6, $7)
+        RETURNING *
+      `, [
+        document.userId,
+        document.content,
+        JSON.stringify(document.metadata),
+        document.documentType,
+        `[${meanEmbedding(embeddings).join(',')}]`,
+        embeddingModel,
+        chunks.length
+      ]);
+      const stored = result.rows[0];
+
+      await this.insertChunks(client, stored, chunks, embeddings, embeddingModel);
+      await client.query('COMMIT');
+
+      logger.info(`Stored document ${stored.id} as ${chunks.length} chunks`);
+
+      return {
+        id: stored.id,
+        userId: stored.user_id,
+        content: stored.content,
+        metadata: stored.metadata,
+        documentType: stored.document_type,
+        embedding: stored.embedding,
+        embeddingModel: stored.embedding_model,
+        createdAt: stored.created_at,
+        updatedAt: stored.updated_at,
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Insert chunk rows for a parent document. Chunks share the parent's user
+   * and type so they can be filtered without a join.
+   */
+  private static async insertChunks(
+    client: PoolClient,
+    parent: { id: string; user_id: string; document_type: string },
+    chunks: TextChunk[],
+    embeddings: number[][],
+    embeddingModel: string
+  ): Promise<void> {
+    const values: any[] = [parent.id, parent.user_id, parent.document_type, embeddingModel];
+    const rows = chunks.map((chunk, i) => {
+      values.push(chunk.content, `[${embeddings[i]!.join(',')}]`, chunk.index, chunk.start, chunk.end);
+      const n = values.length;
+      return `($1, $2, $3, $${n - 4}, $${n - 3}, $4, $${n - 2}, $${n - 1}, $${n})`;
+    });
+
+    await client.query(`
+      INSERT INTO vector_documents (parent_id, user_id, document_type, content, embedding, embedding_model, chunk_index, chunk_start, chunk_end)
+      VALUES ${rows.join(', ')}
+    `, values);
+  }
+
+  /**
+   * Update an existing document and regenerate its embedding, re-chunking
+   * long content
    */
   static async updateDocument(id: string, updates: Partial<Pick<VectorDocument, 'content' | 'metadata'>>): Promise<VectorDocument | null> {
     try {
       const fields = [];
       const values = [];
       let paramCount = 1;
+      let chunks: TextChunk[] = [];
+      let chunkEmbeddings: number[][] = [];
+      const embeddingModel = this.getEmbeddingModel();
 
       if (updates.content !== undefined) {
-        // Generate new embedding for updated content
-        const embedding = await this.generateEmbedding(updates.content);
+        // Generate new embeddings for updated content
+        chunks = chunkText(updates.content);
+        chunkEmbeddings = await this.generateEmbeddings(chunks.map(chunk => chunk.content));
+        const embedding = chunks.length > 1 ? meanEmbedding(chunkEmbeddings) : chunkEmbeddings[0]!;
+
         fields.push(`content = $${paramCount++}`);
         values.push(updates.content);
         fields.push(`embedding = $${paramCount++}`);
         values.push(`[${embedding.join(',')}]`);
+        fields.push(`embedding_model = $${paramCount++}`);
+        values.push(embeddingModel);
+        fields.push(`chunk_count = $${paramCount++}`);
+        values.push(chunks.length > 1 ? chunks.length : 0);
       }
 
       if (updates.metadata !== undefined) {
@@ -167,23 +443,45 @@ export class VectorDatabaseService {
         RETURNING *
       `;
 
-      const result = await db.query(query, values);
-      
-      if (result.rows.length === 0) {
-        return null;
-      }
+      const client = await db.connect();
+      try {
+        await client.query('BEGIN');
+        const result = await client.query(query, values);
 
-      const updated = result.rows[0];
-      return {
-        id: updated.id,
-        userId: updated.user_id,
-        content: updated.content,
-        metadata: updated.metadata,
-        documentType: updated.document_type,
-        embedding: updated.embedding,
-        createdAt: updated.created_at,
-        updatedAt: updated.updated_at,
-      };
+        if (result.rows.length === 0) {
+          await client.query('ROLLBACK');
+          return null;
+        }
+
+        const updated = result.rows[0];
+
+        if (updates.content !== undefined) {
+          // Replace the old chunks whether or not the new content needs chunking
+          await client.query('DELETE FROM vector_documents WHERE parent_id = $1', [id]);
+          if (chunks.length > 1) {
+            await this.insertChunks(client, updated, chunks, chunkEmbeddings, embeddingModel);
+          }
+        }
+
+        await client.query('COMMIT');
+
+        return {
+          id: updated.id,
+          userId: updated.user_id,
+          content: updated.content,
+          metadata: updated.metadata,
+          documentType: updated.document_type,
+          embedding: updated.embedding,
+          embeddingModel: updated.embedding_model,
+          createdAt: updated.created_at,
+          updatedAt: updated.updated_at,
+        };
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      } finally {
+        client.release();
+      }
     } catch (error) {
       logger.error('Failed to update document:', error);
       throw error;
@@ -191,7 +489,8 @@ export class VectorDatabaseService {
   }
 
   /**
-   * Perform semantic similarity search
+   * Perform semantic similarity search. Chunks of long documents are matched
+   * individually and grouped back into their parent document.
    */
   static async similaritySearch(
     query: string,
@@ -204,32 +503,49 @@ export class VectorDatabaseService {
       // Generate embedding for the search query
       const queryEmbedding = await this.generateEmbedding(query);
 
-      let sqlQuery = `
-        SELECT 
-          id, user_id, content, metadata, document_type, embedding,
-          created_at, updated_at,
-          1 - (embedding <=> $1) as similarity
-        FROM vector_documents
-        WHERE 1 - (embedding <=> $1) > $2
-      `;
-      
-      const values: any[] = [`[${queryEmbedding.join(',')}]`, threshold];
-      let paramCount = 3;
+      // Chunked parents are skipped here; their chunks are searched instead
+      let filters = 'chunk_count = 0 AND 1 - (embedding <=> $1) > $2';
+      const values: any[] = [`[${queryEmbedding.join(',')}]`, threshold, limit * SEARCH_CANDIDATE_MULTIPLIER];
+      let paramCount = 4;
 
       if (userId) {
-        sqlQuery += ` AND user_id = $${paramCount++}`;
+        filters += ` AND user_id = $${paramCount++}`;
         values.push(userId);
       }
 
       if (documentType) {
-        sqlQuery += ` AND document_type = $${paramCount++}`;
+        filters += ` AND document_type = $${paramCount++}`;
         values.push(documentType);
       }
 
-      sqlQuery += ` ORDER BY similarity DESC LIMIT $${paramCount}`;
       values.push(limit);
 
-      const result = await db.query(sqlQuery, values);
+      const result = await db.query(`
+        WITH matches AS (
+          SELECT
+            COALESCE(parent_id, id) AS document_id,
+            chunk_index, chunk_start, chunk_end,
+            1 - (embedding <=> $1) AS similarity
+          FROM vector_documents
+          WHERE ${filters}
+          ORDER BY embedding <=> $1
+          LIMIT $3
+        )
+        SELECT
+          d.id, d.user_id, d.content, d.metadata, d.document_type, d.embedding, d.embedding_model,
+          d.created_at, d.updated_at,
+          MAX(m.similarity) AS similarity,
+          COALESCE(
+            json_agg(json_build_object('index', m.chunk_index, 'start', m.chunk_start, 'end', m.chunk_end) ORDER BY m.chunk_index)
+              FILTER (WHERE m.chunk_index IS NOT NULL),
+            '[]'
+          ) AS chunks
+        FROM matches m
+        JOIN vector_documents d ON d.id = m.document_id
+        GROUP BY d.id
+        ORDER BY similarity DESC
+        LIMIT $${paramCount}
+      `, values);
 
       return result.rows.map(row => ({
         document: {
@@ -239,10 +555,12 @@ export class VectorDatabaseService {
           metadata: row.metadata,
           documentType: row.document_type,
           embedding: row.embedding,
+          embeddingModel: row.embedding_model,
           createdAt: row.created_at,
           updatedAt: row.updated_at,
         },
-        similarity: parseFloat(row.similarity)
+        similarity: parseFloat(row.similarity),
+        chunks: row.chunks
       }));
     } catch (error) {
       logger.error('Similarity search failed:', error);
@@ -250,6 +568,152 @@ export class VectorDatabaseService {
     }
   }
 
+  /**
+   * Hybrid search combining full-text ranking and vector similarity.
+   * Both rankings are computed in one query and merged with reciprocal rank
+   * fusion, so exact names and hashtags are found even when their embedding
+   * is not close to the query. Chunks are ranked individually and each
+   * document takes the rank of its best chunk.
+   */
+  static async hybridSearch(query: string, userId: string, options: HybridSearchOptions = {}): Promise<HybridSearchResult[]> {
+    try {
+      const { documentTypes, platform, contentType, from, to, limit = 10, threshold = 0 } = options;
+
+      const queryEmbedding = await this.generateEmbedding(query);
+
+      const values: any[] = [
+        `[${queryEmbedding.join(',')}]`,
+        query,
+        userId,
+        threshold,
+        limit * SEARCH_CANDIDATE_MULTIPLIER,
+        RRF_K,
+        `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_END}", MaxFragments=2, MaxWords=30, MinWords=12`
+      ];
+      let paramCount = values.length + 1;
+
+      // Filters apply to the parent document, whose metadata chunks don't copy
+      let filters = 'd.user_id = $3';
+
+      if (documentTypes && documentTypes.length > 0) {
+        filters += ` AND d.document_type = ANY($${paramCount++})`;
+        values.push(documentTypes);
+      }
+
+      if (platform) {
+        filters += ` AND d.metadata->>'platform' = $${paramCount++}`;
+        values.push(platform);
+      }
+
+      if (contentType) {
+        filters += ` AND d.metadata->>'contentType' = $${paramCount++}`;
+        values.push(contentType);
+      }
+
+      if (from) {
+        filters += ` AND d.created_at >= $${paramCount++}`;
+        values.push(from);
+      }
+
+      if (to) {
+        filters += ` AND d.created_at <= $${paramCount++}`;
+        values.push(to);
+      }
+
+      values.push(limit);
+
+      const result = await db.query(`
+        WITH search_query AS (
+          SELECT websearch_to_tsquery('english', $2) AS tsquery
+        ),
+        searchable AS (
+          SELECT c.id, d.id AS document_id, c.embedding, c.search_vector, c.chunk_index, c.chunk_start, c.chunk_end
+          FROM vector_documents c
+          JOIN vector_documents d ON d.id = COALESCE(c.parent_id, c.id)
+          WHERE c.chunk_count = 0 AND ${filters}
+        ),
+        semantic AS (
+          SELECT id, document_id, 1 - (embedding <=> $1) AS similarity,
+            ROW_NUMBER() OVER (ORDER BY embedding <=> $1) AS rank
+          FROM searchable
+          WHERE embedding IS NOT NULL AND 1 - (embedding <=> $1) > $4
+          ORDER BY embedding <=> $1
+          LIMIT $5
+        ),
+        keyword AS (
+          SELECT id, document_id,
+            ROW_NUMBER() OVER (ORDER BY ts_rank_cd(search_vector, search_query.tsquery) DESC) AS rank
+          FROM searchable, search_query
+          WHERE search_vector @@ search_query.tsquery
+          ORDER BY ts_rank_cd(search_vector, search_query.tsquery) DESC
+          LIMIT $5
+        ),
+        semantic_documents AS (
+          SELECT document_id, MAX(similarity) AS similarity, ROW_NUMBER() OVER (ORDER BY MIN(rank)) AS rank
+          FROM semantic
+          GROUP BY document_id
+        ),
+        keyword_documents AS (
+          SELECT document_id, ROW_NUMBER() OVER (ORDER BY MIN(rank)) AS rank
+          FROM keyword
+          GROUP BY document_id
+        ),
+        fused AS (
+          SELECT
+            COALESCE(semantic_documents.document_id, keyword_documents.document_id) AS id,
+            semantic_documents.similarity,
+            semantic_documents.rank AS semantic_rank,
+            keyword_documents.rank AS keyword_rank,
+            COALESCE(1.0 / ($6 + semantic_documents.rank), 0) + COALESCE(1.0 / ($6 + keyword_documents.rank), 0) AS score
+          FROM semantic_documents
+          FULL OUTER JOIN keyword_documents ON keyword_documents.document_id = semantic_documents.document_id
+        ),
+        matched_chunks AS (
+          SELECT document_id,
+            json_agg(json_build_object('index', chunk_index, 'start', chunk_start, 'end', chunk_end) ORDER BY chunk_index) AS chunks
+          FROM searchable
+          WHERE chunk_index IS NOT NULL AND id IN (SELECT id FROM semantic UNION SELECT id FROM keyword)
+          GROUP BY document_id
+        )
+        SELECT
+          d.id, d.user_id, d.content, d.metadata, d.document_type, d.embedding_model,
+          d.created_at, d.updated_at,
+          COALESCE(fused.similarity, 1 - (d.embedding <=> $1), 0) AS similarity,
+          fused.score, fused.semantic_rank, fused.keyword_rank,
+          COALESCE(matched_chunks.chunks, '[]') AS chunks,
+          ts_headline('english', d.content, search_query.tsquery, $7) AS headline
+        FROM fused
+        JOIN vector_documents d ON d.id = fused.id
+        LEFT JOIN matched_chunks ON matched_chunks.document_id = fused.id
+        CROSS JOIN search_query
+        ORDER BY fused.score DESC, similarity DESC
+        LIMIT $${paramCount}
+      `, values);
+
+      return result.rows.map(row => ({
+        document: {
+          id: row.id,
+          userId: row.user_id,
+          content: row.content,
+          metadata: row.metadata,
+          documentType: row.document_type,
+          embeddingModel: row.embedding_model,
+          createdAt: row.created_at,
+          updatedAt: row.updated_at,
+        },
+        similarity: parseFloat(row.similarity),
+        score: parseFloat(row.score),
+        semanticRank: row.semantic_rank === null ? null : parseInt(row.semantic_rank),
+        keywordRank: row.keyword_rank === null ? null : parseInt(row.keyword_rank),
+        chunks: row.chunks,
+        ...parseHeadline(row.headline)
+      }));
+    } catch (error) {
+      logger.error('Hybrid search failed:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get document by ID
    */
@@ -270,6 +734,7 @@ export class VectorDatabaseService {
         metadata: doc.metadata,
         documentType: doc.document_type,
         embedding: doc.embedding,
+        embeddingModel: doc.embedding_model,
         createdAt: doc.created_at,
         updatedAt: doc.updated_at,
       };
@@ -279,12 +744,48 @@ export class VectorDatabaseService {
     }
   }
 
+  /**
+   * Get the vector document embedding a content item
+   */
+  static async getContentDocument(userId: string, contentId: string): Promise<VectorDocument | null> {
+    try {
+      const query = `
+        SELECT * FROM vector_documents
+        WHERE user_id = $1 AND document_type = 'content'
+          AND metadata->>'contentId' = $2 AND parent_id IS NULL
+        ORDER BY created_at DESC
+        LIMIT 1
+      `;
+      const result = await db.query(query, [userId, contentId]);
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      const doc = result.rows[0];
+      return {
+        id: doc.id,
+        userId: doc.user_id,
+        content: doc.content,
+        metadata: doc.metadata,
+        documentType: doc.document_type,
+        embedding: doc.embedding,
+        embeddingModel: doc.embedding_model,
+        createdAt: doc.created_at,
+        updatedAt: doc.updated_at,
+      };
+    } catch (error) {
+      logger.error('Failed to get content document:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get all documents for a user
    */
   static async getUserDocuments(userId: string, documentType?: string): Promise<VectorDocument[]> {
     try {
-      let query = 'SELECT * FROM vector_documents WHERE user_id = $1';
+      let query = 'SELECT * FROM vector_documents WHERE user_id = $1 AND parent_id IS NULL';
       const values = [userId];
 
       if (documentType) {
@@ -303,6 +804,7 @@ export class VectorDatabaseService {
         metadata: doc.metadata,
         documentType: doc.document_type,
         embedding: doc.embedding,
+        embeddingModel: doc.embedding_model,
         createdAt: doc.created_at,
         updatedAt: doc.updated_at,
       }));
@@ -342,11 +844,11 @@ export class VectorDatabaseService {
 
       const query = `
         SELECT 
-          id, user_id, content, metadata, document_type, embedding,
+          id, user_id, content, metadata, document_type, embedding, embedding_model,
           created_at, updated_at,
           1 - (embedding <=> $1) as similarity
         FROM vector_documents
-        WHERE id != $2 AND 1 - (embedding <=> $1) > $3
+        WHERE id != $2 AND parent_id IS NULL AND 1 - (embedding <=> $1) > $3
         ORDER BY similarity DESC
         LIMIT $4
       `;
@@ -368,6 +870,7 @@ export class VectorDatabaseService {
           metadata: row.metadata,
           documentType: row.document_type,
           embedding: row.embedding,
+          embeddingModel: row.embedding_model,
           createdAt: row.created_at,
           updatedAt: row.updated_at,
         },
@@ -380,23 +883,66 @@ export class VectorDatabaseService {
   }
 
   /**
-   * Batch store multiple documents
+   * Batch store multiple documents, embedding each batch with one provider call.
+   * Long documents are chunked and stored individually.
    */
-  static async batchStoreDocuments(documents: Omit<VectorDocument, 'id' | 'embedding' | 'createdAt' | 'updatedAt'>[]): Promise<VectorDocument[]> {
+  static async batchStoreDocuments(documents: Omit<VectorDocument, 'id' | 'embedding' | 'embeddingModel' | 'createdAt' | 'updatedAt'>[]): Promise<VectorDocument[]> {
     try {
-      const results: VectorDocument[] = [];
-
-      // Process in batches to avoid overwhelming the embedding API
-      const batchSize = 10;
-      for (let i = 0; i < documents.length; i += batchSize) {
-        const batch = documents.slice(i, i + batchSize);
-        
-        for (const doc of batch) {
-          const stored = await this.storeDocument(doc);
-          results.push(stored);
+      const results: VectorDocument[] = new Array(documents.length);
+      const embeddingModel = this.getEmbeddingModel();
+
+      const single: number[] = [];
+      for (let i = 0; i < documents.length; i++) {
+        const chunks = chunkText(documents[i]!.content);
+        if (chunks.length > 1) {
+          results[i] = await this.storeChunkedDocument(documents[i]!, chunks);
+        } else {
+          single.push(i);
         }
       }
 
+      for (let i = 0; i < single.length; i += EMBEDDING_BATCH_SIZE) {
+        const batchIndexes = single.slice(i, i + EMBEDDING_BATCH_SIZE);
+        const batch = batchIndexes.map(index => documents[index]!);
+        const embeddings = await this.generateEmbeddings(batch.map(doc => doc.content));
+
+        const values: any[] = [embeddingModel];
+        const rows = batch.map((doc, j) => {
+          values.push(
+            doc.userId,
+            doc.content,
+            JSON.stringify(doc.metadata),
+            doc.documentType,
+            `[${embeddings[j]!.join(',')}]`
+          );
+          const n = values.length;
+          return `($${n - 4}, $${n - 3}, $${n - 2}, $${n - 1}, $${n}, $1)`;
+        });
+
+        const query = `
+          INSERT INTO vector_documents (user_id, content, metadata, document_type, embedding, embedding_model)
+          VALUES ${rows.join(', ')}
+          RETURNING *
+        `;
+
+        const result = await db.query(query, values);
+
+        // RETURNING rows come back in VALUES order
+        result.rows.forEach((stored, j) => {
+          results[batchIndexes[j]!] = {
+            id: stored.id,
+            userId: stored.user_id,
+            content: stored.content,
+            metadata: stored.metadata,
+            documentType: stored.document_type,
+            embedding: stored.embedding,
+            embeddingModel: stored.embedding_model,
+            createdAt: stored.created_at,
+            updatedAt: stored.updated_at,
+          };
+        });
+      }
+
       return results;
     } catch (error) {
       logger.error('Batch store documents failed:', error);
@@ -404,6 +950,90 @@ export class VectorDatabaseService {
     }
   }
 
+  /**
+   * Re-embed documents that were embedded by a different provider or model,
+   * or whose embedding was cleared by a dimension change. Chunks are
+   * re-embedded individually and their parents are then re-pooled.
+   */
+  static async backfillEmbeddings(options: { userId?: string; batchSize?: number; dryRun?: boolean } = {}): Promise<{ pending: number; updated: number }> {
+    try {
+      const batchSize = options.batchSize ?? EMBEDDING_BATCH_SIZE;
+      const embeddingModel = this.getEmbeddingModel();
+
+      let where = 'chunk_count = 0 AND (embedding IS NULL OR embedding_model IS DISTINCT FROM $1)';
+      const filterValues: any[] = [embeddingModel];
+      if (options.userId) {
+        where += ' AND user_id = $2';
+        filterValues.push(options.userId);
+      }
+
+      const countResult = await db.query(`SELECT COUNT(*) AS count FROM vector_documents WHERE ${where}`, filterValues);
+      const pending = parseInt(countResult.rows[0].count);
+
+      if (options.dryRun) {
+        return { pending, updated: 0 };
+      }
+
+      let updated = 0;
+      let lastId: string | null = null;
+
+      // Walk by id so documents that fail to update are not retried forever
+      for (;;) {
+        const batchValues: any[] = [...filterValues, batchSize];
+        let batchQuery = `SELECT id, content FROM vector_documents WHERE ${where}`;
+        if (lastId) {
+          batchValues.push(lastId);
+          batchQuery += ` AND id > $${batchValues.length}`;
+        }
+        batchQuery += ` ORDER BY id LIMIT $${filterValues.length + 1}`;
+
+        const batch = await db.query(batchQuery, batchValues);
+        if (batch.rows.length === 0) {
+          break;
+        }
+
+        const embeddings = await this.generateEmbeddings(batch.rows.map(row => row.content));
+
+        const values: any[] = [embeddingModel];
+        const rows = batch.rows.map((row, i) => {
+          values.push(row.id, `[${embeddings[i]!.join(',')}]`);
+          return `($${values.length - 1}::uuid, $${values.length}::vector)`;
+        });
+
+        const result = await db.query(`
+          UPDATE vector_documents v
+          SET embedding = d.embedding, embedding_model = $1, updated_at = CURRENT_TIMESTAMP
+          FROM (VALUES ${rows.join(', ')}) AS d(id, embedding)
+          WHERE v.id = d.id
+        `, values);
+
+        updated += result.rowCount ?? 0;
+        lastId = batch.rows[batch.rows.length - 1].id;
+        logger.info(`Backfilled ${updated}/${pending} embeddings with ${embeddingModel}`);
+      }
+
+      // Chunked documents are represented by the mean of their chunk embeddings
+      await db.query(`
+        UPDATE vector_documents p
+        SET embedding = c.embedding, embedding_model = $1, updated_at = CURRENT_TIMESTAMP
+        FROM (
+          SELECT parent_id, AVG(embedding) AS embedding
+          FROM vector_documents
+          WHERE parent_id IS NOT NULL
+          GROUP BY parent_id
+          HAVING bool_and(embedding IS NOT NULL AND embedding_model = $1)
+        ) c
+        WHERE p.id = c.parent_id AND p.embedding_model IS DISTINCT FROM $1
+        ${options.userId ? 'AND p.user_id = $2' : ''}
+      `, filterValues);
+
+      return { pending, updated };
+    } catch (error) {
+      logger.error('Embedding backfill failed:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get document statistics for a user
    */
@@ -412,7 +1042,7 @@ export class VectorDatabaseService {
       const query = `
         SELECT document_type, COUNT(*) as count
         FROM vector_documents
-        WHERE user_id = $1
+        WHERE user_id = $1 AND parent_id IS NULL
         GROUP BY document_type
       `;
 
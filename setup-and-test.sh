@@ -7,6 +7,12 @@ echo "=================================================="
 echo "📦 Installing root dependencies..."
 npm install
 
+# Install and build the shared package before the server, which links it
+echo "📦 Installing shared dependencies..."
+cd shared
+npm install
+cd ..
+
 # Install server dependencies
 echo "📦 Installing server dependencies..."
 cd server
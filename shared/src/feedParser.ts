@@ -0,0 +1,270 @@
+import { createHash } from 'crypto';
+import { XMLParser } from 'fast-xml-parser';
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+export interface FeedEntry {
+  guid: string;
+  url?: string;
+  title: string;
+  summary?: string;
+  content?: string;
+  author?: string;
+  publishedAt?: Date;
+}
+
+export interface ParsedFeed {
+  format: FeedFormat;
+  title?: string;
+  siteUrl?: string;
+  entries: FeedEntry[];
+}
+
+const SUMMARY_MAX_LENGTH = 500;
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  // content:encoded, dc:creator and rdf:RDF become encoded, creator and RDF
+  removeNSPrefix: true,
+  parseTagValue: false,
+  htmlEntities: true,
+  isArray: name => ['item', 'entry', 'link', 'author'].includes(name)
+});
+
+/**
+ * Text of an XML node, whether it was parsed as a plain string, a CDATA
+ * section or an element with attributes
+ */
+const text = (node: unknown): string | undefined => {
+  if (node === undefined || node === null) {
+    return undefined;
+  }
+  if (Array.isArray(node)) {
+    // RSS channels often mix <link>url</link> with an attribute-only atom:link
+    for (const element of node) {
+      const value = text(element);
+      if (value) {
+        return value;
+      }
+    }
+    return undefined;
+  }
+  if (typeof node === 'object') {
+    // Own text plus child elements, which covers inline XHTML content
+    const parts = Object.entries(node as Record<string, unknown>)
+      .filter(([key]) => !key.startsWith('@_'))
+      .map(([, value]) => text(value))
+      .filter(Boolean);
+    return parts.join(' ') || undefined;
+  }
+  const value = String(node).trim();
+  return value || undefined;
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  hellip: '…', mdash: '—', ndash: '–', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”'
+};
+
+const decodeEntities = (value: string): string =>
+  value.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, code: string) => {
+    if (code.startsWith('#')) {
+      const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+const stripHtml = (html: string): string =>
+  decodeEntities(
+    html
+      .replace(/<(script|style)[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<[^>]*>/g, ' ')
+  )
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const summarize = (html: string | undefined): string | undefined => {
+  if (!html) {
+    return undefined;
+  }
+  const plain = stripHtml(html);
+  if (!plain) {
+    return undefined;
+  }
+  return plain.length > SUMMARY_MAX_LENGTH ? `${plain.slice(0, SUMMARY_MAX_LENGTH - 1).trimEnd()}…` : plain;
+};
+
+const parseDate = (value: string | undefined): Date | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+const resolveUrl = (url: string | undefined, base: string | undefined): string | undefined => {
+  if (!url) {
+    return undefined;
+  }
+  try {
+    return new URL(url, base).toString();
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * Stable identity for an entry: its GUID/id, else its URL, else a hash of
+ * its title and date so feeds without either still dedupe
+ */
+const entryGuid = (guid: string | undefined, url: string | undefined, title: string, date: string | undefined): string =>
+  guid || url || `sha256:${createHash('sha256').update(`${title}\n${date ?? ''}`).digest('hex')}`;
+
+const buildEntry = (fields: {
+  guid?: string | undefined;
+  url?: string | undefined;
+  title?: string | undefined;
+  summary?: string | undefined;
+  content?: string | undefined;
+  author?: string | undefined;
+  date?: string | undefined;
+}): FeedEntry => {
+  const title = fields.title ? stripHtml(fields.title) : fields.url || 'Untitled';
+  const summary = summarize(fields.summary ?? fields.content);
+  const content = fields.content ? stripHtml(fields.content) : undefined;
+  const publishedAt = parseDate(fields.date);
+
+  return {
+    guid: entryGuid(fields.guid, fields.url, title, fields.date),
+    title,
+    ...(fields.url && { url: fields.url }),
+    ...(summary && { summary }),
+    ...(content && { content }),
+    ...(fields.author && { author: fields.author }),
+    ...(publishedAt && { publishedAt })
+  };
+};
+
+/**
+ * Pick the href of an Atom link, preferring rel="alternate" (the default rel)
+ */
+const atomLink = (links: Record<string, unknown>[] | undefined): string | undefined => {
+  if (!links) {
+    return undefined;
+  }
+  const alternate = links.find(link => !link['@_rel'] || link['@_rel'] === 'alternate') ?? links[0];
+  return alternate ? text(alternate['@_href']) : undefined;
+};
+
+const parseRss = (channel: Record<string, any>, items: Record<string, any>[], baseUrl?: string): ParsedFeed => {
+  const siteUrl = resolveUrl(text(channel['link']), baseUrl);
+
+  return {
+    format: 'rss',
+    ...(text(channel['title']) && { title: stripHtml(text(channel['title'])!) }),
+    ...(siteUrl && { siteUrl }),
+    entries: items.map(item => {
+      const url = resolveUrl(text(item['link']), siteUrl ?? baseUrl);
+      return buildEntry({
+        guid: text(item['guid']) ?? text(item['@_about']),
+        url,
+        title: text(item['title']),
+        summary: text(item['description']),
+        content: text(item['encoded']),
+        author: text(item['creator']) ?? text(item['author']),
+        date: text(item['pubDate']) ?? text(item['date'])
+      });
+    })
+  };
+};
+
+const parseAtom = (feed: Record<string, any>, baseUrl?: string): ParsedFeed => {
+  const siteUrl = resolveUrl(atomLink(feed['link']), baseUrl);
+  const entries: Record<string, any>[] = feed['entry'] ?? [];
+
+  return {
+    format: 'atom',
+    ...(text(feed['title']) && { title: stripHtml(text(feed['title'])!) }),
+    ...(siteUrl && { siteUrl }),
+    entries: entries.map(entry => {
+      const authors: Record<string, any>[] = entry['author'] ?? feed['author'] ?? [];
+      return buildEntry({
+        guid: text(entry['id']),
+        url: resolveUrl(atomLink(entry['link']), siteUrl ?? baseUrl),
+        title: text(entry['title']),
+        summary: text(entry['summary']),
+        content: text(entry['content']),
+        author: authors.map(author => text(author['name'])).filter(Boolean).join(', ') || undefined,
+        date: text(entry['published']) ?? text(entry['updated'])
+      });
+    })
+  };
+};
+
+const parseJsonFeed = (feed: Record<string, any>, baseUrl?: string): ParsedFeed => {
+  const siteUrl = resolveUrl(feed['home_page_url'], baseUrl);
+  const items: Record<string, any>[] = Array.isArray(feed['items']) ? feed['items'] : [];
+
+  return {
+    format: 'json',
+    ...(typeof feed['title'] === 'string' && { title: feed['title'] }),
+    ...(siteUrl && { siteUrl }),
+    entries: items.map(item => {
+      // Version 1.1 has an authors array; 1.0 has a single author
+      const authors: Record<string, any>[] = item['authors'] ?? (item['author'] ? [item['author']] : feed['authors'] ?? []);
+      return buildEntry({
+        guid: item['id'] !== undefined ? String(item['id']) : undefined,
+        url: resolveUrl(item['url'] ?? item['external_url'], siteUrl ?? baseUrl),
+        title: item['title'],
+        summary: item['summary'],
+        content: item['content_html'] ?? item['content_text'],
+        author: authors.map(author => author['name']).filter(Boolean).join(', ') || undefined,
+        date: item['date_published'] ?? item['date_modified']
+      });
+    })
+  };
+};
+
+/**
+ * Parse an RSS 0.9x/2.0, RSS 1.0 (RDF), Atom 1.0 or JSON Feed 1.x document.
+ * Relative links are resolved against the feed's site URL or `baseUrl`.
+ */
+export const parseFeed = (body: string, baseUrl?: string): ParsedFeed => {
+  const trimmed = body.trim().replace(/^\uFEFF/, '');
+
+  if (trimmed.startsWith('{')) {
+    let json: Record<string, any>;
+    try {
+      json = JSON.parse(trimmed);
+    } catch {
+      throw new Error('Feed is not valid JSON');
+    }
+    if (typeof json['version'] !== 'string' || !json['version'].startsWith('https://jsonfeed.org/version/')) {
+      throw new Error('JSON document is not a JSON Feed');
+    }
+    return parseJsonFeed(json, baseUrl);
+  }
+
+  let document: Record<string, any>;
+  try {
+    document = xmlParser.parse(trimmed);
+  } catch {
+    throw new Error('Feed is not valid XML');
+  }
+
+  if (document['rss']?.['channel']) {
+    const channel = document['rss']['channel'];
+    return parseRss(channel, channel['item'] ?? [], baseUrl);
+  }
+  if (document['RDF']) {
+    const rdf = document['RDF'];
+    return parseRss(rdf['channel'] ?? {}, rdf['item'] ?? [], baseUrl);
+  }
+  if (document['feed']) {
+    return parseAtom(document['feed'], baseUrl);
+  }
+
+  throw new Error('Document is not an RSS, Atom or JSON feed');
+};
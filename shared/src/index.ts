@@ -0,0 +1,2 @@
+export * from './searchProviders';
+export * from './feedParser';
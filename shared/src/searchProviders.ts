@@ -0,0 +1,330 @@
+import { readFileSync } from 'fs';
+
+// The search provider interface both the server and the MCP servers speak
+
+export type SearchCategory = 'web' | 'news' | 'images' | 'videos';
+
+export interface SearchOptions {
+  maxResults?: number;
+  category?: SearchCategory;
+}
+
+/**
+ * A single hit as returned by a provider. `score` is normalized to 0-1 when
+ * the backend reports one; `source` is the publisher or host name.
+ */
+export interface SearchHit {
+  title: string;
+  url: string;
+  snippet: string;
+  source: string;
+  publishedDate?: string;
+  score?: number;
+}
+
+/**
+ * Runs a query against one search backend and returns hits in rank order.
+ * Providers throw on transport or backend errors so callers can fall back.
+ */
+export interface SearchProvider {
+  readonly name: string;
+  search(query: string, options?: SearchOptions): Promise<SearchHit[]>;
+}
+
+export type SearchProviderName = 'searxng' | 'json' | 'fixture';
+
+/**
+ * Where provider failures are reported; either service's winston logger fits
+ */
+export interface SearchLogger {
+  warn(message: string, ...meta: unknown[]): void;
+}
+
+export interface JsonSearchApiConfig {
+  url: string;
+  apiKey?: string;
+  // Header carrying the key; "Authorization" sends it as a bearer token
+  apiKeyHeader?: string;
+  queryParam?: string;
+  limitParam?: string;
+  // Dot path to the result array in the response, e.g. "web.results"
+  resultsPath?: string;
+}
+
+export interface SearchProviderConfig {
+  providers?: SearchProviderName[];
+  searxngUrl?: string;
+  jsonApi?: JsonSearchApiConfig;
+  fixturePath?: string;
+  timeoutMs?: number;
+  logger?: SearchLogger;
+}
+
+const DEFAULT_MAX_RESULTS = 10;
+const DEFAULT_TIMEOUT_MS = 10000;
+const USER_AGENT = 'ANIDHI/1.0.0';
+
+const hostOf = (url: string): string => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+};
+
+const pick = (record: Record<string, unknown>, keys: string[]): string | undefined => {
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === 'string' && value.trim()) {
+      return value.trim();
+    }
+  }
+  return undefined;
+};
+
+const getPath = (value: unknown, path: string): unknown =>
+  path.split('.').filter(Boolean).reduce<unknown>(
+    (current, key) => (current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined),
+    value
+  );
+
+const toIsoDate = (value: string | undefined): string | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+const fixtureKey = (query: string): string => query.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const getJson = async (url: URL, headers: Record<string, string>, timeoutMs: number): Promise<unknown> => {
+  const response = await fetch(url, {
+    headers: { 'User-Agent': USER_AGENT, Accept: 'application/json', ...headers },
+    signal: AbortSignal.timeout(timeoutMs)
+  });
+
+  if (!response.ok) {
+    throw new Error(`Search request to ${url.host} failed with status ${response.status}`);
+  }
+
+  return response.json();
+};
+
+/**
+ * Self-hosted SearXNG instance via its JSON API. The instance must list
+ * "json" under search.formats in settings.yml.
+ */
+export class SearxngSearchProvider implements SearchProvider {
+  readonly name = 'searxng';
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly timeoutMs: number = DEFAULT_TIMEOUT_MS
+  ) {}
+
+  async search(query: string, options: SearchOptions = {}): Promise<SearchHit[]> {
+    const url = new URL('search', this.baseUrl.endsWith('/') ? this.baseUrl : `${this.baseUrl}/`);
+    url.searchParams.set('q', query);
+    url.searchParams.set('format', 'json');
+    url.searchParams.set('categories', options.category === 'web' || !options.category ? 'general' : options.category);
+
+    const body = await getJson(url, {}, this.timeoutMs);
+    const results = (getPath(body, 'results') as Record<string, unknown>[] | undefined) ?? [];
+
+    // SearXNG scores are unbounded sums of engine weights, so scale by the best hit
+    const maxScore = Math.max(0, ...results.map(result => Number(result['score']) || 0));
+
+    return results
+      .filter(result => typeof result['url'] === 'string')
+      .slice(0, options.maxResults ?? DEFAULT_MAX_RESULTS)
+      .map(result => {
+        const hitUrl = result['url'] as string;
+        const publishedDate = toIsoDate(pick(result, ['publishedDate']));
+        const score = Number(result['score']) || 0;
+        return {
+          title: pick(result, ['title']) ?? hitUrl,
+          url: hitUrl,
+          snippet: pick(result, ['content']) ?? '',
+          source: hostOf(hitUrl) || pick(result, ['engine']) || 'searxng',
+          ...(publishedDate && { publishedDate }),
+          ...(maxScore > 0 && { score: score / maxScore })
+        };
+      });
+  }
+}
+
+/**
+ * Any HTTP search API that answers a GET with a JSON array of results.
+ * Common field names (url/link, snippet/description/content, date/age) are
+ * recognised, so Brave, Serper-style and in-house APIs work without code.
+ */
+export class JsonApiSearchProvider implements SearchProvider {
+  readonly name = 'json';
+
+  constructor(
+    private readonly config: JsonSearchApiConfig,
+    private readonly timeoutMs: number = DEFAULT_TIMEOUT_MS
+  ) {}
+
+  async search(query: string, options: SearchOptions = {}): Promise<SearchHit[]> {
+    const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+    const url = new URL(this.config.url);
+    url.searchParams.set(this.config.queryParam ?? 'q', query);
+    if (this.config.limitParam) {
+      url.searchParams.set(this.config.limitParam, String(maxResults));
+    }
+    if (options.category && options.category !== 'web') {
+      url.searchParams.set('category', options.category);
+    }
+
+    const headers: Record<string, string> = {};
+    if (this.config.apiKey) {
+      const header = this.config.apiKeyHeader ?? 'Authorization';
+      headers[header] = header.toLowerCase() === 'authorization' ? `Bearer ${this.config.apiKey}` : this.config.apiKey;
+    }
+
+    const body = await getJson(url, headers, this.timeoutMs);
+    const results = getPath(body, this.config.resultsPath ?? 'results');
+    if (!Array.isArray(results)) {
+      throw new Error(`Search API response has no result array at "${this.config.resultsPath ?? 'results'}"`);
+    }
+
+    return (results as Record<string, unknown>[])
+      .map(result => {
+        const hitUrl = pick(result, ['url', 'link', 'href']);
+        if (!hitUrl) {
+          return null;
+        }
+        const publishedDate = toIsoDate(pick(result, ['publishedDate', 'published_at', 'date', 'page_age']));
+        const score = Number(result['score']);
+        const hit: SearchHit = {
+          title: pick(result, ['title', 'name']) ?? hitUrl,
+          url: hitUrl,
+          snippet: pick(result, ['snippet', 'description', 'content', 'summary']) ?? '',
+          source: pick(result, ['source']) ?? hostOf(hitUrl),
+          ...(publishedDate && { publishedDate }),
+          ...(score >= 0 && score <= 1 && { score })
+        };
+        return hit;
+      })
+      .filter((hit): hit is SearchHit => hit !== null)
+      .slice(0, maxResults);
+  }
+}
+
+/**
+ * Replays recorded results keyed by normalized query, for tests and offline
+ * development. Unknown queries return no hits. Every query is recorded.
+ */
+export class FixtureSearchProvider implements SearchProvider {
+  readonly name = 'fixture';
+  readonly calls: { query: string; options: SearchOptions }[] = [];
+  private readonly fixtures = new Map<string, SearchHit[]>();
+
+  constructor(fixtures: Record<string, SearchHit[]> = {}) {
+    for (const [query, hits] of Object.entries(fixtures)) {
+      this.fixtures.set(fixtureKey(query), hits);
+    }
+  }
+
+  /**
+   * Load fixtures from a JSON file shaped as { "<query>": [hits] }
+   */
+  static fromFile(path: string): FixtureSearchProvider {
+    return new FixtureSearchProvider(JSON.parse(readFileSync(path, 'utf8')));
+  }
+
+  async search(query: string, options: SearchOptions = {}): Promise<SearchHit[]> {
+    this.calls.push({ query, options });
+    return (this.fixtures.get(fixtureKey(query)) ?? []).slice(0, options.maxResults ?? DEFAULT_MAX_RESULTS);
+  }
+}
+
+/**
+ * Tries each provider in order and returns the first successful answer.
+ * An empty result is an answer; only errors move on to the next provider.
+ */
+export class FallbackSearchProvider implements SearchProvider {
+  readonly name: string;
+
+  constructor(
+    private readonly providers: SearchProvider[],
+    private readonly logger: SearchLogger = console
+  ) {
+    if (providers.length === 0) {
+      throw new Error('FallbackSearchProvider needs at least one provider');
+    }
+    this.name = providers.map(provider => provider.name).join('>');
+  }
+
+  async search(query: string, options: SearchOptions = {}): Promise<SearchHit[]> {
+    let lastError: unknown;
+    for (const provider of this.providers) {
+      try {
+        return await provider.search(query, options);
+      } catch (error) {
+        lastError = error;
+        this.logger.warn(`Search provider ${provider.name} failed, trying the next one:`, error);
+      }
+    }
+    throw lastError;
+  }
+}
+
+/**
+ * Build a provider from explicit config, falling back to environment variables:
+ * SEARCH_PROVIDERS (comma-separated fallback order), SEARXNG_URL, SEARCH_API_URL,
+ * SEARCH_API_KEY, SEARCH_API_KEY_HEADER, SEARCH_API_QUERY_PARAM,
+ * SEARCH_API_LIMIT_PARAM, SEARCH_API_RESULTS_PATH, SEARCH_FIXTURE_PATH and
+ * SEARCH_TIMEOUT_MS. Without an explicit order, every configured backend is
+ * used, SearXNG first.
+ */
+export const createSearchProvider = (config: SearchProviderConfig = {}): SearchProvider => {
+  const env = process.env;
+  const searxngUrl = config.searxngUrl ?? env['SEARXNG_URL'];
+  const fixturePath = config.fixturePath ?? env['SEARCH_FIXTURE_PATH'];
+  const timeoutMs = config.timeoutMs ?? (parseInt(env['SEARCH_TIMEOUT_MS'] || '') || DEFAULT_TIMEOUT_MS);
+  const jsonApi: JsonSearchApiConfig | undefined = config.jsonApi ?? (env['SEARCH_API_URL'] ? {
+    url: env['SEARCH_API_URL'],
+    ...(env['SEARCH_API_KEY'] && { apiKey: env['SEARCH_API_KEY'] }),
+    ...(env['SEARCH_API_KEY_HEADER'] && { apiKeyHeader: env['SEARCH_API_KEY_HEADER'] }),
+    ...(env['SEARCH_API_QUERY_PARAM'] && { queryParam: env['SEARCH_API_QUERY_PARAM'] }),
+    ...(env['SEARCH_API_LIMIT_PARAM'] && { limitParam: env['SEARCH_API_LIMIT_PARAM'] }),
+    ...(env['SEARCH_API_RESULTS_PATH'] && { resultsPath: env['SEARCH_API_RESULTS_PATH'] })
+  } : undefined);
+
+  const names = config.providers
+    ?? (env['SEARCH_PROVIDERS']
+      ? env['SEARCH_PROVIDERS'].split(',').map(name => name.trim()).filter(Boolean) as SearchProviderName[]
+      : [
+        ...(searxngUrl ? ['searxng' as const] : []),
+        ...(jsonApi ? ['json' as const] : []),
+        ...(fixturePath ? ['fixture' as const] : [])
+      ]);
+
+  if (names.length === 0) {
+    throw new Error('No search provider configured: set SEARXNG_URL, SEARCH_API_URL or SEARCH_PROVIDERS');
+  }
+
+  const providers = names.map((name): SearchProvider => {
+    switch (name) {
+      case 'searxng':
+        if (!searxngUrl) {
+          throw new Error('The searxng search provider needs SEARXNG_URL');
+        }
+        return new SearxngSearchProvider(searxngUrl, timeoutMs);
+      case 'json':
+        if (!jsonApi) {
+          throw new Error('The json search provider needs SEARCH_API_URL');
+        }
+        return new JsonApiSearchProvider(jsonApi, timeoutMs);
+      case 'fixture':
+        return fixturePath ? FixtureSearchProvider.fromFile(fixturePath) : new FixtureSearchProvider();
+      default:
+        throw new Error(`Unknown search provider: ${name}`);
+    }
+  });
+
+  return providers.length === 1 ? providers[0]! : new FallbackSearchProvider(providers, config.logger);
+};